@@ -1,8 +1,15 @@
 import React from 'react';
 import { BrowserRouter as Router, Routes, Route, Link } from 'react-router-dom';
 import { ComplianceResults } from './components/ComplianceResults';
+import { AnalysisProgress } from './components/AnalysisProgress';
 import Documentation from './pages/Documentation';
-import { getApiUrl, debugConfig } from './config/environment';
+import TaskTracker from './pages/TaskTracker';
+import AnalysisHistory from './pages/AnalysisHistory';
+import RuleReview from './pages/RuleReview';
+import ComplianceRules from './pages/ComplianceRules';
+import type { BusinessLocation, CompliancePlan, ComplianceRule, ComplianceScore, CostForecast, LocationBreakdown, SearchProgress } from './types';
+import { debugConfig } from './config/environment';
+import { complianceAnalysisApi } from './services/api';
 
 // Error Boundary Component
 class ErrorBoundary extends React.Component<{children: React.ReactNode}, {hasError: boolean, error?: Error}> {
@@ -49,6 +56,21 @@ class ErrorBoundary extends React.Component<{children: React.ReactNode}, {hasErr
   }
 }
 
+const STATE_OPTIONS: Array<[string, string]> = [
+  ['CA', 'California'], ['NY', 'New York'], ['TX', 'Texas'], ['FL', 'Florida'],
+  ['IL', 'Illinois'], ['WA', 'Washington'], ['MA', 'Massachusetts'], ['NJ', 'New Jersey'],
+  ['VA', 'Virginia'], ['CO', 'Colorado'], ['AZ', 'Arizona'], ['PA', 'Pennsylvania'],
+  ['OH', 'Ohio'], ['GA', 'Georgia'], ['NC', 'North Carolina'], ['MI', 'Michigan']
+];
+
+// Other sites the business operates; employees left blank share the headcount not counted elsewhere
+interface LocationInput {
+  city: string;
+  state: string;
+  locationType: BusinessLocation['location_type'];
+  employees: string;
+}
+
 // Single-Screen Business Compliance Checker
 const ComplianceChecker = () => {
   // Debug environment configuration in development
@@ -65,34 +87,51 @@ const ComplianceChecker = () => {
     state: '',
     employees: '',
     revenue: '',
+    formationDate: '',
+    fiscalYearEnd: '',
     businessDescription: ''
   });
 
+  const [operatingLocations, setOperatingLocations] = React.useState<LocationInput[]>([]);
+
   const [complianceResults, setComplianceResults] = React.useState<any[]>([]);
   const [aiReport, setAiReport] = React.useState<string>('');
   const [isAnalyzing, setIsAnalyzing] = React.useState(false);
   const [hasAnalyzed, setHasAnalyzed] = React.useState(false);
   const [showResults, setShowResults] = React.useState(false);
+  const [sessionId, setSessionId] = React.useState<string>('');
+  const [analysisId, setAnalysisId] = React.useState<string>('');
+  const [compliancePlan, setCompliancePlan] = React.useState<CompliancePlan | null>(null);
+  const [costForecast, setCostForecast] = React.useState<CostForecast | null>(null);
+  const [riskAssessment, setRiskAssessment] = React.useState<ComplianceScore | null>(null);
+  const [locationBreakdown, setLocationBreakdown] = React.useState<LocationBreakdown | null>(null);
 
-  // Progress tracking for the main analysis
-  const [analysisProgress, setAnalysisProgress] = React.useState<any>(null);
+  // Progress streamed from the server for the main analysis, and rules as they're found
+  const [progressEvents, setProgressEvents] = React.useState<SearchProgress[]>([]);
+  const [streamedRules, setStreamedRules] = React.useState<ComplianceRule[]>([]);
 
   const handleInputChange = (field: string, value: any) => {
     setBusinessData(prev => ({ ...prev, [field]: value }));
   };
 
+  const updateLocation = (index: number, field: keyof LocationInput, value: string) => {
+    setOperatingLocations(prev => prev.map((location, i) => i === index ? { ...location, [field]: value } : location));
+  };
+
   const handleBackToForm = () => {
     setShowResults(false);
     setHasAnalyzed(false);
     setIsAnalyzing(false);
-    setAnalysisProgress(null);
+    setProgressEvents([]);
+    setStreamedRules([]);
   };
 
 
 
   const analyzeCompliance = async () => {
     setIsAnalyzing(true);
-    setAnalysisProgress({ step: 'starting', percentage: 5, message: 'Starting compliance analysis...' });
+    setProgressEvents([{ step: 'starting', percentage: 0, message: 'Starting compliance analysis...' }]);
+    setStreamedRules([]);
 
     try {
       // Create business profile with session ID
@@ -103,82 +142,54 @@ const ComplianceChecker = () => {
         state: businessData.state,
         employees: businessData.employees,
         revenue: businessData.revenue,
+        formationDate: businessData.formationDate,
+        fiscalYearEnd: businessData.fiscalYearEnd,
         description: businessData.businessDescription,
+        operating_locations: operatingLocations
+          .filter(location => location.state)
+          .map(location => ({
+            city: location.city,
+            state: location.state,
+            location_type: location.locationType,
+            ...(location.employees !== '' && { employee_count: Number(location.employees) })
+          })),
         session_id: `session_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString()
       };
 
       console.log('🚀 Starting enhanced compliance analysis with real-time search...');
-      setAnalysisProgress({ step: 'enhanced_search', percentage: 15, message: 'Searching government databases in real-time...' });
-
-      // Start progressive loading simulation
-      const progressInterval = setInterval(() => {
-        setAnalysisProgress((prev: any) => {
-          if (!prev || prev.percentage >= 95) return prev;
-          const newPercentage = Math.min(prev.percentage + Math.random() * 5 + 2, 95);
-          let newMessage = prev.message;
-          let newStep = prev.step;
-
-          if (newPercentage >= 25 && prev.step === 'enhanced_search') {
-            newStep = 'searching_apis';
-            newMessage = 'Searching Regulations.gov and SBA databases...';
-          } else if (newPercentage >= 45 && prev.step === 'searching_apis') {
-            newStep = 'collecting_data';
-            newMessage = 'Collecting and processing compliance data...';
-          } else if (newPercentage >= 65 && prev.step === 'collecting_data') {
-            newStep = 'processing';
-            newMessage = 'Processing rules and generating AI report...';
-          } else if (newPercentage >= 85 && prev.step === 'processing') {
-            newStep = 'finalizing';
-            newMessage = 'Finalizing compliance analysis...';
-          }
-
-          return { step: newStep, percentage: Math.round(newPercentage), message: newMessage };
-        });
-      }, 1500);
 
-      // Use enhanced analysis with real-time search
-      const response = await fetch(getApiUrl('/compliance/analyze-enhanced'), {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(profileWithSession),
+      // Real progress and partial results streamed from the server
+      const result = await complianceAnalysisApi.analyzeEnhancedStream(profileWithSession, {
+        onProgress: progress => setProgressEvents(prev => [...prev, progress]),
+        onRules: rules => setStreamedRules(prev => [...prev, ...rules])
       });
-
-      clearInterval(progressInterval);
-
-      if (!response.ok) {
-        throw new Error(`Enhanced analysis failed with status: ${response.status}`);
-      }
-
-      setAnalysisProgress({ step: 'processing', percentage: 95, message: 'Processing compliance rules and generating report...' });
-
-      const result = await response.json();
       console.log('📊 Enhanced API Response received:', result);
 
-      if (result.success) {
-        console.log('✅ Setting compliance results:', result.data.matching_rules?.length || 0, 'rules');
-        console.log('🤖 Setting AI report length:', result.data.ai_report?.length || 0, 'characters');
-
-        setComplianceResults(result.data.matching_rules || []);
-        setAiReport(result.data.ai_report || '');
-        setHasAnalyzed(true);
-        setAnalysisProgress({ step: 'complete', percentage: 100, message: 'Compliance analysis completed successfully!' });
+      console.log('✅ Setting compliance results:', result.matching_rules?.length || 0, 'rules');
+      console.log('🤖 Setting AI report length:', result.ai_report?.length || 0, 'characters');
+
+      setComplianceResults(result.matching_rules || []);
+      setAiReport(result.ai_report || '');
+      setCompliancePlan(result.plan || null);
+      setCostForecast(result.cost_forecast || null);
+      setRiskAssessment(result.risk_assessment || null);
+      setLocationBreakdown(result.location_breakdown || null);
+      setSessionId(profileWithSession.session_id);
+      setAnalysisId(result.analysis_id || '');
+      setHasAnalyzed(true);
+      setProgressEvents(prev => [...prev, { step: 'complete', percentage: 100, message: 'Compliance analysis completed successfully!' }]);
 
-        // Navigate to results page after a short delay
-        setTimeout(() => {
-          setShowResults(true);
-        }, 2000);
+      // Navigate to results page after a short delay
+      setTimeout(() => {
+        setShowResults(true);
+      }, 2000);
 
-        // Log enhanced search metadata if available
-        if (result.data.metadata?.search_enhanced) {
-          console.log('🔍 Enhanced real-time search was used for this analysis');
-          console.log('📊 Search stats:', result.data.metadata);
-        }
-      } else {
-        throw new Error(result.error || 'Analysis failed');
+      // Log enhanced search metadata if available
+      if (result.metadata?.search_enhanced) {
+        console.log('🔍 Enhanced real-time search was used for this analysis');
+        console.log('📊 Search stats:', result.metadata);
       }
 
     } catch (error) {
@@ -291,6 +302,11 @@ const ComplianceChecker = () => {
       }
 
       setComplianceResults(mockResults);
+      setCompliancePlan(null);
+      setCostForecast(null);
+      setRiskAssessment(null);
+      setLocationBreakdown(null);
+      setAnalysisId('');
       setHasAnalyzed(true);
     } finally {
       setIsAnalyzing(false);
@@ -324,6 +340,12 @@ const ComplianceChecker = () => {
         complianceResults={complianceResults}
         aiReport={aiReport}
         businessData={businessData}
+        sessionId={sessionId}
+        analysisId={analysisId}
+        plan={compliancePlan}
+        costForecast={costForecast}
+        riskAssessment={riskAssessment}
+        locationBreakdown={locationBreakdown}
         onBack={handleBackToForm}
       />
     );
@@ -341,13 +363,29 @@ const ComplianceChecker = () => {
               </div>
               <h1 className="text-xl font-bold text-gray-900">Business Compliance Platform</h1>
             </div>
-            <Link
-              to="/documentation"
-              className="flex items-center space-x-2 px-4 py-2 text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded-lg transition-colors"
-            >
-              <span>📚</span>
-              <span>Technical Documentation</span>
-            </Link>
+            <div className="flex items-center space-x-2">
+              <Link
+                to="/rules"
+                className="flex items-center space-x-2 px-4 py-2 text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded-lg transition-colors"
+              >
+                <span>🔎</span>
+                <span>Rule Library</span>
+              </Link>
+              <Link
+                to="/admin/reviews"
+                className="flex items-center space-x-2 px-4 py-2 text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded-lg transition-colors"
+              >
+                <span>🧑‍⚖️</span>
+                <span>Rule Review</span>
+              </Link>
+              <Link
+                to="/documentation"
+                className="flex items-center space-x-2 px-4 py-2 text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded-lg transition-colors"
+              >
+                <span>📚</span>
+                <span>Technical Documentation</span>
+              </Link>
+            </div>
           </div>
         </div>
       </div>
@@ -475,22 +513,9 @@ const ComplianceChecker = () => {
                     className="form-select"
                   >
                     <option value="">Select a state</option>
-                    <option value="CA">California</option>
-                    <option value="NY">New York</option>
-                    <option value="TX">Texas</option>
-                    <option value="FL">Florida</option>
-                    <option value="IL">Illinois</option>
-                    <option value="WA">Washington</option>
-                    <option value="MA">Massachusetts</option>
-                    <option value="NJ">New Jersey</option>
-                    <option value="VA">Virginia</option>
-                    <option value="CO">Colorado</option>
-                    <option value="AZ">Arizona</option>
-                    <option value="PA">Pennsylvania</option>
-                    <option value="OH">Ohio</option>
-                    <option value="GA">Georgia</option>
-                    <option value="NC">North Carolina</option>
-                    <option value="MI">Michigan</option>
+                    {STATE_OPTIONS.map(([code, name]) => (
+                      <option key={code} value={code}>{name}</option>
+                    ))}
                   </select>
                 </div>
 
@@ -514,6 +539,71 @@ const ComplianceChecker = () => {
                   </select>
                 </div>
 
+                {/* Other Locations */}
+                <div className="group">
+                  <label className="form-label">
+                    Other Locations
+                  </label>
+                  <div className="space-y-3">
+                    {operatingLocations.map((location, index) => (
+                      <div key={index} className="grid grid-cols-12 gap-2">
+                        <input
+                          type="text"
+                          value={location.city}
+                          onChange={(e) => updateLocation(index, 'city', e.target.value)}
+                          className="form-input col-span-4"
+                          placeholder="City"
+                        />
+                        <select
+                          value={location.state}
+                          onChange={(e) => updateLocation(index, 'state', e.target.value)}
+                          className="form-select col-span-3"
+                        >
+                          <option value="">State</option>
+                          {STATE_OPTIONS.map(([code]) => (
+                            <option key={code} value={code}>{code}</option>
+                          ))}
+                        </select>
+                        <select
+                          value={location.locationType}
+                          onChange={(e) => updateLocation(index, 'locationType', e.target.value)}
+                          className="form-select col-span-2"
+                        >
+                          <option value="branch">Branch</option>
+                          <option value="warehouse">Warehouse</option>
+                          <option value="retail">Retail</option>
+                        </select>
+                        <input
+                          type="number"
+                          min="0"
+                          value={location.employees}
+                          onChange={(e) => updateLocation(index, 'employees', e.target.value)}
+                          className="form-input col-span-2"
+                          placeholder="Staff"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setOperatingLocations(prev => prev.filter((_, i) => i !== index))}
+                          className="btn btn-secondary col-span-1"
+                          title="Remove location"
+                        >
+                          ✕
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setOperatingLocations(prev => [...prev, { city: '', state: '', locationType: 'branch', employees: '' }])}
+                    className="btn btn-secondary mt-3"
+                  >
+                    + Add location
+                  </button>
+                  <p className="mt-2 text-sm text-secondary-500">
+                    Offices, stores or warehouses outside your headquarters. Leave staff blank if unknown.
+                  </p>
+                </div>
+
                 {/* Annual Revenue */}
                 <div className="group">
                   <label className="form-label">
@@ -533,6 +623,45 @@ const ComplianceChecker = () => {
                   </select>
                 </div>
 
+                {/* Formation Date */}
+                <div className="group">
+                  <label className="form-label">
+                    Formation Date
+                  </label>
+                  <input
+                    type="date"
+                    value={businessData.formationDate}
+                    onChange={(e) => handleInputChange('formationDate', e.target.value)}
+                    className="form-input"
+                  />
+                </div>
+
+                {/* Fiscal Year End */}
+                <div className="group">
+                  <label className="form-label">
+                    Fiscal Year End
+                  </label>
+                  <select
+                    value={businessData.fiscalYearEnd}
+                    onChange={(e) => handleInputChange('fiscalYearEnd', e.target.value)}
+                    className="form-select"
+                  >
+                    <option value="">December (calendar year)</option>
+                    <option value="01">January</option>
+                    <option value="02">February</option>
+                    <option value="03">March</option>
+                    <option value="04">April</option>
+                    <option value="05">May</option>
+                    <option value="06">June</option>
+                    <option value="07">July</option>
+                    <option value="08">August</option>
+                    <option value="09">September</option>
+                    <option value="10">October</option>
+                    <option value="11">November</option>
+                    <option value="12">December</option>
+                  </select>
+                </div>
+
                 {/* Business Description */}
                 <div className="group">
                   <label className="form-label">
@@ -632,91 +761,7 @@ Examples:
                 </p>
 
                 {/* Real-time Progress Indicator */}
-                {analysisProgress && (
-                  <div className="space-y-6">
-                    <div className="flex items-center justify-between mb-3">
-                      <span className="text-sm font-semibold text-primary-900">
-                        {analysisProgress.message}
-                      </span>
-                      <span className="text-sm font-bold text-primary-600 bg-primary-50 px-3 py-1 rounded-full">
-                        {analysisProgress.percentage}%
-                      </span>
-                    </div>
-
-                    <div className="w-full bg-secondary-200 rounded-full h-4 overflow-hidden">
-                      <div
-                        className="bg-gradient-to-r from-primary-500 to-accent-500 h-4 rounded-full transition-all duration-700 ease-out shadow-glow"
-                        style={{ width: `${analysisProgress.percentage}%` }}
-                      ></div>
-                    </div>
-
-                    {/* Step Indicators */}
-                    <div className="grid grid-cols-2 gap-6 mt-8">
-                      <div className="flex items-center space-x-3 p-3 rounded-xl bg-white/50 backdrop-blur-sm">
-                        <div className={`w-4 h-4 rounded-full transition-all duration-300 ${
-                          analysisProgress.step === 'starting' || analysisProgress.percentage >= 5
-                            ? 'bg-success-500 shadow-glow' : 'bg-secondary-300'
-                        }`}></div>
-                        <span className={`text-sm font-medium ${analysisProgress.step === 'starting' ? 'text-primary-600' : 'text-secondary-600'}`}>
-                          📊 Initializing
-                        </span>
-                      </div>
-
-                      <div className="flex items-center space-x-3 p-3 rounded-xl bg-white/50 backdrop-blur-sm">
-                        <div className={`w-4 h-4 rounded-full transition-all duration-300 ${
-                          analysisProgress.step === 'enhanced_search' || analysisProgress.step === 'searching_apis' || analysisProgress.percentage >= 15
-                            ? 'bg-success-500 animate-pulse-soft shadow-glow' : 'bg-secondary-300'
-                        }`}></div>
-                        <span className={`text-sm font-medium ${(analysisProgress.step === 'enhanced_search' || analysisProgress.step === 'searching_apis') ? 'text-primary-600' : 'text-secondary-600'}`}>
-                          📡 Government APIs
-                        </span>
-                      </div>
-
-                      <div className="flex items-center space-x-3 p-3 rounded-xl bg-white/50 backdrop-blur-sm">
-                        <div className={`w-4 h-4 rounded-full transition-all duration-300 ${
-                          analysisProgress.step === 'collecting_data' || analysisProgress.percentage >= 45
-                            ? 'bg-success-500 shadow-glow' : analysisProgress.step === 'searching_apis' ? 'bg-warning-500 animate-pulse-soft' : 'bg-secondary-300'
-                        }`}></div>
-                        <span className={`text-sm font-medium ${analysisProgress.step === 'collecting_data' || analysisProgress.percentage >= 45 ? 'text-success-600' : 'text-secondary-600'}`}>
-                          📊 Data Collection
-                        </span>
-                      </div>
-
-                      <div className="flex items-center space-x-3 p-3 rounded-xl bg-white/50 backdrop-blur-sm">
-                        <div className={`w-4 h-4 rounded-full transition-all duration-300 ${
-                          analysisProgress.step === 'processing' || analysisProgress.percentage >= 65
-                            ? 'bg-success-500 shadow-glow' : analysisProgress.step === 'collecting_data' ? 'bg-warning-500 animate-pulse-soft' : 'bg-secondary-300'
-                        }`}></div>
-                        <span className={`text-sm font-medium ${analysisProgress.step === 'processing' || analysisProgress.percentage >= 65 ? 'text-success-600' : 'text-secondary-600'}`}>
-                          🤖 AI Processing
-                        </span>
-                      </div>
-
-                      <div className="flex items-center space-x-3 p-3 rounded-xl bg-white/50 backdrop-blur-sm">
-                        <div className={`w-4 h-4 rounded-full transition-all duration-300 ${
-                          analysisProgress.step === 'finalizing' || analysisProgress.percentage >= 85
-                            ? 'bg-success-500 animate-pulse-soft shadow-glow' : 'bg-secondary-300'
-                        }`}></div>
-                        <span className={`text-sm font-medium ${analysisProgress.step === 'finalizing' || analysisProgress.percentage >= 85 ? 'text-primary-600' : 'text-secondary-600'}`}>
-                          📋 Report Generation
-                        </span>
-                      </div>
-
-                    </div>
-
-                    <div className="mt-6 p-4 bg-white/30 backdrop-blur-sm rounded-xl">
-                      <p className="text-sm text-secondary-600 text-center">
-                        {analysisProgress.step === 'enhanced_search' && '🔍 Initializing real-time search...'}
-                        {analysisProgress.step === 'searching_apis' && '📡 Searching government databases...'}
-                        {analysisProgress.step === 'collecting_data' && '📊 Collecting compliance data...'}
-                        {analysisProgress.step === 'processing' && '🤖 Analyzing rules with AI...'}
-                        {analysisProgress.step === 'finalizing' && '📋 Generating your compliance report...'}
-                        {analysisProgress.step === 'complete' && '✅ Analysis complete! Your compliance report is ready.'}
-                        {!analysisProgress.step && '⏱️ This may take 30-60 seconds depending on your business complexity...'}
-                      </p>
-                    </div>
-                  </div>
-                )}
+                <AnalysisProgress events={progressEvents} rules={streamedRules} />
               </div>
             )}
 
@@ -939,6 +984,10 @@ function App() {
         <Routes>
           <Route path="/" element={<ComplianceChecker />} />
           <Route path="/documentation" element={<Documentation />} />
+          <Route path="/tasks/:sessionId" element={<TaskTracker />} />
+          <Route path="/history/:sessionId" element={<AnalysisHistory />} />
+          <Route path="/rules" element={<ComplianceRules />} />
+          <Route path="/admin/reviews" element={<RuleReview />} />
         </Routes>
       </Router>
     </ErrorBoundary>
@@ -0,0 +1,141 @@
+import React, { useMemo } from 'react';
+import type { ComplianceRule, SearchProgress, SearchSource } from '../types';
+
+interface AnalysisProgressProps {
+  events: SearchProgress[];
+  rules: ComplianceRule[];
+}
+
+type PhaseState = 'pending' | 'active' | 'done' | 'failed' | 'skipped';
+
+interface Phase {
+  key: string;
+  label: string;
+  state: PhaseState;
+  detail?: string;
+}
+
+const SOURCES: Array<{ source: SearchSource; label: string }> = [
+  { source: 'regulations', label: '📡 Regulations.gov' },
+  { source: 'sba', label: '🏢 SBA' },
+  { source: 'irs', label: '🏛️ IRS' }
+];
+
+const AI_STEPS = ['ai_processing', 'deduplicating', 'ai_categorizing', 'ai_batch_processing', 'ranking', 'storing'];
+const REPORT_STEPS = ['report', 'scoring'];
+
+const DOT_STYLES: Record<PhaseState, string> = {
+  pending: 'bg-secondary-300',
+  active: 'bg-warning-500 animate-pulse-soft',
+  done: 'bg-success-500 shadow-glow',
+  failed: 'bg-danger-500',
+  skipped: 'bg-secondary-300'
+};
+
+const PRIORITY_BADGES: Record<string, string> = {
+  critical: 'badge-danger',
+  high: 'badge-warning',
+  medium: 'badge-primary',
+  low: 'badge-secondary'
+};
+
+// Phases of the analysis, from every progress event received so far. Several
+// search queries run in parallel, so an API is active while any query waits on it;
+// an API never called before the report started was served from the search cache.
+const buildPhases = (events: SearchProgress[]): Phase[] => {
+  const steps = new Set(events.map(event => event.step));
+  const searchDone = REPORT_STEPS.some(step => steps.has(step));
+
+  const sourcePhases = SOURCES.map(({ source, label }): Phase => {
+    const started = events.filter(event => event.step === `${source}_api`).length;
+    const finished = events.filter(event => event.step === 'source_complete' && event.source === source);
+    const count = finished.reduce((sum, event) => sum + (event.count || 0), 0);
+
+    if (finished.length === 0) {
+      return { key: source, label, state: started > 0 ? 'active' : searchDone ? 'skipped' : 'pending' };
+    }
+    if (started > finished.length) {
+      return { key: source, label, state: 'active', detail: `${count} so far` };
+    }
+    const failed = finished.every(event => event.error);
+    return { key: source, label, state: failed ? 'failed' : 'done', detail: failed ? 'unavailable' : `${count} results` };
+  });
+
+  return [
+    { key: 'profile', label: '📊 Business profile', state: events.some(event => event.step !== 'starting') ? 'done' : 'active' },
+    ...sourcePhases,
+    {
+      key: 'ai',
+      label: '🤖 AI processing',
+      state: searchDone ? 'done' : AI_STEPS.some(step => steps.has(step)) ? 'active' : 'pending'
+    },
+    {
+      key: 'report',
+      label: '📋 Report generation',
+      state: searchDone && events[events.length - 1]?.step === 'complete' ? 'done' : searchDone ? 'active' : 'pending'
+    }
+  ];
+};
+
+export const AnalysisProgress: React.FC<AnalysisProgressProps> = ({ events, rules }) => {
+  const phases = useMemo(() => buildPhases(events), [events]);
+  const latest = events[events.length - 1];
+  // Parallel queries report out of order; never move the bar backwards
+  const percentage = events.reduce((max, event) => Math.max(max, event.percentage), 0);
+
+  if (!latest) return null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-sm font-semibold text-primary-900">
+          {latest.message}
+        </span>
+        <span className="text-sm font-bold text-primary-600 bg-primary-50 px-3 py-1 rounded-full">
+          {percentage}%
+        </span>
+      </div>
+
+      <div className="w-full bg-secondary-200 rounded-full h-4 overflow-hidden">
+        <div
+          className="bg-gradient-to-r from-primary-500 to-accent-500 h-4 rounded-full transition-all duration-700 ease-out shadow-glow"
+          style={{ width: `${percentage}%` }}
+        ></div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 mt-8">
+        {phases.map(phase => (
+          <div key={phase.key} className="flex items-center space-x-3 p-3 rounded-xl bg-white/50 backdrop-blur-sm">
+            <div className={`w-4 h-4 rounded-full transition-all duration-300 ${DOT_STYLES[phase.state]}`}></div>
+            <span className={`text-sm font-medium ${phase.state === 'active' ? 'text-primary-600' : 'text-secondary-600'}`}>
+              {phase.label}
+            </span>
+            {phase.detail && <span className="text-xs text-secondary-500">{phase.detail}</span>}
+            {phase.state === 'skipped' && <span className="text-xs text-secondary-400">cached</span>}
+          </div>
+        ))}
+      </div>
+
+      {rules.length > 0 && (
+        <div className="mt-6 text-left">
+          <h4 className="text-sm font-semibold text-secondary-900 mb-3">
+            Rules found so far ({rules.length})
+          </h4>
+          <ul className="space-y-2 max-h-64 overflow-y-auto">
+            {rules.map(rule => (
+              <li key={rule.id} className="flex items-start justify-between gap-3 p-3 rounded-xl bg-white/50 animate-fade-in">
+                <div>
+                  <div className="text-sm font-medium text-secondary-900">{rule.title}</div>
+                  <div className="text-xs text-secondary-500">{rule.authority}</div>
+                </div>
+                {rule.priority && (
+                  <span className={`badge ${PRIORITY_BADGES[rule.priority] || 'badge-secondary'} text-xs`}>{rule.priority}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
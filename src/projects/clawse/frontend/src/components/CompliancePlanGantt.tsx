@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import type { CompliancePlan, PlannedStep } from '../types';
+
+interface CompliancePlanGanttProps {
+  plan: CompliancePlan;
+}
+
+// Rows shown before "Show all"
+const COLLAPSED_ROWS = 12;
+
+const formatDays = (days: number) => {
+  if (days === 0) return '0d';
+  if (days < 1) return `${Math.max(1, Math.round(days * 8))}h`;
+  if (days < 14) return `${Math.round(days * 10) / 10}d`;
+  return `${Math.round(days / 7 * 10) / 10}w`;
+};
+
+const formatRange = (min: number, max: number) =>
+  min === max ? formatDays(max) : `${formatDays(min)}–${formatDays(max)}`;
+
+export const CompliancePlanGantt: React.FC<CompliancePlanGanttProps> = ({ plan }) => {
+  const [showAll, setShowAll] = useState(false);
+
+  if (plan.steps.length === 0) {
+    return null;
+  }
+
+  const totalDays = plan.total_days.max || 1;
+  const percent = (days: number) => `${Math.min(100, (days / totalDays) * 100)}%`;
+  const stepsById = new Map(plan.steps.map(step => [step.step_id, step]));
+  const rows = showAll ? plan.steps : plan.steps.slice(0, COLLAPSED_ROWS);
+  const firstSteps = (plan.phases[0]?.step_ids || [])
+    .map(id => stepsById.get(id))
+    .filter((step): step is PlannedStep => !!step)
+    .sort((a, b) => Number(b.critical) - Number(a.critical))
+    .slice(0, 3);
+
+  // Week markers along the time axis (every 4 weeks on long plans)
+  const tickEvery = totalDays > 120 ? 28 : 7;
+  const ticks = Array.from({ length: Math.floor(totalDays / tickEvery) }, (_, index) => (index + 1) * tickEvery);
+
+  return (
+    <div className="card-elevated p-8">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-3">
+          <div className="w-12 h-12 bg-gradient-to-br from-primary-500 to-accent-500 rounded-xl flex items-center justify-center">
+            <span className="text-2xl">🗓️</span>
+          </div>
+          <div>
+            <h2 className="text-2xl font-bold text-secondary-900">Compliance Plan</h2>
+            <p className="text-sm text-secondary-600">
+              {plan.steps.length} steps in {plan.lanes.length} parallel lane{plan.lanes.length === 1 ? '' : 's'}
+            </p>
+          </div>
+        </div>
+        <div className="text-right">
+          <div className="text-2xl font-bold text-primary-600">
+            {formatRange(plan.total_days.min, plan.total_days.max)}
+          </div>
+          <div className="text-sm text-secondary-600">Estimated elapsed time</div>
+        </div>
+      </div>
+
+      {firstSteps.length > 0 && (
+        <div className="mb-6 p-4 bg-primary-50 rounded-xl border border-primary-200">
+          <div className="text-sm font-semibold text-primary-800 mb-2">Start with</div>
+          <ul className="space-y-1">
+            {firstSteps.map(step => (
+              <li key={step.step_id} className="text-sm text-secondary-700">
+                <span className="font-medium">{step.rule_title}:</span> {step.title}
+                {step.critical && <span className="badge badge-danger text-xs ml-2">critical path</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex text-xs text-secondary-500">
+          <div className="w-2/5 pr-4">Step</div>
+          <div className="w-3/5 relative h-4">
+            <span className="absolute left-0">Day 0</span>
+            {ticks.map(day => (
+              <span key={day} className="absolute -translate-x-1/2" style={{ left: percent(day) }}>
+                {formatDays(day)}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {rows.map(step => (
+          <div key={step.step_id} className="flex items-center">
+            <div className="w-2/5 pr-4 min-w-0">
+              <div className="text-sm font-medium text-secondary-900 truncate" title={step.title}>
+                {step.title}
+              </div>
+              <div className="text-xs text-secondary-500 truncate">
+                {step.rule_title} • step {step.step_number}
+              </div>
+            </div>
+            <div className="w-3/5 relative h-6 bg-secondary-50 rounded">
+              {ticks.map(day => (
+                <div key={day} className="absolute top-0 bottom-0 border-l border-secondary-200" style={{ left: percent(day) }} />
+              ))}
+              {step.slack_days > 0 && (
+                <div
+                  className="absolute top-2 h-2 rounded bg-secondary-200"
+                  style={{ left: percent(step.end_day), width: percent(step.slack_days) }}
+                  title={`Can slip ${formatDays(step.slack_days)} without delaying the plan`}
+                />
+              )}
+              <div
+                className={`absolute top-1 h-4 rounded ${step.critical ? 'bg-danger-500' : 'bg-primary-500'}`}
+                style={{
+                  left: percent(step.start_day),
+                  width: percent(step.end_day - step.start_day),
+                  minWidth: '4px'
+                }}
+                title={[
+                  `Day ${step.start_day}–${step.end_day}`,
+                  `Estimated ${step.duration.text || 'time not given'} (${formatRange(step.duration.min_days, step.duration.max_days)})`,
+                  step.depends_on.length > 0
+                    ? `After: ${step.depends_on.map(id => stepsById.get(id)?.title || id).join(', ')}`
+                    : 'No prerequisites'
+                ].join('\n')}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between mt-4">
+        <div className="flex items-center space-x-4 text-xs text-secondary-600">
+          <span className="flex items-center"><span className="w-3 h-3 rounded bg-danger-500 mr-1" /> Critical path</span>
+          <span className="flex items-center"><span className="w-3 h-3 rounded bg-primary-500 mr-1" /> Other steps</span>
+          <span className="flex items-center"><span className="w-3 h-2 rounded bg-secondary-200 mr-1" /> Slack</span>
+        </div>
+        {plan.steps.length > COLLAPSED_ROWS && (
+          <button onClick={() => setShowAll(!showAll)} className="btn btn-ghost text-sm">
+            {showAll ? 'Show fewer' : `Show all ${plan.steps.length} steps`}
+          </button>
+        )}
+      </div>
+
+      {plan.assumptions.length > 0 && (
+        <ul className="mt-4 space-y-1 text-xs text-secondary-500">
+          {plan.assumptions.map(note => (
+            <li key={note}>ⓘ {note}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
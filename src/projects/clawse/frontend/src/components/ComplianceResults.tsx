@@ -1,4 +1,11 @@
 import React from 'react';
+import { Link } from 'react-router-dom';
+import { analysisApi, businessProfileApi } from '../services/api';
+import { CompliancePlanGantt } from './CompliancePlanGantt';
+import { CostForecastCard } from './CostForecastCard';
+import { RiskScoreCard } from './RiskScoreCard';
+import { LocationBreakdownCard } from './LocationBreakdownCard';
+import type { CompliancePlan, ComplianceScore, CostForecast, LocationBreakdown } from '../types';
 
 interface ComplianceRule {
   id: string;
@@ -44,6 +51,12 @@ interface ComplianceResultsProps {
     revenue: string;
     businessDescription: string;
   };
+  sessionId?: string; // Stored profile; enables the calendar feed links
+  analysisId?: string; // Stored run; enables the PDF report
+  plan?: CompliancePlan | null;
+  costForecast?: CostForecast | null;
+  riskAssessment?: ComplianceScore | null;
+  locationBreakdown?: LocationBreakdown | null;
   onBack: () => void;
 }
 
@@ -51,6 +64,12 @@ export const ComplianceResults: React.FC<ComplianceResultsProps> = ({
   complianceResults,
   aiReport,
   businessData,
+  sessionId,
+  analysisId,
+  plan,
+  costForecast,
+  riskAssessment,
+  locationBreakdown,
   onBack
 }) => {
   // const [selectedRule, setSelectedRule] = useState<ComplianceRule | null>(null);
@@ -81,6 +100,8 @@ export const ComplianceResults: React.FC<ComplianceResultsProps> = ({
     }
   };
 
+  const calendarFeedUrl = sessionId ? businessProfileApi.getCalendarFeedUrl(sessionId) : '';
+
   const handleRuleClick = (rule: ComplianceRule) => {
     if (rule.sources && rule.sources.length > 0 && rule.sources[0].source_url) {
       window.open(rule.sources[0].source_url, '_blank');
@@ -188,9 +209,40 @@ export const ComplianceResults: React.FC<ComplianceResultsProps> = ({
                   </p>
                 </div>
               </div>
-              <div className="text-right">
-                <div className="text-2xl font-bold text-primary-600">{sortedRules.length}</div>
-                <div className="text-sm text-secondary-600">Total Rules</div>
+              <div className="flex items-center space-x-6">
+                {sessionId && (
+                  <Link to={`/tasks/${encodeURIComponent(sessionId)}`} className="btn btn-success">
+                    ✅ Track Progress
+                  </Link>
+                )}
+                {sessionId && (
+                  <Link to={`/history/${encodeURIComponent(sessionId)}`} className="btn btn-secondary">
+                    🕘 History
+                  </Link>
+                )}
+                {analysisId && (
+                  <a href={analysisApi.getReportPdfUrl(analysisId)} className="btn btn-secondary">
+                    📄 PDF Report
+                  </a>
+                )}
+                {calendarFeedUrl && (
+                  <div className="flex items-center space-x-2">
+                    <a
+                      href={calendarFeedUrl.replace(/^https?:/, 'webcal:')}
+                      className="btn btn-primary"
+                      title="Subscribe in Google Calendar, Outlook or Apple Calendar"
+                    >
+                      📅 Subscribe to Deadlines
+                    </a>
+                    <a href={calendarFeedUrl} download className="btn btn-secondary">
+                      Download .ics
+                    </a>
+                  </div>
+                )}
+                <div className="text-right">
+                  <div className="text-2xl font-bold text-primary-600">{sortedRules.length}</div>
+                  <div className="text-sm text-secondary-600">Total Rules</div>
+                </div>
               </div>
             </div>
           </div>
@@ -200,8 +252,10 @@ export const ComplianceResults: React.FC<ComplianceResultsProps> = ({
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="grid grid-cols-1 lg:grid-cols-5 gap-8">
-          {/* Left Side - AI Report (3 columns) */}
+          {/* Left Side - Plan and AI Report (3 columns) */}
           <div className="lg:col-span-3 space-y-6">
+            {plan && <CompliancePlanGantt plan={plan} />}
+
             <div className="card-elevated p-8">
               <div className="flex items-center space-x-3 mb-6">
                 <div className="w-12 h-12 bg-gradient-to-br from-accent-500 to-primary-600 rounded-xl flex items-center justify-center shadow-glow">
@@ -234,6 +288,8 @@ export const ComplianceResults: React.FC<ComplianceResultsProps> = ({
 
           {/* Right Side - Rules List (2 columns) */}
           <div className="lg:col-span-2 space-y-6">
+            {riskAssessment && <RiskScoreCard assessment={riskAssessment} />}
+
             {/* Summary Stats */}
             <div className="card-elevated p-6">
               <h3 className="text-lg font-bold text-secondary-900 mb-4">Compliance Summary</h3>
@@ -253,6 +309,12 @@ export const ComplianceResults: React.FC<ComplianceResultsProps> = ({
               </div>
             </div>
 
+            {costForecast && <CostForecastCard forecast={costForecast} />}
+
+            {locationBreakdown && locationBreakdown.locations.length > 1 && (
+              <LocationBreakdownCard breakdown={locationBreakdown} />
+            )}
+
             <div className="card-elevated p-6">
               <div className="flex items-center space-x-3 mb-6">
                 <div className="w-10 h-10 bg-gradient-to-br from-primary-500 to-primary-600 rounded-xl flex items-center justify-center">
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import type { AmountRange, CostForecast } from '../types';
+
+interface CostForecastCardProps {
+  forecast: CostForecast;
+}
+
+type BreakdownKey = keyof CostForecast['breakdown'];
+
+const BREAKDOWN_LABELS: Record<BreakdownKey, string> = {
+  level: 'Level',
+  authority: 'Authority',
+  priority: 'Priority'
+};
+
+const formatMoney = (amount: number) =>
+  amount.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+
+const formatRange = (range: AmountRange) =>
+  range.min === range.max ? formatMoney(range.max) : `${formatMoney(range.min)} – ${formatMoney(range.max)}`;
+
+export const CostForecastCard: React.FC<CostForecastCardProps> = ({ forecast }) => {
+  const [breakdown, setBreakdown] = useState<BreakdownKey>('level');
+  const hasExposure = forecast.penalty_exposure.overdue_rules.length > 0;
+
+  return (
+    <div className="card-elevated p-6">
+      <h3 className="text-lg font-bold text-secondary-900 mb-4">Cost Forecast</h3>
+
+      <div className="grid grid-cols-2 gap-4 mb-4">
+        <div className="p-4 bg-primary-50 rounded-2xl border border-primary-200">
+          <div className="text-2xl font-bold text-primary-700">{formatMoney(forecast.one_time)}</div>
+          <div className="text-sm font-semibold text-primary-800">One-time</div>
+        </div>
+        <div className="p-4 bg-accent-50 rounded-2xl border border-accent-200">
+          <div className="text-2xl font-bold text-accent-700">{formatMoney(forecast.annual_recurring)}</div>
+          <div className="text-sm font-semibold text-accent-800">Per year, recurring</div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 mb-4">
+        {forecast.projections.map(projection => (
+          <div key={projection.years} className="text-center p-3 bg-secondary-50 rounded-xl">
+            <div className="font-bold text-secondary-900">{formatMoney(projection.total)}</div>
+            <div className="text-xs text-secondary-600">
+              {projection.years} year{projection.years === 1 ? '' : 's'}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className={`p-4 rounded-2xl border mb-4 ${hasExposure ? 'bg-danger-50 border-danger-200' : 'bg-success-50 border-success-200'}`}>
+        <div className={`text-sm font-semibold ${hasExposure ? 'text-danger-700' : 'text-success-700'}`}>
+          Penalty exposure from overdue obligations
+        </div>
+        <div className={`text-xl font-bold ${hasExposure ? 'text-danger-600' : 'text-success-600'}`}>
+          {hasExposure ? formatRange(forecast.penalty_exposure) : 'None overdue'}
+        </div>
+        <div className="text-xs text-secondary-600 mt-1">
+          {hasExposure && `${forecast.penalty_exposure.overdue_rules.length} rule(s) overdue • `}
+          Up to {formatMoney(forecast.penalty_at_risk.max)} in penalties across all requirements
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-2 mb-3">
+        {(Object.keys(BREAKDOWN_LABELS) as BreakdownKey[]).map(key => (
+          <button
+            key={key}
+            onClick={() => setBreakdown(key)}
+            className={`btn text-xs ${breakdown === key ? 'btn-primary' : 'btn-ghost'}`}
+          >
+            By {BREAKDOWN_LABELS[key]}
+          </button>
+        ))}
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-secondary-500">
+            <th className="py-1">{BREAKDOWN_LABELS[breakdown]}</th>
+            <th className="py-1 text-right">One-time</th>
+            <th className="py-1 text-right">Per year</th>
+            <th className="py-1 text-right">Overdue penalties</th>
+          </tr>
+        </thead>
+        <tbody>
+          {forecast.breakdown[breakdown].map(bucket => (
+            <tr key={bucket.key} className="border-t border-secondary-100">
+              <td className="py-2 pr-2 text-secondary-800 capitalize">
+                {bucket.key} <span className="text-xs text-secondary-500">({bucket.rule_count})</span>
+              </td>
+              <td className="py-2 text-right">{formatMoney(bucket.one_time)}</td>
+              <td className="py-2 text-right">{formatMoney(bucket.annual_recurring)}</td>
+              <td className="py-2 text-right text-danger-600">
+                {bucket.penalty_exposure.max > 0 ? formatRange(bucket.penalty_exposure) : '—'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {forecast.assumptions.length > 0 && (
+        <ul className="mt-4 space-y-1 text-xs text-secondary-500">
+          {forecast.assumptions.map(note => (
+            <li key={note}>ⓘ {note}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import type { LocationBreakdown } from '../types';
+
+interface LocationBreakdownCardProps {
+  breakdown: LocationBreakdown;
+}
+
+export const LocationBreakdownCard: React.FC<LocationBreakdownCardProps> = ({ breakdown }) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  return (
+    <div className="card-elevated p-6">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-secondary-900">Requirements by Location</h3>
+          <p className="text-xs text-secondary-500 mt-1">
+            {breakdown.company_wide.length} company-wide federal requirements
+          </p>
+        </div>
+        <span className="badge badge-secondary text-xs">
+          {breakdown.locations.length} locations
+        </span>
+      </div>
+
+      <div className="space-y-3">
+        {breakdown.locations.map(group => (
+          <div key={group.label}>
+            <button
+              onClick={() => setExpanded(expanded === group.label ? null : group.label)}
+              className="w-full text-left"
+            >
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium text-secondary-800">📍 {group.label}</span>
+                <span className="font-semibold text-secondary-900">{group.rule_count} rules</span>
+              </div>
+              <div className="text-xs text-secondary-500">
+                {group.employee_count_estimated
+                  ? `~${group.employee_count} employees (estimated: not counted at other locations)`
+                  : `${group.employee_count} employees`}
+              </div>
+            </button>
+            {expanded === group.label && (
+              <ul className="mt-2 space-y-2">
+                {group.rules.map(rule => (
+                  <li key={rule.rule_id} className="text-xs">
+                    <div className="font-medium text-secondary-800">{rule.title}</div>
+                    <div className="text-secondary-500">{rule.explanation}</div>
+                  </li>
+                ))}
+                {group.rules.length === 0 && (
+                  <li className="text-xs text-secondary-500">No state or local requirements found</li>
+                )}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {breakdown.unmatched_count > 0 && (
+        <p className="text-xs text-secondary-500 mt-4">
+          {breakdown.unmatched_count} found rules don't apply at any location
+        </p>
+      )}
+    </div>
+  );
+};
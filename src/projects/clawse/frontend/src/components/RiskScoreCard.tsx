@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import type { ComplianceScore } from '../types';
+
+interface RiskScoreCardProps {
+  assessment: ComplianceScore;
+}
+
+const LEVEL_STYLES: Record<ComplianceScore['risk_level'], { text: string; bar: string; badge: string; label: string }> = {
+  low: { text: 'text-success-600', bar: 'bg-success-500', badge: 'badge-success', label: 'Low risk' },
+  moderate: { text: 'text-primary-600', bar: 'bg-primary-500', badge: 'badge-primary', label: 'Moderate risk' },
+  elevated: { text: 'text-warning-600', bar: 'bg-warning-500', badge: 'badge-warning', label: 'Elevated risk' },
+  high: { text: 'text-danger-600', bar: 'bg-danger-500', badge: 'badge-danger', label: 'High risk' }
+};
+
+const barColor = (score: number) => {
+  if (score >= 80) return LEVEL_STYLES.low.bar;
+  if (score >= 60) return LEVEL_STYLES.moderate.bar;
+  if (score >= 40) return LEVEL_STYLES.elevated.bar;
+  return LEVEL_STYLES.high.bar;
+};
+
+export const RiskScoreCard: React.FC<RiskScoreCardProps> = ({ assessment }) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const style = LEVEL_STYLES[assessment.risk_level];
+
+  return (
+    <div className="card-elevated p-6">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-secondary-900">Compliance Score</h3>
+          <span className={`badge ${style.badge} text-xs mt-1`}>{style.label}</span>
+        </div>
+        <div className="text-right">
+          <div className={`text-4xl font-bold ${style.text}`}>{assessment.score}</div>
+          <div className="text-xs text-secondary-500">
+            of 100 • {Math.round(assessment.confidence * 100)}% source confidence
+          </div>
+        </div>
+      </div>
+
+      {assessment.explanations.length > 0 && (
+        <ul className="space-y-1 mb-4">
+          {assessment.explanations.map(note => (
+            <li key={note} className="text-sm text-secondary-700">• {note}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-3">
+        {assessment.categories.map(category => (
+          <div key={category.category}>
+            <button
+              onClick={() => setExpanded(expanded === category.category ? null : category.category)}
+              className="w-full text-left"
+            >
+              <div className="flex items-center justify-between text-sm mb-1">
+                <span className="font-medium text-secondary-800">
+                  {category.label} <span className="text-xs text-secondary-500">({category.rule_count})</span>
+                </span>
+                <span className="font-semibold text-secondary-900">{category.score}</span>
+              </div>
+              <div className="h-2 bg-secondary-100 rounded-full overflow-hidden">
+                <div className={`h-2 ${barColor(category.score)}`} style={{ width: `${category.score}%` }} />
+              </div>
+            </button>
+            {expanded === category.category && (
+              <ul className="mt-2 space-y-1">
+                {category.explanations.map(note => (
+                  <li key={note} className="text-xs text-secondary-600">{note}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,362 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import type {
+  ComplianceSource,
+  StoredRule,
+  StoredRuleCriteria,
+  StoredRuleForm,
+  StoredRuleStep
+} from '../../types';
+
+interface RuleEditorProps {
+  rule: StoredRule;
+  onChange: (rule: StoredRule) => void;
+  disabled?: boolean;
+}
+
+const PRIORITIES: StoredRule['priority'][] = ['critical', 'high', 'medium', 'low'];
+const LEVELS: StoredRule['level'][] = ['federal', 'state', 'local'];
+const STATUSES: StoredRule['status'][] = ['active', 'proposed', 'deprecated', 'superseded'];
+const DEADLINE_TYPES: StoredRuleStep['deadline_type'][] = ['absolute', 'relative', 'recurring'];
+const FORM_TYPES: StoredRuleForm['form_type'][] = ['pdf', 'online', 'paper'];
+const FILING_METHODS: StoredRuleForm['filing_method'][] = ['online', 'mail', 'in_person'];
+const SOURCE_TYPES: ComplianceSource['source_type'][] = ['api', 'website', 'pdf', 'manual', 'ai_generated'];
+const VERIFICATION_STATUSES: ComplianceSource['verification_status'][] = ['verified', 'pending', 'outdated'];
+
+const newStep = (stepNumber: number): StoredRuleStep => ({
+  step_number: stepNumber,
+  step_description: '',
+  deadline: '',
+  deadline_type: 'relative',
+  required_forms: [],
+  required_documents: [],
+  estimated_cost: 0,
+  estimated_time: '',
+  depends_on_steps: [],
+  can_be_done_parallel: false,
+  priority: 'medium',
+  verification_method: '',
+  completion_proof: []
+});
+
+const newForm = (): StoredRuleForm => ({
+  form_name: '',
+  form_url: '',
+  form_type: 'online',
+  filing_method: 'online',
+  processing_time: ''
+});
+
+const newSource = (index: number): ComplianceSource => ({
+  source_id: `manual_${Date.now()}_${index}`,
+  source_type: 'manual',
+  source_name: '',
+  source_url: '',
+  reliability_score: 5,
+  last_updated: new Date().toISOString().slice(0, 10),
+  verification_status: 'pending',
+  content_hash: ''
+});
+
+const Field: React.FC<{ label: string; className?: string; children: React.ReactNode }> = ({ label, className, children }) => (
+  <label className={`block ${className || ''}`}>
+    <span className="block text-sm font-medium text-secondary-700 mb-1">{label}</span>
+    {children}
+  </label>
+);
+
+const TextField: React.FC<{ label: string; value: string; onChange: (value: string) => void; disabled?: boolean; className?: string }> =
+  ({ label, value, onChange, disabled, className }) => (
+    <Field label={label} className={className}>
+      <input type="text" value={value} onChange={(e) => onChange(e.target.value)} disabled={disabled} className="form-input w-full" />
+    </Field>
+  );
+
+// Blank clears optional numbers; required ones fall back to 0
+const NumberField: React.FC<{ label: string; value: number | undefined; onChange: (value: number | undefined) => void; disabled?: boolean }> =
+  ({ label, value, onChange, disabled }) => (
+    <Field label={label}>
+      <input
+        type="number"
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+        disabled={disabled}
+        className="form-input w-full"
+      />
+    </Field>
+  );
+
+function SelectField<T extends string>({ label, value, options, onChange, disabled }: {
+  label: string;
+  value: T;
+  options: T[];
+  onChange: (value: T) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <Field label={label}>
+      <select value={value} onChange={(e) => onChange(e.target.value as T)} disabled={disabled} className="form-select w-full">
+        {options.map(option => <option key={option} value={option}>{option.replace('_', ' ')}</option>)}
+      </select>
+    </Field>
+  );
+}
+
+// Comma-separated lists are parsed on blur so typing a comma doesn't drop the next item
+const ListField: React.FC<{ label: string; value: string[] | undefined; onChange: (value: string[]) => void; disabled?: boolean; className?: string }> =
+  ({ label, value, onChange, disabled, className }) => (
+    <Field label={label} className={className}>
+      <input
+        type="text"
+        key={(value || []).join(',')}
+        defaultValue={(value || []).join(', ')}
+        onBlur={(e) => onChange(e.target.value.split(',').map(item => item.trim()).filter(Boolean))}
+        disabled={disabled}
+        placeholder="Comma separated"
+        className="form-input w-full"
+      />
+    </Field>
+  );
+
+/**
+ * Structured editor for every field of a stored rule: basics, applicability
+ * criteria, costs and deadlines, steps with their forms, sources and metadata.
+ * Controlled: each change hands the whole edited rule to onChange.
+ */
+export const RuleEditor: React.FC<RuleEditorProps> = ({ rule, onChange, disabled }) => {
+  const update = (changes: Partial<StoredRule>) => onChange({ ...rule, ...changes });
+
+  const criteria = rule.applicability_criteria;
+  const updateCriteria = (changes: Partial<StoredRuleCriteria>) =>
+    update({ applicability_criteria: { ...criteria, ...changes } });
+  const updateExclusions = (changes: StoredRuleCriteria['exclusions']) =>
+    updateCriteria({ exclusions: { ...criteria.exclusions, ...changes } });
+
+  const updateStep = (index: number, changes: Partial<StoredRuleStep>) =>
+    update({ compliance_steps: rule.compliance_steps.map((step, i) => i === index ? { ...step, ...changes } : step) });
+  const updateForm = (stepIndex: number, formIndex: number, changes: Partial<StoredRuleForm>) => {
+    const step = rule.compliance_steps[stepIndex];
+    if (!step) return;
+    updateStep(stepIndex, {
+      required_forms: step.required_forms.map((form, i) => i === formIndex ? { ...form, ...changes } : form)
+    });
+  };
+  const updateSource = (index: number, changes: Partial<ComplianceSource>) =>
+    update({ sources: rule.sources.map((source, i) => i === index ? { ...source, ...changes } : source) });
+
+  const nextStepNumber = Math.max(0, ...rule.compliance_steps.map(step => step.step_number)) + 1;
+
+  return (
+    <div className="space-y-6">
+      {/* Basics */}
+      <section className="space-y-4">
+        <h3 className="text-lg font-semibold text-secondary-900">Rule</h3>
+        <TextField label="Title" value={rule.title} onChange={(title) => update({ title })} disabled={disabled} />
+        <Field label="Description">
+          <textarea
+            value={rule.description}
+            onChange={(e) => update({ description: e.target.value })}
+            disabled={disabled}
+            rows={3}
+            className="form-input w-full"
+          />
+        </Field>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <TextField label="Authority" value={rule.authority} onChange={(authority) => update({ authority })} disabled={disabled} />
+          <SelectField label="Level" value={rule.level} options={LEVELS} onChange={(level) => update({ level })} disabled={disabled} />
+          <TextField label="Jurisdiction" value={rule.jurisdiction} onChange={(jurisdiction) => update({ jurisdiction })} disabled={disabled} />
+          <SelectField label="Priority" value={rule.priority} options={PRIORITIES} onChange={(priority) => update({ priority })} disabled={disabled} />
+          <SelectField label="Status" value={rule.status} options={STATUSES} onChange={(status) => update({ status })} disabled={disabled} />
+          <TextField label="Canonical ID" value={rule.canonical_id} onChange={(canonical_id) => update({ canonical_id })} disabled={disabled} />
+        </div>
+      </section>
+
+      {/* Applicability */}
+      <section className="space-y-4 border-t pt-4">
+        <h3 className="text-lg font-semibold text-secondary-900">Applicability</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <ListField label="Business types" value={criteria.business_types} onChange={(business_types) => updateCriteria({ business_types })} disabled={disabled} />
+          <ListField label="States (ALL for every state)" value={criteria.states} onChange={(states) => updateCriteria({ states })} disabled={disabled} />
+          <ListField label="Industries (NAICS)" value={criteria.industries} onChange={(industries) => updateCriteria({ industries })} disabled={disabled} />
+          <ListField label="Industry groups" value={criteria.industry_groups} onChange={(industry_groups) => updateCriteria({ industry_groups })} disabled={disabled} />
+          <ListField label="Cities" value={criteria.cities} onChange={(cities) => updateCriteria({ cities })} disabled={disabled} />
+          <ListField label="Counties" value={criteria.counties} onChange={(counties) => updateCriteria({ counties })} disabled={disabled} />
+          <ListField label="Special conditions" value={criteria.special_conditions} onChange={(special_conditions) => updateCriteria({ special_conditions })} disabled={disabled} className="md:col-span-2" />
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+          <NumberField label="Employees min" value={criteria.employee_count.min} onChange={(min) => updateCriteria({ employee_count: { ...criteria.employee_count, min: min ?? 0 } })} disabled={disabled} />
+          <NumberField label="Employees max" value={criteria.employee_count.max} onChange={(max) => updateCriteria({ employee_count: { ...criteria.employee_count, max: max ?? 0 } })} disabled={disabled} />
+          <NumberField label="Employees exact" value={criteria.employee_count.exact} onChange={(exact) => updateCriteria({ employee_count: { ...criteria.employee_count, exact } })} disabled={disabled} />
+          <NumberField label="Revenue min" value={criteria.annual_revenue.min} onChange={(min) => updateCriteria({ annual_revenue: { ...criteria.annual_revenue, min: min ?? 0 } })} disabled={disabled} />
+          <NumberField label="Revenue max" value={criteria.annual_revenue.max} onChange={(max) => updateCriteria({ annual_revenue: { ...criteria.annual_revenue, max: max ?? 0 } })} disabled={disabled} />
+          <TextField label="Currency" value={criteria.annual_revenue.currency} onChange={(currency) => updateCriteria({ annual_revenue: { ...criteria.annual_revenue, currency } })} disabled={disabled} />
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <ListField label="Excluded business types" value={criteria.exclusions.business_types} onChange={(business_types) => updateExclusions({ business_types })} disabled={disabled} />
+          <ListField label="Excluded industries" value={criteria.exclusions.industries} onChange={(industries) => updateExclusions({ industries })} disabled={disabled} />
+          <ListField label="Excluded states" value={criteria.exclusions.states} onChange={(states) => updateExclusions({ states })} disabled={disabled} />
+          <ListField label="Excluded conditions" value={criteria.exclusions.conditions} onChange={(conditions) => updateExclusions({ conditions })} disabled={disabled} />
+        </div>
+      </section>
+
+      {/* Costs & deadlines */}
+      <section className="space-y-4 border-t pt-4">
+        <h3 className="text-lg font-semibold text-secondary-900">Costs &amp; Deadlines</h3>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <NumberField label="Filing fees" value={rule.estimated_cost.filing_fees} onChange={(filing_fees) => update({ estimated_cost: { ...rule.estimated_cost, filing_fees: filing_fees ?? 0 } })} disabled={disabled} />
+          <NumberField label="Ongoing costs (annual)" value={rule.estimated_cost.ongoing_costs} onChange={(ongoing_costs) => update({ estimated_cost: { ...rule.estimated_cost, ongoing_costs: ongoing_costs ?? 0 } })} disabled={disabled} />
+          <NumberField label="Penalty min" value={rule.estimated_cost.penalty_range.min} onChange={(min) => update({ estimated_cost: { ...rule.estimated_cost, penalty_range: { ...rule.estimated_cost.penalty_range, min: min ?? 0 } } })} disabled={disabled} />
+          <NumberField label="Penalty max" value={rule.estimated_cost.penalty_range.max} onChange={(max) => update({ estimated_cost: { ...rule.estimated_cost, penalty_range: { ...rule.estimated_cost.penalty_range, max: max ?? 0 } } })} disabled={disabled} />
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <TextField label="Initial deadline" value={rule.deadlines.initial_deadline} onChange={(initial_deadline) => update({ deadlines: { ...rule.deadlines, initial_deadline } })} disabled={disabled} />
+          <TextField label="Recurring deadline" value={rule.deadlines.recurring_deadline || ''} onChange={(recurring_deadline) => update({ deadlines: { ...rule.deadlines, recurring_deadline: recurring_deadline || undefined } })} disabled={disabled} />
+          <NumberField label="Grace period (days)" value={rule.deadlines.grace_period} onChange={(grace_period) => update({ deadlines: { ...rule.deadlines, grace_period } })} disabled={disabled} />
+        </div>
+      </section>
+
+      {/* Steps */}
+      <section className="space-y-4 border-t pt-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-secondary-900">Steps</h3>
+          <button
+            type="button"
+            onClick={() => update({ compliance_steps: [...rule.compliance_steps, newStep(nextStepNumber)] })}
+            disabled={disabled}
+            className="btn btn-secondary flex items-center"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add Step
+          </button>
+        </div>
+        {rule.compliance_steps.length === 0 && <p className="text-sm text-secondary-500 italic">No steps.</p>}
+        {rule.compliance_steps.map((step, stepIndex) => (
+          <div key={stepIndex} className="border rounded-lg p-4 space-y-4">
+            <div className="flex items-start gap-4">
+              <div className="w-24">
+                <NumberField label="Step" value={step.step_number} onChange={(step_number) => updateStep(stepIndex, { step_number: step_number ?? 0 })} disabled={disabled} />
+              </div>
+              <TextField label="Description" value={step.step_description} onChange={(step_description) => updateStep(stepIndex, { step_description })} disabled={disabled} className="flex-1" />
+              <button
+                type="button"
+                onClick={() => update({ compliance_steps: rule.compliance_steps.filter((_, i) => i !== stepIndex) })}
+                disabled={disabled}
+                className="btn btn-ghost mt-6"
+                title="Remove step"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <TextField label="Deadline" value={step.deadline} onChange={(deadline) => updateStep(stepIndex, { deadline })} disabled={disabled} />
+              <SelectField label="Deadline type" value={step.deadline_type} options={DEADLINE_TYPES} onChange={(deadline_type) => updateStep(stepIndex, { deadline_type })} disabled={disabled} />
+              <SelectField label="Priority" value={step.priority} options={PRIORITIES} onChange={(priority) => updateStep(stepIndex, { priority })} disabled={disabled} />
+              <NumberField label="Cost" value={step.estimated_cost} onChange={(estimated_cost) => updateStep(stepIndex, { estimated_cost: estimated_cost ?? 0 })} disabled={disabled} />
+              <TextField label="Time" value={step.estimated_time} onChange={(estimated_time) => updateStep(stepIndex, { estimated_time })} disabled={disabled} />
+              <ListField
+                label="Depends on steps"
+                value={step.depends_on_steps.map(String)}
+                onChange={(values) => updateStep(stepIndex, { depends_on_steps: values.map(Number).filter(Number.isInteger) })}
+                disabled={disabled}
+              />
+              <TextField label="Online process URL" value={step.online_process_url || ''} onChange={(url) => updateStep(stepIndex, { online_process_url: url || undefined })} disabled={disabled} />
+              <label className="flex items-center space-x-2 text-sm text-secondary-700 mt-6">
+                <input
+                  type="checkbox"
+                  checked={step.can_be_done_parallel}
+                  onChange={(e) => updateStep(stepIndex, { can_be_done_parallel: e.target.checked })}
+                  disabled={disabled}
+                />
+                <span>Can be done in parallel</span>
+              </label>
+              <ListField label="Required documents" value={step.required_documents} onChange={(required_documents) => updateStep(stepIndex, { required_documents })} disabled={disabled} className="md:col-span-2" />
+              <TextField label="Verification method" value={step.verification_method} onChange={(verification_method) => updateStep(stepIndex, { verification_method })} disabled={disabled} />
+              <ListField label="Completion proof" value={step.completion_proof} onChange={(completion_proof) => updateStep(stepIndex, { completion_proof })} disabled={disabled} />
+            </div>
+
+            {/* Forms of this step */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-semibold text-secondary-700">Forms</span>
+                <button
+                  type="button"
+                  onClick={() => updateStep(stepIndex, { required_forms: [...step.required_forms, newForm()] })}
+                  disabled={disabled}
+                  className="btn btn-ghost flex items-center text-sm"
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add Form
+                </button>
+              </div>
+              {step.required_forms.map((form, formIndex) => (
+                <div key={formIndex} className="grid grid-cols-1 md:grid-cols-6 gap-2 items-end bg-secondary-50 rounded p-2">
+                  <TextField label="Form name" value={form.form_name} onChange={(form_name) => updateForm(stepIndex, formIndex, { form_name })} disabled={disabled} />
+                  <TextField label="URL" value={form.form_url} onChange={(form_url) => updateForm(stepIndex, formIndex, { form_url })} disabled={disabled} />
+                  <SelectField label="Type" value={form.form_type} options={FORM_TYPES} onChange={(form_type) => updateForm(stepIndex, formIndex, { form_type })} disabled={disabled} />
+                  <SelectField label="Filing" value={form.filing_method} options={FILING_METHODS} onChange={(filing_method) => updateForm(stepIndex, formIndex, { filing_method })} disabled={disabled} />
+                  <TextField label="Processing time" value={form.processing_time} onChange={(processing_time) => updateForm(stepIndex, formIndex, { processing_time })} disabled={disabled} />
+                  <button
+                    type="button"
+                    onClick={() => updateStep(stepIndex, { required_forms: step.required_forms.filter((_, i) => i !== formIndex) })}
+                    disabled={disabled}
+                    className="btn btn-ghost"
+                    title="Remove form"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </section>
+
+      {/* Sources */}
+      <section className="space-y-4 border-t pt-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-secondary-900">Sources</h3>
+          <button
+            type="button"
+            onClick={() => update({ sources: [...rule.sources, newSource(rule.sources.length)] })}
+            disabled={disabled}
+            className="btn btn-secondary flex items-center"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add Source
+          </button>
+        </div>
+        {rule.sources.map((source, index) => (
+          <div key={source.source_id} className="grid grid-cols-1 md:grid-cols-6 gap-2 items-end border rounded-lg p-3">
+            <TextField label="Name" value={source.source_name} onChange={(source_name) => updateSource(index, { source_name })} disabled={disabled} />
+            <TextField label="URL" value={source.source_url} onChange={(source_url) => updateSource(index, { source_url })} disabled={disabled} className="md:col-span-2" />
+            <SelectField label="Type" value={source.source_type} options={SOURCE_TYPES} onChange={(source_type) => updateSource(index, { source_type })} disabled={disabled} />
+            <SelectField label="Verification" value={source.verification_status} options={VERIFICATION_STATUSES} onChange={(verification_status) => updateSource(index, { verification_status })} disabled={disabled} />
+            <div className="flex items-end gap-2">
+              <NumberField label="Reliability (1-10)" value={source.reliability_score} onChange={(reliability_score) => updateSource(index, { reliability_score: reliability_score ?? 1 })} disabled={disabled} />
+              <button
+                type="button"
+                onClick={() => update({ sources: rule.sources.filter((_, i) => i !== index) })}
+                disabled={disabled || rule.sources.length === 1}
+                className="btn btn-ghost"
+                title="Remove source"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </section>
+
+      {/* Metadata */}
+      <section className="space-y-4 border-t pt-4">
+        <h3 className="text-lg font-semibold text-secondary-900">Metadata</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <ListField label="Tags" value={rule.tags} onChange={(tags) => update({ tags })} disabled={disabled} />
+          <ListField label="Search keywords" value={rule.search_keywords} onChange={(search_keywords) => update({ search_keywords })} disabled={disabled} />
+          <ListField label="Related rules" value={rule.related_rules} onChange={(related_rules) => update({ related_rules })} disabled={disabled} />
+          <ListField label="Conflicts with" value={rule.conflicts_with} onChange={(conflicts_with) => update({ conflicts_with })} disabled={disabled} />
+        </div>
+      </section>
+    </div>
+  );
+};
@@ -0,0 +1,313 @@
+import React from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, RefreshCw, GitCompare } from 'lucide-react';
+import { analysisApi } from '../services/api';
+import { RiskScoreCard } from '../components/RiskScoreCard';
+import { CostForecastCard } from '../components/CostForecastCard';
+import type { AnalysisComparison, AnalysisListItem, ComplianceAnalysis, NumberDelta, RuleFieldChange } from '../types';
+
+// Prefer the server's error message over axios' generic one
+const getErrorMessage = (error: unknown): string => {
+  const response = (error as { response?: { data?: { error?: string } } }).response;
+  return response?.data?.error || (error instanceof Error ? error.message : 'Request failed');
+};
+
+const formatMoney = (amount: number) =>
+  amount.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+const formatValue = (value: unknown) => (typeof value === 'string' ? value : JSON.stringify(value));
+
+const describeChange = (change: RuleFieldChange) => {
+  if (change.change === 'added') return `${change.path} added: ${formatValue(change.after)}`;
+  if (change.change === 'removed') return `${change.path} removed`;
+  if (change.before === undefined && change.after === undefined) return `${change.path} changed`;
+  return `${change.path}: ${formatValue(change.before)} → ${formatValue(change.after)}`;
+};
+
+// Higher is better for the score; lower is better for cost
+const DeltaStat: React.FC<{ label: string; value: NumberDelta; format?: (amount: number) => string; lowerIsBetter?: boolean }> = ({
+  label, value, format = amount => String(amount), lowerIsBetter = false
+}) => {
+  const improved = lowerIsBetter ? value.delta < 0 : value.delta > 0;
+  const color = value.delta === 0 ? 'text-secondary-500' : improved ? 'text-success-600' : 'text-danger-600';
+  return (
+    <div className="text-center">
+      <div className="text-sm text-secondary-600">{label}</div>
+      <div className="text-lg font-bold text-secondary-900">{format(value.before)} → {format(value.after)}</div>
+      <div className={`text-sm font-semibold ${color}`}>
+        {value.delta > 0 ? '+' : ''}{format(value.delta)}
+      </div>
+    </div>
+  );
+};
+
+const AnalysisHistory: React.FC = () => {
+  const { sessionId = '' } = useParams();
+  const [runs, setRuns] = React.useState<AnalysisListItem[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+  const [selected, setSelected] = React.useState<string[]>([]);
+  const [comparison, setComparison] = React.useState<AnalysisComparison | null>(null);
+  const [report, setReport] = React.useState<ComplianceAnalysis | null>(null);
+
+  const loadRuns = React.useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setRuns(await analysisApi.list(sessionId, 50));
+    } catch (loadError) {
+      setError(getErrorMessage(loadError));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [sessionId]);
+
+  React.useEffect(() => {
+    loadRuns();
+  }, [loadRuns]);
+
+  // Keep the last two runs ticked; the server orders them by date
+  const toggleSelected = (analysisId: string) => {
+    setSelected(current => current.includes(analysisId)
+      ? current.filter(id => id !== analysisId)
+      : [...current, analysisId].slice(-2));
+  };
+
+  const compare = async (analysisId: string, baseId?: string) => {
+    setError(null);
+    try {
+      setComparison(await analysisApi.diff(analysisId, baseId));
+      setReport(null);
+    } catch (compareError) {
+      setError(getErrorMessage(compareError));
+    }
+  };
+
+  const viewReport = async (analysisId: string) => {
+    setError(null);
+    try {
+      setReport(await analysisApi.get(analysisId));
+      setComparison(null);
+    } catch (reportError) {
+      setError(getErrorMessage(reportError));
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-secondary-50 via-white to-primary-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <Link
+              to="/"
+              className="flex items-center text-blue-600 hover:text-blue-800 transition-colors"
+            >
+              <ArrowLeft className="w-5 h-5 mr-2" />
+              Back to Application
+            </Link>
+            <h1 className="text-2xl font-bold text-gray-900">Analysis History</h1>
+            <button onClick={loadRuns} className="btn btn-secondary flex items-center" disabled={isLoading}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error && <div className="alert alert-danger mb-6">{error}</div>}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          {/* Runs */}
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-bold text-secondary-900">Runs</h2>
+              <button
+                onClick={() => selected[0] && selected[1] && compare(selected[1], selected[0])}
+                className="btn btn-primary flex items-center"
+                disabled={selected.length !== 2}
+                title="Tick two runs to compare them"
+              >
+                <GitCompare className="w-4 h-4 mr-2" />
+                Compare
+              </button>
+            </div>
+
+            {!isLoading && runs.length === 0 && (
+              <div className="card p-6 text-secondary-600">No analyses have been run for this business yet.</div>
+            )}
+
+            {runs.map((run, index) => (
+              <div key={run.analysis_id} className="card p-4">
+                <div className="flex items-start justify-between">
+                  <label className="flex items-start space-x-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="mt-1"
+                      checked={selected.includes(run.analysis_id)}
+                      onChange={() => toggleSelected(run.analysis_id)}
+                    />
+                    <div>
+                      <div className="font-semibold text-secondary-900">{formatDate(run.created_at)}</div>
+                      <div className="text-xs text-secondary-500">
+                        {run.source === 'analyze-enhanced' ? 'Real-time search' : 'Rule database'}
+                      </div>
+                    </div>
+                  </label>
+                  <div className="text-right">
+                    <div className="text-2xl font-bold text-primary-600">{run.summary.compliance_score}</div>
+                    <div className="text-xs text-secondary-500">score</div>
+                  </div>
+                </div>
+                <div className="mt-2 text-sm text-secondary-700">
+                  {run.summary.total_rules} rules • {formatMoney(run.summary.estimated_total_cost)} first year
+                </div>
+                <div className="mt-3 flex space-x-2">
+                  <button onClick={() => viewReport(run.analysis_id)} className="btn btn-secondary text-sm">View Report</button>
+                  <a href={analysisApi.getReportPdfUrl(run.analysis_id)} className="btn btn-ghost text-sm">PDF</a>
+                  {index < runs.length - 1 && (
+                    <button onClick={() => compare(run.analysis_id)} className="btn btn-ghost text-sm">Compare with previous</button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="lg:col-span-2 space-y-6">
+            {!comparison && !report && runs.length > 0 && (
+              <div className="card p-6 text-secondary-600">
+                Open a run's report, or tick two runs and compare them to see what changed.
+              </div>
+            )}
+
+            {/* Comparison */}
+            {comparison && (
+              <>
+                <div className="card-elevated p-6">
+                  <h2 className="text-xl font-bold text-secondary-900 mb-1">What Changed</h2>
+                  <p className="text-sm text-secondary-600 mb-4">
+                    {formatDate(comparison.base.created_at)} → {formatDate(comparison.target.created_at)}
+                  </p>
+                  <div className="grid grid-cols-3 gap-4">
+                    <DeltaStat label="Compliance score" value={comparison.score} />
+                    <DeltaStat label="First-year cost" value={comparison.first_year_cost} format={formatMoney} lowerIsBetter />
+                    <DeltaStat label="Rules" value={comparison.total_rules} />
+                  </div>
+                </div>
+
+                {comparison.categories.length > 0 && (
+                  <div className="card p-6">
+                    <h3 className="text-lg font-bold text-secondary-900 mb-3">Category Scores</h3>
+                    <table className="w-full text-sm">
+                      <tbody>
+                        {comparison.categories.map(category => (
+                          <tr key={category.category} className="border-b border-secondary-100">
+                            <td className="py-2 text-secondary-800">{category.label}</td>
+                            <td className="py-2 text-right text-secondary-600">{category.before} → {category.after}</td>
+                            <td className={`py-2 text-right font-semibold ${category.delta > 0 ? 'text-success-600' : category.delta < 0 ? 'text-danger-600' : 'text-secondary-400'}`}>
+                              {category.delta > 0 ? '+' : ''}{category.delta}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                <div className="card p-6 space-y-4">
+                  <h3 className="text-lg font-bold text-secondary-900">
+                    Rules <span className="text-sm font-normal text-secondary-500">({comparison.rules.unchanged} unchanged)</span>
+                  </h3>
+                  {comparison.rules.added.length > 0 && (
+                    <div>
+                      <h4 className="font-semibold text-success-700 mb-1">Added</h4>
+                      <ul className="space-y-1">
+                        {comparison.rules.added.map(rule => (
+                          <li key={rule.canonical_id} className="text-sm text-secondary-700">+ {rule.title} <span className="text-secondary-500">({rule.authority})</span></li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  {comparison.rules.removed.length > 0 && (
+                    <div>
+                      <h4 className="font-semibold text-danger-700 mb-1">No longer applies</h4>
+                      <ul className="space-y-1">
+                        {comparison.rules.removed.map(rule => (
+                          <li key={rule.canonical_id} className="text-sm text-secondary-700">− {rule.title} <span className="text-secondary-500">({rule.authority})</span></li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  {comparison.rules.changed.length > 0 && (
+                    <div>
+                      <h4 className="font-semibold text-warning-700 mb-1">Changed</h4>
+                      <ul className="space-y-2">
+                        {comparison.rules.changed.map(rule => (
+                          <li key={rule.canonical_id} className="text-sm text-secondary-700">
+                            <div className="font-medium">{rule.title} <span className="text-secondary-500">v{rule.from_version} → v{rule.to_version}</span></div>
+                            <ul className="ml-4">
+                              {rule.changes.map(change => (
+                                <li key={change.path} className="text-xs text-secondary-600">{describeChange(change)}</li>
+                              ))}
+                            </ul>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  {comparison.profile_changes.length > 0 && (
+                    <div>
+                      <h4 className="font-semibold text-secondary-800 mb-1">Business profile</h4>
+                      <ul className="space-y-1">
+                        {comparison.profile_changes.map(change => (
+                          <li key={change.path} className="text-xs text-secondary-600">{describeChange(change)}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
+
+            {/* Stored report */}
+            {report && (
+              <>
+                <div className="card-elevated p-6">
+                  <h2 className="text-xl font-bold text-secondary-900">{report.profile.business_name}</h2>
+                  <p className="text-sm text-secondary-600">
+                    Analyzed {formatDate(report.created_at)} • {report.summary.total_rules} rules
+                  </p>
+                </div>
+                <RiskScoreCard assessment={report.risk_assessment} />
+                <CostForecastCard forecast={report.cost_forecast} />
+                <div className="card p-6">
+                  <h3 className="text-lg font-bold text-secondary-900 mb-3">Rules</h3>
+                  <ul className="space-y-2">
+                    {report.rules.map(rule => (
+                      <li key={rule.canonical_id} className="text-sm">
+                        <span className="font-medium text-secondary-900">{rule.title}</span>
+                        <span className="text-secondary-500"> — {rule.authority} ({rule.priority})</span>
+                        {rule.sources[0]?.source_url && (
+                          <a href={rule.sources[0].source_url} target="_blank" rel="noopener noreferrer" className="ml-2 text-primary-600 hover:underline">Source</a>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+                <div className="card p-6">
+                  <h3 className="text-lg font-bold text-secondary-900 mb-3">AI Report</h3>
+                  <div className="text-sm text-secondary-700 whitespace-pre-wrap">{report.ai_report}</div>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisHistory;
@@ -1,176 +1,139 @@
-import React, { useState, useEffect } from 'react';
-import { useLocation } from 'react-router-dom';
-import { 
-  FileText, 
-  Search, 
-  Filter, 
-  Loader2, 
-  AlertCircle,
+import React from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import {
+  ArrowLeft,
+  FileText,
+  Search,
+  Loader2,
   RefreshCw,
-  Download
+  Download,
+  ChevronLeft,
+  ChevronRight,
+  X
 } from 'lucide-react';
-import { ComplianceRuleCard } from '../components/ComplianceRule/ComplianceRuleCard';
-import type { ComplianceRule, BusinessProfile as BusinessProfileType } from '../types';
-// import { complianceRulesApi } from '../services/api';
+import { complianceRulesApi } from '../services/api';
+import type {
+  BusinessProfile as BusinessProfileType,
+  RuleSearchFacet,
+  RuleSearchFilters,
+  RuleSearchPage,
+  StoredRule
+} from '../types';
 
-interface FilterState {
-  level: 'all' | 'federal' | 'state' | 'local';
-  priority: 'all' | 'critical' | 'high' | 'medium' | 'low';
-  searchTerm: string;
-}
+const PAGE_SIZE = 20;
 
-export const ComplianceRules: React.FC = () => {
-  const location = useLocation();
-  const [rules, setRules] = useState<ComplianceRule[]>([]);
-  const [filteredRules, setFilteredRules] = useState<ComplianceRule[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [filters, setFilters] = useState<FilterState>({
-    level: 'all',
-    priority: 'all',
-    searchTerm: '',
-  });
-
-  // Get business profile from navigation state if available
-  const businessProfile = location.state?.businessProfile as BusinessProfileType | undefined;
-  const autoAnalyze = location.state?.autoAnalyze as boolean | undefined;
-
-  // Load rules
-  useEffect(() => {
-    const loadRules = async () => {
-      setIsLoading(true);
-      setError(null);
-
-      try {
-        let loadedRules: ComplianceRule[];
+// Facets shown in the sidebar, in order
+const FACET_LABELS: Record<RuleSearchFacet, string> = {
+  level: 'Level',
+  priority: 'Priority',
+  state: 'State',
+  authority: 'Authority',
+  industry: 'Industry',
+  tags: 'Tags'
+};
 
-        // Mock data for demo
-        loadedRules = [
-          {
-            id: '1',
-            canonical_id: 'DEMO_001',
-            title: 'Business Registration Requirements',
-            description: 'All businesses must register with the state within 30 days of formation.',
-            authority: 'State Department of Commerce',
-            level: 'state' as const,
-            jurisdiction: 'California',
-            priority: 'high' as const,
-            status: 'active' as const,
-            applicability_criteria: {
-              business_types: ['LLC', 'Corporation'],
-              employee_count_range: { min: 0, max: 1000 },
-              revenue_range: { min: 0, max: 10000000 },
-              states: ['CA'],
-              naics_codes: [],
-              industry_keywords: [],
-              special_conditions: []
-            },
-            compliance_steps: [
-              {
-                step_number: 1,
-                step_description: 'File Articles of Incorporation',
-                deadline: '30 days from formation',
-                deadline_type: 'relative' as const,
-                required_forms: [],
-                required_documents: ['Articles of Incorporation'],
-                estimated_cost: 100,
-                estimated_time: '1-2 hours',
-                depends_on_steps: [],
-                can_be_done_parallel: true,
-                priority: 'high' as const,
-                verification_method: 'State filing confirmation',
-                completion_proof: ['Filing receipt']
-              }
-            ],
-            estimated_cost: 100,
-            estimated_time: '1-2 hours',
-            penalties: {
-              monetary_penalty: 500,
-              other_penalties: ['Business closure'],
-              enforcement_agency: 'State Department of Commerce'
-            },
-            deadlines: {
-              initial_deadline: '30 days from formation',
-              grace_period: 15
-            },
-            sources: [],
-            tags: ['registration', 'formation'],
-            related_rules: [],
-            conflicts_with: [],
-            version: 1,
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
-            last_verified: new Date().toISOString(),
-            search_keywords: ['business', 'registration']
-          }
-        ];
+// Values listed per facet before "Show more"
+const FACET_PREVIEW = 8;
 
-        console.log('Mock rules loaded:', loadedRules.length);
+const PRIORITY_BADGES: Record<StoredRule['priority'], string> = {
+  critical: 'badge-danger',
+  high: 'badge-warning',
+  medium: 'badge-primary',
+  low: 'badge-secondary'
+};
 
-        setRules(loadedRules);
-        setFilteredRules(loadedRules);
-      } catch (err: any) {
-        console.error('Error loading rules:', err);
-        setError(err.message || 'Failed to load compliance rules');
-      } finally {
-        setIsLoading(false);
-      }
-    };
+// Prefer the server's error message over axios' generic one
+const getErrorMessage = (error: unknown): string => {
+  const response = (error as { response?: { data?: { error?: string } } }).response;
+  return response?.data?.error || (error instanceof Error ? error.message : 'Request failed');
+};
 
-    loadRules();
-  }, [businessProfile, autoAnalyze]);
+const ComplianceRules: React.FC = () => {
+  const location = useLocation();
+  // A business profile passed in navigation state pre-selects its state
+  const businessProfile = location.state?.businessProfile as BusinessProfileType | undefined;
 
-  // Apply filters
-  useEffect(() => {
-    let filtered = [...rules];
+  const [query, setQuery] = React.useState('');
+  const [debouncedQuery, setDebouncedQuery] = React.useState('');
+  const [filters, setFilters] = React.useState<RuleSearchFilters>(() =>
+    businessProfile?.headquarters_state ? { state: [businessProfile.headquarters_state] } : {});
+  const [pageNumber, setPageNumber] = React.useState(1);
+  const [results, setResults] = React.useState<RuleSearchPage | null>(null);
+  const [expandedFacets, setExpandedFacets] = React.useState<RuleSearchFacet[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
 
-    // Filter by level
-    if (filters.level !== 'all') {
-      filtered = filtered.filter(rule => rule.level === filters.level);
-    }
+  // Search as the user types, once they pause
+  React.useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedQuery(query.trim());
+      setPageNumber(1);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [query]);
 
-    // Filter by priority
-    if (filters.priority !== 'all') {
-      filtered = filtered.filter(rule => rule.priority === filters.priority);
+  const loadResults = React.useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setResults(await complianceRulesApi.query({
+        q: debouncedQuery,
+        filters,
+        page: pageNumber,
+        page_size: PAGE_SIZE
+      }));
+    } catch (loadError) {
+      setError(getErrorMessage(loadError));
+    } finally {
+      setIsLoading(false);
     }
+  }, [debouncedQuery, filters, pageNumber]);
 
-    // Filter by search term
-    if (filters.searchTerm) {
-      const searchLower = filters.searchTerm.toLowerCase();
-      filtered = filtered.filter(rule =>
-        rule.title.toLowerCase().includes(searchLower) ||
-        rule.description.toLowerCase().includes(searchLower) ||
-        rule.authority.toLowerCase().includes(searchLower) ||
-        rule.tags.some(tag => tag.toLowerCase().includes(searchLower))
-      );
-    }
+  React.useEffect(() => {
+    loadResults();
+  }, [loadResults]);
 
-    setFilteredRules(filtered);
-  }, [rules, filters]);
+  const toggleFilter = (facet: RuleSearchFacet, value: string) => {
+    setFilters(prev => {
+      const values = prev[facet] || [];
+      const selected = values.some(candidate => candidate.toLowerCase() === value.toLowerCase());
+      const next = selected
+        ? values.filter(candidate => candidate.toLowerCase() !== value.toLowerCase())
+        : [...values, value];
+      return { ...prev, [facet]: next };
+    });
+    setPageNumber(1);
+  };
 
-  const handleFilterChange = (key: keyof FilterState, value: string) => {
-    setFilters(prev => ({ ...prev, [key]: value }));
+  const clearFilters = () => {
+    setFilters({});
+    setQuery('');
+    setPageNumber(1);
   };
 
-  const handleRefresh = () => {
-    window.location.reload();
+  const toggleExpanded = (facet: RuleSearchFacet) => {
+    setExpandedFacets(prev => prev.includes(facet) ? prev.filter(candidate => candidate !== facet) : [...prev, facet]);
   };
 
+  const activeFilters = (Object.entries(filters) as [RuleSearchFacet, string[] | undefined][])
+    .flatMap(([facet, values]) => (values || []).map(value => ({ facet, value })));
+
+  // Exports the rules on the current page
   const handleExport = () => {
-    // Create CSV content
+    if (!results) return;
     const csvContent = [
-      ['Title', 'Level', 'Priority', 'Authority', 'Estimated Cost', 'Description'].join(','),
-      ...filteredRules.map(rule => [
-        `"${rule.title}"`,
+      ['Title', 'Level', 'Priority', 'Authority', 'Jurisdiction', 'Filing Fees', 'Description'].join(','),
+      ...results.hits.map(({ rule }) => [
+        `"${rule.title.replace(/"/g, '""')}"`,
         rule.level,
         rule.priority,
-        `"${rule.authority}"`,
-        rule.estimated_cost,
+        `"${rule.authority.replace(/"/g, '""')}"`,
+        `"${rule.jurisdiction.replace(/"/g, '""')}"`,
+        rule.estimated_cost?.filing_fees ?? 0,
         `"${rule.description.replace(/"/g, '""')}"`
       ].join(','))
     ].join('\n');
 
-    // Create and download file
     const blob = new Blob([csvContent], { type: 'text/csv' });
     const url = window.URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -182,162 +145,210 @@ export const ComplianceRules: React.FC = () => {
     window.URL.revokeObjectURL(url);
   };
 
-  if (isLoading) {
-    return (
-      <div className="flex items-center justify-center min-h-96">
-        <div className="text-center">
-          <Loader2 className="w-8 h-8 animate-spin text-primary-600 mx-auto mb-4" />
-          <p className="text-gray-600">Loading compliance rules...</p>
-        </div>
-      </div>
-    );
-  }
-
-  if (error) {
-    return (
-      <div className="text-center py-12">
-        <AlertCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
-        <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Rules</h3>
-        <p className="text-gray-600 mb-4">{error}</p>
-        <button
-          onClick={handleRefresh}
-          className="btn btn-primary"
-        >
-          <RefreshCw className="w-4 h-4 mr-2" />
-          Try Again
-        </button>
-      </div>
-    );
-  }
-
   return (
-    <div className="space-y-6">
+    <div className="min-h-screen bg-gradient-to-br from-secondary-50 via-white to-primary-50">
       {/* Header */}
-      <div className="flex items-center justify-between">
-        <div>
-          <h1 className="text-3xl font-bold text-gray-900 flex items-center">
-            <FileText className="w-8 h-8 mr-3 text-primary-600" />
-            Compliance Rules
-          </h1>
-          <p className="mt-2 text-gray-600">
-            {businessProfile && autoAnalyze
-              ? `Showing ${filteredRules.length} rules matching your business profile`
-              : `Browse and search through ${filteredRules.length} compliance requirements`
-            }
-          </p>
-        </div>
-
-        <div className="flex items-center space-x-3">
-          <button
-            onClick={handleExport}
-            className="btn btn-secondary"
-            disabled={filteredRules.length === 0}
-          >
-            <Download className="w-4 h-4 mr-2" />
-            Export CSV
-          </button>
-          <button
-            onClick={handleRefresh}
-            className="btn btn-secondary"
-          >
-            <RefreshCw className="w-4 h-4 mr-2" />
-            Refresh
-          </button>
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <Link
+              to="/"
+              className="flex items-center text-blue-600 hover:text-blue-800 transition-colors"
+            >
+              <ArrowLeft className="w-5 h-5 mr-2" />
+              Back to Application
+            </Link>
+            <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+              <FileText className="w-6 h-6 mr-2 text-primary-600" />
+              Compliance Rules
+            </h1>
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={handleExport}
+                className="btn btn-secondary flex items-center"
+                disabled={!results || results.hits.length === 0}
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Export CSV
+              </button>
+              <button
+                onClick={loadResults}
+                className="btn btn-secondary flex items-center"
+                disabled={isLoading}
+              >
+                <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+                Refresh
+              </button>
+            </div>
+          </div>
         </div>
       </div>
 
-      {/* Business Profile Context */}
-      {businessProfile && (
-        <div className="card bg-blue-50 border-blue-200">
-          <div className="flex items-center justify-between">
-            <div>
-              <h3 className="text-lg font-semibold text-blue-900">
-                Analyzing for: {businessProfile.business_name}
-              </h3>
-              <p className="text-sm text-blue-700 mt-1">
-                {businessProfile.business_type} • {businessProfile.headquarters_state} • 
-                {businessProfile.employee_count} employees • {businessProfile.primary_industry}
-              </p>
-            </div>
-            {autoAnalyze && (
-              <div className="text-sm text-blue-600 font-medium">
-                Personalized Results
-              </div>
-            )}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {error && <div className="alert alert-danger">{error}</div>}
+
+        {/* Business Profile Context */}
+        {businessProfile && (
+          <div className="card bg-blue-50 border-blue-200">
+            <h3 className="text-lg font-semibold text-blue-900">
+              Browsing for: {businessProfile.business_name}
+            </h3>
+            <p className="text-sm text-blue-700 mt-1">
+              {businessProfile.business_type} • {businessProfile.headquarters_state} •
+              {' '}{businessProfile.employee_count} employees • {businessProfile.primary_industry}
+            </p>
           </div>
-        </div>
-      )}
+        )}
 
-      {/* Filters */}
-      <div className="card">
-        <div className="flex flex-col md:flex-row md:items-center md:justify-between space-y-4 md:space-y-0">
-          {/* Search */}
-          <div className="relative flex-1 max-w-md">
+        {/* Search */}
+        <div className="card space-y-3">
+          <div className="relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
             <input
               type="text"
-              placeholder="Search rules..."
-              value={filters.searchTerm}
-              onChange={(e) => handleFilterChange('searchTerm', e.target.value)}
+              placeholder="Search titles, descriptions, authorities, forms..."
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
               className="pl-10 form-input"
             />
           </div>
+          {activeFilters.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              {activeFilters.map(({ facet, value }) => (
+                <button
+                  key={`${facet}:${value}`}
+                  onClick={() => toggleFilter(facet, value)}
+                  className="badge badge-primary flex items-center"
+                >
+                  {FACET_LABELS[facet]}: {value}
+                  <X className="w-3 h-3 ml-1" />
+                </button>
+              ))}
+              <button onClick={clearFilters} className="text-sm text-blue-600 hover:text-blue-800">
+                Clear all
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          {/* Facets */}
+          <div className="card-elevated p-4 space-y-5 lg:col-span-1 self-start">
+            {(Object.keys(FACET_LABELS) as RuleSearchFacet[]).map(facet => {
+              const counts = results?.facets[facet] || [];
+              const expanded = expandedFacets.includes(facet);
+              if (counts.length === 0) return null;
+              return (
+                <div key={facet}>
+                  <h3 className="text-sm font-semibold text-gray-900 mb-2">{FACET_LABELS[facet]}</h3>
+                  <div className="space-y-1">
+                    {(expanded ? counts : counts.slice(0, FACET_PREVIEW)).map(count => (
+                      <label key={count.value} className="flex items-center text-sm text-gray-700 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={count.selected}
+                          onChange={() => toggleFilter(facet, count.value)}
+                          className="mr-2"
+                        />
+                        <span className="flex-1 truncate capitalize">{count.value}</span>
+                        <span className="text-xs text-gray-500 ml-2">{count.count}</span>
+                      </label>
+                    ))}
+                  </div>
+                  {counts.length > FACET_PREVIEW && (
+                    <button onClick={() => toggleExpanded(facet)} className="text-xs text-blue-600 hover:text-blue-800 mt-1">
+                      {expanded ? 'Show less' : `Show ${counts.length - FACET_PREVIEW} more`}
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
 
-          {/* Filter Controls */}
-          <div className="flex items-center space-x-4">
-            <div className="flex items-center space-x-2">
-              <Filter className="w-4 h-4 text-gray-500" />
-              <span className="text-sm font-medium text-gray-700">Filters:</span>
+          {/* Results */}
+          <div className="lg:col-span-3 space-y-4">
+            <div className="flex items-center justify-between text-sm text-gray-600">
+              <span>
+                {results ? `${results.total} rule${results.total === 1 ? '' : 's'}${results.q ? ` matching "${results.q}"` : ''}` : ''}
+              </span>
+              {isLoading && <Loader2 className="w-4 h-4 animate-spin text-primary-600" />}
             </div>
 
-            <select
-              value={filters.level}
-              onChange={(e) => handleFilterChange('level', e.target.value)}
-              className="form-input py-1 text-sm"
-            >
-              <option value="all">All Levels</option>
-              <option value="federal">Federal</option>
-              <option value="state">State</option>
-              <option value="local">Local</option>
-            </select>
+            {results && results.hits.length === 0 && !isLoading && (
+              <div className="text-center py-12">
+                <FileText className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No Rules Found</h3>
+                <p className="text-gray-600">
+                  {results.q || activeFilters.length > 0
+                    ? 'Try adjusting your search terms or filters.'
+                    : 'No compliance rules are currently available.'}
+                </p>
+              </div>
+            )}
 
-            <select
-              value={filters.priority}
-              onChange={(e) => handleFilterChange('priority', e.target.value)}
-              className="form-input py-1 text-sm"
-            >
-              <option value="all">All Priorities</option>
-              <option value="critical">Critical</option>
-              <option value="high">High</option>
-              <option value="medium">Medium</option>
-              <option value="low">Low</option>
-            </select>
+            {results?.hits.map(({ rule, score }) => (
+              <div key={rule.id} className="card-elevated p-6 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900">{rule.title}</h2>
+                    <p className="text-sm text-gray-600">{rule.authority} • {rule.jurisdiction}</p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <span className="badge badge-secondary capitalize">{rule.level}</span>
+                    <span className={`badge ${PRIORITY_BADGES[rule.priority]} capitalize`}>{rule.priority}</span>
+                  </div>
+                </div>
+                <p className="text-gray-700">{rule.description}</p>
+                <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                  {rule.tags.map(tag => (
+                    <span key={tag} className="px-2 py-0.5 bg-secondary-100 rounded">{tag}</span>
+                  ))}
+                  {rule.compliance_steps.length > 0 && (
+                    <span>{rule.compliance_steps.length} step{rule.compliance_steps.length === 1 ? '' : 's'}</span>
+                  )}
+                  {rule.deadlines?.initial_deadline && <span>Deadline: {rule.deadlines.initial_deadline}</span>}
+                  {score !== null && <span className="ml-auto">Relevance {score.toFixed(2)}</span>}
+                </div>
+                {rule.sources[0]?.source_url && (
+                  <a
+                    href={rule.sources[0].source_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    {rule.sources[0].source_name || 'Source'}
+                  </a>
+                )}
+              </div>
+            ))}
+
+            {/* Pagination */}
+            {results && results.pages > 1 && (
+              <div className="flex items-center justify-center space-x-4">
+                <button
+                  onClick={() => setPageNumber(pageNumber - 1)}
+                  className="btn btn-ghost flex items-center"
+                  disabled={isLoading || results.page <= 1}
+                >
+                  <ChevronLeft className="w-4 h-4 mr-1" />
+                  Previous
+                </button>
+                <span className="text-sm text-gray-600">Page {results.page} of {results.pages}</span>
+                <button
+                  onClick={() => setPageNumber(pageNumber + 1)}
+                  className="btn btn-ghost flex items-center"
+                  disabled={isLoading || results.page >= results.pages}
+                >
+                  Next
+                  <ChevronRight className="w-4 h-4 ml-1" />
+                </button>
+              </div>
+            )}
           </div>
         </div>
       </div>
-
-      {/* Rules List */}
-      {filteredRules.length === 0 ? (
-        <div className="text-center py-12">
-          <FileText className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-          <h3 className="text-lg font-medium text-gray-900 mb-2">No Rules Found</h3>
-          <p className="text-gray-600">
-            {filters.searchTerm || filters.level !== 'all' || filters.priority !== 'all'
-              ? 'Try adjusting your search criteria or filters.'
-              : 'No compliance rules are currently available.'
-            }
-          </p>
-        </div>
-      ) : (
-        <div className="space-y-6">
-          {filteredRules.map((rule) => (
-            <ComplianceRuleCard
-              key={rule.id}
-              rule={rule}
-            />
-          ))}
-        </div>
-      )}
     </div>
   );
 };
+
+export default ComplianceRules;
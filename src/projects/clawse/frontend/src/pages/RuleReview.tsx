@@ -0,0 +1,309 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, RefreshCw, Save, Check, X, GitMerge } from 'lucide-react';
+import { ruleReviewApi } from '../services/api';
+import { RuleEditor } from '../components/RuleReview/RuleEditor';
+import type { RuleReviewQueuePage, RuleReviewStatus, StoredRule } from '../types';
+
+const STATUS_LABELS: Record<RuleReviewStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  merged: 'Merged'
+};
+
+const STATUS_BADGES: Record<RuleReviewStatus, string> = {
+  pending: 'badge-warning',
+  approved: 'badge-success',
+  rejected: 'badge-danger',
+  merged: 'badge-secondary'
+};
+
+type ValidationError = { path: string; message: string };
+
+// Prefer the server's error message over axios' generic one
+const getErrorMessage = (error: unknown): string => {
+  const response = (error as { response?: { data?: { error?: string } } }).response;
+  return response?.data?.error || (error instanceof Error ? error.message : 'Request failed');
+};
+
+// Field errors the rule validator returned with a 400
+const getValidationErrors = (error: unknown): ValidationError[] => {
+  const response = (error as { response?: { data?: { errors?: ValidationError[] } } }).response;
+  return response?.data?.errors || [];
+};
+
+const RuleReview: React.FC = () => {
+  const [status, setStatus] = React.useState<RuleReviewStatus>('pending');
+  const [page, setPage] = React.useState<RuleReviewQueuePage | null>(null);
+  const [mergeTargets, setMergeTargets] = React.useState<StoredRule[]>([]);
+  const [selected, setSelected] = React.useState<StoredRule | null>(null);
+  const [draft, setDraft] = React.useState<StoredRule | null>(null);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [validationErrors, setValidationErrors] = React.useState<ValidationError[]>([]);
+  const [reviewer, setReviewer] = React.useState(() => localStorage.getItem('rule_reviewer') || '');
+  const [notes, setNotes] = React.useState('');
+  const [mergeTarget, setMergeTarget] = React.useState('');
+
+  const loadQueue = React.useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [queue, approved] = await Promise.all([
+        ruleReviewApi.list(status),
+        ruleReviewApi.list('approved', 200)
+      ]);
+      setPage(queue);
+      setMergeTargets(approved.rules);
+    } catch (loadError) {
+      setError(getErrorMessage(loadError));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status]);
+
+  React.useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  React.useEffect(() => {
+    localStorage.setItem('rule_reviewer', reviewer);
+  }, [reviewer]);
+
+  const selectRule = (rule: StoredRule | null) => {
+    setSelected(rule);
+    setDraft(rule);
+    setNotes('');
+    setMergeTarget('');
+    setValidationErrors([]);
+  };
+
+  const isDirty = !!draft && !!selected && JSON.stringify(draft) !== JSON.stringify(selected);
+  const isFinal = selected?.review.status === 'merged';
+
+  // Unsaved edits travel with the decision so they land in the same revision
+  const runReview = async (change: () => Promise<StoredRule>) => {
+    setError(null);
+    setValidationErrors([]);
+    if (!reviewer.trim()) {
+      setError('Enter your name first; it is recorded with every review action.');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const rule = await change();
+      await loadQueue();
+      selectRule(rule);
+    } catch (reviewError) {
+      setError(getErrorMessage(reviewError));
+      setValidationErrors(getValidationErrors(reviewError));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const decision = () => ({
+    reviewer: reviewer.trim(),
+    notes: notes.trim() || undefined,
+    rule: isDirty ? draft ?? undefined : undefined
+  });
+
+  const handleSave = () => {
+    if (!selected || !draft) return;
+    runReview(() => ruleReviewApi.save(selected.id, { ...decision(), rule: draft }));
+  };
+
+  const handleDecision = (action: 'approve' | 'reject') => {
+    if (!selected) return;
+    runReview(() => ruleReviewApi.decide(selected.id, action, decision()));
+  };
+
+  const handleMerge = () => {
+    if (!selected || !mergeTarget) return;
+    runReview(() => ruleReviewApi.decide(selected.id, 'merge', { ...decision(), target_id: mergeTarget }));
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-secondary-50 via-white to-primary-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <Link
+              to="/"
+              className="flex items-center text-blue-600 hover:text-blue-800 transition-colors"
+            >
+              <ArrowLeft className="w-5 h-5 mr-2" />
+              Back to Application
+            </Link>
+            <h1 className="text-2xl font-bold text-gray-900">Rule Review</h1>
+            <button
+              onClick={loadQueue}
+              className="btn btn-secondary flex items-center"
+              disabled={isLoading}
+            >
+              <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {error && (
+          <div className="alert alert-danger">
+            {error}
+            {validationErrors.length > 0 && (
+              <ul className="mt-2 list-disc list-inside text-sm">
+                {validationErrors.map((validationError, index) => (
+                  <li key={index}><code>{validationError.path}</code>: {validationError.message}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {/* Status tabs */}
+        <div className="card p-4 flex flex-wrap items-center gap-2">
+          {(Object.keys(STATUS_LABELS) as RuleReviewStatus[]).map(candidate => (
+            <button
+              key={candidate}
+              onClick={() => { setStatus(candidate); selectRule(null); }}
+              className={`btn ${status === candidate ? 'btn-primary' : 'btn-ghost'}`}
+            >
+              {STATUS_LABELS[candidate]}
+              {page && <span className="ml-2 text-xs opacity-75">{page.counts[candidate]}</span>}
+            </button>
+          ))}
+          <input
+            type="text"
+            value={reviewer}
+            onChange={(e) => setReviewer(e.target.value)}
+            placeholder="Your name (recorded on reviews)"
+            className="form-input w-64 ml-auto"
+          />
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Queue */}
+          <div className="card-elevated p-4 space-y-2 lg:col-span-1 self-start">
+            {isLoading && !page && <div className="text-center py-8 text-secondary-600">Loading rules...</div>}
+            {page && page.rules.length === 0 && (
+              <div className="text-center py-8 text-secondary-600">No {STATUS_LABELS[status].toLowerCase()} rules.</div>
+            )}
+            {page?.rules.map(rule => (
+              <button
+                key={rule.id}
+                onClick={() => selectRule(rule)}
+                className={`w-full text-left border rounded-lg p-3 transition-colors ${selected?.id === rule.id ? 'border-primary-500 bg-primary-50' : 'hover:bg-secondary-50'}`}
+              >
+                <div className="font-medium text-secondary-900">{rule.title}</div>
+                <div className="text-sm text-secondary-600">
+                  {rule.authority} • {rule.level} • v{rule.version}
+                </div>
+              </button>
+            ))}
+            {page && page.total > page.rules.length && (
+              <p className="text-xs text-secondary-500 text-center">Showing {page.rules.length} of {page.total}</p>
+            )}
+          </div>
+
+          {/* Editor */}
+          <div className="card-elevated p-6 lg:col-span-2">
+            {!selected || !draft ? (
+              <div className="text-center py-12 text-secondary-600">Select a rule to review it.</div>
+            ) : (
+              <div className="space-y-6">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className={`badge ${STATUS_BADGES[selected.review.status]}`}>{STATUS_LABELS[selected.review.status]}</span>
+                  <span className="text-sm text-secondary-600">
+                    {selected.id} • version {selected.version}
+                    {selected.review.reviewer && selected.review.reviewed_at &&
+                      ` • ${STATUS_LABELS[selected.review.status].toLowerCase()} by ${selected.review.reviewer} on ${new Date(selected.review.reviewed_at).toLocaleString()}`}
+                  </span>
+                  {isDirty && <span className="badge badge-primary">Unsaved edits</span>}
+                </div>
+                {isFinal && (
+                  <div className="alert alert-warning">
+                    Merged into {selected.review.merged_into}; merged rules can no longer be edited.
+                  </div>
+                )}
+
+                <RuleEditor rule={draft} onChange={setDraft} disabled={isSaving || isFinal} />
+
+                {/* Decision */}
+                <div className="border-t pt-4 space-y-3">
+                  <textarea
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="Review notes (optional)"
+                    rows={2}
+                    disabled={isFinal}
+                    className="form-input w-full"
+                  />
+                  <div className="flex flex-wrap items-center gap-2">
+                    <button onClick={handleSave} disabled={isSaving || isFinal || !isDirty} className="btn btn-secondary flex items-center">
+                      <Save className="w-4 h-4 mr-1" />
+                      Save
+                    </button>
+                    <button
+                      onClick={() => handleDecision('approve')}
+                      disabled={isSaving || isFinal || selected.review.status === 'approved'}
+                      className="btn btn-success flex items-center"
+                    >
+                      <Check className="w-4 h-4 mr-1" />
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => handleDecision('reject')}
+                      disabled={isSaving || isFinal || selected.review.status === 'rejected'}
+                      className="btn btn-ghost flex items-center text-danger-600"
+                    >
+                      <X className="w-4 h-4 mr-1" />
+                      Reject
+                    </button>
+                    <div className="flex items-center gap-2 ml-auto">
+                      <select
+                        value={mergeTarget}
+                        onChange={(e) => setMergeTarget(e.target.value)}
+                        disabled={isSaving || isFinal}
+                        className="form-select w-64"
+                      >
+                        <option value="">Merge into…</option>
+                        {mergeTargets.filter(rule => rule.id !== selected.id).map(rule => (
+                          <option key={rule.id} value={rule.id}>{rule.title} ({rule.jurisdiction})</option>
+                        ))}
+                      </select>
+                      <button onClick={handleMerge} disabled={isSaving || isFinal || !mergeTarget} className="btn btn-secondary flex items-center">
+                        <GitMerge className="w-4 h-4 mr-1" />
+                        Merge
+                      </button>
+                    </div>
+                  </div>
+                </div>
+
+                <details className="text-sm text-secondary-600" open={selected.review.history.length > 0}>
+                  <summary className="cursor-pointer">Review history</summary>
+                  <ul className="mt-2 space-y-1">
+                    {selected.review.history.map((event, index) => (
+                      <li key={index}>
+                        {new Date(event.at).toLocaleString()}: {event.action} by {event.reviewer} (v{event.version})
+                        {event.merged_into && ` into ${event.merged_into}`}
+                        {event.note && ` — ${event.note}`}
+                      </li>
+                    ))}
+                    {selected.review.history.length === 0 && <li className="italic">No review actions yet.</li>}
+                  </ul>
+                </details>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RuleReview;
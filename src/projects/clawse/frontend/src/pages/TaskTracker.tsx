@@ -0,0 +1,368 @@
+import React from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, RefreshCw, Lock, Paperclip } from 'lucide-react';
+import { taskApi } from '../services/api';
+import type { ComplianceTask, TaskStatus, TaskSummary } from '../types';
+
+// Same transitions the server enforces (src/services/TaskTracker.js)
+const STATUS_ACTIONS: Record<TaskStatus, { to: TaskStatus; label: string; className: string }[]> = {
+  pending: [
+    { to: 'in_progress', label: 'Start', className: 'btn btn-primary' },
+    { to: 'completed', label: 'Complete', className: 'btn btn-success' },
+    { to: 'not_applicable', label: 'Not Applicable', className: 'btn btn-ghost' }
+  ],
+  in_progress: [
+    { to: 'completed', label: 'Complete', className: 'btn btn-success' },
+    { to: 'pending', label: 'Pause', className: 'btn btn-secondary' },
+    { to: 'not_applicable', label: 'Not Applicable', className: 'btn btn-ghost' }
+  ],
+  completed: [{ to: 'in_progress', label: 'Reopen', className: 'btn btn-secondary' }],
+  not_applicable: [{ to: 'pending', label: 'Restore', className: 'btn btn-secondary' }]
+};
+
+const STATUS_LABELS: Record<TaskStatus, string> = {
+  pending: 'Pending',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  not_applicable: 'Not Applicable'
+};
+
+const getStatusBadge = (task: ComplianceTask) => {
+  if (task.is_overdue) return 'badge-danger';
+  switch (task.status) {
+    case 'completed': return 'badge-success';
+    case 'in_progress': return 'badge-primary';
+    case 'not_applicable': return 'badge-secondary';
+    default: return 'badge-warning';
+  }
+};
+
+// Prefer the server's error message over axios' generic one
+const getErrorMessage = (error: unknown): string => {
+  const response = (error as { response?: { data?: { error?: string } } }).response;
+  return response?.data?.error || (error instanceof Error ? error.message : 'Request failed');
+};
+
+const TaskTracker: React.FC = () => {
+  const { sessionId = '' } = useParams();
+  const [tasks, setTasks] = React.useState<ComplianceTask[]>([]);
+  const [summary, setSummary] = React.useState<TaskSummary | null>(null);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = React.useState<'all' | 'open' | TaskStatus>('open');
+  const [showArchived, setShowArchived] = React.useState(false);
+  const [expandedTask, setExpandedTask] = React.useState<string | null>(null);
+  const [actor, setActor] = React.useState(() => localStorage.getItem('task_actor') || '');
+  const [noteDraft, setNoteDraft] = React.useState('');
+  const [linkDraft, setLinkDraft] = React.useState('');
+
+  const loadTasks = React.useCallback(async (sync: boolean = false) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = sync ? await taskApi.sync(sessionId) : await taskApi.list(sessionId, showArchived);
+      setTasks(result.tasks);
+      setSummary(result.summary);
+    } catch (loadError) {
+      setError(getErrorMessage(loadError));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [sessionId, showArchived]);
+
+  React.useEffect(() => {
+    loadTasks();
+  }, [loadTasks]);
+
+  React.useEffect(() => {
+    localStorage.setItem('task_actor', actor);
+  }, [actor]);
+
+  // Blocked state and the summary depend on sibling tasks, so reload after each change
+  const runTaskChange = async (change: () => Promise<ComplianceTask>) => {
+    setError(null);
+    try {
+      await change();
+      await loadTasks();
+    } catch (changeError) {
+      setError(getErrorMessage(changeError));
+    }
+  };
+
+  const handleStatusChange = (task: ComplianceTask, status: TaskStatus) =>
+    runTaskChange(() => taskApi.update(task.task_id, { status, actor: actor || undefined }));
+
+  const handleAssigneeChange = (task: ComplianceTask, assignee: string) => {
+    if (assignee.trim() === (task.assignee || '')) return;
+    runTaskChange(() => taskApi.update(task.task_id, { assignee: assignee.trim() || null, actor: actor || undefined }));
+  };
+
+  const handleAddNote = (task: ComplianceTask) => {
+    if (!noteDraft.trim()) return;
+    runTaskChange(() => taskApi.addEvidence(task.task_id, { kind: 'note', note: noteDraft, actor: actor || undefined }));
+    setNoteDraft('');
+  };
+
+  const handleAddLink = (task: ComplianceTask) => {
+    if (!linkDraft.trim()) return;
+    runTaskChange(() => taskApi.addEvidence(task.task_id, { kind: 'link', url: linkDraft.trim(), actor: actor || undefined }));
+    setLinkDraft('');
+  };
+
+  const handleUpload = (task: ComplianceTask, event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    runTaskChange(() => taskApi.uploadEvidence(task.task_id, file, actor || undefined));
+    event.target.value = '';
+  };
+
+  const stepLabel = (taskId: string) => {
+    const task = tasks.find(candidate => candidate.task_id === taskId);
+    return task ? `Step ${task.step_number}` : taskId;
+  };
+
+  const visibleTasks = tasks.filter(task => {
+    if (statusFilter === 'all') return true;
+    if (statusFilter === 'open') return task.status === 'pending' || task.status === 'in_progress';
+    return task.status === statusFilter;
+  });
+
+  // Tasks arrive ordered by rule priority, then dependency order within each rule
+  const rules = visibleTasks.reduce<{ rule_id: string; rule_title: string; tasks: ComplianceTask[] }[]>((groups, task) => {
+    const group = groups.find(candidate => candidate.rule_id === task.rule_id);
+    if (group) {
+      group.tasks.push(task);
+    } else {
+      groups.push({ rule_id: task.rule_id, rule_title: task.rule_title, tasks: [task] });
+    }
+    return groups;
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-secondary-50 via-white to-primary-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <Link
+              to="/"
+              className="flex items-center text-blue-600 hover:text-blue-800 transition-colors"
+            >
+              <ArrowLeft className="w-5 h-5 mr-2" />
+              Back to Application
+            </Link>
+            <h1 className="text-2xl font-bold text-gray-900">Compliance Tasks</h1>
+            <button
+              onClick={() => loadTasks(true)}
+              className="btn btn-secondary flex items-center"
+              disabled={isLoading}
+              title="Rebuild tasks from the rules that currently match this business"
+            >
+              <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+              Re-sync
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {error && <div className="alert alert-danger">{error}</div>}
+
+        {/* Summary */}
+        {summary && (
+          <div className="card-elevated p-6">
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="text-xl font-bold text-secondary-900">Progress</h2>
+              <span className="text-2xl font-bold text-primary-600">{summary.percent_complete}%</span>
+            </div>
+            <div className="w-full bg-secondary-100 rounded-full h-3 mb-4">
+              <div className="bg-success-500 h-3 rounded-full transition-all" style={{ width: `${summary.percent_complete}%` }}></div>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-4 text-center">
+              <div><div className="text-lg font-bold">{summary.total}</div><div className="text-sm text-secondary-600">Tasks</div></div>
+              <div><div className="text-lg font-bold">{summary.by_status.pending}</div><div className="text-sm text-secondary-600">Pending</div></div>
+              <div><div className="text-lg font-bold">{summary.by_status.in_progress}</div><div className="text-sm text-secondary-600">In Progress</div></div>
+              <div><div className="text-lg font-bold">{summary.by_status.completed + summary.by_status.not_applicable}</div><div className="text-sm text-secondary-600">Done</div></div>
+              <div><div className="text-lg font-bold text-warning-600">{summary.blocked}</div><div className="text-sm text-secondary-600">Blocked</div></div>
+              <div><div className="text-lg font-bold text-danger-600">{summary.overdue}</div><div className="text-sm text-secondary-600">Overdue</div></div>
+            </div>
+          </div>
+        )}
+
+        {/* Filters */}
+        <div className="card p-4 flex flex-wrap items-center gap-4">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as typeof statusFilter)}
+            className="form-select w-48"
+          >
+            <option value="open">Open tasks</option>
+            <option value="all">All tasks</option>
+            {(Object.keys(STATUS_LABELS) as TaskStatus[]).map(status => (
+              <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+            ))}
+          </select>
+          <label className="flex items-center space-x-2 text-sm text-secondary-700">
+            <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} />
+            <span>Show tasks of rules that no longer apply</span>
+          </label>
+          <input
+            type="text"
+            value={actor}
+            onChange={(e) => setActor(e.target.value)}
+            placeholder="Your name (recorded on changes)"
+            className="form-input w-64 ml-auto"
+          />
+        </div>
+
+        {isLoading && tasks.length === 0 && (
+          <div className="text-center py-12 text-secondary-600">Loading tasks...</div>
+        )}
+
+        {!isLoading && tasks.length === 0 && !error && (
+          <div className="card p-8 text-center text-secondary-600">
+            No tasks yet. Run a compliance analysis for this business, then re-sync.
+          </div>
+        )}
+
+        {rules.map(rule => (
+          <div key={rule.rule_id} className="card-elevated p-6">
+            <h3 className="text-lg font-bold text-secondary-900 mb-4">{rule.rule_title}</h3>
+            <div className="space-y-3">
+              {rule.tasks.map(task => (
+                <div key={task.task_id} className={`border rounded-lg p-4 ${task.archived ? 'opacity-60' : ''}`}>
+                  <div className="flex flex-wrap items-start justify-between gap-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center space-x-2 mb-1">
+                        <span className="text-sm font-semibold text-secondary-500">Step {task.step_number}</span>
+                        <span className={`badge ${getStatusBadge(task)}`}>
+                          {task.is_overdue ? 'Overdue' : STATUS_LABELS[task.status]}
+                        </span>
+                        {task.archived && <span className="badge badge-secondary">No longer applies</span>}
+                      </div>
+                      <p className="font-medium text-secondary-900">{task.title}</p>
+                      <p className="text-sm text-secondary-600 mt-1">
+                        {task.due_date ? `Due ${task.due_date}` : task.deadline_text || 'No deadline'}
+                        {task.estimated_time && ` • ${task.estimated_time}`}
+                        {task.estimated_cost > 0 && ` • $${task.estimated_cost}`}
+                      </p>
+                      {task.blocked_by.length > 0 && !['completed', 'not_applicable'].includes(task.status) && (
+                        <p className="text-sm text-warning-700 mt-1 flex items-center">
+                          <Lock className="w-4 h-4 mr-1" />
+                          Waiting on {task.blocked_by.map(stepLabel).join(', ')}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <input
+                        type="text"
+                        defaultValue={task.assignee || ''}
+                        onBlur={(e) => handleAssigneeChange(task, e.target.value)}
+                        placeholder="Assignee"
+                        className="form-input w-36"
+                      />
+                      {STATUS_ACTIONS[task.status].map(action => (
+                        <button
+                          key={action.to}
+                          onClick={() => handleStatusChange(task, action.to)}
+                          className={action.className}
+                          disabled={task.blocked_by.length > 0 && (action.to === 'in_progress' || action.to === 'completed')}
+                        >
+                          {action.label}
+                        </button>
+                      ))}
+                      <button
+                        onClick={() => setExpandedTask(expandedTask === task.task_id ? null : task.task_id)}
+                        className="btn btn-ghost flex items-center"
+                      >
+                        <Paperclip className="w-4 h-4 mr-1" />
+                        {task.evidence.length}
+                      </button>
+                    </div>
+                  </div>
+
+                  {expandedTask === task.task_id && (
+                    <div className="mt-4 border-t pt-4 space-y-3">
+                      {(task.verification_method || task.completion_proof.length > 0) && (
+                        <div className="text-sm text-secondary-700">
+                          <span className="font-semibold">Proof of completion: </span>
+                          {[task.verification_method, ...task.completion_proof].filter(Boolean).join(' • ')}
+                        </div>
+                      )}
+                      {task.required_forms.length > 0 && (
+                        <div className="text-sm text-secondary-700">
+                          <span className="font-semibold">Forms: </span>{task.required_forms.join(', ')}
+                        </div>
+                      )}
+
+                      <ul className="space-y-1 text-sm">
+                        {task.evidence.map(item => (
+                          <li key={item.evidence_id} className="text-secondary-700">
+                            {item.kind === 'file' && (
+                              <a href={taskApi.getEvidenceUrl(task.task_id, item.evidence_id)} className="text-blue-600 hover:underline">
+                                📎 {item.file_name}
+                              </a>
+                            )}
+                            {item.kind === 'link' && (
+                              <a href={item.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                                🔗 {item.url}
+                              </a>
+                            )}
+                            {item.note && <span> 📝 {item.note}</span>}
+                            <span className="text-secondary-500">
+                              {' '}— {item.added_by ? `${item.added_by}, ` : ''}{new Date(item.added_at).toLocaleDateString()}
+                            </span>
+                          </li>
+                        ))}
+                        {task.evidence.length === 0 && <li className="text-secondary-500 italic">No evidence attached yet.</li>}
+                      </ul>
+
+                      <div className="flex flex-wrap gap-2">
+                        <input
+                          type="text"
+                          value={noteDraft}
+                          onChange={(e) => setNoteDraft(e.target.value)}
+                          placeholder="Add a note"
+                          className="form-input flex-1 min-w-48"
+                        />
+                        <button onClick={() => handleAddNote(task)} className="btn btn-secondary">Add Note</button>
+                        <input
+                          type="url"
+                          value={linkDraft}
+                          onChange={(e) => setLinkDraft(e.target.value)}
+                          placeholder="https://..."
+                          className="form-input flex-1 min-w-48"
+                        />
+                        <button onClick={() => handleAddLink(task)} className="btn btn-secondary">Add Link</button>
+                        <label className="btn btn-secondary cursor-pointer">
+                          Upload File
+                          <input type="file" className="hidden" onChange={(e) => handleUpload(task, e)} />
+                        </label>
+                      </div>
+
+                      <details className="text-sm text-secondary-600">
+                        <summary className="cursor-pointer">History</summary>
+                        <ul className="mt-2 space-y-1">
+                          {task.history.map((event, index) => (
+                            <li key={index}>
+                              {new Date(event.at).toLocaleString()}: {event.action.replace('_', ' ')}
+                              {event.from || event.to ? ` (${event.from || '—'} → ${event.to || '—'})` : ''}
+                              {event.actor && ` by ${event.actor}`}
+                              {event.note && ` — ${event.note}`}
+                            </li>
+                          ))}
+                        </ul>
+                      </details>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TaskTracker;
@@ -4,8 +4,23 @@ import type {
   BusinessProfile,
   ComplianceRule,
   ComplianceAnalysisResult,
+  ComplianceCalendar,
+  ComplianceTask,
+  TaskList,
+  TaskStatus,
+  ComplianceAnalysis,
+  AnalysisListItem,
+  AnalysisComparison,
+  StoredRule,
+  RuleReviewStatus,
+  RuleReviewQueuePage,
+  RuleReviewDecision,
+  RuleSearchParams,
+  RuleSearchPage,
   RuleGenerationRequest,
   RuleGenerationResponse,
+  SearchStreamHandlers,
+  EnhancedAnalysisResponse,
   ApiResponse
 } from '../types';
 
@@ -85,6 +100,11 @@ export const businessProfileApi = {
       throw new Error(response.data.error || 'Failed to delete business profile');
     }
   },
+
+  // Stable iCalendar feed URL for calendar subscriptions
+  getCalendarFeedUrl: (sessionId: string): string => {
+    return `${config.API_BASE_URL}/business-profiles/${encodeURIComponent(sessionId)}/calendar.ics`;
+  },
 };
 
 // Compliance Rules API
@@ -122,6 +142,22 @@ export const complianceRulesApi = {
     }
     return response.data.data;
   },
+
+  // Full-text search with facet counts; repeated params OR the values of one facet
+  query: async ({ q, filters = {}, status, page, page_size }: RuleSearchParams = {}): Promise<RuleSearchPage> => {
+    const params = new URLSearchParams();
+    if (q) params.append('q', q);
+    Object.entries(filters).forEach(([facet, values]) => values?.forEach(value => params.append(facet, value)));
+    if (status) params.append('status', status);
+    if (page) params.append('page', String(page));
+    if (page_size) params.append('page_size', String(page_size));
+
+    const response = await api.get<ApiResponse<RuleSearchPage>>('/compliance-rules/query', { params });
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error || 'Failed to search compliance rules');
+    }
+    return response.data.data;
+  },
 };
 
 // AI Rule Generation API
@@ -163,6 +199,57 @@ export const aiRuleGenerationApi = {
   },
 };
 
+// POST to a Server-Sent Events endpoint, passing `progress` and `rules` events to the
+// handlers, and resolve with the `result` event. Resolves null when the deployment has
+// no streaming endpoint (Netlify functions), so callers can use the JSON endpoint instead.
+async function postEventStream<T>(path: string, body: unknown, handlers: SearchStreamHandlers): Promise<T | null> {
+  const token = localStorage.getItem('auth_token');
+  const response = await fetch(`${config.API_BASE_URL}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream',
+      ...(token && { Authorization: `Bearer ${token}` })
+    },
+    body: JSON.stringify(body)
+  });
+
+  if (!response.body || !response.headers.get('content-type')?.includes('text/event-stream')) {
+    if (response.status === 404) return null;
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error || `Request failed with status ${response.status}`);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    // Events are separated by a blank line; lines starting with ':' are heartbeats
+    let boundary;
+    while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+      const lines = buffer.slice(0, boundary).split('\n');
+      buffer = buffer.slice(boundary + 2);
+
+      const event = lines.find(line => line.startsWith('event:'))?.slice(6).trim() || 'message';
+      const data = lines.filter(line => line.startsWith('data:')).map(line => line.slice(5).trim()).join('\n');
+      if (!data) continue;
+
+      const payload = JSON.parse(data);
+      if (event === 'progress') handlers.onProgress?.(payload);
+      if (event === 'rules') handlers.onRules?.(payload.rules);
+      if (event === 'error') throw new Error(payload.error || 'Streaming request failed');
+      if (event === 'result') {
+        await reader.cancel();
+        return payload as T;
+      }
+    }
+  }
+  throw new Error('The connection closed before the results arrived');
+}
+
 // Compliance Analysis API
 export const complianceAnalysisApi = {
   analyze: async (profile: BusinessProfile): Promise<ComplianceAnalysisResult> => {
@@ -181,6 +268,18 @@ export const complianceAnalysisApi = {
     return response.data.data;
   },
 
+  // analyze-enhanced with live progress and rules as they're found
+  analyzeEnhancedStream: async (profile: Record<string, unknown>, handlers: SearchStreamHandlers): Promise<EnhancedAnalysisResponse> => {
+    const result = await postEventStream<EnhancedAnalysisResponse>('/compliance/analyze-enhanced/stream', profile, handlers);
+    if (result) return result;
+
+    const response = await api.post<ApiResponse<EnhancedAnalysisResponse>>('/compliance/analyze-enhanced', profile);
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error || 'Failed to analyze compliance with enhanced search');
+    }
+    return response.data.data;
+  },
+
   realTimeSearch: async (query: string, businessCategory?: string, businessProfile?: BusinessProfile): Promise<{
     query: string;
     results: ComplianceRule[];
@@ -204,9 +303,14 @@ export const complianceAnalysisApi = {
 
   getCacheStats: async (): Promise<{
     enabled: boolean;
+    backend?: 'memory' | 'file' | 'sqlite' | 'redis';
     totalCached?: number;
+    hits?: number;
+    misses?: number;
+    errors?: number;
     popularTerms?: Array<[string, number]>;
     cacheHitRate?: number;
+    by_type?: Record<string, { hits: number; misses: number; sets: number; invalidations: number; ttl_ms: number }>;
   }> => {
     const response = await api.get<ApiResponse<any>>('/compliance/cache-stats');
     if (!response.data.success || !response.data.data) {
@@ -215,9 +319,10 @@ export const complianceAnalysisApi = {
     return response.data.data;
   },
 
-  getTimeline: async (profileId: string): Promise<ComplianceAnalysisResult['compliance_timeline']> => {
-    const response = await api.get<ApiResponse<ComplianceAnalysisResult['compliance_timeline']>>(
-      `/compliance/timeline/${profileId}`
+  getTimeline: async (profileId: string, range?: { start?: string; end?: string }): Promise<ComplianceCalendar> => {
+    const response = await api.get<ApiResponse<ComplianceCalendar>>(
+      `/compliance/timeline/${profileId}`,
+      { params: range }
     );
     if (!response.data.success || !response.data.data) {
       throw new Error(response.data.error || 'Failed to get compliance timeline');
@@ -226,6 +331,139 @@ export const complianceAnalysisApi = {
   },
 };
 
+// Task Tracker API
+export const taskApi = {
+  list: async (sessionId: string, includeArchived: boolean = false): Promise<TaskList> => {
+    const response = await api.get<ApiResponse<TaskList>>(
+      `/business-profiles/${encodeURIComponent(sessionId)}/tasks`,
+      { params: includeArchived ? { include_archived: true } : undefined }
+    );
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error || 'Failed to get tasks');
+    }
+    return response.data.data;
+  },
+
+  sync: async (sessionId: string): Promise<TaskList> => {
+    const response = await api.post<ApiResponse<TaskList>>(`/business-profiles/${encodeURIComponent(sessionId)}/tasks/sync`);
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error || 'Failed to sync tasks');
+    }
+    return response.data.data;
+  },
+
+  update: async (taskId: string, update: { status?: TaskStatus; assignee?: string | null; actor?: string; note?: string }): Promise<ComplianceTask> => {
+    const response = await api.patch<ApiResponse<ComplianceTask>>(`/tasks/${encodeURIComponent(taskId)}`, update);
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error || 'Failed to update task');
+    }
+    return response.data.data;
+  },
+
+  addEvidence: async (taskId: string, evidence: { kind: 'note' | 'link'; note?: string; url?: string; actor?: string }): Promise<ComplianceTask> => {
+    const response = await api.post<ApiResponse<ComplianceTask>>(`/tasks/${encodeURIComponent(taskId)}/evidence`, evidence);
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error || 'Failed to add evidence');
+    }
+    return response.data.data;
+  },
+
+  uploadEvidence: async (taskId: string, file: File, actor?: string): Promise<ComplianceTask> => {
+    const response = await api.post<ApiResponse<ComplianceTask>>(
+      `/tasks/${encodeURIComponent(taskId)}/evidence/upload`,
+      file,
+      {
+        headers: { 'Content-Type': 'application/octet-stream' },
+        params: { file_name: file.name, content_type: file.type || undefined, actor }
+      }
+    );
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error || 'Failed to upload evidence');
+    }
+    return response.data.data;
+  },
+
+  getEvidenceUrl: (taskId: string, evidenceId: string): string => {
+    return `${config.API_BASE_URL}/tasks/${encodeURIComponent(taskId)}/evidence/${encodeURIComponent(evidenceId)}`;
+  },
+};
+
+// Analysis History API
+export const analysisApi = {
+  list: async (sessionId: string, limit?: number): Promise<AnalysisListItem[]> => {
+    const response = await api.get<ApiResponse<AnalysisListItem[]>>(
+      `/business-profiles/${encodeURIComponent(sessionId)}/analyses`,
+      { params: limit ? { limit } : undefined }
+    );
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error || 'Failed to get analyses');
+    }
+    return response.data.data;
+  },
+
+  get: async (analysisId: string): Promise<ComplianceAnalysis> => {
+    const response = await api.get<ApiResponse<ComplianceAnalysis>>(`/analyses/${encodeURIComponent(analysisId)}`);
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error || 'Failed to get analysis');
+    }
+    return response.data.data;
+  },
+
+  diff: async (analysisId: string, baseId?: string): Promise<AnalysisComparison> => {
+    const response = await api.get<ApiResponse<AnalysisComparison>>(
+      `/analyses/${encodeURIComponent(analysisId)}/diff`,
+      { params: baseId ? { base: baseId } : undefined }
+    );
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error || 'Failed to compare analyses');
+    }
+    return response.data.data;
+  },
+
+  getReportPdfUrl: (analysisId: string): string => {
+    return `${config.API_BASE_URL}/analyses/${encodeURIComponent(analysisId)}/report.pdf`;
+  },
+};
+
+// Rule Review API
+export const ruleReviewApi = {
+  list: async (status: RuleReviewStatus = 'pending', limit: number = 50, offset: number = 0): Promise<RuleReviewQueuePage> => {
+    const response = await api.get<ApiResponse<RuleReviewQueuePage>>('/rule-reviews', { params: { status, limit, offset } });
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error || 'Failed to get the review queue');
+    }
+    return response.data.data;
+  },
+
+  get: async (ruleId: string): Promise<StoredRule> => {
+    const response = await api.get<ApiResponse<StoredRule>>(`/rule-reviews/${encodeURIComponent(ruleId)}`);
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error || 'Failed to get rule');
+    }
+    return response.data.data;
+  },
+
+  save: async (ruleId: string, decision: RuleReviewDecision): Promise<StoredRule> => {
+    const response = await api.put<ApiResponse<StoredRule>>(`/rule-reviews/${encodeURIComponent(ruleId)}`, decision);
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error || 'Failed to save rule');
+    }
+    return response.data.data;
+  },
+
+  decide: async (
+    ruleId: string,
+    action: 'approve' | 'reject' | 'merge',
+    decision: RuleReviewDecision & { target_id?: string }
+  ): Promise<StoredRule> => {
+    const response = await api.post<ApiResponse<StoredRule>>(`/rule-reviews/${encodeURIComponent(ruleId)}/${action}`, decision);
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error || `Failed to ${action} rule`);
+    }
+    return response.data.data;
+  },
+};
+
 // Health Check API
 export const healthApi = {
   check: async (): Promise<{ status: string; timestamp: string }> => {
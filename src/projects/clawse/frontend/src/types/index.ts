@@ -9,6 +9,9 @@ export interface BusinessProfile {
   primary_industry: string;
   naics_code?: string;
   formation_date?: string;
+  fiscal_year_end?: string; // MM-DD
+  hire_dates?: string[];
+  operating_locations?: BusinessLocation[];
   has_employees?: boolean;
   has_international_operations?: boolean;
   handles_personal_data?: boolean;
@@ -17,6 +20,16 @@ export interface BusinessProfile {
   updated_at?: string;
 }
 
+export interface BusinessLocation {
+  address?: string;
+  city: string;
+  state: string;
+  county?: string;
+  zip_code?: string;
+  location_type: 'headquarters' | 'branch' | 'warehouse' | 'retail';
+  employee_count?: number; // Left out: the location gets the employees not counted elsewhere
+}
+
 // Compliance Rule Types
 export interface ComplianceRule {
   id: string;
@@ -176,6 +189,519 @@ export interface TimelineItem {
   steps: ComplianceStep[];
 }
 
+// Compliance Calendar Types (GET /compliance/timeline/:profileId)
+export interface DeadlineRecurrence {
+  text: string;
+  kind: 'absolute' | 'relative' | 'recurring' | 'ongoing' | 'unknown';
+  summary: string;
+  anchor?: 'calendar' | 'formation' | 'fiscal_year_end' | 'hire';
+  frequency?: 'monthly' | 'quarterly' | 'semiannually' | 'annually';
+  interval: number;
+  confidence: 'high' | 'low';
+}
+
+export interface CalendarObligation {
+  id: string;
+  rule_id: string;
+  rule_title: string;
+  title: string;
+  origin: string;
+  step_number?: number;
+  due_date: string;
+  grace_period_days?: number;
+  grace_end_date?: string;
+  status: 'overdue' | 'due_soon' | 'upcoming';
+  priority: 'critical' | 'high' | 'medium' | 'low';
+  level: 'federal' | 'state' | 'local';
+  authority: string;
+  deadline_text: string;
+  recurrence: DeadlineRecurrence;
+  estimated_cost: number;
+  source_url?: string;
+}
+
+export interface ComplianceCalendar {
+  profile_id: string;
+  range: { start: string; end: string };
+  generated_at: string;
+  assumptions: string[];
+  obligations: CalendarObligation[];
+  unscheduled: {
+    rule_id: string;
+    title: string;
+    origin: string;
+    deadline_text: string;
+    reason: string;
+  }[];
+}
+
+// Task Tracker Types (/business-profiles/:sessionId/tasks, /tasks/:taskId)
+export type TaskStatus = 'pending' | 'in_progress' | 'completed' | 'not_applicable';
+
+export interface TaskEvidence {
+  evidence_id: string;
+  kind: 'note' | 'link' | 'file';
+  note?: string;
+  url?: string;
+  file_name?: string;
+  content_type?: string;
+  size_bytes?: number;
+  sha256?: string;
+  added_by?: string;
+  added_at: string;
+}
+
+export interface TaskEvent {
+  at: string;
+  actor?: string;
+  action: 'created' | 'status_changed' | 'assigned' | 'evidence_added' | 'archived' | 'restored';
+  from?: string;
+  to?: string;
+  note?: string;
+}
+
+export interface ComplianceTask {
+  task_id: string;
+  session_id: string;
+  rule_id: string;
+  rule_title: string;
+  rule_version?: number;
+  step_number: number;
+  title: string;
+  priority: 'critical' | 'high' | 'medium' | 'low';
+  depends_on: string[];
+  status: TaskStatus;
+  assignee?: string;
+  due_date?: string;
+  deadline_text: string;
+  estimated_time: string;
+  estimated_cost: number;
+  required_forms: string[];
+  verification_method: string;
+  completion_proof: string[];
+  evidence: TaskEvidence[];
+  history: TaskEvent[];
+  archived: boolean;
+  created_at: string;
+  updated_at: string;
+  completed_at?: string;
+  blocked_by: string[];
+  is_overdue: boolean;
+}
+
+export interface TaskSummary {
+  session_id: string;
+  total: number;
+  by_status: Record<TaskStatus, number>;
+  blocked: number;
+  overdue: number;
+  percent_complete: number;
+}
+
+export interface TaskList {
+  tasks: ComplianceTask[];
+  summary: TaskSummary;
+}
+
+// Compliance Plan Types
+export interface StepDuration {
+  text: string;
+  min_days: number;
+  max_days: number;
+  parsed: boolean;
+}
+
+export interface PlannedStep {
+  step_id: string;
+  rule_id: string;
+  rule_title: string;
+  step_number: number;
+  title: string;
+  priority: 'critical' | 'high' | 'medium' | 'low';
+  depends_on: string[];
+  implicit_dependency: boolean;
+  duration: StepDuration;
+  estimated_cost: number;
+  start_day: number;
+  end_day: number;
+  slack_days: number;
+  critical: boolean;
+  phase: number;
+  lane: number;
+}
+
+export interface CompliancePlan {
+  steps: PlannedStep[];
+  phases: Array<{ phase: number; step_ids: string[] }>;
+  lanes: string[][];
+  critical_path: string[];
+  total_days: { min: number; max: number };
+  total_cost: number;
+  cycles: string[][];
+  assumptions: string[];
+}
+
+// Cost Forecast Types
+export interface AmountRange {
+  min: number;
+  max: number;
+}
+
+export interface RuleCost {
+  rule_id: string;
+  title: string;
+  level: string;
+  authority: string;
+  priority: string;
+  one_time: number;
+  annual_recurring: number;
+  recurring_basis: 'ongoing_costs' | 'recurring_filing' | 'none';
+  filings_per_year?: number;
+  penalty_range: AmountRange;
+  overdue_obligations: number;
+}
+
+export interface CostBucket {
+  key: string;
+  rule_count: number;
+  one_time: number;
+  annual_recurring: number;
+  penalty_exposure: AmountRange;
+}
+
+export interface CostForecast {
+  currency: 'USD';
+  one_time: number;
+  annual_recurring: number;
+  projections: Array<{ years: number; one_time: number; recurring: number; total: number }>;
+  penalty_exposure: AmountRange & { overdue_rules: string[]; source: 'tasks' | 'calendar' };
+  penalty_at_risk: AmountRange;
+  breakdown: {
+    level: CostBucket[];
+    authority: CostBucket[];
+    priority: CostBucket[];
+  };
+  rules: RuleCost[];
+  assumptions: string[];
+}
+
+// Compliance Score Types
+export type ScoreCategory = 'tax' | 'registration' | 'employment' | 'privacy' | 'health_safety' | 'environmental' | 'general';
+
+export interface RuleRisk {
+  rule_id: string;
+  title: string;
+  category: ScoreCategory;
+  priority: string;
+  penalty_max: number;
+  reliability: number;
+  weight: number;
+  completion: number;
+  tracked: boolean;
+  proximity: 'overdue' | 'due_soon' | 'upcoming' | 'later' | 'unscheduled';
+  next_due_date?: string;
+  urgency: number;
+  points_lost: number;
+}
+
+export interface CategoryScore {
+  category: ScoreCategory;
+  label: string;
+  score: number;
+  rule_count: number;
+  explanations: string[];
+}
+
+export interface ComplianceScore {
+  score: number;
+  risk_level: 'low' | 'moderate' | 'elevated' | 'high';
+  confidence: number;
+  categories: CategoryScore[];
+  explanations: string[];
+  rules: RuleRisk[];
+}
+
+// Analysis History Types (/business-profiles/:sessionId/analyses, /analyses/:analysisId)
+export interface AnalysisStep {
+  step_number: number;
+  description: string;
+  deadline: string;
+  estimated_cost: number;
+  estimated_time: string;
+  forms: string[];
+}
+
+export interface AnalysisSource {
+  source_name: string;
+  source_url: string;
+  document_title?: string;
+  reliability_score: number;
+  verification_status: ComplianceSource['verification_status'];
+  last_updated: string;
+}
+
+export interface AnalysisRule {
+  rule_id: string;
+  canonical_id: string;
+  version: number;
+  content_hash: string;
+  title: string;
+  description: string;
+  authority: string;
+  level: ComplianceRule['level'];
+  jurisdiction: string;
+  priority: ComplianceRule['priority'];
+  status: ComplianceRule['status'];
+  deadlines: ComplianceRule['deadlines'];
+  estimated_cost: ComplianceRule['estimated_cost'];
+  steps: AnalysisStep[];
+  sources: AnalysisSource[];
+}
+
+export interface AnalysisSummary {
+  total_rules: number;
+  estimated_total_cost: number;
+  priority_breakdown: Record<string, number>;
+  compliance_score: number;
+  risk_level: ComplianceScore['risk_level'];
+  task_summary?: TaskSummary;
+}
+
+export interface ComplianceAnalysis {
+  analysis_id: string;
+  session_id: string;
+  created_at: string;
+  source: 'analyze' | 'analyze-enhanced';
+  profile: BusinessProfile;
+  rules: AnalysisRule[];
+  ai_report: string;
+  summary: AnalysisSummary;
+  risk_assessment: ComplianceScore;
+  cost_forecast: CostForecast;
+  metadata: {
+    search_enhanced: boolean;
+    processing_time_ms: number;
+  };
+}
+
+export interface AnalysisListItem {
+  analysis_id: string;
+  session_id: string;
+  created_at: string;
+  source: ComplianceAnalysis['source'];
+  business_name: string;
+  summary: AnalysisSummary;
+}
+
+export interface RuleFieldChange {
+  path: string;
+  change: 'added' | 'removed' | 'modified';
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface NumberDelta {
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export interface AnalysisComparison {
+  session_id: string;
+  base: AnalysisListItem;
+  target: AnalysisListItem;
+  rules: {
+    added: AnalysisRule[];
+    removed: AnalysisRule[];
+    changed: Array<{
+      canonical_id: string;
+      title: string;
+      from_version: number;
+      to_version: number;
+      changes: RuleFieldChange[];
+    }>;
+    unchanged: number;
+  };
+  score: NumberDelta;
+  categories: Array<NumberDelta & { category: string; label: string }>;
+  first_year_cost: NumberDelta;
+  total_rules: NumberDelta;
+  profile_changes: RuleFieldChange[];
+}
+
+// Rule Review Types (/rule-reviews, /rule-reviews/:ruleId)
+// Rules in the shape the server stores them (src/types/ComplianceRule.ts), which the editor saves back
+export type RuleReviewStatus = 'pending' | 'approved' | 'rejected' | 'merged';
+
+export interface RuleReviewEvent {
+  at: string;
+  reviewer: string;
+  action: 'edited' | 'approved' | 'rejected' | 'merged';
+  version: number;
+  note?: string;
+  merged_into?: string;
+}
+
+export interface RuleReview {
+  status: RuleReviewStatus;
+  reviewer?: string;
+  reviewed_at?: string;
+  notes?: string;
+  merged_into?: string;
+  history: RuleReviewEvent[];
+}
+
+export interface StoredRuleForm {
+  form_name: string;
+  form_url: string;
+  form_type: 'pdf' | 'online' | 'paper';
+  filing_method: 'online' | 'mail' | 'in_person';
+  processing_time: string;
+}
+
+export interface StoredRuleStep extends Omit<ComplianceStep, 'required_forms'> {
+  required_forms: StoredRuleForm[];
+}
+
+export interface StoredRuleCriteria {
+  business_types: string[];
+  employee_count: { min: number; max: number; exact?: number };
+  annual_revenue: { min: number; max: number; currency: string };
+  industries: string[];
+  industry_groups: string[];
+  states: string[];
+  cities: string[];
+  counties: string[];
+  special_conditions: string[];
+  exclusions: {
+    business_types?: string[];
+    industries?: string[];
+    states?: string[];
+    conditions?: string[];
+  };
+}
+
+export interface StoredRule extends Omit<ComplianceRule,
+  'applicability_criteria' | 'compliance_steps' | 'estimated_cost' | 'estimated_time' | 'penalties'> {
+  applicability_criteria: StoredRuleCriteria;
+  compliance_steps: StoredRuleStep[];
+  estimated_cost: {
+    filing_fees: number;
+    ongoing_costs: number;
+    penalty_range: { min: number; max: number };
+  };
+  review: RuleReview;
+}
+
+export interface RuleReviewQueuePage {
+  status: RuleReviewStatus;
+  total: number;
+  counts: Record<RuleReviewStatus, number>;
+  rules: StoredRule[];
+}
+
+export interface RuleReviewDecision {
+  reviewer: string;
+  notes?: string;
+  rule?: Partial<StoredRule>; // Edits saved together with the decision
+}
+
+// Rule Search Types (/compliance-rules/query)
+export type RuleSearchFacet = 'level' | 'authority' | 'priority' | 'tags' | 'state' | 'industry';
+
+export type RuleSearchFilters = Partial<Record<RuleSearchFacet, string[]>>;
+
+export interface RuleSearchParams {
+  q?: string;
+  filters?: RuleSearchFilters; // OR within a facet, AND across facets
+  status?: StoredRule['status'] | 'any';
+  page?: number;
+  page_size?: number;
+}
+
+export interface RuleSearchHit {
+  rule: StoredRule;
+  score: number | null; // BM25 score, null without a text query
+  terms: string[];
+}
+
+export interface RuleFacetCount {
+  value: string;
+  count: number;
+  selected: boolean;
+}
+
+export interface RuleSearchPage {
+  q: string;
+  filters: RuleSearchFilters;
+  status: NonNullable<RuleSearchParams['status']>;
+  total: number;
+  page: number;
+  page_size: number;
+  pages: number;
+  hits: RuleSearchHit[];
+  facets: Record<RuleSearchFacet, RuleFacetCount[]>;
+  indexed_at: string;
+}
+
+// Streaming Progress Types (Server-Sent Events from /compliance/realtime-search/stream
+// and /compliance/analyze-enhanced/stream)
+export type SearchSource = 'regulations' | 'sba' | 'irs';
+
+export interface SearchProgress {
+  step: string; // starting, regulations_api, sba_api, irs_api, source_complete, ai_processing, ai_batch_processing, ranking, report, scoring, complete, error...
+  percentage: number;
+  message: string;
+  timestamp?: number;
+  source?: SearchSource; // source_complete: the API that finished
+  count?: number;
+  error?: string;
+  query?: string; // analyze-enhanced: the search query this phase belongs to
+  query_index?: number;
+}
+
+export interface SearchStreamHandlers {
+  onProgress?: (progress: SearchProgress) => void;
+  onRules?: (rules: ComplianceRule[]) => void; // Rules as they arrive, before the final ranking
+}
+
+// Matched rules grouped by operating location (federal rules are company-wide)
+export interface LocationRuleSummary {
+  rule_id: string;
+  title: string;
+  explanation: string;
+}
+
+export interface LocationBreakdown {
+  company_wide: LocationRuleSummary[];
+  locations: Array<{
+    label: string;
+    location: BusinessLocation;
+    employee_count: number;
+    employee_count_estimated: boolean; // No headcount given for the location
+    rule_count: number;
+    rules: LocationRuleSummary[];
+  }>;
+  unmatched_count: number;
+}
+
+export interface EnhancedAnalysisResponse {
+  analysis_id: string | null;
+  business_profile: BusinessProfile;
+  matching_rules: ComplianceRule[];
+  location_breakdown: LocationBreakdown;
+  ai_report: string;
+  plan: CompliancePlan;
+  risk_assessment: ComplianceScore;
+  cost_forecast: CostForecast;
+  task_summary: TaskSummary | null;
+  metadata: {
+    analysis_date: string;
+    search_enhanced: boolean;
+    processing_time: number;
+  };
+}
+
 // Form Types
 export interface BusinessProfileFormData {
   business_name: string;
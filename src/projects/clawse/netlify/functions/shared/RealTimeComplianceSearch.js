@@ -1,28 +1,29 @@
-const axios = require('axios');
 const crypto = require('crypto');
 const { v4: uuidv4 } = require('uuid');
+// Same cache as the Express server; with CACHE_BACKEND=redis both share entries
+const { createResultCache } = require('../../../src/services/ResultCache');
+const { getRateLimiter } = require('../../../src/services/RateLimiter');
+
+// Searches are interactive: fail over to the other sources rather than queue behind a scrape
+const SEARCH_MAX_WAIT_MS = 5000;
 
 /**
  * Real-Time Compliance Search Pipeline
  * Integrates SBA, Regulations.gov, and IRS APIs with intelligent caching
  */
 class RealTimeComplianceSearch {
-  constructor(openaiApiKey, firestoreService, regulationsApiKey) {
+  constructor(openaiApiKey, firestoreService, regulationsApiKey, cache = createResultCache()) {
     this.openaiApiKey = openaiApiKey;
     this.firestoreService = firestoreService;
     this.regulationsApiKey = regulationsApiKey;
     
-    // In-memory cache for search results (6 hour TTL)
-    this.searchCache = new Map();
+    // Search results (TTL per entry type, see ResultCache)
+    this.cache = cache;
     this.processingQueue = new Map();
     this.popularTerms = new Map();
     
-    // API rate limits
-    this.rateLimits = {
-      regulations: { calls: 0, resetTime: Date.now() + 3600000 }, // 1000/hour
-      sba: { calls: 0, resetTime: Date.now() + 3600000 }, // No limit but be respectful
-      irs: { calls: 0, resetTime: Date.now() + 3600000 } // Web scraping limit
-    };
+    // Outbound API calls share the process-wide rate limiter and hourly quotas
+    this.http = getRateLimiter();
 
     console.log('🚀 Real-Time Compliance Search initialized');
   }
@@ -32,7 +33,7 @@ class RealTimeComplianceSearch {
    */
   async search(query, businessCategory = null, businessProfile = null, progressCallback = null) {
     const startTime = Date.now();
-    const cacheKey = this.generateCacheKey(query, businessCategory);
+    const cacheKey = this.generateCacheKey(query, businessCategory, businessProfile);
 
     console.log(`🔍 Real-time search for: "${query}" (category: ${businessCategory || 'general'})`);
 
@@ -47,7 +48,7 @@ class RealTimeComplianceSearch {
       updateProgress('initializing', 5, 'Starting compliance search...');
 
       // 1. Check cache first (immediate response)
-      const cached = this.getCachedResult(cacheKey);
+      const cached = await this.getCachedResult(cacheKey);
       if (cached) {
         console.log('🎯 Cache hit - returning cached results');
         updateProgress('complete', 100, 'Retrieved from cache');
@@ -74,7 +75,7 @@ class RealTimeComplianceSearch {
 
       try {
         const result = await searchPromise;
-        this.setCachedResult(cacheKey, result);
+        await this.setCachedResult(cacheKey, result);
         updateProgress('complete', 100, 'Compliance search completed successfully');
         return result;
       } finally {
@@ -425,51 +426,29 @@ class RealTimeComplianceSearch {
   }
 
   /**
-   * Generate cache key for search results
+   * Generate cache key for search results (same keys as the Express server)
    */
-  generateCacheKey(query, businessCategory) {
-    const key = `${query.toLowerCase().trim()}:${businessCategory || 'general'}`;
+  generateCacheKey(query, businessCategory, businessProfile = null) {
+    const description = (businessProfile?.industry_description || '').toLowerCase().trim();
+    const key = `${query.toLowerCase().trim()}:${businessCategory || 'general'}:${description}`;
     return crypto.createHash('md5').update(key).digest('hex');
   }
 
   /**
-   * Get cached search result if valid
+   * Get cached search result if still within its TTL
    */
-  getCachedResult(cacheKey) {
-    const cached = this.searchCache.get(cacheKey);
-    if (!cached) return null;
-
-    // Check if cache is expired (6 hours)
-    const cacheAge = Date.now() - cached.cachedAt;
-    const maxAge = 6 * 60 * 60 * 1000; // 6 hours
-
-    if (cacheAge > maxAge) {
-      this.searchCache.delete(cacheKey);
-      return null;
-    }
-
-    // Update hit count for popularity tracking
-    cached.hitCount = (cached.hitCount || 0) + 1;
-    return cached;
+  async getCachedResult(cacheKey) {
+    return (await this.cache.get('search', cacheKey)) || null;
   }
 
   /**
    * Cache search result
    */
-  setCachedResult(cacheKey, result) {
-    const cached = {
+  async setCachedResult(cacheKey, result) {
+    await this.cache.set('search', cacheKey, {
       ...result,
-      cachedAt: Date.now(),
-      hitCount: 1
-    };
-    
-    this.searchCache.set(cacheKey, cached);
-    
-    // Limit cache size (keep most recent 1000 entries)
-    if (this.searchCache.size > 1000) {
-      const oldestKey = this.searchCache.keys().next().value;
-      this.searchCache.delete(oldestKey);
-    }
+      cachedAt: Date.now()
+    });
   }
 
   /**
@@ -503,7 +482,7 @@ class RealTimeComplianceSearch {
 
       console.log(`📡 Enhanced query: "${enhancedQuery}"`);
 
-      const response = await axios.get('https://api.regulations.gov/v4/documents', {
+      const response = await this.http.get('https://api.regulations.gov/v4/documents', {
         params: {
           'filter[searchTerm]': enhancedQuery,
           'filter[documentType]': 'Rule',
@@ -514,7 +493,7 @@ class RealTimeComplianceSearch {
           'X-Api-Key': this.regulationsApiKey
         },
         timeout: 8000
-      });
+      }, { maxWaitMs: SEARCH_MAX_WAIT_MS });
 
       const documents = response.data.data || [];
       const results = documents.map(doc => ({
@@ -560,14 +539,14 @@ class RealTimeComplianceSearch {
 
       // Try SBA API first (if available)
       try {
-        const apiResponse = await axios.get('https://api.sba.gov/v1/content/search', {
+        const apiResponse = await this.http.get('https://api.sba.gov/v1/content/search', {
           params: {
             q: query,
             category: businessCategory || 'business-guide',
             limit: 15
           },
           timeout: 6000
-        });
+        }, { maxWaitMs: SEARCH_MAX_WAIT_MS });
 
         if (apiResponse.data && apiResponse.data.results) {
           apiResponse.data.results.forEach(item => {
@@ -826,11 +805,6 @@ class RealTimeComplianceSearch {
         const basicResults = batch.map(rule => this.basicRuleProcessing(rule));
         processedRules.push(...basicResults);
       }
-
-      // Rate limiting between batches
-      if (i + batchSize < rawRules.length) {
-        await this.sleep(1000);
-      }
     }
 
     return processedRules;
@@ -1144,9 +1118,9 @@ ONLY include rules with relevance_score > 0.8. Return as JSON array, no other te
 
     for (const query of popularQueries) {
       try {
+        // Sequential, and the shared rate limiter paces the government API calls
         await this.search(query);
         console.log(`✅ Pre-warmed: ${query}`);
-        await this.sleep(2000); // Rate limiting
       } catch (error) {
         console.warn(`⚠️ Pre-warm failed for "${query}":`, error.message);
       }
@@ -1156,35 +1130,20 @@ ONLY include rules with relevance_score > 0.8. Return as JSON array, no other te
   }
 
   /**
-   * Get cache statistics
+   * Get cache statistics: entries in the backend, and hit/miss counters
+   * since this function instance started
    */
-  getCacheStats() {
-    const stats = {
-      totalCached: this.searchCache.size,
+  async getCacheStats() {
+    const stats = await this.cache.getStats();
+    return {
+      ...stats,
+      totalCached: stats.entries,
+      cacheHitRate: stats.hit_rate,
       popularTerms: Array.from(this.popularTerms.entries())
         .sort((a, b) => b[1] - a[1])
         .slice(0, 10),
-      processingQueue: this.processingQueue.size,
-      cacheHitRate: 0
+      processingQueue: this.processingQueue.size
     };
-
-    // Calculate cache hit rate
-    const totalHits = Array.from(this.searchCache.values())
-      .reduce((sum, cached) => sum + (cached.hitCount || 0), 0);
-    const totalRequests = totalHits + this.processingQueue.size;
-
-    if (totalRequests > 0) {
-      stats.cacheHitRate = Math.round((totalHits / totalRequests) * 100);
-    }
-
-    return stats;
-  }
-
-  /**
-   * Sleep utility
-   */
-  sleep(ms) {
-    return new Promise(resolve => setTimeout(resolve, ms));
   }
 }
 
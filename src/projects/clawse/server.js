@@ -3,6 +3,32 @@ const cors = require('cors');
 const dotenv = require('dotenv');
 const admin = require('firebase-admin');
 const { RealTimeComplianceSearch } = require('./src/services/RealTimeComplianceSearch');
+const { createResultCache } = require('./src/services/ResultCache');
+const { EventStream } = require('./src/services/EventStream');
+const { createJobQueue } = require('./src/services/JobQueue');
+const { getRateLimiter } = require('./src/services/RateLimiter');
+const { FirestoreRepository } = require('./src/services/FirestoreRepository');
+const { InMemoryRepository } = require('./src/services/InMemoryRepository');
+const { RuleMatcher } = require('./src/services/RuleMatcher');
+const { RuleHistory } = require('./src/services/RuleHistory');
+const { SourceVerifier } = require('./src/services/SourceVerifier');
+const { GovernmentScraper } = require('./src/services/GovernmentScraper');
+const { AIRuleGenerator } = require('./src/services/AIRuleGenerator');
+const { createRuleGenerationHandler } = require('./src/services/RuleGenerationJob');
+const { createLlmClient } = require('./src/services/LlmClient');
+const { ComplianceCalendarService } = require('./src/services/ComplianceCalendarService');
+const { ICalendarExporter } = require('./src/services/ICalendarExporter');
+const { TaskTracker } = require('./src/services/TaskTracker');
+const { EvidenceStore } = require('./src/services/EvidenceStore');
+const { CompliancePlanner } = require('./src/services/CompliancePlanner');
+const { CostForecaster } = require('./src/services/CostForecaster');
+const { ComplianceScorer } = require('./src/services/ComplianceScorer');
+const { AnalysisHistory } = require('./src/services/AnalysisHistory');
+const { ComplianceReportPdf, LEGAL_DISCLAIMER } = require('./src/services/ComplianceReportPdf');
+const { RuleSpreadsheet, SHEET_NAMES } = require('./src/services/RuleSpreadsheet');
+const { RuleReviewQueue, REVIEW_STATUSES } = require('./src/services/RuleReviewQueue');
+const { RuleDeduplicator } = require('./src/services/RuleDeduplicator');
+const { RuleSearchIndex, RULE_SEARCH_FACETS } = require('./src/services/RuleSearchIndex');
 
 // Load environment variables
 dotenv.config();
@@ -47,6 +73,18 @@ function getFirestore() {
   return admin.firestore();
 }
 
+// Select storage backend (STORAGE_BACKEND=firestore|memory)
+const storageBackend = (process.env.STORAGE_BACKEND || 'firestore').toLowerCase();
+function createRepository() {
+  if (storageBackend === 'memory') {
+    console.log('💾 Using in-memory storage backend');
+    return new InMemoryRepository(process.env.STORAGE_FILE);
+  }
+
+  initializeFirebase();
+  return new FirestoreRepository(getFirestore());
+}
+
 const app = express();
 const PORT = process.env.PORT || 3001;
 
@@ -54,28 +92,36 @@ const PORT = process.env.PORT || 3001;
 app.use(cors());
 app.use(express.json());
 
-// Initialize Firebase
-initializeFirebase();
-const db = getFirestore();
+// Initialize storage
+const repository = createRepository();
+
+// LLM client selected by LLM_PROVIDER (openai, local or fixture)
+const llm = createLlmClient();
+// Reports fall back to a template, so don't keep the user waiting on a slow model
+const reportLlm = createLlmClient({
+  timeoutMs: parseInt(process.env.LLM_REPORT_TIMEOUT_MS) || 15000,
+  maxRetries: 0
+});
+// After this the analysis shows a timeout notice instead of the report
+const REPORT_DEADLINE_MS = 20000;
+
+// Search result cache selected by CACHE_BACKEND (memory, file, sqlite or redis)
+const resultCache = createResultCache();
+
+// Background jobs (analysis, scrape, generate, reverify) persisted in JOB_STORE (file or sqlite);
+// handlers are registered next to their endpoints and the queue starts with the server
+const jobQueue = createJobQueue();
 
 // Initialize Real-Time Compliance Search
 let realTimeSearch = null;
 try {
-  // Create a simple Firestore service wrapper for the real-time search
-  const simpleFirestoreService = {
-    db: db,
-    async getMatchingRules(businessProfile) {
-      return await getMatchingRules(businessProfile);
-    },
-    async storeRules(rules) {
-      return await storeRulesInFirestore(rules);
-    }
-  };
-
   realTimeSearch = new RealTimeComplianceSearch(
     process.env.OPENAI_API_KEY,
-    simpleFirestoreService,
-    process.env.REGULATIONS_API_KEY
+    repository,
+    process.env.REGULATIONS_API_KEY,
+    llm,
+    undefined,
+    resultCache
   );
   console.log('✅ Real-Time Compliance Search initialized');
 
@@ -85,57 +131,10 @@ try {
   console.error('❌ Failed to initialize Real-Time Search:', error);
 }
 
-// Simple Firestore service functions
+// Storage helpers
 async function getMatchingRules(businessProfile) {
-  console.log('🔍 Searching for matching rules...');
-
   try {
-    // Get all active rules (simplified for demo)
-    const snapshot = await db
-      .collection('compliance_rules')
-      .where('status', '==', 'active')
-      .limit(50)
-      .get();
-
-    const allRules = snapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    }));
-
-    console.log(`📋 Found ${allRules.length} total rules in database`);
-
-    // Simple filtering based on business profile
-    const matchingRules = allRules.filter(rule => {
-      if (!rule.applicability_criteria) return true;
-
-      const criteria = rule.applicability_criteria;
-
-      // Check business type
-      if (criteria.business_types && criteria.business_types.length > 0) {
-        const businessTypeMatch = criteria.business_types.includes(businessProfile.business_type) ||
-                                 criteria.business_types.includes('ALL');
-        if (!businessTypeMatch) return false;
-      }
-
-      // Check state
-      if (criteria.states && criteria.states.length > 0) {
-        const stateMatch = criteria.states.includes(businessProfile.headquarters_state) ||
-                          criteria.states.includes('ALL');
-        if (!stateMatch) return false;
-      }
-
-      return true;
-    });
-
-    console.log(`✅ Found ${matchingRules.length} matching rules`);
-
-    // Debug: Log the structure of the first rule
-    if (matchingRules.length > 0) {
-      console.log('🔍 Sample rule structure:', JSON.stringify(matchingRules[0], null, 2));
-    }
-
-    return matchingRules;
-
+    return await repository.getMatchingRules(businessProfile);
   } catch (error) {
     console.error('❌ Error getting matching rules:', error);
     return [];
@@ -144,34 +143,124 @@ async function getMatchingRules(businessProfile) {
 
 async function storeBusinessProfile(profile) {
   try {
-    const profileRef = db.collection('business_profiles').doc(profile.session_id);
-    await profileRef.set({
-      ...profile,
-      created_at: admin.firestore.FieldValue.serverTimestamp(),
-      updated_at: admin.firestore.FieldValue.serverTimestamp()
-    });
-
-    console.log(`✅ Stored business profile: ${profile.business_name}`);
+    await repository.storeBusinessProfile(profile);
   } catch (error) {
     console.error('❌ Error storing business profile:', error);
     throw error;
   }
 }
 
-// Health check endpoint
-app.get('/api/health', (req, res) => {
+// Turn the matched rules' steps into tracked tasks; a tracker failure doesn't fail the analysis
+async function syncTasks(businessProfile, rules) {
+  if (!businessProfile.session_id) return null;
+  try {
+    const tasks = await taskTracker.syncTasks(businessProfile, rules);
+    return { tasks, summary: taskTracker.summarize(businessProfile.session_id, tasks) };
+  } catch (error) {
+    console.error('❌ Error syncing compliance tasks:', error);
+    return null;
+  }
+}
+
+// Keep a run of an analyze endpoint in the analyses collection; a storage failure shouldn't fail the analysis
+async function recordAnalysis(input) {
+  if (!input.profile.session_id) return null;
+  try {
+    const analysis = analysisHistory.createRecord(input);
+    await repository.storeAnalysis(analysis);
+    return analysis.analysis_id;
+  } catch (error) {
+    console.error('❌ Error storing analysis run:', error);
+    return null;
+  }
+}
+
+const calendarService = new ComplianceCalendarService();
+const icalExporter = new ICalendarExporter(calendarService);
+const compliancePlanner = new CompliancePlanner();
+const costForecaster = new CostForecaster(calendarService);
+const complianceScorer = new ComplianceScorer({ calendarService, costForecaster });
+const analysisHistory = new AnalysisHistory();
+const complianceReportPdf = new ComplianceReportPdf();
+
+// Evidence uploads are stored on local disk (EVIDENCE_DIR), metadata on the task
+const evidenceStore = new EvidenceStore(
+  process.env.EVIDENCE_DIR || 'data/evidence',
+  parseInt(process.env.EVIDENCE_MAX_BYTES) || undefined
+);
+const taskTracker = new TaskTracker(repository, { calendarService, evidenceStore });
+
+// Map a TaskTracker result to a response
+function sendTaskResult(res, result) {
+  if ('error' in result) {
+    const status = { not_found: 404, invalid: 400, conflict: 409 }[result.reason] || 500;
+    return res.status(status).json({
+      success: false,
+      error: result.error
+    });
+  }
+
   res.json({
     success: true,
-    data: {
-      status: 'healthy',
-      timestamp: new Date().toISOString(),
-      realTimeSearchEnabled: !!realTimeSearch
-    }
+    data: result.task
+  });
+}
+
+// Longest range the timeline endpoint will expand recurring deadlines over
+const MAX_TIMELINE_DAYS = 5 * 366;
+
+// Real-time search results don't always carry a status, so don't filter on it here
+const locationMatcher = new RuleMatcher({ includeInactive: true });
+
+// Group matched rules by operating location (federal rules are company-wide)
+function buildLocationBreakdown(businessProfile, rules) {
+  const report = locationMatcher.matchByLocation(rules, businessProfile);
+  const summarize = (result) => ({
+    rule_id: result.rule_id,
+    title: result.title,
+    explanation: result.explanation
   });
+
+  return {
+    company_wide: report.company_wide.map(summarize),
+    locations: report.locations.map(group => ({
+      label: group.label,
+      location: group.location,
+      employee_count: group.employee_count,
+      employee_count_estimated: group.employee_count_estimated,
+      rule_count: group.results.length,
+      rules: group.results.map(summarize)
+    })),
+    unmatched_count: report.unmatched.length
+  };
+}
+
+// Health check endpoint
+app.get('/api/health', async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: {
+        status: 'healthy',
+        timestamp: new Date().toISOString(),
+        storageBackend,
+        realTimeSearchEnabled: !!realTimeSearch,
+        llm: { provider: llm.provider, model: llm.model, available: llm.isAvailable() },
+        jobs: await jobQueue.getStats(),
+        rateLimits: getRateLimiter().getQuotas()
+      }
+    });
+  } catch (error) {
+    console.error('Error checking health:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
 });
 
 // Cache statistics endpoint
-app.get('/api/compliance/cache-stats', (req, res) => {
+app.get('/api/compliance/cache-stats', async (req, res) => {
   try {
     if (!realTimeSearch) {
       return res.json({
@@ -183,7 +272,7 @@ app.get('/api/compliance/cache-stats', (req, res) => {
       });
     }
 
-    const stats = realTimeSearch.getCacheStats();
+    const stats = await realTimeSearch.getCacheStats();
     res.json({
       success: true,
       data: {
@@ -223,8 +312,7 @@ app.post('/api/business-profiles', async (req, res) => {
 app.get('/api/business-profiles/:sessionId', async (req, res) => {
   try {
     const { sessionId } = req.params;
-    const doc = await db.collection('business_profiles').doc(sessionId).get();
-    const profile = doc.exists ? doc.data() : null;
+    const profile = await repository.getBusinessProfile(sessionId);
     
     if (!profile) {
       return res.status(404).json({
@@ -246,19 +334,54 @@ app.get('/api/business-profiles/:sessionId', async (req, res) => {
   }
 });
 
-// Compliance Rules endpoints
-app.get('/api/compliance-rules', async (req, res) => {
+// iCalendar feed of a profile's deadlines; the URL is stable so calendar apps can subscribe to it
+app.get('/api/business-profiles/:sessionId/calendar.ics', async (req, res) => {
   try {
-    const limit = parseInt(req.query.limit) || 50;
-    const snapshot = await db.collection('compliance_rules').limit(limit).get();
-    const rules = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
-    
+    const { sessionId } = req.params;
+    const profile = await repository.getBusinessProfile(sessionId);
+
+    if (!profile) {
+      return res.status(404).json({
+        success: false,
+        error: 'Business profile not found'
+      });
+    }
+
+    const rules = await getMatchingRules(profile);
+    const feed = icalExporter.buildFeed(profile, rules, {
+      feedUrl: `${req.protocol}://${req.get('host')}${req.originalUrl.split('?')[0]}`
+    });
+
+    res.set({
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': `inline; filename="compliance-${sessionId.replace(/[^\w-]/g, '_')}.ics"`,
+      'Cache-Control': 'no-cache'
+    });
+    res.send(feed);
+  } catch (error) {
+    console.error('Error building calendar feed:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Compliance task tracker: one task per compliance step of each matched rule
+app.get('/api/business-profiles/:sessionId/tasks', async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    const tasks = await taskTracker.listTasks(sessionId, { includeArchived: req.query.include_archived === 'true' });
+
     res.json({
       success: true,
-      data: rules
+      data: {
+        tasks,
+        summary: taskTracker.summarize(sessionId, tasks.filter(task => !task.archived))
+      }
     });
   } catch (error) {
-    console.error('Error getting compliance rules:', error);
+    console.error('Error listing compliance tasks:', error);
     res.status(500).json({
       success: false,
       error: error.message
@@ -266,17 +389,31 @@ app.get('/api/compliance-rules', async (req, res) => {
   }
 });
 
-app.get('/api/compliance-rules/search', async (req, res) => {
+// Rebuild tasks from the rules currently matching the stored profile
+app.post('/api/business-profiles/:sessionId/tasks/sync', async (req, res) => {
   try {
-    const { business_type, state, limit = 20 } = req.query;
-    const rules = await firestoreService.searchRules(business_type, state, parseInt(limit));
-    
+    const { sessionId } = req.params;
+    const profile = await repository.getBusinessProfile(sessionId);
+
+    if (!profile) {
+      return res.status(404).json({
+        success: false,
+        error: 'Business profile not found'
+      });
+    }
+
+    const rules = await getMatchingRules(profile);
+    const tasks = await taskTracker.syncTasks(profile, rules);
+
     res.json({
       success: true,
-      data: rules
+      data: {
+        tasks,
+        summary: taskTracker.summarize(sessionId, tasks)
+      }
     });
   } catch (error) {
-    console.error('Error searching compliance rules:', error);
+    console.error('Error syncing compliance tasks:', error);
     res.status(500).json({
       success: false,
       error: error.message
@@ -284,17 +421,23 @@ app.get('/api/compliance-rules/search', async (req, res) => {
   }
 });
 
-app.post('/api/compliance-rules/match', async (req, res) => {
+app.get('/api/tasks/:taskId', async (req, res) => {
   try {
-    const businessProfile = req.body;
-    const matchingRules = await getMatchingRules(businessProfile);
+    const task = await taskTracker.getTask(req.params.taskId);
+
+    if (!task) {
+      return res.status(404).json({
+        success: false,
+        error: `Task not found: ${req.params.taskId}`
+      });
+    }
 
     res.json({
       success: true,
-      data: matchingRules
+      data: task
     });
   } catch (error) {
-    console.error('Error matching compliance rules:', error);
+    console.error('Error getting compliance task:', error);
     res.status(500).json({
       success: false,
       error: error.message
@@ -302,93 +445,636 @@ app.post('/api/compliance-rules/match', async (req, res) => {
   }
 });
 
-// Store active search progress
-const activeSearches = new Map();
-
-// Real-Time Compliance Search endpoint with progress tracking
-app.post('/api/compliance/realtime-search', async (req, res) => {
+// Body: { status?, assignee? (null unassigns), actor?, note? }
+app.patch('/api/tasks/:taskId', async (req, res) => {
   try {
-    const { query, businessCategory, businessProfile } = req.body;
+    const { status, assignee, actor, note } = req.body || {};
+    sendTaskResult(res, await taskTracker.updateTask(req.params.taskId, { status, assignee, actor, note }));
+  } catch (error) {
+    console.error('Error updating compliance task:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
 
-    if (!query || query.trim().length === 0) {
+// Body: { kind: 'note' | 'link', note?, url?, actor? }
+app.post('/api/tasks/:taskId/evidence', async (req, res) => {
+  try {
+    const { kind, note, url, actor } = req.body || {};
+    if (kind === 'file') {
       return res.status(400).json({
         success: false,
-        error: 'Search query is required'
+        error: 'Upload files to /api/tasks/:taskId/evidence/upload'
       });
     }
 
-    if (!realTimeSearch) {
-      return res.status(503).json({
+    sendTaskResult(res, await taskTracker.addEvidence(req.params.taskId, { kind, note, url, actor }));
+  } catch (error) {
+    console.error('Error adding task evidence:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Raw file body; ?file_name=&content_type=&note=&actor= (content_type defaults to the request's Content-Type)
+app.post('/api/tasks/:taskId/evidence/upload',
+  express.raw({ type: () => true, limit: evidenceStore.maxBytes }),
+  async (req, res) => {
+    try {
+      if (!Buffer.isBuffer(req.body)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Send the file as the raw request body with Content-Type: application/octet-stream'
+        });
+      }
+
+      const { file_name, content_type, note, actor } = req.query;
+      sendTaskResult(res, await taskTracker.addEvidence(req.params.taskId, {
+        kind: 'file',
+        content: req.body,
+        file_name,
+        content_type: content_type || req.get('Content-Type'),
+        note,
+        actor
+      }));
+    } catch (error) {
+      console.error('Error uploading task evidence:', error);
+      res.status(500).json({
         success: false,
-        error: 'Real-time search service not available'
+        error: error.message
       });
     }
+  }
+);
 
-    console.log(`🔍 Real-time search request: "${query}"`);
+app.get('/api/tasks/:taskId/evidence/:evidenceId', async (req, res) => {
+  try {
+    const { taskId, evidenceId } = req.params;
+    const task = await taskTracker.getTask(taskId);
+    const evidence = task?.evidence.find(item => item.evidence_id === evidenceId);
+    const content = evidence?.kind === 'file' ? evidenceStore.read(evidenceId) : null;
 
-    // Generate search ID for progress tracking
-    const searchId = `search_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+    if (!evidence || !content) {
+      return res.status(404).json({
+        success: false,
+        error: 'Evidence file not found'
+      });
+    }
 
-    // Initialize progress tracking
-    activeSearches.set(searchId, {
-      query: query.trim(),
-      status: 'starting',
-      progress: { step: 'initializing', percentage: 0, message: 'Starting search...' },
-      startTime: Date.now()
+    res.attachment(evidence.file_name || 'evidence');
+    res.type(evidence.content_type || 'application/octet-stream');
+    res.send(content);
+  } catch (error) {
+    console.error('Error downloading task evidence:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
     });
+  }
+});
 
-    // Progress callback
-    const progressCallback = (progress) => {
-      const searchData = activeSearches.get(searchId);
-      if (searchData) {
-        searchData.progress = progress;
-        searchData.status = progress.step === 'complete' ? 'completed' :
-                           progress.step === 'error' ? 'error' : 'processing';
-        activeSearches.set(searchId, searchData);
-      }
-    };
+// Compliance Rules endpoints
+app.get('/api/compliance-rules', async (req, res) => {
+  try {
+    const limit = parseInt(req.query.limit) || 50;
+    const rules = await repository.getRecentRules(limit);
+    
+    res.json({
+      success: true,
+      data: rules
+    });
+  } catch (error) {
+    console.error('Error getting compliance rules:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
 
-    // Start search with progress tracking
-    const searchResult = await realTimeSearch.search(
-      query.trim(),
-      businessCategory,
-      businessProfile,
-      progressCallback
-    );
+app.get('/api/compliance-rules/search', async (req, res) => {
+  try {
+    const { business_type, state, limit = 20 } = req.query;
+    const rules = await repository.searchRules(business_type, state, parseInt(limit));
+    
+    res.json({
+      success: true,
+      data: rules
+    });
+  } catch (error) {
+    console.error('Error searching compliance rules:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
 
-    // Update final status
-    const finalSearchData = activeSearches.get(searchId);
-    if (finalSearchData) {
-      finalSearchData.status = 'completed';
-      finalSearchData.result = searchResult;
-      activeSearches.set(searchId, finalSearchData);
+// Full-text search with facets over the rule library; rebuilt after imports, reviews and deduplication
+const ruleSearchIndex = new RuleSearchIndex(repository);
+
+// Rules were stored, edited, merged or re-verified: rebuild the search index and drop cached search results
+async function onRulesChanged() {
+  ruleSearchIndex.invalidate();
+  await resultCache.invalidateRules();
+}
+const RULE_STATUSES = ['active', 'proposed', 'deprecated', 'superseded', 'any'];
+
+// ?q=&level=&authority=&priority=&tags=&state=&industry= (repeat a facet to OR its values)&status=&page=&page_size=
+app.get('/api/compliance-rules/query', async (req, res) => {
+  try {
+    const page = req.query.page === undefined ? 1 : Number(req.query.page);
+    const pageSize = req.query.page_size === undefined ? 20 : Number(req.query.page_size);
+    const status = String(req.query.status || 'active');
+    if (!Number.isInteger(page) || page < 1 || !Number.isInteger(pageSize) || pageSize < 1 || pageSize > 100) {
+      return res.status(400).json({
+        success: false,
+        error: 'page must be a positive integer and page_size between 1 and 100'
+      });
+    }
+    if (!RULE_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown status "${status}", expected ${RULE_STATUSES.join('|')}`
+      });
     }
 
-    res.json({
-      success: true,
-      data: {
-        searchId,
-        query: query.trim(),
-        results: searchResult.results,
-        metadata: {
-          source: searchResult.source,
-          responseTime: searchResult.responseTime,
-          cached: searchResult.cached,
-          stats: searchResult.stats
-        }
+    const filters = {};
+    RULE_SEARCH_FACETS.forEach(facet => {
+      const value = req.query[facet];
+      if (value !== undefined) {
+        filters[facet] = [].concat(value).map(String);
       }
     });
 
+    res.json({
+      success: true,
+      data: await ruleSearchIndex.search({
+        q: req.query.q ? String(req.query.q) : '',
+        filters,
+        status,
+        page,
+        page_size: pageSize
+      })
+    });
   } catch (error) {
-    console.error('❌ Real-time search error:', error);
+    console.error('Error querying compliance rules:', error);
     res.status(500).json({
       success: false,
-      error: error.message,
-      details: 'Real-time search failed'
+      error: error.message
     });
   }
 });
 
+// Spreadsheet export/import: XLSX has Rules, Steps, Forms and Sources sheets, CSV one of them (?sheet=)
+const SPREADSHEET_CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+app.get('/api/compliance-rules/export', async (req, res) => {
+  try {
+    const format = String(req.query.format || 'xlsx').toLowerCase();
+    const sheet = String(req.query.sheet || 'rules').toLowerCase();
+    if (!SPREADSHEET_CONTENT_TYPES[format]) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown format "${format}", expected csv or xlsx`
+      });
+    }
+    if (!SHEET_NAMES.includes(sheet)) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown sheet "${sheet}", expected ${SHEET_NAMES.join('|')}`
+      });
+    }
+
+    const rules = await repository.getRecentRules(parseInt(req.query.limit) || 10000);
+    const spreadsheet = new RuleSpreadsheet(repository);
+    const body = format === 'csv' ? spreadsheet.toCsv(rules, sheet) : await spreadsheet.toXlsx(rules);
+    const date = new Date().toISOString().split('T')[0];
+    const filename = format === 'csv' ? `compliance-rules-${sheet}-${date}.csv` : `compliance-rules-${date}.xlsx`;
+
+    res.setHeader('Content-Type', SPREADSHEET_CONTENT_TYPES[format]);
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(body);
+  } catch (error) {
+    console.error('Error exporting compliance rules:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Body is the raw file; ?dry_run=true validates without storing
+app.post('/api/compliance-rules/import', express.raw({ type: () => true, limit: '20mb' }), async (req, res) => {
+  try {
+    const contentType = String(req.headers['content-type'] || '');
+    const format = String(req.query.format || (contentType.includes('csv') ? 'csv' : 'xlsx')).toLowerCase();
+    const sheet = req.query.sheet ? String(req.query.sheet).toLowerCase() : undefined;
+    if (!SPREADSHEET_CONTENT_TYPES[format]) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown format "${format}", expected csv or xlsx`
+      });
+    }
+    if (sheet && !SHEET_NAMES.includes(sheet)) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown sheet "${sheet}", expected ${SHEET_NAMES.join('|')}`
+      });
+    }
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Request body must be the CSV or XLSX file'
+      });
+    }
+
+    const spreadsheet = new RuleSpreadsheet(repository);
+    let sheets;
+    try {
+      sheets = format === 'csv' ? spreadsheet.readCsv(req.body.toString('utf8'), sheet) : await spreadsheet.readXlsx(req.body);
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        error: `Could not read the ${format.toUpperCase()} file: ${error.message}`
+      });
+    }
+
+    const report = await spreadsheet.importSheets(sheets, { format, dryRun: req.query.dry_run === 'true' });
+    if (!report.dry_run) await onRulesChanged();
+    console.log(`📥 Rule import${report.dry_run ? ' (dry run)' : ''}: ${report.created} created, ${report.updated} updated, ${report.unchanged} unchanged, ${report.rejected} rejected`);
+
+    res.json({
+      success: true,
+      data: report
+    });
+  } catch (error) {
+    console.error('Error importing compliance rules:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Merge near-duplicate rules across sources; ?dry_run=true reports clusters without storing, ?threshold=0-1
+app.post('/api/compliance-rules/deduplicate', async (req, res) => {
+  try {
+    const threshold = req.query.threshold === undefined ? undefined : Number(req.query.threshold);
+    if (threshold !== undefined && !(threshold > 0 && threshold <= 1)) {
+      return res.status(400).json({
+        success: false,
+        error: 'threshold must be a number between 0 and 1'
+      });
+    }
+
+    const report = await new RuleDeduplicator(repository, { threshold }).deduplicate({ dryRun: req.query.dry_run === 'true' });
+    if (!report.dry_run) await onRulesChanged();
+    console.log(`🧬 Rule deduplication${report.dry_run ? ' (dry run)' : ''}: ${report.duplicates} duplicates in ${report.clusters.length} clusters of ${report.rules_scanned} rules`);
+
+    res.json({
+      success: true,
+      data: report
+    });
+  } catch (error) {
+    console.error('Error deduplicating compliance rules:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Revision timeline for a rule; ?as_of=<ISO date> also returns the version in effect then
+const ruleHistory = new RuleHistory();
+
+app.get('/api/compliance-rules/:id/history', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { as_of } = req.query;
+
+    if (as_of && Number.isNaN(new Date(as_of).getTime())) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid as_of date: ${as_of}`
+      });
+    }
+
+    const revisions = await repository.getRuleHistory(id);
+    if (revisions.length === 0 && !(await repository.getRuleById(id))) {
+      return res.status(404).json({
+        success: false,
+        error: `Compliance rule not found: ${id}`
+      });
+    }
+
+    res.json({
+      success: true,
+      data: ruleHistory.timeline(id, revisions, as_of)
+    });
+  } catch (error) {
+    console.error('Error getting compliance rule history:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+app.post('/api/compliance-rules/match', async (req, res) => {
+  try {
+    const businessProfile = req.body;
+    const matchingRules = await getMatchingRules(businessProfile);
+
+    res.json({
+      success: true,
+      data: matchingRules
+    });
+  } catch (error) {
+    console.error('Error matching compliance rules:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Explain why each rule does or doesn't apply to a business profile
+app.post('/api/compliance-rules/match/explain', async (req, res) => {
+  try {
+    const businessProfile = req.body;
+    const { rule_id } = req.query;
+
+    let results = await repository.explainMatches(businessProfile);
+    if (rule_id) {
+      results = results.filter(result => result.rule_id === rule_id);
+    }
+
+    res.json({
+      success: true,
+      data: {
+        total_evaluated: results.length,
+        total_applicable: results.filter(result => result.applies).length,
+        results: results.sort((a, b) => Number(b.applies) - Number(a.applies))
+      }
+    });
+  } catch (error) {
+    console.error('Error explaining rule matches:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Admin review queue for generated rules (set REQUIRE_RULE_REVIEW=true to match approved rules only)
+const ruleReviewQueue = new RuleReviewQueue(repository);
+
+// Map a RuleReviewQueue result to a response; validation errors are listed under `errors`
+async function sendReviewResult(res, result) {
+  if ('error' in result) {
+    const status = { not_found: 404, invalid: 400, conflict: 409 }[result.reason] || 500;
+    return res.status(status).json({
+      success: false,
+      error: result.error,
+      ...(result.errors && { errors: result.errors })
+    });
+  }
+
+  await onRulesChanged();
+  res.json({
+    success: true,
+    data: result.rule
+  });
+}
+
+// ?status=pending|approved|rejected|merged (default pending)&limit=&offset=
+app.get('/api/rule-reviews', async (req, res) => {
+  try {
+    const status = String(req.query.status || 'pending');
+    if (!REVIEW_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown review status "${status}", expected ${REVIEW_STATUSES.join('|')}`
+      });
+    }
+
+    res.json({
+      success: true,
+      data: await ruleReviewQueue.list({
+        status,
+        limit: Math.min(parseInt(req.query.limit) || 50, 200),
+        offset: parseInt(req.query.offset) || 0
+      })
+    });
+  } catch (error) {
+    console.error('Error listing rule reviews:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+app.get('/api/rule-reviews/:ruleId', async (req, res) => {
+  try {
+    const rule = await ruleReviewQueue.getRule(req.params.ruleId);
+    if (!rule) {
+      return res.status(404).json({
+        success: false,
+        error: `Compliance rule not found: ${req.params.ruleId}`
+      });
+    }
+
+    res.json({
+      success: true,
+      data: rule
+    });
+  } catch (error) {
+    console.error('Error getting rule for review:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Body: { reviewer, rule, notes? }
+app.put('/api/rule-reviews/:ruleId', async (req, res) => {
+  try {
+    const { reviewer, rule, notes } = req.body || {};
+    await sendReviewResult(res, await ruleReviewQueue.edit(req.params.ruleId, { reviewer, rule, notes }));
+  } catch (error) {
+    console.error('Error saving rule edits:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Body: { reviewer, notes?, rule? (edits saved with the decision), target_id (merge only) }
+app.post('/api/rule-reviews/:ruleId/:action(approve|reject|merge)', async (req, res) => {
+  try {
+    const { reviewer, notes, rule, target_id } = req.body || {};
+    const decision = { reviewer, notes, rule };
+    const { ruleId, action } = req.params;
+
+    const result = action === 'merge'
+      ? await ruleReviewQueue.merge(ruleId, target_id, decision)
+      : await ruleReviewQueue[action](ruleId, decision);
+    if (!('error' in result)) {
+      console.log(`🧑‍⚖️ Rule ${ruleId} ${result.rule.review.status} by ${result.rule.review.reviewer}`);
+    }
+    await sendReviewResult(res, result);
+  } catch (error) {
+    console.error('Error recording rule review:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Store active search progress
+const activeSearches = new Map();
+
+// Real-Time Compliance Search endpoint with progress tracking
+app.post('/api/compliance/realtime-search', async (req, res) => {
+  try {
+    const { query, businessCategory, businessProfile } = req.body;
+
+    if (!query || query.trim().length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Search query is required'
+      });
+    }
+
+    if (!realTimeSearch) {
+      return res.status(503).json({
+        success: false,
+        error: 'Real-time search service not available'
+      });
+    }
+
+    console.log(`🔍 Real-time search request: "${query}"`);
+
+    // Generate search ID for progress tracking
+    const searchId = `search_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+
+    // Initialize progress tracking
+    activeSearches.set(searchId, {
+      query: query.trim(),
+      status: 'starting',
+      progress: { step: 'initializing', percentage: 0, message: 'Starting search...' },
+      startTime: Date.now()
+    });
+
+    // Progress callback
+    const progressCallback = (progress) => {
+      const searchData = activeSearches.get(searchId);
+      if (searchData) {
+        searchData.progress = progress;
+        searchData.status = progress.step === 'complete' ? 'completed' :
+                           progress.step === 'error' ? 'error' : 'processing';
+        activeSearches.set(searchId, searchData);
+      }
+    };
+
+    // Start search with progress tracking
+    const searchResult = await realTimeSearch.search(
+      query.trim(),
+      businessCategory,
+      businessProfile,
+      progressCallback
+    );
+
+    // Update final status
+    const finalSearchData = activeSearches.get(searchId);
+    if (finalSearchData) {
+      finalSearchData.status = 'completed';
+      finalSearchData.result = searchResult;
+      activeSearches.set(searchId, finalSearchData);
+    }
+
+    res.json({
+      success: true,
+      data: {
+        searchId,
+        ...formatSearchResult(query.trim(), searchResult)
+      }
+    });
+
+  } catch (error) {
+    console.error('❌ Real-time search error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message,
+      details: 'Real-time search failed'
+    });
+  }
+});
+
+// The same search streamed as Server-Sent Events: `progress` for each phase,
+// `rules` for each AI-processed batch, then `result` (or `error`)
+app.post('/api/compliance/realtime-search/stream', async (req, res) => {
+  const { query, businessCategory, businessProfile } = req.body;
+
+  if (!query || query.trim().length === 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'Search query is required'
+    });
+  }
+
+  if (!realTimeSearch) {
+    return res.status(503).json({
+      success: false,
+      error: 'Real-time search service not available'
+    });
+  }
+
+  console.log(`📡 Streaming real-time search: "${query}"`);
+  const stream = new EventStream(res);
+
+  try {
+    // A client that disconnects aborts the search
+    const searchResult = await realTimeSearch.search(query.trim(), businessCategory, businessProfile,
+      (progress) => stream.sendSearchProgress(progress), stream.signal);
+    stream.send('result', formatSearchResult(query.trim(), searchResult));
+  } catch (error) {
+    if (stream.signal.aborted) {
+      console.log(`🔌 Client disconnected - stopped streaming search "${query}"`);
+    } else {
+      console.error('❌ Streaming real-time search error:', error);
+      stream.send('error', { error: error.message });
+    }
+  }
+  stream.end();
+});
+
+// Response body shared by the JSON and streaming search endpoints
+function formatSearchResult(query, searchResult) {
+  return {
+    query,
+    results: searchResult.results,
+    metadata: {
+      source: searchResult.source,
+      responseTime: searchResult.responseTime,
+      cached: searchResult.cached,
+      stats: searchResult.stats
+    }
+  };
+}
+
 // Progress tracking endpoint
 app.get('/api/compliance/search-progress/:searchId', (req, res) => {
   try {
@@ -398,17 +1084,253 @@ app.get('/api/compliance/search-progress/:searchId', (req, res) => {
     if (!searchData) {
       return res.status(404).json({
         success: false,
-        error: 'Search not found'
+        error: 'Search not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: searchData
+    });
+
+  } catch (error) {
+    console.error('Error getting search progress:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Dated compliance obligations for a stored profile (defaults to the next 12 months)
+app.get('/api/compliance/timeline/:profileId', async (req, res) => {
+  try {
+    const { profileId } = req.params;
+    const today = new Date().toISOString().substring(0, 10);
+    const start = req.query.start || today;
+    const startDate = calendarService.parseDate(start);
+    const end = req.query.end || (startDate ? calendarService.formatDate(calendarService.addMonths(startDate, 12)) : '');
+    const endDate = calendarService.parseDate(end);
+
+    if (!startDate || !endDate || endDate < startDate) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid timeline range: ${start} to ${end} (expected YYYY-MM-DD, start before end)`
+      });
+    }
+    if (endDate.getTime() - startDate.getTime() > MAX_TIMELINE_DAYS * 24 * 60 * 60 * 1000) {
+      return res.status(400).json({
+        success: false,
+        error: 'Timeline range can be at most 5 years'
+      });
+    }
+
+    const profile = await repository.getBusinessProfile(profileId);
+    if (!profile) {
+      return res.status(404).json({
+        success: false,
+        error: 'Business profile not found'
+      });
+    }
+
+    const rules = await getMatchingRules(profile);
+    res.json({
+      success: true,
+      data: calendarService.buildCalendar(profile, rules, { start, end, today })
+    });
+  } catch (error) {
+    console.error('Error building compliance timeline:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Step plan for a stored profile: dependency order, parallel lanes and critical path
+app.get('/api/compliance/plan/:profileId', async (req, res) => {
+  try {
+    const profile = await repository.getBusinessProfile(req.params.profileId);
+    if (!profile) {
+      return res.status(404).json({
+        success: false,
+        error: 'Business profile not found'
+      });
+    }
+
+    const rules = await getMatchingRules(profile);
+    res.json({
+      success: true,
+      data: compliancePlanner.buildPlan(rules)
+    });
+  } catch (error) {
+    console.error('Error building compliance plan:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Cost forecast for a stored profile; overdue penalties follow its tracked tasks
+app.get('/api/compliance/costs/:profileId', async (req, res) => {
+  try {
+    const profile = await repository.getBusinessProfile(req.params.profileId);
+    if (!profile) {
+      return res.status(404).json({
+        success: false,
+        error: 'Business profile not found'
+      });
+    }
+
+    const rules = await getMatchingRules(profile);
+    const tasks = profile.session_id ? await taskTracker.listTasks(profile.session_id) : [];
+    res.json({
+      success: true,
+      data: costForecaster.forecast(profile, rules, { tasks })
+    });
+  } catch (error) {
+    console.error('Error forecasting compliance costs:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Risk score for a stored profile, with per-category sub-scores and explanations
+app.get('/api/compliance/score/:profileId', async (req, res) => {
+  try {
+    const profile = await repository.getBusinessProfile(req.params.profileId);
+    if (!profile) {
+      return res.status(404).json({
+        success: false,
+        error: 'Business profile not found'
+      });
+    }
+
+    const rules = await getMatchingRules(profile);
+    const tasks = profile.session_id ? await taskTracker.listTasks(profile.session_id) : [];
+    res.json({
+      success: true,
+      data: complianceScorer.score(profile, rules, { tasks })
+    });
+  } catch (error) {
+    console.error('Error scoring compliance risk:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Stored analysis runs for a profile, newest first
+app.get('/api/business-profiles/:sessionId/analyses', async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit) || 20, 100);
+    const analyses = await repository.getAnalyses(req.params.sessionId, limit);
+    res.json({
+      success: true,
+      data: analyses.map(analysis => analysisHistory.listItem(analysis))
+    });
+  } catch (error) {
+    console.error('Error listing analysis runs:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+app.get('/api/analyses/:analysisId', async (req, res) => {
+  try {
+    const analysis = await repository.getAnalysis(req.params.analysisId);
+    if (!analysis) {
+      return res.status(404).json({
+        success: false,
+        error: 'Analysis not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: analysis
+    });
+  } catch (error) {
+    console.error('Error getting analysis run:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Printable report of a stored run, for an accountant or attorney
+app.get('/api/analyses/:analysisId/report.pdf', async (req, res) => {
+  try {
+    const analysis = await repository.getAnalysis(req.params.analysisId);
+    if (!analysis) {
+      return res.status(404).json({
+        success: false,
+        error: 'Analysis not found'
+      });
+    }
+
+    const pdf = await complianceReportPdf.render(analysis);
+    const name = (analysis.profile?.business_name || 'business').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="compliance-report-${name || 'business'}-${analysis.created_at.substring(0, 10)}.pdf"`,
+      'Content-Length': pdf.length
+    });
+    res.send(pdf);
+  } catch (error) {
+    console.error('Error rendering analysis report:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Compare a run with ?base=<analysis id>, or with the profile's run before it
+app.get('/api/analyses/:analysisId/diff', async (req, res) => {
+  try {
+    const analysis = await repository.getAnalysis(req.params.analysisId);
+    if (!analysis) {
+      return res.status(404).json({
+        success: false,
+        error: 'Analysis not found'
+      });
+    }
+
+    let base = null;
+    if (req.query.base) {
+      base = await repository.getAnalysis(req.query.base);
+    } else {
+      const runs = await repository.getAnalyses(analysis.session_id, 100);
+      base = runs.find(run => run.created_at < analysis.created_at) || null;
+    }
+
+    if (!base) {
+      return res.status(404).json({
+        success: false,
+        error: req.query.base ? 'Base analysis not found' : 'No earlier analysis to compare with'
+      });
+    }
+    if (base.session_id !== analysis.session_id) {
+      return res.status(400).json({
+        success: false,
+        error: 'Analyses belong to different business profiles'
       });
     }
 
     res.json({
       success: true,
-      data: searchData
+      data: analysisHistory.compare(base, analysis)
     });
-
   } catch (error) {
-    console.error('Error getting search progress:', error);
+    console.error('Error comparing analysis runs:', error);
     res.status(500).json({
       success: false,
       error: error.message
@@ -419,103 +1341,10 @@ app.get('/api/compliance/search-progress/:searchId', (req, res) => {
 // Enhanced compliance analysis with real-time search
 app.post('/api/compliance/analyze-enhanced', async (req, res) => {
   try {
-    const frontendData = req.body;
-    console.log('🔍 Enhanced compliance analysis for:', frontendData.businessName || frontendData.business_name);
-
-    // Convert frontend data to backend BusinessProfile format
-    const businessProfile = convertToBackendProfile(frontendData);
-
-    // Step 1: Store business profile
-    await storeBusinessProfile(businessProfile);
-
-    // Step 2: Enhanced multi-query real-time search for relevant compliance rules
-    let searchResults = [];
-    if (realTimeSearch) {
-      try {
-        // Generate multiple targeted search queries
-        const searchQueries = generateSearchQueries(businessProfile);
-        console.log(`🔍 Generated ${searchQueries.length} targeted search queries`);
-
-        // Execute multiple searches in parallel for better coverage
-        const searchPromises = searchQueries.slice(0, 4).map(async (query, index) => {
-          try {
-            console.log(`🔍 Search ${index + 1}: "${query}"`);
-            const result = await realTimeSearch.search(
-              query,
-              businessProfile.primary_industry,
-              businessProfile,
-              null // No progress callback for enhanced analysis
-            );
-            return result.results || [];
-          } catch (error) {
-            console.warn(`⚠️ Search ${index + 1} failed:`, error.message);
-            return [];
-          }
-        });
-
-        // Wait for all searches to complete
-        const searchResultArrays = await Promise.all(searchPromises);
-
-        // Combine and deduplicate results
-        const combinedResults = searchResultArrays.flat();
-        const uniqueResults = deduplicateRules(combinedResults);
-
-        searchResults = uniqueResults;
-        console.log(`📊 Multi-query search found ${searchResults.length} unique rules from ${combinedResults.length} total results`);
-
-      } catch (searchError) {
-        console.warn('⚠️ Enhanced search failed - no database fallback (real-time only):', searchError.message);
-        searchResults = [];
-      }
-    } else {
-      // No database fallback - real-time only
-      console.log('❌ Real-time search unavailable - no results (database disabled)');
-      searchResults = [];
-    }
-
-    console.log(`📋 Found ${searchResults.length} total matching rules`);
-
-    // Step 3: Generate AI-powered compliance report
-    console.log('🤖 Generating AI compliance report...');
-    const aiReport = await Promise.race([
-      generateComplianceReport(businessProfile, searchResults),
-      new Promise((resolve) =>
-        setTimeout(() => resolve('# Report Generation Timeout\n\nThe AI report generation took too long. Please see the compliance rules below.'), 20000)
-      )
-    ]);
-
-    // Step 4: Calculate summary statistics
-    const totalCost = searchResults.reduce((sum, rule) => {
-      return sum + (rule.estimated_cost?.filing_fees || 0);
-    }, 0);
-
-    const priorityBreakdown = searchResults.reduce((acc, rule) => {
-      acc[rule.priority] = (acc[rule.priority] || 0) + 1;
-      return acc;
-    }, {});
-
-    const response = {
-      business_profile: businessProfile,
-      matching_rules: searchResults,
-      ai_report: aiReport,
-      summary: {
-        total_rules: searchResults.length,
-        estimated_total_cost: totalCost,
-        priority_breakdown: priorityBreakdown,
-        compliance_score: Math.max(0, 100 - (searchResults.length * 2)) // Simple scoring
-      },
-      metadata: {
-        analysis_date: new Date().toISOString(),
-        search_enhanced: !!realTimeSearch,
-        processing_time: Date.now()
-      }
-    };
-
     res.json({
       success: true,
-      data: response
+      data: await runEnhancedAnalysis(req.body)
     });
-
   } catch (error) {
     console.error('❌ Enhanced compliance analysis error:', error);
     res.status(500).json({
@@ -525,46 +1354,170 @@ app.post('/api/compliance/analyze-enhanced', async (req, res) => {
   }
 });
 
-// Helper function to store rules in Firestore
-async function storeRulesInFirestore(rules) {
-  if (!rules || rules.length === 0) {
-    console.log('⚠️ No rules to store');
-    return { stored: 0, errors: 0 };
+// The same analysis streamed as Server-Sent Events: `progress` for each phase of
+// each search query, `rules` as each query's new rules arrive, then `result` (or `error`)
+app.post('/api/compliance/analyze-enhanced/stream', async (req, res) => {
+  const stream = new EventStream(res);
+  try {
+    // A client that disconnects aborts the analysis
+    const result = await runEnhancedAnalysis(req.body, (event, data) => stream.send(event, data), stream.signal);
+    stream.send('result', result);
+  } catch (error) {
+    if (stream.signal.aborted) {
+      console.log('🔌 Client disconnected - stopped streaming analysis');
+    } else {
+      console.error('❌ Streaming compliance analysis error:', error);
+      stream.send('error', { error: error.message });
+    }
   }
+  stream.end();
+});
 
-  console.log(`💾 Storing ${rules.length} rules in Firestore...`);
+// Analyses queued with POST /api/jobs; the job keeps the latest progress event
+jobQueue.register('analysis', (frontendData, { progress, signal }) => runEnhancedAnalysis(frontendData, (event, data) => {
+  if (event === 'progress') progress(data);
+}, signal), {
+  timeoutMs: parseInt(process.env.JOB_ANALYSIS_TIMEOUT_MS) || 5 * 60 * 1000
+});
 
-  let stored = 0;
-  let errors = 0;
-  const batchSize = 100; // Smaller batches for reliability
+/**
+ * Store the profile, run the targeted real-time searches, then build the report,
+ * plan, score and forecast. `emit(event, data)` receives `progress` and `rules`
+ * events along the way; an aborted `signal` stops the analysis between steps.
+ */
+async function runEnhancedAnalysis(frontendData, emit = () => {}, signal = undefined) {
+  const startedAt = Date.now();
+  console.log('🔍 Enhanced compliance analysis for:', frontendData.businessName || frontendData.business_name);
+
+  // Convert frontend data to backend BusinessProfile format
+  const businessProfile = convertToBackendProfile(frontendData);
+
+  // Step 1: Store business profile
+  emit('progress', { step: 'starting', percentage: 5, message: 'Saving business profile...' });
+  await storeBusinessProfile(businessProfile);
+
+  // Step 2: Enhanced multi-query real-time search for relevant compliance rules
+  let searchResults = [];
+  if (realTimeSearch) {
+    try {
+      // Generate multiple targeted search queries
+      const searchQueries = generateSearchQueries(businessProfile).slice(0, 4);
+      console.log(`🔍 Generated ${searchQueries.length} targeted search queries`);
+
+      // Searches cover 10-70% of the analysis; each reports its own phases
+      const queryProgress = searchQueries.map(() => 0);
+      const foundRules = [];
+      const sentRuleIds = new Set();
+
+      // Execute multiple searches in parallel for better coverage
+      const searchPromises = searchQueries.map(async (query, index) => {
+        try {
+          console.log(`🔍 Search ${index + 1}: "${query}"`);
+          const result = await realTimeSearch.search(
+            query,
+            businessProfile.primary_industry,
+            businessProfile,
+            (progress) => {
+              const { rules, ...phase } = progress;
+              queryProgress[index] = phase.step === 'error' ? 100 : phase.percentage;
+              const average = queryProgress.reduce((sum, value) => sum + value, 0) / queryProgress.length;
+              emit('progress', { ...phase, percentage: 10 + Math.round(average * 0.6), query, query_index: index });
+            },
+            signal
+          );
+
+          // Send the rules no earlier query has found
+          foundRules.push(...(result.results || []));
+          const newRules = deduplicateRules(foundRules).filter(rule => !sentRuleIds.has(rule.id));
+          newRules.forEach(rule => sentRuleIds.add(rule.id));
+          if (newRules.length > 0) emit('rules', { rules: newRules, query, query_index: index });
+
+          return result.results || [];
+        } catch (error) {
+          signal?.throwIfAborted();
+          console.warn(`⚠️ Search ${index + 1} failed:`, error.message);
+          return [];
+        }
+      });
 
-  for (let i = 0; i < rules.length; i += batchSize) {
-    const batch = rules.slice(i, i + batchSize);
+      // Wait for all searches to complete
+      const searchResultArrays = await Promise.all(searchPromises);
 
-    try {
-      const batch_write = db.batch();
-
-      for (const rule of batch) {
-        const docRef = db.collection('compliance_rules').doc();
-        batch_write.set(docRef, {
-          ...rule,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        });
-      }
+      // Combine and deduplicate results
+      const combinedResults = searchResultArrays.flat();
+      const uniqueResults = deduplicateRules(combinedResults);
 
-      await batch_write.commit();
-      stored += batch.length;
-      console.log(`✅ Stored batch ${Math.floor(i/batchSize) + 1}/${Math.ceil(rules.length/batchSize)} (${batch.length} rules)`);
+      // Most relevant first across all queries (relevanceScore is the semantic ranking)
+      searchResults = uniqueResults.sort((a, b) => (b.relevanceScore ?? 0) - (a.relevanceScore ?? 0));
+      console.log(`📊 Multi-query search found ${searchResults.length} unique rules from ${combinedResults.length} total results`);
 
-    } catch (error) {
-      console.error(`❌ Failed to store batch ${Math.floor(i/batchSize) + 1}:`, error);
-      errors += batch.length;
+    } catch (searchError) {
+      signal?.throwIfAborted();
+      console.warn('⚠️ Enhanced search failed - no database fallback (real-time only):', searchError.message);
+      searchResults = [];
     }
+  } else {
+    // No database fallback - real-time only
+    console.log('❌ Real-time search unavailable - no results (database disabled)');
+    searchResults = [];
   }
 
-  console.log(`💾 Storage complete: ${stored} stored, ${errors} errors`);
-  return { stored, errors };
+  console.log(`📋 Found ${searchResults.length} total matching rules`);
+  signal?.throwIfAborted();
+
+  const taskSync = await syncTasks(businessProfile, searchResults);
+
+  // Step 3: Generate AI-powered compliance report
+  console.log('🤖 Generating AI compliance report...');
+  emit('progress', { step: 'report', percentage: 75, message: `Generating your compliance report for ${searchResults.length} rules...` });
+  const aiReport = await generateReportWithDeadline(businessProfile, searchResults, signal);
+  signal?.throwIfAborted();
+
+  // Step 4: Calculate summary statistics
+  emit('progress', { step: 'scoring', percentage: 92, message: 'Scoring risk and forecasting costs...' });
+  const costForecast = costForecaster.forecast(businessProfile, searchResults, { tasks: taskSync?.tasks });
+  const riskAssessment = complianceScorer.score(businessProfile, searchResults, { tasks: taskSync?.tasks });
+
+  const priorityBreakdown = searchResults.reduce((acc, rule) => {
+    acc[rule.priority] = (acc[rule.priority] || 0) + 1;
+    return acc;
+  }, {});
+
+  const analysisId = await recordAnalysis({
+    source: 'analyze-enhanced',
+    profile: businessProfile,
+    rules: searchResults,
+    aiReport,
+    priorityBreakdown,
+    riskAssessment,
+    costForecast,
+    taskSummary: taskSync?.summary,
+    searchEnhanced: !!realTimeSearch,
+    startedAt
+  });
+
+  return {
+    analysis_id: analysisId,
+    business_profile: businessProfile,
+    matching_rules: searchResults,
+    location_breakdown: buildLocationBreakdown(businessProfile, searchResults),
+    plan: compliancePlanner.buildPlan(searchResults),
+    ai_report: aiReport,
+    summary: {
+      total_rules: searchResults.length,
+      estimated_total_cost: costForecast.projections[0].total, // First year
+      priority_breakdown: priorityBreakdown,
+      compliance_score: riskAssessment.score
+    },
+    risk_assessment: riskAssessment,
+    cost_forecast: costForecast,
+    task_summary: taskSync?.summary || null,
+    metadata: {
+      analysis_date: new Date().toISOString(),
+      search_enhanced: !!realTimeSearch,
+      processing_time: Date.now() - startedAt
+    }
+  };
 }
 
 // Helper function to convert frontend business data to backend BusinessProfile format
@@ -600,6 +1553,47 @@ function convertToBackendProfile(frontendData) {
     return parseInt(revenue.replace(/[$,]/g, '')) || 0;
   };
 
+  // Helper function to normalize operating locations (frontend sends camelCase or snake_case)
+  const parseLocations = (locations) => {
+    if (!Array.isArray(locations)) return [];
+
+    return locations
+      .filter(location => location && location.state)
+      .map(location => {
+        const employees = location.employee_count ?? location.employeeCount ?? location.employees;
+        const parsed = {
+          address: location.address || '',
+          city: location.city || '',
+          state: location.state,
+          county: location.county || '',
+          zip_code: location.zip_code || location.zipCode || '',
+          location_type: location.location_type || location.locationType || 'branch'
+        };
+        if (employees !== undefined && employees !== null && employees !== '') {
+          parsed.employee_count = typeof employees === 'number' ? employees : parseEmployeeCount(String(employees));
+        }
+        return parsed;
+      });
+  };
+
+  // Dates arrive as YYYY-MM-DD from date inputs; keep only the date part of timestamps
+  const parseDate = (value) => {
+    if (!value) return undefined;
+    const match = String(value).match(/^\d{4}-\d{2}-\d{2}/);
+    return match ? match[0] : undefined;
+  };
+
+  // Fiscal year end as MM-DD; a bare month ("6" or "06") means the month's last day
+  const parseFiscalYearEnd = (value) => {
+    if (!value) return undefined;
+    const text = String(value);
+    if (/^\d{1,2}-\d{1,2}$/.test(text)) return text;
+    const month = parseInt(text);
+    if (!(month >= 1 && month <= 12)) return undefined;
+    const lastDay = new Date(Date.UTC(2001, month, 0)).getUTCDate();
+    return `${String(month).padStart(2, '0')}-${lastDay}`;
+  };
+
   // Determine business type from industry and description
   const inferBusinessType = (industry, description) => {
     if (!industry && !description) return 'LLC'; // Default
@@ -619,6 +1613,13 @@ function convertToBackendProfile(frontendData) {
     return 'LLC'; // Most common default
   };
 
+  const operatingLocations = parseLocations(frontendData.operating_locations || frontendData.locations);
+  const formationDate = parseDate(frontendData.formationDate || frontendData.formation_date);
+  const fiscalYearEnd = parseFiscalYearEnd(frontendData.fiscalYearEnd || frontendData.fiscal_year_end);
+  const rawHireDates = frontendData.hireDates || frontendData.hire_dates;
+  const hireDates = Array.isArray(rawHireDates) ? rawHireDates.map(parseDate).filter(Boolean) : [];
+  const headquartersState = frontendData.state || frontendData.headquarters_state || '';
+
   return {
     session_id: frontendData.session_id,
     user_email: frontendData.user_email || '',
@@ -627,6 +1628,10 @@ function convertToBackendProfile(frontendData) {
     business_name: frontendData.businessName || frontendData.business_name || '',
     business_type: inferBusinessType(frontendData.industry, frontendData.description || frontendData.businessDescription),
     formation_state: frontendData.state || frontendData.headquarters_state || '',
+    // Calendar anchors, only set when provided (Firestore rejects undefined fields)
+    ...(formationDate && { formation_date: formationDate }),
+    ...(fiscalYearEnd && { fiscal_year_end: fiscalYearEnd }),
+    ...(hireDates.length > 0 && { hire_dates: hireDates }),
 
     // Size & Scale
     employee_count: parseEmployeeCount(frontendData.employees || frontendData.employeeCount),
@@ -640,10 +1645,10 @@ function convertToBackendProfile(frontendData) {
 
     // Location & Operations
     headquarters_state: frontendData.state || frontendData.headquarters_state || '',
-    headquarters_city: frontendData.city || '',
-    headquarters_county: '',
+    headquarters_city: frontendData.city || frontendData.headquarters_city || '',
+    headquarters_county: frontendData.county || frontendData.headquarters_county || '',
 
-    operating_locations: [],
+    operating_locations: operatingLocations,
 
     // Business Activities - Parse from business description
     business_activities: frontendData.businessDescription ? [frontendData.businessDescription] : [],
@@ -658,7 +1663,7 @@ function convertToBackendProfile(frontendData) {
     sells_online: (frontendData.businessDescription || '').toLowerCase().includes('online') ||
                   (frontendData.businessDescription || '').toLowerCase().includes('ecommerce') ||
                   (frontendData.businessDescription || '').toLowerCase().includes('website'),
-    interstate_commerce: false,
+    interstate_commerce: operatingLocations.some(location => location.state !== headquartersState),
     international_operations: (frontendData.businessDescription || '').toLowerCase().includes('international') ||
                               (frontendData.businessDescription || '').toLowerCase().includes('global'),
 
@@ -699,6 +1704,14 @@ function generateSearchQueries(businessProfile) {
   ].filter(Boolean).join(' ');
   queries.push(industryQuery);
 
+  // Query 2b: Other states the business operates in
+  const otherStates = [...new Set((businessProfile.operating_locations || [])
+    .map(location => location.state)
+    .filter(state => state && state !== businessProfile.headquarters_state))];
+  otherStates.slice(0, 2).forEach(state => {
+    queries.push(`${businessProfile.primary_industry || 'business'} ${state} state licensing employer requirements`);
+  });
+
   // Query 3: Specific services + regulations
   if (businessKeywords.services.length > 0) {
     const serviceQuery = businessKeywords.services.slice(0, 2).join(' ') + ' regulations licensing';
@@ -857,22 +1870,9 @@ function categorizeRevenue(revenue) {
   return 'enterprise business';
 }
 
-// Deduplicate rules based on title and authority
+// Fold near-duplicates from overlapping searches into one rule with the sources of all of them
 function deduplicateRules(rules) {
-  const seen = new Set();
-  const uniqueRules = [];
-
-  for (const rule of rules) {
-    // Create a unique key based on title and authority
-    const key = `${rule.title?.toLowerCase() || ''}|${rule.authority?.toLowerCase() || ''}`;
-
-    if (!seen.has(key)) {
-      seen.add(key);
-      uniqueRules.push(rule);
-    }
-  }
-
-  return uniqueRules;
+  return new RuleDeduplicator(null).collapse(rules);
 }
 
 // Legacy function for backward compatibility
@@ -884,6 +1884,7 @@ function generateSearchQuery(businessProfile) {
 // Main compliance analysis endpoint with AI report generation
 app.post('/api/compliance/analyze', async (req, res) => {
   try {
+    const startedAt = Date.now();
     const frontendData = req.body;
     console.log('🔍 Analyzing compliance for:', frontendData.businessName || frontendData.business_name);
 
@@ -896,34 +1897,50 @@ app.post('/api/compliance/analyze', async (req, res) => {
     // Step 2: Get matching rules from your Firebase database
     const matchingRules = await getMatchingRules(businessProfile);
     console.log(`📋 Found ${matchingRules.length} matching rules`);
+
+    const taskSync = await syncTasks(businessProfile, matchingRules);
     
     // Step 3: Generate AI-powered compliance report with timeout
     console.log('🤖 Generating AI compliance report...');
-    const aiReport = await Promise.race([
-      generateComplianceReport(businessProfile, matchingRules),
-      new Promise((resolve) =>
-        setTimeout(() => resolve('# Report Generation Timeout\n\nThe AI report generation took too long. Please see the compliance rules below.'), 20000)
-      )
-    ]);
+    const aiReport = await generateReportWithDeadline(businessProfile, matchingRules);
     
     // Step 4: Calculate summary statistics
-    const totalCost = matchingRules.reduce((sum, rule) => {
-      return sum + (rule.estimated_cost || 0);
-    }, 0);
+    const costForecast = costForecaster.forecast(businessProfile, matchingRules, { tasks: taskSync?.tasks });
+    const riskAssessment = complianceScorer.score(businessProfile, matchingRules, { tasks: taskSync?.tasks });
     
     const priorityBreakdown = matchingRules.reduce((acc, rule) => {
       acc[rule.priority] = (acc[rule.priority] || 0) + 1;
       return acc;
     }, {});
     
+    const analysisId = await recordAnalysis({
+      source: 'analyze',
+      profile: businessProfile,
+      rules: matchingRules,
+      aiReport,
+      priorityBreakdown,
+      riskAssessment,
+      costForecast,
+      taskSummary: taskSync?.summary,
+      searchEnhanced: false,
+      startedAt
+    });
+    
     res.json({
       success: true,
       data: {
+        analysis_id: analysisId,
         business_profile: businessProfile,
         matching_rules: matchingRules,
+        location_breakdown: buildLocationBreakdown(businessProfile, matchingRules),
+        plan: compliancePlanner.buildPlan(matchingRules),
         ai_report: aiReport,
-        total_estimated_cost: totalCost,
+        total_estimated_cost: costForecast.projections[0].total, // First year
+        cost_forecast: costForecast,
+        compliance_score: riskAssessment.score,
+        risk_assessment: riskAssessment,
         priority_breakdown: priorityBreakdown,
+        task_summary: taskSync?.summary || null,
         analysis_timestamp: new Date().toISOString()
       }
     });
@@ -937,8 +1954,39 @@ app.post('/api/compliance/analyze', async (req, res) => {
   }
 });
 
+/**
+ * Generate the report, or a timeout notice if it takes longer than REPORT_DEADLINE_MS.
+ * The deadline and an aborted `signal` both cancel the LLM call, and the timer is
+ * cleared as soon as the report settles.
+ */
+async function generateReportWithDeadline(businessProfile, matchingRules, signal = undefined) {
+  signal?.throwIfAborted();
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  /** @type {NodeJS.Timeout | undefined} */
+  let timer;
+  const deadline = new Promise((resolve) => {
+    timer = setTimeout(() => {
+      controller.abort(new Error(`Report generation timed out after ${REPORT_DEADLINE_MS}ms`));
+      resolve('# Report Generation Timeout\n\nThe AI report generation took too long. Please see the compliance rules below.');
+    }, REPORT_DEADLINE_MS);
+  });
+
+  try {
+    return await Promise.race([
+      generateComplianceReport(businessProfile, matchingRules, controller.signal),
+      deadline
+    ]);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
 // AI Report Generation Function
-async function generateComplianceReport(businessProfile, matchingRules) {
+async function generateComplianceReport(businessProfile, matchingRules, signal = undefined) {
   try {
     const prompt = `
 Generate a comprehensive compliance report for the following business:
@@ -951,6 +1999,9 @@ Generate a comprehensive compliance report for the following business:
 - Employees: ${businessProfile.employee_count}
 - Revenue: $${businessProfile.annual_revenue.toLocaleString()}
 - Has Employees: ${businessProfile.has_employees}
+- Operating Locations: ${(businessProfile.operating_locations || []).map(location =>
+    `${location.city ? location.city + ', ' : ''}${location.state} (${location.location_type}${location.employee_count !== undefined ? `, ${location.employee_count} employees` : ''})`
+  ).join('; ') || 'Headquarters only'}
 - Handles Personal Data: ${businessProfile.handles_personal_data}
 - International Operations: ${businessProfile.international_operations}
 
@@ -960,7 +2011,7 @@ ${matchingRules.map(rule => `
   - Authority: ${rule.authority}
   - Level: ${rule.level}
   - Description: ${rule.description}
-  - Estimated Cost: $${rule.estimated_cost || 0}
+  - Estimated Cost: $${costForecaster.normalizeCost(rule).filing_fees}
 `).join('\n')}
 
 Please generate a professional compliance report with the following sections:
@@ -988,30 +2039,18 @@ Format the response in clean markdown with proper headings, bullet points, and e
 
     // Generate AI report using OpenAI with timeout and error handling
     try {
-      const OpenAI = require('openai');
-      const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
-      console.log('🤖 Making OpenAI API call with gpt-5-nano...');
-
-      const response = await Promise.race([
-        openai.chat.completions.create({
-          model: "gpt-5-nano",
-          messages: [{ role: "user", content: prompt }],
-          max_completion_tokens: 50000
-        }),
-        new Promise((_, reject) =>
-          setTimeout(() => reject(new Error('OpenAI API timeout')), 15000)
-        )
-      ]);
-
-      const aiResponse = response.choices[0]?.message?.content || '';
+      console.log(`🤖 Generating report with ${reportLlm.provider}/${reportLlm.model}...`);
+
+      const response = await reportLlm.complete([{ role: 'user', content: prompt }], { signal });
+
+      const aiResponse = response.content;
       console.log('✅ AI report generated successfully');
       return aiResponse;
 
     } catch (error) {
-      console.error('❌ OpenAI API error:', error.message);
+      console.error('❌ LLM report error:', error.message);
 
-      // Return a fallback report if OpenAI fails
+      // Return a fallback report if the LLM call fails
       return `# 📋 Compliance Analysis Report
 
 ## 🏢 Business Overview
@@ -1041,7 +2080,7 @@ ${matchingRules.filter(r => r.priority === 'critical').map(rule => `
 5. **Keep records** of all compliance activities
 
 ## ⚖️ Legal Disclaimer
-*This analysis is for informational purposes only and does not constitute legal advice. Please consult with qualified legal professionals for specific compliance guidance.*
+*${LEGAL_DISCLAIMER}*
 
 ---
 *Report generated automatically from your business profile and applicable regulations.*`;
@@ -1076,7 +2115,7 @@ ${matchingRules.filter(r => r.priority === 'critical').map(rule => `
 app.post('/api/ai/generate-federal-rules', async (req, res) => {
   try {
     const { count = 10 } = req.body;
-    const rules = await aiGenerator.generateFederalRules(count);
+    const { rules } = await new AIRuleGenerator(llm).generateFederalRules(count);
 
     res.json({
       success: true,
@@ -1095,117 +2134,90 @@ app.post('/api/ai/generate-federal-rules', async (req, res) => {
   }
 });
 
-// Global variable to track scraping status
-let currentScrapingStatus = null;
+// Bulk generation queued with POST /api/jobs ({ count, state } for state rules,
+// { count, industry, naics_code } for industry rules, federal otherwise).
+// Generated rules are stored as pending review.
+jobQueue.register('generate', createRuleGenerationHandler({ llm, repository, onRulesChanged }), { concurrency: 1 });
+
+// Government API data collection, one scrape at a time
+jobQueue.register('scrape', async ({ targetRuleCount = 200 }, { progress, signal }) => {
+  progress({ step: 'collecting', percentage: 5, message: `Collecting up to ${targetRuleCount} rules from government APIs...` });
+
+  // Route scraper storage through the repository; a cancelled scrape stores nothing more
+  const scraperStorage = {
+    storeRules: async (rules) => {
+      signal.throwIfAborted();
+      console.log(`💾 Storing ${rules.length} scraped rules...`);
+      progress({ step: 'storing_rules', percentage: 80, message: `Storing ${rules.length} scraped rules...` });
+      await repository.storeRules(rules);
+      await onRulesChanged();
+      console.log(`✅ Successfully stored ${rules.length} scraped rules`);
+    },
+    hasCanonicalId: (canonicalId) => repository.hasCanonicalId(canonicalId)
+  };
+
+  const scraper = new GovernmentScraper(
+    process.env.OPENAI_API_KEY,
+    scraperStorage,
+    process.env.REGULATIONS_API_KEY,
+    llm
+  );
+  return scraper.scrapeAndStoreRules(targetRuleCount);
+}, { concurrency: 1 });
+
+const SCRAPE_STATUSES = { queued: 'in_progress', running: 'in_progress', succeeded: 'completed', failed: 'error', cancelled: 'cancelled' };
+
+// A scrape job in the shape /api/scrape/status has always reported
+function toScrapingStatus(job) {
+  const stats = job.result;
+  return {
+    job_id: job.job_id,
+    status: SCRAPE_STATUSES[job.status],
+    targetRuleCount: job.payload.targetRuleCount || 200,
+    startTime: job.started_at || job.created_at,
+    ...(job.finished_at && { endTime: job.finished_at }),
+    ...(stats && { finalStats: stats }),
+    ...(job.error && { error: job.error }),
+    progress: {
+      totalCollected: stats?.totalCollected || 0,
+      totalProcessed: stats?.totalProcessed || 0,
+      totalStored: stats?.totalStored || 0,
+      currentPhase: stats ? 'completed' : job.status === 'failed' ? 'error' : job.progress?.step || 'initializing'
+    }
+  };
+}
 
 // Government Website Scraping endpoint
 app.post('/api/scrape/government-rules', async (req, res) => {
   try {
     const { targetRuleCount = 200 } = req.body;
 
-    // Check if scraping is already in progress
-    if (currentScrapingStatus && currentScrapingStatus.status === 'in_progress') {
+    // Check if scraping is already queued or in progress
+    const [active] = await jobQueue.list({ type: 'scrape', status: ['queued', 'running'], limit: 1 });
+    if (active) {
       return res.json({
         success: true,
         data: {
           message: 'Scraping already in progress',
-          ...currentScrapingStatus
+          ...toScrapingStatus(active)
         }
       });
     }
 
     console.log('🕷️ Starting government API data collection...');
-
-    // Initialize status tracking
-    currentScrapingStatus = {
-      status: 'in_progress',
-      targetRuleCount,
-      startTime: new Date().toISOString(),
-      progress: {
-        totalCollected: 0,
-        totalProcessed: 0,
-        totalStored: 0,
-        currentPhase: 'initializing'
-      }
-    };
-
-    // Import the scraper
-    const { GovernmentScraper } = require('./src/services/GovernmentScraper.js');
-
-    // Create simple Firestore service for the scraper
-    const simpleFirestoreService = {
-      storeRules: async (rules) => {
-        console.log(`💾 Storing ${rules.length} scraped rules in Firestore...`);
-        currentScrapingStatus.progress.currentPhase = 'storing_rules';
-
-        const batchSize = 500;
-        for (let i = 0; i < rules.length; i += batchSize) {
-          const batch = rules.slice(i, i + batchSize);
-          const firestoreBatch = db.batch();
-
-          for (const rule of batch) {
-            const ruleRef = db.collection('compliance_rules').doc(rule.id);
-            firestoreBatch.set(ruleRef, {
-              ...rule,
-              created_at: admin.firestore.FieldValue.serverTimestamp(),
-              updated_at: admin.firestore.FieldValue.serverTimestamp()
-            });
-          }
-
-          await firestoreBatch.commit();
-          console.log(`✅ Stored batch ${Math.floor(i/batchSize) + 1}/${Math.ceil(rules.length/batchSize)}`);
-        }
-
-        console.log(`✅ Successfully stored ${rules.length} scraped rules`);
-      }
-    };
-
-    const scraper = new GovernmentScraper(
-      process.env.OPENAI_API_KEY,
-      simpleFirestoreService,
-      process.env.REGULATIONS_API_KEY
-    );
-
-    // Start scraping in background
-    scraper.scrapeAndStoreRules(targetRuleCount)
-      .then((stats) => {
-        console.log('✅ Government scraping completed successfully');
-        currentScrapingStatus = {
-          ...currentScrapingStatus,
-          status: 'completed',
-          endTime: new Date().toISOString(),
-          finalStats: stats,
-          progress: {
-            totalCollected: stats.totalCollected,
-            totalProcessed: stats.totalProcessed,
-            totalStored: stats.totalStored,
-            currentPhase: 'completed'
-          }
-        };
-      })
-      .catch((error) => {
-        console.error('❌ Government scraping failed:', error);
-        currentScrapingStatus = {
-          ...currentScrapingStatus,
-          status: 'error',
-          endTime: new Date().toISOString(),
-          error: error.message,
-          progress: {
-            ...currentScrapingStatus.progress,
-            currentPhase: 'error'
-          }
-        };
-      });
+    const job = await jobQueue.enqueue('scrape', { targetRuleCount });
 
     // Return immediately with status
     res.json({
       success: true,
       data: {
         message: `Government API data collection started (target: ${targetRuleCount} rules)`,
+        job_id: job.job_id,
         targetRuleCount,
         status: 'in_progress',
         estimatedTime: '3-5 minutes',
-        statusEndpoint: '/api/scrape/status'
+        statusEndpoint: '/api/scrape/status',
+        job_url: `/api/jobs/${job.job_id}`
       }
     });
 
@@ -1221,39 +2233,34 @@ app.post('/api/scrape/government-rules', async (req, res) => {
 // Get scraping status endpoint with detailed progress
 app.get('/api/scrape/status', async (req, res) => {
   try {
-    // Get current scraping status
-    const status = currentScrapingStatus || {
+    // Status of the latest scrape job
+    const [latest] = await jobQueue.list({ type: 'scrape', limit: 1 });
+    const status = latest ? toScrapingStatus(latest) : {
       status: 'idle',
       message: 'No scraping operation in progress'
     };
 
-    // Get recent rules to show progress (simplified query to avoid index issues)
-    const recentRules = await db
-      .collection('compliance_rules')
-      .orderBy('created_at', 'desc')
-      .limit(20)
-      .get();
-
-    const scrapedRules = recentRules.docs
-      .filter(doc => {
-        const data = doc.data();
-        return data.sources && data.sources[0] &&
-               (data.sources[0].source_type === 'government_website' ||
-                data.sources[0].source_type === 'api');
+    // Get recent rules to show progress
+    const recentRules = await repository.getRecentRules(20);
+
+    const scrapedRules = recentRules
+      .filter(rule => {
+        return rule.sources && rule.sources[0] &&
+               (rule.sources[0].source_type === 'government_website' ||
+                rule.sources[0].source_type === 'api');
       })
       .slice(0, 10)
-      .map(doc => ({
-        id: doc.id,
-        title: doc.data().title,
-        authority: doc.data().authority,
-        industries: doc.data().applicability_criteria?.industries || ['ALL'],
-        created_at: doc.data().created_at
+      .map(rule => ({
+        id: rule.id,
+        title: rule.title,
+        authority: rule.authority,
+        industries: rule.applicability_criteria?.industries || ['ALL'],
+        created_at: rule.created_at
       }));
 
-    // Get total count of all rules (simplified)
-    const totalScrapedQuery = await db
-      .collection('compliance_rules')
-      .get();
+    // Get total count of all rules
+    const collectionStats = await repository.getCollectionStats();
+    const totalRules = collectionStats.compliance_rules || 0;
 
     // Calculate completion percentage if scraping is in progress
     let completionPercentage = 0;
@@ -1275,7 +2282,7 @@ app.get('/api/scrape/status', async (req, res) => {
 
         // Historical data
         recentlyScrapedRules: scrapedRules,
-        totalScrapedRules: totalScrapedQuery.size,
+        totalScrapedRules: totalRules,
 
         // API exhaustion status
         apiStatus: {
@@ -1284,7 +2291,7 @@ app.get('/api/scrape/status', async (req, res) => {
         },
 
         // Recommendations
-        recommendations: getScrapingRecommendations(status, totalScrapedQuery.size)
+        recommendations: getScrapingRecommendations(status, totalRules)
       }
     });
 
@@ -1334,6 +2341,239 @@ function getScrapingRecommendations(status, totalRules) {
   return recommendations;
 }
 
+// Source re-verification: re-fetch rule sources, flag changed content as outdated
+// and re-process those rules into new versions
+// through AIRuleGenerator.processScrapedRule, so they pass the same validation as new rules
+const sourceVerifier = new SourceVerifier(repository, {
+  regulationsApiKey: process.env.REGULATIONS_API_KEY,
+  maxRules: parseInt(process.env.SOURCE_VERIFY_MAX_RULES) || 100,
+  reprocess: llm.isAvailable()
+    ? (rawRule) => new AIRuleGenerator(llm).processScrapedRule(rawRule)
+    : undefined
+});
+
+// Verification runs as jobs, one at a time; a failed run is retried under the same run id
+jobQueue.register('reverify', async ({ trigger = 'manual', run_id }, { progress }) => {
+  progress({ step: 'verifying', percentage: 10, message: 'Re-fetching rule sources...' });
+  const { results, ...run } = await sourceVerifier.run(trigger, run_id);
+  if (run.status === 'failed') {
+    throw new Error(run.error || 'Source verification failed');
+  }
+
+  await onRulesChanged();
+  return run;
+}, { concurrency: 1 });
+
+async function hasActiveVerification() {
+  const active = await jobQueue.list({ type: 'reverify', status: ['queued', 'running'], limit: 1 });
+  return active.length > 0 || sourceVerifier.running;
+}
+
+app.post('/api/sources/verify', async (req, res) => {
+  try {
+    if (await hasActiveVerification()) {
+      return res.status(409).json({
+        success: false,
+        error: 'A source verification run is already in progress'
+      });
+    }
+
+    const runId = sourceVerifier.createRunId();
+
+    // Run in background; poll GET /api/sources/verification-runs/:runId once it has started
+    const job = await jobQueue.enqueue('reverify', { trigger: 'manual', run_id: runId });
+
+    res.status(202).json({
+      success: true,
+      data: {
+        run_id: runId,
+        job_id: job.job_id,
+        status_url: `/api/sources/verification-runs/${runId}`,
+        job_url: `/api/jobs/${job.job_id}`
+      }
+    });
+  } catch (error) {
+    console.error('Error starting source verification:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+app.get('/api/sources/verification-runs', async (req, res) => {
+  try {
+    const limit = parseInt(req.query.limit) || 20;
+    const runs = await repository.getVerificationRuns(limit);
+
+    // Per-source results can be large; list the summaries only
+    res.json({
+      success: true,
+      data: runs.map(({ results, ...summary }) => summary)
+    });
+  } catch (error) {
+    console.error('Error getting verification runs:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+app.get('/api/sources/verification-runs/:runId', async (req, res) => {
+  try {
+    const run = await repository.getVerificationRun(req.params.runId);
+    if (!run) {
+      return res.status(404).json({
+        success: false,
+        error: `Verification run not found: ${req.params.runId}`
+      });
+    }
+
+    res.json({
+      success: true,
+      data: run
+    });
+  } catch (error) {
+    console.error('Error getting verification run:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Scheduled re-verification (e.g. SOURCE_VERIFY_INTERVAL_HOURS=24)
+const verifyIntervalHours = parseFloat(process.env.SOURCE_VERIFY_INTERVAL_HOURS);
+if (verifyIntervalHours > 0) {
+  setInterval(async () => {
+    try {
+      if (await hasActiveVerification()) return;
+      await jobQueue.enqueue('reverify', { trigger: 'scheduled' });
+    } catch (error) {
+      console.error('❌ Failed to queue scheduled source verification:', error);
+    }
+  }, verifyIntervalHours * 60 * 60 * 1000);
+  console.log(`⏰ Source re-verification scheduled every ${verifyIntervalHours}h`);
+}
+
+// Background jobs: POST { type, payload, max_attempts? } to queue one, then poll GET /api/jobs/:jobId
+const JOB_STATUSES = ['queued', 'running', 'succeeded', 'failed', 'cancelled'];
+
+app.post('/api/jobs', async (req, res) => {
+  try {
+    const { type, payload = {}, max_attempts } = req.body || {};
+    if (!jobQueue.types().includes(type)) {
+      return res.status(400).json({
+        success: false,
+        error: `type must be one of: ${jobQueue.types().join(', ')}`
+      });
+    }
+    if (max_attempts !== undefined && !(Number.isInteger(max_attempts) && max_attempts > 0)) {
+      return res.status(400).json({
+        success: false,
+        error: 'max_attempts must be a positive integer'
+      });
+    }
+
+    const job = await jobQueue.enqueue(type, payload, { maxAttempts: max_attempts });
+    res.status(202).json({
+      success: true,
+      data: {
+        ...job,
+        status_url: `/api/jobs/${job.job_id}`
+      }
+    });
+  } catch (error) {
+    console.error('Error queuing job:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// ?type=&status= (comma-separated)&limit=
+app.get('/api/jobs', async (req, res) => {
+  try {
+    const status = req.query.status ? String(req.query.status).split(',') : undefined;
+    if (status && !status.every(value => JOB_STATUSES.includes(value))) {
+      return res.status(400).json({
+        success: false,
+        error: `status must be one of: ${JOB_STATUSES.join(', ')}`
+      });
+    }
+
+    const jobs = await jobQueue.list({
+      type: req.query.type ? String(req.query.type) : undefined,
+      status,
+      limit: parseInt(req.query.limit) || 20
+    });
+
+    // Payloads and results can be large; list the summaries only
+    res.json({
+      success: true,
+      data: jobs.map(({ payload, result, ...summary }) => summary)
+    });
+  } catch (error) {
+    console.error('Error listing jobs:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+app.get('/api/jobs/:jobId', async (req, res) => {
+  try {
+    const job = await jobQueue.get(req.params.jobId);
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: `Job not found: ${req.params.jobId}`
+      });
+    }
+
+    res.json({
+      success: true,
+      data: job
+    });
+  } catch (error) {
+    console.error('Error getting job:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+app.post('/api/jobs/:jobId/cancel', async (req, res) => {
+  try {
+    const result = await jobQueue.cancel(req.params.jobId);
+    if ('error' in result) {
+      return res.status(result.reason === 'not_found' ? 404 : 409).json({
+        success: false,
+        error: result.error
+      });
+    }
+
+    res.json({
+      success: true,
+      data: result.job
+    });
+  } catch (error) {
+    console.error('Error cancelling job:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+jobQueue.start().catch(error => {
+  console.error('❌ Failed to start the job queue:', error);
+});
+
 // Start server
 app.listen(PORT, () => {
   console.log(`🚀 Compliance API Server running on http://localhost:${PORT}`);
@@ -0,0 +1,29 @@
+import dotenv from 'dotenv';
+import { ComplianceRepository } from '../types/Repository';
+import { FirestoreService } from '../services/FirestoreService';
+import { InMemoryRepository } from '../services/InMemoryRepository';
+
+dotenv.config();
+
+export type StorageBackend = 'firestore' | 'memory';
+
+export function getStorageBackend(): StorageBackend {
+  const backend = (process.env.STORAGE_BACKEND || 'firestore').toLowerCase();
+
+  if (backend !== 'firestore' && backend !== 'memory') {
+    throw new Error(`Unknown STORAGE_BACKEND "${backend}". Expected "firestore" or "memory".`);
+  }
+
+  return backend;
+}
+
+// Create the repository selected by STORAGE_BACKEND.
+// "memory" runs fully offline; set STORAGE_FILE to persist it as JSON between runs.
+export function createRepository(): ComplianceRepository {
+  if (getStorageBackend() === 'memory') {
+    console.log('💾 Using in-memory storage backend');
+    return new InMemoryRepository(process.env.STORAGE_FILE);
+  }
+
+  return new FirestoreService();
+}
@@ -1,7 +1,8 @@
 import dotenv from 'dotenv';
-import axios from 'axios';
 import { AIRuleGenerator } from '../services/AIRuleGenerator';
-import { FirestoreService } from '../services/FirestoreService';
+import { ComplianceRepository } from '../types/Repository';
+import { createRepository } from '../config/storage';
+import { getRateLimiter } from '../services/RateLimiter';
 import { ComplianceRule } from '../types/ComplianceRule';
 import crypto from 'crypto';
 
@@ -27,7 +28,7 @@ interface RawComplianceRule {
 
 class FederalDataCollector {
   private aiGenerator: AIRuleGenerator;
-  private firestoreService: FirestoreService;
+  private repository: ComplianceRepository;
   private regulationsApiKey: string;
 
   constructor() {
@@ -36,7 +37,7 @@ class FederalDataCollector {
     }
     
     this.aiGenerator = new AIRuleGenerator(process.env.OPENAI_API_KEY);
-    this.firestoreService = new FirestoreService();
+    this.repository = createRepository();
     this.regulationsApiKey = process.env.REGULATIONS_API_KEY || '';
   }
 
@@ -63,7 +64,7 @@ class FederalDataCollector {
 
       // Phase 3: Generate AI-based federal rules as fallback/supplement
       console.log('🤖 Generating AI-based federal rules...');
-      const aiRules = await this.aiGenerator.generateFederalRules(10);
+      const { rules: aiRules } = await this.aiGenerator.generateFederalRules(10);
       allRules.push(...aiRules);
 
       console.log(`✅ Total rules collected: ${allRules.length}`);
@@ -90,7 +91,7 @@ class FederalDataCollector {
       try {
         console.log(`🔍 Searching for: ${term}`);
         
-        const response = await axios.get('https://api.regulations.gov/v4/documents', {
+        const response = await getRateLimiter().get('https://api.regulations.gov/v4/documents', {
           params: {
             'filter[searchTerm]': term,
             'filter[documentType]': 'Rule',
@@ -125,10 +126,6 @@ class FederalDataCollector {
 
           rawRules.push(rawRule);
         }
-
-        // Respect rate limits
-        await this.delay(200);
-
       } catch (error) {
         console.error(`❌ Error searching for "${term}":`, error);
         continue; // Continue with other terms
@@ -143,7 +140,7 @@ class FederalDataCollector {
 
     try {
       // SBA API endpoint for business resources
-      const response = await axios.get('https://api.sba.gov/v1/resources', {
+      const response = await getRateLimiter().get('https://api.sba.gov/v1/resources', {
         params: {
           category: 'compliance',
           limit: 10
@@ -192,7 +189,7 @@ class FederalDataCollector {
     
     try {
       // Use the AI generator to structure the raw data
-      const processedRules = await this.aiGenerator.generateFederalRules(rawRules.length);
+      const { rules: processedRules } = await this.aiGenerator.generateFederalRules(rawRules.length);
       
       // Enhance with source information from raw rules
       return processedRules.map((rule, index) => {
@@ -229,15 +226,11 @@ Convert each into proper compliance rule format with steps, costs, and applicabi
 `;
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   async storeRules(rules: ComplianceRule[]): Promise<void> {
-    console.log(`💾 Storing ${rules.length} rules in Firestore...`);
+    console.log(`💾 Storing ${rules.length} rules...`);
 
     try {
-      await this.firestoreService.storeRules(rules);
+      await this.repository.storeRules(rules);
       console.log(`✅ Successfully stored all ${rules.length} rules`);
     } catch (error) {
       console.error(`❌ Error storing rules:`, error);
@@ -255,7 +248,7 @@ async function main() {
     const rules = await collector.collectAllFederalData();
     
     if (rules.length > 0) {
-      // Store in Firestore
+      // Store in the configured repository
       await collector.storeRules(rules);
       
       console.log(`🎉 Successfully collected and stored ${rules.length} federal compliance rules!`);
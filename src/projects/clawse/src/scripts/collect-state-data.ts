@@ -1,13 +1,14 @@
 import dotenv from 'dotenv';
 import { AIRuleGenerator } from '../services/AIRuleGenerator';
-import { FirestoreService } from '../services/FirestoreService';
+import { ComplianceRepository } from '../types/Repository';
+import { createRepository } from '../config/storage';
 import { ComplianceRule } from '../types/ComplianceRule';
 
 dotenv.config();
 
 class StateDataCollector {
   private aiGenerator: AIRuleGenerator;
-  private firestoreService: FirestoreService;
+  private repository: ComplianceRepository;
 
   constructor() {
     if (!process.env.OPENAI_API_KEY) {
@@ -15,7 +16,7 @@ class StateDataCollector {
     }
     
     this.aiGenerator = new AIRuleGenerator(process.env.OPENAI_API_KEY);
-    this.firestoreService = new FirestoreService();
+    this.repository = createRepository();
   }
 
   async collectStateData(state: string, count: number = 10): Promise<ComplianceRule[]> {
@@ -25,7 +26,7 @@ class StateDataCollector {
     try {
       // Generate state-specific rules with AI
       console.log(`🤖 Generating ${count} ${state} state compliance rules...`);
-      const stateRules = await this.aiGenerator.generateStateRules(state, count);
+      const { rules: stateRules } = await this.aiGenerator.generateStateRules(state, count);
       allRules.push(...stateRules);
 
       // Generate industry-specific rules for common industries in the state
@@ -33,7 +34,7 @@ class StateDataCollector {
       
       for (const industry of commonIndustries) {
         console.log(`🏭 Generating ${industry.name} industry rules for ${state}...`);
-        const industryRules = await this.aiGenerator.generateIndustrySpecificRules(
+        const { rules: industryRules } = await this.aiGenerator.generateIndustrySpecificRules(
           industry.name, 
           industry.naics, 
           3 // 3 rules per industry
@@ -98,10 +99,10 @@ class StateDataCollector {
   }
 
   async storeRules(rules: ComplianceRule[]): Promise<void> {
-    console.log(`💾 Storing ${rules.length} state rules in Firestore...`);
+    console.log(`💾 Storing ${rules.length} state rules...`);
     
     try {
-      await this.firestoreService.storeRules(rules);
+      await this.repository.storeRules(rules);
       console.log(`✅ Successfully stored all ${rules.length} state rules`);
     } catch (error) {
       console.error(`❌ Error storing state rules:`, error);
@@ -129,7 +130,7 @@ async function main() {
     const rules = await collector.collectStateData(state, count);
     
     if (rules.length > 0) {
-      // Store in Firestore
+      // Store in the configured repository
       await collector.storeRules(rules);
       
       console.log(`🎉 Successfully collected and stored ${rules.length} ${state} compliance rules!`);
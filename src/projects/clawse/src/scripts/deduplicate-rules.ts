@@ -0,0 +1,46 @@
+import dotenv from 'dotenv';
+import { RuleDeduplicator } from '../services/RuleDeduplicator';
+import { createRepository } from '../config/storage';
+
+dotenv.config();
+
+// Merge near-duplicate rules collected from different sources:
+//   npx ts-node src/scripts/deduplicate-rules.ts [--dry-run] [--threshold=0.45]
+
+async function main() {
+  try {
+    const args = process.argv.slice(2);
+    const dryRun = args.includes('--dry-run');
+    const thresholdArg = args.find(arg => arg.startsWith('--threshold='))?.split('=')[1];
+    const threshold = thresholdArg === undefined ? undefined : Number(thresholdArg);
+
+    if (threshold !== undefined && !(threshold > 0 && threshold <= 1)) {
+      console.error('Usage: npx ts-node src/scripts/deduplicate-rules.ts [--dry-run] [--threshold=<0-1>]');
+      process.exit(1);
+    }
+
+    const deduplicator = new RuleDeduplicator(createRepository(), { threshold });
+    const report = await deduplicator.deduplicate({ dryRun });
+
+    console.log(`\n📊 Deduplication Summary${report.dry_run ? ' (dry run, nothing stored)' : ''}:`);
+    console.log(`   Rules scanned: ${report.rules_scanned}`);
+    console.log(`   Threshold: ${report.threshold}`);
+    console.log(`   Clusters: ${report.clusters.length}`);
+    console.log(`   Duplicates superseded: ${report.duplicates}`);
+
+    report.clusters.forEach(cluster => {
+      console.log(`\n🧬 ${cluster.master_title} (${cluster.master_rule_id}), +${cluster.sources_added} sources`);
+      cluster.duplicates.forEach(duplicate => {
+        console.log(`   ${duplicate.similarity.toFixed(2)}  ${duplicate.title} (${duplicate.rule_id})`);
+      });
+    });
+  } catch (error) {
+    console.error('❌ Fatal error in rule deduplication:', error);
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,42 @@
+import dotenv from 'dotenv';
+import { createSemanticRuleRanker } from '../services/SemanticRuleRanker';
+import { createRepository } from '../config/storage';
+
+dotenv.config();
+
+// Embed every stored rule with the EMBEDDING_PROVIDER model (unchanged rules are skipped):
+//   npx ts-node src/scripts/embed-rules.ts [--limit=10000]
+
+const BATCH_SIZE = 200;
+
+async function main() {
+  try {
+    const limitArg = process.argv.slice(2).find(arg => arg.startsWith('--limit='))?.split('=')[1];
+    const limit = limitArg === undefined ? 10000 : Number(limitArg);
+
+    if (!Number.isInteger(limit) || limit < 1) {
+      console.error('Usage: npx ts-node src/scripts/embed-rules.ts [--limit=<rules>]');
+      process.exit(1);
+    }
+
+    const repository = createRepository();
+    const ranker = createSemanticRuleRanker(repository);
+    const rules = await repository.getRecentRules(limit);
+    console.log(`🧭 Embedding ${rules.length} rules with ${ranker.embedder.provider}/${ranker.embedder.model}`);
+
+    for (let i = 0; i < rules.length; i += BATCH_SIZE) {
+      await ranker.embedRules(rules.slice(i, i + BATCH_SIZE));
+    }
+
+    const stored = await repository.getRuleEmbeddings(rules.map(rule => rule.id), ranker.embedder.model);
+    console.log(`\n📊 ${stored.length} of ${rules.length} rules have ${ranker.embedder.model} vectors`);
+  } catch (error) {
+    console.error('❌ Fatal error embedding rules:', error);
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,58 @@
+import dotenv from 'dotenv';
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { RuleSpreadsheet } from '../services/RuleSpreadsheet';
+import { createRepository } from '../config/storage';
+import { RuleSheetName, RuleSheets } from '../types/RuleSpreadsheet';
+
+dotenv.config();
+
+// Import compliance rules from a spreadsheet exported by
+// GET /api/compliance-rules/export (or authored by hand):
+//   npx ts-node src/scripts/import-rules.ts <rules.xlsx|rules.csv> [--dry-run] [--sheet=rules|steps|forms|sources]
+
+async function main() {
+  try {
+    const args = process.argv.slice(2);
+    const file = args.find(arg => !arg.startsWith('--'));
+    const dryRun = args.includes('--dry-run');
+    const sheet = args.find(arg => arg.startsWith('--sheet='))?.split('=')[1] as RuleSheetName | undefined;
+
+    if (!file) {
+      console.error('Usage: npx ts-node src/scripts/import-rules.ts <rules.xlsx|rules.csv> [--dry-run] [--sheet=rules|steps|forms|sources]');
+      process.exit(1);
+    }
+
+    const format = extname(file).toLowerCase() === '.csv' ? 'csv' : 'xlsx';
+    const spreadsheet = new RuleSpreadsheet(createRepository());
+    const sheets: RuleSheets = format === 'csv'
+      ? spreadsheet.readCsv(readFileSync(file, 'utf8'), sheet)
+      : await spreadsheet.readXlsx(readFileSync(file));
+
+    const report = await spreadsheet.importSheets(sheets, { format, dryRun });
+
+    console.log(`\n📊 Import Summary${report.dry_run ? ' (dry run, nothing stored)' : ''}:`);
+    console.log(`   Sheets: ${report.sheets.join(', ')}`);
+    console.log(`   Rules: ${report.total}`);
+    console.log(`   Created: ${report.created}`);
+    console.log(`   Updated: ${report.updated}`);
+    console.log(`   Unchanged: ${report.unchanged}`);
+    console.log(`   Rejected: ${report.rejected}`);
+
+    if (report.errors.length > 0) {
+      console.log('\n❌ Row errors:');
+      report.errors.forEach(error => {
+        console.log(`   ${error.sheet} row ${error.row}${error.column ? ` [${error.column}]` : ''}: ${error.message}`);
+      });
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('❌ Fatal error in rule import:', error);
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,51 @@
+import dotenv from 'dotenv';
+import { AIRuleGenerator } from '../services/AIRuleGenerator';
+import { SourceVerifier } from '../services/SourceVerifier';
+import { createRepository } from '../config/storage';
+import { createLlmClient } from '../services/LlmClient';
+
+dotenv.config();
+
+// Re-verify rule sources and re-process rules whose source content changed.
+// Meant to be run on a schedule (cron, Railway/Render cron job):
+//   npx ts-node src/scripts/verify-sources.ts [maxRules]
+
+async function main() {
+  try {
+    const repository = createRepository();
+    const llm = createLlmClient();
+    const aiGenerator = llm.isAvailable() ? new AIRuleGenerator(llm) : null;
+
+    if (!aiGenerator) {
+      console.log('⚠️  No LLM configured (OPENAI_API_KEY or LLM_PROVIDER), changed rules will be flagged but not re-processed');
+    }
+
+    const verifier = new SourceVerifier(repository, {
+      regulationsApiKey: process.env.REGULATIONS_API_KEY,
+      maxRules: parseInt(process.argv[2] || '') || 100,
+      ...(aiGenerator && { reprocess: rawRule => aiGenerator.processScrapedRule(rawRule) })
+    });
+
+    const run = await verifier.run('scheduled');
+
+    console.log('\n📊 Verification Summary:');
+    console.log(`   Rules checked: ${run.rules_checked}`);
+    console.log(`   Sources checked: ${run.sources_checked}`);
+    console.log(`   Unchanged: ${run.unchanged}`);
+    console.log(`   Changed: ${run.changed}`);
+    console.log(`   Errors: ${run.errors}`);
+    console.log(`   Re-processed: ${run.reprocessing.filter(result => result.status === 'reprocessed').length}`);
+
+    if (run.status === 'failed') {
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('❌ Fatal error in source verification:', error);
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
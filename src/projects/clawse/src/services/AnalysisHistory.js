@@ -0,0 +1,247 @@
+const crypto = require('crypto');
+const { v4: uuidv4 } = require('uuid');
+const { RuleHistory } = require('./RuleHistory');
+
+/**
+ * @typedef {import('../types/ComplianceRule').ComplianceRule} ComplianceRule
+ * @typedef {import('../types/ComplianceRule').BusinessProfile} BusinessProfile
+ * @typedef {import('../types/RuleRevision').RuleFieldChange} RuleFieldChange
+ * @typedef {import('../types/ComplianceTask').TaskSummary} TaskSummary
+ * @typedef {import('../types/ComplianceScore').ComplianceScore} ComplianceScore
+ * @typedef {import('../types/CostForecast').CostForecast} CostForecast
+ * @typedef {import('../types/ComplianceAnalysis').ComplianceAnalysis} ComplianceAnalysis
+ * @typedef {import('../types/ComplianceAnalysis').AnalysisRule} AnalysisRule
+ * @typedef {import('../types/ComplianceAnalysis').AnalysisListItem} AnalysisListItem
+ * @typedef {import('../types/ComplianceAnalysis').AnalysisComparison} AnalysisComparison
+ * @typedef {import('../types/ComplianceAnalysis').ChangedAnalysisRule} ChangedAnalysisRule
+ * @typedef {import('../types/ComplianceAnalysis').NumberDelta} NumberDelta
+ */
+
+/**
+ * @typedef {Object} AnalysisInput
+ * @property {'analyze' | 'analyze-enhanced'} source
+ * @property {BusinessProfile} profile
+ * @property {ComplianceRule[]} rules
+ * @property {string} aiReport
+ * @property {Record<string, number>} priorityBreakdown
+ * @property {ComplianceScore} riskAssessment
+ * @property {CostForecast} costForecast
+ * @property {TaskSummary | null} [taskSummary]
+ * @property {boolean} searchEnhanced
+ * @property {number} startedAt Epoch milliseconds
+ */
+
+// Fields that change on every write and don't affect a rule's content (as in RuleHistory)
+const VOLATILE_RULE_FIELDS = ['id', 'created_at', 'updated_at', 'version', 'last_verified', 'search_vector'];
+
+// Profile fields that differ on every run without the input changing
+const VOLATILE_PROFILE_FIELDS = ['session_id', 'last_analysis'];
+
+/** @param {number} before @param {number} after @returns {NumberDelta} */
+const delta = (before, after) => ({ before, after, delta: Math.round((after - before) * 100) / 100 });
+
+/**
+ * Builds the records stored in the analyses collection and compares two runs
+ * of a profile: rules added, removed or changed (by canonical id, since
+ * real-time search assigns new rule ids on every search), and the change in
+ * score, first-year cost and rule count.
+ */
+class AnalysisHistory {
+  /**
+   * @param {RuleHistory} [ruleHistory]
+   */
+  constructor(ruleHistory = new RuleHistory()) {
+    this.ruleHistory = ruleHistory;
+  }
+
+  /**
+   * @param {AnalysisInput} input
+   * @param {string} [now] ISO timestamp
+   * @returns {ComplianceAnalysis}
+   */
+  createRecord(input, now = new Date().toISOString()) {
+    /** @type {ComplianceAnalysis} */
+    const analysis = {
+      analysis_id: uuidv4(),
+      session_id: input.profile.session_id,
+      created_at: now,
+      source: input.source,
+      profile: input.profile,
+      rules: input.rules.map(rule => this.snapshotRule(rule)),
+      ai_report: input.aiReport,
+      summary: {
+        total_rules: input.rules.length,
+        estimated_total_cost: input.costForecast.projections[0]?.total || 0,
+        priority_breakdown: input.priorityBreakdown,
+        compliance_score: input.riskAssessment.score,
+        risk_level: input.riskAssessment.risk_level,
+        ...(input.taskSummary && { task_summary: input.taskSummary })
+      },
+      risk_assessment: input.riskAssessment,
+      cost_forecast: input.costForecast,
+      metadata: {
+        search_enhanced: input.searchEnhanced,
+        processing_time_ms: Date.now() - input.startedAt
+      }
+    };
+
+    // Firestore rejects undefined values, which optional rule and profile fields often are
+    return JSON.parse(JSON.stringify(analysis));
+  }
+
+  /**
+   * @param {ComplianceAnalysis} analysis
+   * @returns {AnalysisListItem}
+   */
+  listItem(analysis) {
+    return {
+      analysis_id: analysis.analysis_id,
+      session_id: analysis.session_id,
+      created_at: analysis.created_at,
+      source: analysis.source,
+      business_name: analysis.profile?.business_name || '',
+      summary: analysis.summary
+    };
+  }
+
+  /**
+   * Compare two runs; the older one is the base whichever order they're passed in
+   * @param {ComplianceAnalysis} first
+   * @param {ComplianceAnalysis} second
+   * @returns {AnalysisComparison}
+   */
+  compare(first, second) {
+    const [base, target] = first.created_at <= second.created_at ? [first, second] : [second, first];
+    const before = new Map(base.rules.map(rule => [rule.canonical_id, rule]));
+    const after = new Map(target.rules.map(rule => [rule.canonical_id, rule]));
+
+    /** @type {ChangedAnalysisRule[]} */
+    const changed = [];
+    let unchanged = 0;
+    for (const [key, rule] of after) {
+      const previous = before.get(key);
+      if (!previous) continue;
+      if (previous.content_hash === rule.content_hash && previous.version === rule.version) {
+        unchanged++;
+        continue;
+      }
+      changed.push({
+        canonical_id: key,
+        title: rule.title,
+        from_version: previous.version,
+        to_version: rule.version,
+        changes: this.ruleChanges(previous, rule)
+      });
+    }
+
+    const baseCategories = new Map((base.risk_assessment?.categories || []).map(category => [category.category, category]));
+    const targetCategories = new Map((target.risk_assessment?.categories || []).map(category => [category.category, category]));
+    const categoryKeys = Array.from(new Set([...baseCategories.keys(), ...targetCategories.keys()])).sort();
+
+    return {
+      session_id: target.session_id,
+      base: this.listItem(base),
+      target: this.listItem(target),
+      rules: {
+        added: target.rules.filter(rule => !before.has(rule.canonical_id)),
+        removed: base.rules.filter(rule => !after.has(rule.canonical_id)),
+        changed,
+        unchanged
+      },
+      score: delta(base.summary.compliance_score, target.summary.compliance_score),
+      categories: categoryKeys.map(key => ({
+        category: key,
+        label: targetCategories.get(key)?.label || baseCategories.get(key)?.label || key,
+        // A category with no rules has nothing outstanding
+        ...delta(baseCategories.get(key)?.score ?? 100, targetCategories.get(key)?.score ?? 100)
+      })),
+      first_year_cost: delta(base.summary.estimated_total_cost, target.summary.estimated_total_cost),
+      total_rules: delta(base.summary.total_rules, target.summary.total_rules),
+      profile_changes: this.ruleHistory.diff(base.profile, target.profile)
+        .filter(change => !VOLATILE_PROFILE_FIELDS.includes(change.path))
+    };
+  }
+
+  /**
+   * @param {AnalysisRule} previous
+   * @param {AnalysisRule} rule
+   * @returns {RuleFieldChange[]}
+   */
+  ruleChanges(previous, rule) {
+    const changes = this.ruleHistory.diff(previous, rule)
+      .filter(change => !['rule_id', 'content_hash', 'version'].includes(change.path));
+
+    // The snapshot leaves out applicability criteria and the rest of the rule; the hash covers them
+    if (changes.length === 0 && previous.content_hash !== rule.content_hash) {
+      changes.push({ path: 'compliance_rule', change: 'modified' });
+    }
+    return changes;
+  }
+
+  /**
+   * @param {ComplianceRule} rule
+   * @returns {AnalysisRule}
+   */
+  snapshotRule(rule) {
+    return {
+      rule_id: rule.id,
+      canonical_id: rule.canonical_id || rule.id,
+      version: rule.version || 1,
+      content_hash: this.contentHash(rule),
+      title: rule.title,
+      description: rule.description,
+      authority: rule.authority,
+      level: rule.level,
+      jurisdiction: rule.jurisdiction,
+      priority: rule.priority,
+      status: rule.status,
+      deadlines: rule.deadlines,
+      estimated_cost: rule.estimated_cost,
+      steps: (rule.compliance_steps || []).map((step, index) => ({
+        step_number: step.step_number || index + 1,
+        description: step.step_description || `Step ${index + 1}`,
+        deadline: step.deadline || '',
+        estimated_cost: Number(step.estimated_cost) || 0,
+        estimated_time: step.estimated_time || '',
+        forms: (step.required_forms || []).map(form => form.form_name).filter(Boolean)
+      })),
+      sources: (rule.sources || []).map(source => ({
+        source_name: source.source_name || '',
+        source_url: source.source_url || '',
+        ...(source.document_title && { document_title: source.document_title }),
+        reliability_score: source.reliability_score || 0,
+        verification_status: source.verification_status || 'pending',
+        last_updated: source.last_updated || ''
+      }))
+    };
+  }
+
+  /**
+   * @param {ComplianceRule} rule
+   * @returns {string}
+   */
+  contentHash(rule) {
+    /** @type {Record<string, any>} */
+    const content = { ...rule };
+    VOLATILE_RULE_FIELDS.forEach(field => delete content[field]);
+    return crypto.createHash('sha256').update(this.stableStringify(content)).digest('hex').substring(0, 16);
+  }
+
+  /**
+   * JSON with object keys sorted, so key order doesn't change the hash
+   * @param {any} value
+   * @returns {string}
+   */
+  stableStringify(value) {
+    if (Array.isArray(value)) return `[${value.map(item => this.stableStringify(item)).join(',')}]`;
+    if (value && typeof value === 'object') {
+      return `{${Object.keys(value).sort()
+        .filter(key => value[key] !== undefined)
+        .map(key => `${JSON.stringify(key)}:${this.stableStringify(value[key])}`)
+        .join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+  }
+}
+
+module.exports = { AnalysisHistory };
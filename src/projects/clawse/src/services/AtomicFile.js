@@ -0,0 +1,39 @@
+const fs = require('fs');
+const path = require('path');
+
+/**
+ * Temp file next to the target, unique per process, so the rename stays on one filesystem
+ * @param {string} filePath
+ * @returns {string}
+ */
+function tempPathFor(filePath) {
+  return `${filePath}.${process.pid}.tmp`;
+}
+
+/**
+ * Replace a file's contents by writing a temp file and renaming it into place,
+ * so a crash mid-write leaves the previous contents rather than a truncated file
+ * @param {string} filePath
+ * @param {string} data
+ */
+function writeFileAtomicSync(filePath, data) {
+  const tempPath = tempPathFor(filePath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(tempPath, data);
+  fs.renameSync(tempPath, filePath);
+}
+
+/**
+ * Async variant of writeFileAtomicSync
+ * @param {string} filePath
+ * @param {string} data
+ * @returns {Promise<void>}
+ */
+async function writeFileAtomic(filePath, data) {
+  const tempPath = tempPathFor(filePath);
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.promises.writeFile(tempPath, data);
+  await fs.promises.rename(tempPath, filePath);
+}
+
+module.exports = { writeFileAtomic, writeFileAtomicSync };
@@ -0,0 +1,438 @@
+const fs = require('fs');
+const path = require('path');
+const { writeFileAtomic } = require('./AtomicFile');
+
+/**
+ * @typedef {import('../types/Cache').CacheStore} CacheStore
+ * @typedef {import('../types/Cache').CacheConfig} CacheConfig
+ * @typedef {import('../types/Cache').CacheBackend} CacheBackend
+ * @typedef {{ value: unknown, expiresAt: number }} CacheEntry
+ */
+
+const BACKENDS = ['memory', 'file', 'sqlite', 'redis'];
+
+const HOUR = 60 * 60 * 1000;
+
+/** @type {Omit<CacheConfig, 'backend'>} */
+const DEFAULT_CONFIG = {
+  maxEntries: 1000,
+  namespace: 'clawse',
+  ttlMs: {
+    search: 6 * HOUR,
+    regulations: 12 * HOUR
+  }
+};
+
+const DEFAULT_FILES = {
+  file: 'data/cache.json',
+  sqlite: 'data/cache.sqlite'
+};
+
+// The file backend saves the changes made within this window in one write
+const FILE_SAVE_DELAY_MS = 1000;
+
+/**
+ * In-process LRU: reads move an entry to the back, and the least recently
+ * used entry is evicted once maxEntries is reached
+ * @implements {CacheStore}
+ */
+class MemoryCacheStore {
+  /**
+   * @param {Partial<CacheConfig>} [config]
+   */
+  constructor(config = {}) {
+    /** @type {CacheBackend} */
+    this.backend = 'memory';
+    this.maxEntries = config.maxEntries || DEFAULT_CONFIG.maxEntries;
+    /** @type {Map<string, CacheEntry>} */
+    this.entries = new Map();
+  }
+
+  /**
+   * @param {string} key
+   * @returns {Promise<unknown>}
+   */
+  async get(key) {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      await this.delete(key);
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  /**
+   * @param {string} key
+   * @param {unknown} value
+   * @param {number} ttlMs
+   */
+  async set(key, value, ttlMs) {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+    this.changed();
+  }
+
+  /**
+   * @param {string} key
+   */
+  async delete(key) {
+    if (this.entries.delete(key)) this.changed();
+  }
+
+  /**
+   * @param {string} prefix
+   * @returns {Promise<number>}
+   */
+  async deleteByPrefix(prefix) {
+    const keys = Array.from(this.entries.keys()).filter(key => key.startsWith(prefix));
+    keys.forEach(key => this.entries.delete(key));
+    if (keys.length > 0) this.changed();
+    return keys.length;
+  }
+
+  /**
+   * @returns {Promise<number>}
+   */
+  async size() {
+    const now = Date.now();
+    return Array.from(this.entries.values()).filter(entry => entry.expiresAt > now).length;
+  }
+
+  async close() {}
+
+  /**
+   * Hook for subclasses that persist the entries
+   */
+  changed() {}
+}
+
+/**
+ * The memory LRU, saved to a JSON file so entries survive restarts. Changes
+ * are batched into one write per FILE_SAVE_DELAY_MS, written in the background
+ * and renamed into place, so the file is never half-written; an unclean exit
+ * loses at most the last batch. Meant for a single process; use sqlite or
+ * redis to share.
+ * @implements {CacheStore}
+ */
+class FileCacheStore extends MemoryCacheStore {
+  /**
+   * @param {Partial<CacheConfig>} [config]
+   */
+  constructor(config = {}) {
+    super(config);
+    this.backend = /** @type {CacheBackend} */ ('file');
+    this.filePath = path.resolve(config.filePath || DEFAULT_FILES.file);
+    /** @type {NodeJS.Timeout | null} */
+    this.saveTimer = null;
+    this.dirty = false;
+    /** @type {Promise<void>} Latest write; each one waits for the previous */
+    this.writing = Promise.resolve();
+    this.load();
+  }
+
+  /**
+   * Load unexpired entries from the file, if it exists
+   */
+  load() {
+    if (!fs.existsSync(this.filePath)) return;
+
+    try {
+      /** @type {{[key: string]: CacheEntry}} */
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      const now = Date.now();
+      Object.entries(data).forEach(([key, entry]) => {
+        if (entry && entry.expiresAt > now) this.entries.set(key, entry);
+      });
+      console.log(`📂 Loaded ${this.entries.size} cache entries from ${this.filePath}`);
+    } catch (error) {
+      console.error(`❌ Failed to load cache from ${this.filePath}:`, error);
+    }
+  }
+
+  changed() {
+    this.dirty = true;
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => this.flush(), FILE_SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+
+  /**
+   * Write pending changes now
+   * @returns {Promise<void>}
+   */
+  flush() {
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    if (!this.dirty) return this.writing;
+
+    this.dirty = false;
+    const data = JSON.stringify(Object.fromEntries(this.entries));
+    this.writing = this.writing
+      .then(() => writeFileAtomic(this.filePath, data))
+      .catch(error => console.error(`❌ Failed to save cache to ${this.filePath}:`, error));
+    return this.writing;
+  }
+
+  async close() {
+    await this.flush();
+  }
+}
+
+/**
+ * SQLite file (better-sqlite3), safe to share between processes on one host.
+ * Once maxEntries is reached, the entries closest to expiry are evicted.
+ * @implements {CacheStore}
+ */
+class SqliteCacheStore {
+  /**
+   * @param {Partial<CacheConfig>} [config]
+   */
+  constructor(config = {}) {
+    /** @type {CacheBackend} */
+    this.backend = 'sqlite';
+    this.maxEntries = config.maxEntries || DEFAULT_CONFIG.maxEntries;
+    this.filePath = path.resolve(config.filePath || DEFAULT_FILES.sqlite);
+
+    const Database = require('better-sqlite3');
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    this.db = new Database(this.filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`CREATE TABLE IF NOT EXISTS cache_entries (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL,
+      expires_at INTEGER NOT NULL
+    )`);
+    this.db.exec('CREATE INDEX IF NOT EXISTS cache_entries_expires_at ON cache_entries (expires_at)');
+  }
+
+  /**
+   * Whether the better-sqlite3 package is installed
+   * @returns {boolean}
+   */
+  static isAvailable() {
+    try {
+      require.resolve('better-sqlite3');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * @param {string} key
+   * @returns {Promise<unknown>}
+   */
+  async get(key) {
+    const row = this.db.prepare('SELECT value FROM cache_entries WHERE key = ? AND expires_at > ?').get(key, Date.now());
+    return row ? JSON.parse(row.value) : undefined;
+  }
+
+  /**
+   * @param {string} key
+   * @param {unknown} value
+   * @param {number} ttlMs
+   */
+  async set(key, value, ttlMs) {
+    const now = Date.now();
+    this.db.prepare('INSERT OR REPLACE INTO cache_entries (key, value, expires_at) VALUES (?, ?, ?)')
+      .run(key, JSON.stringify(value), now + ttlMs);
+    this.db.prepare('DELETE FROM cache_entries WHERE expires_at <= ?').run(now);
+    this.db.prepare(`DELETE FROM cache_entries WHERE key IN (
+      SELECT key FROM cache_entries ORDER BY expires_at DESC LIMIT -1 OFFSET ?
+    )`).run(this.maxEntries);
+  }
+
+  /**
+   * @param {string} key
+   */
+  async delete(key) {
+    this.db.prepare('DELETE FROM cache_entries WHERE key = ?').run(key);
+  }
+
+  /**
+   * @param {string} prefix
+   * @returns {Promise<number>}
+   */
+  async deleteByPrefix(prefix) {
+    // substr rather than LIKE, so '_' and '%' in keys aren't wildcards
+    return this.db.prepare('DELETE FROM cache_entries WHERE substr(key, 1, ?) = ?').run(prefix.length, prefix).changes;
+  }
+
+  /**
+   * @returns {Promise<number>}
+   */
+  async size() {
+    return this.db.prepare('SELECT COUNT(*) AS count FROM cache_entries WHERE expires_at > ?').get(Date.now()).count;
+  }
+
+  async close() {
+    this.db.close();
+  }
+}
+
+/**
+ * Any Redis-protocol server (Redis, Valkey, KeyDB, Upstash...), shared by the
+ * Express server and the Netlify functions. Keys are prefixed with the
+ * namespace; expiry and eviction are left to the server.
+ * @implements {CacheStore}
+ */
+class RedisCacheStore {
+  /**
+   * @param {Partial<CacheConfig>} [config]
+   * @param {any} [client] An ioredis-compatible client; defaults to one for config.redisUrl
+   */
+  constructor(config = {}, client) {
+    /** @type {CacheBackend} */
+    this.backend = 'redis';
+    this.prefix = `${config.namespace || DEFAULT_CONFIG.namespace}:`;
+
+    if (client) {
+      this.client = client;
+    } else {
+      const Redis = require('ioredis');
+      this.client = new Redis(config.redisUrl || 'redis://localhost:6379', {
+        maxRetriesPerRequest: 1,
+        connectTimeout: 5000
+      });
+      this.client.on('error', (/** @type {Error} */ error) => console.warn('⚠️ Redis cache error:', error.message));
+    }
+  }
+
+  /**
+   * @param {string} key
+   * @returns {Promise<unknown>}
+   */
+  async get(key) {
+    const value = await this.client.get(this.prefix + key);
+    return value === null ? undefined : JSON.parse(value);
+  }
+
+  /**
+   * @param {string} key
+   * @param {unknown} value
+   * @param {number} ttlMs
+   */
+  async set(key, value, ttlMs) {
+    await this.client.set(this.prefix + key, JSON.stringify(value), 'PX', Math.max(1, Math.round(ttlMs)));
+  }
+
+  /**
+   * @param {string} key
+   */
+  async delete(key) {
+    await this.client.del(this.prefix + key);
+  }
+
+  /**
+   * @param {string} prefix
+   * @returns {Promise<number>}
+   */
+  async deleteByPrefix(prefix) {
+    const keys = await this.scan(prefix);
+    for (let i = 0; i < keys.length; i += 500) {
+      await this.client.del(...keys.slice(i, i + 500));
+    }
+    return keys.length;
+  }
+
+  /**
+   * @returns {Promise<number>}
+   */
+  async size() {
+    return (await this.scan('')).length;
+  }
+
+  async close() {
+    await this.client.quit();
+  }
+
+  /**
+   * Full keys (with the namespace) starting with prefix
+   * @param {string} prefix
+   * @returns {Promise<string[]>}
+   */
+  async scan(prefix) {
+    const pattern = `${this.prefix}${prefix}`.replace(/[*?[\]\\]/g, '\\$&') + '*';
+    /** @type {string[]} */
+    const keys = [];
+    let cursor = '0';
+    do {
+      const [next, batch] = await this.client.scan(cursor, 'MATCH', pattern, 'COUNT', 500);
+      cursor = next;
+      keys.push(...batch);
+    } while (cursor !== '0');
+    return keys;
+  }
+}
+
+/**
+ * Cache settings from the environment: CACHE_BACKEND (memory|file|sqlite|redis),
+ * CACHE_MAX_ENTRIES, CACHE_FILE, CACHE_REDIS_URL (falls back to REDIS_URL),
+ * CACHE_NAMESPACE, CACHE_SEARCH_TTL_MS and CACHE_REGULATIONS_TTL_MS
+ * @returns {CacheConfig}
+ */
+function getCacheConfig() {
+  const backend = /** @type {CacheBackend} */ ((process.env.CACHE_BACKEND || 'memory').toLowerCase());
+  if (!BACKENDS.includes(backend)) {
+    throw new Error(`Unknown CACHE_BACKEND "${backend}". Expected one of: ${BACKENDS.join(', ')}.`);
+  }
+
+  return {
+    backend,
+    maxEntries: parseInt(process.env.CACHE_MAX_ENTRIES || '', 10) || DEFAULT_CONFIG.maxEntries,
+    filePath: process.env.CACHE_FILE,
+    redisUrl: process.env.CACHE_REDIS_URL || process.env.REDIS_URL,
+    namespace: process.env.CACHE_NAMESPACE || DEFAULT_CONFIG.namespace,
+    ttlMs: {
+      search: parseInt(process.env.CACHE_SEARCH_TTL_MS || '', 10) || DEFAULT_CONFIG.ttlMs.search,
+      regulations: parseInt(process.env.CACHE_REGULATIONS_TTL_MS || '', 10) || DEFAULT_CONFIG.ttlMs.regulations
+    }
+  };
+}
+
+/**
+ * Create the store selected by CACHE_BACKEND. Explicit overrides win over the
+ * environment; undefined values are ignored. Falls back to the JSON file
+ * store when better-sqlite3 isn't installed.
+ * @param {Partial<CacheConfig>} [overrides]
+ * @returns {CacheStore}
+ */
+function createCacheStore(overrides = {}) {
+  const defined = Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined));
+  /** @type {CacheConfig} */
+  const config = { ...getCacheConfig(), ...defined };
+
+  if (config.backend === 'redis') {
+    return new RedisCacheStore(config);
+  }
+  if (config.backend === 'sqlite') {
+    if (SqliteCacheStore.isAvailable()) {
+      return new SqliteCacheStore(config);
+    }
+    console.warn('⚠️ better-sqlite3 is not installed - caching to a JSON file instead');
+    return new FileCacheStore({ ...config, filePath: config.filePath && `${config.filePath}.json` });
+  }
+  if (config.backend === 'file') {
+    return new FileCacheStore(config);
+  }
+  return new MemoryCacheStore(config);
+}
+
+module.exports = {
+  MemoryCacheStore,
+  FileCacheStore,
+  SqliteCacheStore,
+  RedisCacheStore,
+  getCacheConfig,
+  createCacheStore
+};
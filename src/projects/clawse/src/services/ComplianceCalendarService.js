@@ -0,0 +1,394 @@
+const { DeadlineParser } = require('./DeadlineParser');
+
+/**
+ * @typedef {import('../types/ComplianceRule').ComplianceRule} ComplianceRule
+ * @typedef {import('../types/ComplianceRule').BusinessProfile} BusinessProfile
+ * @typedef {import('../types/ComplianceCalendar').ComplianceCalendar} ComplianceCalendar
+ * @typedef {import('../types/ComplianceCalendar').CalendarObligation} CalendarObligation
+ * @typedef {import('../types/ComplianceCalendar').UnscheduledDeadline} UnscheduledDeadline
+ * @typedef {import('../types/ComplianceCalendar').DeadlineRecurrence} DeadlineRecurrence
+ * @typedef {import('../types/ComplianceCalendar').ObligationStatus} ObligationStatus
+ */
+
+/**
+ * Profile dates the schedule is anchored to
+ * @typedef {Object} CalendarAnchors
+ * @property {Date | null} formation
+ * @property {{ month: number, day: number }} fiscalYearEnd
+ * @property {Date[]} hires
+ */
+
+/**
+ * A deadline text on a rule, before scheduling
+ * @typedef {Object} DeadlineSource
+ * @property {string} origin "initial", "recurring" or "step_<n>"
+ * @property {string} text
+ * @property {string} title
+ * @property {number} [stepNumber]
+ * @property {number} estimatedCost
+ * @property {'absolute' | 'relative' | 'recurring'} [deadlineType]
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PRIORITY_ORDER = { critical: 0, high: 1, medium: 2, low: 3 };
+
+// Obligations due within this many days are flagged due_soon
+const DUE_SOON_DAYS = 30;
+
+/**
+ * Computes dated obligations for a business profile from the deadlines on
+ * its matching rules (rule.deadlines and each step's deadline) over a date range.
+ * Dates are calendar days (YYYY-MM-DD) computed in UTC.
+ */
+class ComplianceCalendarService {
+  /**
+   * @param {DeadlineParser} [parser]
+   */
+  constructor(parser = new DeadlineParser()) {
+    this.parser = parser;
+  }
+
+  /**
+   * @param {BusinessProfile} profile
+   * @param {ComplianceRule[]} rules Rules that apply to the profile
+   * @param {{ start: string, end: string, today?: string }} range YYYY-MM-DD, inclusive
+   * @returns {ComplianceCalendar}
+   */
+  buildCalendar(profile, rules, range) {
+    const start = this.parseDate(range.start);
+    const end = this.parseDate(range.end);
+    const today = this.parseDate(range.today || this.formatDate(new Date()));
+    if (!start || !end || !today) {
+      throw new Error('Calendar range dates must be YYYY-MM-DD');
+    }
+
+    const { anchors, assumptions } = this.getAnchors(profile);
+    /** @type {CalendarObligation[]} */
+    const obligations = [];
+    /** @type {UnscheduledDeadline[]} */
+    const unscheduled = [];
+
+    for (const rule of rules) {
+      for (const source of this.getDeadlineSources(rule)) {
+        const recurrence = this.parser.parse(source.text, source.deadlineType);
+        const scheduled = this.occurrences(recurrence, anchors, start, end);
+
+        if ('reason' in scheduled) {
+          unscheduled.push({ rule_id: rule.id, title: source.title, origin: source.origin, deadline_text: source.text, reason: scheduled.reason });
+          continue;
+        }
+
+        for (const date of scheduled.dates) {
+          obligations.push(this.createObligation(rule, source, recurrence, date, today));
+        }
+      }
+    }
+
+    obligations.sort((a, b) => a.due_date.localeCompare(b.due_date) ||
+      PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] ||
+      a.title.localeCompare(b.title));
+
+    return {
+      profile_id: profile.session_id,
+      range: { start: this.formatDate(start), end: this.formatDate(end) },
+      generated_at: new Date().toISOString(),
+      assumptions,
+      obligations,
+      unscheduled
+    };
+  }
+
+  /**
+   * Due dates of one parsed deadline within [start, end]
+   * @param {DeadlineRecurrence} recurrence
+   * @param {CalendarAnchors} anchors
+   * @param {Date} start
+   * @param {Date} end
+   * @returns {{ dates: Date[] } | { reason: string }}
+   */
+  occurrences(recurrence, anchors, start, end) {
+    if (recurrence.kind === 'ongoing') return { reason: 'Ongoing obligation without a due date' };
+    if (recurrence.kind === 'unknown') return { reason: 'Deadline text not recognized' };
+
+    if (recurrence.kind === 'absolute') {
+      const date = this.parseDate(recurrence.date || '');
+      return { dates: date && date >= start && date <= end ? [date] : [] };
+    }
+
+    if (recurrence.anchor === 'formation' && !anchors.formation) {
+      return { reason: 'Profile has no formation_date' };
+    }
+    if (recurrence.anchor === 'hire' && anchors.hires.length === 0) {
+      return { reason: 'Profile has no hire_dates' };
+    }
+
+    /** @type {Date[]} */
+    let dates = [];
+    if (recurrence.kind === 'relative') {
+      const anchorDates = recurrence.anchor === 'hire' ? anchors.hires : [/** @type {Date} */ (anchors.formation)];
+      dates = anchorDates.map(anchor => recurrence.before_anchor ? anchor : this.applyOffset(anchor, recurrence));
+    } else {
+      dates = this.recurringDates(recurrence, anchors, start, end);
+    }
+
+    // Nothing is due before the business exists
+    const earliest = anchors.formation && anchors.formation > start ? anchors.formation : start;
+    return { dates: dates.filter(date => date >= earliest && date <= end) };
+  }
+
+  /**
+   * Next due date of a deadline on or after `from`. One-off deadlines that
+   * have all passed return the latest one, so callers can report it overdue.
+   * @param {DeadlineRecurrence} recurrence
+   * @param {CalendarAnchors} anchors
+   * @param {Date} from
+   * @returns {Date | null}
+   */
+  nextDueDate(recurrence, anchors, from) {
+    const scheduled = recurrence.kind === 'recurring'
+      ? this.occurrences(recurrence, anchors, from, this.addMonths(from, 12 * (recurrence.interval + 1)))
+      : this.occurrences(recurrence, anchors, new Date(0), this.makeDate(9999, 12, 31));
+    if ('reason' in scheduled || scheduled.dates.length === 0) return null;
+
+    const dates = scheduled.dates.sort((a, b) => a.getTime() - b.getTime());
+    return dates.find(date => date >= from) || dates[dates.length - 1] || null;
+  }
+
+  /**
+   * Candidate dates for a recurring deadline, one period either side of the range
+   * @param {DeadlineRecurrence} recurrence
+   * @param {CalendarAnchors} anchors
+   * @param {Date} start
+   * @param {Date} end
+   * @returns {Date[]}
+   */
+  recurringDates(recurrence, anchors, start, end) {
+    /** @type {Date[]} */
+    const dates = [];
+    const firstYear = start.getUTCFullYear() - 1;
+    const lastYear = end.getUTCFullYear() + 1;
+    // Multi-year intervals count from the formation year (or the range start)
+    const baseYear = anchors.formation ? anchors.formation.getUTCFullYear() : start.getUTCFullYear();
+    const inInterval = (/** @type {number} */ year) => (year - baseYear) % recurrence.interval === 0;
+
+    if (recurrence.anchor === 'calendar' && recurrence.frequency === 'monthly' && !recurrence.dates?.length) {
+      for (let year = firstYear; year <= lastYear; year++) {
+        for (let month = 1; month <= 12; month++) {
+          dates.push(this.makeDate(year, month, recurrence.day_of_month || 31));
+        }
+      }
+      return dates;
+    }
+
+    if (recurrence.anchor === 'calendar') {
+      for (let year = firstYear; year <= lastYear; year++) {
+        if (!inInterval(year)) continue;
+        for (const date of recurrence.dates || []) {
+          dates.push(this.makeDate(year, date.month, date.day));
+        }
+      }
+      return dates;
+    }
+
+    if (recurrence.anchor === 'fiscal_year_end') {
+      for (let year = firstYear; year <= lastYear; year++) {
+        if (!inInterval(year)) continue;
+        const fiscalYearEnd = this.makeDate(year, anchors.fiscalYearEnd.month, anchors.fiscalYearEnd.day);
+        dates.push(this.applyOffset(fiscalYearEnd, recurrence));
+      }
+      return dates;
+    }
+
+    // Formation anniversaries (every 6 months for semiannual obligations)
+    const formation = /** @type {Date} */ (anchors.formation);
+    const stepMonths = recurrence.frequency === 'semiannually' ? 6
+      : recurrence.frequency === 'quarterly' ? 3
+        : recurrence.frequency === 'monthly' ? 1
+          : 12 * recurrence.interval;
+    for (let months = 0; ; months += stepMonths) {
+      const anniversary = this.addMonths(formation, months);
+      if (anniversary.getUTCFullYear() > lastYear) break;
+      if (months === 0) continue; // The formation date itself is the initial deadline, not a recurrence
+      dates.push(this.applyOffset(anniversary, recurrence));
+    }
+    return dates;
+  }
+
+  /**
+   * Deadline texts of a rule: initial and recurring rule deadlines, then step
+   * deadlines that say something the rule-level ones don't
+   * @param {ComplianceRule} rule
+   * @returns {DeadlineSource[]}
+   */
+  getDeadlineSources(rule) {
+    const ruleCost = typeof rule.estimated_cost === 'number'
+      ? rule.estimated_cost
+      : rule.estimated_cost?.filing_fees || 0;
+
+    /** @type {DeadlineSource[]} */
+    const sources = [];
+    const seen = new Set();
+    const add = (/** @type {DeadlineSource} */ source) => {
+      const key = source.text.trim().toLowerCase();
+      if (!key || seen.has(key)) return;
+      seen.add(key);
+      sources.push(source);
+    };
+
+    add({ origin: 'initial', text: rule.deadlines?.initial_deadline || '', title: rule.title, estimatedCost: ruleCost });
+    add({ origin: 'recurring', text: rule.deadlines?.recurring_deadline || '', title: rule.title, estimatedCost: ruleCost, deadlineType: 'recurring' });
+
+    for (const step of rule.compliance_steps || []) {
+      add({
+        origin: `step_${step.step_number}`,
+        text: step.deadline || '',
+        title: `${rule.title}: ${step.step_description}`,
+        stepNumber: step.step_number,
+        estimatedCost: step.estimated_cost || 0,
+        deadlineType: step.deadline_type
+      });
+    }
+    return sources;
+  }
+
+  /**
+   * @param {ComplianceRule} rule
+   * @param {DeadlineSource} source
+   * @param {DeadlineRecurrence} recurrence
+   * @param {Date} dueDate
+   * @param {Date} today
+   * @returns {CalendarObligation}
+   */
+  createObligation(rule, source, recurrence, dueDate, today) {
+    const dueDateText = this.formatDate(dueDate);
+    const gracePeriod = rule.deadlines?.grace_period;
+    const daysUntilDue = Math.round((dueDate.getTime() - today.getTime()) / DAY_MS);
+    /** @type {ObligationStatus} */
+    const status = daysUntilDue < 0 ? 'overdue' : daysUntilDue <= DUE_SOON_DAYS ? 'due_soon' : 'upcoming';
+
+    /** @type {CalendarObligation} */
+    const obligation = {
+      id: `${rule.id}:${source.origin}:${dueDateText}`,
+      rule_id: rule.id,
+      rule_title: rule.title,
+      title: source.title,
+      origin: source.origin,
+      due_date: dueDateText,
+      status,
+      priority: rule.priority,
+      level: rule.level,
+      authority: rule.authority,
+      deadline_text: source.text,
+      recurrence,
+      estimated_cost: source.estimatedCost
+    };
+
+    if (source.stepNumber !== undefined) obligation.step_number = source.stepNumber;
+    if (gracePeriod) {
+      obligation.grace_period_days = gracePeriod;
+      obligation.grace_end_date = this.formatDate(new Date(dueDate.getTime() + gracePeriod * DAY_MS));
+    }
+    const sourceUrl = rule.sources?.find(ruleSource => /^https?:\/\//.test(ruleSource.source_url || ''))?.source_url;
+    if (sourceUrl) obligation.source_url = sourceUrl;
+
+    return obligation;
+  }
+
+  /**
+   * @param {BusinessProfile} profile
+   * @returns {{ anchors: CalendarAnchors, assumptions: string[] }}
+   */
+  getAnchors(profile) {
+    /** @type {string[]} */
+    const assumptions = [];
+
+    const formation = this.parseDate(profile.formation_date || '');
+    if (!formation) {
+      assumptions.push('No formation_date: deadlines relative to formation are unscheduled');
+    }
+
+    let fiscalYearEnd = { month: 12, day: 31 };
+    const fiscalMatch = (profile.fiscal_year_end || '').match(/^(\d{1,2})-(\d{1,2})$/);
+    if (fiscalMatch) {
+      fiscalYearEnd = { month: Number(fiscalMatch[1]), day: Number(fiscalMatch[2]) };
+    } else {
+      assumptions.push('No fiscal_year_end: assuming a calendar fiscal year (December 31)');
+    }
+
+    const hires = (profile.hire_dates || [])
+      .map(date => this.parseDate(date))
+      .filter(/** @returns {date is Date} */ date => date !== null)
+      .sort((a, b) => a.getTime() - b.getTime());
+    if (hires.length === 0 && profile.has_employees) {
+      assumptions.push('No hire_dates: per-hire deadlines are unscheduled');
+    }
+
+    return { anchors: { formation, fiscalYearEnd, hires }, assumptions };
+  }
+
+  /**
+   * @param {Date} anchor
+   * @param {DeadlineRecurrence} recurrence
+   * @returns {Date}
+   */
+  applyOffset(anchor, recurrence) {
+    let date = anchor;
+    const offset = recurrence.offset;
+    if (offset) {
+      if (offset.unit === 'days') date = new Date(date.getTime() + offset.amount * DAY_MS);
+      if (offset.unit === 'weeks') date = new Date(date.getTime() + offset.amount * 7 * DAY_MS);
+      if (offset.unit === 'months') date = this.addMonths(date, offset.amount);
+      if (offset.unit === 'years') date = this.addMonths(date, offset.amount * 12);
+    }
+    if (recurrence.day_of_month && recurrence.anchor !== 'calendar') {
+      date = this.makeDate(date.getUTCFullYear(), date.getUTCMonth() + 1, recurrence.day_of_month);
+    }
+    return date;
+  }
+
+  /**
+   * Month arithmetic that clamps to the end of shorter months (Jan 31 + 1 month = Feb 28/29)
+   * @param {Date} date
+   * @param {number} months
+   * @returns {Date}
+   */
+  addMonths(date, months) {
+    const totalMonths = date.getUTCMonth() + months;
+    const year = date.getUTCFullYear() + Math.floor(totalMonths / 12);
+    const month = ((totalMonths % 12) + 12) % 12 + 1;
+    return this.makeDate(year, month, date.getUTCDate());
+  }
+
+  /**
+   * UTC date, with the day clamped to the month's length (31 = last day)
+   * @param {number} year
+   * @param {number} month 1-12
+   * @param {number} day
+   * @returns {Date}
+   */
+  makeDate(year, month, day) {
+    const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    return new Date(Date.UTC(year, month - 1, Math.min(day, lastDay)));
+  }
+
+  /**
+   * @param {string} value YYYY-MM-DD (a full ISO timestamp is cut to its date)
+   * @returns {Date | null}
+   */
+  parseDate(value) {
+    const match = (value || '').match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (!match) return null;
+    const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+    return date.getUTCDate() === Number(match[3]) ? date : null;
+  }
+
+  /**
+   * @param {Date} date
+   * @returns {string}
+   */
+  formatDate(date) {
+    return date.toISOString().substring(0, 10);
+  }
+}
+
+module.exports = { ComplianceCalendarService };
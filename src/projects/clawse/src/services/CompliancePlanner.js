@@ -0,0 +1,372 @@
+/**
+ * @typedef {import('../types/ComplianceRule').ComplianceRule} ComplianceRule
+ * @typedef {import('../types/ComplianceRule').ComplianceStep} ComplianceStep
+ * @typedef {import('../types/CompliancePlan').CompliancePlan} CompliancePlan
+ * @typedef {import('../types/CompliancePlan').PlannedStep} PlannedStep
+ * @typedef {import('../types/CompliancePlan').StepDuration} StepDuration
+ */
+
+const PRIORITY_ORDER = { critical: 0, high: 1, medium: 2, low: 3 };
+
+// Elapsed days per unit. Hours and minutes count against an 8-hour working day,
+// business days against a 5-day week
+const UNIT_DAYS = {
+  minute: 1 / 480,
+  hour: 1 / 8,
+  day: 1,
+  business_day: 7 / 5,
+  week: 7,
+  month: 30,
+  year: 365
+};
+
+const NUMBER_WORDS = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, twelve: 12, few: 3, several: 3
+};
+const AMOUNT = `(\\d+(?:\\.\\d+)?|${Object.keys(NUMBER_WORDS).join('|')})`;
+
+// "2-3 weeks", "1 to 2 business days", "30 minutes", "a month"
+const DURATION_PATTERN = new RegExp(
+  `\\b${AMOUNT}(?:\\s*(?:-|–|to|or)\\s*${AMOUNT})?\\s*(business |working )?(minute|min|hour|hr|day|week|wk|month|year)s?\\b`,
+  'g'
+);
+
+// Used when estimated_time is empty or not a duration ("Varies")
+const DEFAULT_DURATION = { min_days: 1, max_days: 7 };
+
+/** @param {number} days */
+const roundDays = days => Math.round(days * 100) / 100;
+
+/**
+ * Plans the compliance steps of a profile's matched rules. Builds one
+ * dependency graph over every step (depends_on_steps, plus an implicit
+ * dependency on the previous step when a step can't be done in parallel),
+ * breaks dependency cycles, and schedules the steps on their parsed
+ * estimated_time so owners see what to start first, what can run side by
+ * side, and which chain of steps decides the total elapsed time.
+ */
+class CompliancePlanner {
+  /**
+   * @param {ComplianceRule[]} rules
+   * @returns {CompliancePlan}
+   */
+  buildPlan(rules) {
+    /** @type {string[]} */
+    const assumptions = [];
+    const nodes = this.buildGraph(rules, assumptions);
+    const { order, cycles } = this.sortGraph(nodes);
+
+    cycles.forEach(cycle => assumptions.push(
+      `Dependency cycle ${cycle.join(' → ')}: ignored the last dependency so the steps can be scheduled`
+    ));
+
+    const unparsed = nodes.filter(node => !node.duration.parsed).length;
+    if (unparsed > 0) {
+      assumptions.push(
+        `${unparsed} step(s) without a usable estimated_time: assumed ${DEFAULT_DURATION.min_days}-${DEFAULT_DURATION.max_days} days`
+      );
+    }
+
+    /** @type {Map<string, PlannedStep>} */
+    const byId = new Map(nodes.map(node => [node.step_id, node]));
+    /** @type {Map<string, number>} */
+    const minEnd = new Map();
+
+    // Earliest start and finish, in dependency order
+    for (const step of order) {
+      const dependencies = step.depends_on.map(id => /** @type {PlannedStep} */ (byId.get(id)));
+      step.start_day = Math.max(0, ...dependencies.map(dependency => dependency.end_day));
+      step.end_day = roundDays(step.start_day + step.duration.max_days);
+      step.phase = 1 + Math.max(0, ...dependencies.map(dependency => dependency.phase));
+      minEnd.set(step.step_id, roundDays(
+        Math.max(0, ...step.depends_on.map(id => minEnd.get(id) || 0)) + step.duration.min_days
+      ));
+    }
+
+    const totalMax = Math.max(0, ...order.map(step => step.end_day));
+    const totalMin = Math.max(0, ...minEnd.values());
+
+    // Latest finish that doesn't delay the plan, in reverse dependency order
+    /** @type {Map<string, number>} */
+    const latestFinish = new Map();
+    for (const step of [...order].reverse()) {
+      const finish = latestFinish.get(step.step_id) ?? totalMax;
+      step.slack_days = roundDays(finish - step.end_day);
+      step.critical = step.slack_days === 0;
+      const latestStart = finish - step.duration.max_days;
+      step.depends_on.forEach(id => latestFinish.set(id, Math.min(latestFinish.get(id) ?? totalMax, latestStart)));
+    }
+
+    const steps = [...order].sort((a, b) => this.compareSteps(a, b));
+    const criticalPath = this.criticalPath(steps, byId, totalMax);
+    const lanes = this.assignLanes(steps, criticalPath);
+
+    /** @type {Map<number, string[]>} */
+    const phases = new Map();
+    steps.forEach(step => phases.set(step.phase, [...(phases.get(step.phase) || []), step.step_id]));
+
+    return {
+      steps,
+      phases: Array.from(phases.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([phase, stepIds]) => ({ phase, step_ids: stepIds })),
+      lanes,
+      critical_path: criticalPath,
+      total_days: { min: totalMin, max: totalMax },
+      total_cost: steps.reduce((sum, step) => sum + step.estimated_cost, 0),
+      cycles,
+      assumptions
+    };
+  }
+
+  /**
+   * Parse an estimated_time string into a range of elapsed days. Several
+   * durations in one text ("1 hour online, 4-6 weeks by mail") widen the range.
+   * @param {string | undefined} text
+   * @returns {StepDuration}
+   */
+  parseDuration(text) {
+    const original = (text || '').trim();
+    const normalized = original.toLowerCase().replace(/\s+/g, ' ');
+
+    if (/\b(immediate(ly)?|instant(ly)?)\b/.test(normalized)) {
+      return { text: original, min_days: 0, max_days: 0, parsed: true };
+    }
+    if (/\bsame[- ]day\b/.test(normalized)) {
+      return { text: original, min_days: 1, max_days: 1, parsed: true };
+    }
+
+    let min = Infinity;
+    let max = -Infinity;
+    for (const match of normalized.matchAll(DURATION_PATTERN)) {
+      const low = this.toNumber(match[1]);
+      const high = match[2] ? this.toNumber(match[2]) : low;
+      const unit = this.unitDays(match[4] || '', !!match[3]);
+      if (low === null || high === null) continue;
+      min = Math.min(min, Math.min(low, high) * unit);
+      max = Math.max(max, Math.max(low, high) * unit);
+    }
+
+    if (!Number.isFinite(min)) {
+      return { text: original, ...DEFAULT_DURATION, parsed: false };
+    }
+    return { text: original, min_days: roundDays(min), max_days: roundDays(max), parsed: true };
+  }
+
+  /**
+   * One node per step. Dependencies on steps the rule doesn't have are dropped;
+   * so are repeated step numbers.
+   * @param {ComplianceRule[]} rules
+   * @param {string[]} assumptions
+   * @returns {PlannedStep[]}
+   */
+  buildGraph(rules, assumptions) {
+    /** @type {PlannedStep[]} */
+    const nodes = [];
+    const orderedRules = [...rules].sort((a, b) =>
+      this.priorityRank(a.priority) - this.priorityRank(b.priority) || (a.title || '').localeCompare(b.title || ''));
+
+    for (const rule of orderedRules) {
+      /** @type {Map<number, ComplianceStep>} */
+      const steps = new Map();
+      for (const step of rule.compliance_steps || []) {
+        if (steps.has(step.step_number)) {
+          assumptions.push(`${rule.title || rule.id}: step ${step.step_number} is listed twice; planned the first one`);
+          continue;
+        }
+        steps.set(step.step_number, step);
+      }
+
+      const numbers = Array.from(steps.keys()).sort((a, b) => a - b);
+      numbers.forEach((number, index) => {
+        const step = /** @type {ComplianceStep} */ (steps.get(number));
+        const explicit = (step.depends_on_steps || []).filter(dependency => dependency !== number && steps.has(dependency));
+        const previous = index > 0 ? numbers[index - 1] : undefined;
+        const previousStep = previous === undefined ? undefined : steps.get(previous);
+        const implicit = explicit.length === 0 && !step.can_be_done_parallel && previous !== undefined &&
+          !(previousStep?.depends_on_steps || []).includes(number);
+        const dependencies = implicit ? [/** @type {number} */ (previous)] : explicit;
+
+        nodes.push({
+          step_id: this.stepId(rule.id, number),
+          rule_id: rule.id,
+          rule_title: rule.title || rule.id,
+          step_number: number,
+          title: step.step_description || `Step ${number}`,
+          priority: step.priority || rule.priority || 'medium',
+          depends_on: Array.from(new Set(dependencies)).map(dependency => this.stepId(rule.id, dependency)),
+          implicit_dependency: implicit,
+          duration: this.parseDuration(step.estimated_time),
+          estimated_cost: typeof step.estimated_cost === 'number' ? step.estimated_cost : 0,
+          start_day: 0,
+          end_day: 0,
+          slack_days: 0,
+          critical: false,
+          phase: 1,
+          lane: 0
+        });
+      });
+    }
+
+    return nodes;
+  }
+
+  /**
+   * Depth-first topological sort. A dependency that leads back to a step still
+   * being visited closes a cycle: it is recorded and removed from the step.
+   * @param {PlannedStep[]} nodes
+   * @returns {{ order: PlannedStep[], cycles: string[][] }}
+   */
+  sortGraph(nodes) {
+    /** @type {Map<string, PlannedStep>} */
+    const byId = new Map(nodes.map(node => [node.step_id, node]));
+    /** @type {Map<string, 'visiting' | 'done'>} */
+    const state = new Map();
+    /** @type {PlannedStep[]} */
+    const order = [];
+    /** @type {string[][]} */
+    const cycles = [];
+    /** @type {string[]} */
+    const path = [];
+
+    /** @param {PlannedStep} node */
+    const visit = node => {
+      state.set(node.step_id, 'visiting');
+      path.push(node.step_id);
+
+      for (const dependency of [...node.depends_on]) {
+        const status = state.get(dependency);
+        if (status === 'visiting') {
+          cycles.push([...path.slice(path.indexOf(dependency)), dependency]);
+          node.depends_on = node.depends_on.filter(id => id !== dependency);
+        } else if (!status) {
+          visit(/** @type {PlannedStep} */ (byId.get(dependency)));
+        }
+      }
+
+      path.pop();
+      state.set(node.step_id, 'done');
+      order.push(node);
+    };
+
+    nodes.forEach(node => {
+      if (!state.has(node.step_id)) visit(node);
+    });
+
+    return { order, cycles };
+  }
+
+  /**
+   * The chain of zero-slack steps that ends last, from first step to last
+   * @param {PlannedStep[]} steps Sorted by start day
+   * @param {Map<string, PlannedStep>} byId
+   * @param {number} totalDays
+   * @returns {string[]}
+   */
+  criticalPath(steps, byId, totalDays) {
+    let current = steps.find(step => step.critical && step.end_day === totalDays);
+    /** @type {string[]} */
+    const path = [];
+
+    while (current) {
+      path.unshift(current.step_id);
+      const start = current.start_day;
+      current = current.depends_on
+        .map(id => /** @type {PlannedStep} */ (byId.get(id)))
+        .filter(step => step.critical && step.end_day === start)
+        .sort((a, b) => this.compareSteps(a, b))[0];
+    }
+
+    return path;
+  }
+
+  /**
+   * Gantt rows: the critical path gets the first lane, other steps take the
+   * first lane that is free by their start day
+   * @param {PlannedStep[]} steps Sorted by start day
+   * @param {string[]} criticalPath
+   * @returns {string[][]}
+   */
+  assignLanes(steps, criticalPath) {
+    /** @type {string[][]} */
+    const lanes = criticalPath.length > 0 ? [criticalPath] : [];
+    const laneEnds = criticalPath.length > 0 ? [Infinity] : [];
+    const onPath = new Set(criticalPath);
+
+    for (const step of steps) {
+      if (onPath.has(step.step_id)) {
+        step.lane = 0;
+        continue;
+      }
+
+      let lane = laneEnds.findIndex(end => end <= step.start_day);
+      if (lane === -1) {
+        lane = lanes.length;
+        lanes.push([]);
+        laneEnds.push(0);
+      }
+      /** @type {string[]} */ (lanes[lane]).push(step.step_id);
+      laneEnds[lane] = step.end_day;
+      step.lane = lane;
+    }
+
+    return lanes;
+  }
+
+  /**
+   * @param {PlannedStep} a
+   * @param {PlannedStep} b
+   * @returns {number}
+   */
+  compareSteps(a, b) {
+    return a.start_day - b.start_day ||
+      this.priorityRank(a.priority) - this.priorityRank(b.priority) ||
+      a.rule_title.localeCompare(b.rule_title) ||
+      a.step_number - b.step_number;
+  }
+
+  /**
+   * @param {string | undefined} priority
+   * @returns {number}
+   */
+  priorityRank(priority) {
+    return PRIORITY_ORDER[/** @type {keyof typeof PRIORITY_ORDER} */ (priority)] ?? 4;
+  }
+
+  /**
+   * @param {string} unit
+   * @param {boolean} business
+   * @returns {number}
+   */
+  unitDays(unit, business) {
+    if (unit.startsWith('min')) return UNIT_DAYS.minute;
+    if (unit.startsWith('h')) return UNIT_DAYS.hour;
+    if (unit === 'day') return business ? UNIT_DAYS.business_day : UNIT_DAYS.day;
+    if (unit.startsWith('w')) return UNIT_DAYS.week;
+    if (unit === 'month') return UNIT_DAYS.month;
+    return UNIT_DAYS.year;
+  }
+
+  /**
+   * @param {string | undefined} value
+   * @returns {number | null}
+   */
+  toNumber(value) {
+    if (value === undefined) return null;
+    if (value in NUMBER_WORDS) return NUMBER_WORDS[/** @type {keyof typeof NUMBER_WORDS} */ (value)];
+    const number = parseFloat(value);
+    return Number.isFinite(number) ? number : null;
+  }
+
+  /**
+   * @param {string} ruleId
+   * @param {number} stepNumber
+   * @returns {string}
+   */
+  stepId(ruleId, stepNumber) {
+    return `${ruleId}:${stepNumber}`;
+  }
+}
+
+module.exports = { CompliancePlanner };
@@ -0,0 +1,686 @@
+const path = require('path');
+const PDFDocument = require('pdfkit');
+
+/**
+ * @typedef {import('../types/ComplianceAnalysis').ComplianceAnalysis} ComplianceAnalysis
+ * @typedef {import('../types/ComplianceAnalysis').AnalysisRule} AnalysisRule
+ * @typedef {import('../types/ComplianceAnalysis').AnalysisSource} AnalysisSource
+ * @typedef {import('../types/CostForecast').RuleCost} RuleCost
+ */
+
+/**
+ * @typedef {Object} TextRun
+ * @property {string} text
+ * @property {boolean} bold
+ */
+
+/**
+ * @typedef {{ type: 'heading', level: number, runs: TextRun[] }
+ *   | { type: 'bullet', marker: string, depth: number, runs: TextRun[] }
+ *   | { type: 'paragraph', runs: TextRun[] }
+ *   | { type: 'rule' }} MarkdownBlock
+ */
+
+/**
+ * @typedef {Object} TableColumn
+ * @property {string} header
+ * @property {number} width Share of the text width; the columns add up to 1
+ * @property {'left' | 'right'} [align]
+ */
+
+/**
+ * @typedef {Object} ReportOptions
+ * @property {string} [generatedAt] ISO timestamp printed in the footer
+ * @property {boolean} [compress] Compress page content (default true)
+ */
+
+// Shared with the fallback AI report in server.js
+const LEGAL_DISCLAIMER = 'This analysis is for informational purposes only and does not constitute legal advice. ' +
+  'Please consult with qualified legal professionals for specific compliance guidance.';
+
+// DejaVu ships with the dejavu-fonts-ttf package, so rendering needs no system fonts or network
+const DEFAULT_FONT_DIR = path.join(path.dirname(require.resolve('dejavu-fonts-ttf/package.json')), 'ttf');
+const FONT_FILES = { Body: 'DejaVuSans.ttf', Bold: 'DejaVuSans-Bold.ttf', Italic: 'DejaVuSans-Oblique.ttf' };
+
+const MARGIN = 54;
+const FOOTER_HEIGHT = 24;
+const COLORS = { text: '#1f2937', muted: '#6b7280', accent: '#1d4ed8', border: '#d1d5db', shade: '#f3f4f6' };
+// Narrative headings stay smaller than the section headings (14pt)
+const HEADING_SIZES = [13, 11.5, 10.5];
+const RISK_LABELS = { low: 'Low risk', moderate: 'Moderate risk', elevated: 'Elevated risk', high: 'High risk' };
+
+/**
+ * Renders a stored analysis run (see AnalysisHistory) as a PDF to hand to an
+ * accountant or attorney: profile summary, the AI narrative, matched rules
+ * with their steps, forms, costs and deadlines, cited sources with their
+ * reliability, and the legal disclaimer. Markdown in the narrative is reduced
+ * to headings, bullets, bold text and rules; emoji the font lacks are dropped.
+ */
+class ComplianceReportPdf {
+  /**
+   * @param {string} [fontDir] Directory containing the DejaVu TTF files
+   */
+  constructor(fontDir = DEFAULT_FONT_DIR) {
+    this.fontDir = fontDir;
+  }
+
+  /**
+   * @param {ComplianceAnalysis} analysis
+   * @param {ReportOptions} [options]
+   * @returns {Promise<Buffer>}
+   */
+  render(analysis, options = {}) {
+    const generatedAt = options.generatedAt || new Date().toISOString();
+
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({
+        size: 'LETTER',
+        margins: { top: MARGIN, left: MARGIN, right: MARGIN, bottom: MARGIN + FOOTER_HEIGHT },
+        bufferPages: true,
+        compress: options.compress !== false,
+        info: {
+          Title: `Compliance Report: ${analysis.profile?.business_name || 'Business'}`,
+          Subject: `Analysis ${analysis.analysis_id}`,
+          CreationDate: new Date(generatedAt)
+        }
+      });
+
+      /** @type {Buffer[]} */
+      const chunks = [];
+      doc.on('data', chunk => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      try {
+        Object.entries(FONT_FILES).forEach(([name, file]) => doc.registerFont(name, path.join(this.fontDir, file)));
+        doc.font('Body').fillColor(COLORS.text);
+
+        const sources = this.collectSources(analysis.rules || []);
+        this.renderTitle(doc, analysis);
+        this.renderProfile(doc, analysis);
+        this.renderSummary(doc, analysis);
+        this.renderNarrative(doc, analysis.ai_report || '');
+        this.renderRules(doc, analysis, sources);
+        this.renderSources(doc, sources);
+        this.renderDisclaimer(doc);
+        this.renderFooters(doc, generatedAt);
+        doc.end();
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  // ==================== SECTIONS ====================
+
+  /**
+   * @param {PDFDocument} doc
+   * @param {ComplianceAnalysis} analysis
+   */
+  renderTitle(doc, analysis) {
+    doc.font('Bold').fontSize(22).fillColor(COLORS.accent).text('Compliance Report');
+    doc.font('Bold').fontSize(15).fillColor(COLORS.text).text(this.cleanText(analysis.profile?.business_name || 'Business'));
+    doc.font('Body').fontSize(9).fillColor(COLORS.muted)
+      .text(`Analysis of ${this.formatDate(analysis.created_at)} • ${analysis.analysis_id}`);
+    doc.fillColor(COLORS.text).moveDown(1);
+  }
+
+  /**
+   * @param {PDFDocument} doc
+   * @param {ComplianceAnalysis} analysis
+   */
+  renderProfile(doc, analysis) {
+    const profile = analysis.profile || /** @type {any} */ ({});
+    const locations = (profile.operating_locations || [])
+      .map(location => [location.city, location.state].filter(Boolean).join(', '))
+      .filter(Boolean);
+
+    /** @type {Array<[string, string]>} */
+    const fields = [
+      ['Entity type', profile.business_type],
+      ['Industry', [profile.industry_description, profile.primary_industry && `NAICS ${profile.primary_industry}`].filter(Boolean).join(' • ')],
+      ['Headquarters', [profile.headquarters_city, profile.headquarters_county, profile.headquarters_state].filter(Boolean).join(', ')],
+      ['Formation', [profile.formation_state, profile.formation_date].filter(Boolean).join(', ')],
+      ['Employees', profile.employee_count !== undefined ? String(profile.employee_count) : ''],
+      ['Annual revenue', profile.annual_revenue ? this.formatMoney(profile.annual_revenue) : ''],
+      ['Operating locations', locations.join('; ')],
+      ['Activities', (profile.business_activities || []).join(', ')],
+      ['Characteristics', this.profileFlags(profile).join(', ')]
+    ];
+
+    this.sectionHeading(doc, 'Business Profile');
+    this.table(doc, [
+      { header: 'Field', width: 0.28 },
+      { header: 'Value', width: 0.72 }
+    ], fields.filter(([, value]) => value), { header: false });
+  }
+
+  /**
+   * @param {PDFDocument} doc
+   * @param {ComplianceAnalysis} analysis
+   */
+  renderSummary(doc, analysis) {
+    const summary = analysis.summary;
+    const forecast = analysis.cost_forecast;
+    const priorities = Object.entries(summary.priority_breakdown || {})
+      .map(([priority, count]) => `${count} ${priority}`)
+      .join(', ');
+
+    /** @type {Array<[string, string]>} */
+    const rows = [
+      ['Applicable rules', `${summary.total_rules}${priorities ? ` (${priorities})` : ''}`],
+      ['Compliance score', `${summary.compliance_score} of 100 • ${RISK_LABELS[summary.risk_level] || summary.risk_level}`],
+      ['First-year cost', this.formatMoney(summary.estimated_total_cost)]
+    ];
+    if (forecast) {
+      rows.push(['Annual recurring cost', this.formatMoney(forecast.annual_recurring)]);
+      if (forecast.penalty_exposure?.max > 0) {
+        rows.push(['Overdue penalty exposure', this.formatRange(forecast.penalty_exposure)]);
+      }
+    }
+    if (summary.task_summary) {
+      rows.push(['Tracked progress', `${summary.task_summary.percent_complete}% of ${summary.task_summary.total} tasks complete`]);
+    }
+
+    this.sectionHeading(doc, 'Summary');
+    this.table(doc, [
+      { header: 'Measure', width: 0.28 },
+      { header: 'Value', width: 0.72 }
+    ], rows, { header: false });
+
+    const explanations = analysis.risk_assessment?.explanations || [];
+    if (explanations.length > 0) {
+      doc.moveDown(0.5);
+      explanations.forEach(note => this.bullet(doc, '•', 0, [{ text: note, bold: false }], 9.5));
+    }
+  }
+
+  /**
+   * @param {PDFDocument} doc
+   * @param {string} markdown
+   */
+  renderNarrative(doc, markdown) {
+    const blocks = this.parseMarkdown(markdown);
+    if (blocks.length === 0) return;
+
+    this.sectionHeading(doc, 'Compliance Narrative');
+    for (const block of blocks) {
+      if (block.type === 'heading') {
+        const size = HEADING_SIZES[Math.min(block.level, HEADING_SIZES.length) - 1] || 10.5;
+        this.keepWithNext(doc, size * 4);
+        doc.moveDown(0.4);
+        this.writeRuns(doc, block.runs.map(run => ({ ...run, bold: true })), size, { x: MARGIN });
+        doc.moveDown(0.2);
+      } else if (block.type === 'bullet') {
+        this.bullet(doc, block.marker, block.depth, block.runs, 10);
+      } else if (block.type === 'rule') {
+        this.divider(doc);
+      } else {
+        this.writeRuns(doc, block.runs, 10, { x: MARGIN });
+        doc.moveDown(0.4);
+      }
+    }
+  }
+
+  /**
+   * @param {PDFDocument} doc
+   * @param {ComplianceAnalysis} analysis
+   * @param {Map<string, { number: number, source: AnalysisSource }>} sources
+   */
+  renderRules(doc, analysis, sources) {
+    const rules = analysis.rules || [];
+    /** @type {Map<string, RuleCost>} */
+    const costs = new Map((analysis.cost_forecast?.rules || []).map(cost => [cost.rule_id, cost]));
+
+    this.sectionHeading(doc, 'Matched Rules');
+    if (rules.length === 0) {
+      doc.font('Italic').fontSize(10).text('No rules matched this business profile.', MARGIN);
+      return;
+    }
+
+    this.table(doc, [
+      { header: '#', width: 0.05 },
+      { header: 'Requirement', width: 0.33 },
+      { header: 'Authority', width: 0.2 },
+      { header: 'Priority', width: 0.1 },
+      { header: 'Deadline', width: 0.19 },
+      { header: 'First year', width: 0.13, align: 'right' }
+    ], rules.map((rule, index) => {
+      const cost = costs.get(rule.rule_id);
+      return [
+        String(index + 1),
+        rule.title,
+        rule.authority,
+        rule.priority,
+        this.deadlineText(rule),
+        cost ? this.formatMoney(cost.one_time + cost.annual_recurring) : '—'
+      ];
+    }));
+
+    rules.forEach((rule, index) => {
+      const cost = costs.get(rule.rule_id);
+      this.keepWithNext(doc, 90);
+      doc.moveDown(0.8);
+      doc.font('Bold').fontSize(11.5).fillColor(COLORS.text).text(`${index + 1}. ${this.cleanText(rule.title)}`, MARGIN);
+      doc.font('Body').fontSize(8.5).fillColor(COLORS.muted)
+        .text([rule.authority, rule.level, rule.jurisdiction, `${rule.priority} priority`, `version ${rule.version}`]
+          .filter(Boolean).map(part => this.cleanText(String(part))).join(' • '));
+      doc.fillColor(COLORS.text).moveDown(0.3);
+      if (rule.description) doc.fontSize(9.5).text(this.cleanText(rule.description));
+
+      /** @type {Array<[string, string]>} */
+      const facts = [['Deadline', this.deadlineText(rule)]];
+      if (rule.deadlines?.recurring_deadline) facts.push(['Recurring', rule.deadlines.recurring_deadline]);
+      if (cost) {
+        facts.push(['One-time cost', this.formatMoney(cost.one_time)]);
+        if (cost.annual_recurring > 0) facts.push(['Annual cost', this.formatMoney(cost.annual_recurring)]);
+        if (cost.penalty_range.max > 0) facts.push(['Penalties', this.formatRange(cost.penalty_range)]);
+      }
+      const citations = (rule.sources || [])
+        .map(source => sources.get(this.sourceKey(source))?.number)
+        .filter(number => number !== undefined);
+      if (citations.length > 0) facts.push(['Sources', citations.map(number => `[${number}]`).join(' ')]);
+      doc.moveDown(0.3);
+      facts.forEach(([label, value]) => this.writeRuns(doc, [
+        { text: `${label}: `, bold: true },
+        { text: value, bold: false }
+      ], 9, { x: MARGIN + 12 }));
+
+      if ((rule.steps || []).length > 0) {
+        doc.moveDown(0.4);
+        this.table(doc, [
+          { header: 'Step', width: 0.07 },
+          { header: 'Action', width: 0.41 },
+          { header: 'Deadline', width: 0.2 },
+          { header: 'Forms', width: 0.2 },
+          { header: 'Cost', width: 0.12, align: 'right' }
+        ], rule.steps.map(step => [
+          String(step.step_number),
+          step.estimated_time ? `${step.description} (${step.estimated_time})` : step.description,
+          step.deadline || '—',
+          step.forms.join(', ') || '—',
+          step.estimated_cost > 0 ? this.formatMoney(step.estimated_cost) : '—'
+        ]), { fontSize: 8.5 });
+      }
+    });
+  }
+
+  /**
+   * @param {PDFDocument} doc
+   * @param {Map<string, { number: number, source: AnalysisSource }>} sources
+   */
+  renderSources(doc, sources) {
+    if (sources.size === 0) return;
+
+    this.sectionHeading(doc, 'Sources');
+    for (const { number, source } of sources.values()) {
+      const details = [
+        `Reliability ${source.reliability_score}/10`,
+        source.verification_status,
+        source.last_updated && `updated ${source.last_updated.substring(0, 10)}`
+      ].filter(Boolean).join(', ');
+
+      this.keepWithNext(doc, 36);
+      this.writeRuns(doc, [
+        { text: `[${number}] `, bold: true },
+        { text: [source.source_name, source.document_title].filter(Boolean).join(': '), bold: false }
+      ], 9.5, { x: MARGIN });
+      if (source.source_url) {
+        doc.font('Body').fontSize(8.5).fillColor(COLORS.accent)
+          .text(source.source_url, MARGIN + 18, doc.y, { link: /^https?:\/\//.test(source.source_url) ? source.source_url : undefined });
+      }
+      doc.font('Body').fontSize(8.5).fillColor(COLORS.muted).text(details, MARGIN + 18);
+      doc.fillColor(COLORS.text).moveDown(0.4);
+    }
+  }
+
+  /**
+   * @param {PDFDocument} doc
+   */
+  renderDisclaimer(doc) {
+    this.keepWithNext(doc, 80);
+    this.sectionHeading(doc, 'Legal Disclaimer');
+    doc.font('Italic').fontSize(9.5).fillColor(COLORS.text).text(LEGAL_DISCLAIMER, MARGIN);
+  }
+
+  /**
+   * @param {PDFDocument} doc
+   * @param {string} generatedAt
+   */
+  renderFooters(doc, generatedAt) {
+    const range = doc.bufferedPageRange();
+    for (let index = range.start; index < range.start + range.count; index++) {
+      doc.switchToPage(index);
+      // Writing below the bottom margin would otherwise start a new page
+      const bottom = doc.page.margins.bottom;
+      doc.page.margins.bottom = 0;
+      const y = doc.page.height - MARGIN;
+      const width = doc.page.width - 2 * MARGIN;
+      doc.font('Body').fontSize(7.5).fillColor(COLORS.muted);
+      doc.text(`Generated ${this.formatDate(generatedAt)} • Not legal advice`, MARGIN, y, { width, lineBreak: false });
+      doc.text(`Page ${index - range.start + 1} of ${range.count}`, MARGIN, y, { width, align: 'right', lineBreak: false });
+      doc.page.margins.bottom = bottom;
+    }
+  }
+
+  // ==================== LAYOUT HELPERS ====================
+
+  /**
+   * @param {PDFDocument} doc
+   * @param {string} title
+   */
+  sectionHeading(doc, title) {
+    this.keepWithNext(doc, 72);
+    doc.moveDown(0.8);
+    doc.font('Bold').fontSize(14).fillColor(COLORS.accent).text(title, MARGIN);
+    const y = doc.y + 2;
+    doc.moveTo(MARGIN, y).lineTo(doc.page.width - MARGIN, y).lineWidth(0.75).strokeColor(COLORS.accent).stroke();
+    doc.y = y + 6;
+    doc.fillColor(COLORS.text);
+  }
+
+  /**
+   * Start a new page when less than `height` points are left, so a heading isn't stranded at the bottom
+   * @param {PDFDocument} doc
+   * @param {number} height
+   */
+  keepWithNext(doc, height) {
+    if (doc.y + height > doc.page.height - doc.page.margins.bottom) doc.addPage();
+  }
+
+  /**
+   * @param {PDFDocument} doc
+   */
+  divider(doc) {
+    doc.moveDown(0.3);
+    const y = doc.y;
+    doc.moveTo(MARGIN, y).lineTo(doc.page.width - MARGIN, y).lineWidth(0.5).strokeColor(COLORS.border).stroke();
+    doc.y = y + 6;
+  }
+
+  /**
+   * Bullet with a hanging indent: wrapped lines line up with the text, not the marker
+   * @param {PDFDocument} doc
+   * @param {string} marker
+   * @param {number} depth
+   * @param {TextRun[]} runs
+   * @param {number} fontSize
+   */
+  bullet(doc, marker, depth, runs, fontSize) {
+    const x = MARGIN + 8 + depth * 14;
+    const markerWidth = Math.max(12, doc.font('Body').fontSize(fontSize).widthOfString(marker) + 5);
+    this.keepWithNext(doc, fontSize * 1.5);
+    const y = doc.y;
+    doc.font('Body').fontSize(fontSize).fillColor(COLORS.text).text(marker, x, y, { lineBreak: false });
+    this.writeRuns(doc, runs, fontSize, { x: x + markerWidth, y });
+    doc.moveDown(0.15);
+  }
+
+  /**
+   * Write text with bold spans as one wrapped paragraph
+   * @param {PDFDocument} doc
+   * @param {TextRun[]} runs
+   * @param {number} fontSize
+   * @param {{ x: number, y?: number }} position
+   */
+  writeRuns(doc, runs, fontSize, position) {
+    // Spaces between runs are kept; only the paragraph's ends are trimmed
+    const parts = runs.map(run => ({ ...run, text: this.stripEmoji(run.text) }));
+    const last = parts.length - 1;
+    parts.forEach((run, index) => {
+      if (index === 0) run.text = run.text.trimStart();
+      if (index === last) run.text = run.text.trimEnd();
+    });
+    parts.splice(0, parts.length, ...parts.filter(run => run.text));
+    if (parts.length === 0) return;
+
+    const width = doc.page.width - MARGIN - position.x;
+    parts.forEach((run, index) => {
+      doc.font(run.bold ? 'Bold' : 'Body').fontSize(fontSize).fillColor(COLORS.text);
+      const options = { width, continued: index < parts.length - 1 };
+      if (index === 0) {
+        doc.text(run.text, position.x, position.y ?? doc.y, options);
+      } else {
+        doc.text(run.text, options);
+      }
+    });
+    doc.x = MARGIN;
+  }
+
+  /**
+   * Draw a table with wrapped cells; rows that don't fit start a new page and repeat the header
+   * @param {PDFDocument} doc
+   * @param {TableColumn[]} columns
+   * @param {string[][]} rows
+   * @param {{ header?: boolean, fontSize?: number }} [options]
+   */
+  table(doc, columns, rows, options = {}) {
+    const fontSize = options.fontSize || 9;
+    const padding = 4;
+    const totalWidth = doc.page.width - 2 * MARGIN;
+    const widths = columns.map(column => column.width * totalWidth);
+    const bottom = () => doc.page.height - doc.page.margins.bottom;
+
+    /**
+     * @param {string[]} cells
+     * @param {boolean} isHeader
+     */
+    const layoutRow = (cells, isHeader) => {
+      const texts = cells.map(cell => this.cleanText(cell || ''));
+      const fonts = texts.map((_, index) => (isHeader || (options.header === false && index === 0) ? 'Bold' : 'Body'));
+      const height = Math.max(...texts.map((text, index) =>
+        doc.font(fonts[index] || 'Body').fontSize(fontSize).heightOfString(text || ' ', { width: (widths[index] || 0) - 2 * padding })
+      )) + 2 * padding;
+      return { texts, fonts, height };
+    };
+
+    /**
+     * @param {string[]} cells
+     * @param {boolean} isHeader
+     */
+    const drawRow = (cells, isHeader) => {
+      const { texts, fonts, height } = layoutRow(cells, isHeader);
+
+      if (doc.y + height > bottom()) {
+        doc.addPage();
+        if (!isHeader && options.header !== false) drawRow(columns.map(column => column.header), true);
+      }
+
+      const y = doc.y;
+      if (isHeader) doc.rect(MARGIN, y, totalWidth, height).fillColor(COLORS.shade).fill();
+      let x = MARGIN;
+      texts.forEach((text, index) => {
+        const width = widths[index] || 0;
+        doc.font(fonts[index] || 'Body').fontSize(fontSize).fillColor(COLORS.text)
+          .text(text, x + padding, y + padding, { width: width - 2 * padding, align: columns[index]?.align || 'left' });
+        x += width;
+      });
+      doc.moveTo(MARGIN, y + height).lineTo(MARGIN + totalWidth, y + height).lineWidth(0.5).strokeColor(COLORS.border).stroke();
+      doc.x = MARGIN;
+      doc.y = y + height;
+    };
+
+    if (options.header !== false) {
+      const headers = columns.map(column => column.header);
+      // Keep the header with the first row
+      this.keepWithNext(doc, layoutRow(headers, true).height + (rows[0] ? layoutRow(rows[0], false).height : 0));
+      drawRow(headers, true);
+    }
+    rows.forEach(row => drawRow(row, false));
+    doc.moveDown(0.5);
+  }
+
+  // ==================== CONTENT HELPERS ====================
+
+  /**
+   * Reduce the AI report's markdown to blocks the PDF can lay out
+   * @param {string} markdown
+   * @returns {MarkdownBlock[]}
+   */
+  parseMarkdown(markdown) {
+    /** @type {MarkdownBlock[]} */
+    const blocks = [];
+    /** @type {string[]} */
+    let paragraph = [];
+
+    const flush = () => {
+      if (paragraph.length > 0) blocks.push({ type: 'paragraph', runs: this.parseInline(paragraph.join(' ')) });
+      paragraph = [];
+    };
+
+    for (const rawLine of markdown.replace(/\r\n?/g, '\n').split('\n')) {
+      const line = rawLine.trimEnd();
+      const heading = line.match(/^\s*(#{1,6})\s+(.*)$/);
+      const listItem = line.match(/^(\s*)([-*+]|\d+[.)])\s+(.*)$/);
+
+      if (!line.trim() || /^\s*```/.test(line)) {
+        flush();
+      } else if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+        flush();
+        blocks.push({ type: 'rule' });
+      } else if (heading) {
+        flush();
+        blocks.push({ type: 'heading', level: (heading[1] || '#').length, runs: this.parseInline(heading[2] || '') });
+      } else if (listItem) {
+        flush();
+        const marker = listItem[2] || '-';
+        blocks.push({
+          type: 'bullet',
+          marker: /^\d/.test(marker) ? marker.replace(')', '.') : '•',
+          depth: Math.min(Math.floor((listItem[1] || '').replace(/\t/g, '  ').length / 2), 3),
+          runs: this.parseInline(listItem[3] || '')
+        });
+      } else if (/^\s*\|/.test(line)) {
+        // Tables become one line per row; the |---| separator row is dropped
+        flush();
+        if (!/^[\s|:-]+$/.test(line)) {
+          const cells = line.split('|').map(cell => cell.trim()).filter(Boolean);
+          blocks.push({ type: 'paragraph', runs: this.parseInline(cells.join('  |  ')) });
+        }
+      } else {
+        paragraph.push(line.trim().replace(/^>\s*/, ''));
+      }
+    }
+    flush();
+
+    return blocks;
+  }
+
+  /**
+   * Split inline markdown into bold and plain runs; links keep their URL, other markup is dropped
+   * @param {string} text
+   * @returns {TextRun[]}
+   */
+  parseInline(text) {
+    const plain = text
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (match, label, url) => (label === url ? url : `${label} (${url})`))
+      .replace(/`([^`]*)`/g, '$1')
+      .replace(/__(.+?)__/g, '**$1**');
+
+    /** @type {TextRun[]} */
+    const runs = [];
+    plain.split(/(\*\*.+?\*\*)/g).forEach(part => {
+      if (!part) return;
+      const bold = /^\*\*.+\*\*$/.test(part);
+      const content = (bold ? part.slice(2, -2) : part).replace(/(^|[^*\w])[*_]([^*_]+)[*_](?=[^*\w]|$)/g, '$1$2');
+      if (content) runs.push({ text: content, bold });
+    });
+    return runs;
+  }
+
+  /**
+   * @param {string} text
+   * @returns {string}
+   */
+  cleanText(text) {
+    return this.stripEmoji(text).trim();
+  }
+
+  /**
+   * Drop emoji (DejaVu has no color glyphs) and the joiners around them
+   * @param {string} text
+   * @returns {string}
+   */
+  stripEmoji(text) {
+    return String(text)
+      // Extended_Pictographic also covers © and ®, which the font has
+      .replace(/\p{Extended_Pictographic}/gu, char => (char < '\u2000' ? char : ''))
+      .replace(/[\uFE0E\uFE0F\u200D\u20E3]/g, '')
+      .replace(/[ \t]{2,}/g, ' ');
+  }
+
+  /**
+   * Number sources in order of first citation, one entry per URL and name
+   * @param {AnalysisRule[]} rules
+   * @returns {Map<string, { number: number, source: AnalysisSource }>}
+   */
+  collectSources(rules) {
+    /** @type {Map<string, { number: number, source: AnalysisSource }>} */
+    const sources = new Map();
+    rules.forEach(rule => (rule.sources || []).forEach(source => {
+      const key = this.sourceKey(source);
+      if (!sources.has(key)) sources.set(key, { number: sources.size + 1, source });
+    }));
+    return sources;
+  }
+
+  /**
+   * @param {AnalysisSource} source
+   * @returns {string}
+   */
+  sourceKey(source) {
+    return `${source.source_url || ''}|${source.source_name || ''}`;
+  }
+
+  /**
+   * @param {AnalysisRule} rule
+   * @returns {string}
+   */
+  deadlineText(rule) {
+    return rule.deadlines?.initial_deadline || rule.deadlines?.recurring_deadline || 'Not specified';
+  }
+
+  /**
+   * @param {any} profile
+   * @returns {string[]}
+   */
+  profileFlags(profile) {
+    return [
+      [profile.has_employees, 'has employees'],
+      [profile.has_physical_location, 'physical location'],
+      [profile.sells_online, 'sells online'],
+      [profile.processes_payments, 'processes payments'],
+      [profile.handles_personal_data, 'handles personal data'],
+      [profile.interstate_commerce, 'interstate commerce'],
+      [profile.international_operations, 'international operations']
+    ].filter(([flag]) => flag === true).map(([, label]) => String(label));
+  }
+
+  /**
+   * @param {number} amount
+   * @returns {string}
+   */
+  formatMoney(amount) {
+    return (Number(amount) || 0).toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+  }
+
+  /**
+   * @param {{ min: number, max: number }} range
+   * @returns {string}
+   */
+  formatRange(range) {
+    return range.min === range.max ? this.formatMoney(range.max) : `${this.formatMoney(range.min)} – ${this.formatMoney(range.max)}`;
+  }
+
+  /**
+   * @param {string} iso
+   * @returns {string}
+   */
+  formatDate(iso) {
+    const date = new Date(iso);
+    return isNaN(date.getTime()) ? String(iso || '') : date.toISOString().substring(0, 10);
+  }
+}
+
+module.exports = { ComplianceReportPdf, LEGAL_DISCLAIMER };
@@ -0,0 +1,368 @@
+const { ComplianceCalendarService } = require('./ComplianceCalendarService');
+const { CostForecaster } = require('./CostForecaster');
+
+/**
+ * @typedef {import('../types/ComplianceRule').ComplianceRule} ComplianceRule
+ * @typedef {import('../types/ComplianceRule').BusinessProfile} BusinessProfile
+ * @typedef {import('../types/ComplianceTask').TrackedTask} TrackedTask
+ * @typedef {import('../types/ComplianceScore').ComplianceScore} ComplianceScore
+ * @typedef {import('../types/ComplianceScore').CategoryScore} CategoryScore
+ * @typedef {import('../types/ComplianceScore').RuleRisk} RuleRisk
+ * @typedef {import('../types/ComplianceScore').ScoreCategory} ScoreCategory
+ * @typedef {import('../types/ComplianceScore').DeadlineProximity} DeadlineProximity
+ * @typedef {import('../types/ComplianceScore').RiskLevel} RiskLevel
+ */
+
+const PRIORITY_WEIGHT = { critical: 4, high: 3, medium: 2, low: 1 };
+
+// Share of a rule's weight at risk, by how close its next deadline is. Rules
+// without a date sit in the middle: they may well be due already.
+/** @type {Record<DeadlineProximity, number>} */
+const URGENCY = { overdue: 1, due_soon: 0.8, upcoming: 0.6, unscheduled: 0.5, later: 0.4 };
+const DUE_SOON_DAYS = 30;
+const UPCOMING_DAYS = 90;
+
+// Without sources a rule counts as half reliable
+const DEFAULT_RELIABILITY = 0.5;
+
+// Past deadlines checked for rules without tracked tasks, and how far ahead to look
+const LOOKBACK_YEARS = 5;
+const LOOKAHEAD_MONTHS = 12;
+
+const DONE_STATUSES = ['completed', 'not_applicable'];
+
+// First match wins; matched against the title, tags and authority, then the description
+/** @type {Array<[ScoreCategory, RegExp]>} */
+const CATEGORY_PATTERNS = [
+  ['privacy', /\b(privacy|personal (data|information)|ccpa|cpra|gdpr|hipaa|data (protection|breach)|pci)\b/],
+  ['environmental', /\b(environment(al)?|epa|emissions?|waste|storm ?water|hazardous|air quality)\b/],
+  ['employment', /\b(employ(ee|er|ment)s?|wages?|payroll|workers'? comp(ensation)?|labor|hiring|i-9|w-4|unemployment|overtime|dol)\b/],
+  ['tax', /\b(tax(es)?|irs|ein|employer identification|withholding|franchise|sales and use|ftb|cdtfa)\b/],
+  ['health_safety', /\b(health|safety|osha|food|sanitation|fire|building code|inspections?)\b/],
+  ['registration', /\b(licen[cs]es?|permits?|registrations?|register|formation|articles of|statement of information|annual report|dba|fictitious|business name|secretary of state)\b/]
+];
+
+/** @type {Record<ScoreCategory, string>} */
+const CATEGORY_LABELS = {
+  tax: 'Tax',
+  registration: 'Registration & licensing',
+  employment: 'Employment',
+  privacy: 'Privacy & data',
+  health_safety: 'Health & safety',
+  environmental: 'Environmental',
+  general: 'General'
+};
+
+/** @type {Record<DeadlineProximity, string>} */
+const PROXIMITY_TEXT = {
+  overdue: 'overdue',
+  due_soon: `due within ${DUE_SOON_DAYS} days`,
+  upcoming: `due within ${UPCOMING_DAYS} days`,
+  later: 'not due for 90+ days',
+  unscheduled: 'no scheduled deadline'
+};
+
+/** @param {number} value */
+const round1 = value => Math.round(value * 10) / 10;
+
+/**
+ * Scores how exposed a business is on its matched rules, from 0 (everything
+ * at stake and overdue) to 100 (nothing outstanding). Each rule weighs in by
+ * priority and maximum penalty, scaled by how reliable its sources are; it
+ * loses points for the share of its tracked steps not done yet, more so the
+ * closer its next deadline. Rules without tracked tasks count as not started,
+ * with deadlines taken from the compliance calendar. Pure computation: no
+ * storage or network access.
+ */
+class ComplianceScorer {
+  /**
+   * @param {{ calendarService?: ComplianceCalendarService, costForecaster?: CostForecaster }} [options]
+   */
+  constructor(options = {}) {
+    this.calendar = options.calendarService || new ComplianceCalendarService();
+    this.costs = options.costForecaster || new CostForecaster(this.calendar);
+  }
+
+  /**
+   * @param {BusinessProfile} profile
+   * @param {ComplianceRule[]} rules Rules that apply to the profile
+   * @param {{ today?: string, tasks?: TrackedTask[] | null }} [options] today is YYYY-MM-DD
+   * @returns {ComplianceScore}
+   */
+  score(profile, rules, options = {}) {
+    const today = options.today || this.calendar.formatDate(new Date());
+    /** @type {Map<string, TrackedTask[]>} */
+    const tasksByRule = new Map();
+    (options.tasks || [])
+      .filter(task => !task.archived)
+      .forEach(task => tasksByRule.set(task.rule_id, [...(tasksByRule.get(task.rule_id) || []), task]));
+
+    const untracked = rules.filter(rule => !tasksByRule.has(rule.id));
+    const calendarDeadlines = untracked.length > 0 ? this.calendarDeadlines(profile, untracked, today) : new Map();
+
+    const risks = rules.map(rule => {
+      const tasks = tasksByRule.get(rule.id);
+      return this.ruleRisk(rule, tasks ? this.taskDeadlines(tasks, today) : (calendarDeadlines.get(rule.id) || {}), tasks, today);
+    });
+
+    const totalWeight = risks.reduce((sum, risk) => sum + risk.weight, 0);
+    risks.forEach(risk => {
+      risk.points_lost = totalWeight > 0 ? round1((100 * this.lost(risk)) / totalWeight) : 0;
+    });
+    risks.sort((a, b) => b.points_lost - a.points_lost || a.title.localeCompare(b.title));
+
+    const score = this.scoreOf(risks);
+    const baseWeight = risks.reduce((sum, risk) => sum + risk.weight / this.reliabilityFactor(risk.reliability), 0);
+    const confidence = baseWeight > 0
+      ? risks.reduce((sum, risk) => sum + (risk.weight / this.reliabilityFactor(risk.reliability)) * risk.reliability, 0) / baseWeight
+      : 1;
+
+    return {
+      score,
+      risk_level: this.riskLevel(score),
+      confidence: Math.round(confidence * 100) / 100,
+      categories: this.categoryScores(risks),
+      explanations: this.explain(risks),
+      rules: risks
+    };
+  }
+
+  /**
+   * @param {ComplianceRule} rule
+   * @param {{ overdue?: boolean, next_due_date?: string }} deadlines
+   * @param {TrackedTask[] | undefined} tasks
+   * @param {string} today
+   * @returns {RuleRisk}
+   */
+  ruleRisk(rule, deadlines, tasks, today) {
+    const penaltyMax = this.costs.normalizeCost(rule).penalty_range.max;
+    const reliability = this.reliability(rule);
+    const priorityWeight = PRIORITY_WEIGHT[/** @type {keyof typeof PRIORITY_WEIGHT} */ (rule.priority)] || PRIORITY_WEIGHT.medium;
+    // $0 counts 1x, $1,000 about 1.3x, $10,000 about 2x, $100,000 about 3x
+    const penaltyFactor = 1 + Math.log10(1 + penaltyMax / 1000);
+    const completion = tasks && tasks.length > 0
+      ? tasks.filter(task => DONE_STATUSES.includes(task.status)).length / tasks.length
+      : 0;
+    const proximity = this.proximity(deadlines, today);
+
+    /** @type {RuleRisk} */
+    const risk = {
+      rule_id: rule.id,
+      title: rule.title || rule.id,
+      category: this.categorize(rule),
+      priority: rule.priority || 'medium',
+      penalty_max: penaltyMax,
+      reliability,
+      weight: Math.round(priorityWeight * penaltyFactor * this.reliabilityFactor(reliability) * 1000) / 1000,
+      completion: Math.round(completion * 100) / 100,
+      tracked: !!tasks,
+      proximity,
+      urgency: URGENCY[proximity],
+      points_lost: 0
+    };
+    if (deadlines.next_due_date) risk.next_due_date = deadlines.next_due_date;
+    return risk;
+  }
+
+  /**
+   * Overdue status and next due date from the open tasks of one rule
+   * @param {TrackedTask[]} tasks
+   * @param {string} today
+   * @returns {{ overdue: boolean, next_due_date?: string }}
+   */
+  taskDeadlines(tasks, today) {
+    const open = tasks.filter(task => !DONE_STATUSES.includes(task.status));
+    const upcoming = open
+      .map(task => task.due_date)
+      .filter(/** @returns {date is string} */ date => !!date && date >= today)
+      .sort();
+    return {
+      overdue: open.some(task => task.is_overdue),
+      ...(upcoming[0] && { next_due_date: upcoming[0] })
+    };
+  }
+
+  /**
+   * Overdue one-off deadlines and the next due date per rule, from the calendar.
+   * A passed recurring deadline isn't overdue: it may well have been filed.
+   * @param {BusinessProfile} profile
+   * @param {ComplianceRule[]} rules
+   * @param {string} today
+   * @returns {Map<string, { overdue: boolean, next_due_date?: string }>}
+   */
+  calendarDeadlines(profile, rules, today) {
+    const todayDate = this.calendar.parseDate(today);
+    if (!todayDate) throw new Error(`Invalid date: ${today}`);
+    const calendar = this.calendar.buildCalendar(profile, rules, {
+      start: this.calendar.formatDate(this.calendar.addMonths(todayDate, -12 * LOOKBACK_YEARS)),
+      end: this.calendar.formatDate(this.calendar.addMonths(todayDate, LOOKAHEAD_MONTHS)),
+      today
+    });
+
+    /** @type {Map<string, { overdue: boolean, next_due_date?: string }>} */
+    const deadlines = new Map();
+    // Obligations come sorted by due date, so the first upcoming one is the next
+    for (const obligation of calendar.obligations) {
+      const entry = deadlines.get(obligation.rule_id) || { overdue: false };
+      if (obligation.status === 'overdue') {
+        if (obligation.recurrence.kind !== 'recurring') entry.overdue = true;
+      } else if (!entry.next_due_date) {
+        entry.next_due_date = obligation.due_date;
+      }
+      deadlines.set(obligation.rule_id, entry);
+    }
+    return deadlines;
+  }
+
+  /**
+   * @param {{ overdue?: boolean, next_due_date?: string }} deadlines
+   * @param {string} today
+   * @returns {DeadlineProximity}
+   */
+  proximity(deadlines, today) {
+    if (deadlines.overdue) return 'overdue';
+    const due = deadlines.next_due_date ? this.calendar.parseDate(deadlines.next_due_date) : null;
+    const now = this.calendar.parseDate(today);
+    if (!due || !now) return 'unscheduled';
+
+    const days = Math.round((due.getTime() - now.getTime()) / (24 * 60 * 60 * 1000));
+    if (days < 0) return 'overdue';
+    if (days <= DUE_SOON_DAYS) return 'due_soon';
+    if (days <= UPCOMING_DAYS) return 'upcoming';
+    return 'later';
+  }
+
+  /**
+   * Average reliability_score (1-10) of the rule's sources, as 0-1
+   * @param {ComplianceRule} rule
+   * @returns {number}
+   */
+  reliability(rule) {
+    const scores = (rule.sources || [])
+      .map(source => Number(source.reliability_score))
+      .filter(score => Number.isFinite(score) && score > 0);
+    if (scores.length === 0) return DEFAULT_RELIABILITY;
+    const average = scores.reduce((sum, score) => sum + Math.min(10, score), 0) / scores.length;
+    return Math.round((average / 10) * 100) / 100;
+  }
+
+  /**
+   * A half-reliable rule weighs 75%, a fully reliable one 100%
+   * @param {number} reliability
+   * @returns {number}
+   */
+  reliabilityFactor(reliability) {
+    return 0.5 + 0.5 * reliability;
+  }
+
+  /**
+   * @param {ComplianceRule} rule
+   * @returns {ScoreCategory}
+   */
+  categorize(rule) {
+    const primary = [rule.title, ...(rule.tags || []), rule.authority].join(' ').toLowerCase();
+    const secondary = (rule.description || '').toLowerCase();
+    for (const text of [primary, secondary]) {
+      const match = CATEGORY_PATTERNS.find(([, pattern]) => pattern.test(text));
+      if (match) return match[0];
+    }
+    return 'general';
+  }
+
+  /**
+   * @param {RuleRisk} risk
+   * @returns {number}
+   */
+  lost(risk) {
+    return risk.weight * (1 - risk.completion) * risk.urgency;
+  }
+
+  /**
+   * @param {RuleRisk[]} risks
+   * @returns {number}
+   */
+  scoreOf(risks) {
+    const totalWeight = risks.reduce((sum, risk) => sum + risk.weight, 0);
+    if (totalWeight === 0) return 100;
+    const lost = risks.reduce((sum, risk) => sum + this.lost(risk), 0);
+    return Math.round(100 * (1 - lost / totalWeight));
+  }
+
+  /**
+   * @param {number} score
+   * @returns {RiskLevel}
+   */
+  riskLevel(score) {
+    if (score >= 80) return 'low';
+    if (score >= 60) return 'moderate';
+    if (score >= 40) return 'elevated';
+    return 'high';
+  }
+
+  /**
+   * @param {RuleRisk[]} risks Sorted by points lost
+   * @returns {CategoryScore[]}
+   */
+  categoryScores(risks) {
+    /** @type {Map<ScoreCategory, RuleRisk[]>} */
+    const groups = new Map();
+    risks.forEach(risk => groups.set(risk.category, [...(groups.get(risk.category) || []), risk]));
+
+    return Array.from(groups.entries())
+      .map(([category, group]) => {
+        const outstanding = group.filter(risk => this.lost(risk) > 0);
+        return {
+          category,
+          label: CATEGORY_LABELS[category],
+          score: this.scoreOf(group),
+          rule_count: group.length,
+          explanations: outstanding.length > 0
+            ? outstanding.slice(0, 3).map(risk => this.describe(risk))
+            : [`All ${group.length} requirement(s) complete`]
+        };
+      })
+      .sort((a, b) => a.score - b.score || a.label.localeCompare(b.label));
+  }
+
+  /**
+   * @param {RuleRisk[]} risks Sorted by points lost
+   * @returns {string[]}
+   */
+  explain(risks) {
+    if (risks.length === 0) return ['No matching rules: nothing to comply with yet'];
+
+    /** @type {string[]} */
+    const explanations = [];
+    const overdue = risks.filter(risk => risk.proximity === 'overdue' && risk.completion < 1);
+    if (overdue.length > 0) {
+      explanations.push(`${overdue.length} requirement(s) overdue: ${overdue.slice(0, 3).map(risk => risk.title).join(', ')}`);
+    }
+
+    risks.filter(risk => risk.points_lost > 0).slice(0, 3)
+      .forEach(risk => explanations.push(`${this.describe(risk)} (−${risk.points_lost} pts)`));
+
+    const untracked = risks.filter(risk => !risk.tracked).length;
+    if (untracked > 0) {
+      explanations.push(`${untracked} of ${risks.length} rule(s) have no tracked progress and count as not started`);
+    }
+    const unreliable = risks.filter(risk => risk.reliability < DEFAULT_RELIABILITY).length;
+    if (unreliable > 0) {
+      explanations.push(`${unreliable} rule(s) rely on low-reliability sources and weigh less`);
+    }
+    return explanations;
+  }
+
+  /**
+   * @param {RuleRisk} risk
+   * @returns {string}
+   */
+  describe(risk) {
+    const progress = !risk.tracked
+      ? 'not started'
+      : `${Math.round(risk.completion * 100)}% done`;
+    const penalty = risk.penalty_max > 0 ? `, penalties up to $${risk.penalty_max.toLocaleString('en-US')}` : '';
+    return `${risk.title}: ${risk.priority} priority, ${PROXIMITY_TEXT[risk.proximity]}, ${progress}${penalty}`;
+  }
+}
+
+module.exports = { ComplianceScorer };
@@ -0,0 +1,263 @@
+const { ComplianceCalendarService } = require('./ComplianceCalendarService');
+
+/**
+ * @typedef {import('../types/ComplianceRule').ComplianceRule} ComplianceRule
+ * @typedef {import('../types/ComplianceRule').BusinessProfile} BusinessProfile
+ * @typedef {import('../types/ComplianceTask').TrackedTask} TrackedTask
+ * @typedef {import('../types/ComplianceCalendar').DeadlineRecurrence} DeadlineRecurrence
+ * @typedef {import('../types/CostForecast').AmountRange} AmountRange
+ * @typedef {import('../types/CostForecast').NormalizedCost} NormalizedCost
+ * @typedef {import('../types/CostForecast').RuleCost} RuleCost
+ * @typedef {import('../types/CostForecast').CostBucket} CostBucket
+ * @typedef {import('../types/CostForecast').CostForecast} CostForecast
+ */
+
+const PROJECTION_YEARS = [1, 3, 5];
+
+// Filings per year for each recurrence frequency (before the interval)
+const FILINGS_PER_YEAR = { monthly: 12, quarterly: 4, semiannually: 2, annually: 1 };
+
+// How far back past deadlines are checked when there are no tracked tasks
+const OVERDUE_LOOKBACK_YEARS = 5;
+
+/** @param {number} amount */
+const roundMoney = amount => Math.round(amount * 100) / 100;
+
+/**
+ * Forecasts what the matched rules cost a business: one-time filing costs,
+ * annual recurring costs projected over 1, 3 and 5 years, and the penalties
+ * it is exposed to for obligations that are already overdue. Overdue status
+ * comes from the tracked tasks when there are any (completed steps don't
+ * count), otherwise from one-off deadlines in the compliance calendar that
+ * have passed.
+ */
+class CostForecaster {
+  /**
+   * @param {ComplianceCalendarService} [calendarService]
+   */
+  constructor(calendarService = new ComplianceCalendarService()) {
+    this.calendar = calendarService;
+  }
+
+  /**
+   * @param {BusinessProfile} profile
+   * @param {ComplianceRule[]} rules Rules that apply to the profile
+   * @param {{ today?: string, tasks?: TrackedTask[] | null }} [options] today is YYYY-MM-DD
+   * @returns {CostForecast}
+   */
+  forecast(profile, rules, options = {}) {
+    const today = options.today || this.calendar.formatDate(new Date());
+    /** @type {string[]} */
+    const assumptions = [];
+    const useTasks = Array.isArray(options.tasks) && options.tasks.length > 0;
+    const overdue = useTasks
+      ? this.overdueFromTasks(/** @type {TrackedTask[]} */ (options.tasks))
+      : this.overdueFromCalendar(profile, rules, today);
+
+    const costs = rules.map(rule => this.ruleCost(rule, overdue.get(rule.id) || 0));
+
+    const missing = rules.filter(rule => !this.normalizeCost(rule).has_cost_data).length;
+    if (missing > 0) {
+      assumptions.push(`${missing} rule(s) have no cost data and count as $0`);
+    }
+    const recurringFilings = costs.filter(cost => cost.recurring_basis === 'recurring_filing').length;
+    if (recurringFilings > 0) {
+      assumptions.push(`${recurringFilings} rule(s) without ongoing_costs repeat their filing fee on each recurring deadline`);
+    }
+    if (!useTasks) {
+      assumptions.push('No tracked tasks: overdue means a one-off deadline in the compliance calendar has passed');
+    }
+
+    const oneTime = roundMoney(costs.reduce((sum, cost) => sum + cost.one_time, 0));
+    const annual = roundMoney(costs.reduce((sum, cost) => sum + cost.annual_recurring, 0));
+    const overdueCosts = costs.filter(cost => cost.overdue_obligations > 0);
+
+    return {
+      currency: 'USD',
+      one_time: oneTime,
+      annual_recurring: annual,
+      projections: PROJECTION_YEARS.map(years => ({
+        years,
+        one_time: oneTime,
+        recurring: roundMoney(annual * years),
+        total: roundMoney(oneTime + annual * years)
+      })),
+      penalty_exposure: {
+        ...this.sumPenalties(overdueCosts),
+        overdue_rules: overdueCosts.map(cost => cost.rule_id),
+        source: useTasks ? 'tasks' : 'calendar'
+      },
+      penalty_at_risk: this.sumPenalties(costs),
+      breakdown: {
+        level: this.breakdown(costs, cost => cost.level),
+        authority: this.breakdown(costs, cost => cost.authority),
+        priority: this.breakdown(costs, cost => cost.priority)
+      },
+      rules: costs,
+      assumptions
+    };
+  }
+
+  /**
+   * @param {ComplianceRule} rule
+   * @param {number} overdueObligations
+   * @returns {RuleCost}
+   */
+  ruleCost(rule, overdueObligations) {
+    const cost = this.normalizeCost(rule);
+    // Steps usually itemize the filing fee; only count them when the rule has none
+    const oneTime = cost.filing_fees > 0 ? cost.filing_fees : cost.step_costs;
+
+    /** @type {RuleCost} */
+    const result = {
+      rule_id: rule.id,
+      title: rule.title || rule.id,
+      level: rule.level || 'unknown',
+      authority: rule.authority || 'Unknown authority',
+      priority: rule.priority || 'medium',
+      one_time: roundMoney(oneTime),
+      annual_recurring: 0,
+      recurring_basis: 'none',
+      penalty_range: cost.penalty_range,
+      overdue_obligations: overdueObligations
+    };
+
+    if (cost.ongoing_costs > 0) {
+      result.annual_recurring = roundMoney(cost.ongoing_costs);
+      result.recurring_basis = 'ongoing_costs';
+    } else if (oneTime > 0 && rule.deadlines?.recurring_deadline) {
+      const filings = this.filingsPerYear(this.calendar.parser.parse(rule.deadlines.recurring_deadline, 'recurring'));
+      if (filings > 0) {
+        result.annual_recurring = roundMoney(oneTime * filings);
+        result.recurring_basis = 'recurring_filing';
+        result.filings_per_year = filings;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Rule estimated_cost as the documented object, whichever shape it was stored in
+   * (a bare number is the filing fee, as RuleValidator.repairCost reads it)
+   * @param {ComplianceRule} rule
+   * @returns {NormalizedCost}
+   */
+  normalizeCost(rule) {
+    /** @type {any} */
+    const raw = rule.estimated_cost;
+    const stepCosts = (rule.compliance_steps || [])
+      .reduce((sum, step) => sum + (this.toAmount(step.estimated_cost) || 0), 0);
+    const bare = this.toAmount(raw);
+
+    if (bare !== null) {
+      return { filing_fees: bare, ongoing_costs: 0, penalty_range: { min: 0, max: 0 }, step_costs: stepCosts, has_cost_data: true };
+    }
+
+    const cost = raw && typeof raw === 'object' ? raw : {};
+    const penalty = cost.penalty_range && typeof cost.penalty_range === 'object' ? cost.penalty_range : {};
+    const filingFees = this.toAmount(cost.filing_fees);
+    const ongoingCosts = this.toAmount(cost.ongoing_costs);
+    const low = this.toAmount(penalty.min);
+    const high = this.toAmount(penalty.max);
+
+    return {
+      filing_fees: filingFees || 0,
+      ongoing_costs: ongoingCosts || 0,
+      penalty_range: { min: Math.min(low || 0, high ?? low ?? 0), max: Math.max(low || 0, high || 0) },
+      step_costs: stepCosts,
+      has_cost_data: [filingFees, ongoingCosts, low, high].some(value => value !== null) || stepCosts > 0
+    };
+  }
+
+  /**
+   * Overdue, unfinished tasks per rule
+   * @param {TrackedTask[]} tasks
+   * @returns {Map<string, number>}
+   */
+  overdueFromTasks(tasks) {
+    /** @type {Map<string, number>} */
+    const counts = new Map();
+    tasks
+      .filter(task => task.is_overdue && !task.archived)
+      .forEach(task => counts.set(task.rule_id, (counts.get(task.rule_id) || 0) + 1));
+    return counts;
+  }
+
+  /**
+   * Passed one-off deadlines per rule. Recurring deadlines are left out: a past
+   * occurrence says nothing about whether it was filed.
+   * @param {BusinessProfile} profile
+   * @param {ComplianceRule[]} rules
+   * @param {string} today
+   * @returns {Map<string, number>}
+   */
+  overdueFromCalendar(profile, rules, today) {
+    const todayDate = this.calendar.parseDate(today);
+    if (!todayDate) throw new Error(`Invalid date: ${today}`);
+    const start = this.calendar.formatDate(this.calendar.addMonths(todayDate, -12 * OVERDUE_LOOKBACK_YEARS));
+
+    /** @type {Map<string, number>} */
+    const counts = new Map();
+    this.calendar.buildCalendar(profile, rules, { start, end: today, today }).obligations
+      .filter(obligation => obligation.status === 'overdue' && obligation.recurrence.kind !== 'recurring')
+      .forEach(obligation => counts.set(obligation.rule_id, (counts.get(obligation.rule_id) || 0) + 1));
+    return counts;
+  }
+
+  /**
+   * @param {DeadlineRecurrence} recurrence
+   * @returns {number}
+   */
+  filingsPerYear(recurrence) {
+    if (recurrence.kind !== 'recurring' || !recurrence.frequency) return 0;
+    const perPeriod = recurrence.frequency === 'annually' ? Math.max(1, recurrence.dates?.length || 0) : 1;
+    return (FILINGS_PER_YEAR[recurrence.frequency] * perPeriod) / Math.max(1, recurrence.interval);
+  }
+
+  /**
+   * @param {RuleCost[]} costs
+   * @param {(cost: RuleCost) => string} keyOf
+   * @returns {CostBucket[]}
+   */
+  breakdown(costs, keyOf) {
+    /** @type {Map<string, RuleCost[]>} */
+    const groups = new Map();
+    costs.forEach(cost => groups.set(keyOf(cost), [...(groups.get(keyOf(cost)) || []), cost]));
+
+    return Array.from(groups.entries())
+      .map(([key, group]) => ({
+        key,
+        rule_count: group.length,
+        one_time: roundMoney(group.reduce((sum, cost) => sum + cost.one_time, 0)),
+        annual_recurring: roundMoney(group.reduce((sum, cost) => sum + cost.annual_recurring, 0)),
+        penalty_exposure: this.sumPenalties(group.filter(cost => cost.overdue_obligations > 0))
+      }))
+      .sort((a, b) => (b.one_time + b.annual_recurring) - (a.one_time + a.annual_recurring) || a.key.localeCompare(b.key));
+  }
+
+  /**
+   * @param {RuleCost[]} costs
+   * @returns {AmountRange}
+   */
+  sumPenalties(costs) {
+    return {
+      min: roundMoney(costs.reduce((sum, cost) => sum + cost.penalty_range.min, 0)),
+      max: roundMoney(costs.reduce((sum, cost) => sum + cost.penalty_range.max, 0))
+    };
+  }
+
+  /**
+   * Non-negative amount from a number or a money string ("$1,200"); null when absent
+   * @param {unknown} value
+   * @returns {number | null}
+   */
+  toAmount(value) {
+    if (typeof value === 'number') return Number.isFinite(value) ? Math.max(0, value) : null;
+    if (typeof value !== 'string') return null;
+    const match = value.replace(/,/g, '').match(/\d+(\.\d+)?/);
+    return match ? parseFloat(match[0]) : null;
+  }
+}
+
+module.exports = { CostForecaster };
@@ -0,0 +1,362 @@
+/**
+ * @typedef {import('../types/ComplianceCalendar').DeadlineRecurrence} DeadlineRecurrence
+ * @typedef {import('../types/ComplianceCalendar').DeadlineAnchor} DeadlineAnchor
+ * @typedef {import('../types/ComplianceCalendar').DeadlineOffset} DeadlineOffset
+ * @typedef {import('../types/ComplianceCalendar').RecurrenceFrequency} RecurrenceFrequency
+ */
+
+const MONTHS = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6,
+  jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12
+};
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'];
+const MONTH_PATTERN = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+
+const NUMBER_WORDS = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  fifteen: 15, twenty: 20, thirty: 30, sixty: 60, ninety: 90
+};
+const AMOUNT_PATTERN = `(\\d+|${Object.keys(NUMBER_WORDS).join('|')})`;
+
+// Texts that describe a standing obligation rather than a due date
+const ONGOING_PATTERN = /^(ongoing|continuous(ly)?|at all times|as (required|needed|applicable)|not specified|varies|n\/a|none|upon request|when applicable)\b/;
+
+// Default due dates when a text only says "quarterly": the last day of the
+// month after each calendar quarter (Form 941 schedule)
+const DEFAULT_QUARTERLY_DATES = [
+  { month: 4, day: 30 }, { month: 7, day: 31 }, { month: 10, day: 31 }, { month: 1, day: 31 }
+];
+
+/**
+ * Turns free-text deadlines ("Annually by March 15", "Within 30 days of
+ * formation", "15th day of the 4th month after fiscal year end") into
+ * structured recurrence rules the calendar service can schedule.
+ * Parsing is deterministic; anything not understood comes back as
+ * kind "unknown" with the original text so it can be listed as unscheduled.
+ */
+class DeadlineParser {
+  /**
+   * @param {string | undefined} text
+   * @param {'absolute' | 'relative' | 'recurring'} [deadlineType] ComplianceStep.deadline_type hint
+   * @returns {DeadlineRecurrence}
+   */
+  parse(text, deadlineType) {
+    const original = (text || '').trim();
+    const normalized = original.toLowerCase().replace(/\s+/g, ' ');
+
+    if (!normalized) {
+      return this.finish({ text: original, kind: 'unknown', interval: 1, confidence: 'low' });
+    }
+    if (ONGOING_PATTERN.test(normalized)) {
+      return this.finish({ text: original, kind: 'ongoing', interval: 1, confidence: 'high' });
+    }
+
+    const { frequency, interval } = this.parseFrequency(normalized);
+    const absoluteDate = this.parseAbsoluteDate(normalized);
+    const dates = absoluteDate ? [] : this.parseCalendarDates(normalized);
+    const fiscalDay = this.parseFiscalDay(normalized);
+    const anchor = fiscalDay ? 'fiscal_year_end' : this.parseAnchor(normalized);
+    const offset = fiscalDay ? { amount: fiscalDay.months, unit: /** @type {const} */ ('months') } : this.parseOffset(normalized);
+    const beforeAnchor = /\b(before|prior to|in advance of)\b/.test(normalized);
+    const dayOfMonth = fiscalDay ? fiscalDay.day : this.parseDayOfMonth(normalized);
+
+    /** @type {DeadlineRecurrence} */
+    const result = { text: original, kind: 'unknown', interval, confidence: 'high' };
+
+    if (frequency || anchor === 'fiscal_year_end') {
+      result.kind = 'recurring';
+      result.frequency = frequency || 'annually';
+
+      if (absoluteDate) {
+        // "Annually by March 15, 2025": the year only says when it starts
+        result.anchor = 'calendar';
+        result.dates = [{ month: absoluteDate.month, day: absoluteDate.day }];
+      } else if (dates.length > 0) {
+        result.anchor = 'calendar';
+        result.dates = dates;
+      } else if (anchor === 'fiscal_year_end') {
+        result.anchor = 'fiscal_year_end';
+      } else if (result.frequency === 'monthly') {
+        result.anchor = 'calendar';
+        result.day_of_month = dayOfMonth || 31;
+        if (!dayOfMonth) result.confidence = 'low';
+      } else if (result.frequency === 'quarterly' && anchor !== 'formation') {
+        result.anchor = 'calendar';
+        result.dates = DEFAULT_QUARTERLY_DATES;
+        result.confidence = 'low';
+      } else {
+        // "Annually", "Every two years": on the formation anniversary
+        result.anchor = 'formation';
+        if (!/anniversary/.test(normalized)) result.confidence = 'low';
+      }
+
+      if (offset && result.anchor !== 'calendar') result.offset = offset;
+      if (dayOfMonth && result.anchor === 'fiscal_year_end') result.day_of_month = dayOfMonth;
+      return this.finish(result);
+    }
+
+    if (absoluteDate) {
+      result.kind = 'absolute';
+      result.date = this.formatDate(absoluteDate.year, absoluteDate.month, absoluteDate.day);
+      return this.finish(result);
+    }
+
+    if (anchor || offset) {
+      result.kind = 'relative';
+      // Without a named event, "within 30 days" is read as from formation
+      result.anchor = anchor || 'formation';
+      if (!anchor) result.confidence = 'low';
+      if (offset && !beforeAnchor) {
+        result.offset = offset;
+      } else {
+        result.before_anchor = true;
+      }
+      return this.finish(result);
+    }
+
+    if (dates.length > 0) {
+      // "By April 15" without a year repeats every year
+      result.kind = 'recurring';
+      result.frequency = 'annually';
+      result.anchor = 'calendar';
+      result.dates = dates;
+      if (deadlineType !== 'recurring') result.confidence = 'low';
+      return this.finish(result);
+    }
+
+    if (deadlineType === 'recurring') {
+      result.kind = 'recurring';
+      result.frequency = 'annually';
+      result.anchor = 'formation';
+      result.confidence = 'low';
+      return this.finish(result);
+    }
+
+    result.confidence = 'low';
+    return this.finish(result);
+  }
+
+  /**
+   * @param {string} text
+   * @returns {{ frequency: RecurrenceFrequency | undefined, interval: number }}
+   */
+  parseFrequency(text) {
+    const everyYears = text.match(new RegExp(`\\bevery ${AMOUNT_PATTERN} years\\b`));
+    if (everyYears) return { frequency: 'annually', interval: this.toNumber(everyYears[1]) || 1 };
+    if (/\bbiennial(ly)?\b/.test(text)) return { frequency: 'annually', interval: 2 };
+    if (/\b(semi-?annual(ly)?|bi-?annual(ly)?|twice (a|per|each) year|every six months|every 6 months)\b/.test(text)) {
+      return { frequency: 'semiannually', interval: 1 };
+    }
+    if (/\b(quarterly|each quarter|every quarter|per quarter)\b/.test(text)) return { frequency: 'quarterly', interval: 1 };
+    if (/\b(monthly|each month|every month|per month)\b/.test(text)) return { frequency: 'monthly', interval: 1 };
+    if (/\b(annual(ly)?|yearly|each year|every year|per year|anniversary)\b/.test(text)) return { frequency: 'annually', interval: 1 };
+    return { frequency: undefined, interval: 1 };
+  }
+
+  /**
+   * "March 15, 2025", "15 March 2025" or "2025-03-15"
+   * @param {string} text
+   * @returns {{ year: number, month: number, day: number } | null}
+   */
+  parseAbsoluteDate(text) {
+    const iso = text.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+    if (iso) return this.validDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+    const monthFirst = text.match(new RegExp(`\\b${MONTH_PATTERN} (\\d{1,2})(?:st|nd|rd|th)?,? (\\d{4})\\b`));
+    if (monthFirst) return this.validDate(Number(monthFirst[3]), this.monthNumber(monthFirst[1]), Number(monthFirst[2]));
+
+    const dayFirst = text.match(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)? (?:of )?${MONTH_PATTERN},? (\\d{4})\\b`));
+    if (dayFirst) return this.validDate(Number(dayFirst[3]), this.monthNumber(dayFirst[2]), Number(dayFirst[1]));
+
+    const numeric = text.match(/\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/);
+    if (numeric) return this.validDate(Number(numeric[3]), Number(numeric[1]), Number(numeric[2]));
+
+    return null;
+  }
+
+  /**
+   * Calendar dates without a year: "March 15", "15th of April", "end of the year"
+   * @param {string} text
+   * @returns {{ month: number, day: number }[]}
+   */
+  parseCalendarDates(text) {
+    /** @type {{ month: number, day: number }[]} */
+    const dates = [];
+    const add = (/** @type {number} */ month, /** @type {number} */ day) => {
+      if (month >= 1 && month <= 12 && day >= 1 && day <= 31 && !dates.some(date => date.month === month && date.day === day)) {
+        dates.push({ month, day });
+      }
+    };
+
+    for (const match of text.matchAll(new RegExp(`\\b${MONTH_PATTERN} (\\d{1,2})(?:st|nd|rd|th)?\\b`, 'g'))) {
+      add(this.monthNumber(match[1] || ''), Number(match[2]));
+    }
+    for (const match of text.matchAll(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)? (?:day )?of ${MONTH_PATTERN}`, 'g'))) {
+      add(this.monthNumber(match[2] || ''), Number(match[1]));
+    }
+    if (/\b(end of (the )?(calendar )?year|year[- ]end|december 31)\b/.test(text) && !/fiscal|tax year/.test(text)) {
+      add(12, 31);
+    }
+    return dates;
+  }
+
+  /**
+   * "15th day of the 4th month after the end of the fiscal year"
+   * @param {string} text
+   * @returns {{ day: number, months: number } | null}
+   */
+  parseFiscalDay(text) {
+    const match = text.match(/\b(\d{1,2})(?:st|nd|rd|th)? day of the (\d{1,2}|\w+)(?:st|nd|rd|th)? month (?:after|following) (?:the )?(?:end of (?:the |its |your )?)?(?:fiscal|tax) year/);
+    if (!match) return null;
+
+    const ordinals = { first: 1, second: 2, third: 3, fourth: 4, fifth: 5, sixth: 6 };
+    const months = Number(match[2]) || ordinals[/** @type {keyof typeof ordinals} */ (match[2])] || 0;
+    return months > 0 ? { day: Number(match[1]), months } : null;
+  }
+
+  /**
+   * @param {string} text
+   * @returns {DeadlineAnchor | undefined}
+   */
+  parseAnchor(text) {
+    if (/\b(fiscal|tax) year\b/.test(text) && /\b(end|close|after|following)\b/.test(text)) return 'fiscal_year_end';
+    if (/\b(hir(e|es|ed|ing)|new employees?|first employee|employing)\b/.test(text)) return 'hire';
+    if (/\b(formation|forming|formed|incorporat\w*|organiz\w*|organis\w*|registration|registering|start(ing)? (the |a |your )?business|commenc\w*|opening|beginning operations|begin(ning)? business|anniversary)\b/.test(text)) {
+      return 'formation';
+    }
+    return undefined;
+  }
+
+  /**
+   * "within 30 days", "90 days after", "two weeks of"
+   * @param {string} text
+   * @returns {DeadlineOffset | undefined}
+   */
+  parseOffset(text) {
+    const match = text.match(new RegExp(`\\b(within )?${AMOUNT_PATTERN} (?:business |calendar )?(day|week|month|year)s?\\b( (?:of|after|from|following|before|prior to)\\b)?`));
+    // A bare "two years" (as in "every two years") is a frequency, not an offset
+    if (!match || (!match[1] && !match[4])) return undefined;
+
+    const amount = this.toNumber(match[2] || '');
+    if (!amount) return undefined;
+    return { amount, unit: /** @type {DeadlineOffset['unit']} */ (`${match[3]}s`) };
+  }
+
+  /**
+   * "by the 20th", "20th day of each month", "last day of the month"
+   * @param {string} text
+   * @returns {number | undefined}
+   */
+  parseDayOfMonth(text) {
+    if (/\blast day of (the|each|every)( following)? month\b|\bend of (the|each|every) month\b/.test(text)) return 31;
+    const match = text.match(/\b(?:by|on|before) the (\d{1,2})(?:st|nd|rd|th)\b/) ||
+      text.match(/\b(\d{1,2})(?:st|nd|rd|th) (?:day )?of (?:the|each|every)( following)? month\b/);
+    const day = match ? Number(match[1]) : 0;
+    return day >= 1 && day <= 31 ? day : undefined;
+  }
+
+  /**
+   * Human-readable normalized form of a parsed deadline
+   * @param {DeadlineRecurrence} rule
+   * @returns {string}
+   */
+  describe(rule) {
+    const anchorLabels = {
+      calendar: 'the calendar date',
+      formation: 'formation',
+      fiscal_year_end: 'fiscal year end',
+      hire: 'each hire date'
+    };
+    const offsetText = rule.offset ? `${rule.offset.amount} ${rule.offset.amount === 1 ? rule.offset.unit.slice(0, -1) : rule.offset.unit}` : '';
+    const dayText = (/** @type {number} */ day) => (day >= 31 ? 'the last day' : `the ${this.ordinal(day)}`);
+    const datesText = (rule.dates || []).map(date => `${MONTH_NAMES[date.month - 1]} ${date.day}`).join(', ');
+
+    switch (rule.kind) {
+      case 'ongoing':
+        return 'Ongoing';
+      case 'absolute':
+        return `On ${rule.date}`;
+      case 'relative':
+        return rule.before_anchor
+          ? `Before ${anchorLabels[rule.anchor || 'formation']}`
+          : `Within ${offsetText} of ${anchorLabels[rule.anchor || 'formation']}`;
+      case 'recurring': {
+        const every = rule.interval > 1 ? `Every ${rule.interval} years` : this.capitalize(rule.frequency || 'annually');
+        if (rule.anchor === 'calendar' && rule.dates?.length) return `${every} on ${datesText}`;
+        if (rule.anchor === 'calendar') return `${every} on ${dayText(rule.day_of_month || 31)} of the month`;
+        if (rule.anchor === 'fiscal_year_end') {
+          if (rule.offset && rule.day_of_month) return `${every}, ${dayText(rule.day_of_month)} of the ${this.ordinal(rule.offset.amount)} month after fiscal year end`;
+          return rule.offset ? `${every}, ${offsetText} after fiscal year end` : `${every} at fiscal year end`;
+        }
+        return rule.offset ? `${every}, ${offsetText} after the formation anniversary` : `${every} on the formation anniversary`;
+      }
+      default:
+        return 'Unrecognized deadline';
+    }
+  }
+
+  /**
+   * @param {DeadlineRecurrence} rule
+   * @returns {DeadlineRecurrence}
+   */
+  finish(rule) {
+    return { ...rule, summary: this.describe(rule) };
+  }
+
+  /**
+   * @param {number} year
+   * @param {number} month
+   * @param {number} day
+   * @returns {{ year: number, month: number, day: number } | null}
+   */
+  validDate(year, month, day) {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? { year, month, day } : null;
+  }
+
+  /**
+   * @param {number} year
+   * @param {number} month
+   * @param {number} day
+   * @returns {string}
+   */
+  formatDate(year, month, day) {
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  }
+
+  /**
+   * @param {string} name
+   * @returns {number}
+   */
+  monthNumber(name) {
+    return MONTHS[/** @type {keyof typeof MONTHS} */ (name.substring(0, 3))] || 0;
+  }
+
+  /**
+   * @param {string} value
+   * @returns {number}
+   */
+  toNumber(value) {
+    return Number(value) || NUMBER_WORDS[/** @type {keyof typeof NUMBER_WORDS} */ (value)] || 0;
+  }
+
+  /**
+   * @param {number} n
+   * @returns {string}
+   */
+  ordinal(n) {
+    const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ({ 1: 'st', 2: 'nd', 3: 'rd' })[/** @type {1 | 2 | 3} */ (n % 10)] || 'th';
+    return `${n}${suffix}`;
+  }
+
+  /**
+   * @param {string} value
+   * @returns {string}
+   */
+  capitalize(value) {
+    return value.charAt(0).toUpperCase() + value.slice(1);
+  }
+}
+
+module.exports = { DeadlineParser };
@@ -0,0 +1,383 @@
+const path = require('path');
+
+/**
+ * @typedef {import('../types/Embedding').EmbeddingProvider} EmbeddingProvider
+ * @typedef {import('../types/Embedding').EmbeddingProviderName} EmbeddingProviderName
+ * @typedef {import('../types/Embedding').EmbeddingConfig} EmbeddingConfig
+ */
+
+const PROVIDERS = ['openai', 'local', 'transformers', 'hashing'];
+
+/** @type {Record<EmbeddingProviderName, string>} */
+const DEFAULT_MODELS = {
+  openai: 'text-embedding-3-small',
+  local: 'nomic-embed-text', // Ollama
+  transformers: 'Xenova/all-MiniLM-L6-v2', // 384 dimensions, ~25 MB quantized, runs on CPU
+  hashing: 'hashing'
+};
+
+/** @type {Omit<EmbeddingConfig, 'provider' | 'model'>} */
+const DEFAULT_CONFIG = {
+  batchSize: 64,
+  timeoutMs: 60000
+};
+
+const DEFAULT_HASHING_DIMENSIONS = 512;
+
+// Ollama's OpenAI-compatible endpoint; llama.cpp and vLLM servers work the same way
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+
+/**
+ * Scale a vector to unit length so cosine similarity is a dot product
+ * @param {number[]} vector
+ * @returns {number[]}
+ */
+function normalize(vector) {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
+
+/**
+ * @param {number[]} a
+ * @param {number[]} b
+ * @returns {number}
+ */
+function cosineSimilarity(a, b) {
+  if (a.length !== b.length) {
+    throw new Error(`Cannot compare embeddings of ${a.length} and ${b.length} dimensions`);
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    const x = /** @type {number} */ (a[i]);
+    const y = /** @type {number} */ (b[i]);
+    dot += x * y;
+    normA += x * x;
+    normB += y * y;
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * @template T
+ * @param {T[]} items
+ * @param {number} size
+ * @returns {T[][]}
+ */
+function batches(items, size) {
+  /** @type {T[][]} */
+  const result = [];
+  for (let i = 0; i < items.length; i += size) {
+    result.push(items.slice(i, i + size));
+  }
+  return result;
+}
+
+/**
+ * Embeddings from the OpenAI API
+ * @implements {EmbeddingProvider}
+ */
+class OpenAIEmbeddingProvider {
+  /**
+   * @param {Partial<EmbeddingConfig>} [config]
+   */
+  constructor(config = {}) {
+    /** @type {EmbeddingConfig} */
+    this.config = { ...DEFAULT_CONFIG, provider: 'openai', model: DEFAULT_MODELS.openai, ...config };
+    /** @type {EmbeddingProviderName} */
+    this.provider = 'openai';
+    this.model = this.config.model;
+    /** @type {any} */
+    this.client = null;
+  }
+
+  /**
+   * @returns {boolean}
+   */
+  isAvailable() {
+    return !!this.config.apiKey;
+  }
+
+  /**
+   * @param {string[]} texts
+   * @returns {Promise<number[][]>}
+   */
+  async embed(texts) {
+    if (!this.isAvailable()) {
+      throw new Error(`${this.provider} embedding provider is not configured`);
+    }
+
+    /** @type {number[][]} */
+    const vectors = [];
+    for (const batch of batches(texts, this.config.batchSize)) {
+      const response = await this.getClient().embeddings.create({
+        model: this.model,
+        input: batch,
+        ...(this.config.dimensions && { dimensions: this.config.dimensions })
+      }, { timeout: this.config.timeoutMs });
+
+      const ordered = [...response.data].sort((a, b) => a.index - b.index);
+      vectors.push(...ordered.map(item => normalize(item.embedding)));
+    }
+    return vectors;
+  }
+
+  /**
+   * The SDK throws without an API key, so it is created on first use
+   * @returns {any}
+   */
+  getClient() {
+    if (!this.client) {
+      const OpenAI = require('openai');
+      this.client = new OpenAI({
+        apiKey: this.config.apiKey,
+        ...(this.config.baseUrl && { baseURL: this.config.baseUrl })
+      });
+    }
+    return this.client;
+  }
+}
+
+/**
+ * Embedding model behind an OpenAI-compatible endpoint (Ollama, llama.cpp, vLLM)
+ */
+class LocalEmbeddingProvider extends OpenAIEmbeddingProvider {
+  /**
+   * @param {Partial<EmbeddingConfig>} [config]
+   */
+  constructor(config = {}) {
+    super({
+      model: DEFAULT_MODELS.local,
+      ...config,
+      provider: 'local',
+      baseUrl: config.baseUrl || DEFAULT_LOCAL_BASE_URL,
+      // Most local servers ignore the key, but the SDK requires one
+      apiKey: config.apiKey || 'local'
+    });
+    this.provider = 'local';
+  }
+}
+
+/**
+ * Sentence-transformer model run in-process on the CPU with transformers.js (ONNX).
+ * Weights are downloaded from the Hugging Face hub on first use and cached in
+ * cacheDir; afterwards embedding works offline.
+ * @implements {EmbeddingProvider}
+ */
+class TransformersEmbeddingProvider {
+  /**
+   * @param {Partial<EmbeddingConfig>} [config]
+   */
+  constructor(config = {}) {
+    /** @type {EmbeddingConfig} */
+    this.config = { ...DEFAULT_CONFIG, provider: 'transformers', model: DEFAULT_MODELS.transformers, ...config };
+    /** @type {EmbeddingProviderName} */
+    this.provider = 'transformers';
+    this.model = this.config.model;
+    /** @type {Promise<any> | null} */
+    this.extractor = null;
+  }
+
+  /**
+   * The package is an optional dependency (it ships native ONNX binaries)
+   * @returns {boolean}
+   */
+  isAvailable() {
+    try {
+      require.resolve('@huggingface/transformers');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * @param {string[]} texts
+   * @returns {Promise<number[][]>}
+   */
+  async embed(texts) {
+    if (!this.isAvailable()) {
+      throw new Error('transformers embedding provider needs the optional @huggingface/transformers package');
+    }
+
+    const extractor = await this.getExtractor();
+    /** @type {number[][]} */
+    const vectors = [];
+    for (const batch of batches(texts, this.config.batchSize)) {
+      const output = await extractor(batch, { pooling: 'mean', normalize: true });
+      vectors.push(...output.tolist());
+    }
+    return vectors;
+  }
+
+  /**
+   * Loading the model takes a few seconds, so concurrent callers share one load
+   * @returns {Promise<any>}
+   */
+  getExtractor() {
+    if (!this.extractor) {
+      const { pipeline, env } = require('@huggingface/transformers');
+      if (this.config.cacheDir) {
+        env.cacheDir = path.resolve(this.config.cacheDir);
+      }
+      this.extractor = pipeline('feature-extraction', this.model);
+      // Let a failed download be retried on the next call
+      this.extractor.catch(() => { this.extractor = null; });
+    }
+    return /** @type {Promise<any>} */ (this.extractor);
+  }
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'is', 'it',
+  'its', 'of', 'on', 'or', 'that', 'the', 'their', 'this', 'to', 'we', 'with', 'our', 'must', 'all'
+]);
+
+/**
+ * Feature hashing over words and their character 4-grams. Needs no model
+ * and no network, so it backs tests and deployments without a model. It only
+ * sees shared words and word parts ("employer" ~ "employment"), not synonyms.
+ * @implements {EmbeddingProvider}
+ */
+class HashingEmbeddingProvider {
+  /**
+   * @param {Partial<EmbeddingConfig>} [config]
+   */
+  constructor(config = {}) {
+    const dimensions = config.dimensions || DEFAULT_HASHING_DIMENSIONS;
+    /** @type {EmbeddingConfig} */
+    this.config = { ...DEFAULT_CONFIG, ...config, provider: 'hashing', model: `${DEFAULT_MODELS.hashing}-${dimensions}`, dimensions };
+    /** @type {EmbeddingProviderName} */
+    this.provider = 'hashing';
+    this.model = this.config.model;
+    this.dimensions = dimensions;
+  }
+
+  /**
+   * @returns {boolean}
+   */
+  isAvailable() {
+    return true;
+  }
+
+  /**
+   * @param {string[]} texts
+   * @returns {Promise<number[][]>}
+   */
+  async embed(texts) {
+    return texts.map(text => this.embedText(text));
+  }
+
+  /**
+   * @param {string} text
+   * @returns {number[]}
+   */
+  embedText(text) {
+    const vector = new Array(this.dimensions).fill(0);
+    const add = (/** @type {string} */ feature, /** @type {number} */ weight) => {
+      const hash = this.hash(feature);
+      // The top bit picks the sign so collisions cancel out instead of piling up
+      vector[hash % this.dimensions] += hash & 0x80000000 ? -weight : weight;
+    };
+
+    this.words(text).forEach(word => {
+      add(`w:${word}`, 1);
+      const padded = `^${word}$`;
+      for (let i = 0; i + 4 <= padded.length; i++) {
+        add(`c:${padded.slice(i, i + 4)}`, 0.25);
+      }
+    });
+    return normalize(vector);
+  }
+
+  /**
+   * Lowercased words without stop words, plural "s" folded
+   * @param {string} text
+   * @returns {string[]}
+   */
+  words(text) {
+    return String(text || '').toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+      .map(word => word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word);
+  }
+
+  /**
+   * FNV-1a, unsigned 32-bit
+   * @param {string} value
+   * @returns {number}
+   */
+  hash(value) {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
+
+/**
+ * Embedding settings from the environment:
+ * EMBEDDING_PROVIDER (openai|local|transformers|hashing), EMBEDDING_MODEL,
+ * EMBEDDING_DIMENSIONS, EMBEDDING_BATCH_SIZE, EMBEDDING_TIMEOUT_MS,
+ * EMBEDDING_API_KEY (falls back to OPENAI_API_KEY), EMBEDDING_BASE_URL and EMBEDDING_CACHE_DIR
+ * @returns {EmbeddingConfig}
+ */
+function getEmbeddingConfig() {
+  const provider = /** @type {EmbeddingProviderName} */ ((process.env.EMBEDDING_PROVIDER || 'transformers').toLowerCase());
+  if (!PROVIDERS.includes(provider)) {
+    throw new Error(`Unknown EMBEDDING_PROVIDER "${provider}". Expected one of: ${PROVIDERS.join(', ')}.`);
+  }
+
+  return {
+    provider,
+    model: process.env.EMBEDDING_MODEL || DEFAULT_MODELS[provider],
+    dimensions: parseInt(process.env.EMBEDDING_DIMENSIONS || '', 10) || undefined,
+    batchSize: parseInt(process.env.EMBEDDING_BATCH_SIZE || '', 10) || DEFAULT_CONFIG.batchSize,
+    timeoutMs: parseInt(process.env.EMBEDDING_TIMEOUT_MS || '', 10) || DEFAULT_CONFIG.timeoutMs,
+    apiKey: process.env.EMBEDDING_API_KEY || process.env.OPENAI_API_KEY,
+    baseUrl: process.env.EMBEDDING_BASE_URL,
+    cacheDir: process.env.EMBEDDING_CACHE_DIR
+  };
+}
+
+/**
+ * Create the embedding provider selected by EMBEDDING_PROVIDER.
+ * Explicit overrides win over the environment; undefined values are ignored.
+ * @param {Partial<EmbeddingConfig>} [overrides]
+ * @returns {EmbeddingProvider}
+ */
+function createEmbeddingProvider(overrides = {}) {
+  const defined = Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined));
+  const environment = getEmbeddingConfig();
+  /** @type {EmbeddingConfig} */
+  const config = { ...environment, ...defined };
+  // A provider override without a model gets that provider's default model
+  if (defined.provider && !defined.model && !process.env.EMBEDDING_MODEL) {
+    config.model = DEFAULT_MODELS[config.provider];
+  }
+
+  if (config.provider === 'hashing') {
+    return new HashingEmbeddingProvider(config);
+  }
+  if (config.provider === 'transformers') {
+    return new TransformersEmbeddingProvider(config);
+  }
+  if (config.provider === 'local') {
+    // Never send the OpenAI key to a self-hosted endpoint
+    return new LocalEmbeddingProvider({ ...config, apiKey: process.env.EMBEDDING_API_KEY });
+  }
+  return new OpenAIEmbeddingProvider(config);
+}
+
+module.exports = {
+  OpenAIEmbeddingProvider,
+  LocalEmbeddingProvider,
+  TransformersEmbeddingProvider,
+  HashingEmbeddingProvider,
+  createEmbeddingProvider,
+  getEmbeddingConfig,
+  cosineSimilarity
+};
@@ -0,0 +1,78 @@
+/**
+ * @typedef {import('http').ServerResponse} Response
+ */
+
+// Comment lines keep proxies (Railway, nginx) from closing an idle stream
+const HEARTBEAT_MS = 15000;
+
+/**
+ * Server-Sent Events over an Express response: `send(event, data)` writes one
+ * named event with a JSON payload. Once the client disconnects, sends become
+ * no-ops, `closed` is true and `signal` is aborted, so long-running work can
+ * stop early.
+ */
+class EventStream {
+  /**
+   * @param {Response} res
+   * @param {{ heartbeatMs?: number }} [options]
+   */
+  constructor(res, options = {}) {
+    this.res = res;
+    this.closed = false;
+    this.controller = new AbortController();
+    this.signal = this.controller.signal;
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no' // Disable nginx response buffering
+    });
+    res.write(': connected\n\n');
+
+    this.heartbeat = setInterval(() => {
+      if (!this.closed) res.write(': heartbeat\n\n');
+    }, options.heartbeatMs || HEARTBEAT_MS);
+
+    res.on('close', () => {
+      const disconnected = !this.closed;
+      this.closed = true;
+      clearInterval(this.heartbeat);
+      if (disconnected) this.controller.abort(new Error('Client disconnected'));
+    });
+  }
+
+  /**
+   * @param {string} event
+   * @param {any} data
+   * @returns {boolean} false if the client has gone
+   */
+  send(event, data) {
+    if (this.closed) return false;
+    this.res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    return true;
+  }
+
+  /**
+   * A real-time search progress update: `progress` for the phase, then `rules`
+   * for the batch of processed rules it carries
+   * @param {{ rules?: any[], [key: string]: any }} progress
+   * @returns {boolean} false if the client has gone
+   */
+  sendSearchProgress(progress) {
+    const { rules, ...phase } = progress;
+    const sent = this.send('progress', phase);
+    if (rules && rules.length > 0) this.send('rules', { rules });
+    return sent;
+  }
+
+  end() {
+    clearInterval(this.heartbeat);
+    if (!this.closed) {
+      this.closed = true;
+      this.res.end();
+    }
+  }
+}
+
+module.exports = { EventStream };
@@ -0,0 +1,63 @@
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+// Evidence ids are generated by TaskTracker (uuid); anything else is rejected
+// so a request can't read outside the evidence directory
+const EVIDENCE_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Stores uploaded task evidence (receipts, certificates, filed forms) as files
+ * on local disk, named by evidence id. Metadata (file name, type, hash) lives
+ * on the task itself.
+ */
+class EvidenceStore {
+  /**
+   * @param {string} directory
+   * @param {number} [maxBytes] Largest accepted upload
+   */
+  constructor(directory, maxBytes = 10 * 1024 * 1024) {
+    this.directory = path.resolve(directory);
+    this.maxBytes = maxBytes;
+  }
+
+  /**
+   * @param {string} evidenceId
+   * @param {Buffer} content
+   * @returns {{ size_bytes: number, sha256: string }}
+   */
+  save(evidenceId, content) {
+    if (content.length > this.maxBytes) {
+      throw new Error(`Evidence file is larger than ${this.maxBytes} bytes`);
+    }
+
+    fs.mkdirSync(this.directory, { recursive: true });
+    fs.writeFileSync(this.filePath(evidenceId), content);
+    return {
+      size_bytes: content.length,
+      sha256: crypto.createHash('sha256').update(content).digest('hex')
+    };
+  }
+
+  /**
+   * @param {string} evidenceId
+   * @returns {Buffer | null}
+   */
+  read(evidenceId) {
+    const filePath = this.filePath(evidenceId);
+    return fs.existsSync(filePath) ? fs.readFileSync(filePath) : null;
+  }
+
+  /**
+   * @param {string} evidenceId
+   * @returns {string}
+   */
+  filePath(evidenceId) {
+    if (!EVIDENCE_ID_PATTERN.test(evidenceId)) {
+      throw new Error(`Invalid evidence id: ${evidenceId}`);
+    }
+    return path.join(this.directory, evidenceId);
+  }
+}
+
+module.exports = { EvidenceStore };
@@ -0,0 +1,581 @@
+const admin = require('firebase-admin');
+const { RuleMatcher } = require('./RuleMatcher');
+const { RuleHistory } = require('./RuleHistory');
+const { indexSourceRule } = require('./RuleDeduplicator');
+
+/**
+ * @typedef {import('../types/ComplianceRule').ComplianceRule} ComplianceRule
+ * @typedef {import('../types/ComplianceRule').BusinessProfile} BusinessProfile
+ * @typedef {import('../types/RuleRevision').RuleRevision} RuleRevision
+ * @typedef {import('../types/SourceVerification').VerificationRun} VerificationRun
+ * @typedef {import('../types/ComplianceTask').ComplianceTask} ComplianceTask
+ * @typedef {import('../types/ComplianceAnalysis').ComplianceAnalysis} ComplianceAnalysis
+ * @typedef {import('../types/RuleDeduplication').RuleDeduplicationEntry} RuleDeduplicationEntry
+ * @typedef {import('../types/Embedding').RuleEmbedding} RuleEmbedding
+ */
+
+// Active rules are read in pages of this size when matching
+const MATCH_PAGE_SIZE = 500;
+
+// gRPC status of a create() on a document that already exists
+const ALREADY_EXISTS = 6;
+
+/**
+ * The last of each rule id, in order; rules without an id are all kept
+ * @param {ComplianceRule[]} rules
+ * @returns {ComplianceRule[]}
+ */
+function latestById(rules) {
+  const latest = new Map(rules.map((rule, index) => [rule.id || index, rule]));
+  return rules.filter((rule, index) => latest.get(rule.id || index) === rule);
+}
+
+// Model names contain "/" (e.g. Xenova/all-MiniLM-L6-v2), which Firestore ids can't
+const embeddingDocId = (/** @type {string} */ ruleId, /** @type {string} */ model) =>
+  `${ruleId}__${model.replace(/[^\w.-]/g, '_')}`;
+
+/**
+ * Firestore storage backend. The Express server uses it directly; the
+ * TypeScript scripts get it through FirestoreService, which only adds the
+ * Firebase app configured from the environment.
+ */
+class FirestoreRepository {
+  /**
+   * @param {admin.firestore.Firestore} db
+   */
+  constructor(db) {
+    this.db = db;
+    this.matcher = new RuleMatcher();
+    this.history = new RuleHistory();
+  }
+
+  // ==================== COMPLIANCE RULES ====================
+
+  /**
+   * @param {ComplianceRule[]} rules
+   * @returns {Promise<void>}
+   */
+  async storeRules(rules) {
+    console.log(`💾 Storing ${rules.length} rules in Firestore...`);
+
+    // A second write of the same rule in one batch would create the same revision twice
+    const unique = latestById(rules);
+    if (unique.length < rules.length) {
+      console.log(`🔁 Storing the last of ${rules.length - unique.length} duplicate rule ids`);
+    }
+    rules = unique;
+
+    const batchSize = 150; // Three writes per rule, Firestore batch limit is 500
+
+    for (let i = 0; i < rules.length; i += batchSize) {
+      const batch = rules.slice(i, i + batchSize);
+      const firestoreBatch = this.db.batch();
+      const now = new Date().toISOString();
+
+      const ruleRefs = batch.map(rule => rule.id
+        ? this.db.collection('compliance_rules').doc(rule.id)
+        : this.db.collection('compliance_rules').doc());
+      const existingDocs = await this.db.getAll(...ruleRefs);
+      const recorded = await this.hasRevisions(ruleRefs, existingDocs);
+
+      // Rules sharing a canonical id in one batch update the same index entry
+      const canonicalIds = Array.from(new Set(batch.map(rule => rule.canonical_id).filter(Boolean)));
+      const dedupeRefs = canonicalIds.map(canonicalId => this.db.collection('rule_deduplication').doc(canonicalId));
+      const dedupeDocs = dedupeRefs.length > 0 ? await this.db.getAll(...dedupeRefs) : [];
+      /** @type {Map<string, RuleDeduplicationEntry>} */
+      const dedupeEntries = new Map(dedupeDocs.filter(doc => doc.exists).map(doc => [doc.id, doc.data()]));
+
+      for (const [index, rule] of batch.entries()) {
+        const ruleRef = ruleRefs[index];
+        const existingDoc = existingDocs[index];
+        const existing = existingDoc.exists ? this.normalizeTimestamps(existingDoc.data()) : null;
+
+        // Append a revision whenever the rule content changes
+        const { rule: stored, revision, baseline } = this.history.prepare(existing, { ...rule, id: ruleRef.id }, now, recorded[index]);
+        firestoreBatch.set(ruleRef, stored);
+        if (baseline) {
+          firestoreBatch.create(ruleRef.collection('revisions').doc(this.history.revisionId(baseline.version)), baseline);
+        }
+        if (revision) {
+          firestoreBatch.create(ruleRef.collection('revisions').doc(this.history.revisionId(revision.version)), revision);
+        }
+
+        // Update deduplication index
+        if (rule.canonical_id) {
+          dedupeEntries.set(rule.canonical_id, indexSourceRule(dedupeEntries.get(rule.canonical_id), rule, ruleRef.id, now));
+        }
+      }
+
+      dedupeRefs.forEach(dedupeRef => {
+        const entry = dedupeEntries.get(dedupeRef.id);
+        if (entry) firestoreBatch.set(dedupeRef, entry);
+      });
+
+      try {
+        await firestoreBatch.commit();
+      } catch (error) {
+        if (error.code !== ALREADY_EXISTS) throw error;
+
+        // Another writer added a revision since the rules were read; store the
+        // batch one rule at a time so only the conflicting rule is redone
+        console.warn(`⚠️ Revision conflict in batch ${Math.floor(i/batchSize) + 1} - storing its rules one by one`);
+        await this.storeRulesOneByOne(batch.map((rule, index) => ({ ...rule, id: ruleRefs[index].id })), now);
+      }
+      console.log(`✅ Stored batch ${Math.floor(i/batchSize) + 1}/${Math.ceil(rules.length/batchSize)}`);
+    }
+
+    console.log(`✅ Successfully stored ${rules.length} rules in Firestore`);
+  }
+
+  /**
+   * Store each rule, its revision and its deduplication entry in a transaction
+   * of its own, which re-reads the rule's current version. Every rule is
+   * attempted; failures are reported together afterwards.
+   * @param {ComplianceRule[]} rules Rules with their ids
+   * @param {string} now
+   */
+  async storeRulesOneByOne(rules, now) {
+    /** @type {string[]} */
+    const failed = [];
+
+    for (const rule of rules) {
+      const ruleRef = this.db.collection('compliance_rules').doc(rule.id);
+      const dedupeRef = rule.canonical_id ? this.db.collection('rule_deduplication').doc(rule.canonical_id) : null;
+
+      try {
+        await this.db.runTransaction(async transaction => {
+          const existingDoc = await transaction.get(ruleRef);
+          const dedupeDoc = dedupeRef ? await transaction.get(dedupeRef) : null;
+          const existing = existingDoc.exists ? this.normalizeTimestamps(existingDoc.data()) : null;
+          const existingRevision = existing
+            ? await transaction.get(ruleRef.collection('revisions').doc(this.history.revisionId(existing.version || 1)))
+            : null;
+
+          const { rule: stored, revision, baseline } = this.history.prepare(existing, rule, now, !existingRevision || existingRevision.exists);
+          transaction.set(ruleRef, stored);
+          if (baseline) {
+            transaction.create(ruleRef.collection('revisions').doc(this.history.revisionId(baseline.version)), baseline);
+          }
+          if (revision) {
+            transaction.create(ruleRef.collection('revisions').doc(this.history.revisionId(revision.version)), revision);
+          }
+          if (dedupeRef && dedupeDoc) {
+            transaction.set(dedupeRef, indexSourceRule(dedupeDoc.exists ? dedupeDoc.data() : undefined, rule, rule.id, now));
+          }
+        });
+      } catch (error) {
+        console.error(`❌ Failed to store rule ${rule.id}:`, error.message);
+        failed.push(rule.id);
+      }
+    }
+
+    if (failed.length > 0) {
+      throw new Error(`Failed to store ${failed.length} rules: ${failed.join(', ')}`);
+    }
+  }
+
+  /**
+   * Whether each stored rule has a revision of its current version; rules
+   * stored before revisions were recorded don't. New rules count as recorded.
+   * @param {admin.firestore.DocumentReference[]} ruleRefs
+   * @param {admin.firestore.DocumentSnapshot[]} ruleDocs
+   * @returns {Promise<boolean[]>}
+   */
+  async hasRevisions(ruleRefs, ruleDocs) {
+    const revisionRefs = ruleDocs.map((doc, index) => doc.exists
+      ? ruleRefs[index].collection('revisions').doc(this.history.revisionId(doc.get('version') || 1))
+      : null);
+    const existingRefs = revisionRefs.filter(ref => ref !== null);
+    const revisionDocs = existingRefs.length > 0 ? await this.db.getAll(...existingRefs) : [];
+    const recorded = new Set(revisionDocs.filter(doc => doc.exists).map(doc => doc.ref.path));
+    return revisionRefs.map(ref => !ref || recorded.has(ref.path));
+  }
+
+  /**
+   * @param {number} [limit]
+   * @returns {Promise<ComplianceRule[]>}
+   */
+  async getRules(limit = 10) {
+    const snapshot = await this.db
+      .collection('compliance_rules')
+      .where('status', '==', 'active')
+      .limit(limit)
+      .get();
+
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+  }
+
+  /**
+   * @param {number} [limit]
+   * @returns {Promise<ComplianceRule[]>}
+   */
+  async getRecentRules(limit = 20) {
+    const snapshot = await this.db
+      .collection('compliance_rules')
+      .orderBy('created_at', 'desc')
+      .limit(limit)
+      .get();
+
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+  }
+
+  /**
+   * Needs the (status, last_verified) index in firestore.indexes.json
+   * @param {number} [limit]
+   * @returns {Promise<ComplianceRule[]>}
+   */
+  async getRulesForVerification(limit = 100) {
+    const snapshot = await this.db
+      .collection('compliance_rules')
+      .where('status', '==', 'active')
+      .orderBy('last_verified', 'asc')
+      .limit(limit)
+      .get();
+
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+  }
+
+  /**
+   * @param {string} ruleId
+   * @returns {Promise<ComplianceRule | null>}
+   */
+  async getRuleById(ruleId) {
+    const doc = await this.db.collection('compliance_rules').doc(ruleId).get();
+    return doc.exists ? { id: doc.id, ...doc.data() } : null;
+  }
+
+  /**
+   * @param {string} businessType
+   * @param {string} state
+   * @param {number} [limit]
+   * @returns {Promise<ComplianceRule[]>}
+   */
+  async searchRules(businessType, state, limit = 20) {
+    const snapshot = await this.db
+      .collection('compliance_rules')
+      .where('applicability_criteria.business_types', 'array-contains', businessType)
+      .where('status', '==', 'active')
+      .limit(limit * 2)
+      .get();
+
+    const filteredRules = snapshot.docs
+      .map(doc => /** @type {ComplianceRule} */ ({ id: doc.id, ...doc.data() }))
+      .filter(rule =>
+        rule.applicability_criteria?.states?.includes(state) ||
+        rule.applicability_criteria?.states?.includes('ALL')
+      );
+
+    return this.matcher.sortRulesByPriority(filteredRules).slice(0, limit);
+  }
+
+  /**
+   * @param {BusinessProfile} businessProfile
+   * @returns {Promise<ComplianceRule[]>}
+   */
+  async getMatchingRules(businessProfile) {
+    console.log('🔍 Searching for matching rules...');
+
+    const candidates = await this.getActiveRules();
+    const matchingRules = this.matcher.match(candidates, businessProfile);
+
+    console.log(`✅ Found ${matchingRules.length} matching rules out of ${candidates.length} active rules`);
+    return matchingRules;
+  }
+
+  /**
+   * @param {BusinessProfile} businessProfile
+   * @returns {Promise<import('../types/RuleMatch').RuleMatchResult[]>}
+   */
+  async explainMatches(businessProfile) {
+    const candidates = await this.getActiveRules();
+    return this.matcher.evaluateAll(candidates, businessProfile);
+  }
+
+  /**
+   * Every active rule, paged by document id. RuleMatcher filters client-side because
+   * Firestore can't express the criteria (multiple array-contains, ranges, exclusions)
+   * in one query, so it needs the full candidate set.
+   * @returns {Promise<ComplianceRule[]>}
+   */
+  async getActiveRules() {
+    /** @type {ComplianceRule[]} */
+    const rules = [];
+    /** @type {admin.firestore.QueryDocumentSnapshot | undefined} */
+    let lastDoc;
+
+    do {
+      let query = this.db
+        .collection('compliance_rules')
+        .where('status', '==', 'active')
+        .orderBy(admin.firestore.FieldPath.documentId())
+        .limit(MATCH_PAGE_SIZE);
+      if (lastDoc) query = query.startAfter(lastDoc);
+
+      const snapshot = await query.get();
+      rules.push(...snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })));
+      lastDoc = snapshot.docs.length === MATCH_PAGE_SIZE ? snapshot.docs[snapshot.docs.length - 1] : undefined;
+    } while (lastDoc);
+
+    return rules;
+  }
+
+  /**
+   * @param {string} ruleId
+   * @returns {Promise<RuleRevision[]>}
+   */
+  async getRuleHistory(ruleId) {
+    const snapshot = await this.db
+      .collection('compliance_rules')
+      .doc(ruleId)
+      .collection('revisions')
+      .orderBy('version', 'asc')
+      .get();
+
+    return snapshot.docs.map(doc => doc.data());
+  }
+
+  /**
+   * @param {string} canonicalId
+   * @returns {Promise<boolean>}
+   */
+  async hasCanonicalId(canonicalId) {
+    const dedupeDoc = await this.db.collection('rule_deduplication').doc(canonicalId).get();
+    return dedupeDoc.exists;
+  }
+
+  /**
+   * @param {string} canonicalId
+   * @returns {Promise<RuleDeduplicationEntry | null>}
+   */
+  async getDeduplication(canonicalId) {
+    const dedupeDoc = await this.db.collection('rule_deduplication').doc(canonicalId).get();
+    return dedupeDoc.exists ? dedupeDoc.data() : null;
+  }
+
+  /**
+   * @param {RuleDeduplicationEntry[]} entries
+   * @returns {Promise<void>}
+   */
+  async storeDeduplication(entries) {
+    for (let i = 0; i < entries.length; i += 500) {
+      const batch = this.db.batch();
+      entries.slice(i, i + 500).forEach(entry => {
+        batch.set(this.db.collection('rule_deduplication').doc(entry.canonical_id), entry);
+      });
+      await batch.commit();
+    }
+  }
+
+  /**
+   * @param {string[]} ruleIds
+   * @param {string} model
+   * @returns {Promise<RuleEmbedding[]>}
+   */
+  async getRuleEmbeddings(ruleIds, model) {
+    if (ruleIds.length === 0) return [];
+    const refs = ruleIds.map(ruleId => this.db.collection('rule_embeddings').doc(embeddingDocId(ruleId, model)));
+    const docs = await this.db.getAll(...refs);
+    return docs.filter(doc => doc.exists).map(doc => /** @type {RuleEmbedding} */ (doc.data()));
+  }
+
+  /**
+   * @param {RuleEmbedding[]} embeddings
+   * @returns {Promise<void>}
+   */
+  async storeRuleEmbeddings(embeddings) {
+    for (let i = 0; i < embeddings.length; i += 500) {
+      const batch = this.db.batch();
+      embeddings.slice(i, i + 500).forEach(embedding => {
+        batch.set(this.db.collection('rule_embeddings').doc(embeddingDocId(embedding.rule_id, embedding.model)), embedding);
+      });
+      await batch.commit();
+    }
+  }
+
+  // ==================== BUSINESS PROFILES ====================
+
+  /**
+   * @param {BusinessProfile} profile
+   * @returns {Promise<void>}
+   */
+  async storeBusinessProfile(profile) {
+    const profileRef = this.db.collection('business_profiles').doc(profile.session_id);
+    await profileRef.set({
+      ...profile,
+      created_at: admin.firestore.FieldValue.serverTimestamp(),
+      updated_at: admin.firestore.FieldValue.serverTimestamp()
+    });
+
+    console.log(`✅ Stored business profile: ${profile.business_name}`);
+  }
+
+  /**
+   * @param {string} sessionId
+   * @returns {Promise<BusinessProfile | null>}
+   */
+  async getBusinessProfile(sessionId) {
+    const doc = await this.db.collection('business_profiles').doc(sessionId).get();
+    return doc.exists ? doc.data() : null;
+  }
+
+  // ==================== SOURCE VERIFICATION RUNS ====================
+
+  /**
+   * @param {VerificationRun} run
+   * @returns {Promise<void>}
+   */
+  async storeVerificationRun(run) {
+    await this.db.collection('source_verification_runs').doc(run.run_id).set(run);
+  }
+
+  /**
+   * @param {number} [limit]
+   * @returns {Promise<VerificationRun[]>}
+   */
+  async getVerificationRuns(limit = 20) {
+    const snapshot = await this.db
+      .collection('source_verification_runs')
+      .orderBy('started_at', 'desc')
+      .limit(limit)
+      .get();
+
+    return snapshot.docs.map(doc => doc.data());
+  }
+
+  /**
+   * @param {string} runId
+   * @returns {Promise<VerificationRun | null>}
+   */
+  async getVerificationRun(runId) {
+    const doc = await this.db.collection('source_verification_runs').doc(runId).get();
+    return doc.exists ? doc.data() : null;
+  }
+
+  // ==================== COMPLIANCE TASKS ====================
+
+  /**
+   * @param {ComplianceTask[]} tasks
+   * @returns {Promise<void>}
+   */
+  async storeTasks(tasks) {
+    const batchSize = 500;
+
+    for (let i = 0; i < tasks.length; i += batchSize) {
+      const firestoreBatch = this.db.batch();
+      tasks.slice(i, i + batchSize).forEach(task => {
+        firestoreBatch.set(this.db.collection('compliance_tasks').doc(task.task_id), task);
+      });
+      await firestoreBatch.commit();
+    }
+  }
+
+  /**
+   * @param {string} sessionId
+   * @returns {Promise<ComplianceTask[]>}
+   */
+  async getTasks(sessionId) {
+    const snapshot = await this.db
+      .collection('compliance_tasks')
+      .where('session_id', '==', sessionId)
+      .get();
+
+    return snapshot.docs.map(doc => doc.data());
+  }
+
+  /**
+   * @param {string} taskId
+   * @returns {Promise<ComplianceTask | null>}
+   */
+  async getTask(taskId) {
+    const doc = await this.db.collection('compliance_tasks').doc(taskId).get();
+    return doc.exists ? doc.data() : null;
+  }
+
+  // ==================== ANALYSES ====================
+
+  /**
+   * @param {ComplianceAnalysis} analysis
+   * @returns {Promise<void>}
+   */
+  async storeAnalysis(analysis) {
+    await this.db.collection('analyses').doc(analysis.analysis_id).set(analysis);
+  }
+
+  /**
+   * @param {string} sessionId
+   * @param {number} [limit]
+   * @returns {Promise<ComplianceAnalysis[]>}
+   */
+  async getAnalyses(sessionId, limit = 20) {
+    const snapshot = await this.db
+      .collection('analyses')
+      .where('session_id', '==', sessionId)
+      .orderBy('created_at', 'desc')
+      .limit(limit)
+      .get();
+
+    return snapshot.docs.map(doc => doc.data());
+  }
+
+  /**
+   * @param {string} analysisId
+   * @returns {Promise<ComplianceAnalysis | null>}
+   */
+  async getAnalysis(analysisId) {
+    const doc = await this.db.collection('analyses').doc(analysisId).get();
+    return doc.exists ? doc.data() : null;
+  }
+
+  // ==================== UTILITY METHODS ====================
+
+  /**
+   * Convert Firestore Timestamps (from older serverTimestamp writes) to ISO strings
+   * @param {any} data
+   * @returns {any}
+   */
+  normalizeTimestamps(data) {
+    const normalized = { ...data };
+    for (const field of ['created_at', 'updated_at']) {
+      if (normalized[field] && typeof normalized[field].toDate === 'function') {
+        normalized[field] = normalized[field].toDate().toISOString();
+      }
+    }
+    return normalized;
+  }
+
+  /**
+   * @returns {Promise<void>}
+   */
+  async clearTestData() {
+    console.log('🧹 Clearing test data...');
+
+    // Clear compliance rules, including their revision subcollections
+    await this.db.recursiveDelete(this.db.collection('compliance_rules'));
+
+    for (const collection of ['rule_deduplication', 'rule_embeddings', 'business_profiles', 'compliance_tasks', 'analyses']) {
+      const snapshot = await this.db.collection(collection).get();
+      const batch = this.db.batch();
+      snapshot.docs.forEach(doc => batch.delete(doc.ref));
+      await batch.commit();
+    }
+
+    console.log('✅ Test data cleared successfully');
+  }
+
+  /**
+   * @returns {Promise<{[key: string]: number}>}
+   */
+  async getCollectionStats() {
+    /** @type {{[key: string]: number}} */
+    const stats = {};
+
+    for (const collection of ['compliance_rules', 'business_profiles', 'rule_deduplication', 'rule_embeddings', 'source_verification_runs', 'compliance_tasks', 'analyses']) {
+      const snapshot = await this.db.collection(collection).count().get();
+      stats[collection] = snapshot.data().count;
+    }
+
+    return stats;
+  }
+}
+
+module.exports = { FirestoreRepository };
@@ -1,13 +1,18 @@
-const axios = require('axios');
 const cheerio = require('cheerio');
 const crypto = require('crypto');
 const { v4: uuidv4 } = require('uuid');
+const { createLlmClient } = require('./LlmClient');
+const { getRateLimiter } = require('./RateLimiter');
 
 class GovernmentScraper {
-  constructor(openaiApiKey, firestoreService, regulationsApiKey) {
+  constructor(openaiApiKey, firestoreService, regulationsApiKey, llm = createLlmClient({ apiKey: openaiApiKey })) {
     this.openaiApiKey = openaiApiKey;
+    this.llm = llm;
     this.firestoreService = firestoreService;
     this.regulationsApiKey = regulationsApiKey;
+
+    // Requests are paced per host by the shared rate limiter (see RateLimiter.js)
+    this.http = getRateLimiter();
     
     // Government websites to scrape
     this.scrapingTargets = [
@@ -20,8 +25,7 @@ class GovernmentScraper {
           ruleLinks: 'a[href*="/business-guide/"], a[href*="/starting-business/"], a[href*="/managing-business/"]',
           title: 'h1, .page-title, .hero-title',
           content: '.content, .main-content, article, .field-items'
-        },
-        rateLimit: 2000
+        }
       },
       {
         name: 'IRS Business Tax Requirements',
@@ -32,8 +36,7 @@ class GovernmentScraper {
           ruleLinks: 'a[href*="/businesses/"], a[href*="/forms-pubs/"]',
           title: 'h1, .page-title',
           content: '.content, .field-items, .main-content'
-        },
-        rateLimit: 3000
+        }
       }
     ];
   }
@@ -241,7 +244,7 @@ class GovernmentScraper {
 
     for (let page = 1; page <= maxPages; page++) {
       try {
-        const response = await axios.get('https://api.regulations.gov/v4/documents', {
+        const response = await this.http.get('https://api.regulations.gov/v4/documents', {
           params: {
             'filter[searchTerm]': term,
             'filter[documentType]': 'Rule',
@@ -295,10 +298,6 @@ class GovernmentScraper {
           result.exhausted = true;
           break;
         }
-
-        // Rate limiting - respect API limits
-        await this.sleep(250); // 4 requests per second max
-
       } catch (error) {
         console.error(`❌ Error on page ${page} for "${term}":`, error.message);
         break;
@@ -357,7 +356,7 @@ class GovernmentScraper {
         const pages = Math.ceil(rulesPerTerm / 20); // 20 results per page max
 
         for (let page = 1; page <= pages && rawRules.length < targetCount; page++) {
-          const response = await axios.get('https://api.regulations.gov/v4/documents', {
+          const response = await this.http.get('https://api.regulations.gov/v4/documents', {
             params: {
               'filter[searchTerm]': term,
               'filter[documentType]': 'Rule',
@@ -391,9 +390,6 @@ class GovernmentScraper {
 
             rawRules.push(rawRule);
           }
-
-          // Rate limiting - respect API limits
-          await this.sleep(250); // 4 requests per second max
         }
 
       } catch (error) {
@@ -440,7 +436,7 @@ class GovernmentScraper {
         stats.endpointsChecked++;
 
         try {
-          const response = await axios.get(url, {
+          const response = await this.http.get(url, {
             timeout: 10000,
             headers: {
               'User-Agent': 'Mozilla/5.0 (compatible; ComplianceBot/1.0)'
@@ -463,8 +459,6 @@ class GovernmentScraper {
           rawRules.push(rawRule);
           console.log(`✅ Collected: ${rawRule.title}`);
 
-          await this.sleep(1000);
-
         } catch (error) {
           console.log(`⚠️ Could not access ${url}: ${error.message}`);
         }
@@ -504,7 +498,7 @@ class GovernmentScraper {
 
       for (const url of sbaEndpoints) {
         try {
-          const response = await axios.get(url, {
+          const response = await this.http.get(url, {
             timeout: 10000,
             headers: {
               'User-Agent': 'Mozilla/5.0 (compatible; ComplianceBot/1.0)'
@@ -523,8 +517,6 @@ class GovernmentScraper {
           };
 
           rawRules.push(rawRule);
-          await this.sleep(1000);
-
         } catch (error) {
           console.log(`⚠️ Could not access ${url}: ${error.message}`);
         }
@@ -556,7 +548,7 @@ class GovernmentScraper {
         try {
           console.log(`🔍 Checking: ${startPage}`);
           
-          const response = await axios.get(startPage, {
+          const response = await this.http.get(startPage, {
             timeout: 10000,
             headers: {
               'User-Agent': 'Mozilla/5.0 (compatible; ComplianceBot/1.0; +https://complianceai.com/bot)'
@@ -591,9 +583,6 @@ class GovernmentScraper {
           console.log(`⚠️ Could not access ${startPage}: ${error.message}`);
         }
         
-        // Rate limiting
-        await this.sleep(target.rateLimit);
-        
         if (urls.size >= maxUrls) break;
       }
       
@@ -640,7 +629,7 @@ class GovernmentScraper {
       try {
         console.log(`📄 Scraping: ${url}`);
         
-        const response = await axios.get(url, {
+        const response = await this.http.get(url, {
           timeout: 15000,
           headers: {
             'User-Agent': 'Mozilla/5.0 (compatible; ComplianceBot/1.0; +https://complianceai.com/bot)'
@@ -672,9 +661,6 @@ class GovernmentScraper {
       } catch (error) {
         console.log(`⚠️ Error scraping ${url}: ${error.message}`);
       }
-      
-      // Rate limiting
-      await this.sleep(target.rateLimit);
     }
     
     return rules;
@@ -805,14 +791,11 @@ class GovernmentScraper {
    */
   async categorizeRuleWithAI(rawRule) {
     try {
-      if (!this.openaiApiKey) {
+      if (!this.llm.isAvailable()) {
         // Fallback to basic categorization without AI
         return this.basicCategorization(rawRule);
       }
 
-      const OpenAI = require('openai');
-      const openai = new OpenAI({ apiKey: this.openaiApiKey });
-
       const prompt = `
 Analyze this government compliance rule and categorize it for business matching.
 
@@ -849,14 +832,9 @@ Authority: ${rawRule.authority}
 
 Only return the JSON object, no other text.`;
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-5-nano",
-        messages: [{ role: "user", content: prompt }],
-        max_completion_tokens: 50000,
-        temperature: 0.3
-      });
+      const response = await this.llm.complete([{ role: 'user', content: prompt }], { temperature: 0.3 });
 
-      const content = response.choices[0]?.message?.content?.trim();
+      const content = response.content.trim();
       if (!content) {
         return this.basicCategorization(rawRule);
       }
@@ -975,21 +953,15 @@ Only return the JSON object, no other text.`;
    */
   async checkForExistingRule(canonicalId) {
     try {
-      // This would need to be implemented with your Firestore service
-      // For now, return false to allow all rules
-      return false;
+      if (!this.firestoreService?.hasCanonicalId) {
+        return false;
+      }
+      return await this.firestoreService.hasCanonicalId(canonicalId);
     } catch (error) {
       console.error('Error checking for existing rule:', error);
       return false;
     }
   }
-
-  /**
-   * Utility method for rate limiting
-   */
-  sleep(ms) {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
 }
 
 module.exports = { GovernmentScraper };
@@ -1,8 +1,9 @@
-import axios from 'axios';
 import * as cheerio from 'cheerio';
 import { ComplianceRule } from '../types/ComplianceRule';
-import { FirestoreService } from './FirestoreService';
+import { ComplianceRepository } from '../types/Repository';
+import { createRepository } from '../config/storage';
 import { AIRuleGenerator } from './AIRuleGenerator';
+import { RateLimiter, getRateLimiter } from './RateLimiter';
 import crypto from 'crypto';
 
 interface ScrapingTarget {
@@ -16,7 +17,6 @@ interface ScrapingTarget {
     content: string;
     description?: string;
   };
-  rateLimit: number; // milliseconds between requests
 }
 
 interface RawScrapedRule {
@@ -30,8 +30,9 @@ interface RawScrapedRule {
 }
 
 export class GovernmentScraper {
-  private firestoreService: FirestoreService;
+  private repository: ComplianceRepository;
   private aiGenerator: AIRuleGenerator;
+  private http: RateLimiter = getRateLimiter();
   
   // Government websites to scrape
   private scrapingTargets: ScrapingTarget[] = [
@@ -44,8 +45,7 @@ export class GovernmentScraper {
         ruleLinks: 'a[href*="/business-guide/"]',
         title: 'h1, .page-title',
         content: '.content, .main-content, article'
-      },
-      rateLimit: 2000
+      }
     },
     {
       name: 'IRS Business Tax Requirements',
@@ -56,8 +56,7 @@ export class GovernmentScraper {
         ruleLinks: 'a[href*="/businesses/"]',
         title: 'h1, .page-title',
         content: '.content, .field-items'
-      },
-      rateLimit: 3000
+      }
     },
     {
       name: 'DOL Employment Laws',
@@ -68,13 +67,12 @@ export class GovernmentScraper {
         ruleLinks: 'a[href*="/compliance/"]',
         title: 'h1, .page-title',
         content: '.content, .main-content'
-      },
-      rateLimit: 2500
+      }
     }
   ];
 
-  constructor(openaiApiKey: string) {
-    this.firestoreService = new FirestoreService();
+  constructor(openaiApiKey: string, repository: ComplianceRepository = createRepository()) {
+    this.repository = repository;
     this.aiGenerator = new AIRuleGenerator(openaiApiKey);
   }
 
@@ -100,9 +98,9 @@ export class GovernmentScraper {
         const processedRules = await this.processAndDeduplicateRules(rawRules);
         console.log(`✨ Processed ${processedRules.length} new unique rules`);
         
-        // Step 4: Store in Firebase
+        // Step 4: Store in the configured repository
         if (processedRules.length > 0) {
-          await this.firestoreService.storeRules(processedRules);
+          await this.repository.storeRules(processedRules);
           console.log(`✅ Stored ${processedRules.length} rules from ${target.name}`);
         }
         
@@ -132,7 +130,7 @@ export class GovernmentScraper {
       
       for (const startPage of startingPages) {
         try {
-          const response = await axios.get(startPage, {
+          const response = await this.http.get(startPage, {
             timeout: 10000,
             headers: {
               'User-Agent': 'Mozilla/5.0 (compatible; ComplianceBot/1.0; +https://complianceai.com/bot)'
@@ -164,10 +162,7 @@ export class GovernmentScraper {
         } catch (error) {
           console.log(`⚠️ Could not access ${startPage}: ${error.message}`);
         }
-        
-        // Rate limiting
-        await this.sleep(target.rateLimit);
-        
+
         if (urls.size >= maxUrls) break;
       }
       
@@ -207,7 +202,7 @@ export class GovernmentScraper {
       try {
         console.log(`📄 Scraping: ${url}`);
         
-        const response = await axios.get(url, {
+        const response = await this.http.get(url, {
           timeout: 15000,
           headers: {
             'User-Agent': 'Mozilla/5.0 (compatible; ComplianceBot/1.0; +https://complianceai.com/bot)'
@@ -244,9 +239,6 @@ export class GovernmentScraper {
       } catch (error) {
         console.log(`⚠️ Error scraping ${url}: ${error.message}`);
       }
-      
-      // Rate limiting
-      await this.sleep(target.rateLimit);
     }
     
     return rules;
@@ -324,22 +316,10 @@ export class GovernmentScraper {
    */
   private async checkForExistingRule(canonicalId: string): Promise<boolean> {
     try {
-      const dedupeDoc = await this.firestoreService.db
-        .collection('rule_deduplication')
-        .doc(canonicalId)
-        .get();
-      
-      return dedupeDoc.exists;
+      return await this.repository.hasCanonicalId(canonicalId);
     } catch (error) {
       console.error('Error checking for existing rule:', error);
       return false;
     }
   }
-
-  /**
-   * Utility method for rate limiting
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
 }
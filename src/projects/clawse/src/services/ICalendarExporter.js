@@ -0,0 +1,312 @@
+const { ComplianceCalendarService } = require('./ComplianceCalendarService');
+
+/**
+ * @typedef {import('../types/ComplianceRule').ComplianceRule} ComplianceRule
+ * @typedef {import('../types/ComplianceRule').BusinessProfile} BusinessProfile
+ * @typedef {import('../types/ComplianceCalendar').DeadlineRecurrence} DeadlineRecurrence
+ */
+
+/**
+ * @typedef {Object} ICalendarOptions
+ * @property {Date} [now] Used for DTSTAMP when a rule has no valid updated_at
+ * @property {number[]} [reminderDays] Days before each due date to remind (default [7])
+ * @property {string} [feedUrl] Public URL of the feed, advertised to calendar apps
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PRODUCT_ID = '-//Clawse//Compliance Calendar//EN';
+const UID_DOMAIN = 'compliance.clawse';
+
+// How often subscribed calendar apps should re-fetch the feed
+const REFRESH_INTERVAL = 'PT12H';
+
+// iCalendar PRIORITY: 1 is highest, 9 lowest
+const ICAL_PRIORITY = { critical: 1, high: 3, medium: 5, low: 9 };
+
+/**
+ * Renders a profile's compliance deadlines as an RFC 5545 calendar.
+ *
+ * Recurring deadlines become one event with an RRULE (one per calendar date
+ * when a text lists several, e.g. quarterly due dates); one-off deadlines
+ * (absolute dates, days after formation or after each hire) become single
+ * events. UIDs only depend on the rule, the deadline and the calendar date,
+ * so re-fetching the feed updates events instead of duplicating them.
+ * Ongoing or unrecognized deadlines have no date and are left out.
+ */
+class ICalendarExporter {
+  /**
+   * @param {ComplianceCalendarService} [calendarService]
+   */
+  constructor(calendarService = new ComplianceCalendarService()) {
+    this.calendar = calendarService;
+  }
+
+  /**
+   * @param {BusinessProfile} profile
+   * @param {ComplianceRule[]} rules Rules that apply to the profile
+   * @param {ICalendarOptions} [options]
+   * @returns {string} text/calendar body with CRLF line endings
+   */
+  buildFeed(profile, rules, options = {}) {
+    const now = options.now || new Date();
+    const reminderDays = options.reminderDays || [7];
+    const { anchors } = this.calendar.getAnchors(profile);
+    const seriesStart = this.getSeriesStart(profile, anchors.formation, now);
+    const calendarName = `${profile.business_name || 'Business'} compliance deadlines`;
+
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      `PRODID:${PRODUCT_ID}`,
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${this.escapeText(calendarName)}`,
+      `X-WR-CALDESC:${this.escapeText(`Filing and renewal deadlines from ${rules.length} matching compliance rules`)}`,
+      `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+      `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`
+    ];
+    if (options.feedUrl) lines.push(`SOURCE;VALUE=URI:${options.feedUrl}`);
+
+    for (const rule of rules) {
+      const stamp = this.parseTimestamp(rule.updated_at) || now;
+      for (const source of this.calendar.getDeadlineSources(rule)) {
+        const recurrence = this.calendar.parser.parse(source.text, source.deadlineType);
+        for (const event of this.getEvents(recurrence, anchors, seriesStart)) {
+          const uid = `${rule.id}-${source.origin}${event.uidSuffix}@${UID_DOMAIN}`;
+          lines.push(...this.renderEvent(rule, source, recurrence, event, uid, stamp, reminderDays));
+        }
+      }
+    }
+
+    lines.push('END:VCALENDAR');
+    return lines.map(line => this.foldLine(line)).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Start date and RRULE of each event a deadline produces
+   * @param {DeadlineRecurrence} recurrence
+   * @param {import('./ComplianceCalendarService').CalendarAnchors} anchors
+   * @param {Date} seriesStart
+   * @returns {{ start: Date, rrule?: string, uidSuffix: string }[]}
+   */
+  getEvents(recurrence, anchors, seriesStart) {
+    if (recurrence.kind !== 'recurring') {
+      // One-off deadlines are listed whenever they fell, past ones included
+      const scheduled = this.calendar.occurrences(recurrence, anchors, new Date(0), this.calendar.makeDate(9999, 12, 31));
+      if ('reason' in scheduled) return [];
+      return scheduled.dates.map(start => ({ start, uidSuffix: `-${this.formatDateValue(start)}` }));
+    }
+
+    if (recurrence.anchor === 'formation' && !anchors.formation) return [];
+
+    // Calendar dates ("April 30, July 31, ...") repeat independently of each other
+    const series = recurrence.anchor === 'calendar' && recurrence.dates?.length
+      ? recurrence.dates.map(date => ({ recurrence: { ...recurrence, dates: [date] }, day: date.day, uidSuffix: `-${this.pad(date.month)}${this.pad(date.day)}` }))
+      : [{ recurrence, day: recurrence.anchor === 'calendar' ? recurrence.day_of_month : undefined, uidSuffix: '' }];
+
+    /** @type {{ start: Date, rrule?: string, uidSuffix: string }[]} */
+    const events = [];
+    for (const item of series) {
+      // The first due date is within one period (interval years at most) of the start
+      const searchEnd = this.calendar.addMonths(seriesStart, 12 * (recurrence.interval + 1));
+      const scheduled = this.calendar.occurrences(item.recurrence, anchors, seriesStart, searchEnd);
+      const start = 'dates' in scheduled ? scheduled.dates.sort((a, b) => a.getTime() - b.getTime())[0] : undefined;
+      if (!start) continue;
+      events.push({
+        start,
+        rrule: this.buildRRule(recurrence, start, item.day || recurrence.day_of_month || start.getUTCDate()),
+        uidSuffix: item.uidSuffix
+      });
+    }
+    return events;
+  }
+
+  /**
+   * @param {DeadlineRecurrence} recurrence
+   * @param {Date} start First due date
+   * @param {number} day Intended day of the month (31 = last day)
+   * @returns {string}
+   */
+  buildRRule(recurrence, start, day) {
+    // Monthly and formation-anchored quarterly/semiannual deadlines repeat by month;
+    // calendar dates were split into yearly series and fiscal deadlines are yearly
+    const monthsBetween = recurrence.anchor === 'fiscal_year_end' || recurrence.dates?.length ? 0
+      : recurrence.frequency === 'monthly' ? 1
+        : recurrence.frequency === 'quarterly' ? 3
+          : recurrence.frequency === 'semiannually' ? 6
+            : 0;
+
+    const parts = monthsBetween > 0
+      ? ['FREQ=MONTHLY', `INTERVAL=${monthsBetween}`]
+      : ['FREQ=YEARLY', `INTERVAL=${recurrence.interval}`, `BYMONTH=${start.getUTCMonth() + 1}`];
+    parts.push(...this.monthDayParts(day));
+    return parts.join(';');
+  }
+
+  /**
+   * BYMONTHDAY for a day that shorter months clamp to their last day, the way
+   * the calendar service does (day 30 is Feb 28/29 and the 30th elsewhere)
+   * @param {number} day
+   * @returns {string[]}
+   */
+  monthDayParts(day) {
+    if (day >= 31) return ['BYMONTHDAY=-1'];
+    if (day <= 28) return [`BYMONTHDAY=${day}`];
+    const candidates = [];
+    for (let candidate = 28; candidate <= day; candidate++) candidates.push(candidate);
+    return [`BYMONTHDAY=${candidates.join(',')}`, 'BYSETPOS=-1'];
+  }
+
+  /**
+   * @param {ComplianceRule} rule
+   * @param {import('./ComplianceCalendarService').DeadlineSource} source
+   * @param {DeadlineRecurrence} recurrence
+   * @param {{ start: Date, rrule?: string }} event
+   * @param {string} uid
+   * @param {Date} stamp
+   * @param {number[]} reminderDays
+   * @returns {string[]}
+   */
+  renderEvent(rule, source, recurrence, event, uid, stamp, reminderDays) {
+    const gracePeriod = rule.deadlines?.grace_period;
+    const sourceUrl = rule.sources?.find(ruleSource => /^https?:\/\//.test(ruleSource.source_url || ''))?.source_url;
+
+    const description = [
+      `Deadline: ${source.text}`,
+      recurrence.kind === 'recurring' ? `Schedule: ${recurrence.summary}` : '',
+      `Authority: ${rule.authority} (${rule.level})`,
+      `Priority: ${rule.priority}`,
+      source.estimatedCost ? `Estimated cost: $${source.estimatedCost}` : '',
+      gracePeriod ? `Grace period: ${gracePeriod} days` : '',
+      recurrence.confidence === 'low' ? 'Date estimated from a vague deadline; check with the authority.' : '',
+      sourceUrl ? `Source: ${sourceUrl}` : ''
+    ].filter(Boolean).join('\n');
+
+    const lines = [
+      'BEGIN:VEVENT',
+      `UID:${uid}`,
+      `DTSTAMP:${this.formatTimestamp(stamp)}`,
+      `DTSTART;VALUE=DATE:${this.formatDateValue(event.start)}`,
+      `DTEND;VALUE=DATE:${this.formatDateValue(new Date(event.start.getTime() + DAY_MS))}`,
+      `SUMMARY:${this.escapeText(source.title)}`,
+      `DESCRIPTION:${this.escapeText(description)}`,
+      `CATEGORIES:Compliance,${rule.level}`,
+      `PRIORITY:${ICAL_PRIORITY[rule.priority] || 5}`,
+      'TRANSP:TRANSPARENT'
+    ];
+    if (event.rrule) lines.push(`RRULE:${event.rrule}`);
+    if (sourceUrl) lines.push(`URL:${sourceUrl}`);
+
+    for (const days of reminderDays) {
+      lines.push(...this.renderAlarm(`-P${days}D`, `${source.title} is due in ${days} days`));
+    }
+    if (gracePeriod) {
+      // Last reminder on the final day of the grace period
+      lines.push(...this.renderAlarm(`P${gracePeriod}D`, `Grace period for ${source.title} ends today`));
+    }
+
+    lines.push('END:VEVENT');
+    return lines;
+  }
+
+  /**
+   * @param {string} trigger Duration relative to the event start
+   * @param {string} description
+   * @returns {string[]}
+   */
+  renderAlarm(trigger, description) {
+    return [
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `TRIGGER:${trigger}`,
+      `DESCRIPTION:${this.escapeText(description)}`,
+      'END:VALARM'
+    ];
+  }
+
+  /**
+   * Recurring series start at formation, or when the profile was created, so
+   * the feed doesn't change from one fetch to the next
+   * @param {BusinessProfile} profile
+   * @param {Date | null} formation
+   * @param {Date} now
+   * @returns {Date}
+   */
+  getSeriesStart(profile, formation, now) {
+    if (formation) return formation;
+    const created = this.calendar.parseDate(String(profile.created_at || ''));
+    return created || this.calendar.makeDate(now.getUTCFullYear(), 1, 1);
+  }
+
+  /**
+   * TEXT value escaping (RFC 5545 3.3.11)
+   * @param {string} text
+   * @returns {string}
+   */
+  escapeText(text) {
+    return String(text)
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n');
+  }
+
+  /**
+   * Folds content lines longer than 75 octets (RFC 5545 3.1) without
+   * splitting multi-byte characters
+   * @param {string} line
+   * @returns {string}
+   */
+  foldLine(line) {
+    if (Buffer.byteLength(line) <= 75) return line;
+    /** @type {string[]} */
+    const parts = [];
+    let current = '';
+    let limit = 75;
+    for (const char of line) {
+      if (Buffer.byteLength(current + char) > limit) {
+        parts.push(current);
+        current = '';
+        limit = 74; // Continuation lines start with a space
+      }
+      current += char;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+  }
+
+  /**
+   * @param {string | undefined} value
+   * @returns {Date | null}
+   */
+  parseTimestamp(value) {
+    const date = new Date(value || '');
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+
+  /**
+   * @param {Date} date
+   * @returns {string} 20250315T120000Z
+   */
+  formatTimestamp(date) {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  }
+
+  /**
+   * @param {Date} date
+   * @returns {string} 20250315
+   */
+  formatDateValue(date) {
+    return this.calendar.formatDate(date).replace(/-/g, '');
+  }
+
+  /**
+   * @param {number} value
+   * @returns {string}
+   */
+  pad(value) {
+    return String(value).padStart(2, '0');
+  }
+}
+
+module.exports = { ICalendarExporter };
@@ -0,0 +1,429 @@
+const fs = require('fs');
+const path = require('path');
+const { RuleMatcher } = require('./RuleMatcher');
+const { RuleHistory } = require('./RuleHistory');
+const { indexSourceRule } = require('./RuleDeduplicator');
+
+/**
+ * @typedef {import('../types/ComplianceRule').ComplianceRule} ComplianceRule
+ * @typedef {import('../types/ComplianceRule').BusinessProfile} BusinessProfile
+ * @typedef {import('../types/RuleRevision').RuleRevision} RuleRevision
+ * @typedef {import('../types/SourceVerification').VerificationRun} VerificationRun
+ * @typedef {import('../types/ComplianceTask').ComplianceTask} ComplianceTask
+ * @typedef {import('../types/ComplianceAnalysis').ComplianceAnalysis} ComplianceAnalysis
+ * @typedef {import('../types/RuleDeduplication').RuleDeduplicationEntry} RuleDeduplicationEntry
+ * @typedef {import('../types/Embedding').RuleEmbedding} RuleEmbedding
+ */
+
+const COLLECTIONS = ['compliance_rules', 'business_profiles', 'rule_deduplication', 'rule_embeddings', 'rule_revisions', 'source_verification_runs', 'compliance_tasks', 'analyses'];
+
+/**
+ * Local storage backend for offline development and CI.
+ * Keeps every collection in memory and, when a file path is given,
+ * mirrors it to a JSON file so data survives between script runs.
+ */
+class InMemoryRepository {
+  /**
+   * @param {string} [filePath] Optional JSON file used to persist the collections
+   */
+  constructor(filePath) {
+    this.filePath = filePath ? path.resolve(filePath) : null;
+    this.matcher = new RuleMatcher();
+    this.history = new RuleHistory();
+
+    /** @type {{[collection: string]: Map<string, any>}} */
+    this.collections = {};
+    COLLECTIONS.forEach(name => {
+      this.collections[name] = new Map();
+    });
+
+    this.load();
+  }
+
+  // ==================== COMPLIANCE RULES ====================
+
+  /**
+   * @param {ComplianceRule[]} rules
+   * @returns {Promise<void>}
+   */
+  async storeRules(rules) {
+    console.log(`💾 Storing ${rules.length} rules in local storage...`);
+
+    const now = new Date().toISOString();
+    const rulesCollection = this.collection('compliance_rules');
+    const dedupeCollection = this.collection('rule_deduplication');
+    const revisionsCollection = this.collection('rule_revisions');
+
+    for (const rule of rules) {
+      const id = rule.id || this.generateId();
+      const existing = rulesCollection.get(id) || null;
+      const existingRecorded = !existing || revisionsCollection.has(`${id}:${this.history.revisionId(existing.version || 1)}`);
+      const { rule: stored, revision, baseline } = this.history.prepare(existing, { ...rule, id }, now, existingRecorded);
+
+      rulesCollection.set(id, stored);
+      if (baseline) {
+        revisionsCollection.set(`${id}:${this.history.revisionId(baseline.version)}`, baseline);
+      }
+      if (revision) {
+        revisionsCollection.set(`${id}:${this.history.revisionId(revision.version)}`, revision);
+      }
+
+      // Update deduplication index
+      if (rule.canonical_id) {
+        dedupeCollection.set(rule.canonical_id, indexSourceRule(dedupeCollection.get(rule.canonical_id), rule, id, now));
+      }
+    }
+
+    this.save();
+    console.log(`✅ Successfully stored ${rules.length} rules in local storage`);
+  }
+
+  /**
+   * @param {number} [limit]
+   * @returns {Promise<ComplianceRule[]>}
+   */
+  async getRules(limit = 10) {
+    const activeRules = this.allRules().filter(rule => rule.status === 'active');
+    return this.matcher.sortRulesByPriority(activeRules).slice(0, limit);
+  }
+
+  /**
+   * @param {number} [limit]
+   * @returns {Promise<ComplianceRule[]>}
+   */
+  async getRecentRules(limit = 20) {
+    return this.allRules()
+      .sort((a, b) => String(b.created_at || '').localeCompare(String(a.created_at || '')))
+      .slice(0, limit);
+  }
+
+  /**
+   * @param {number} [limit]
+   * @returns {Promise<ComplianceRule[]>}
+   */
+  async getRulesForVerification(limit = 100) {
+    return this.allRules()
+      .filter(rule => rule.status === 'active')
+      .sort((a, b) => String(a.last_verified || '').localeCompare(String(b.last_verified || '')))
+      .slice(0, limit);
+  }
+
+  /**
+   * @param {string} ruleId
+   * @returns {Promise<ComplianceRule | null>}
+   */
+  async getRuleById(ruleId) {
+    const rule = this.collection('compliance_rules').get(ruleId);
+    return rule ? this.clone(rule) : null;
+  }
+
+  /**
+   * @param {string} businessType
+   * @param {string} state
+   * @param {number} [limit]
+   * @returns {Promise<ComplianceRule[]>}
+   */
+  async searchRules(businessType, state, limit = 20) {
+    const filteredRules = this.allRules().filter(rule =>
+      rule.status === 'active' &&
+      rule.applicability_criteria?.business_types?.includes(businessType) &&
+      (rule.applicability_criteria?.states?.includes(state) ||
+       rule.applicability_criteria?.states?.includes('ALL'))
+    );
+
+    return this.matcher.sortRulesByPriority(filteredRules).slice(0, limit);
+  }
+
+  /**
+   * @param {BusinessProfile} businessProfile
+   * @returns {Promise<ComplianceRule[]>}
+   */
+  async getMatchingRules(businessProfile) {
+    return this.matcher.match(this.allRules(), businessProfile);
+  }
+
+  /**
+   * @param {BusinessProfile} businessProfile
+   * @returns {Promise<import('../types/RuleMatch').RuleMatchResult[]>}
+   */
+  async explainMatches(businessProfile) {
+    return this.matcher.evaluateAll(this.allRules(), businessProfile);
+  }
+
+  /**
+   * @param {string} ruleId
+   * @returns {Promise<RuleRevision[]>}
+   */
+  async getRuleHistory(ruleId) {
+    return Array.from(this.collection('rule_revisions').values())
+      .filter(revision => revision.rule_id === ruleId)
+      .sort((a, b) => a.version - b.version)
+      .map(revision => this.clone(revision));
+  }
+
+  /**
+   * @param {string} canonicalId
+   * @returns {Promise<boolean>}
+   */
+  async hasCanonicalId(canonicalId) {
+    return this.collection('rule_deduplication').has(canonicalId);
+  }
+
+  /**
+   * @param {string} canonicalId
+   * @returns {Promise<RuleDeduplicationEntry | null>}
+   */
+  async getDeduplication(canonicalId) {
+    const entry = this.collection('rule_deduplication').get(canonicalId);
+    return entry ? this.clone(entry) : null;
+  }
+
+  /**
+   * @param {RuleDeduplicationEntry[]} entries
+   * @returns {Promise<void>}
+   */
+  async storeDeduplication(entries) {
+    const dedupeCollection = this.collection('rule_deduplication');
+    entries.forEach(entry => dedupeCollection.set(entry.canonical_id, this.clone(entry)));
+    this.save();
+  }
+
+  /**
+   * @param {string[]} ruleIds
+   * @param {string} model
+   * @returns {Promise<RuleEmbedding[]>}
+   */
+  async getRuleEmbeddings(ruleIds, model) {
+    const embeddings = this.collection('rule_embeddings');
+    return ruleIds
+      .map(ruleId => embeddings.get(`${model}:${ruleId}`))
+      .filter(Boolean)
+      .map(embedding => this.clone(embedding));
+  }
+
+  /**
+   * @param {RuleEmbedding[]} embeddings
+   * @returns {Promise<void>}
+   */
+  async storeRuleEmbeddings(embeddings) {
+    const collection = this.collection('rule_embeddings');
+    embeddings.forEach(embedding => collection.set(`${embedding.model}:${embedding.rule_id}`, this.clone(embedding)));
+    this.save();
+  }
+
+  // ==================== BUSINESS PROFILES ====================
+
+  /**
+   * @param {BusinessProfile} profile
+   * @returns {Promise<void>}
+   */
+  async storeBusinessProfile(profile) {
+    const now = new Date().toISOString();
+    this.collection('business_profiles').set(profile.session_id, {
+      ...profile,
+      created_at: now,
+      updated_at: now
+    });
+
+    this.save();
+    console.log(`✅ Stored business profile: ${profile.business_name}`);
+  }
+
+  /**
+   * @param {string} sessionId
+   * @returns {Promise<BusinessProfile | null>}
+   */
+  async getBusinessProfile(sessionId) {
+    const profile = this.collection('business_profiles').get(sessionId);
+    return profile ? this.clone(profile) : null;
+  }
+
+  // ==================== SOURCE VERIFICATION RUNS ====================
+
+  /**
+   * @param {VerificationRun} run
+   * @returns {Promise<void>}
+   */
+  async storeVerificationRun(run) {
+    this.collection('source_verification_runs').set(run.run_id, this.clone(run));
+    this.save();
+  }
+
+  /**
+   * @param {number} [limit]
+   * @returns {Promise<VerificationRun[]>}
+   */
+  async getVerificationRuns(limit = 20) {
+    return Array.from(this.collection('source_verification_runs').values())
+      .sort((a, b) => b.started_at.localeCompare(a.started_at))
+      .slice(0, limit)
+      .map(run => this.clone(run));
+  }
+
+  /**
+   * @param {string} runId
+   * @returns {Promise<VerificationRun | null>}
+   */
+  async getVerificationRun(runId) {
+    const run = this.collection('source_verification_runs').get(runId);
+    return run ? this.clone(run) : null;
+  }
+
+  // ==================== COMPLIANCE TASKS ====================
+
+  /**
+   * @param {ComplianceTask[]} tasks
+   * @returns {Promise<void>}
+   */
+  async storeTasks(tasks) {
+    const tasksCollection = this.collection('compliance_tasks');
+    tasks.forEach(task => tasksCollection.set(task.task_id, this.clone(task)));
+    this.save();
+  }
+
+  /**
+   * @param {string} sessionId
+   * @returns {Promise<ComplianceTask[]>}
+   */
+  async getTasks(sessionId) {
+    return Array.from(this.collection('compliance_tasks').values())
+      .filter(task => task.session_id === sessionId)
+      .map(task => this.clone(task));
+  }
+
+  /**
+   * @param {string} taskId
+   * @returns {Promise<ComplianceTask | null>}
+   */
+  async getTask(taskId) {
+    const task = this.collection('compliance_tasks').get(taskId);
+    return task ? this.clone(task) : null;
+  }
+
+  // ==================== ANALYSES ====================
+
+  /**
+   * @param {ComplianceAnalysis} analysis
+   * @returns {Promise<void>}
+   */
+  async storeAnalysis(analysis) {
+    this.collection('analyses').set(analysis.analysis_id, this.clone(analysis));
+    this.save();
+  }
+
+  /**
+   * @param {string} sessionId
+   * @param {number} [limit]
+   * @returns {Promise<ComplianceAnalysis[]>}
+   */
+  async getAnalyses(sessionId, limit = 20) {
+    return Array.from(this.collection('analyses').values())
+      .filter(analysis => analysis.session_id === sessionId)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(0, limit)
+      .map(analysis => this.clone(analysis));
+  }
+
+  /**
+   * @param {string} analysisId
+   * @returns {Promise<ComplianceAnalysis | null>}
+   */
+  async getAnalysis(analysisId) {
+    const analysis = this.collection('analyses').get(analysisId);
+    return analysis ? this.clone(analysis) : null;
+  }
+
+  // ==================== UTILITY METHODS ====================
+
+  /**
+   * @returns {Promise<void>}
+   */
+  async clearTestData() {
+    console.log('🧹 Clearing test data...');
+    Object.values(this.collections).forEach(collection => collection.clear());
+    this.save();
+    console.log('✅ Test data cleared successfully');
+  }
+
+  /**
+   * @returns {Promise<{[key: string]: number}>}
+   */
+  async getCollectionStats() {
+    /** @type {{[key: string]: number}} */
+    const stats = {};
+    COLLECTIONS.forEach(name => {
+      stats[name] = this.collection(name).size;
+    });
+    return stats;
+  }
+
+  /**
+   * Get (or lazily create) a named collection
+   * @param {string} name
+   * @returns {Map<string, any>}
+   */
+  collection(name) {
+    if (!this.collections[name]) {
+      this.collections[name] = new Map();
+    }
+    return this.collections[name];
+  }
+
+  /**
+   * @returns {ComplianceRule[]}
+   */
+  allRules() {
+    return Array.from(this.collection('compliance_rules').values()).map(rule => this.clone(rule));
+  }
+
+  /**
+   * @returns {string}
+   */
+  generateId() {
+    return `local_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+  }
+
+  /**
+   * @template T
+   * @param {T} value
+   * @returns {T}
+   */
+  clone(value) {
+    return JSON.parse(JSON.stringify(value));
+  }
+
+  /**
+   * Load persisted collections from the JSON file, if configured
+   */
+  load() {
+    if (!this.filePath || !fs.existsSync(this.filePath)) return;
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      Object.entries(data).forEach(([name, documents]) => {
+        this.collections[name] = new Map(Object.entries(documents || {}));
+      });
+      console.log(`📂 Loaded local storage from ${this.filePath}`);
+    } catch (error) {
+      console.error(`❌ Failed to load local storage from ${this.filePath}:`, error);
+    }
+  }
+
+  /**
+   * Persist collections to the JSON file, if configured
+   */
+  save() {
+    if (!this.filePath) return;
+
+    /** @type {{[collection: string]: {[id: string]: any}}} */
+    const data = {};
+    Object.entries(this.collections).forEach(([name, collection]) => {
+      data[name] = Object.fromEntries(collection);
+    });
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(data, null, 2));
+  }
+}
+
+module.exports = { InMemoryRepository };
@@ -0,0 +1,446 @@
+const { v4: uuidv4 } = require('uuid');
+const { FINISHED_STATUSES, createJobStore, getJobQueueConfig } = require('./JobStore');
+
+/**
+ * @typedef {import('../types/Job').Job} Job
+ * @typedef {import('../types/Job').JobType} JobType
+ * @typedef {import('../types/Job').JobPayload} JobPayload
+ * @typedef {import('../types/Job').JobFilter} JobFilter
+ * @typedef {import('../types/Job').JobStore} JobStore
+ * @typedef {import('../types/Job').JobHandler} JobHandler
+ * @typedef {import('../types/Job').JobContext} JobContext
+ * @typedef {import('../types/Job').JobTypeOptions} JobTypeOptions
+ * @typedef {import('../types/Job').JobQueueConfig} JobQueueConfig
+ * @typedef {import('../types/Job').JobQueueStats} JobQueueStats
+ * @typedef {import('../types/Job').JobTypeStats} JobTypeStats
+ */
+
+/**
+ * @typedef {Object} JobRegistration
+ * @property {JobHandler} handler
+ * @property {number} concurrency
+ * @property {number} maxAttempts
+ * @property {number} [timeoutMs]
+ */
+
+/**
+ * @typedef {Object} RunningJob
+ * @property {Job} job Live record, including progress not yet saved
+ * @property {AbortController} controller
+ * @property {boolean} cancelled
+ * @property {boolean} finished True once the attempt's outcome is saved
+ * @property {Promise<void>} settled Resolves when the outcome is saved
+ * @property {Promise<void>} [done] Resolves when the handler has returned and the slot is free
+ */
+
+/**
+ * @typedef {{ job: Job } | { error: string, reason: 'not_found' | 'conflict' }} JobCancelResult
+ */
+
+/**
+ * An error that fails its job without further attempts (invalid payload,
+ * missing configuration...)
+ * @param {string} message
+ * @returns {Error & { retryable: false }}
+ */
+function permanentError(message) {
+  return Object.assign(new Error(message), { retryable: /** @type {false} */ (false) });
+}
+
+/**
+ * Durable background jobs. Each job type has a handler registered at startup;
+ * jobs are persisted in a JobStore as they move from queued to running to
+ * succeeded, failed or cancelled, so queued work survives restarts and a job
+ * interrupted by a restart runs again. Failed attempts are retried with
+ * exponential backoff up to the job's max_attempts. Running jobs are limited
+ * overall and per type. Cancelling or timing out a running job aborts its
+ * context.signal and settles the job straight away, but the job keeps its
+ * slot until the handler returns; handlers should stop their work when the
+ * signal fires.
+ */
+class JobQueue {
+  /**
+   * @param {JobStore} store
+   * @param {Partial<Omit<JobQueueConfig, 'backend' | 'filePath'>>} [options]
+   */
+  constructor(store, options = {}) {
+    this.store = store;
+    this.concurrency = options.concurrency || 2;
+    this.maxAttempts = options.maxAttempts || 3;
+    this.retryBaseMs = options.retryBaseMs ?? 5000;
+    this.retryMaxMs = options.retryMaxMs ?? 5 * 60 * 1000;
+    this.retentionMs = options.retentionMs || 0;
+    /** @type {Map<JobType, JobRegistration>} */
+    this.handlers = new Map();
+    /** @type {Map<string, RunningJob>} */
+    this.running = new Map();
+    /** @type {NodeJS.Timeout | null} */
+    this.timer = null;
+    this.started = false;
+    this.scheduling = false;
+    this.rescheduleRequested = false;
+  }
+
+  /**
+   * @param {JobType} type
+   * @param {JobHandler} handler
+   * @param {JobTypeOptions} [options]
+   */
+  register(type, handler, options = {}) {
+    this.handlers.set(type, {
+      handler,
+      concurrency: Math.min(options.concurrency || this.concurrency, this.concurrency),
+      maxAttempts: options.maxAttempts || this.maxAttempts,
+      timeoutMs: options.timeoutMs
+    });
+  }
+
+  /**
+   * @returns {JobType[]}
+   */
+  types() {
+    return Array.from(this.handlers.keys());
+  }
+
+  /**
+   * Recover jobs left running by a previous process, remove expired finished
+   * jobs and start running queued ones
+   */
+  async start() {
+    const interrupted = await this.store.list({ status: ['running'] });
+    for (const job of interrupted) {
+      await this.store.save(this.failAttempt(job, new Error('Interrupted by a server restart'), false));
+    }
+    if (interrupted.length > 0) {
+      console.log(`♻️ Recovered ${interrupted.length} jobs interrupted by a restart`);
+    }
+
+    if (this.retentionMs > 0) {
+      const removed = await this.store.prune(new Date(Date.now() - this.retentionMs).toISOString());
+      if (removed > 0) console.log(`🧹 Removed ${removed} finished jobs`);
+    }
+
+    this.started = true;
+    await this.schedule();
+  }
+
+  /**
+   * Stop starting jobs and wait for the running ones to settle
+   */
+  async stop() {
+    this.started = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    await Promise.all(Array.from(this.running.values()).map(entry => entry.done));
+  }
+
+  async close() {
+    await this.stop();
+    await this.store.close();
+  }
+
+  /**
+   * @param {JobType} type
+   * @param {JobPayload} [payload]
+   * @param {{ maxAttempts?: number }} [options]
+   * @returns {Promise<Job>}
+   */
+  async enqueue(type, payload = {}, options = {}) {
+    const registration = this.handlers.get(type);
+    if (!registration) {
+      throw new Error(`Unknown job type "${type}". Expected one of: ${this.types().join(', ')}.`);
+    }
+
+    const now = new Date().toISOString();
+    /** @type {Job} */
+    const job = {
+      job_id: `job_${Date.now()}_${uuidv4().substring(0, 8)}`,
+      type,
+      status: 'queued',
+      payload,
+      errors: [],
+      attempts: 0,
+      max_attempts: options.maxAttempts || registration.maxAttempts,
+      created_at: now,
+      updated_at: now,
+      run_at: now
+    };
+
+    await this.store.save(job);
+    console.log(`📥 Queued ${type} job ${job.job_id}`);
+    this.schedule();
+    return job;
+  }
+
+  /**
+   * @param {string} jobId
+   * @returns {Promise<Job | null>}
+   */
+  async get(jobId) {
+    const running = this.running.get(jobId);
+    return running ? structuredClone(running.job) : this.store.get(jobId);
+  }
+
+  /**
+   * Newest first; running jobs include their latest progress
+   * @param {JobFilter} [filter]
+   * @returns {Promise<Job[]>}
+   */
+  async list(filter = {}) {
+    const jobs = await this.store.list(filter);
+    return jobs.map(job => {
+      const running = this.running.get(job.job_id);
+      return running ? structuredClone(running.job) : job;
+    });
+  }
+
+  /**
+   * Cancel a queued job, or abort a running one
+   * @param {string} jobId
+   * @returns {Promise<JobCancelResult>}
+   */
+  async cancel(jobId) {
+    const running = this.running.get(jobId);
+    if (running && !running.finished) {
+      running.cancelled = true;
+      running.controller.abort(new Error('Cancelled'));
+      await running.settled;
+      const job = await this.store.get(jobId);
+      return job ? { job } : { error: `Job not found: ${jobId}`, reason: 'not_found' };
+    }
+
+    const job = await this.store.get(jobId);
+    if (!job) {
+      return { error: `Job not found: ${jobId}`, reason: 'not_found' };
+    }
+    if (FINISHED_STATUSES.includes(job.status)) {
+      return { error: `Job ${jobId} has already ${job.status === 'cancelled' ? 'been cancelled' : job.status}`, reason: 'conflict' };
+    }
+
+    const now = new Date().toISOString();
+    const cancelled = { ...job, status: /** @type {const} */ ('cancelled'), updated_at: now, finished_at: now };
+    if (!(await this.store.transition(cancelled, ['queued']))) {
+      // Started (or finished) since we read it
+      return this.cancel(jobId);
+    }
+    console.log(`🛑 Cancelled ${job.type} job ${jobId}`);
+    return { job: cancelled };
+  }
+
+  /**
+   * @returns {Promise<JobQueueStats>}
+   */
+  async getStats() {
+    const queued = await this.store.list({ status: ['queued'] });
+    /** @type {JobQueueStats['by_type']} */
+    const byType = {};
+    this.handlers.forEach((registration, type) => {
+      byType[type] = {
+        queued: queued.filter(job => job.type === type).length,
+        running: this.runningCount(type),
+        concurrency: registration.concurrency
+      };
+    });
+
+    return {
+      backend: this.store.backend,
+      concurrency: this.concurrency,
+      queued: queued.length,
+      running: this.running.size,
+      by_type: byType
+    };
+  }
+
+  /**
+   * Start as many due jobs as the limits allow, then set a timer for the
+   * next job still waiting out its backoff. Calls made while a pass is in
+   * progress run one more pass afterwards.
+   */
+  async schedule() {
+    if (!this.started) return;
+    if (this.scheduling) {
+      this.rescheduleRequested = true;
+      return;
+    }
+    this.scheduling = true;
+
+    try {
+      do {
+        this.rescheduleRequested = false;
+        const due = await this.store.due(new Date().toISOString());
+        for (const job of due) {
+          if (this.running.size >= this.concurrency) break;
+          const registration = this.handlers.get(job.type);
+          if (!registration || this.running.has(job.job_id) || this.runningCount(job.type) >= registration.concurrency) continue;
+          this.execute(job, registration);
+        }
+      } while (this.rescheduleRequested && this.started);
+
+      if (this.timer) clearTimeout(this.timer);
+      this.timer = null;
+      const nextRunAt = await this.store.nextRunAt();
+      if (nextRunAt && this.started) {
+        this.timer = setTimeout(() => this.schedule(), Math.max(0, Date.parse(nextRunAt) - Date.now()));
+        this.timer.unref();
+      }
+    } catch (error) {
+      console.error('❌ Job scheduling failed:', error);
+    } finally {
+      this.scheduling = false;
+    }
+  }
+
+  /**
+   * Run one attempt of a job and persist how it ended
+   * @param {Job} job
+   * @param {JobRegistration} registration
+   */
+  execute(job, registration) {
+    const controller = new AbortController();
+    const attempt = job.attempts + 1;
+    const startedAt = new Date().toISOString();
+    /** @type {() => void} */
+    let markSettled = () => {};
+    /** @type {RunningJob} */
+    const entry = {
+      job: { ...job, status: 'running', attempts: attempt, started_at: startedAt, updated_at: startedAt, progress: undefined },
+      controller,
+      cancelled: false,
+      finished: false,
+      settled: new Promise(resolve => { markSettled = () => resolve(undefined); })
+    };
+    this.running.set(job.job_id, entry);
+
+    /** @type {JobContext} */
+    const context = {
+      job_id: job.job_id,
+      attempt,
+      signal: controller.signal,
+      progress: (update) => {
+        if (!controller.signal.aborted) entry.job.progress = { ...update };
+      }
+    };
+
+    entry.done = (async () => {
+      /** @type {NodeJS.Timeout | null} */
+      let timeout = null;
+      /** @type {Promise<unknown> | null} */
+      let handling = null;
+      /** @type {Job} */
+      let finished;
+      try {
+        // Only if still queued: a cancel may have won the race since due()
+        if (!(await this.store.transition(entry.job, ['queued']))) {
+          entry.finished = true;
+          markSettled();
+          this.running.delete(job.job_id);
+          this.schedule();
+          return;
+        }
+        console.log(`▶️ Running ${job.type} job ${job.job_id} (attempt ${attempt}/${job.max_attempts})`);
+
+        if (registration.timeoutMs) {
+          const timeoutMs = registration.timeoutMs;
+          timeout = setTimeout(() => controller.abort(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+        }
+        controller.signal.throwIfAborted(); // Cancelled while being saved
+        /** @type {Promise<never>} */
+        const aborted = new Promise((_, reject) => {
+          controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+        });
+        handling = Promise.resolve().then(() => registration.handler(job.payload, context));
+        const result = await Promise.race([handling, aborted]);
+
+        const now = new Date().toISOString();
+        finished = { ...entry.job, status: 'succeeded', result, error: undefined, updated_at: now, finished_at: now };
+        console.log(`✅ ${job.type} job ${job.job_id} succeeded`);
+      } catch (error) {
+        finished = this.failAttempt(entry.job, error, entry.cancelled);
+      } finally {
+        if (timeout) clearTimeout(timeout);
+        if (!controller.signal.aborted) controller.abort(new Error('Job finished'));
+      }
+
+      try {
+        await this.store.save(finished);
+      } catch (error) {
+        console.error(`❌ Failed to save ${job.type} job ${job.job_id}:`, error);
+      }
+      entry.job = finished;
+      entry.finished = true;
+      markSettled();
+
+      // An aborted handler may still be winding down; keep its slot until it has
+      if (handling) await handling.catch(() => {});
+      this.running.delete(job.job_id);
+      this.schedule();
+    })();
+  }
+
+  /**
+   * The job after a failed attempt: cancelled, queued for a retry after the
+   * backoff, or failed once out of attempts (or on a permanent error)
+   * @param {Job} job
+   * @param {any} error
+   * @param {boolean} cancelled
+   * @returns {Job}
+   */
+  failAttempt(job, error, cancelled) {
+    const now = new Date().toISOString();
+    const message = error?.message || String(error);
+
+    if (cancelled) {
+      console.log(`🛑 Cancelled ${job.type} job ${job.job_id}`);
+      return { ...job, status: 'cancelled', updated_at: now, finished_at: now };
+    }
+
+    const failed = {
+      ...job,
+      error: message,
+      errors: [...job.errors, { attempt: job.attempts, error: message, failed_at: now }],
+      updated_at: now
+    };
+
+    if (error?.retryable !== false && job.attempts < job.max_attempts) {
+      const delayMs = this.backoff(job.attempts);
+      console.warn(`⚠️ ${job.type} job ${job.job_id} attempt ${job.attempts} failed (${message}) - retrying in ${delayMs}ms`);
+      return { ...failed, status: 'queued', run_at: new Date(Date.now() + delayMs).toISOString() };
+    }
+
+    console.error(`❌ ${job.type} job ${job.job_id} failed after ${job.attempts} attempts:`, message);
+    return { ...failed, status: 'failed', finished_at: now };
+  }
+
+  /**
+   * Delay before the attempt after `attempt`: retryBaseMs, doubled for each
+   * further attempt, capped at retryMaxMs
+   * @param {number} attempt
+   * @returns {number}
+   */
+  backoff(attempt) {
+    return Math.min(this.retryMaxMs, this.retryBaseMs * 2 ** Math.max(0, attempt - 1));
+  }
+
+  /**
+   * @param {JobType} type
+   * @returns {number}
+   */
+  runningCount(type) {
+    return Array.from(this.running.values()).filter(entry => entry.job.type === type).length;
+  }
+}
+
+/**
+ * Job queue on the store selected by JOB_STORE, with the JOB_* limits.
+ * Explicit overrides win over the environment; undefined values are ignored.
+ * @param {Partial<JobQueueConfig>} [overrides]
+ * @returns {JobQueue}
+ */
+function createJobQueue(overrides = {}) {
+  const defined = Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined));
+  /** @type {JobQueueConfig} */
+  const config = { ...getJobQueueConfig(), ...defined };
+  return new JobQueue(createJobStore(config), config);
+}
+
+module.exports = { JobQueue, createJobQueue, permanentError };
@@ -0,0 +1,327 @@
+const fs = require('fs');
+const path = require('path');
+const { writeFileAtomicSync } = require('./AtomicFile');
+
+/**
+ * @typedef {import('../types/Job').Job} Job
+ * @typedef {import('../types/Job').JobFilter} JobFilter
+ * @typedef {import('../types/Job').JobStore} JobStore
+ * @typedef {import('../types/Job').JobStoreBackend} JobStoreBackend
+ * @typedef {import('../types/Job').JobQueueConfig} JobQueueConfig
+ */
+
+const BACKENDS = ['file', 'sqlite'];
+
+const HOUR = 60 * 60 * 1000;
+
+/** @type {Omit<JobQueueConfig, 'backend'>} */
+const DEFAULT_CONFIG = {
+  concurrency: 2,
+  maxAttempts: 3,
+  retryBaseMs: 5000,
+  retryMaxMs: 5 * 60 * 1000,
+  retentionMs: 7 * 24 * HOUR
+};
+
+const FINISHED_STATUSES = ['succeeded', 'failed', 'cancelled'];
+
+const DEFAULT_FILES = {
+  file: 'data/jobs.json',
+  sqlite: 'data/jobs.sqlite'
+};
+
+/**
+ * Job records in memory, saved to a JSON file after every change so queued
+ * and finished jobs survive restarts
+ * @implements {JobStore}
+ */
+class FileJobStore {
+  /**
+   * @param {string} [filePath]
+   */
+  constructor(filePath) {
+    /** @type {JobStoreBackend} */
+    this.backend = 'file';
+    this.filePath = path.resolve(filePath || DEFAULT_FILES.file);
+    /** @type {Map<string, Job>} Insertion order is creation order */
+    this.jobs = new Map();
+    this.load();
+  }
+
+  load() {
+    if (!fs.existsSync(this.filePath)) return;
+
+    try {
+      /** @type {Job[]} */
+      const jobs = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      jobs.forEach(job => this.jobs.set(job.job_id, job));
+      console.log(`📂 Loaded ${this.jobs.size} jobs from ${this.filePath}`);
+    } catch (error) {
+      console.error(`❌ Failed to load jobs from ${this.filePath}:`, error);
+    }
+  }
+
+  /**
+   * @param {string} jobId
+   * @returns {Promise<Job | null>}
+   */
+  async get(jobId) {
+    const job = this.jobs.get(jobId);
+    return job ? structuredClone(job) : null;
+  }
+
+  /**
+   * @param {Job} job
+   */
+  async save(job) {
+    this.jobs.set(job.job_id, structuredClone(job));
+    this.write();
+  }
+
+  /**
+   * @param {Job} job
+   * @param {Job['status'][]} from
+   * @returns {Promise<boolean>}
+   */
+  async transition(job, from) {
+    const current = this.jobs.get(job.job_id);
+    if (!current || !from.includes(current.status)) return false;
+    await this.save(job);
+    return true;
+  }
+
+  /**
+   * @param {JobFilter} [filter]
+   * @returns {Promise<Job[]>}
+   */
+  async list(filter = {}) {
+    const jobs = Array.from(this.jobs.values())
+      .reverse()
+      .filter(job => (!filter.type || job.type === filter.type) && (!filter.status || filter.status.includes(job.status)))
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+    return structuredClone(filter.limit ? jobs.slice(0, filter.limit) : jobs);
+  }
+
+  /**
+   * @param {string} now
+   * @returns {Promise<Job[]>}
+   */
+  async due(now) {
+    const jobs = Array.from(this.jobs.values())
+      .filter(job => job.status === 'queued' && job.run_at <= now)
+      .sort((a, b) => a.run_at.localeCompare(b.run_at));
+    return structuredClone(jobs);
+  }
+
+  /**
+   * @returns {Promise<string | null>}
+   */
+  async nextRunAt() {
+    return Array.from(this.jobs.values())
+      .filter(job => job.status === 'queued')
+      .reduce((/** @type {string | null} */ earliest, job) => (!earliest || job.run_at < earliest ? job.run_at : earliest), null);
+  }
+
+  /**
+   * @param {string} finishedBefore
+   * @returns {Promise<number>}
+   */
+  async prune(finishedBefore) {
+    const expired = Array.from(this.jobs.values())
+      .filter(job => FINISHED_STATUSES.includes(job.status) && (job.finished_at || job.updated_at) < finishedBefore);
+    expired.forEach(job => this.jobs.delete(job.job_id));
+    if (expired.length > 0) this.write();
+    return expired.length;
+  }
+
+  async close() {}
+
+  write() {
+    writeFileAtomicSync(this.filePath, JSON.stringify(Array.from(this.jobs.values())));
+  }
+}
+
+/**
+ * Job records in a SQLite file (better-sqlite3), indexed by status and run time
+ * @implements {JobStore}
+ */
+class SqliteJobStore {
+  /**
+   * @param {string} [filePath]
+   */
+  constructor(filePath) {
+    /** @type {JobStoreBackend} */
+    this.backend = 'sqlite';
+    this.filePath = path.resolve(filePath || DEFAULT_FILES.sqlite);
+
+    const Database = require('better-sqlite3');
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    this.db = new Database(this.filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`CREATE TABLE IF NOT EXISTS jobs (
+      job_id TEXT PRIMARY KEY,
+      type TEXT NOT NULL,
+      status TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      run_at TEXT NOT NULL,
+      finished_at TEXT,
+      data TEXT NOT NULL
+    )`);
+    this.db.exec('CREATE INDEX IF NOT EXISTS jobs_status_run_at ON jobs (status, run_at)');
+  }
+
+  /**
+   * Whether the better-sqlite3 package is installed
+   * @returns {boolean}
+   */
+  static isAvailable() {
+    try {
+      require.resolve('better-sqlite3');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * @param {string} jobId
+   * @returns {Promise<Job | null>}
+   */
+  async get(jobId) {
+    const row = this.db.prepare('SELECT data FROM jobs WHERE job_id = ?').get(jobId);
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  /**
+   * @param {Job} job
+   */
+  async save(job) {
+    this.db.prepare(`INSERT INTO jobs (job_id, type, status, created_at, run_at, finished_at, data)
+      VALUES (@job_id, @type, @status, @created_at, @run_at, @finished_at, @data)
+      ON CONFLICT (job_id) DO UPDATE SET status = excluded.status, run_at = excluded.run_at,
+        finished_at = excluded.finished_at, data = excluded.data`)
+      .run({
+        job_id: job.job_id,
+        type: job.type,
+        status: job.status,
+        created_at: job.created_at,
+        run_at: job.run_at,
+        finished_at: job.finished_at || null,
+        data: JSON.stringify(job)
+      });
+  }
+
+  /**
+   * @param {Job} job
+   * @param {Job['status'][]} from
+   * @returns {Promise<boolean>}
+   */
+  async transition(job, from) {
+    const { changes } = this.db.prepare(`UPDATE jobs SET status = ?, run_at = ?, finished_at = ?, data = ?
+      WHERE job_id = ? AND status IN (${from.map(() => '?').join(', ')})`)
+      .run(job.status, job.run_at, job.finished_at || null, JSON.stringify(job), job.job_id, ...from);
+    return changes > 0;
+  }
+
+  /**
+   * @param {JobFilter} [filter]
+   * @returns {Promise<Job[]>}
+   */
+  async list(filter = {}) {
+    /** @type {string[]} */
+    const conditions = [];
+    /** @type {any[]} */
+    const params = [];
+    if (filter.type) {
+      conditions.push('type = ?');
+      params.push(filter.type);
+    }
+    if (filter.status) {
+      conditions.push(`status IN (${filter.status.map(() => '?').join(', ') || 'NULL'})`);
+      params.push(...filter.status);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db.prepare(`SELECT data FROM jobs ${where} ORDER BY created_at DESC, rowid DESC LIMIT ?`)
+      .all(...params, filter.limit || -1);
+    return rows.map((/** @type {{ data: string }} */ row) => JSON.parse(row.data));
+  }
+
+  /**
+   * @param {string} now
+   * @returns {Promise<Job[]>}
+   */
+  async due(now) {
+    const rows = this.db.prepare("SELECT data FROM jobs WHERE status = 'queued' AND run_at <= ? ORDER BY run_at, rowid").all(now);
+    return rows.map((/** @type {{ data: string }} */ row) => JSON.parse(row.data));
+  }
+
+  /**
+   * @returns {Promise<string | null>}
+   */
+  async nextRunAt() {
+    return this.db.prepare("SELECT MIN(run_at) AS run_at FROM jobs WHERE status = 'queued'").get().run_at;
+  }
+
+  /**
+   * @param {string} finishedBefore
+   * @returns {Promise<number>}
+   */
+  async prune(finishedBefore) {
+    return this.db.prepare(`DELETE FROM jobs WHERE status IN (${FINISHED_STATUSES.map(() => '?').join(', ')}) AND finished_at < ?`)
+      .run(...FINISHED_STATUSES, finishedBefore).changes;
+  }
+
+  async close() {
+    this.db.close();
+  }
+}
+
+/**
+ * Job queue settings from the environment: JOB_STORE (file|sqlite), JOB_STORE_FILE,
+ * JOB_CONCURRENCY, JOB_MAX_ATTEMPTS, JOB_RETRY_BASE_MS, JOB_RETRY_MAX_MS and
+ * JOB_RETENTION_HOURS
+ * @returns {JobQueueConfig}
+ */
+function getJobQueueConfig() {
+  const backend = /** @type {JobStoreBackend} */ ((process.env.JOB_STORE || 'file').toLowerCase());
+  if (!BACKENDS.includes(backend)) {
+    throw new Error(`Unknown JOB_STORE "${backend}". Expected one of: ${BACKENDS.join(', ')}.`);
+  }
+
+  const retentionHours = parseFloat(process.env.JOB_RETENTION_HOURS || '');
+  return {
+    backend,
+    filePath: process.env.JOB_STORE_FILE,
+    concurrency: parseInt(process.env.JOB_CONCURRENCY || '', 10) || DEFAULT_CONFIG.concurrency,
+    maxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || '', 10) || DEFAULT_CONFIG.maxAttempts,
+    retryBaseMs: parseInt(process.env.JOB_RETRY_BASE_MS || '', 10) || DEFAULT_CONFIG.retryBaseMs,
+    retryMaxMs: parseInt(process.env.JOB_RETRY_MAX_MS || '', 10) || DEFAULT_CONFIG.retryMaxMs,
+    retentionMs: retentionHours > 0 ? retentionHours * HOUR : DEFAULT_CONFIG.retentionMs
+  };
+}
+
+/**
+ * Create the store selected by JOB_STORE, falling back to the JSON file store
+ * when better-sqlite3 isn't installed
+ * @param {Pick<JobQueueConfig, 'backend' | 'filePath'>} config
+ * @returns {JobStore}
+ */
+function createJobStore(config) {
+  if (config.backend === 'sqlite') {
+    if (SqliteJobStore.isAvailable()) {
+      return new SqliteJobStore(config.filePath);
+    }
+    console.warn('⚠️ better-sqlite3 is not installed - storing jobs in a JSON file instead');
+    return new FileJobStore(config.filePath && `${config.filePath}.json`);
+  }
+  return new FileJobStore(config.filePath);
+}
+
+module.exports = {
+  FileJobStore,
+  SqliteJobStore,
+  FINISHED_STATUSES,
+  getJobQueueConfig,
+  createJobStore
+};
@@ -0,0 +1,115 @@
+/**
+ * @typedef {import('../types/Embedding').RankedRule} RankedRule
+ * @typedef {import('../types/Embedding').RankingContext} RankingContext
+ * @typedef {import('../types/Embedding').RuleReranker} RuleReranker
+ */
+
+// Rule topics that rarely apply to a small business outside the matching industry
+const IRRELEVANT_CATEGORIES = {
+  healthcare: ['hospital', 'medicare', 'medicaid', 'medical', 'patient', 'clinical', 'health care', 'nursing', 'dialysis', 'renal'],
+  manufacturing: ['manufacturing', 'factory', 'production line', 'assembly', 'furnace', 'washer', 'appliance'],
+  aviation: ['aircraft', 'airplane', 'helicopter', 'aviation', 'airworthiness', 'flight'],
+  marine: ['marine', 'ocean', 'offshore', 'maritime', 'vessel', 'ship'],
+  agriculture: ['farming', 'agricultural', 'crop', 'livestock', 'pesticide'],
+  energy: ['nuclear', 'power plant', 'energy production', 'utility', 'electricity generation'],
+  specialized: ['endangered species', 'wildlife', 'environmental protection', 'toxic substances', 'hazardous waste'],
+  consumer_products: ['toy', 'children', 'infant', 'baby', 'consumer product safety']
+};
+
+// Business types that keep a category's rules
+const CATEGORY_BUSINESS_TYPES = {
+  healthcare: ['healthcare'],
+  manufacturing: ['manufacturing'],
+  aviation: ['aviation', 'transportation'], // Transportation might include aviation
+  marine: ['marine', 'transportation'], // Transportation might include marine
+  agriculture: ['agriculture'],
+  energy: ['energy'],
+  specialized: [], // No business types match specialized environmental rules
+  consumer_products: ['manufacturing', 'retail']
+};
+
+// Obviously unrelated rulemakings that keyword search keeps surfacing
+const HIGH_PENALTY_KEYWORDS = [
+  'premerger notification', 'merger', 'acquisition',
+  'cybersecurity labeling', 'copyright circumvention',
+  'supplemental nutrition', 'food assistance',
+  'clearing agency', 'derivatives',
+  'patent fees', 'trademark fees',
+  'federal acquisition regulation', 'sam.gov', 'government contract',
+  'ophthalmic', 'eyeglass rule', 'broadcast', 'cable television',
+  'burma sanctions', 'ofac', 'myanmar', 'equal employment opportunity',
+  'advanced manufacturing', 'production credit', 'modernizing grant'
+];
+
+const CATEGORY_PENALTY = 0.9;
+const HIGH_PENALTY = 1.0;
+
+/**
+ * Optional second stage after semantic ranking: lowers the score of rules
+ * that mention hand-picked off-topic phrases, unless the business description
+ * puts the business in that category. Every match is listed in `penalties`.
+ * @implements {RuleReranker}
+ */
+class KeywordPenaltyReranker {
+  /**
+   * @param {RankedRule[]} ranked
+   * @param {RankingContext} context
+   * @returns {RankedRule[]}
+   */
+  rerank(ranked, context) {
+    const businessType = this.inferBusinessType(context.business_description || '');
+
+    return ranked
+      .map(entry => {
+        const ruleText = `${entry.rule.title} ${entry.rule.description}`.toLowerCase();
+        /** @type {string[]} */
+        const penalties = [];
+        let penalty = 0;
+
+        Object.entries(IRRELEVANT_CATEGORIES).forEach(([category, keywords]) => {
+          if (CATEGORY_BUSINESS_TYPES[/** @type {keyof typeof CATEGORY_BUSINESS_TYPES} */ (category)].includes(businessType)) return;
+          keywords.forEach(keyword => {
+            if (ruleText.includes(keyword)) {
+              penalties.push(`${category}: ${keyword}`);
+              penalty += CATEGORY_PENALTY;
+            }
+          });
+        });
+
+        HIGH_PENALTY_KEYWORDS.forEach(keyword => {
+          if (ruleText.includes(keyword)) {
+            penalties.push(keyword);
+            penalty += HIGH_PENALTY;
+          }
+        });
+
+        return penalties.length === 0 ? entry : {
+          ...entry,
+          score: Math.max(0, entry.score - penalty),
+          penalties: [...entry.penalties, ...penalties]
+        };
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * @param {string} description
+   * @returns {string}
+   */
+  inferBusinessType(description) {
+    const text = description.toLowerCase();
+    const mentions = (/** @type {string[]} */ words) => words.some(word => text.includes(word));
+
+    if (mentions(['transportation', 'logistics', 'delivery'])) return 'transportation';
+    if (mentions(['software', 'website', 'mobile', 'app', 'application', 'platform', 'database', 'cloud', 'api', 'digital', 'online', 'web', 'internet'])) {
+      return 'technology';
+    }
+    if (mentions(['healthcare', 'medical'])) return 'healthcare';
+    if (mentions(['manufacturing'])) return 'manufacturing';
+    if (mentions(['retail'])) return 'retail';
+    if (mentions(['consulting', 'professional'])) return 'professional_services';
+    return 'general_business';
+  }
+}
+
+module.exports = { KeywordPenaltyReranker };
@@ -0,0 +1,335 @@
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+/**
+ * @typedef {import('../types/LlmClient').LlmClient} LlmClient
+ * @typedef {import('../types/LlmClient').LlmConfig} LlmConfig
+ * @typedef {import('../types/LlmClient').LlmProvider} LlmProvider
+ * @typedef {import('../types/LlmClient').LlmMessage} LlmMessage
+ * @typedef {import('../types/LlmClient').LlmCompletion} LlmCompletion
+ * @typedef {import('../types/LlmClient').LlmCompletionOptions} LlmCompletionOptions
+ * @typedef {import('../types/LlmClient').LlmFixture} LlmFixture
+ * @typedef {import('../types/LlmClient').LlmJsonSchema} LlmJsonSchema
+ */
+
+const PROVIDERS = ['openai', 'local', 'fixture'];
+
+/** @type {Omit<LlmConfig, 'provider'>} */
+const DEFAULT_CONFIG = {
+  model: 'gpt-5-nano',
+  maxTokens: 50000,
+  timeoutMs: 600000, // OpenAI SDK default (10 minutes)
+  maxRetries: 2,
+  fixturesDir: 'fixtures/llm',
+  fixtureMode: 'replay'
+};
+
+// Ollama's OpenAI-compatible endpoint; llama.cpp and vLLM servers work the same way
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+
+/**
+ * Stable key for a conversation: sha256 of the role/content pairs
+ * @param {LlmMessage[]} messages
+ * @returns {string}
+ */
+function hashPrompt(messages) {
+  const normalized = messages.map(message => ({ role: message.role, content: message.content }));
+  return crypto.createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+}
+
+/**
+ * Structured-output request format; vLLM, llama.cpp and Ollama accept the same shape
+ * @param {LlmJsonSchema} jsonSchema
+ * @returns {any}
+ */
+function responseFormat(jsonSchema) {
+  return {
+    type: 'json_schema',
+    json_schema: { name: jsonSchema.name, schema: jsonSchema.schema, strict: true }
+  };
+}
+
+/**
+ * Chat completions against the OpenAI API
+ * @implements {LlmClient}
+ */
+class OpenAILlmClient {
+  /**
+   * @param {Partial<LlmConfig>} [config]
+   */
+  constructor(config = {}) {
+    /** @type {LlmConfig} */
+    this.config = { ...DEFAULT_CONFIG, provider: 'openai', ...config };
+    /** @type {LlmProvider} */
+    this.provider = 'openai';
+    this.model = this.config.model;
+    /** @type {any} */
+    this.client = null;
+  }
+
+  /**
+   * @returns {boolean}
+   */
+  isAvailable() {
+    return !!this.config.apiKey;
+  }
+
+  /**
+   * @param {LlmMessage[]} messages
+   * @param {LlmCompletionOptions} [options]
+   * @returns {Promise<LlmCompletion>}
+   */
+  async complete(messages, options = {}) {
+    if (!this.isAvailable()) {
+      throw new Error(`${this.provider} LLM client is not configured`);
+    }
+
+    const model = options.model || this.config.model;
+    const response = await this.getClient().chat.completions.create(
+      this.buildRequest(messages, model, options),
+      {
+        timeout: options.timeoutMs || this.config.timeoutMs,
+        maxRetries: this.config.maxRetries,
+        ...(options.signal && { signal: options.signal })
+      }
+    );
+
+    const choice = response.choices?.[0];
+    return {
+      content: choice?.message?.content || '',
+      model: response.model || model,
+      provider: this.provider,
+      finish_reason: choice?.finish_reason || undefined,
+      usage: response.usage ? {
+        prompt_tokens: response.usage.prompt_tokens,
+        completion_tokens: response.usage.completion_tokens
+      } : undefined,
+      prompt_hash: hashPrompt(messages)
+    };
+  }
+
+  /**
+   * @param {LlmMessage[]} messages
+   * @param {string} model
+   * @param {LlmCompletionOptions} options
+   * @returns {any}
+   */
+  buildRequest(messages, model, options) {
+    return {
+      model,
+      messages,
+      max_completion_tokens: options.maxTokens || this.config.maxTokens,
+      ...(options.temperature !== undefined && { temperature: options.temperature }),
+      ...(options.jsonSchema && { response_format: responseFormat(options.jsonSchema) })
+    };
+  }
+
+  /**
+   * The SDK throws without an API key, so it is created on first use
+   * @returns {any}
+   */
+  getClient() {
+    if (!this.client) {
+      const OpenAI = require('openai');
+      this.client = new OpenAI({
+        apiKey: this.config.apiKey,
+        ...(this.config.baseUrl && { baseURL: this.config.baseUrl })
+      });
+    }
+    return this.client;
+  }
+}
+
+/**
+ * Self-hosted model behind an OpenAI-compatible endpoint (Ollama, llama.cpp, vLLM)
+ */
+class LocalLlmClient extends OpenAILlmClient {
+  /**
+   * @param {Partial<LlmConfig>} [config]
+   */
+  constructor(config = {}) {
+    super({
+      ...config,
+      provider: 'local',
+      baseUrl: config.baseUrl || DEFAULT_LOCAL_BASE_URL,
+      // Most local servers ignore the key, but the SDK requires one
+      apiKey: config.apiKey || 'local'
+    });
+    this.provider = 'local';
+  }
+
+  /**
+   * Local servers understand max_tokens rather than max_completion_tokens
+   * @param {LlmMessage[]} messages
+   * @param {string} model
+   * @param {LlmCompletionOptions} options
+   * @returns {any}
+   */
+  buildRequest(messages, model, options) {
+    return {
+      model,
+      messages,
+      max_tokens: options.maxTokens || this.config.maxTokens,
+      ...(options.temperature !== undefined && { temperature: options.temperature }),
+      ...(options.jsonSchema && { response_format: responseFormat(options.jsonSchema) })
+    };
+  }
+}
+
+/**
+ * Replays recorded responses from <fixturesDir>/<prompt hash>.json.
+ * In "record" mode, misses are forwarded to the upstream client and saved,
+ * so a test run against a real model can be replayed offline afterwards.
+ * @implements {LlmClient}
+ */
+class FixtureLlmClient {
+  /**
+   * @param {Partial<LlmConfig>} [config]
+   * @param {LlmClient | null} [upstream] Required for record mode
+   */
+  constructor(config = {}, upstream = null) {
+    /** @type {LlmConfig} */
+    this.config = { ...DEFAULT_CONFIG, ...config, provider: 'fixture' };
+    /** @type {LlmProvider} */
+    this.provider = 'fixture';
+    this.model = upstream?.model || this.config.model;
+    this.upstream = upstream;
+    this.fixturesDir = path.resolve(this.config.fixturesDir || DEFAULT_CONFIG.fixturesDir || '');
+  }
+
+  /**
+   * @returns {boolean}
+   */
+  isAvailable() {
+    return this.config.fixtureMode === 'record' ? !!this.upstream?.isAvailable() : true;
+  }
+
+  /**
+   * @param {LlmMessage[]} messages
+   * @param {LlmCompletionOptions} [options]
+   * @returns {Promise<LlmCompletion>}
+   */
+  async complete(messages, options = {}) {
+    const promptHash = hashPrompt(messages);
+    const fixture = this.readFixture(promptHash);
+
+    if (fixture) {
+      return {
+        content: fixture.content,
+        model: fixture.model,
+        provider: this.provider,
+        finish_reason: fixture.finish_reason,
+        prompt_hash: promptHash
+      };
+    }
+
+    if (this.config.fixtureMode !== 'record' || !this.upstream) {
+      throw new Error(`No LLM fixture for prompt ${promptHash} in ${this.fixturesDir}`);
+    }
+
+    const completion = await this.upstream.complete(messages, options);
+    this.writeFixture({
+      prompt_hash: promptHash,
+      model: completion.model,
+      messages,
+      content: completion.content,
+      finish_reason: completion.finish_reason,
+      recorded_at: new Date().toISOString()
+    });
+    console.log(`🧪 Recorded LLM fixture ${promptHash.substring(0, 12)}`);
+
+    return { ...completion, prompt_hash: promptHash };
+  }
+
+  /**
+   * @param {string} promptHash
+   * @returns {string}
+   */
+  fixturePath(promptHash) {
+    return path.join(this.fixturesDir, `${promptHash}.json`);
+  }
+
+  /**
+   * @param {string} promptHash
+   * @returns {LlmFixture | null}
+   */
+  readFixture(promptHash) {
+    const file = this.fixturePath(promptHash);
+    if (!fs.existsSync(file)) return null;
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  }
+
+  /**
+   * @param {LlmFixture} fixture
+   */
+  writeFixture(fixture) {
+    fs.mkdirSync(this.fixturesDir, { recursive: true });
+    fs.writeFileSync(this.fixturePath(fixture.prompt_hash), JSON.stringify(fixture, null, 2));
+  }
+}
+
+/**
+ * LLM settings from the environment:
+ * LLM_PROVIDER (openai|local|fixture), LLM_MODEL, LLM_MAX_TOKENS, LLM_TIMEOUT_MS,
+ * LLM_MAX_RETRIES, LLM_API_KEY (falls back to OPENAI_API_KEY), LLM_BASE_URL,
+ * LLM_FIXTURES_DIR and LLM_FIXTURE_MODE (replay|record)
+ * @returns {LlmConfig}
+ */
+function getLlmConfig() {
+  const provider = /** @type {LlmProvider} */ ((process.env.LLM_PROVIDER || 'openai').toLowerCase());
+  if (!PROVIDERS.includes(provider)) {
+    throw new Error(`Unknown LLM_PROVIDER "${provider}". Expected one of: ${PROVIDERS.join(', ')}.`);
+  }
+
+  const fixtureMode = process.env.LLM_FIXTURE_MODE === 'record' ? 'record' : 'replay';
+
+  return {
+    provider,
+    model: process.env.LLM_MODEL || DEFAULT_CONFIG.model,
+    maxTokens: parseInt(process.env.LLM_MAX_TOKENS || '', 10) || DEFAULT_CONFIG.maxTokens,
+    timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || '', 10) || DEFAULT_CONFIG.timeoutMs,
+    maxRetries: parseInt(process.env.LLM_MAX_RETRIES || '', 10) || DEFAULT_CONFIG.maxRetries,
+    apiKey: process.env.LLM_API_KEY || process.env.OPENAI_API_KEY,
+    baseUrl: process.env.LLM_BASE_URL,
+    fixturesDir: process.env.LLM_FIXTURES_DIR || DEFAULT_CONFIG.fixturesDir,
+    fixtureMode
+  };
+}
+
+/**
+ * Create the LLM client selected by LLM_PROVIDER.
+ * Explicit overrides (e.g. a caller's API key or a shorter timeout) win over
+ * the environment; undefined values are ignored.
+ * @param {Partial<LlmConfig>} [overrides]
+ * @returns {LlmClient}
+ */
+function createLlmClient(overrides = {}) {
+  const defined = Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined));
+  /** @type {LlmConfig} */
+  const config = { ...getLlmConfig(), ...defined };
+
+  // Never send the OpenAI key to a self-hosted endpoint
+  const localConfig = { ...config, apiKey: process.env.LLM_API_KEY };
+
+  if (config.provider === 'fixture') {
+    // Record through the local endpoint when one is configured, otherwise OpenAI
+    const upstream = config.fixtureMode === 'record'
+      ? (config.baseUrl ? new LocalLlmClient(localConfig) : new OpenAILlmClient(config))
+      : null;
+    return new FixtureLlmClient(config, upstream);
+  }
+  if (config.provider === 'local') {
+    return new LocalLlmClient(localConfig);
+  }
+  return new OpenAILlmClient(config);
+}
+
+module.exports = {
+  OpenAILlmClient,
+  LocalLlmClient,
+  FixtureLlmClient,
+  createLlmClient,
+  getLlmConfig,
+  hashPrompt
+};
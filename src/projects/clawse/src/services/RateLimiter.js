@@ -0,0 +1,363 @@
+const axios = require('axios');
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+const { writeFileAtomicSync } = require('./AtomicFile');
+
+/**
+ * @typedef {import('axios').AxiosRequestConfig} AxiosRequestConfig
+ * @typedef {import('axios').AxiosResponse} AxiosResponse
+ * @typedef {import('../types/RateLimit').RateLimitPolicy} RateLimitPolicy
+ * @typedef {import('../types/RateLimit').RateLimiterConfig} RateLimiterConfig
+ * @typedef {import('../types/RateLimit').RateLimitRequestOptions} RateLimitRequestOptions
+ * @typedef {import('../types/RateLimit').RateLimitUsage} RateLimitUsage
+ * @typedef {import('../types/RateLimit').RateLimitQuota} RateLimitQuota
+ * @typedef {{ request(config: AxiosRequestConfig): Promise<AxiosResponse> }} HttpClient
+ */
+
+const HOUR = 60 * 60 * 1000;
+
+// Regulations.gov (api.data.gov) allows 1000 requests per hour per API key
+const REGULATIONS_HOST = 'api.regulations.gov';
+/** @type {RateLimitPolicy} */
+const REGULATIONS_POLICY = { requestsPerSecond: 4, burst: 4, hourlyQuota: 1000 };
+
+// Same pace as the fixed delays the scrapers used: 250ms between Regulations.gov pages, 2s on sba.gov, 3s on irs.gov
+/** @type {Record<string, RateLimitPolicy>} */
+const DEFAULT_POLICIES = {
+  [REGULATIONS_HOST]: REGULATIONS_POLICY,
+  'api.sba.gov': { requestsPerSecond: 1, burst: 2 },
+  'www.sba.gov': { requestsPerSecond: 0.5, burst: 1 },
+  'www.irs.gov': { requestsPerSecond: 1 / 3, burst: 1 }
+};
+
+// Local servers (test fixtures, mirrors) aren't rate limited
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+// Usage changes within this window are saved in one write
+const SAVE_DELAY_MS = 1000;
+
+const sleep = (/** @type {number} */ ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * A request refused before it was sent, because of the hourly quota or a wait
+ * longer than maxWaitMs
+ * @param {string} message
+ * @param {number} retryAfterMs
+ * @returns {Error & { code: 'RATE_LIMITED', retryAfterMs: number }}
+ */
+function rateLimitError(message, retryAfterMs) {
+  return Object.assign(new Error(message), { code: /** @type {const} */ ('RATE_LIMITED'), retryAfterMs });
+}
+
+/**
+ * Retry-After as seconds or an HTTP date
+ * @param {unknown} value
+ * @returns {number | null} Milliseconds to wait
+ */
+function parseRetryAfter(value) {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Shared limiter for outbound HTTP. Each upstream host has a token bucket
+ * (burst, then requestsPerSecond); requests sending an X-Api-Key get their own
+ * bucket and hourly quota, since api.data.gov limits per key. A 429 (or a 503
+ * with Retry-After) blocks the key until Retry-After and the request is
+ * retried. Hourly usage and blocks are saved to a file, so a restart doesn't
+ * reset the quota; usage is written at most once per saveDelayMs, blocks
+ * straight away.
+ */
+class RateLimiter {
+  /**
+   * @param {Partial<RateLimiterConfig>} [config]
+   * @param {HttpClient} [http] Defaults to axios
+   */
+  constructor(config = {}, http = axios) {
+    this.http = http;
+    this.policies = { ...DEFAULT_POLICIES, ...config.policies };
+    this.defaultPolicy = config.defaultPolicy || { requestsPerSecond: 1, burst: 2 };
+    this.maxRetries = config.maxRetries ?? 2;
+    this.maxWaitMs = config.maxWaitMs ?? 30000;
+    this.filePath = config.filePath ? path.resolve(config.filePath) : null;
+    this.saveDelayMs = config.saveDelayMs ?? SAVE_DELAY_MS;
+    /** @type {NodeJS.Timeout | null} */
+    this.saveTimer = null;
+    this.saveFailed = false;
+    /** @type {Map<string, number>} Token bucket per key, as the time its next token is free */
+    this.nextFreeAt = new Map();
+    /** @type {Map<string, RateLimitUsage>} */
+    this.usage = new Map();
+    this.load();
+  }
+
+  /**
+   * axios.get through the limiter
+   * @param {string} url
+   * @param {AxiosRequestConfig} [config]
+   * @param {RateLimitRequestOptions} [options]
+   * @returns {Promise<AxiosResponse>}
+   */
+  get(url, config = {}, options = {}) {
+    return this.request({ ...config, method: 'get', url }, options);
+  }
+
+  /**
+   * @param {AxiosRequestConfig} config
+   * @param {RateLimitRequestOptions} [options]
+   * @returns {Promise<AxiosResponse>}
+   */
+  async request(config, options = {}) {
+    const url = new URL(config.url || '');
+    if (LOOPBACK_HOSTS.includes(url.hostname)) {
+      return this.http.request(config);
+    }
+
+    const host = url.host;
+    const key = this.keyFor(host, config.headers);
+    const maxWaitMs = options.maxWaitMs ?? this.maxWaitMs;
+    const maxRetries = options.maxRetries ?? this.maxRetries;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire(key, host, maxWaitMs);
+      try {
+        const response = await this.http.request(config);
+        this.syncQuota(key, host, response.headers);
+        return response;
+      } catch (error) {
+        const status = error.response?.status;
+        const retryAfterMs = parseRetryAfter(error.response?.headers?.['retry-after']) ??
+          (status === 429 ? 1000 * 2 ** attempt : null);
+        if ((status !== 429 && status !== 503) || retryAfterMs === null) throw error;
+
+        this.block(key, retryAfterMs, status === 429);
+        if (attempt >= maxRetries || retryAfterMs > maxWaitMs) throw error;
+        console.warn(`⏳ ${host} returned ${status} - retrying in ${retryAfterMs}ms`);
+      }
+    }
+  }
+
+  /**
+   * Take a token for the key, waiting for one (and for any Retry-After block)
+   * @param {string} key
+   * @param {string} host
+   * @param {number} maxWaitMs
+   */
+  async acquire(key, host, maxWaitMs) {
+    const policy = this.policyFor(host);
+    const usage = this.currentUsage(key);
+    const now = Date.now();
+
+    if (policy.hourlyQuota && usage.used >= policy.hourlyQuota) {
+      throw rateLimitError(`${host} hourly quota of ${policy.hourlyQuota} requests is used up`, usage.window_start + HOUR - now);
+    }
+
+    // Token bucket as the time the next token is free: up to `burst` tokens
+    // are available now, each request pushes the next one back by 1/rate
+    const intervalMs = 1000 / policy.requestsPerSecond;
+    const nextFreeAt = Math.max(this.nextFreeAt.get(key) || 0, now - (policy.burst - 1) * intervalMs, usage.blocked_until);
+    const waitMs = Math.max(0, nextFreeAt - now);
+    if (waitMs > maxWaitMs) {
+      throw rateLimitError(`${host} is rate limited for another ${Math.ceil(waitMs / 1000)}s`, waitMs);
+    }
+
+    this.nextFreeAt.set(key, nextFreeAt + intervalMs);
+    usage.used++;
+    this.save();
+    if (waitMs > 0) await sleep(waitMs);
+
+    // Another request may have hit a 429 while this one waited
+    const blockedMs = usage.blocked_until - Date.now();
+    if (blockedMs > maxWaitMs) {
+      throw rateLimitError(`${host} is rate limited for another ${Math.ceil(blockedMs / 1000)}s`, blockedMs);
+    }
+    if (blockedMs > 0) await sleep(blockedMs);
+  }
+
+  /**
+   * Hold every request for the key until the upstream's Retry-After has passed
+   * @param {string} key
+   * @param {number} retryAfterMs
+   * @param {boolean} throttled A 429 rather than an overloaded upstream
+   */
+  block(key, retryAfterMs, throttled) {
+    const usage = this.currentUsage(key);
+    usage.blocked_until = Math.max(usage.blocked_until, Date.now() + retryAfterMs);
+    if (throttled) usage.throttled++;
+    this.nextFreeAt.set(key, Math.max(this.nextFreeAt.get(key) || 0, usage.blocked_until));
+    this.flush();
+  }
+
+  /**
+   * Trust the upstream's own count when it reports one (X-RateLimit-Remaining)
+   * @param {string} key
+   * @param {string} host
+   * @param {any} headers
+   */
+  syncQuota(key, host, headers) {
+    const quota = this.policyFor(host).hourlyQuota;
+    const remaining = parseInt(headers?.['x-ratelimit-remaining'], 10);
+    if (!quota || Number.isNaN(remaining)) return;
+
+    const usage = this.currentUsage(key);
+    const used = quota - remaining;
+    if (used > usage.used) {
+      usage.used = used;
+      this.save();
+    }
+  }
+
+  /**
+   * Hourly usage of every key seen in the current window
+   * @returns {RateLimitQuota[]}
+   */
+  getQuotas() {
+    const now = Date.now();
+    return Array.from(this.usage.keys()).map(key => {
+      const usage = this.currentUsage(key);
+      const host = key.split('#')[0] || key;
+      const limit = this.policyFor(host).hourlyQuota ?? null;
+      return {
+        key,
+        host,
+        used: usage.used,
+        limit,
+        remaining: limit === null ? null : Math.max(0, limit - usage.used),
+        throttled: usage.throttled,
+        resets_at: new Date(usage.window_start + HOUR).toISOString(),
+        blocked_until: usage.blocked_until > now ? new Date(usage.blocked_until).toISOString() : null
+      };
+    });
+  }
+
+  /**
+   * @param {string} host
+   * @returns {RateLimitPolicy}
+   */
+  policyFor(host) {
+    return this.policies[host] || this.defaultPolicy;
+  }
+
+  /**
+   * The host, plus a hash of the API key (never the key itself, since usage is saved)
+   * @param {string} host
+   * @param {any} headers
+   * @returns {string}
+   */
+  keyFor(host, headers) {
+    const apiKey = Object.entries(headers || {}).find(([name]) => name.toLowerCase() === 'x-api-key')?.[1];
+    if (!apiKey) return host;
+    return `${host}#${crypto.createHash('sha256').update(String(apiKey)).digest('hex').substring(0, 8)}`;
+  }
+
+  /**
+   * The key's usage, starting a new window once the hour is over
+   * @param {string} key
+   * @returns {RateLimitUsage}
+   */
+  currentUsage(key) {
+    const now = Date.now();
+    let usage = this.usage.get(key);
+    if (!usage) {
+      usage = { window_start: now, used: 0, throttled: 0, blocked_until: 0 };
+      this.usage.set(key, usage);
+    } else if (now >= usage.window_start + HOUR) {
+      usage.window_start = now;
+      usage.used = 0;
+      usage.throttled = 0;
+    }
+    return usage;
+  }
+
+  load() {
+    if (!this.filePath || !fs.existsSync(this.filePath)) return;
+
+    try {
+      /** @type {{[key: string]: RateLimitUsage}} */
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      Object.entries(data).forEach(([key, usage]) => this.usage.set(key, usage));
+    } catch (error) {
+      console.error(`❌ Failed to load rate limit usage from ${this.filePath}:`, error);
+    }
+  }
+
+  /**
+   * Write the usage within saveDelayMs, together with any other changes by then
+   */
+  save() {
+    if (!this.filePath || this.saveTimer) return;
+    this.saveTimer = setTimeout(() => this.flush(), this.saveDelayMs);
+    this.saveTimer.unref();
+  }
+
+  /**
+   * Write the usage now
+   */
+  flush() {
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    if (!this.filePath) return;
+
+    try {
+      writeFileAtomicSync(this.filePath, JSON.stringify(Object.fromEntries(this.usage)));
+    } catch (error) {
+      // Read-only filesystems (serverless functions) keep the usage in memory
+      if (!this.saveFailed) console.warn(`⚠️ Could not save rate limit usage to ${this.filePath}:`, error.message);
+      this.saveFailed = true;
+    }
+  }
+}
+
+/**
+ * Rate limiter settings from the environment: RATE_LIMIT_FILE (empty keeps
+ * usage in memory), RATE_LIMIT_REGULATIONS_PER_HOUR, RATE_LIMIT_DEFAULT_PER_SECOND,
+ * RATE_LIMIT_MAX_RETRIES and RATE_LIMIT_MAX_WAIT_MS
+ * @returns {RateLimiterConfig}
+ */
+function getRateLimiterConfig() {
+  const perSecond = parseFloat(process.env.RATE_LIMIT_DEFAULT_PER_SECOND || '');
+  const maxRetries = parseInt(process.env.RATE_LIMIT_MAX_RETRIES || '', 10);
+
+  return {
+    filePath: process.env.RATE_LIMIT_FILE ?? 'data/rate-limits.json',
+    policies: {
+      ...DEFAULT_POLICIES,
+      [REGULATIONS_HOST]: {
+        ...REGULATIONS_POLICY,
+        hourlyQuota: parseInt(process.env.RATE_LIMIT_REGULATIONS_PER_HOUR || '', 10) || REGULATIONS_POLICY.hourlyQuota
+      }
+    },
+    defaultPolicy: { requestsPerSecond: perSecond > 0 ? perSecond : 1, burst: 2 },
+    maxRetries: Number.isNaN(maxRetries) ? 2 : maxRetries,
+    maxWaitMs: parseInt(process.env.RATE_LIMIT_MAX_WAIT_MS || '', 10) || 30000
+  };
+}
+
+/** @type {RateLimiter | null} */
+let sharedLimiter = null;
+
+/**
+ * The process-wide limiter, so every scraper, verifier and search shares the
+ * same buckets and quotas
+ * @returns {RateLimiter}
+ */
+function getRateLimiter() {
+  if (!sharedLimiter) {
+    sharedLimiter = new RateLimiter(getRateLimiterConfig());
+    // Don't lose the last batch of usage on a clean exit
+    process.once('exit', () => sharedLimiter?.flush());
+  }
+  return sharedLimiter;
+}
+
+module.exports = {
+  RateLimiter,
+  getRateLimiter,
+  getRateLimiterConfig,
+  parseRetryAfter,
+  rateLimitError
+};
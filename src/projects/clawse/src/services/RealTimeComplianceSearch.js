@@ -1,45 +1,64 @@
-const axios = require('axios');
 const crypto = require('crypto');
 const { v4: uuidv4 } = require('uuid');
+const { createLlmClient } = require('./LlmClient');
+const { createSemanticRuleRanker } = require('./SemanticRuleRanker');
+const { createResultCache } = require('./ResultCache');
+const { getRateLimiter } = require('./RateLimiter');
+
+// Searches are interactive: fail over to the other sources rather than queue behind a scrape
+const SEARCH_MAX_WAIT_MS = 5000;
 
 /**
  * Real-Time Compliance Search Pipeline
  * Integrates SBA, Regulations.gov, and IRS APIs with intelligent caching
  */
 class RealTimeComplianceSearch {
-  constructor(openaiApiKey, firestoreService, regulationsApiKey) {
+  /**
+   * @param {string | undefined} openaiApiKey
+   * @param {any} firestoreService
+   * @param {string | undefined} regulationsApiKey
+   * @param {import('../types/LlmClient').LlmClient} [llm] Defaults to the client selected by LLM_PROVIDER
+   * @param {import('./SemanticRuleRanker').SemanticRuleRanker} [ranker] Defaults to the embeddings selected by EMBEDDING_PROVIDER
+   * @param {import('./ResultCache').ResultCache} [cache] Defaults to the store selected by CACHE_BACKEND
+   */
+  constructor(openaiApiKey, firestoreService, regulationsApiKey, llm = createLlmClient({ apiKey: openaiApiKey }), ranker = createSemanticRuleRanker(firestoreService), cache = createResultCache()) {
     this.openaiApiKey = openaiApiKey;
+    this.llm = llm;
+    this.ranker = ranker;
     this.firestoreService = firestoreService;
     this.regulationsApiKey = regulationsApiKey;
     
-    // In-memory cache for search results (6 hour TTL)
-    this.searchCache = new Map();
+    // Search results and Regulations.gov responses (TTL per entry type, see ResultCache)
+    this.cache = cache;
     this.processingQueue = new Map();
     this.popularTerms = new Map();
     
-    // API rate limits
-    this.rateLimits = {
-      regulations: { calls: 0, resetTime: Date.now() + 3600000 }, // 1000/hour
-      sba: { calls: 0, resetTime: Date.now() + 3600000 }, // No limit but be respectful
-      irs: { calls: 0, resetTime: Date.now() + 3600000 } // Web scraping limit
-    };
+    // Outbound API calls share the process-wide rate limiter and hourly quotas
+    this.http = getRateLimiter();
 
     console.log('🚀 Real-Time Compliance Search initialized');
   }
 
   /**
    * Main search method - returns cached results immediately or searches APIs
+   * @param {string} query
+   * @param {string | null} [businessCategory]
+   * @param {any} [businessProfile]
+   * @param {((progress: { step: string, percentage: number, message: string, timestamp: number, source?: string, count?: number, error?: string, rules?: any[] }) => void) | null} [progressCallback]
+   *   Receives each phase; `source_complete` events name the API and its result count,
+   *   and `ai_batch_processing` events carry the batch's processed rules
+   * @param {AbortSignal} [signal] Cancels the API requests and AI batches still outstanding
    */
-  async search(query, businessCategory = null, businessProfile = null, progressCallback = null) {
+  async search(query, businessCategory = null, businessProfile = null, progressCallback = null, signal = undefined) {
     const startTime = Date.now();
-    const cacheKey = this.generateCacheKey(query, businessCategory);
+    const cacheKey = this.generateCacheKey(query, businessCategory, businessProfile);
 
     console.log(`🔍 Real-time search for: "${query}" (category: ${businessCategory || 'general'})`);
 
     // Progress tracking
-    const updateProgress = (step, percentage, message) => {
+    const updateProgress = (step, percentage, message, details = {}) => {
       if (progressCallback) {
-        progressCallback({ step, percentage, message, timestamp: Date.now() });
+        progressCallback({ step, percentage, message, timestamp: Date.now(), ...details });
       }
     };
 
@@ -47,7 +66,7 @@ class RealTimeComplianceSearch {
       updateProgress('initializing', 5, 'Starting compliance search...');
 
       // 1. Check cache first (immediate response)
-      const cached = this.getCachedResult(cacheKey);
+      const cached = await this.getCachedResult(cacheKey);
       if (cached) {
         console.log('🎯 Cache hit - returning cached results');
         updateProgress('complete', 100, 'Retrieved from cache');
@@ -62,23 +81,33 @@ class RealTimeComplianceSearch {
       updateProgress('cache_check', 10, 'Cache miss - searching government databases...');
 
       // 2. Check if already processing this query
-      if (this.processingQueue.has(cacheKey)) {
+      const pending = this.processingQueue.get(cacheKey);
+      if (pending) {
         console.log('⏳ Query already processing, waiting for result...');
         updateProgress('waiting', 15, 'Another search in progress, waiting...');
-        return await this.processingQueue.get(cacheKey);
+        try {
+          return await pending.promise;
+        } catch (error) {
+          // The search we joined was cancelled by its own caller, so run ours instead
+          if (!pending.signal?.aborted) throw error;
+          signal?.throwIfAborted();
+        }
       }
 
       // 3. Start new real-time search
-      const searchPromise = this.performRealTimeSearch(query, businessCategory, businessProfile, cacheKey, startTime, updateProgress);
-      this.processingQueue.set(cacheKey, searchPromise);
+      const entry = {
+        promise: this.performRealTimeSearch(query, businessCategory, businessProfile, cacheKey, startTime, updateProgress, signal),
+        signal
+      };
+      this.processingQueue.set(cacheKey, entry);
 
       try {
-        const result = await searchPromise;
-        this.setCachedResult(cacheKey, result);
+        const result = await entry.promise;
+        await this.setCachedResult(cacheKey, result);
         updateProgress('complete', 100, 'Compliance search completed successfully');
         return result;
       } finally {
-        this.processingQueue.delete(cacheKey);
+        if (this.processingQueue.get(cacheKey) === entry) this.processingQueue.delete(cacheKey);
       }
 
     } catch (error) {
@@ -91,7 +120,7 @@ class RealTimeComplianceSearch {
   /**
    * Perform the actual real-time search across all APIs
    */
-  async performRealTimeSearch(query, businessCategory, businessProfile, cacheKey, startTime, updateProgress) {
+  async performRealTimeSearch(query, businessCategory, businessProfile, cacheKey, startTime, updateProgress, signal = undefined) {
     console.log('🔄 Starting real-time API search...');
 
     // Skip database search - everything is real-time now
@@ -102,17 +131,32 @@ class RealTimeComplianceSearch {
     updateProgress('api_search', 30, 'Searching government APIs...');
 
     const apiSearchPromises = [
-      this.searchRegulationsAPI(query, updateProgress).catch(err => ({ source: 'regulations', error: err.message, results: [] })),
-      this.searchSBAAPI(query, businessCategory, updateProgress).catch(err => ({ source: 'sba', error: err.message, results: [] })),
+      this.searchRegulationsAPI(query, updateProgress, signal).catch(err => ({ source: 'regulations', error: err.message, results: [] })),
+      this.searchSBAAPI(query, businessCategory, updateProgress, signal).catch(err => ({ source: 'sba', error: err.message, results: [] })),
       this.searchIRSAPI(query, businessCategory, updateProgress).catch(err => ({ source: 'irs', error: err.message, results: [] }))
     ];
 
-    // Wait for all APIs with 8-second timeout
+    // Wait for all APIs with 8-second timeout, reporting each one as it finishes
+    const sourceNames = { regulations: 'Regulations.gov', sba: 'SBA', irs: 'IRS' };
     const apiResults = await Promise.allSettled(
-      apiSearchPromises.map(p => this.withTimeout(p, 8000))
+      apiSearchPromises.map((p, index) => {
+        const source = ['regulations', 'sba', 'irs'][index];
+        return this.withTimeout(p, 8000).then(
+          result => {
+            const count = result.results ? result.results.length : 0;
+            updateProgress('source_complete', 58, `${sourceNames[source]}: ${count} results`, { source, count, ...(result.error && { error: result.error }) });
+            return result;
+          },
+          error => {
+            updateProgress('source_complete', 58, `${sourceNames[source]} failed`, { source, count: 0, error: error.message });
+            throw error;
+          }
+        );
+      })
     );
 
     // Phase 3: Process API results
+    signal?.throwIfAborted();
     updateProgress('processing_apis', 60, 'Processing API responses...');
     const allRawResults = [...dbResults];
     const apiStats = { regulations: 0, sba: 0, irs: 0, errors: [] };
@@ -134,9 +178,14 @@ class RealTimeComplianceSearch {
 
     // Phase 4: AI processing and deduplication
     updateProgress('ai_processing', 75, `Processing ${allRawResults.length} rules with AI...`);
-    const processedResults = await this.processAndDeduplicateResults(allRawResults, query, businessProfile, updateProgress);
+    const processedResults = await this.processAndDeduplicateResults(allRawResults, query, businessProfile, updateProgress, signal);
+    signal?.throwIfAborted();
 
-    // Phase 5: Store new rules in background (don't wait)
+    // Phase 5: Semantic ranking; live results aren't library rules, so their vectors stay in memory
+    updateProgress('ranking', 88, 'Ranking rules by relevance...');
+    const rankedRules = await this.rankRules(processedResults.rules, query, businessProfile, { persist: false });
+
+    // Phase 6: Store new rules in background (don't wait)
     updateProgress('storing', 90, 'Storing new rules in database...');
     if (processedResults.newRules.length > 0) {
       this.storeNewRulesInBackground(processedResults.newRules);
@@ -146,7 +195,7 @@ class RealTimeComplianceSearch {
     console.log(`✅ Real-time search completed in ${responseTime}ms`);
 
     return {
-      results: processedResults.rules,
+      results: rankedRules,
       source: 'hybrid',
       responseTime: `${responseTime}ms`,
       cached: false,
@@ -154,6 +203,8 @@ class RealTimeComplianceSearch {
         fromDatabase: dbResults.length,
         fromAPIs: allRawResults.length - dbResults.length,
         totalProcessed: processedResults.rules.length,
+        droppedByRanking: processedResults.rules.length - rankedRules.length,
+        rankedWith: this.ranker.embedder.model,
         newRulesFound: processedResults.newRules.length,
         apiStats,
         processingTime: responseTime
@@ -162,53 +213,45 @@ class RealTimeComplianceSearch {
   }
 
   /**
-   * Enhanced database search with business activity matching
+   * Database search ranked by semantic similarity to the query and business description
    */
   async searchDatabase(query, businessProfile) {
     try {
-      if (!businessProfile) {
-        // Generic search without business profile
-        const snapshot = await this.firestoreService.db
-          .collection('compliance_rules')
-          .where('status', '==', 'active')
-          .limit(50)
-          .get();
-
-        const allRules = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
-
-        // Enhanced keyword matching
-        const queryWords = this.extractSearchKeywords(query);
-        return this.filterRulesByRelevance(allRules, queryWords);
-      }
-
-      // Enhanced business profile matching with activity analysis
-      const profileRules = await this.firestoreService.getMatchingRules(businessProfile);
-
-      // Additional filtering based on business description and query
-      if (businessProfile.industry_description) {
-        const businessKeywords = this.extractBusinessKeywords(businessProfile.industry_description);
-        const queryKeywords = this.extractSearchKeywords(query);
-
-        // Score rules based on relevance to actual business activities
-        const scoredRules = profileRules.map(rule => ({
-          ...rule,
-          relevanceScore: this.calculateRelevanceScore(rule, businessKeywords, queryKeywords)
-        }));
-
-        // Filter out low-relevance rules and sort by score
-        return scoredRules
-          .filter(rule => rule.relevanceScore > 0.8) // Very strict relevance threshold
-          .sort((a, b) => b.relevanceScore - a.relevanceScore)
-          .slice(0, 20); // Limit results to most relevant
-      }
+      const rules = businessProfile
+        ? await this.firestoreService.getMatchingRules(businessProfile)
+        : await this.firestoreService.getRules(50);
 
-      return profileRules;
+      return (await this.rankRules(rules, query, businessProfile)).slice(0, 20);
     } catch (error) {
       console.error('Database search failed:', error);
       return [];
     }
   }
 
+  /**
+   * Order rules by semantic similarity to the query and the business
+   * description, recording the score as relevanceScore. Rules the ranker
+   * drops (see SEMANTIC_MIN_SCORE and SEARCH_PENALTY_RERANK) are left out.
+   * If embedding fails, the rules are returned in their original order.
+   * @param {import('../types/ComplianceRule').ComplianceRule[]} rules
+   * @param {string} query
+   * @param {{ industry_description?: string } | null} [businessProfile]
+   * @param {{ persist?: boolean }} [options]
+   * @returns {Promise<Array<import('../types/ComplianceRule').ComplianceRule & { relevanceScore?: number }>>}
+   */
+  async rankRules(rules, query, businessProfile = null, options = {}) {
+    try {
+      const ranked = await this.ranker.rank(rules, {
+        query,
+        business_description: businessProfile?.industry_description || ''
+      }, options);
+      return ranked.map(({ rule, score }) => ({ ...rule, relevanceScore: score }));
+    } catch (error) {
+      console.warn('⚠️ Semantic ranking failed, keeping search order:', error.message);
+      return rules;
+    }
+  }
+
   /**
    * Extract meaningful keywords from search query
    */
@@ -225,249 +268,33 @@ class RealTimeComplianceSearch {
   }
 
   /**
-   * Extract business activity keywords from description
+   * Generate cache key for search results; results are ranked against the
+   * business description, so it is part of the key
+   * @param {string} query
+   * @param {string | null} [businessCategory]
+   * @param {any} [businessProfile]
    */
-  extractBusinessKeywords(description) {
-    const text = description.toLowerCase();
-
-    const keywords = {
-      services: [],
-      technology: [],
-      industry: [],
-      activities: []
-    };
-
-    // Service-related keywords
-    const servicePatterns = [
-      'design', 'development', 'consulting', 'support', 'maintenance',
-      'training', 'implementation', 'integration', 'customization',
-      'optimization', 'management', 'analysis', 'strategy', 'solutions'
-    ];
-
-    // Technology keywords
-    const techPatterns = [
-      'software', 'website', 'mobile', 'app', 'application', 'platform',
-      'database', 'cloud', 'api', 'digital', 'online', 'web', 'internet'
-    ];
-
-    // Industry keywords
-    const industryPatterns = [
-      'healthcare', 'finance', 'retail', 'manufacturing', 'construction',
-      'education', 'nonprofit', 'government', 'startup', 'enterprise',
-      'restaurant', 'food', 'medical', 'legal', 'accounting'
-    ];
-
-    // Extract matching keywords
-    servicePatterns.forEach(pattern => {
-      if (text.includes(pattern)) keywords.services.push(pattern);
-    });
-
-    techPatterns.forEach(pattern => {
-      if (text.includes(pattern)) keywords.technology.push(pattern);
-    });
-
-    industryPatterns.forEach(pattern => {
-      if (text.includes(pattern)) keywords.industry.push(pattern);
-    });
-
-    // Extract activity phrases
-    const activityPatterns = [
-      /we (provide|offer|deliver|create|build|develop|design|manage|help)/g,
-      /specializ(e|ing) in ([\w\s]+)/g,
-      /(custom|affordable|user-friendly|tailored) ([\w\s]+)/g
-    ];
-
-    activityPatterns.forEach(pattern => {
-      const matches = text.match(pattern);
-      if (matches) {
-        matches.forEach(match => {
-          keywords.activities.push(match.replace(/we |specializ(e|ing) in /g, '').trim());
-        });
-      }
-    });
-
-    return keywords;
-  }
-
-  /**
-   * Calculate relevance score for a rule based on business keywords
-   */
-  calculateRelevanceScore(rule, businessKeywords, queryKeywords) {
-    let score = 0;
-    const ruleText = `${rule.title} ${rule.description}`.toLowerCase();
-
-    // Check for business service matches
-    businessKeywords.services.forEach(keyword => {
-      if (ruleText.includes(keyword)) score += 0.3;
-    });
-
-    // Check for technology matches
-    businessKeywords.technology.forEach(keyword => {
-      if (ruleText.includes(keyword)) score += 0.4;
-    });
-
-    // Check for industry matches
-    businessKeywords.industry.forEach(keyword => {
-      if (ruleText.includes(keyword)) score += 0.5;
-    });
-
-    // Check for activity matches
-    businessKeywords.activities.forEach(activity => {
-      if (ruleText.includes(activity)) score += 0.6;
-    });
-
-    // Check for query keyword matches
-    queryKeywords.forEach(keyword => {
-      if (ruleText.includes(keyword)) score += 0.2;
-    });
-
-    // ENHANCED IRRELEVANT RULE PENALTIES
-    const irrelevantCategories = {
-      healthcare: ['hospital', 'medicare', 'medicaid', 'medical', 'patient', 'clinical', 'health care', 'nursing', 'dialysis', 'renal'],
-      manufacturing: ['manufacturing', 'factory', 'production line', 'assembly', 'furnace', 'washer', 'appliance'],
-      aviation: ['aircraft', 'airplane', 'helicopter', 'aviation', 'airworthiness', 'flight'],
-      marine: ['marine', 'ocean', 'offshore', 'maritime', 'vessel', 'ship'],
-      agriculture: ['farming', 'agricultural', 'crop', 'livestock', 'pesticide'],
-      energy: ['nuclear', 'power plant', 'energy production', 'utility', 'electricity generation'],
-      specialized: ['endangered species', 'wildlife', 'environmental protection', 'toxic substances', 'hazardous waste'],
-      consumer_products: ['toy', 'children', 'infant', 'baby', 'consumer product safety']
-    };
-
-    // Apply penalties based on business type
-    const businessType = this.inferBusinessTypeFromKeywords(businessKeywords);
-
-    Object.entries(irrelevantCategories).forEach(([category, keywords]) => {
-      // Only apply penalties if the business is clearly NOT in that category
-      if (!this.isBusinessInCategory(businessType, category)) {
-        keywords.forEach(keyword => {
-          if (ruleText.includes(keyword)) {
-            score -= 0.9; // Heavy penalty for irrelevant categories
-          }
-        });
-      }
-    });
-
-    // Additional penalties for obviously unrelated rules
-    const highPenaltyKeywords = [
-      'premerger notification', 'merger', 'acquisition',
-      'cybersecurity labeling', 'copyright circumvention',
-      'supplemental nutrition', 'food assistance',
-      'clearing agency', 'derivatives',
-      'patent fees', 'trademark fees',
-      'federal acquisition regulation', 'sam.gov', 'government contract',
-      'ophthalmic', 'eyeglass rule', 'broadcast', 'cable television',
-      'burma sanctions', 'ofac', 'myanmar', 'equal employment opportunity',
-      'advanced manufacturing', 'production credit', 'modernizing grant'
-    ];
-
-    highPenaltyKeywords.forEach(keyword => {
-      if (ruleText.includes(keyword)) score -= 1.0;
-    });
-
-    return Math.max(0, Math.min(1, score)); // Clamp between 0 and 1
-  }
-
-  /**
-   * Infer business type from keywords
-   */
-  inferBusinessTypeFromKeywords(businessKeywords) {
-    if (businessKeywords.industry.some(ind => ['transportation', 'logistics', 'delivery'].includes(ind))) {
-      return 'transportation';
-    }
-    if (businessKeywords.technology.length > 0) {
-      return 'technology';
-    }
-    if (businessKeywords.industry.some(ind => ['healthcare', 'medical'].includes(ind))) {
-      return 'healthcare';
-    }
-    if (businessKeywords.services.some(svc => ['consulting', 'professional'].includes(svc))) {
-      return 'professional_services';
-    }
-    return 'general_business';
-  }
-
-  /**
-   * Check if business is in a specific category
-   */
-  isBusinessInCategory(businessType, category) {
-    const categoryMap = {
-      healthcare: ['healthcare'],
-      manufacturing: ['manufacturing'],
-      aviation: ['aviation', 'transportation'], // Transportation might include aviation
-      marine: ['marine', 'transportation'], // Transportation might include marine
-      agriculture: ['agriculture'],
-      energy: ['energy'],
-      specialized: [], // No business types match specialized environmental rules
-      consumer_products: ['manufacturing', 'retail']
-    };
-
-    return categoryMap[category]?.includes(businessType) || false;
-  }
-
-  /**
-   * Filter rules by relevance to query keywords
-   */
-  filterRulesByRelevance(rules, queryKeywords) {
-    return rules.filter(rule => {
-      const ruleText = `${rule.title} ${rule.description}`.toLowerCase();
-
-      // Must match at least one query keyword
-      const hasMatch = queryKeywords.some(keyword => ruleText.includes(keyword));
-
-      // Exclude obviously irrelevant rules
-      const irrelevantKeywords = ['hospital', 'medicare', 'medical', 'patient', 'clinical'];
-      const hasIrrelevant = irrelevantKeywords.some(keyword => ruleText.includes(keyword));
-
-      return hasMatch && !hasIrrelevant;
-    });
-  }
-
-  /**
-   * Generate cache key for search results
-   */
-  generateCacheKey(query, businessCategory) {
-    const key = `${query.toLowerCase().trim()}:${businessCategory || 'general'}`;
+  generateCacheKey(query, businessCategory, businessProfile = null) {
+    const description = (businessProfile?.industry_description || '').toLowerCase().trim();
+    const key = `${query.toLowerCase().trim()}:${businessCategory || 'general'}:${description}`;
     return crypto.createHash('md5').update(key).digest('hex');
   }
 
   /**
-   * Get cached search result if valid
+   * Get cached search result if still within its TTL
    */
-  getCachedResult(cacheKey) {
-    const cached = this.searchCache.get(cacheKey);
-    if (!cached) return null;
-
-    // Check if cache is expired (6 hours)
-    const cacheAge = Date.now() - cached.cachedAt;
-    const maxAge = 6 * 60 * 60 * 1000; // 6 hours
-
-    if (cacheAge > maxAge) {
-      this.searchCache.delete(cacheKey);
-      return null;
-    }
-
-    // Update hit count for popularity tracking
-    cached.hitCount = (cached.hitCount || 0) + 1;
-    return cached;
+  async getCachedResult(cacheKey) {
+    return (await this.cache.get('search', cacheKey)) || null;
   }
 
   /**
    * Cache search result
    */
-  setCachedResult(cacheKey, result) {
-    const cached = {
+  async setCachedResult(cacheKey, result) {
+    await this.cache.set('search', cacheKey, {
       ...result,
-      cachedAt: Date.now(),
-      hitCount: 1
-    };
-    
-    this.searchCache.set(cacheKey, cached);
-    
-    // Limit cache size (keep most recent 1000 entries)
-    if (this.searchCache.size > 1000) {
-      const oldestKey = this.searchCache.keys().next().value;
-      this.searchCache.delete(oldestKey);
-    }
+      cachedAt: Date.now()
+    });
   }
 
   /**
@@ -485,7 +312,7 @@ class RealTimeComplianceSearch {
   /**
    * Enhanced Regulations.gov API search with business activity targeting
    */
-  async searchRegulationsAPI(query, updateProgress = null) {
+  async searchRegulationsAPI(query, updateProgress = null, signal = undefined) {
     if (!this.regulationsApiKey) {
       console.warn('⚠️ No Regulations.gov API key available');
       return { source: 'regulations', results: [] };
@@ -501,20 +328,28 @@ class RealTimeComplianceSearch {
 
       console.log(`📡 Enhanced query: "${enhancedQuery}"`);
 
-      const response = await axios.get('https://api.regulations.gov/v4/documents', {
-        params: {
-          'filter[searchTerm]': enhancedQuery,
-          'filter[documentType]': 'Rule',
-          'page[size]': 25,
-          'sort': '-postedDate'
-        },
-        headers: {
-          'X-Api-Key': this.regulationsApiKey
-        },
-        timeout: 8000
-      });
+      // Regulations.gov allows 1000 calls/hour, so reuse documents fetched for the same query
+      const documentsKey = crypto.createHash('md5').update(enhancedQuery).digest('hex');
+      let documents = await this.cache.get('regulations', documentsKey);
+      if (!documents) {
+        const response = await this.http.get('https://api.regulations.gov/v4/documents', {
+          params: {
+            'filter[searchTerm]': enhancedQuery,
+            'filter[documentType]': 'Rule',
+            'page[size]': 25,
+            'sort': '-postedDate'
+          },
+          headers: {
+            'X-Api-Key': this.regulationsApiKey
+          },
+          timeout: 8000,
+          signal
+        }, { maxWaitMs: SEARCH_MAX_WAIT_MS });
+
+        documents = response.data.data || [];
+        await this.cache.set('regulations', documentsKey, documents);
+      }
 
-      const documents = response.data.data || [];
       const results = documents.map(doc => ({
         id: uuidv4(),
         title: doc.attributes.title || 'Untitled Rule',
@@ -543,7 +378,7 @@ class RealTimeComplianceSearch {
   /**
    * Enhanced SBA API and website search
    */
-  async searchSBAAPI(query, businessCategory, updateProgress = null) {
+  async searchSBAAPI(query, businessCategory, updateProgress = null, signal = undefined) {
     try {
       console.log('🏢 Searching SBA resources...');
       if (updateProgress) updateProgress('sba_api', 45, 'Searching SBA resources...');
@@ -558,14 +393,15 @@ class RealTimeComplianceSearch {
 
       // Try SBA API first (if available)
       try {
-        const apiResponse = await axios.get('https://api.sba.gov/v1/content/search', {
+        const apiResponse = await this.http.get('https://api.sba.gov/v1/content/search', {
           params: {
             q: query,
             category: businessCategory || 'business-guide',
             limit: 15
           },
-          timeout: 6000
-        });
+          timeout: 6000,
+          signal
+        }, { maxWaitMs: SEARCH_MAX_WAIT_MS });
 
         if (apiResponse.data && apiResponse.data.results) {
           apiResponse.data.results.forEach(item => {
@@ -739,7 +575,7 @@ class RealTimeComplianceSearch {
   /**
    * Process and deduplicate search results with AI
    */
-  async processAndDeduplicateResults(allRawResults, query, businessProfile, updateProgress = null) {
+  async processAndDeduplicateResults(allRawResults, query, businessProfile, updateProgress = null, signal = undefined) {
     console.log(`🤖 Processing ${allRawResults.length} raw results...`);
 
     // Separate existing rules from new API results
@@ -762,7 +598,7 @@ class RealTimeComplianceSearch {
 
     // Process new rules with AI in batches
     if (updateProgress) updateProgress('ai_categorizing', 82, 'Categorizing rules with AI...');
-    const processedNewRules = await this.batchProcessWithAI(deduplicatedRules, query, businessProfile, updateProgress);
+    const processedNewRules = await this.batchProcessWithAI(deduplicatedRules, query, businessProfile, updateProgress, signal);
 
     return {
       rules: [...existingRules, ...processedNewRules],
@@ -795,9 +631,9 @@ class RealTimeComplianceSearch {
   /**
    * Process rules with AI in batches for efficiency
    */
-  async batchProcessWithAI(rawRules, query, businessProfile, updateProgress = null) {
-    if (!this.openaiApiKey || rawRules.length === 0) {
-      console.log('⚠️ No OpenAI key or no rules to process, using basic processing');
+  async batchProcessWithAI(rawRules, query, businessProfile, updateProgress = null, signal = undefined) {
+    if (!this.llm.isAvailable() || rawRules.length === 0) {
+      console.log('⚠️ No LLM configured or no rules to process, using basic processing');
       return rawRules.map(rule => this.basicRuleProcessing(rule));
     }
 
@@ -806,6 +642,7 @@ class RealTimeComplianceSearch {
     const totalBatches = Math.ceil(rawRules.length / batchSize);
 
     for (let i = 0; i < rawRules.length; i += batchSize) {
+      signal?.throwIfAborted();
       const batch = rawRules.slice(i, i + batchSize);
       const batchNumber = Math.floor(i/batchSize) + 1;
       console.log(`🤖 Processing batch ${batchNumber}/${totalBatches}`);
@@ -815,19 +652,21 @@ class RealTimeComplianceSearch {
         updateProgress('ai_batch_processing', progressPercent, `Processing batch ${batchNumber}/${totalBatches} with AI...`);
       }
 
+      let batchResults;
       try {
-        const batchResults = await this.processBatchWithAI(batch, query, businessProfile);
-        processedRules.push(...batchResults);
+        batchResults = await this.processBatchWithAI(batch, query, businessProfile, signal);
       } catch (error) {
+        signal?.throwIfAborted();
         console.error('❌ AI batch processing failed, using basic processing:', error.message);
         // Fallback to basic processing
-        const basicResults = batch.map(rule => this.basicRuleProcessing(rule));
-        processedRules.push(...basicResults);
+        batchResults = batch.map(rule => this.basicRuleProcessing(rule));
       }
+      processedRules.push(...batchResults);
 
-      // Rate limiting between batches
-      if (i + batchSize < rawRules.length) {
-        await this.sleep(1000);
+      // Partial results, before ranking
+      if (updateProgress) {
+        updateProgress('ai_batch_processing', 82 + Math.floor((batchNumber / totalBatches) * 6),
+          `Processed batch ${batchNumber}/${totalBatches}`, { rules: batchResults });
       }
     }
 
@@ -837,10 +676,7 @@ class RealTimeComplianceSearch {
   /**
    * Process a batch of rules with AI
    */
-  async processBatchWithAI(rawRules, query, businessProfile) {
-    const OpenAI = require('openai');
-    const openai = new OpenAI({ apiKey: this.openaiApiKey });
-
+  async processBatchWithAI(rawRules, query, businessProfile, signal = undefined) {
     const businessContext = this.createBusinessContext(businessProfile, query);
 
     const prompt = `
@@ -922,16 +758,12 @@ For RELEVANT rules only, return a JSON object with this structure:
 
 ONLY include rules with relevance_score > 0.9. Return as JSON array, no other text.`;
 
-    // Using gpt-5-nano for fast, cost-effective compliance rule processing
-    const response = await openai.chat.completions.create({
-      model: "gpt-5-nano",
-      messages: [{ role: "user", content: prompt }],
-      max_completion_tokens: 50000
-    });
+    // Model, token limit and timeout come from the LLM_* settings (gpt-5-nano by default)
+    const response = await this.llm.complete([{ role: 'user', content: prompt }], { signal });
 
-    const content = response.choices[0]?.message?.content?.trim();
+    const content = response.content.trim();
     if (!content) {
-      throw new Error('No content received from OpenAI');
+      throw new Error('No content received from the LLM');
     }
 
     let aiResults;
@@ -1202,9 +1034,9 @@ ONLY include rules with relevance_score > 0.9. Return as JSON array, no other te
 
     for (const query of popularQueries) {
       try {
+        // Sequential, and the shared rate limiter paces the government API calls
         await this.search(query);
         console.log(`✅ Pre-warmed: ${query}`);
-        await this.sleep(2000); // Rate limiting
       } catch (error) {
         console.warn(`⚠️ Pre-warm failed for "${query}":`, error.message);
       }
@@ -1214,35 +1046,20 @@ ONLY include rules with relevance_score > 0.9. Return as JSON array, no other te
   }
 
   /**
-   * Get cache statistics
+   * Get cache statistics: entries in the backend, and hit/miss counters
+   * since this process started
    */
-  getCacheStats() {
-    const stats = {
-      totalCached: this.searchCache.size,
+  async getCacheStats() {
+    const stats = await this.cache.getStats();
+    return {
+      ...stats,
+      totalCached: stats.entries,
+      cacheHitRate: stats.hit_rate,
       popularTerms: Array.from(this.popularTerms.entries())
         .sort((a, b) => b[1] - a[1])
         .slice(0, 10),
-      processingQueue: this.processingQueue.size,
-      cacheHitRate: 0
+      processingQueue: this.processingQueue.size
     };
-
-    // Calculate cache hit rate
-    const totalHits = Array.from(this.searchCache.values())
-      .reduce((sum, cached) => sum + (cached.hitCount || 0), 0);
-    const totalRequests = totalHits + this.processingQueue.size;
-
-    if (totalRequests > 0) {
-      stats.cacheHitRate = Math.round((totalHits / totalRequests) * 100);
-    }
-
-    return stats;
-  }
-
-  /**
-   * Sleep utility
-   */
-  sleep(ms) {
-    return new Promise(resolve => setTimeout(resolve, ms));
   }
 }
 
@@ -0,0 +1,153 @@
+const { createCacheStore, getCacheConfig } = require('./CacheStore');
+
+/**
+ * @typedef {import('../types/Cache').CacheStore} CacheStore
+ * @typedef {import('../types/Cache').CacheConfig} CacheConfig
+ * @typedef {import('../types/Cache').CacheEntryType} CacheEntryType
+ * @typedef {import('../types/Cache').CacheStats} CacheStats
+ * @typedef {import('../types/Cache').CacheTypeStats} CacheTypeStats
+ */
+
+/** @type {CacheEntryType[]} */
+const ENTRY_TYPES = ['search', 'regulations'];
+
+// Entry types built from the rule library, dropped whenever rules change
+/** @type {CacheEntryType[]} */
+const RULE_DEPENDENT_TYPES = ['search'];
+
+/**
+ * Typed entries on top of a CacheStore: each entry type has its own TTL and
+ * key space, so one type can be invalidated without touching the others.
+ * Hits and misses are counted per type. Backend failures are logged and
+ * treated as misses, so a cache outage never fails a search.
+ */
+class ResultCache {
+  /**
+   * @param {CacheStore} store
+   * @param {Record<CacheEntryType, number>} ttlMs
+   */
+  constructor(store, ttlMs) {
+    this.store = store;
+    this.ttlMs = ttlMs;
+    this.errors = 0;
+    /** @type {Record<CacheEntryType, CacheTypeStats>} */
+    this.counters = /** @type {Record<CacheEntryType, CacheTypeStats>} */ (Object.fromEntries(ENTRY_TYPES.map(type => [type, {
+      hits: 0, misses: 0, sets: 0, invalidations: 0, ttl_ms: ttlMs[type]
+    }])));
+  }
+
+  /**
+   * @param {CacheEntryType} type
+   * @param {string} key
+   * @returns {Promise<unknown>}
+   */
+  async get(type, key) {
+    const counters = this.counters[type];
+    try {
+      const value = await this.store.get(`${type}:${key}`);
+      if (value === undefined) {
+        counters.misses++;
+      } else {
+        counters.hits++;
+      }
+      return value;
+    } catch (error) {
+      this.errors++;
+      counters.misses++;
+      console.warn(`⚠️ ${this.store.backend} cache read failed:`, error.message);
+      return undefined;
+    }
+  }
+
+  /**
+   * @param {CacheEntryType} type
+   * @param {string} key
+   * @param {unknown} value
+   */
+  async set(type, key, value) {
+    try {
+      await this.store.set(`${type}:${key}`, value, this.ttlMs[type]);
+      this.counters[type].sets++;
+    } catch (error) {
+      this.errors++;
+      console.warn(`⚠️ ${this.store.backend} cache write failed:`, error.message);
+    }
+  }
+
+  /**
+   * Drop every entry of a type
+   * @param {CacheEntryType} type
+   * @returns {Promise<number>} Entries removed
+   */
+  async invalidate(type) {
+    try {
+      const removed = await this.store.deleteByPrefix(`${type}:`);
+      this.counters[type].invalidations++;
+      return removed;
+    } catch (error) {
+      this.errors++;
+      console.warn(`⚠️ ${this.store.backend} cache invalidation failed:`, error.message);
+      return 0;
+    }
+  }
+
+  /**
+   * Drop the entry types built from the rule library; call after rules are
+   * stored, edited, merged or removed
+   * @returns {Promise<number>} Entries removed
+   */
+  async invalidateRules() {
+    let removed = 0;
+    for (const type of RULE_DEPENDENT_TYPES) {
+      removed += await this.invalidate(type);
+    }
+    if (removed > 0) console.log(`🧹 Cleared ${removed} cached search results after a rule change`);
+    return removed;
+  }
+
+  /**
+   * @returns {Promise<CacheStats>}
+   */
+  async getStats() {
+    let entries = 0;
+    try {
+      entries = await this.store.size();
+    } catch (error) {
+      this.errors++;
+      console.warn(`⚠️ ${this.store.backend} cache size failed:`, error.message);
+    }
+
+    const counters = Object.values(this.counters);
+    const hits = counters.reduce((sum, type) => sum + type.hits, 0);
+    const misses = counters.reduce((sum, type) => sum + type.misses, 0);
+
+    return {
+      backend: this.store.backend,
+      entries,
+      hits,
+      misses,
+      errors: this.errors,
+      hit_rate: hits + misses > 0 ? Math.round((hits / (hits + misses)) * 100) : 0,
+      by_type: /** @type {Record<CacheEntryType, CacheTypeStats>} */ (Object.fromEntries(
+        Object.entries(this.counters).map(([type, stats]) => [type, { ...stats }])
+      ))
+    };
+  }
+
+  async close() {
+    await this.store.close();
+  }
+}
+
+/**
+ * Result cache backed by the store selected by CACHE_BACKEND, with the
+ * CACHE_*_TTL_MS entry lifetimes
+ * @param {Partial<CacheConfig>} [overrides]
+ * @returns {ResultCache}
+ */
+function createResultCache(overrides = {}) {
+  const ttlMs = { ...getCacheConfig().ttlMs, ...overrides.ttlMs };
+  return new ResultCache(createCacheStore(overrides), ttlMs);
+}
+
+module.exports = { ResultCache, createResultCache };
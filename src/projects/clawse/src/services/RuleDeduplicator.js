@@ -0,0 +1,436 @@
+/**
+ * @typedef {import('../types/ComplianceRule').ComplianceRule} ComplianceRule
+ * @typedef {import('../types/ComplianceRule').ComplianceSource} ComplianceSource
+ * @typedef {import('../types/Repository').RuleRepository} RuleRepository
+ * @typedef {import('../types/RuleDeduplication').DedupSourceRule} DedupSourceRule
+ * @typedef {import('../types/RuleDeduplication').RuleDeduplicationEntry} RuleDeduplicationEntry
+ * @typedef {import('../types/RuleDeduplication').DedupCluster} DedupCluster
+ * @typedef {import('../types/RuleDeduplication').DedupReport} DedupReport
+ */
+
+const DEFAULTS = {
+  threshold: 0.45, // Minimum word similarity for two rules to count as the same obligation
+  numHashes: 126,
+  bands: 42 // 42 bands of 3 rows: pairs above ~0.29 similarity become candidates
+};
+
+// Rules the deduplicator reads per run; the rule collection is small enough to cluster in memory
+const DEDUP_SCAN_LIMIT = 10000;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'is', 'it', 'its',
+  'must', 'of', 'on', 'or', 'that', 'the', 'their', 'this', 'to', 'with', 'within', 'all', 'any', 'each'
+]);
+
+/**
+ * Deduplication index entry after storing a rule under its canonical_id.
+ * An exact canonical_id match is recorded at confidence 1.0 until the
+ * deduplicator scores it; the master set by a deduplication run is kept.
+ * @param {RuleDeduplicationEntry | null | undefined} entry
+ * @param {ComplianceRule} rule
+ * @param {string} ruleId
+ * @param {string} now
+ * @returns {RuleDeduplicationEntry}
+ */
+function indexSourceRule(entry, rule, ruleId, now) {
+  const previous = entry?.source_rules?.find(source => source.rule_id === ruleId);
+  return {
+    ...entry,
+    canonical_id: rule.canonical_id,
+    source_rules: [
+      ...(entry?.source_rules || []).filter(source => source.rule_id !== ruleId),
+      {
+        ...previous,
+        rule_id: ruleId,
+        source_id: rule.sources?.[0]?.source_id || 'unknown',
+        source_url: rule.sources?.[0]?.source_url || '',
+        confidence_score: previous?.confidence_score ?? 1.0,
+        last_seen: now
+      }
+    ],
+    master_rule_id: entry?.master_rule_id || ruleId,
+    updated_at: now
+  };
+}
+
+/**
+ * Finds rules that describe the same obligation even when they came from
+ * different sources with different canonical ids (Regulations.gov, SBA and
+ * AI generation hash different fields). Rules are compared on the set of
+ * normalized words in their title and description; MinHash signatures with
+ * LSH banding pick candidate pairs, which are then scored by exact Jaccard
+ * similarity. Only rules at the same level and in overlapping jurisdictions
+ * are compared.
+ *
+ * Each cluster keeps one master, the most authoritative rule, which gains the
+ * sources, tags and keywords of its duplicates. The duplicates are superseded
+ * by it, and the rule_deduplication entries of every canonical id in the
+ * cluster point at the master with the similarity as confidence.
+ */
+class RuleDeduplicator {
+  /**
+   * @param {RuleRepository | null} repository Only needed for deduplicate()
+   * @param {{ threshold?: number, numHashes?: number, bands?: number }} [options]
+   */
+  constructor(repository, options = {}) {
+    this.repository = repository;
+    this.threshold = options.threshold ?? DEFAULTS.threshold;
+    this.numHashes = options.numHashes || DEFAULTS.numHashes;
+    this.bands = options.bands || DEFAULTS.bands;
+    this.rows = Math.max(1, Math.floor(this.numHashes / this.bands));
+    this.seeds = Array.from({ length: this.numHashes }, (_, index) => this.hash32(`seed:${index}`));
+  }
+
+  /**
+   * Cluster stored rules, merge every cluster into its master and record
+   * the clusters in the deduplication index
+   * @param {{ dryRun?: boolean }} [options]
+   * @returns {Promise<DedupReport>}
+   */
+  async deduplicate(options = {}) {
+    if (!this.repository) throw new Error('RuleDeduplicator needs a repository to deduplicate stored rules');
+    const now = new Date().toISOString();
+    const rules = (await this.repository.getRecentRules(DEDUP_SCAN_LIMIT))
+      .filter(rule => rule.status === 'active' || rule.status === 'proposed');
+
+    const clusters = this.cluster(rules);
+    /** @type {DedupCluster[]} */
+    const report = [];
+
+    for (const { master, duplicates } of clusters) {
+      const merged = this.mergeInto(master, duplicates.map(duplicate => duplicate.rule));
+      report.push({
+        master_rule_id: master.id,
+        master_title: master.title,
+        duplicates: duplicates.map(({ rule, similarity }) => ({ rule_id: rule.id, title: rule.title, similarity })),
+        sources_added: merged.sources.length - (master.sources || []).length
+      });
+      if (options.dryRun) continue;
+
+      await this.repository.storeRules([
+        merged,
+        ...duplicates.map(({ rule }) => ({ ...rule, status: /** @type {const} */ ('superseded'), superseded_by: master.id }))
+      ]);
+      await this.repository.storeDeduplication(await this.indexEntries(master, duplicates, now));
+    }
+
+    return {
+      run_at: now,
+      dry_run: !!options.dryRun,
+      threshold: this.threshold,
+      rules_scanned: rules.length,
+      clusters: report,
+      duplicates: report.reduce((sum, cluster) => sum + cluster.duplicates.length, 0)
+    };
+  }
+
+  /**
+   * Fold near-duplicates in a list of rules into their masters without
+   * storing anything; order follows the first rule of each cluster
+   * @param {ComplianceRule[]} rules
+   * @returns {ComplianceRule[]}
+   */
+  collapse(rules) {
+    const clusters = this.cluster(rules);
+    const mergedBy = new Map();
+    clusters.forEach(({ master, duplicates }) => {
+      const merged = this.mergeInto(master, duplicates.map(duplicate => duplicate.rule));
+      [master, ...duplicates.map(duplicate => duplicate.rule)].forEach(rule => mergedBy.set(rule, merged));
+    });
+
+    const emitted = new Set();
+    return rules.flatMap(rule => {
+      const result = mergedBy.get(rule) || rule;
+      if (emitted.has(result)) return [];
+      emitted.add(result);
+      return [result];
+    });
+  }
+
+  /**
+   * Group near-duplicate rules. Only clusters with at least one duplicate are returned.
+   * @param {ComplianceRule[]} rules
+   * @returns {{ master: ComplianceRule, duplicates: { rule: ComplianceRule, similarity: number }[] }[]}
+   */
+  cluster(rules) {
+    const shingles = rules.map(rule => this.shingles(rule));
+    const parents = rules.map((_, index) => index);
+    const find = (/** @type {number} */ index) => {
+      while (parents[index] !== index) {
+        parents[index] = parents[/** @type {number} */ (parents[index])];
+        index = /** @type {number} */ (parents[index]);
+      }
+      return index;
+    };
+
+    for (const [first, second] of this.candidatePairs(shingles)) {
+      if (!this.sameScope(/** @type {ComplianceRule} */ (rules[first]), /** @type {ComplianceRule} */ (rules[second]))) continue;
+      if (this.jaccard(/** @type {Set<string>} */ (shingles[first]), /** @type {Set<string>} */ (shingles[second])) >= this.threshold) {
+        parents[find(first)] = find(second);
+      }
+    }
+
+    /** @type {Map<number, number[]>} */
+    const groups = new Map();
+    rules.forEach((_, index) => {
+      const root = find(index);
+      groups.set(root, [...(groups.get(root) || []), index]);
+    });
+
+    return Array.from(groups.values())
+      .filter(members => members.length > 1)
+      .map(members => {
+        const [masterIndex, ...rest] = [...members].sort((a, b) =>
+          this.compareMasters(/** @type {ComplianceRule} */ (rules[a]), /** @type {ComplianceRule} */ (rules[b])));
+        const masterShingles = /** @type {Set<string>} */ (shingles[/** @type {number} */ (masterIndex)]);
+        return {
+          master: /** @type {ComplianceRule} */ (rules[/** @type {number} */ (masterIndex)]),
+          duplicates: rest.map(index => ({
+            rule: /** @type {ComplianceRule} */ (rules[index]),
+            similarity: this.round(this.jaccard(masterShingles, /** @type {Set<string>} */ (shingles[index])))
+          }))
+        };
+      });
+  }
+
+  /**
+   * Similarity of two rules (Jaccard over their word sets), 0-1
+   * @param {ComplianceRule} first
+   * @param {ComplianceRule} second
+   * @returns {number}
+   */
+  similarity(first, second) {
+    return this.round(this.jaccard(this.shingles(first), this.shingles(second)));
+  }
+
+  // ==================== SHINGLING & MINHASH ====================
+
+  /**
+   * Single-word shingles of the normalized title and description. Sources
+   * word the same obligation differently, so word pairs mostly add noise.
+   * @param {ComplianceRule} rule
+   * @returns {Set<string>}
+   */
+  shingles(rule) {
+    return new Set(this.tokenize(`${rule.title || ''} ${rule.description || ''}`));
+  }
+
+  /**
+   * @param {string} text
+   * @returns {string[]}
+   */
+  tokenize(text) {
+    return text
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, ' ')
+      .split(' ')
+      .filter(token => token && !STOP_WORDS.has(token))
+      // Crude plural folding so "licenses" and "license" match
+      .map(token => token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token);
+  }
+
+  /**
+   * MinHash signature: the smallest seeded hash of any shingle, per seed
+   * @param {Set<string>} shingles
+   * @returns {number[]}
+   */
+  signature(shingles) {
+    const hashes = Array.from(shingles, shingle => this.hash32(shingle));
+    return this.seeds.map(seed => hashes.reduce((min, hash) => Math.min(min, this.mix32(hash ^ seed)), 0xffffffff));
+  }
+
+  /**
+   * Index pairs that share at least one LSH band
+   * @param {Set<string>[]} shingles
+   * @returns {[number, number][]}
+   */
+  candidatePairs(shingles) {
+    /** @type {Map<string, number[]>} */
+    const buckets = new Map();
+    shingles.forEach((set, index) => {
+      if (set.size === 0) return;
+      const signature = this.signature(set);
+      for (let band = 0; band < this.bands; band++) {
+        const rows = signature.slice(band * this.rows, (band + 1) * this.rows);
+        if (rows.length === 0) break;
+        const key = `${band}:${rows.join(',')}`;
+        buckets.set(key, [...(buckets.get(key) || []), index]);
+      }
+    });
+
+    const pairs = new Map();
+    buckets.forEach(members => {
+      for (let i = 0; i < members.length; i++) {
+        for (let j = i + 1; j < members.length; j++) {
+          const pair = /** @type {[number, number]} */ ([members[i], members[j]]);
+          pairs.set(pair.join(':'), pair);
+        }
+      }
+    });
+    return Array.from(pairs.values());
+  }
+
+  /**
+   * @param {Set<string>} first
+   * @param {Set<string>} second
+   * @returns {number}
+   */
+  jaccard(first, second) {
+    if (first.size === 0 || second.size === 0) return 0;
+    let shared = 0;
+    first.forEach(shingle => { if (second.has(shingle)) shared++; });
+    return shared / (first.size + second.size - shared);
+  }
+
+  /**
+   * FNV-1a
+   * @param {string} text
+   * @returns {number}
+   */
+  hash32(text) {
+    let hash = 0x811c9dc5;
+    for (let index = 0; index < text.length; index++) {
+      hash ^= text.charCodeAt(index);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+
+  /**
+   * Murmur3 finalizer, spreads the seeded hash over all 32 bits
+   * @param {number} value
+   * @returns {number}
+   */
+  mix32(value) {
+    value ^= value >>> 16;
+    value = Math.imul(value, 0x85ebca6b);
+    value ^= value >>> 13;
+    value = Math.imul(value, 0xc2b2ae35);
+    value ^= value >>> 16;
+    return value >>> 0;
+  }
+
+  // ==================== MASTERS & MERGING ====================
+
+  /**
+   * Rules at different levels or in different places are never duplicates,
+   * however similar the text ("Statement of Information" in CA and NV)
+   * @param {ComplianceRule} first
+   * @param {ComplianceRule} second
+   * @returns {boolean}
+   */
+  sameScope(first, second) {
+    if (first.level !== second.level) return false;
+    if (first.level === 'federal') return true;
+
+    const places = (/** @type {ComplianceRule} */ rule) => new Set([
+      String(rule.jurisdiction || '').trim().toUpperCase(),
+      ...(rule.applicability_criteria?.states || []).map(state => String(state).toUpperCase()),
+      ...(first.level === 'local' ? (rule.applicability_criteria?.cities || []).map(city => String(city).toUpperCase()) : [])
+    ].filter(place => place && place !== 'ALL'));
+    const firstPlaces = places(first);
+    return Array.from(places(second)).some(place => firstPlaces.has(place));
+  }
+
+  /**
+   * Master order: rules backed by a non-AI source, then the most reliable
+   * source, reviewed rules, the most complete rule and finally the oldest
+   * @param {ComplianceRule} first
+   * @param {ComplianceRule} second
+   * @returns {number}
+   */
+  compareMasters(first, second) {
+    const rank = (/** @type {ComplianceRule} */ rule) => {
+      const sources = rule.sources || [];
+      return [
+        sources.some(source => source.source_type !== 'ai_generated') ? 1 : 0,
+        Math.max(0, ...sources.map(source => source.reliability_score || 0)),
+        rule.review?.status === 'approved' ? 1 : 0,
+        (rule.compliance_steps || []).length + sources.length
+      ];
+    };
+    const firstRank = rank(first);
+    const secondRank = rank(second);
+    for (let index = 0; index < firstRank.length; index++) {
+      const difference = /** @type {number} */ (secondRank[index]) - /** @type {number} */ (firstRank[index]);
+      if (difference !== 0) return difference;
+    }
+    return String(first.created_at || '').localeCompare(String(second.created_at || '')) ||
+      String(first.id).localeCompare(String(second.id));
+  }
+
+  /**
+   * @param {ComplianceRule} master
+   * @param {ComplianceRule[]} duplicates
+   * @returns {ComplianceRule}
+   */
+  mergeInto(master, duplicates) {
+    const clusterIds = new Set([master.id, ...duplicates.map(rule => rule.id)]);
+    const key = (/** @type {ComplianceSource} */ source) => source.source_url || source.source_id;
+    /** @type {ComplianceSource[]} */
+    const sources = [];
+    const known = new Set();
+    [master, ...duplicates].flatMap(rule => rule.sources || []).forEach(source => {
+      if (known.has(key(source))) return;
+      known.add(key(source));
+      sources.push(source);
+    });
+
+    const union = (/** @type {(rule: ComplianceRule) => string[] | undefined} */ pick) =>
+      Array.from(new Set([master, ...duplicates].flatMap(rule => pick(rule) || [])));
+
+    return {
+      ...master,
+      sources,
+      tags: union(rule => rule.tags),
+      search_keywords: union(rule => rule.search_keywords),
+      related_rules: union(rule => rule.related_rules).filter(id => !clusterIds.has(id))
+    };
+  }
+
+  /**
+   * Index entries for every canonical id in a cluster, all pointing at the master
+   * @param {ComplianceRule} master
+   * @param {{ rule: ComplianceRule, similarity: number }[]} duplicates
+   * @param {string} now
+   * @returns {Promise<RuleDeduplicationEntry[]>}
+   */
+  async indexEntries(master, duplicates, now) {
+    const repository = /** @type {RuleRepository} */ (this.repository);
+    /** @type {DedupSourceRule[]} */
+    const scored = [{ rule: master, similarity: 1 }, ...duplicates].map(({ rule, similarity }) => ({
+      rule_id: rule.id,
+      canonical_id: rule.canonical_id,
+      source_id: rule.sources?.[0]?.source_id || 'unknown',
+      source_url: rule.sources?.[0]?.source_url || '',
+      confidence_score: similarity,
+      last_seen: now
+    }));
+    const clusterIds = new Set(scored.map(source => source.rule_id));
+
+    const canonicalIds = Array.from(new Set([master, ...duplicates.map(duplicate => duplicate.rule)]
+      .map(rule => rule.canonical_id)
+      .filter(Boolean)));
+    return Promise.all(canonicalIds.map(async canonicalId => {
+      const existing = await repository.getDeduplication(canonicalId);
+      return {
+        canonical_id: canonicalId,
+        master_rule_id: master.id,
+        // Exact matches of rules outside the cluster stay listed
+        source_rules: [...(existing?.source_rules || []).filter(source => !clusterIds.has(source.rule_id)), ...scored],
+        method: /** @type {const} */ ('similarity'),
+        updated_at: now
+      };
+    }));
+  }
+
+  /**
+   * @param {number} value
+   * @returns {number}
+   */
+  round(value) {
+    return Math.round(value * 1000) / 1000;
+  }
+}
+
+module.exports = { RuleDeduplicator, indexSourceRule };
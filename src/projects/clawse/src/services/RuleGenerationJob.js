@@ -0,0 +1,52 @@
+const { AIRuleGenerator } = require('./AIRuleGenerator');
+const { permanentError } = require('./JobQueue');
+
+/**
+ * @typedef {import('../types/Job').JobHandler} JobHandler
+ * @typedef {import('../types/LlmClient').LlmClient} LlmClient
+ * @typedef {import('../types/Repository').RuleRepository} RuleRepository
+ */
+
+/**
+ * @typedef {Object} RuleGenerationJobOptions
+ * @property {LlmClient} llm
+ * @property {RuleRepository} repository
+ * @property {() => Promise<void>} [onRulesChanged] Called after the rules are stored (search index refresh)
+ */
+
+/**
+ * Handler for `generate` jobs: { count, state } for state rules,
+ * { count, industry, naics_code } for industry rules, federal otherwise.
+ * Generated rules are stored as pending review.
+ * @param {RuleGenerationJobOptions} options
+ * @returns {JobHandler}
+ */
+function createRuleGenerationHandler({ llm, repository, onRulesChanged = async () => {} }) {
+  return async ({ count = 10, state, industry, naics_code }, { progress, signal }) => {
+    if (!llm.isAvailable()) {
+      throw permanentError(`LLM provider ${llm.provider} is not configured`);
+    }
+
+    const generator = new AIRuleGenerator(llm);
+    progress({ step: 'generating', percentage: 10, message: `Generating ${count} rules with ${llm.provider}/${llm.model}...` });
+    const batch = state
+      ? await generator.generateStateRules(state, count)
+      : industry
+        ? await generator.generateIndustrySpecificRules(industry, naics_code || '', count)
+        : await generator.generateFederalRules(count);
+    signal.throwIfAborted();
+
+    progress({ step: 'storing_rules', percentage: 90, message: `Storing ${batch.rules.length} generated rules...` });
+    await repository.storeRules(batch.rules);
+    await onRulesChanged();
+
+    return {
+      generated: batch.rules.length,
+      rule_ids: batch.rules.map(rule => rule.id),
+      report: batch.report,
+      telemetry: batch.telemetry
+    };
+  };
+}
+
+module.exports = { createRuleGenerationHandler };
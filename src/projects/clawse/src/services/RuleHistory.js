@@ -0,0 +1,212 @@
+/**
+ * @typedef {import('../types/ComplianceRule').ComplianceRule} ComplianceRule
+ * @typedef {import('../types/RuleRevision').RuleFieldChange} RuleFieldChange
+ * @typedef {import('../types/RuleRevision').RuleRevision} RuleRevision
+ * @typedef {import('../types/RuleRevision').RuleHistoryTimeline} RuleHistoryTimeline
+ */
+
+// Bookkeeping fields that change on every write and aren't part of the rule content
+const IGNORED_FIELDS = ['id', 'created_at', 'updated_at', 'version', 'last_verified', 'search_vector'];
+
+/**
+ * Storage-independent versioning for compliance rules.
+ * Works out the next version of a rule, the field-level diff against the
+ * stored version and the revision record to append. Both storage backends
+ * use it so the history format is identical.
+ */
+class RuleHistory {
+  /**
+   * Decide what to write for an incoming rule.
+   * Returns the rule document to store and the revision to append, or a null
+   * revision when nothing but bookkeeping fields changed. Rules stored before
+   * revisions were recorded have no revision of their current version; for
+   * those a `baseline` revision of the stored rule is returned as well, to be
+   * written first, so point-in-time lookups before this write still find it.
+   * @param {ComplianceRule | null} existing Currently stored version, if any
+   * @param {ComplianceRule} incoming
+   * @param {string} now ISO timestamp
+   * @param {boolean} [existingRecorded] Whether the stored version already has its revision
+   * @returns {{ rule: ComplianceRule, revision: RuleRevision | null, baseline: RuleRevision | null }}
+   */
+  prepare(existing, incoming, now, existingRecorded = true) {
+    if (!existing) {
+      const version = incoming.version || 1;
+      const rule = { ...incoming, version, created_at: now, updated_at: now };
+      return {
+        rule,
+        revision: this.createRevision(rule, null, 'created', [], now),
+        baseline: null
+      };
+    }
+
+    const baseline = existingRecorded ? null : this.baselineRevision(existing, now);
+    const changes = this.diff(existing, incoming);
+    if (changes.length === 0) {
+      return {
+        rule: {
+          ...existing,
+          ...incoming,
+          version: existing.version || 1,
+          created_at: existing.created_at || now,
+          updated_at: existing.updated_at || now
+        },
+        revision: null,
+        baseline
+      };
+    }
+
+    const previousVersion = existing.version || 1;
+    const rule = {
+      ...incoming,
+      version: previousVersion + 1,
+      created_at: existing.created_at || now,
+      updated_at: now
+    };
+
+    return {
+      rule,
+      revision: this.createRevision(rule, previousVersion, this.changeType(existing, incoming), changes, now),
+      baseline
+    };
+  }
+
+  /**
+   * Revision for a rule stored without history, dated when it was last written
+   * @param {ComplianceRule} existing
+   * @param {string} now
+   * @returns {RuleRevision}
+   */
+  baselineRevision(existing, now) {
+    const rule = { ...existing, version: existing.version || 1 };
+    return this.createRevision(rule, null, 'created', [], existing.updated_at || existing.created_at || now);
+  }
+
+  /**
+   * Field-level diff between two versions of a rule.
+   * Nested objects are walked; arrays are compared as whole values.
+   * @param {any} before
+   * @param {any} after
+   * @param {string} [prefix]
+   * @returns {RuleFieldChange[]}
+   */
+  diff(before, after, prefix = '') {
+    /** @type {RuleFieldChange[]} */
+    const changes = [];
+    const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+    for (const key of [...keys].sort()) {
+      if (!prefix && IGNORED_FIELDS.includes(key)) continue;
+
+      const path = prefix ? `${prefix}.${key}` : key;
+      const oldValue = before?.[key];
+      const newValue = after?.[key];
+
+      if (oldValue === undefined && newValue === undefined) continue;
+
+      if (oldValue === undefined) {
+        changes.push({ path, change: 'added', after: newValue });
+      } else if (newValue === undefined) {
+        changes.push({ path, change: 'removed', before: oldValue });
+      } else if (this.isPlainObject(oldValue) && this.isPlainObject(newValue)) {
+        changes.push(...this.diff(oldValue, newValue, path));
+      } else if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+        changes.push({ path, change: 'modified', before: oldValue, after: newValue });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Build the history timeline returned by the API
+   * @param {string} ruleId
+   * @param {RuleRevision[]} revisions
+   * @param {string} [asOf] ISO date; includes the revision in effect on that date
+   * @returns {RuleHistoryTimeline}
+   */
+  timeline(ruleId, revisions, asOf) {
+    const ordered = [...revisions].sort((a, b) => a.version - b.version);
+
+    /** @type {RuleHistoryTimeline} */
+    const timeline = {
+      rule_id: ruleId,
+      current_version: ordered.length > 0 ? ordered[ordered.length - 1].version : 0,
+      revisions: ordered
+    };
+
+    if (asOf) {
+      timeline.as_of = { date: asOf, revision: this.revisionAt(ordered, asOf) };
+    }
+
+    return timeline;
+  }
+
+  /**
+   * Latest revision recorded on or before the given date
+   * @param {RuleRevision[]} revisions
+   * @param {string} date
+   * @returns {RuleRevision | null}
+   */
+  revisionAt(revisions, date) {
+    const cutoff = new Date(date).getTime();
+    if (Number.isNaN(cutoff)) {
+      throw new Error(`Invalid date: ${date}`);
+    }
+
+    return [...revisions]
+      .filter(revision => new Date(revision.recorded_at).getTime() <= cutoff)
+      .sort((a, b) => b.version - a.version)[0] || null;
+  }
+
+  /**
+   * @param {ComplianceRule} rule
+   * @param {number | null} previousVersion
+   * @param {RuleRevision['change_type']} changeType
+   * @param {RuleFieldChange[]} changes
+   * @param {string} now
+   * @returns {RuleRevision}
+   */
+  createRevision(rule, previousVersion, changeType, changes, now) {
+    return {
+      rule_id: rule.id,
+      version: rule.version,
+      previous_version: previousVersion,
+      change_type: changeType,
+      changes,
+      snapshot: JSON.parse(JSON.stringify(rule)),
+      recorded_at: now
+    };
+  }
+
+  /**
+   * @param {ComplianceRule} existing
+   * @param {ComplianceRule} incoming
+   * @returns {RuleRevision['change_type']}
+   */
+  changeType(existing, incoming) {
+    if (incoming.status !== existing.status) {
+      if (incoming.status === 'superseded') return 'superseded';
+      if (incoming.status === 'deprecated') return 'deprecated';
+    }
+    return 'updated';
+  }
+
+  /**
+   * @param {any} value
+   * @returns {boolean}
+   */
+  isPlainObject(value) {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+  }
+
+  /**
+   * Zero-padded document id so revisions sort by version
+   * @param {number} version
+   * @returns {string}
+   */
+  revisionId(version) {
+    return `v${String(version).padStart(6, '0')}`;
+  }
+}
+
+module.exports = { RuleHistory };
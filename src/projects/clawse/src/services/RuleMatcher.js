@@ -0,0 +1,707 @@
+const { getReviewStatus } = require('./RuleReviewQueue');
+
+/**
+ * @typedef {import('../types/ComplianceRule').ComplianceRule} ComplianceRule
+ * @typedef {import('../types/ComplianceRule').BusinessProfile} BusinessProfile
+ * @typedef {import('../types/ComplianceRule').BusinessLocation} BusinessLocation
+ * @typedef {import('../types/RuleMatch').CriterionResult} CriterionResult
+ * @typedef {import('../types/RuleMatch').RuleMatchResult} RuleMatchResult
+ * @typedef {import('../types/RuleMatch').MatchCriterion} MatchCriterion
+ * @typedef {import('../types/RuleMatch').LocationMatchReport} LocationMatchReport
+ */
+
+/**
+ * Where a rule is evaluated: one operating location (or the headquarters).
+ * employee_count_estimated marks sites without their own headcount, which are
+ * given the employees not counted at any other location.
+ * @typedef {{ label: string, state: string, city?: string, county?: string, employee_count: number, employee_count_estimated: boolean }} MatchSite
+ */
+
+/** @type {{[name: string]: string}} */
+const STATE_CODES = {
+  'alabama': 'AL', 'alaska': 'AK', 'arizona': 'AZ', 'arkansas': 'AR', 'california': 'CA',
+  'colorado': 'CO', 'connecticut': 'CT', 'delaware': 'DE', 'district of columbia': 'DC',
+  'florida': 'FL', 'georgia': 'GA', 'hawaii': 'HI', 'idaho': 'ID', 'illinois': 'IL',
+  'indiana': 'IN', 'iowa': 'IA', 'kansas': 'KS', 'kentucky': 'KY', 'louisiana': 'LA',
+  'maine': 'ME', 'maryland': 'MD', 'massachusetts': 'MA', 'michigan': 'MI', 'minnesota': 'MN',
+  'mississippi': 'MS', 'missouri': 'MO', 'montana': 'MT', 'nebraska': 'NE', 'nevada': 'NV',
+  'new hampshire': 'NH', 'new jersey': 'NJ', 'new mexico': 'NM', 'new york': 'NY',
+  'north carolina': 'NC', 'north dakota': 'ND', 'ohio': 'OH', 'oklahoma': 'OK', 'oregon': 'OR',
+  'pennsylvania': 'PA', 'rhode island': 'RI', 'south carolina': 'SC', 'south dakota': 'SD',
+  'tennessee': 'TN', 'texas': 'TX', 'utah': 'UT', 'vermont': 'VT', 'virginia': 'VA',
+  'washington': 'WA', 'west virginia': 'WV', 'wisconsin': 'WI', 'wyoming': 'WY'
+};
+
+// Business type spellings used by the frontend, the AI prompts and the backend types
+/** @type {{[alias: string]: string}} */
+const BUSINESS_TYPE_ALIASES = {
+  'corp': 'corporation',
+  'c-corp': 'corporation',
+  'sole prop': 'sole proprietorship',
+  'sole proprietor': 'sole proprietorship',
+  'nonprofit': 'non-profit'
+};
+
+// NAICS prefixes → broad industry groups (rules use both "tech" and "technology")
+/** @type {Array<[string, string[]]>} */
+const NAICS_INDUSTRY_GROUPS = [
+  ['722', ['food_service', 'restaurant']],
+  ['311', ['food_service', 'manufacturing']],
+  ['5415', ['tech', 'technology', 'professional_services']],
+  ['5112', ['tech', 'technology', 'digital_services']],
+  ['518', ['tech', 'technology', 'digital_services']],
+  ['519', ['tech', 'technology', 'digital_services']],
+  ['62', ['healthcare']],
+  ['23', ['construction']],
+  ['31', ['manufacturing']],
+  ['32', ['manufacturing']],
+  ['33', ['manufacturing']],
+  ['44', ['retail']],
+  ['45', ['retail']],
+  ['48', ['transportation']],
+  ['49', ['transportation']],
+  ['52', ['finance']],
+  ['53', ['real_estate']],
+  ['54', ['professional_services']],
+  ['61', ['education']],
+  ['71', ['entertainment']],
+  ['11', ['agriculture']]
+];
+
+/** @type {{[key: string]: number}} */
+const PRIORITY_ORDER = { 'critical': 1, 'high': 2, 'medium': 3, 'low': 4 };
+/** @type {{[key: string]: number}} */
+const LEVEL_ORDER = { 'federal': 1, 'state': 2, 'local': 3 };
+
+/**
+ * Deterministic, storage-independent rule matching.
+ * Evaluates every applicability_criteria field of a ComplianceRule against a
+ * BusinessProfile and records why each criterion passed or failed.
+ *
+ * Empty criteria lists (or "ALL") mean "no restriction". Industries and
+ * industry groups are separate criteria and both must pass. Special conditions
+ * pass when the profile has at least one of them; any exclusion hit fails the rule.
+ *
+ * Location criteria are evaluated per operating location (headquarters included).
+ * Employee thresholds use the company-wide headcount for federal rules, the
+ * headcount in that state for state rules and the site headcount for local rules.
+ * Locations without a headcount share the employees not counted elsewhere, and
+ * the explanation says the count is an estimate.
+ */
+class RuleMatcher {
+  /**
+   * @param {{ includeInactive?: boolean, requireReview?: boolean }} [options]
+   * requireReview only matches rules approved in the review queue; it defaults
+   * to REQUIRE_RULE_REVIEW=true so every repository's matcher follows it
+   */
+  constructor(options = {}) {
+    this.includeInactive = options.includeInactive || false;
+    this.requireReview = options.requireReview ?? process.env.REQUIRE_RULE_REVIEW === 'true';
+  }
+
+  /**
+   * Return the rules that apply to the profile, sorted by priority then level
+   * @param {ComplianceRule[]} rules
+   * @param {BusinessProfile} profile
+   * @returns {ComplianceRule[]}
+   */
+  match(rules, profile) {
+    const sites = this.getSites(profile);
+    const applicable = rules.filter(rule =>
+      sites.some(site => this.evaluate(rule, profile, site).applies)
+    );
+    return this.sortRulesByPriority(applicable);
+  }
+
+  /**
+   * Evaluate every rule and return a verdict with explanation for each
+   * @param {ComplianceRule[]} rules
+   * @param {BusinessProfile} profile
+   * @returns {RuleMatchResult[]}
+   */
+  evaluateAll(rules, profile) {
+    const sites = this.getSites(profile);
+    return rules.map(rule => {
+      const results = sites.map(site => this.evaluate(rule, profile, site));
+      // First applicable site wins, otherwise the closest miss
+      return results.find(result => result.applies) ||
+        results.reduce((best, result) => result.failed.length < best.failed.length ? result : best);
+    });
+  }
+
+  /**
+   * Group applicable rules by operating location.
+   * Federal rules are reported once as company-wide obligations.
+   * @param {ComplianceRule[]} rules
+   * @param {BusinessProfile} profile
+   * @returns {LocationMatchReport}
+   */
+  matchByLocation(rules, profile) {
+    const sites = this.getSites(profile);
+    const locations = this.getLocations(profile);
+
+    /** @type {LocationMatchReport} */
+    const report = {
+      company_wide: [],
+      locations: locations.map((location, index) => ({
+        location,
+        label: sites[index]?.label || '',
+        employee_count: sites[index]?.employee_count || 0,
+        employee_count_estimated: sites[index]?.employee_count_estimated || false,
+        results: []
+      })),
+      unmatched: []
+    };
+
+    for (const rule of this.sortRulesByPriority([...rules])) {
+      const results = sites.map(site => this.evaluate(rule, profile, site));
+      const applicable = results.filter(result => result.applies);
+
+      if (applicable.length === 0) {
+        report.unmatched.push(results.reduce((best, result) =>
+          result.failed.length < best.failed.length ? result : best));
+      } else if (rule.level === 'federal') {
+        report.company_wide.push(applicable[0]);
+      } else {
+        results.forEach((result, index) => {
+          if (result.applies) report.locations[index]?.results.push(result);
+        });
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * Evaluate a single rule against a business profile at one site
+   * (defaults to the headquarters)
+   * @param {ComplianceRule} rule
+   * @param {BusinessProfile} profile
+   * @param {MatchSite} [site]
+   * @returns {RuleMatchResult}
+   */
+  evaluate(rule, profile, site = this.getHeadquartersSite(profile)) {
+    const criteria = rule.applicability_criteria || /** @type {any} */ ({});
+    const employees = this.getEmployeeCount(rule, profile, site);
+
+    /** @type {CriterionResult[]} */
+    const results = [
+      this.checkStatus(rule),
+      ...(this.requireReview ? [this.checkReview(rule)] : []),
+      this.checkBusinessType(criteria.business_types, profile),
+      this.checkRange('employee_count', criteria.employee_count, employees.count,
+        employees.estimated ? 'estimated, no headcount given for this location' : undefined),
+      this.checkRange('annual_revenue', criteria.annual_revenue, profile.annual_revenue),
+      this.checkIndustries(criteria.industries, profile),
+      this.checkIndustryGroups(criteria.industry_groups, profile),
+      this.checkStates(criteria.states, site.state),
+      this.checkLocality('city', criteria.cities, site.city),
+      this.checkLocality('county', criteria.counties, site.county),
+      this.checkSpecialConditions(criteria.special_conditions, profile),
+      this.checkExclusions(criteria.exclusions, profile, site.state)
+    ];
+
+    const matched = results.filter(result => result.passed);
+    const failed = results.filter(result => !result.passed);
+
+    return {
+      rule_id: rule.id,
+      title: rule.title,
+      location: site.label,
+      applies: failed.length === 0,
+      matched,
+      failed,
+      explanation: this.explain(matched, failed)
+    };
+  }
+
+  /**
+   * @param {ComplianceRule} rule
+   * @returns {CriterionResult}
+   */
+  checkStatus(rule) {
+    const status = rule.status || 'active';
+    if (this.includeInactive || status === 'active') {
+      return this.result('status', true, `status=${status}`);
+    }
+    return this.result('status', false, `status=${status} is not active`);
+  }
+
+  /**
+   * @param {ComplianceRule} rule
+   * @returns {CriterionResult}
+   */
+  checkReview(rule) {
+    const status = getReviewStatus(rule);
+    if (status === 'approved') {
+      return this.result('review', true, 'review=approved');
+    }
+    return this.result('review', false, `review=${status} is not approved`);
+  }
+
+  /**
+   * @param {string[] | undefined} businessTypes
+   * @param {BusinessProfile} profile
+   * @returns {CriterionResult}
+   */
+  checkBusinessType(businessTypes, profile) {
+    const type = profile.business_type;
+    if (this.isUnrestricted(businessTypes)) {
+      return this.result('business_type', true, `business_type=${type} (any type)`);
+    }
+
+    const normalizedType = this.normalizeBusinessType(type);
+    const hit = (businessTypes || []).find(candidate => this.normalizeBusinessType(candidate) === normalizedType);
+    if (hit) {
+      return this.result('business_type', true, `business_type=${type} via ${hit}`);
+    }
+    return this.result('business_type', false, `business_type=${type} not in [${(businessTypes || []).join(', ')}]`);
+  }
+
+  /**
+   * @param {'employee_count' | 'annual_revenue'} criterion
+   * @param {{ min?: number, max?: number, exact?: number } | undefined} range
+   * @param {number} value
+   * @param {string} [note] Appended to the detail, e.g. when the value is an estimate
+   * @returns {CriterionResult}
+   */
+  checkRange(criterion, range, value, note) {
+    const actual = Number(value) || 0;
+    const suffix = note ? ` (${note})` : '';
+    if (!range) {
+      return this.result(criterion, true, `${criterion}=${actual} (no limit)`);
+    }
+
+    if (typeof range.exact === 'number' && actual !== range.exact) {
+      return this.result(criterion, false, `${criterion} ${actual} != exact ${range.exact}${suffix}`);
+    }
+    if (typeof range.min === 'number' && actual < range.min) {
+      return this.result(criterion, false, `${criterion} ${actual} < min ${range.min}${suffix}`);
+    }
+    if (typeof range.max === 'number' && actual > range.max) {
+      return this.result(criterion, false, `${criterion} ${actual} > max ${range.max}${suffix}`);
+    }
+
+    const min = typeof range.min === 'number' ? range.min : 0;
+    const max = typeof range.max === 'number' ? range.max : '∞';
+    return this.result(criterion, true, `${criterion}=${actual} within ${min}-${max}${suffix}`);
+  }
+
+  /**
+   * NAICS codes match hierarchically: a rule code "7225" covers profile code "722513"
+   * @param {string[] | undefined} industries
+   * @param {BusinessProfile} profile
+   * @returns {CriterionResult}
+   */
+  checkIndustries(industries, profile) {
+    if (this.isUnrestricted(industries)) {
+      return this.result('industry', true, 'industry (any industry)');
+    }
+
+    const profileCodes = [profile.primary_industry, ...(profile.secondary_industries || [])]
+      .filter(Boolean)
+      .map(code => String(code).trim());
+
+    for (const code of profileCodes) {
+      const hit = (industries || []).find(candidate => code.startsWith(String(candidate).trim()));
+      if (hit) {
+        return this.result('industry', true, `industry=${code} via ${hit}`);
+      }
+    }
+    return this.result('industry', false, `industry [${profileCodes.join(', ')}] not in [${(industries || []).join(', ')}]`);
+  }
+
+  /**
+   * @param {string[] | undefined} industryGroups
+   * @param {BusinessProfile} profile
+   * @returns {CriterionResult}
+   */
+  checkIndustryGroups(industryGroups, profile) {
+    if (this.isUnrestricted(industryGroups)) {
+      return this.result('industry_group', true, 'industry_group (any group)');
+    }
+
+    const profileGroups = this.getIndustryGroups(profile);
+    const hit = (industryGroups || []).find(group => profileGroups.includes(this.normalizeToken(group)));
+    if (hit) {
+      return this.result('industry_group', true, `industry_group=${hit}`);
+    }
+    return this.result('industry_group', false, `industry_group [${profileGroups.join(', ')}] not in [${(industryGroups || []).join(', ')}]`);
+  }
+
+  /**
+   * @param {string[] | undefined} states
+   * @param {string} siteState
+   * @returns {CriterionResult}
+   */
+  checkStates(states, siteState) {
+    const state = this.normalizeState(siteState);
+    if (!states || states.length === 0) {
+      return this.result('state', true, `state=${state} (any state)`);
+    }
+    if (states.some(candidate => String(candidate).toUpperCase() === 'ALL')) {
+      return this.result('state', true, `state=${state} via ALL`);
+    }
+
+    const hit = states.find(candidate => this.normalizeState(candidate) === state);
+    if (hit) {
+      return this.result('state', true, `state=${state} via ${hit}`);
+    }
+    return this.result('state', false, `state=${state} not in [${states.join(', ')}]`);
+  }
+
+  /**
+   * @param {'city' | 'county'} criterion
+   * @param {string[] | undefined} allowed
+   * @param {string | undefined} value
+   * @returns {CriterionResult}
+   */
+  checkLocality(criterion, allowed, value) {
+    if (this.isUnrestricted(allowed)) {
+      return this.result(criterion, true, `${criterion} (any ${criterion})`);
+    }
+
+    const normalized = this.normalizeLocality(value);
+    const hit = (allowed || []).find(candidate => this.normalizeLocality(candidate) === normalized);
+    if (normalized && hit) {
+      return this.result(criterion, true, `${criterion}=${value} via ${hit}`);
+    }
+    return this.result(criterion, false, `${criterion}=${value || 'unknown'} not in [${(allowed || []).join(', ')}]`);
+  }
+
+  /**
+   * @param {string[] | undefined} conditions
+   * @param {BusinessProfile} profile
+   * @returns {CriterionResult}
+   */
+  checkSpecialConditions(conditions, profile) {
+    if (!conditions || conditions.length === 0) {
+      return this.result('special_conditions', true, 'special_conditions (none required)');
+    }
+
+    const profileConditions = this.getProfileConditions(profile);
+    const hits = conditions.filter(condition => profileConditions.includes(condition));
+    if (hits.length > 0) {
+      return this.result('special_conditions', true, `special_conditions ${hits.join(', ')}`);
+    }
+    return this.result('special_conditions', false, `special_conditions none of [${conditions.join(', ')}]`);
+  }
+
+  /**
+   * @param {ComplianceRule['applicability_criteria']['exclusions'] | undefined} exclusions
+   * @param {BusinessProfile} profile
+   * @param {string} siteState
+   * @returns {CriterionResult}
+   */
+  checkExclusions(exclusions, profile, siteState) {
+    if (!exclusions) {
+      return this.result('exclusions', true, 'exclusions (none)');
+    }
+
+    const hits = [];
+    const type = this.normalizeBusinessType(profile.business_type);
+    if ((exclusions.business_types || []).some(candidate => this.normalizeBusinessType(candidate) === type)) {
+      hits.push(`business_type=${profile.business_type}`);
+    }
+
+    const codes = [profile.primary_industry, ...(profile.secondary_industries || [])].filter(Boolean);
+    const excludedIndustry = (exclusions.industries || []).find(candidate =>
+      codes.some(code => String(code).startsWith(String(candidate)))
+    );
+    if (excludedIndustry) {
+      hits.push(`industry=${excludedIndustry}`);
+    }
+
+    const state = this.normalizeState(siteState);
+    if ((exclusions.states || []).some(candidate => this.normalizeState(candidate) === state)) {
+      hits.push(`state=${state}`);
+    }
+
+    const profileConditions = this.getProfileConditions(profile);
+    (exclusions.conditions || [])
+      .filter(condition => profileConditions.includes(condition))
+      .forEach(condition => hits.push(`condition=${condition}`));
+
+    if (hits.length > 0) {
+      return this.result('exclusions', false, `excluded by ${hits.join(', ')}`);
+    }
+    return this.result('exclusions', true, 'exclusions (none apply)');
+  }
+
+  /**
+   * Operating locations, with the headquarters added when it isn't listed
+   * @param {BusinessProfile} profile
+   * @returns {BusinessLocation[]}
+   */
+  getLocations(profile) {
+    const locations = [...(profile.operating_locations || [])].filter(location => location && location.state);
+    const hasHeadquarters = locations.some(location => this.isHeadquarters(location, profile));
+
+    if (profile.headquarters_state && !hasHeadquarters) {
+      locations.unshift({
+        address: '',
+        city: profile.headquarters_city || '',
+        state: profile.headquarters_state,
+        county: profile.headquarters_county,
+        zip_code: '',
+        location_type: 'headquarters'
+      });
+    }
+
+    return locations;
+  }
+
+  /**
+   * A listed location is the headquarters when it says so, or when it is at the
+   * headquarters address: same state and the same city (or county, when either
+   * city is missing). Other sites in the headquarters state are separate sites.
+   * @param {BusinessLocation} location
+   * @param {BusinessProfile} profile
+   * @returns {boolean}
+   */
+  isHeadquarters(location, profile) {
+    if (location.location_type === 'headquarters') return true;
+    if (this.normalizeState(location.state) !== this.normalizeState(profile.headquarters_state)) return false;
+
+    const city = this.normalizeLocality(location.city);
+    const hqCity = this.normalizeLocality(profile.headquarters_city);
+    if (city && hqCity) return city === hqCity;
+
+    const county = this.normalizeLocality(location.county);
+    const hqCounty = this.normalizeLocality(profile.headquarters_county);
+    if (county && hqCounty) return county === hqCounty;
+
+    // Nothing below the state to compare
+    return !hqCity && !hqCounty;
+  }
+
+  /**
+   * Sites with their headcount. Locations without one are given the employees
+   * not counted at any other location, never the whole company.
+   * @param {BusinessProfile} profile
+   * @returns {MatchSite[]}
+   */
+  getSites(profile) {
+    const locations = this.getLocations(profile);
+    if (locations.length === 0) {
+      return [this.getHeadquartersSite(profile)];
+    }
+
+    const remainder = this.getUncountedEmployees(profile, locations);
+    return locations.map(location => {
+      const counted = typeof location.employee_count === 'number';
+      return {
+        label: this.locationLabel(location),
+        state: location.state,
+        city: location.city,
+        county: location.county,
+        employee_count: counted ? /** @type {number} */ (location.employee_count) : remainder,
+        // A single site is the whole company, so its count isn't a guess
+        employee_count_estimated: !counted && locations.length > 1
+      };
+    });
+  }
+
+  /**
+   * Company headcount not assigned to any location
+   * @param {BusinessProfile} profile
+   * @param {BusinessLocation[]} locations
+   * @returns {number}
+   */
+  getUncountedEmployees(profile, locations) {
+    const counted = locations.reduce((sum, location) =>
+      sum + (typeof location.employee_count === 'number' ? location.employee_count : 0), 0);
+    return Math.max(0, (Number(profile.employee_count) || 0) - counted);
+  }
+
+  /**
+   * @param {BusinessProfile} profile
+   * @returns {MatchSite}
+   */
+  getHeadquartersSite(profile) {
+    return {
+      label: this.locationLabel({
+        city: profile.headquarters_city,
+        state: profile.headquarters_state,
+        location_type: 'headquarters'
+      }),
+      state: profile.headquarters_state,
+      city: profile.headquarters_city,
+      county: profile.headquarters_county,
+      employee_count: profile.employee_count,
+      employee_count_estimated: false
+    };
+  }
+
+  /**
+   * Headcount that counts toward a rule's thresholds at a given site
+   * @param {ComplianceRule} rule
+   * @param {BusinessProfile} profile
+   * @param {MatchSite} site
+   * @returns {{ count: number, estimated: boolean }}
+   */
+  getEmployeeCount(rule, profile, site) {
+    if (rule.level === 'federal') {
+      return { count: profile.employee_count, estimated: false };
+    }
+    if (rule.level === 'local') {
+      return { count: site.employee_count, estimated: site.employee_count_estimated };
+    }
+
+    // State rules: everyone employed in that state. Uncounted sites there add the
+    // uncounted employees once, however many of them there are
+    const state = this.normalizeState(site.state);
+    const inState = this.getSites(profile).filter(candidate => this.normalizeState(candidate.state) === state);
+    const counted = inState
+      .filter(candidate => !candidate.employee_count_estimated)
+      .reduce((sum, candidate) => sum + candidate.employee_count, 0);
+    const uncounted = inState.find(candidate => candidate.employee_count_estimated);
+
+    return {
+      count: counted + (uncounted?.employee_count || 0),
+      estimated: !!uncounted
+    };
+  }
+
+  /**
+   * @param {{ city?: string, state?: string, location_type?: string }} location
+   * @returns {string}
+   */
+  locationLabel(location) {
+    const place = [location.city, this.normalizeState(location.state)].filter(Boolean).join(', ');
+    return location.location_type ? `${place} (${location.location_type})` : place;
+  }
+
+  /**
+   * Industry groups implied by NAICS codes and business activities
+   * @param {BusinessProfile} profile
+   * @returns {string[]}
+   */
+  getIndustryGroups(profile) {
+    const groups = new Set();
+    const codes = [profile.primary_industry, ...(profile.secondary_industries || [])].filter(Boolean);
+
+    for (const code of codes) {
+      for (const [prefix, prefixGroups] of NAICS_INDUSTRY_GROUPS) {
+        if (String(code).startsWith(prefix)) {
+          prefixGroups.forEach(group => groups.add(group));
+        }
+      }
+    }
+
+    (profile.business_activities || []).forEach(activity => groups.add(this.normalizeToken(activity)));
+
+    return Array.from(groups);
+  }
+
+  /**
+   * @param {BusinessProfile} profile
+   * @returns {string[]}
+   */
+  getProfileConditions(profile) {
+    const conditions = [];
+    if (profile.has_employees) conditions.push('has_employees');
+    if (profile.handles_personal_data) conditions.push('handles_personal_data');
+    if (profile.has_physical_location) conditions.push('has_physical_location');
+    if (profile.sells_online) conditions.push('sells_online');
+    if (profile.interstate_commerce) conditions.push('interstate_commerce');
+    if (profile.processes_payments) conditions.push('processes_payments');
+    if (profile.international_operations) conditions.push('international_operations');
+    return conditions;
+  }
+
+  /**
+   * @param {CriterionResult[]} matched
+   * @param {CriterionResult[]} failed
+   * @returns {string}
+   */
+  explain(matched, failed) {
+    // Leave out unrestricted criteria so the explanation stays readable
+    const meaningful = matched.filter(result => !/\((any|none|no limit)/.test(result.detail));
+    const parts = [];
+    if (meaningful.length > 0) {
+      parts.push(`matched: ${meaningful.map(result => result.detail).join(', ')}`);
+    }
+    if (failed.length > 0) {
+      parts.push(`failed: ${failed.map(result => result.detail).join(', ')}`);
+    }
+    return parts.join('; ') || 'matched: no restrictions';
+  }
+
+  /**
+   * @param {ComplianceRule[]} rules
+   * @returns {ComplianceRule[]}
+   */
+  sortRulesByPriority(rules) {
+    return rules.sort((a, b) => {
+      const aPriority = PRIORITY_ORDER[a.priority] || 5;
+      const bPriority = PRIORITY_ORDER[b.priority] || 5;
+
+      if (aPriority !== bPriority) {
+        return aPriority - bPriority;
+      }
+
+      // Secondary sort by level (federal first)
+      return (LEVEL_ORDER[a.level] || 4) - (LEVEL_ORDER[b.level] || 4);
+    });
+  }
+
+  /**
+   * @param {MatchCriterion} criterion
+   * @param {boolean} passed
+   * @param {string} detail
+   * @returns {CriterionResult}
+   */
+  result(criterion, passed, detail) {
+    return { criterion, passed, detail };
+  }
+
+  /**
+   * @param {string[] | undefined} values
+   * @returns {boolean}
+   */
+  isUnrestricted(values) {
+    return !values || values.length === 0 || values.some(value => String(value).toUpperCase() === 'ALL');
+  }
+
+  /**
+   * @param {string | undefined} state
+   * @returns {string}
+   */
+  normalizeState(state) {
+    const trimmed = String(state || '').trim();
+    return STATE_CODES[trimmed.toLowerCase()] || trimmed.toUpperCase();
+  }
+
+  /**
+   * @param {string | undefined} type
+   * @returns {string}
+   */
+  normalizeBusinessType(type) {
+    const lower = String(type || '').trim().toLowerCase();
+    return BUSINESS_TYPE_ALIASES[lower] || lower;
+  }
+
+  /**
+   * @param {string | undefined} value
+   * @returns {string}
+   */
+  normalizeLocality(value) {
+    return String(value || '')
+      .toLowerCase()
+      .replace(/,.*$/, '')
+      .replace(/\b(county|city of|city)\b/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  /**
+   * @param {string} value
+   * @returns {string}
+   */
+  normalizeToken(value) {
+    return String(value || '').trim().toLowerCase().replace(/[\s-]+/g, '_');
+  }
+}
+
+module.exports = { RuleMatcher };
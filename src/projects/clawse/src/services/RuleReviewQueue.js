@@ -0,0 +1,249 @@
+const { RuleValidator } = require('./RuleValidator');
+
+/**
+ * @typedef {import('../types/ComplianceRule').ComplianceRule} ComplianceRule
+ * @typedef {import('../types/ComplianceRule').ComplianceSource} ComplianceSource
+ * @typedef {import('../types/Repository').RuleRepository} RuleRepository
+ * @typedef {import('../types/RuleReview').RuleReview} RuleReview
+ * @typedef {import('../types/RuleReview').RuleReviewStatus} RuleReviewStatus
+ * @typedef {import('../types/RuleReview').RuleReviewEvent} RuleReviewEvent
+ * @typedef {import('../types/RuleReview').RuleReviewDecision} RuleReviewDecision
+ * @typedef {import('../types/RuleReview').RuleReviewQueuePage} RuleReviewQueuePage
+ * @typedef {import('../types/RuleReview').RuleReviewResult} RuleReviewResult
+ */
+
+const REVIEW_STATUSES = /** @type {RuleReviewStatus[]} */ (['pending', 'approved', 'rejected', 'merged']);
+
+// Rules the queue reads per listing; the rule collection is small enough to filter in memory
+const QUEUE_SCAN_LIMIT = 10000;
+
+/**
+ * Review status of a rule. Rules stored before the review workflow count as
+ * pending when AI generated and approved otherwise.
+ * @param {ComplianceRule} rule
+ * @returns {RuleReviewStatus}
+ */
+function getReviewStatus(rule) {
+  if (rule.review?.status) return rule.review.status;
+  return (rule.sources || []).some(source => source.source_type === 'ai_generated') ? 'pending' : 'approved';
+}
+
+/**
+ * Admin review of generated rules. Reviewers edit rules and approve, reject
+ * or merge them into another rule; each action is appended to the rule's
+ * review history with the reviewer and time, and stored through storeRules
+ * so it is also a rule revision. Rejected rules are deprecated and merged
+ * rules superseded, so neither matches any more.
+ */
+class RuleReviewQueue {
+  /**
+   * @param {RuleRepository} repository
+   * @param {{ validator?: RuleValidator }} [options]
+   */
+  constructor(repository, options = {}) {
+    this.repository = repository;
+    this.validator = options.validator || new RuleValidator();
+  }
+
+  /**
+   * Rules with the given review status, newest first
+   * @param {{ status?: RuleReviewStatus, limit?: number, offset?: number }} [options]
+   * @returns {Promise<RuleReviewQueuePage>}
+   */
+  async list(options = {}) {
+    const status = options.status || 'pending';
+    const rules = (await this.repository.getRecentRules(QUEUE_SCAN_LIMIT)).map(rule => this.withReview(rule));
+
+    /** @type {Record<RuleReviewStatus, number>} */
+    const counts = { pending: 0, approved: 0, rejected: 0, merged: 0 };
+    rules.forEach(rule => { counts[/** @type {RuleReview} */ (rule.review).status]++; });
+
+    const matching = rules.filter(rule => rule.review?.status === status);
+    const offset = options.offset || 0;
+    return {
+      status,
+      total: matching.length,
+      counts,
+      rules: matching.slice(offset, offset + (options.limit || 50))
+    };
+  }
+
+  /**
+   * @param {string} ruleId
+   * @returns {Promise<ComplianceRule | null>}
+   */
+  async getRule(ruleId) {
+    const rule = await this.repository.getRuleById(ruleId);
+    return rule ? this.withReview(rule) : null;
+  }
+
+  /**
+   * Save edits without deciding
+   * @param {string} ruleId
+   * @param {RuleReviewDecision} decision
+   * @returns {Promise<RuleReviewResult>}
+   */
+  async edit(ruleId, decision) {
+    if (!decision.rule) return { error: 'Nothing to update: send the edited rule', reason: 'invalid' };
+    return this.decide(ruleId, 'edited', decision, (rule, review) => ({ rule: { ...rule, review } }));
+  }
+
+  /**
+   * @param {string} ruleId
+   * @param {RuleReviewDecision} decision
+   * @returns {Promise<RuleReviewResult>}
+   */
+  async approve(ruleId, decision) {
+    return this.decide(ruleId, 'approved', decision, (rule, review) => ({
+      rule: {
+        ...rule,
+        // Approving a rejected rule brings it back
+        status: review.status === 'rejected' && rule.status === 'deprecated' ? 'active' : rule.status,
+        review: this.decision(review, 'approved', decision)
+      }
+    }));
+  }
+
+  /**
+   * @param {string} ruleId
+   * @param {RuleReviewDecision} decision
+   * @returns {Promise<RuleReviewResult>}
+   */
+  async reject(ruleId, decision) {
+    return this.decide(ruleId, 'rejected', decision, (rule, review) => ({
+      rule: { ...rule, status: 'deprecated', review: this.decision(review, 'rejected', decision) }
+    }));
+  }
+
+  /**
+   * Merge a rule into an existing one: the target gains its sources, tags and
+   * keywords, and the merged rule is superseded by the target
+   * @param {string} ruleId
+   * @param {string} targetId
+   * @param {RuleReviewDecision} decision
+   * @returns {Promise<RuleReviewResult>}
+   */
+  async merge(ruleId, targetId, decision) {
+    if (!targetId) return { error: 'target_id is required', reason: 'invalid' };
+    if (targetId === ruleId) return { error: 'A rule cannot be merged into itself', reason: 'invalid' };
+
+    const target = await this.repository.getRuleById(targetId);
+    if (!target) return { error: `Target rule not found: ${targetId}`, reason: 'not_found' };
+    const targetStatus = getReviewStatus(target);
+    if (targetStatus === 'merged' || targetStatus === 'rejected') {
+      return { error: `Cannot merge into a ${targetStatus} rule`, reason: 'conflict' };
+    }
+
+    return this.decide(ruleId, 'merged', decision, (rule, review) => ({
+      rule: {
+        ...rule,
+        status: 'superseded',
+        superseded_by: targetId,
+        review: { ...this.decision(review, 'merged', decision), merged_into: targetId }
+      },
+      related: [{
+        ...target,
+        sources: this.mergeSources(target.sources || [], rule.sources || []),
+        tags: this.union(target.tags, rule.tags),
+        search_keywords: this.union(target.search_keywords, rule.search_keywords)
+      }]
+    }));
+  }
+
+  /**
+   * Shared flow of every action: load, check the transition, apply edits,
+   * validate and store with a new history event
+   * @param {string} ruleId
+   * @param {RuleReviewEvent['action']} action
+   * @param {RuleReviewDecision} decision
+   * @param {(rule: ComplianceRule, review: RuleReview) => { rule: ComplianceRule, related?: ComplianceRule[] }} apply
+   * @returns {Promise<RuleReviewResult>}
+   */
+  async decide(ruleId, action, decision, apply) {
+    const reviewer = (decision.reviewer || '').trim();
+    if (!reviewer) return { error: 'reviewer is required', reason: 'invalid' };
+
+    const current = await this.getRule(ruleId);
+    if (!current) return { error: `Compliance rule not found: ${ruleId}`, reason: 'not_found' };
+
+    const review = /** @type {RuleReview} */ (current.review);
+    if (review.status === 'merged') {
+      return { error: `Rule was merged into ${review.merged_into}`, reason: 'conflict' };
+    }
+    if (review.status === action) {
+      return { error: `Rule is already ${action}`, reason: 'conflict' };
+    }
+
+    // Edits can't touch identity, bookkeeping or review fields
+    const { id, version, created_at, updated_at, review: _review, ...edits } = /** @type {any} */ (decision.rule || {});
+    const { rule, related = [] } = apply({ ...current, ...edits }, review);
+
+    /** @type {RuleReviewEvent} */
+    const event = {
+      at: new Date().toISOString(),
+      reviewer,
+      action,
+      version: (current.version || 1) + 1,
+      ...(decision.notes && { note: decision.notes }),
+      ...(rule.review?.merged_into && { merged_into: rule.review.merged_into })
+    };
+    rule.review = { ...(rule.review || review), history: [...review.history, event] };
+
+    const { rule: validated, result } = this.validator.validate(rule);
+    if (!validated) {
+      return { error: 'Rule failed validation', reason: 'invalid', errors: result.errors };
+    }
+
+    await this.repository.storeRules([validated, ...related]);
+    return { rule: /** @type {ComplianceRule} */ (await this.getRule(ruleId)) };
+  }
+
+  // ==================== HELPERS ====================
+
+  /**
+   * @param {RuleReview} review
+   * @param {RuleReviewStatus} status
+   * @param {RuleReviewDecision} decision
+   * @returns {RuleReview}
+   */
+  decision(review, status, decision) {
+    const { notes, merged_into, ...rest } = review;
+    return {
+      ...rest,
+      status,
+      reviewer: decision.reviewer.trim(),
+      reviewed_at: new Date().toISOString(),
+      ...(decision.notes && { notes: decision.notes })
+    };
+  }
+
+  /**
+   * @param {ComplianceRule} rule
+   * @returns {ComplianceRule}
+   */
+  withReview(rule) {
+    return { ...rule, review: rule.review || { status: getReviewStatus(rule), history: [] } };
+  }
+
+  /**
+   * @param {ComplianceSource[]} target
+   * @param {ComplianceSource[]} incoming
+   * @returns {ComplianceSource[]}
+   */
+  mergeSources(target, incoming) {
+    const key = (/** @type {ComplianceSource} */ source) => source.source_url || source.source_id;
+    const known = new Set(target.map(key));
+    return [...target, ...incoming.filter(source => !known.has(key(source)))];
+  }
+
+  /**
+   * @param {string[] | undefined} first
+   * @param {string[] | undefined} second
+   * @returns {string[]}
+   */
+  union(first, second) {
+    return Array.from(new Set([...(first || []), ...(second || [])]));
+  }
+}
+
+module.exports = { RuleReviewQueue, getReviewStatus, REVIEW_STATUSES };
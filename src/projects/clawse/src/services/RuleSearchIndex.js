@@ -0,0 +1,264 @@
+const MiniSearch = require('minisearch');
+
+/**
+ * @typedef {import('../types/ComplianceRule').ComplianceRule} ComplianceRule
+ * @typedef {import('../types/Repository').RuleRepository} RuleRepository
+ * @typedef {import('../types/RuleSearch').RuleSearchFacet} RuleSearchFacet
+ * @typedef {import('../types/RuleSearch').RuleSearchQuery} RuleSearchQuery
+ * @typedef {import('../types/RuleSearch').RuleSearchHit} RuleSearchHit
+ * @typedef {import('../types/RuleSearch').RuleFacetCount} RuleFacetCount
+ * @typedef {import('../types/RuleSearch').RuleSearchPage} RuleSearchPage
+ */
+
+const FACETS = /** @type {RuleSearchFacet[]} */ (['level', 'authority', 'priority', 'tags', 'state', 'industry']);
+
+const DEFAULTS = {
+  maxAgeMs: 60 * 1000, // Rules written outside invalidate() show up after at most a minute
+  pageSize: 20,
+  maxPageSize: 100
+};
+
+// Rules indexed per build; the library is small enough to index in memory
+const INDEX_SCAN_LIMIT = 10000;
+
+const PRIORITY_ORDER = { critical: 1, high: 2, medium: 3, low: 4 };
+
+// Field weights for BM25 scoring
+const BOOSTS = { title: 3, keywords: 2, tags: 2, authority: 1.5 };
+
+/**
+ * In-memory inverted index over the stored rule library. Free-text queries
+ * are ranked with BM25 (MiniSearch) over title, description, authority,
+ * keywords, tags and step text. Every query term must match; the last term
+ * also matches as a prefix and longer terms tolerate a typo.
+ *
+ * Facet filters are OR within a facet and AND across facets. A state filter
+ * also matches rules that apply in every state (`states: ['ALL']`), and the
+ * state counts include them. The index is rebuilt from the repository when
+ * invalidated or older than maxAgeMs.
+ */
+class RuleSearchIndex {
+  /**
+   * @param {RuleRepository | null} repository Null when rules are passed to build() directly
+   * @param {{ maxAgeMs?: number }} [options]
+   */
+  constructor(repository, options = {}) {
+    this.repository = repository;
+    this.maxAgeMs = options.maxAgeMs ?? DEFAULTS.maxAgeMs;
+    /** @type {Map<string, ComplianceRule>} */
+    this.rules = new Map();
+    this.index = this.createIndex();
+    /** @type {number | null} */
+    this.builtAt = null;
+    /** @type {Promise<void> | null} */
+    this.building = null;
+  }
+
+  /**
+   * @param {RuleSearchQuery} [query]
+   * @returns {Promise<RuleSearchPage>}
+   */
+  async search(query = {}) {
+    await this.ensureFresh();
+
+    const q = (query.q || '').trim();
+    const status = query.status || 'active';
+    const filters = this.normalizeFilters(query.filters || {});
+    const pageSize = Math.min(Math.max(1, query.page_size || DEFAULTS.pageSize), DEFAULTS.maxPageSize);
+    const page = Math.max(1, query.page || 1);
+
+    const candidates = this.textMatches(q).filter(hit => status === 'any' || hit.rule.status === status);
+    const hits = candidates.filter(hit => FACETS.every(facet => this.matchesFacet(hit.rule, facet, filters[facet])));
+
+    /** @type {Record<RuleSearchFacet, RuleFacetCount[]>} */
+    const facets = /** @type {any} */ ({});
+    FACETS.forEach(facet => {
+      const others = candidates.filter(hit => FACETS.every(other =>
+        other === facet || this.matchesFacet(hit.rule, other, filters[other])));
+      facets[facet] = this.countFacet(others.map(hit => hit.rule), facet, filters[facet] || []);
+    });
+
+    return {
+      q,
+      filters,
+      status,
+      total: hits.length,
+      page,
+      page_size: pageSize,
+      pages: Math.ceil(hits.length / pageSize),
+      hits: hits.slice((page - 1) * pageSize, page * pageSize),
+      facets,
+      indexed_at: new Date(/** @type {number} */ (this.builtAt)).toISOString()
+    };
+  }
+
+  /**
+   * Drop the index so the next search rebuilds it from the repository
+   */
+  invalidate() {
+    this.builtAt = null;
+  }
+
+  /**
+   * Replace the indexed rules
+   * @param {ComplianceRule[]} rules
+   */
+  build(rules) {
+    const index = this.createIndex();
+    index.addAll(rules.map(rule => this.toDocument(rule)));
+    this.index = index;
+    this.rules = new Map(rules.map(rule => [rule.id, rule]));
+    this.builtAt = Date.now();
+  }
+
+  /**
+   * @returns {Promise<void>}
+   */
+  async ensureFresh() {
+    if (!this.repository) {
+      if (this.builtAt === null) this.build([]);
+      return;
+    }
+    if (this.builtAt !== null && Date.now() - this.builtAt <= this.maxAgeMs) return;
+
+    // Concurrent searches share one rebuild
+    if (!this.building) {
+      const repository = this.repository;
+      this.building = repository.getRecentRules(INDEX_SCAN_LIMIT)
+        .then(rules => this.build(rules))
+        .finally(() => { this.building = null; });
+    }
+    await this.building;
+  }
+
+  // ==================== TEXT MATCHING ====================
+
+  createIndex() {
+    return new MiniSearch({
+      idField: 'id',
+      fields: ['title', 'description', 'authority', 'jurisdiction', 'keywords', 'tags', 'steps'],
+      searchOptions: {
+        boost: BOOSTS,
+        combineWith: 'AND',
+        prefix: (/** @type {string} */ _term, /** @type {number} */ index, /** @type {string[]} */ terms) => index === terms.length - 1,
+        fuzzy: (/** @type {string} */ term) => term.length > 4 ? 0.2 : false
+      }
+    });
+  }
+
+  /**
+   * @param {ComplianceRule} rule
+   */
+  toDocument(rule) {
+    return {
+      id: rule.id,
+      title: rule.title || '',
+      description: rule.description || '',
+      authority: rule.authority || '',
+      jurisdiction: rule.jurisdiction || '',
+      keywords: (rule.search_keywords || []).join(' '),
+      tags: (rule.tags || []).join(' '),
+      steps: (rule.compliance_steps || [])
+        .flatMap(step => [step.step_description, ...(step.required_forms || []).map(form => form.form_name)])
+        .join(' ')
+    };
+  }
+
+  /**
+   * Ranked matches for a text query; without one, every rule by priority then title
+   * @param {string} q
+   * @returns {RuleSearchHit[]}
+   */
+  textMatches(q) {
+    if (!q) {
+      return Array.from(this.rules.values())
+        .sort((a, b) => ((PRIORITY_ORDER[a.priority] || 5) - (PRIORITY_ORDER[b.priority] || 5)) ||
+          String(a.title).localeCompare(String(b.title)))
+        .map(rule => ({ rule, score: null, terms: [] }));
+    }
+
+    return this.index.search(q).flatMap((/** @type {{ id: string, score: number, terms: string[] }} */ result) => {
+      const rule = this.rules.get(result.id);
+      return rule ? [{ rule, score: Math.round(result.score * 1000) / 1000, terms: result.terms }] : [];
+    });
+  }
+
+  // ==================== FACETS ====================
+
+  /**
+   * @param {ComplianceRule} rule
+   * @param {RuleSearchFacet} facet
+   * @returns {string[]}
+   */
+  facetValues(rule, facet) {
+    const criteria = rule.applicability_criteria;
+    switch (facet) {
+      case 'level': return rule.level ? [rule.level] : [];
+      case 'authority': return rule.authority ? [rule.authority] : [];
+      case 'priority': return rule.priority ? [rule.priority] : [];
+      case 'tags': return rule.tags || [];
+      case 'state': return (criteria?.states || []).map(state => String(state).toUpperCase());
+      case 'industry': return [...(criteria?.industries || []), ...(criteria?.industry_groups || [])];
+    }
+  }
+
+  /**
+   * @param {ComplianceRule} rule
+   * @param {RuleSearchFacet} facet
+   * @param {string[] | undefined} selected Lowercased filter values
+   * @returns {boolean}
+   */
+  matchesFacet(rule, facet, selected) {
+    if (!selected || selected.length === 0) return true;
+    const values = this.facetValues(rule, facet).map(value => value.toLowerCase());
+    if (facet === 'state' && values.includes('all')) return true;
+    return values.some(value => selected.includes(value));
+  }
+
+  /**
+   * @param {ComplianceRule[]} rules
+   * @param {RuleSearchFacet} facet
+   * @param {string[]} selected
+   * @returns {RuleFacetCount[]}
+   */
+  countFacet(rules, facet, selected) {
+    /** @type {Map<string, { value: string, count: number }>} */
+    const counts = new Map();
+    let everywhere = 0;
+    rules.forEach(rule => {
+      const values = Array.from(new Set(this.facetValues(rule, facet)));
+      if (facet === 'state' && values.includes('ALL')) everywhere++;
+      values.forEach(value => {
+        const key = value.toLowerCase();
+        const entry = counts.get(key) || { value, count: 0 };
+        entry.count++;
+        counts.set(key, entry);
+      });
+    });
+
+    return Array.from(counts.entries())
+      .map(([key, { value, count }]) => ({
+        value,
+        // A state's count includes the rules that apply everywhere, matching the filter
+        count: facet === 'state' && key !== 'all' ? count + everywhere : count,
+        selected: selected.includes(key)
+      }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  }
+
+  /**
+   * @param {Partial<Record<RuleSearchFacet, string[]>>} filters
+   * @returns {Partial<Record<RuleSearchFacet, string[]>>}
+   */
+  normalizeFilters(filters) {
+    /** @type {Partial<Record<RuleSearchFacet, string[]>>} */
+    const normalized = {};
+    FACETS.forEach(facet => {
+      const values = (filters[facet] || []).map(value => String(value).trim().toLowerCase()).filter(Boolean);
+      if (values.length > 0) normalized[facet] = values;
+    });
+    return normalized;
+  }
+}
+
+module.exports = { RuleSearchIndex, RULE_SEARCH_FACETS: FACETS };
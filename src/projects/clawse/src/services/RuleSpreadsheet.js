@@ -0,0 +1,721 @@
+const ExcelJS = require('exceljs');
+const { v4: uuidv4 } = require('uuid');
+const { RuleValidator } = require('./RuleValidator');
+const { RuleHistory } = require('./RuleHistory');
+
+/**
+ * @typedef {import('../types/ComplianceRule').ComplianceRule} ComplianceRule
+ * @typedef {import('../types/Repository').RuleRepository} RuleRepository
+ * @typedef {import('../types/RuleSpreadsheet').RuleSheetName} RuleSheetName
+ * @typedef {import('../types/RuleSpreadsheet').RuleSpreadsheetFormat} RuleSpreadsheetFormat
+ * @typedef {import('../types/RuleSpreadsheet').RuleSheetCell} RuleSheetCell
+ * @typedef {import('../types/RuleSpreadsheet').RuleSheetRow} RuleSheetRow
+ * @typedef {import('../types/RuleSpreadsheet').RuleSheets} RuleSheets
+ * @typedef {import('../types/RuleSpreadsheet').RuleImportError} RuleImportError
+ * @typedef {import('../types/RuleSpreadsheet').RuleImportResult} RuleImportResult
+ * @typedef {import('../types/RuleSpreadsheet').RuleImportReport} RuleImportReport
+ */
+
+/**
+ * @typedef {'string' | 'number' | 'boolean' | 'list' | 'numbers'} ColumnType
+ * @typedef {Object} Column
+ * @property {string} name Header, and the dotted path in the rule, step, form or source
+ * @property {ColumnType} type
+ * @property {boolean} [key] Identifies the parent row instead of holding a field
+ * @property {boolean} [readOnly] Exported for reference, ignored on import
+ * @property {boolean} [allowEmpty] A blank cell is an empty string rather than a missing field
+ * @property {boolean} [optional] A blank list cell is a missing field rather than an empty list
+ */
+
+/**
+ * @typedef {Object} ImportEntry
+ * @property {any} rule Rule being assembled from the rows
+ * @property {ComplianceRule | null} existing
+ * @property {{ sheet: RuleSheetName, row: number }} origin
+ * @property {number | null} rulesRow
+ * @property {number[]} stepRows Steps sheet row per compliance step
+ * @property {number[][]} formRows Forms sheet rows per step
+ * @property {number[]} sourceRows
+ * @property {RuleImportError[]} errors
+ */
+
+/**
+ * @param {string} name
+ * @param {ColumnType} [type]
+ * @param {{ key?: boolean, readOnly?: boolean, allowEmpty?: boolean, optional?: boolean }} [flags]
+ * @returns {Column}
+ */
+const column = (name, type = 'string', flags = {}) => ({ name, type, ...flags });
+
+const SHEET_NAMES = /** @type {RuleSheetName[]} */ (['rules', 'steps', 'forms', 'sources']);
+
+// Worksheet titles in the XLSX export; imports match sheet names case-insensitively
+/** @type {Record<RuleSheetName, string>} */
+const SHEET_TITLES = { rules: 'Rules', steps: 'Steps', forms: 'Forms', sources: 'Sources' };
+
+// Separator for list cells ("LLC; Corp"); items are trimmed on import
+const LIST_SEPARATOR = '; ';
+
+const CRITERIA = 'applicability_criteria';
+
+/** @type {Record<RuleSheetName, Column[]>} */
+const SHEET_COLUMNS = {
+  rules: [
+    column('id'),
+    column('canonical_id'),
+    column('title'),
+    column('description'),
+    column('authority'),
+    column('level'),
+    column('jurisdiction', 'string', { allowEmpty: true }),
+    column('priority'),
+    column('status'),
+    column('superseded_by'),
+    column(`${CRITERIA}.business_types`, 'list'),
+    column(`${CRITERIA}.employee_count.min`, 'number'),
+    column(`${CRITERIA}.employee_count.max`, 'number'),
+    column(`${CRITERIA}.employee_count.exact`, 'number'),
+    column(`${CRITERIA}.annual_revenue.min`, 'number'),
+    column(`${CRITERIA}.annual_revenue.max`, 'number'),
+    column(`${CRITERIA}.annual_revenue.currency`),
+    column(`${CRITERIA}.industries`, 'list'),
+    column(`${CRITERIA}.industry_groups`, 'list'),
+    column(`${CRITERIA}.states`, 'list'),
+    column(`${CRITERIA}.cities`, 'list'),
+    column(`${CRITERIA}.counties`, 'list'),
+    column(`${CRITERIA}.special_conditions`, 'list'),
+    column(`${CRITERIA}.exclusions.business_types`, 'list', { optional: true }),
+    column(`${CRITERIA}.exclusions.industries`, 'list', { optional: true }),
+    column(`${CRITERIA}.exclusions.states`, 'list', { optional: true }),
+    column(`${CRITERIA}.exclusions.conditions`, 'list', { optional: true }),
+    column('estimated_cost.filing_fees', 'number'),
+    column('estimated_cost.ongoing_costs', 'number'),
+    column('estimated_cost.penalty_range.min', 'number'),
+    column('estimated_cost.penalty_range.max', 'number'),
+    column('deadlines.initial_deadline'),
+    column('deadlines.recurring_deadline'),
+    column('deadlines.grace_period', 'number'),
+    column('tags', 'list'),
+    column('related_rules', 'list'),
+    column('conflicts_with', 'list'),
+    column('search_keywords', 'list'),
+    // Versions and timestamps are assigned by storeRules
+    column('version', 'number', { readOnly: true }),
+    column('created_at', 'string', { readOnly: true }),
+    column('updated_at', 'string', { readOnly: true }),
+    column('last_verified', 'string', { readOnly: true }),
+    // Review decisions go through the review queue
+    column('review.status', 'string', { readOnly: true }),
+    column('review.reviewer', 'string', { readOnly: true }),
+    column('review.reviewed_at', 'string', { readOnly: true })
+  ],
+  steps: [
+    column('rule_id', 'string', { key: true }),
+    column('step_number', 'number'),
+    column('step_description'),
+    column('deadline'),
+    column('deadline_type'),
+    column('required_documents', 'list'),
+    column('online_process_url'),
+    column('estimated_cost', 'number'),
+    column('estimated_time'),
+    column('depends_on_steps', 'numbers'),
+    column('can_be_done_parallel', 'boolean'),
+    column('priority'),
+    column('verification_method', 'string', { allowEmpty: true }),
+    column('completion_proof', 'list')
+  ],
+  forms: [
+    column('rule_id', 'string', { key: true }),
+    column('step_number', 'number', { key: true }),
+    column('form_name'),
+    column('form_url', 'string', { allowEmpty: true }),
+    column('form_type'),
+    column('filing_method'),
+    column('processing_time')
+  ],
+  sources: [
+    column('rule_id', 'string', { key: true }),
+    column('source_id'),
+    column('source_type'),
+    column('source_name', 'string', { allowEmpty: true }),
+    column('source_url', 'string', { allowEmpty: true }),
+    column('api_endpoint'),
+    column('external_id'),
+    column('document_title'),
+    column('document_section'),
+    column('page_number', 'number'),
+    column('reliability_score', 'number'),
+    column('last_updated'),
+    column('verification_status'),
+    column('content_hash', 'string', { allowEmpty: true })
+  ]
+};
+
+// Columns that tell a single CSV file's sheet apart, most specific first
+/** @type {Array<[RuleSheetName, string]>} */
+const CSV_SHEET_MARKERS = [['forms', 'form_name'], ['steps', 'step_description'], ['sources', 'source_url'], ['rules', 'title']];
+
+/**
+ * Flattens compliance rules into spreadsheet rows and imports edited sheets
+ * back. A workbook has one sheet per level of nesting (rules, steps, forms,
+ * sources) joined on rule_id and step_number; a CSV file holds one of them.
+ * Imported rules go through RuleValidator and are upserted with storeRules,
+ * so every changed rule gets a new version and revision.
+ */
+class RuleSpreadsheet {
+  /**
+   * @param {RuleRepository} repository
+   * @param {{ validator?: RuleValidator, history?: RuleHistory }} [options]
+   */
+  constructor(repository, options = {}) {
+    this.repository = repository;
+    this.validator = options.validator || new RuleValidator();
+    this.history = options.history || new RuleHistory();
+  }
+
+  // ==================== EXPORT ====================
+
+  /**
+   * @param {ComplianceRule[]} rules
+   * @returns {Record<RuleSheetName, Record<string, RuleSheetCell>[]>}
+   */
+  flatten(rules) {
+    /** @type {Record<RuleSheetName, Record<string, RuleSheetCell>[]>} */
+    const sheets = { rules: [], steps: [], forms: [], sources: [] };
+
+    for (const rule of rules) {
+      sheets.rules.push(this.toRow(SHEET_COLUMNS.rules, rule));
+      (rule.compliance_steps || []).forEach(step => {
+        sheets.steps.push(this.toRow(SHEET_COLUMNS.steps, step, { rule_id: rule.id }));
+        (step.required_forms || []).forEach(form => {
+          sheets.forms.push(this.toRow(SHEET_COLUMNS.forms, form, { rule_id: rule.id, step_number: step.step_number }));
+        });
+      });
+      (rule.sources || []).forEach(source => {
+        sheets.sources.push(this.toRow(SHEET_COLUMNS.sources, source, { rule_id: rule.id }));
+      });
+    }
+
+    return sheets;
+  }
+
+  /**
+   * @param {ComplianceRule[]} rules
+   * @returns {Promise<Buffer>}
+   */
+  async toXlsx(rules) {
+    const sheets = this.flatten(rules);
+    const workbook = new ExcelJS.Workbook();
+    workbook.created = new Date();
+
+    for (const sheet of SHEET_NAMES) {
+      const worksheet = workbook.addWorksheet(SHEET_TITLES[sheet], { views: [{ state: 'frozen', ySplit: 1 }] });
+      worksheet.columns = SHEET_COLUMNS[sheet].map(({ name, type }) => ({
+        header: name,
+        key: name,
+        width: type === 'number' || type === 'boolean' ? 14 : Math.min(40, Math.max(16, name.length + 2))
+      }));
+      worksheet.getRow(1).font = { bold: true };
+      sheets[sheet].forEach(row => worksheet.addRow(row));
+    }
+
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+
+  /**
+   * @param {ComplianceRule[]} rules
+   * @param {RuleSheetName} [sheet]
+   * @returns {string}
+   */
+  toCsv(rules, sheet = 'rules') {
+    const columns = SHEET_COLUMNS[sheet];
+    const lines = [
+      columns.map(({ name }) => name).join(','),
+      ...this.flatten(rules)[sheet].map(row => columns.map(({ name }) => this.csvField(row[name])).join(','))
+    ];
+    // The byte order mark makes Excel read the file as UTF-8
+    return `\ufeff${lines.join('\r\n')}\r\n`;
+  }
+
+  // ==================== PARSING ====================
+
+  /**
+   * @param {Buffer} buffer
+   * @returns {Promise<RuleSheets>}
+   */
+  async readXlsx(buffer) {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(buffer);
+
+    /** @type {RuleSheets} */
+    const sheets = {};
+    workbook.eachSheet(worksheet => {
+      const sheet = SHEET_NAMES.find(name => name === worksheet.name.trim().toLowerCase());
+      if (!sheet) return;
+
+      /** @type {string[][]} */
+      const records = [];
+      worksheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+        records[rowNumber - 1] = Array.from({ length: row.cellCount }, (_, index) => row.getCell(index + 1).text);
+      });
+      sheets[sheet] = this.toSheetRows(Array.from(records, record => record || []));
+    });
+
+    if (Object.keys(sheets).length === 0) {
+      throw new Error(`No ${Object.values(SHEET_TITLES).join(', ')} sheet in the workbook`);
+    }
+    return sheets;
+  }
+
+  /**
+   * @param {string} text
+   * @param {RuleSheetName} [sheet] Detected from the header when not given
+   * @returns {RuleSheets}
+   */
+  readCsv(text, sheet) {
+    const records = this.parseCsv(text);
+    const header = (records[0] || []).map(name => name.trim());
+    const detected = sheet || CSV_SHEET_MARKERS.find(([, marker]) => header.includes(marker))?.[0];
+    if (!detected) {
+      throw new Error(`Can't tell which sheet the CSV holds, expected a ${CSV_SHEET_MARKERS.map(([, marker]) => marker).join('/')} column`);
+    }
+    return { [detected]: this.toSheetRows(records) };
+  }
+
+  /**
+   * RFC 4180 CSV: quoted fields may hold commas, quotes ("") and line breaks
+   * @param {string} text
+   * @returns {string[][]}
+   */
+  parseCsv(text) {
+    /** @type {string[][]} */
+    const records = [];
+    /** @type {string[]} */
+    let record = [];
+    let field = '';
+    let quoted = false;
+    const input = text.replace(/^\ufeff/, '');
+
+    for (let index = 0; index < input.length; index++) {
+      const char = input[index];
+      if (quoted) {
+        if (char === '"' && input[index + 1] === '"') {
+          field += '"';
+          index++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        record.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && input[index + 1] === '\n') index++;
+        records.push([...record, field]);
+        record = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+    if (field !== '' || record.length > 0) {
+      records.push([...record, field]);
+    }
+
+    return records;
+  }
+
+  /**
+   * First record is the header; blank records are skipped but keep their row numbers
+   * @param {string[][]} records
+   * @returns {RuleSheetRow[]}
+   */
+  toSheetRows(records) {
+    const header = (records[0] || []).map(name => name.trim());
+    return records.slice(1)
+      .map((record, index) => ({
+        row: index + 2,
+        values: Object.fromEntries(header.map((name, column) => [name, (record[column] || '').trim()]).filter(([name]) => name))
+      }))
+      .filter(({ values }) => Object.values(values).some(value => value !== ''));
+  }
+
+  // ==================== IMPORT ====================
+
+  /**
+   * Validate imported rows and upsert the rules that pass. Rules are matched
+   * on id; columns missing from a sheet keep the stored value and blank cells
+   * clear it. A Steps, Forms or Sources sheet replaces that list on every rule
+   * it covers. Rules with any row error are rejected, the rest are stored.
+   * @param {RuleSheets} sheets
+   * @param {{ format: RuleSpreadsheetFormat, dryRun?: boolean }} options
+   * @returns {Promise<RuleImportReport>}
+   */
+  async importSheets(sheets, options) {
+    /** @type {Map<string, ImportEntry>} */
+    const entries = new Map();
+    /** @type {RuleImportError[]} */
+    const errors = [];
+
+    // Rules sheet: one row per rule
+    for (const { row, values } of sheets.rules || []) {
+      const id = values.id || uuidv4();
+      if (entries.has(id)) {
+        errors.push({ sheet: 'rules', row, column: 'id', rule_id: id, code: 'duplicate_rule', message: `Rule ${id} appears more than once` });
+        continue;
+      }
+      const entry = await this.createEntry(id, { sheet: 'rules', row });
+      entry.rulesRow = row;
+      this.applyRow(entry.rule, SHEET_COLUMNS.rules, values, { sheet: 'rules', row, rule_id: id }, entry.errors);
+      entries.set(id, entry);
+    }
+
+    // Child sheets: resolve rule_id to a rule in this import or in storage
+    /** @type {Partial<Record<RuleSheetName, Map<string, RuleSheetRow[]>>>} */
+    const children = {};
+    for (const sheet of /** @type {RuleSheetName[]} */ (['steps', 'forms', 'sources'])) {
+      const rows = sheets[sheet];
+      if (!rows) continue;
+      const byRule = new Map();
+      for (const sheetRow of rows) {
+        const ruleId = sheetRow.values.rule_id;
+        if (!ruleId) {
+          errors.push({ sheet, row: sheetRow.row, column: 'rule_id', code: 'missing_required', message: 'rule_id is required' });
+          continue;
+        }
+        if (!entries.has(ruleId)) {
+          const entry = await this.createEntry(ruleId, { sheet, row: sheetRow.row });
+          if (!entry.existing) {
+            errors.push({ sheet, row: sheetRow.row, column: 'rule_id', rule_id: ruleId, code: 'unknown_rule', message: `No rule ${ruleId} in the Rules sheet or in storage` });
+            continue;
+          }
+          entries.set(ruleId, entry);
+        }
+        byRule.set(ruleId, [...(byRule.get(ruleId) || []), sheetRow]);
+      }
+      children[sheet] = byRule;
+    }
+
+    for (const [ruleId, entry] of entries) {
+      if (children.steps) this.applySteps(entry, ruleId, children.steps.get(ruleId) || []);
+      if (children.forms) this.applyForms(entry, ruleId, children.forms.get(ruleId) || []);
+      if (children.sources) this.applySources(entry, ruleId, children.sources.get(ruleId) || []);
+    }
+
+    /** @type {RuleImportResult[]} */
+    const results = [];
+    /** @type {ComplianceRule[]} */
+    const toStore = [];
+    let index = 0;
+    for (const [ruleId, entry] of entries) {
+      this.ensureManualSource(entry.rule);
+      const { rule, result } = this.validator.validate(entry.rule, index++);
+      result.errors.forEach(error => entry.errors.push({ ...this.locate(entry, error.path), rule_id: ruleId, code: error.code, message: error.message }));
+
+      const base = { rule_id: ruleId, title: String(entry.rule.title || ''), row: entry.origin.row, repairs: result.repairs };
+      if (!rule || entry.errors.length > 0) {
+        errors.push(...entry.errors);
+        results.push({ ...base, status: 'rejected' });
+        continue;
+      }
+
+      if (!entry.existing) {
+        results.push({ ...base, status: 'created', version: rule.version });
+        toStore.push(rule);
+      } else if (this.history.diff(entry.existing, rule).length === 0) {
+        results.push({ ...base, status: 'unchanged', version: entry.existing.version || 1 });
+      } else {
+        results.push({ ...base, status: 'updated', version: (entry.existing.version || 1) + 1 });
+        toStore.push(rule);
+      }
+    }
+
+    if (!options.dryRun && toStore.length > 0) {
+      await this.repository.storeRules(toStore);
+    }
+
+    const count = (/** @type {RuleImportResult['status']} */ status) => results.filter(result => result.status === status).length;
+    return {
+      imported_at: new Date().toISOString(),
+      format: options.format,
+      sheets: SHEET_NAMES.filter(sheet => sheets[sheet]),
+      dry_run: Boolean(options.dryRun),
+      total: results.length,
+      created: count('created'),
+      updated: count('updated'),
+      unchanged: count('unchanged'),
+      rejected: count('rejected'),
+      results,
+      errors: errors.sort((a, b) => SHEET_NAMES.indexOf(a.sheet) - SHEET_NAMES.indexOf(b.sheet) || a.row - b.row)
+    };
+  }
+
+  /**
+   * @param {string} id
+   * @param {{ sheet: RuleSheetName, row: number }} origin
+   * @returns {Promise<ImportEntry>}
+   */
+  async createEntry(id, origin) {
+    const existing = await this.repository.getRuleById(id);
+    const now = new Date().toISOString();
+    return {
+      // Bookkeeping fields of a new rule are set here so they don't show up as repairs
+      rule: existing ? JSON.parse(JSON.stringify(existing)) : { id, version: 1, created_at: now, updated_at: now, last_verified: now },
+      existing,
+      origin,
+      rulesRow: null,
+      stepRows: [],
+      formRows: [],
+      sourceRows: [],
+      errors: []
+    };
+  }
+
+  /**
+   * Replace the rule's steps; a step keeps its stored forms and any columns
+   * missing from the sheet
+   * @param {ImportEntry} entry
+   * @param {string} ruleId
+   * @param {RuleSheetRow[]} rows
+   */
+  applySteps(entry, ruleId, rows) {
+    const previous = new Map((entry.rule.compliance_steps || []).map(/** @param {any} step */ step => [Number(step.step_number), step]));
+    const seen = new Set();
+    entry.rule.compliance_steps = [];
+    entry.stepRows = [];
+    entry.formRows = [];
+
+    for (const { row, values } of rows) {
+      const location = { sheet: /** @type {RuleSheetName} */ ('steps'), row, rule_id: ruleId };
+      const stepNumber = Number(values.step_number);
+      if (values.step_number && seen.has(stepNumber)) {
+        entry.errors.push({ ...location, column: 'step_number', code: 'duplicate_step', message: `Step ${stepNumber} appears more than once` });
+        continue;
+      }
+      if (!values.step_description && !previous.get(stepNumber)?.step_description) {
+        entry.errors.push({ ...location, column: 'step_description', code: 'missing_required', message: 'step_description is required' });
+        continue;
+      }
+      seen.add(stepNumber);
+
+      const step = JSON.parse(JSON.stringify(previous.get(stepNumber) || { required_forms: [] }));
+      this.applyRow(step, SHEET_COLUMNS.steps, values, location, entry.errors);
+      entry.rule.compliance_steps.push(step);
+      entry.stepRows.push(row);
+      entry.formRows.push([]);
+    }
+  }
+
+  /**
+   * @param {ImportEntry} entry
+   * @param {string} ruleId
+   * @param {RuleSheetRow[]} rows
+   */
+  applyForms(entry, ruleId, rows) {
+    /** @type {any[]} */
+    const steps = entry.rule.compliance_steps || [];
+    steps.forEach(step => { step.required_forms = []; });
+    entry.formRows = steps.map(() => []);
+
+    for (const { row, values } of rows) {
+      const location = { sheet: /** @type {RuleSheetName} */ ('forms'), row, rule_id: ruleId };
+      const stepIndex = steps.findIndex(step => String(step.step_number) === values.step_number);
+      if (stepIndex === -1) {
+        entry.errors.push({ ...location, column: 'step_number', code: 'unknown_step', message: `Rule ${ruleId} has no step ${values.step_number || '(blank)'}` });
+        continue;
+      }
+      if (!values.form_name) {
+        entry.errors.push({ ...location, column: 'form_name', code: 'missing_required', message: 'form_name is required' });
+        continue;
+      }
+
+      const form = {};
+      this.applyRow(form, SHEET_COLUMNS.forms, values, location, entry.errors);
+      steps[stepIndex].required_forms.push(form);
+      entry.formRows[stepIndex]?.push(row);
+    }
+  }
+
+  /**
+   * @param {ImportEntry} entry
+   * @param {string} ruleId
+   * @param {RuleSheetRow[]} rows
+   */
+  applySources(entry, ruleId, rows) {
+    const previous = new Map((entry.rule.sources || []).map(/** @param {any} source */ source => [source.source_id, source]));
+    entry.rule.sources = [];
+    entry.sourceRows = [];
+
+    for (const { row, values } of rows) {
+      const source = JSON.parse(JSON.stringify(previous.get(values.source_id) || {}));
+      this.applyRow(source, SHEET_COLUMNS.sources, values, { sheet: 'sources', row, rule_id: ruleId }, entry.errors);
+      entry.rule.sources.push(source);
+      entry.sourceRows.push(row);
+    }
+  }
+
+  /**
+   * Rules authored in a spreadsheet have no scraped or generated source
+   * @param {any} rule
+   */
+  ensureManualSource(rule) {
+    if (Array.isArray(rule.sources) && rule.sources.length > 0) return;
+    rule.sources = [{
+      source_id: `manual_${rule.id}`,
+      source_type: 'manual',
+      source_name: 'Manual entry',
+      source_url: '',
+      reliability_score: 5,
+      last_updated: new Date().toISOString(),
+      verification_status: 'pending',
+      content_hash: ''
+    }];
+  }
+
+  /**
+   * Map a validator path back to the sheet row it came from
+   * @param {ImportEntry} entry
+   * @param {string} path
+   * @returns {{ sheet: RuleSheetName, row: number, column?: string }}
+   */
+  locate(entry, path) {
+    const fallback = { sheet: entry.origin.sheet, row: entry.origin.row, ...(path && { column: path }) };
+    const form = /^compliance_steps\.(\d+)\.required_forms\.(\d+)(?:\.(.+))?$/.exec(path);
+    if (form) {
+      const row = entry.formRows[Number(form[1])]?.[Number(form[2])];
+      return row ? { sheet: 'forms', row, ...(form[3] && { column: form[3] }) } : fallback;
+    }
+    const step = /^compliance_steps\.(\d+)(?:\.(.+))?$/.exec(path);
+    if (step) {
+      const row = entry.stepRows[Number(step[1])];
+      return row ? { sheet: 'steps', row, ...(step[2] && { column: step[2] }) } : fallback;
+    }
+    const source = /^sources\.(\d+)(?:\.(.+))?$/.exec(path);
+    if (source) {
+      const row = entry.sourceRows[Number(source[1])];
+      return row ? { sheet: 'sources', row, ...(source[2] && { column: source[2] }) } : fallback;
+    }
+    return entry.rulesRow ? { sheet: 'rules', row: entry.rulesRow, ...(path && { column: path }) } : fallback;
+  }
+
+  // ==================== HELPERS ====================
+
+  /**
+   * @param {Column[]} columns
+   * @param {any} item
+   * @param {Record<string, RuleSheetCell>} [keys] Values of the key columns
+   * @returns {Record<string, RuleSheetCell>}
+   */
+  toRow(columns, item, keys = {}) {
+    return Object.fromEntries(columns.map(({ name, type, key }) => {
+      const value = key ? keys[name] : this.getPath(item, name);
+      if (value === undefined || value === null) return [name, null];
+      if (type === 'list' || type === 'numbers') return [name, Array.isArray(value) ? value.join(LIST_SEPARATOR) : String(value)];
+      return [name, /** @type {RuleSheetCell} */ (value)];
+    }));
+  }
+
+  /**
+   * Write the row's cells into the target; cell errors are recorded and the field left as it was
+   * @param {any} target
+   * @param {Column[]} columns
+   * @param {Record<string, string>} values
+   * @param {{ sheet: RuleSheetName, row: number, rule_id: string }} location
+   * @param {RuleImportError[]} errors
+   */
+  applyRow(target, columns, values, location, errors) {
+    for (const { name, type, key, readOnly, allowEmpty, optional } of columns) {
+      if (key || readOnly || !(name in values)) continue;
+      const text = values[name] || '';
+      if (text === '') {
+        if ((type === 'list' || type === 'numbers') && !optional) this.setPath(target, name, []);
+        else if (allowEmpty) this.setPath(target, name, '');
+        else this.deletePath(target, name);
+        continue;
+      }
+      const parsed = this.parseCell(text, type);
+      if ('error' in parsed) {
+        errors.push({ ...location, column: name, code: 'invalid_cell', message: parsed.error });
+      } else {
+        this.setPath(target, name, parsed.value);
+      }
+    }
+  }
+
+  /**
+   * @param {string} text Non-empty, trimmed
+   * @param {ColumnType} type
+   * @returns {{ value: any } | { error: string }}
+   */
+  parseCell(text, type) {
+    switch (type) {
+      case 'number': {
+        const value = Number(text.replace(/[$,\s]/g, ''));
+        return Number.isFinite(value) ? { value } : { error: `Expected a number, got "${text}"` };
+      }
+      case 'boolean':
+        if (/^(true|yes|y|1)$/i.test(text)) return { value: true };
+        if (/^(false|no|n|0)$/i.test(text)) return { value: false };
+        return { error: `Expected true or false, got "${text}"` };
+      case 'list':
+        return { value: text.split(';').map(item => item.trim()).filter(Boolean) };
+      case 'numbers': {
+        const items = text.split(';').map(item => item.trim()).filter(Boolean);
+        const invalid = items.find(item => !Number.isFinite(Number(item)));
+        return invalid === undefined ? { value: items.map(Number) } : { error: `Expected numbers separated by ";", got "${invalid}"` };
+      }
+      default:
+        return { value: text };
+    }
+  }
+
+  /**
+   * @param {RuleSheetCell | undefined} value
+   * @returns {string}
+   */
+  csvField(value) {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  /**
+   * @param {any} item
+   * @param {string} path
+   * @returns {any}
+   */
+  getPath(item, path) {
+    return path.split('.').reduce((value, key) => (value && typeof value === 'object' ? value[key] : undefined), item);
+  }
+
+  /**
+   * @param {any} item
+   * @param {string} path
+   * @param {any} value
+   */
+  setPath(item, path, value) {
+    const keys = path.split('.');
+    const last = /** @type {string} */ (keys.pop());
+    const parent = keys.reduce((node, key) => {
+      if (!node[key] || typeof node[key] !== 'object') node[key] = {};
+      return node[key];
+    }, item);
+    parent[last] = value;
+  }
+
+  /**
+   * @param {any} item
+   * @param {string} path
+   */
+  deletePath(item, path) {
+    const keys = path.split('.');
+    const last = /** @type {string} */ (keys.pop());
+    const parent = this.getPath(item, keys.join('.')) ?? (keys.length === 0 ? item : undefined);
+    if (parent && typeof parent === 'object') delete parent[last];
+  }
+}
+
+module.exports = { RuleSpreadsheet, SHEET_NAMES, SHEET_COLUMNS };
@@ -0,0 +1,912 @@
+const { z } = require('zod');
+const { v4: uuidv4 } = require('uuid');
+
+/**
+ * @typedef {import('../types/ComplianceRule').ComplianceRule} ComplianceRule
+ * @typedef {import('../types/RuleValidation').RuleRepair} RuleRepair
+ * @typedef {import('../types/RuleValidation').RuleValidationError} RuleValidationError
+ * @typedef {import('../types/RuleValidation').RuleValidationResult} RuleValidationResult
+ * @typedef {import('../types/RuleValidation').ValidatedRuleBatch} ValidatedRuleBatch
+ * @typedef {{ repairs: RuleRepair[], errors: RuleValidationError[] }} ValidationContext
+ */
+
+const PRIORITIES = /** @type {const} */ (['critical', 'high', 'medium', 'low']);
+const LEVELS = /** @type {const} */ (['federal', 'state', 'local']);
+const STATUSES = /** @type {const} */ (['active', 'proposed', 'deprecated', 'superseded']);
+const DEADLINE_TYPES = /** @type {const} */ (['absolute', 'relative', 'recurring']);
+const FORM_TYPES = /** @type {const} */ (['pdf', 'online', 'paper']);
+const FILING_METHODS = /** @type {const} */ (['online', 'mail', 'in_person']);
+const SOURCE_TYPES = /** @type {const} */ (['api', 'website', 'pdf', 'manual', 'ai_generated']);
+const VERIFICATION_STATUSES = /** @type {const} */ (['verified', 'pending', 'outdated']);
+const REVIEW_STATUSES = /** @type {const} */ (['pending', 'approved', 'rejected', 'merged']);
+
+// Spellings the models and scrapers produce for enum values
+/** @type {{[field: string]: {[alias: string]: string}}} */
+const ENUM_ALIASES = {
+  priority: { urgent: 'critical', mandatory: 'critical', required: 'high', important: 'high', moderate: 'medium', normal: 'medium', standard: 'medium', minor: 'low', optional: 'low' },
+  level: { national: 'federal', us: 'federal', city: 'local', county: 'local', municipal: 'local' },
+  source_type: { government_website: 'website', web: 'website', regulations_api: 'api', ai: 'ai_generated' },
+  filing_method: { 'in-person': 'in_person', 'in person': 'in_person', electronic: 'online', 'e-file': 'online', efile: 'online', postal: 'mail' },
+  form_type: { web: 'online', electronic: 'online', paper_form: 'paper' }
+};
+
+/**
+ * Documented repair defaults. A missing or invalid field is replaced with
+ * these values and the repair is recorded in the validation report.
+ * Missing title/description, an unknown level and state/local rules without
+ * a determinable state can't be repaired and reject the rule.
+ */
+const DEFAULTS = {
+  priority: 'medium',
+  level: 'federal',
+  status: 'active',
+  authority: 'Unknown Authority',
+  employee_count: { min: 0, max: 999999 },
+  annual_revenue: { min: 0, max: 999999999, currency: 'USD' },
+  federal_states: ['ALL'],
+  initial_deadline: 'Not specified',
+  step_deadline: 'As required',
+  estimated_time: 'Varies',
+  processing_time: 'Varies',
+  filing_method: 'online',
+  reliability_score: 5,
+  verification_status: 'pending'
+};
+
+const FormReferenceSchema = z.object({
+  form_name: z.string().min(1),
+  form_url: z.string(),
+  form_type: z.enum(FORM_TYPES),
+  filing_method: z.enum(FILING_METHODS),
+  processing_time: z.string()
+});
+
+const ComplianceStepSchema = z.object({
+  step_number: z.number().int().positive(),
+  step_description: z.string().min(1),
+  deadline: z.string().min(1),
+  deadline_type: z.enum(DEADLINE_TYPES),
+  required_forms: z.array(FormReferenceSchema),
+  required_documents: z.array(z.string()),
+  online_process_url: z.string().optional(),
+  estimated_cost: z.number().nonnegative(),
+  estimated_time: z.string(),
+  depends_on_steps: z.array(z.number().int()),
+  can_be_done_parallel: z.boolean(),
+  priority: z.enum(PRIORITIES),
+  verification_method: z.string(),
+  completion_proof: z.array(z.string())
+});
+
+const ComplianceSourceSchema = z.object({
+  source_id: z.string().min(1),
+  source_type: z.enum(SOURCE_TYPES),
+  source_name: z.string(),
+  source_url: z.string(),
+  api_endpoint: z.string().optional(),
+  external_id: z.string().optional(),
+  document_title: z.string().optional(),
+  document_section: z.string().optional(),
+  page_number: z.number().optional(),
+  reliability_score: z.number().min(1).max(10),
+  last_updated: z.string(),
+  verification_status: z.enum(VERIFICATION_STATUSES),
+  content_hash: z.string()
+});
+
+// Review state is written by RuleReviewQueue, never repaired
+const RuleReviewSchema = z.object({
+  status: z.enum(REVIEW_STATUSES),
+  reviewer: z.string().optional(),
+  reviewed_at: z.string().optional(),
+  notes: z.string().optional(),
+  merged_into: z.string().optional(),
+  history: z.array(z.object({
+    at: z.string(),
+    reviewer: z.string(),
+    action: z.enum(['edited', 'approved', 'rejected', 'merged']),
+    version: z.number().int().positive(),
+    note: z.string().optional(),
+    merged_into: z.string().optional()
+  }))
+});
+
+const ComplianceRuleSchema = z.object({
+  id: z.string().min(1),
+  canonical_id: z.string().min(1),
+  title: z.string().min(1),
+  description: z.string().min(1),
+  authority: z.string().min(1),
+  level: z.enum(LEVELS),
+  jurisdiction: z.string(),
+  priority: z.enum(PRIORITIES),
+  status: z.enum(STATUSES),
+  superseded_by: z.string().optional(),
+  applicability_criteria: z.object({
+    business_types: z.array(z.string()),
+    employee_count: z.object({ min: z.number(), max: z.number(), exact: z.number().optional() }),
+    annual_revenue: z.object({ min: z.number(), max: z.number(), currency: z.string() }),
+    industries: z.array(z.string()),
+    industry_groups: z.array(z.string()),
+    states: z.array(z.string()).min(1),
+    cities: z.array(z.string()),
+    counties: z.array(z.string()),
+    special_conditions: z.array(z.string()),
+    exclusions: z.object({
+      business_types: z.array(z.string()).optional(),
+      industries: z.array(z.string()).optional(),
+      states: z.array(z.string()).optional(),
+      conditions: z.array(z.string()).optional()
+    })
+  }),
+  compliance_steps: z.array(ComplianceStepSchema),
+  estimated_cost: z.object({
+    filing_fees: z.number().nonnegative(),
+    ongoing_costs: z.number().nonnegative(),
+    penalty_range: z.object({ min: z.number().nonnegative(), max: z.number().nonnegative() })
+  }),
+  deadlines: z.object({
+    initial_deadline: z.string().min(1),
+    recurring_deadline: z.string().optional(),
+    grace_period: z.number().optional()
+  }),
+  sources: z.array(ComplianceSourceSchema),
+  tags: z.array(z.string()),
+  related_rules: z.array(z.string()),
+  conflicts_with: z.array(z.string()),
+  version: z.number().int().positive(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  last_verified: z.string(),
+  search_keywords: z.array(z.string()),
+  search_vector: z.string().optional(),
+  review: RuleReviewSchema.optional()
+});
+
+// JSON Schema sent to the model (structured outputs). It describes only the
+// fields the model fills in; ids, timestamps and sources are added by
+// AIRuleGenerator.enhanceRule and the result still goes through validateBatch.
+// Strict mode needs every property listed as required and no extra keys.
+/**
+ * @param {{[key: string]: any}} properties
+ * @returns {any}
+ */
+const strictObject = properties => ({
+  type: 'object',
+  properties,
+  required: Object.keys(properties),
+  additionalProperties: false
+});
+const stringList = { type: 'array', items: { type: 'string' } };
+const numberRange = strictObject({ min: { type: 'number' }, max: { type: 'number' } });
+
+const GENERATED_RULE_JSON_SCHEMA = strictObject({
+  title: { type: 'string' },
+  description: { type: 'string' },
+  authority: { type: 'string' },
+  level: { type: 'string', enum: LEVELS },
+  priority: { type: 'string', enum: PRIORITIES },
+  applicability_criteria: strictObject({
+    business_types: stringList,
+    employee_count: numberRange,
+    annual_revenue: numberRange,
+    industries: stringList,
+    states: stringList,
+    special_conditions: stringList
+  }),
+  compliance_steps: {
+    type: 'array',
+    items: strictObject({
+      step_number: { type: 'integer' },
+      step_description: { type: 'string' },
+      deadline: { type: 'string' },
+      required_forms: {
+        type: 'array',
+        items: strictObject({ form_name: { type: 'string' }, form_url: { type: 'string' } })
+      },
+      estimated_cost: { type: 'number' },
+      estimated_time: { type: 'string' }
+    })
+  },
+  estimated_cost: strictObject({ filing_fees: { type: 'number' }, penalty_range: numberRange }),
+  tags: stringList
+});
+
+/** @type {import('../types/LlmClient').LlmJsonSchema} */
+const RULE_BATCH_OUTPUT_SCHEMA = {
+  name: 'compliance_rule_batch',
+  // Structured outputs need an object at the root, so batches are wrapped in { rules }
+  schema: strictObject({ rules: { type: 'array', items: GENERATED_RULE_JSON_SCHEMA } })
+};
+
+/** @type {import('../types/LlmClient').LlmJsonSchema} */
+const SINGLE_RULE_OUTPUT_SCHEMA = {
+  name: 'compliance_rule',
+  schema: GENERATED_RULE_JSON_SCHEMA
+};
+
+/**
+ * Runtime validation for rules produced by the AI generator and scrapers.
+ * Each rule is repaired first (aliases normalized, missing fields defaulted
+ * from DEFAULTS, numbers coerced) and then checked against the zod schema.
+ * Whatever still fails is rejected with a machine-readable error list.
+ */
+class RuleValidator {
+  /**
+   * Validate a batch of rules and build the per-batch report
+   * @param {any[]} rules
+   * @param {string} source Name of the producing call, for the report
+   * @returns {ValidatedRuleBatch}
+   */
+  validateBatch(rules, source) {
+    /** @type {ComplianceRule[]} */
+    const validRules = [];
+    /** @type {RuleValidationResult[]} */
+    const results = [];
+
+    rules.forEach((raw, index) => {
+      const { rule, result } = this.validate(raw, index);
+      results.push(result);
+      if (rule) validRules.push(rule);
+    });
+
+    const report = {
+      batch_id: `validation_${Date.now()}_${uuidv4().substring(0, 8)}`,
+      source,
+      validated_at: new Date().toISOString(),
+      total: results.length,
+      valid: results.filter(result => result.status === 'valid').length,
+      repaired: results.filter(result => result.status === 'repaired').length,
+      rejected: results.filter(result => result.status === 'rejected').length,
+      results
+    };
+
+    console.log(`🧪 Validated ${source}: ${report.valid} valid, ${report.repaired} repaired, ${report.rejected} rejected`);
+    results.filter(result => result.status === 'rejected').forEach(result => {
+      console.log(`❌ Rejected "${result.title || `rule #${result.index}`}":`, result.errors.map(error => `${error.path}: ${error.message}`).join('; '));
+    });
+
+    return { rules: validRules, report };
+  }
+
+  /**
+   * Repair and validate a single rule
+   * @param {any} raw
+   * @param {number} [index]
+   * @returns {{ rule: ComplianceRule | null, result: RuleValidationResult }}
+   */
+  validate(raw, index = 0) {
+    /** @type {ValidationContext} */
+    const ctx = { repairs: [], errors: [] };
+
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      ctx.errors.push({ path: '', code: 'invalid_type', message: 'Rule must be an object' });
+      return { rule: null, result: this.result(index, null, ctx) };
+    }
+
+    const repaired = this.repairRule(raw, ctx);
+    const parsed = ComplianceRuleSchema.safeParse(repaired);
+
+    if (!parsed.success) {
+      // Repair already explained these paths
+      const reported = new Set(ctx.errors.map(error => error.path));
+      parsed.error.issues
+        .filter(issue => !reported.has(issue.path.join('.')))
+        .forEach(issue => {
+          ctx.errors.push({ path: issue.path.join('.'), code: issue.code, message: issue.message });
+        });
+    }
+
+    if (ctx.errors.length > 0 || !parsed.success) {
+      return { rule: null, result: this.result(index, repaired, ctx) };
+    }
+
+    return { rule: /** @type {ComplianceRule} */ (parsed.data), result: this.result(index, parsed.data, ctx) };
+  }
+
+  /**
+   * @param {any} raw
+   * @param {ValidationContext} ctx
+   * @returns {any}
+   */
+  repairRule(raw, ctx) {
+    const now = new Date().toISOString();
+    const rule = { ...raw };
+
+    // Field aliases the models use instead of the schema names
+    this.alias(rule, 'name', 'title', ctx);
+    this.alias(rule, 'requirement', 'description', ctx);
+    this.alias(rule, 'requirements', 'description', ctx);
+    if (Array.isArray(rule.description)) {
+      ctx.repairs.push({ path: 'description', action: 'coerced', from: rule.description, to: rule.description.join(' ') });
+      rule.description = rule.description.join(' ');
+    }
+
+    if (!this.isNonEmptyString(rule.title)) {
+      ctx.errors.push({ path: 'title', code: 'missing_required', message: 'Rule title is required' });
+    }
+    if (!this.isNonEmptyString(rule.description)) {
+      ctx.errors.push({ path: 'description', code: 'missing_required', message: 'Rule description is required' });
+    }
+
+    this.defaultValue(rule, 'id', uuidv4(), ctx);
+    this.defaultValue(rule, 'authority', DEFAULTS.authority, ctx);
+    rule.priority = this.repairEnum(rule.priority, 'priority', PRIORITIES, DEFAULTS.priority, 'priority', ctx);
+    rule.status = this.repairEnum(rule.status, 'status', STATUSES, DEFAULTS.status, 'status', ctx);
+
+    if (rule.level === undefined || rule.level === null || rule.level === '') {
+      this.defaultValue(rule, 'level', DEFAULTS.level, ctx);
+    } else {
+      const level = this.normalizeEnum(rule.level, 'level', LEVELS);
+      if (level) {
+        if (level !== rule.level) ctx.repairs.push({ path: 'level', action: 'normalized', from: rule.level, to: level });
+        rule.level = level;
+      } else {
+        ctx.errors.push({ path: 'level', code: 'invalid_enum_value', message: `Unknown level "${rule.level}", expected ${LEVELS.join('|')}` });
+      }
+    }
+
+    this.defaultValue(rule, 'jurisdiction', rule.level === 'federal' ? 'US' : '', ctx);
+    this.defaultValue(rule, 'canonical_id', rule.id, ctx);
+
+    rule.applicability_criteria = this.repairCriteria(rule.applicability_criteria, rule, ctx);
+
+    const steps = Array.isArray(rule.compliance_steps) ? rule.compliance_steps : [];
+    if (!Array.isArray(rule.compliance_steps)) {
+      ctx.repairs.push({ path: 'compliance_steps', action: 'defaulted', from: rule.compliance_steps, to: [] });
+    }
+    rule.compliance_steps = steps
+      .map((step, index) => this.repairStep(step, index, rule.priority, ctx))
+      .filter(step => step !== null);
+    this.repairStepDependencies(rule.compliance_steps, ctx);
+
+    rule.estimated_cost = this.repairCost(rule.estimated_cost, ctx);
+    rule.deadlines = this.repairDeadlines(rule.deadlines, rule.compliance_steps, ctx);
+
+    const sources = Array.isArray(rule.sources) ? rule.sources : [];
+    if (!Array.isArray(rule.sources)) {
+      ctx.repairs.push({ path: 'sources', action: 'defaulted', from: rule.sources, to: [] });
+    }
+    rule.sources = sources.map((source, index) => this.repairSource(source, `sources.${index}`, now, ctx));
+
+    for (const field of ['tags', 'related_rules', 'conflicts_with', 'search_keywords']) {
+      rule[field] = this.repairStringArray(rule[field], field, ctx);
+    }
+
+    const version = this.toNumber(rule.version);
+    if (version === null || version < 1) {
+      this.recordDefault('version', rule.version, 1, ctx);
+      rule.version = 1;
+    } else {
+      rule.version = Math.floor(version);
+    }
+    for (const field of ['created_at', 'updated_at', 'last_verified']) {
+      this.defaultValue(rule, field, now, ctx);
+    }
+
+    // Record fields that the schema will strip
+    const known = Object.keys(ComplianceRuleSchema.shape);
+    Object.keys(rule).filter(key => !known.includes(key)).forEach(key => {
+      ctx.repairs.push({ path: key, action: 'removed', from: rule[key] });
+    });
+
+    return rule;
+  }
+
+  /**
+   * @param {any} raw
+   * @param {any} rule
+   * @param {ValidationContext} ctx
+   * @returns {any}
+   */
+  repairCriteria(raw, rule, ctx) {
+    const path = 'applicability_criteria';
+    const criteria = raw && typeof raw === 'object' ? { ...raw } : {};
+    if (!raw || typeof raw !== 'object') {
+      ctx.repairs.push({ path, action: 'defaulted', from: raw, to: {} });
+    }
+
+    for (const field of ['business_types', 'industries', 'industry_groups', 'cities', 'counties', 'special_conditions']) {
+      criteria[field] = this.repairStringArray(criteria[field], `${path}.${field}`, ctx);
+    }
+
+    criteria.employee_count = this.repairRange(criteria.employee_count, `${path}.employee_count`, DEFAULTS.employee_count, ctx);
+    criteria.annual_revenue = {
+      ...this.repairRange(criteria.annual_revenue, `${path}.annual_revenue`, DEFAULTS.annual_revenue, ctx),
+      currency: this.isNonEmptyString(criteria.annual_revenue?.currency) ? criteria.annual_revenue.currency : DEFAULTS.annual_revenue.currency
+    };
+
+    // States: federal rules default to ALL, state/local rules fall back to a two-letter jurisdiction
+    const states = this.repairStringArray(criteria.states, `${path}.states`, ctx);
+    if (states.length > 0) {
+      criteria.states = states;
+    } else if (rule.level === 'federal') {
+      this.recordDefault(`${path}.states`, criteria.states, DEFAULTS.federal_states, ctx);
+      criteria.states = [...DEFAULTS.federal_states];
+    } else if (/^[A-Z]{2}$/.test(rule.jurisdiction || '')) {
+      this.recordDefault(`${path}.states`, criteria.states, [rule.jurisdiction], ctx);
+      criteria.states = [rule.jurisdiction];
+    } else {
+      criteria.states = [];
+      ctx.errors.push({ path: `${path}.states`, code: 'missing_required', message: `${rule.level} rules must list the states they apply to` });
+    }
+
+    const exclusions = criteria.exclusions && typeof criteria.exclusions === 'object' && !Array.isArray(criteria.exclusions)
+      ? criteria.exclusions
+      : null;
+    if (!exclusions) {
+      this.recordDefault(`${path}.exclusions`, criteria.exclusions, {}, ctx);
+    }
+    criteria.exclusions = {};
+    for (const field of ['business_types', 'industries', 'states', 'conditions']) {
+      if (exclusions?.[field] !== undefined) {
+        criteria.exclusions[field] = this.repairStringArray(exclusions[field], `${path}.exclusions.${field}`, ctx);
+      }
+    }
+
+    return criteria;
+  }
+
+  /**
+   * @param {any} raw
+   * @param {number} index
+   * @param {string} rulePriority
+   * @param {ValidationContext} ctx
+   * @returns {any | null}
+   */
+  repairStep(raw, index, rulePriority, ctx) {
+    const path = `compliance_steps.${index}`;
+    if (!raw || typeof raw !== 'object') {
+      ctx.repairs.push({ path, action: 'removed', from: raw });
+      return null;
+    }
+
+    const step = { ...raw };
+    this.alias(step, 'description', 'step_description', ctx, path);
+    this.alias(step, 'action', 'step_description', ctx, path);
+    if (!this.isNonEmptyString(step.step_description)) {
+      ctx.repairs.push({ path, action: 'removed', from: raw });
+      return null;
+    }
+
+    const stepNumber = this.toNumber(step.step_number);
+    if (stepNumber === null || stepNumber < 1) {
+      this.recordDefault(`${path}.step_number`, step.step_number, index + 1, ctx);
+      step.step_number = index + 1;
+    } else {
+      step.step_number = Math.floor(stepNumber);
+    }
+
+    if (!this.isNonEmptyString(step.deadline)) {
+      this.recordDefault(`${path}.deadline`, step.deadline, DEFAULTS.step_deadline, ctx);
+      step.deadline = DEFAULTS.step_deadline;
+    }
+    step.deadline_type = this.repairEnum(step.deadline_type, 'deadline_type', DEADLINE_TYPES, this.inferDeadlineType(step.deadline), `${path}.deadline_type`, ctx);
+
+    const forms = Array.isArray(step.required_forms) ? step.required_forms : [];
+    if (!Array.isArray(step.required_forms)) {
+      this.recordDefault(`${path}.required_forms`, step.required_forms, [], ctx);
+    }
+    step.required_forms = forms
+      .map((form, formIndex) => this.repairForm(form, `${path}.required_forms.${formIndex}`, ctx))
+      .filter(form => form !== null);
+
+    step.required_documents = this.repairStringArray(step.required_documents, `${path}.required_documents`, ctx);
+    step.completion_proof = this.repairStringArray(step.completion_proof, `${path}.completion_proof`, ctx);
+    step.estimated_cost = this.repairAmount(step.estimated_cost, `${path}.estimated_cost`, ctx);
+
+    if (!this.isNonEmptyString(step.estimated_time)) {
+      this.recordDefault(`${path}.estimated_time`, step.estimated_time, DEFAULTS.estimated_time, ctx);
+      step.estimated_time = DEFAULTS.estimated_time;
+    }
+
+    const dependencies = Array.isArray(step.depends_on_steps) ? step.depends_on_steps : [];
+    if (!Array.isArray(step.depends_on_steps)) {
+      this.recordDefault(`${path}.depends_on_steps`, step.depends_on_steps, [], ctx);
+    }
+    step.depends_on_steps = dependencies.map(value => this.toNumber(value)).filter(value => value !== null);
+
+    if (typeof step.can_be_done_parallel !== 'boolean') {
+      this.recordDefault(`${path}.can_be_done_parallel`, step.can_be_done_parallel, false, ctx);
+      step.can_be_done_parallel = false;
+    }
+    step.priority = this.repairEnum(step.priority, 'priority', PRIORITIES, rulePriority, `${path}.priority`, ctx);
+
+    if (typeof step.verification_method !== 'string') {
+      this.recordDefault(`${path}.verification_method`, step.verification_method, '', ctx);
+      step.verification_method = '';
+    }
+    if (step.online_process_url !== undefined && typeof step.online_process_url !== 'string') {
+      ctx.repairs.push({ path: `${path}.online_process_url`, action: 'removed', from: step.online_process_url });
+      delete step.online_process_url;
+    }
+
+    return step;
+  }
+
+  /**
+   * Drop dependencies on steps that don't exist (or on the step itself)
+   * @param {any[]} steps
+   * @param {ValidationContext} ctx
+   */
+  repairStepDependencies(steps, ctx) {
+    const stepNumbers = new Set(steps.map(step => step.step_number));
+    steps.forEach((step, index) => {
+      const valid = step.depends_on_steps.filter(/** @param {number} dependency */ dependency =>
+        stepNumbers.has(dependency) && dependency !== step.step_number);
+      if (valid.length !== step.depends_on_steps.length) {
+        ctx.repairs.push({ path: `compliance_steps.${index}.depends_on_steps`, action: 'removed', from: step.depends_on_steps, to: valid });
+        step.depends_on_steps = valid;
+      }
+    });
+  }
+
+  /**
+   * @param {any} raw
+   * @param {string} path
+   * @param {ValidationContext} ctx
+   * @returns {any | null}
+   */
+  repairForm(raw, path, ctx) {
+    if (typeof raw === 'string' && raw.trim()) {
+      ctx.repairs.push({ path, action: 'coerced', from: raw, to: { form_name: raw } });
+      raw = { form_name: raw };
+    }
+    if (!raw || typeof raw !== 'object' || !this.isNonEmptyString(raw.form_name)) {
+      ctx.repairs.push({ path, action: 'removed', from: raw });
+      return null;
+    }
+
+    const form = { ...raw };
+    if (typeof form.form_url !== 'string') {
+      this.recordDefault(`${path}.form_url`, form.form_url, '', ctx);
+      form.form_url = '';
+    }
+
+    const inferredType = /\.pdf($|\?)/i.test(form.form_url) ? 'pdf' : /^https?:\/\//.test(form.form_url) ? 'online' : 'paper';
+    form.form_type = this.repairEnum(form.form_type, 'form_type', FORM_TYPES, inferredType, `${path}.form_type`, ctx);
+    form.filing_method = this.repairEnum(form.filing_method, 'filing_method', FILING_METHODS, DEFAULTS.filing_method, `${path}.filing_method`, ctx);
+
+    if (!this.isNonEmptyString(form.processing_time)) {
+      this.recordDefault(`${path}.processing_time`, form.processing_time, DEFAULTS.processing_time, ctx);
+      form.processing_time = DEFAULTS.processing_time;
+    }
+
+    return form;
+  }
+
+  /**
+   * @param {any} raw
+   * @param {string} path
+   * @param {string} now
+   * @param {ValidationContext} ctx
+   * @returns {any}
+   */
+  repairSource(raw, path, now, ctx) {
+    const source = raw && typeof raw === 'object' ? { ...raw } : {};
+
+    if (!this.isNonEmptyString(source.source_id)) {
+      const sourceId = `source_${uuidv4().substring(0, 8)}`;
+      this.recordDefault(`${path}.source_id`, source.source_id, sourceId, ctx);
+      source.source_id = sourceId;
+    }
+    source.source_type = this.repairEnum(source.source_type, 'source_type', SOURCE_TYPES, 'manual', `${path}.source_type`, ctx);
+
+    for (const field of ['source_name', 'source_url', 'content_hash']) {
+      if (typeof source[field] !== 'string') {
+        this.recordDefault(`${path}.${field}`, source[field], '', ctx);
+        source[field] = '';
+      }
+    }
+
+    const score = this.toNumber(source.reliability_score);
+    if (score === null) {
+      this.recordDefault(`${path}.reliability_score`, source.reliability_score, DEFAULTS.reliability_score, ctx);
+      source.reliability_score = DEFAULTS.reliability_score;
+    } else if (score < 1 || score > 10) {
+      const clamped = Math.min(10, Math.max(1, score));
+      ctx.repairs.push({ path: `${path}.reliability_score`, action: 'coerced', from: score, to: clamped });
+      source.reliability_score = clamped;
+    } else {
+      source.reliability_score = score;
+    }
+
+    if (!this.isNonEmptyString(source.last_updated)) {
+      this.recordDefault(`${path}.last_updated`, source.last_updated, now, ctx);
+      source.last_updated = now;
+    }
+    source.verification_status = this.repairEnum(source.verification_status, 'verification_status', VERIFICATION_STATUSES, DEFAULTS.verification_status, `${path}.verification_status`, ctx);
+
+    return source;
+  }
+
+  /**
+   * Rule-level cost; a bare number is treated as the filing fee
+   * @param {any} raw
+   * @param {ValidationContext} ctx
+   * @returns {any}
+   */
+  repairCost(raw, ctx) {
+    const amount = this.toNumber(raw);
+    if (amount !== null) {
+      const cost = { filing_fees: Math.max(0, amount), ongoing_costs: 0, penalty_range: { min: 0, max: 0 } };
+      ctx.repairs.push({ path: 'estimated_cost', action: 'coerced', from: raw, to: cost });
+      return cost;
+    }
+
+    const cost = raw && typeof raw === 'object' ? raw : {};
+    if (!raw || typeof raw !== 'object') {
+      this.recordDefault('estimated_cost', raw, {}, ctx);
+    }
+
+    const penalty = cost.penalty_range && typeof cost.penalty_range === 'object' ? cost.penalty_range : {};
+    const repaired = {
+      filing_fees: this.repairAmount(cost.filing_fees, 'estimated_cost.filing_fees', ctx),
+      ongoing_costs: this.repairAmount(cost.ongoing_costs, 'estimated_cost.ongoing_costs', ctx),
+      penalty_range: {
+        min: this.repairAmount(penalty.min, 'estimated_cost.penalty_range.min', ctx),
+        max: this.repairAmount(penalty.max, 'estimated_cost.penalty_range.max', ctx)
+      }
+    };
+
+    if (repaired.penalty_range.min > repaired.penalty_range.max) {
+      ctx.repairs.push({ path: 'estimated_cost.penalty_range', action: 'normalized', from: { ...repaired.penalty_range }, to: { min: repaired.penalty_range.max, max: repaired.penalty_range.min } });
+      repaired.penalty_range = { min: repaired.penalty_range.max, max: repaired.penalty_range.min };
+    }
+
+    return repaired;
+  }
+
+  /**
+   * @param {any} raw
+   * @param {any[]} steps
+   * @param {ValidationContext} ctx
+   * @returns {any}
+   */
+  repairDeadlines(raw, steps, ctx) {
+    if (typeof raw === 'string' && raw.trim()) {
+      ctx.repairs.push({ path: 'deadlines', action: 'coerced', from: raw, to: { initial_deadline: raw } });
+      raw = { initial_deadline: raw };
+    }
+
+    const deadlines = raw && typeof raw === 'object' ? { ...raw } : {};
+    if (!this.isNonEmptyString(deadlines.initial_deadline)) {
+      // First step deadline is the best available signal
+      const fallback = steps[0]?.deadline || DEFAULTS.initial_deadline;
+      this.recordDefault('deadlines.initial_deadline', deadlines.initial_deadline, fallback, ctx);
+      deadlines.initial_deadline = fallback;
+    }
+    if (deadlines.recurring_deadline !== undefined && !this.isNonEmptyString(deadlines.recurring_deadline)) {
+      ctx.repairs.push({ path: 'deadlines.recurring_deadline', action: 'removed', from: deadlines.recurring_deadline });
+      delete deadlines.recurring_deadline;
+    }
+    if (deadlines.grace_period !== undefined) {
+      const days = this.toNumber(deadlines.grace_period);
+      if (days === null) {
+        ctx.repairs.push({ path: 'deadlines.grace_period', action: 'removed', from: deadlines.grace_period });
+        delete deadlines.grace_period;
+      } else if (days !== deadlines.grace_period) {
+        ctx.repairs.push({ path: 'deadlines.grace_period', action: 'coerced', from: deadlines.grace_period, to: days });
+        deadlines.grace_period = days;
+      }
+    }
+
+    return deadlines;
+  }
+
+  // ==================== HELPERS ====================
+
+  /**
+   * @param {any} raw
+   * @param {string} path
+   * @param {{ min: number, max: number }} fallback
+   * @param {ValidationContext} ctx
+   * @returns {{ min: number, max: number, exact?: number }}
+   */
+  repairRange(raw, path, fallback, ctx) {
+    if (!raw || typeof raw !== 'object') {
+      this.recordDefault(path, raw, { min: fallback.min, max: fallback.max }, ctx);
+      return { min: fallback.min, max: fallback.max };
+    }
+
+    const min = this.toNumber(raw.min);
+    const max = this.toNumber(raw.max);
+    /** @type {{ min: number, max: number, exact?: number }} */
+    const range = {
+      min: min === null ? fallback.min : min,
+      max: max === null ? fallback.max : max
+    };
+    if (min === null) this.recordDefault(`${path}.min`, raw.min, range.min, ctx);
+    if (max === null) this.recordDefault(`${path}.max`, raw.max, range.max, ctx);
+
+    const exact = this.toNumber(raw.exact);
+    if (exact !== null) range.exact = exact;
+
+    return range;
+  }
+
+  /**
+   * Non-negative amount; "$1,200" and "1200" are coerced
+   * @param {any} value
+   * @param {string} path
+   * @param {ValidationContext} ctx
+   * @returns {number}
+   */
+  repairAmount(value, path, ctx) {
+    const amount = this.toNumber(value);
+    if (amount === null) {
+      this.recordDefault(path, value, 0, ctx);
+      return 0;
+    }
+    if (amount !== value) {
+      ctx.repairs.push({ path, action: 'coerced', from: value, to: amount });
+    }
+    return Math.max(0, amount);
+  }
+
+  /**
+   * @param {any} value
+   * @param {string} path
+   * @param {ValidationContext} ctx
+   * @returns {string[]}
+   */
+  repairStringArray(value, path, ctx) {
+    if (value === undefined || value === null) {
+      this.recordDefault(path, value, [], ctx);
+      return [];
+    }
+    if (typeof value === 'string') {
+      const coerced = value.split(',').map(item => item.trim()).filter(Boolean);
+      ctx.repairs.push({ path, action: 'coerced', from: value, to: coerced });
+      return coerced;
+    }
+    if (!Array.isArray(value)) {
+      this.recordDefault(path, value, [], ctx);
+      return [];
+    }
+
+    const strings = value.filter(item => item !== null && item !== undefined && item !== '').map(item => String(item));
+    if (strings.length !== value.length || value.some(item => typeof item !== 'string')) {
+      ctx.repairs.push({ path, action: 'coerced', from: value, to: strings });
+    }
+    return strings;
+  }
+
+  /**
+   * @param {any} value
+   * @param {string} field Key into ENUM_ALIASES
+   * @param {readonly string[]} allowed
+   * @param {string} fallback
+   * @param {string} path
+   * @param {ValidationContext} ctx
+   * @returns {string}
+   */
+  repairEnum(value, field, allowed, fallback, path, ctx) {
+    const normalized = this.normalizeEnum(value, field, allowed);
+    if (normalized === null) {
+      this.recordDefault(path, value, fallback, ctx);
+      return fallback;
+    }
+    if (normalized !== value) {
+      ctx.repairs.push({ path, action: 'normalized', from: value, to: normalized });
+    }
+    return normalized;
+  }
+
+  /**
+   * @param {any} value
+   * @param {string} field
+   * @param {readonly string[]} allowed
+   * @returns {string | null}
+   */
+  normalizeEnum(value, field, allowed) {
+    if (typeof value !== 'string') return null;
+    const key = value.trim().toLowerCase();
+    if (allowed.includes(key)) return key;
+    const alias = ENUM_ALIASES[field]?.[key] || ENUM_ALIASES[field]?.[key.replace(/[\s-]+/g, '_')];
+    return alias && allowed.includes(alias) ? alias : null;
+  }
+
+  /**
+   * @param {string} deadline
+   * @returns {'absolute' | 'relative' | 'recurring'}
+   */
+  inferDeadlineType(deadline) {
+    const text = deadline.toLowerCase();
+    if (/\b(annual(ly)?|quarter(ly)?|month(ly)?|week(ly)?|every|each (year|month|quarter)|per year|renew)/.test(text)) {
+      return 'recurring';
+    }
+    if (/\b(january|february|march|april|may|june|july|august|september|october|november|december)\s+\d{1,2}\b|\d{4}-\d{2}-\d{2}|\d{1,2}\/\d{1,2}\/\d{2,4}/.test(text)) {
+      return 'absolute';
+    }
+    return 'relative';
+  }
+
+  /**
+   * Rename an aliased field when the schema field is missing
+   * @param {any} target
+   * @param {string} from
+   * @param {string} to
+   * @param {ValidationContext} ctx
+   * @param {string} [prefix]
+   */
+  alias(target, from, to, ctx, prefix) {
+    if (target[from] === undefined) return;
+    if (target[to] === undefined || target[to] === null || target[to] === '') {
+      target[to] = target[from];
+      ctx.repairs.push({ path: prefix ? `${prefix}.${to}` : to, action: 'normalized', from, to });
+    }
+    delete target[from];
+  }
+
+  /**
+   * @param {any} target
+   * @param {string} field
+   * @param {any} value
+   * @param {ValidationContext} ctx
+   */
+  defaultValue(target, field, value, ctx) {
+    if (target[field] === undefined || target[field] === null || target[field] === '') {
+      this.recordDefault(field, target[field], value, ctx);
+      target[field] = value;
+    }
+  }
+
+  /**
+   * @param {string} path
+   * @param {any} from
+   * @param {any} to
+   * @param {ValidationContext} ctx
+   */
+  recordDefault(path, from, to, ctx) {
+    ctx.repairs.push(from === undefined ? { path, action: 'defaulted', to } : { path, action: 'defaulted', from, to });
+  }
+
+  /**
+   * @param {any} value
+   * @returns {number | null}
+   */
+  toNumber(value) {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+    if (typeof value !== 'string') return null;
+    const cleaned = value.replace(/[$,\s]/g, '');
+    if (!/^-?\d+(\.\d+)?$/.test(cleaned)) return null;
+    return parseFloat(cleaned);
+  }
+
+  /**
+   * @param {any} value
+   * @returns {boolean}
+   */
+  isNonEmptyString(value) {
+    return typeof value === 'string' && value.trim().length > 0;
+  }
+
+  /**
+   * @param {number} index
+   * @param {any} rule
+   * @param {ValidationContext} ctx
+   * @returns {RuleValidationResult}
+   */
+  result(index, rule, ctx) {
+    return {
+      index,
+      rule_id: rule?.id,
+      title: typeof rule?.title === 'string' ? rule.title : undefined,
+      status: ctx.errors.length > 0 ? 'rejected' : ctx.repairs.length > 0 ? 'repaired' : 'valid',
+      repairs: ctx.repairs,
+      errors: ctx.errors
+    };
+  }
+}
+
+module.exports = {
+  RuleValidator,
+  ComplianceRuleSchema,
+  ComplianceStepSchema,
+  FormReferenceSchema,
+  ComplianceSourceSchema,
+  RULE_BATCH_OUTPUT_SCHEMA,
+  SINGLE_RULE_OUTPUT_SCHEMA,
+  DEFAULTS
+};
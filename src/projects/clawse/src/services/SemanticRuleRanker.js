@@ -0,0 +1,242 @@
+const crypto = require('crypto');
+const { createEmbeddingProvider, HashingEmbeddingProvider, cosineSimilarity } = require('./EmbeddingProvider');
+const { KeywordPenaltyReranker } = require('./KeywordPenaltyReranker');
+
+/**
+ * @typedef {import('../types/ComplianceRule').ComplianceRule} ComplianceRule
+ * @typedef {import('../types/Repository').RuleRepository} RuleRepository
+ * @typedef {import('../types/Embedding').EmbeddingProvider} EmbeddingProvider
+ * @typedef {import('../types/Embedding').RuleEmbedding} RuleEmbedding
+ * @typedef {import('../types/Embedding').RankingContext} RankingContext
+ * @typedef {import('../types/Embedding').RankedRule} RankedRule
+ * @typedef {import('../types/Embedding').RuleReranker} RuleReranker
+ */
+
+const DEFAULTS = {
+  queryWeight: 0.4, // The business description carries the rest
+  minScore: 0
+};
+
+// Vectors kept in memory between searches, by text
+const VECTOR_CACHE_SIZE = 5000;
+
+/**
+ * Ranks rules by cosine similarity of their embeddings (title, description
+ * and step text) to the search query and the business description. Vectors
+ * of library rules are stored in the repository per rule and model, and
+ * embedded again only when the rule's text changes. An optional re-ranker
+ * (e.g. KeywordPenaltyReranker) adjusts the scores afterwards. Rules scoring
+ * below minScore, or penalized down to 0 by the re-ranker, are dropped.
+ */
+class SemanticRuleRanker {
+  /**
+   * @param {RuleRepository | null} repository Null keeps vectors in memory only
+   * @param {EmbeddingProvider} embedder
+   * @param {{ reranker?: RuleReranker | null, queryWeight?: number, minScore?: number }} [options]
+   */
+  constructor(repository, embedder, options = {}) {
+    this.repository = repository;
+    this.embedder = embedder;
+    this.reranker = options.reranker || null;
+    this.queryWeight = options.queryWeight ?? DEFAULTS.queryWeight;
+    this.minScore = options.minScore ?? DEFAULTS.minScore;
+    /** @type {Map<string, number[]>} */
+    this.vectors = new Map();
+  }
+
+  /**
+   * @param {ComplianceRule[]} rules
+   * @param {RankingContext} context
+   * @param {{ persist?: boolean }} [options] persist=false for rules that aren't in the library (e.g. live search results)
+   * @returns {Promise<RankedRule[]>} Best match first
+   */
+  async rank(rules, context, options = {}) {
+    const query = (context.query || '').trim();
+    const business = (context.business_description || '').trim();
+    if (rules.length === 0) return [];
+    // Nothing to compare against: keep the order
+    if (!query && !business) {
+      return rules.map(rule => ({ rule, score: 0, similarity: { query: null, business: null }, penalties: [] }));
+    }
+
+    const [ruleVectors, queryVector, businessVector] = await Promise.all([
+      this.embedRules(rules, options),
+      query ? this.embedText(query) : null,
+      business ? this.embedText(business) : null
+    ]);
+
+    /** @type {RankedRule[]} */
+    const ranked = rules.map((rule, index) => {
+      const vector = /** @type {number[]} */ (ruleVectors[index]);
+      const similarity = {
+        query: queryVector ? this.round(cosineSimilarity(vector, queryVector)) : null,
+        business: businessVector ? this.round(cosineSimilarity(vector, businessVector)) : null
+      };
+      return { rule, score: this.combine(similarity), similarity, penalties: [] };
+    }).sort((a, b) => b.score - a.score);
+
+    const reranked = this.reranker ? this.reranker.rerank(ranked, { query, business_description: business }) : ranked;
+    return reranked.filter(entry => entry.score >= this.minScore && !(entry.penalties.length > 0 && entry.score === 0));
+  }
+
+  /**
+   * Vectors for each rule, in order; stored vectors are reused while the rule text is unchanged
+   * @param {ComplianceRule[]} rules
+   * @param {{ persist?: boolean }} [options]
+   * @returns {Promise<number[][]>}
+   */
+  async embedRules(rules, options = {}) {
+    const persist = options.persist !== false && !!this.repository;
+    const texts = rules.map(rule => this.ruleText(rule));
+    const hashes = texts.map(text => this.textHash(text));
+
+    /** @type {(number[] | null)[]} */
+    const vectors = hashes.map(hash => this.vectors.get(hash) || null);
+
+    const unknownIds = rules.filter((rule, index) => rule.id && !vectors[index]).map(rule => rule.id);
+    if (persist && unknownIds.length > 0) {
+      const stored = await /** @type {RuleRepository} */ (this.repository).getRuleEmbeddings(unknownIds, this.embedder.model);
+      const storedById = new Map(stored.map(embedding => [embedding.rule_id, embedding]));
+      rules.forEach((rule, index) => {
+        const embedding = storedById.get(rule.id);
+        if (!vectors[index] && embedding && embedding.text_hash === hashes[index]) {
+          vectors[index] = embedding.vector;
+          this.remember(/** @type {string} */ (hashes[index]), embedding.vector);
+        }
+      });
+    }
+
+    const missing = vectors.map((vector, index) => vector ? -1 : index).filter(index => index >= 0);
+    if (missing.length > 0) {
+      const embedded = await this.embedder.embed(missing.map(index => /** @type {string} */ (texts[index])));
+      const now = new Date().toISOString();
+      /** @type {RuleEmbedding[]} */
+      const records = [];
+
+      missing.forEach((ruleIndex, i) => {
+        const vector = /** @type {number[]} */ (embedded[i]);
+        const rule = /** @type {ComplianceRule} */ (rules[ruleIndex]);
+        vectors[ruleIndex] = vector;
+        this.remember(/** @type {string} */ (hashes[ruleIndex]), vector);
+        if (rule.id) {
+          records.push({
+            rule_id: rule.id,
+            provider: this.embedder.provider,
+            model: this.embedder.model,
+            dimensions: vector.length,
+            text_hash: /** @type {string} */ (hashes[ruleIndex]),
+            vector,
+            created_at: now
+          });
+        }
+      });
+
+      if (persist && records.length > 0) {
+        await /** @type {RuleRepository} */ (this.repository).storeRuleEmbeddings(records);
+      }
+      console.log(`🧭 Embedded ${missing.length} rules with ${this.embedder.model}`);
+    }
+
+    return /** @type {number[][]} */ (vectors);
+  }
+
+  /**
+   * @param {string} text
+   * @returns {Promise<number[]>}
+   */
+  async embedText(text) {
+    const hash = this.textHash(text);
+    const cached = this.vectors.get(hash);
+    if (cached) return cached;
+
+    const [vector] = await this.embedder.embed([text]);
+    this.remember(hash, /** @type {number[]} */ (vector));
+    return /** @type {number[]} */ (vector);
+  }
+
+  /**
+   * Keep a vector in memory, dropping the oldest once the cache is full
+   * @param {string} hash
+   * @param {number[]} vector
+   */
+  remember(hash, vector) {
+    if (this.vectors.size >= VECTOR_CACHE_SIZE) {
+      const oldest = this.vectors.keys().next().value;
+      if (oldest !== undefined) this.vectors.delete(oldest);
+    }
+    this.vectors.set(hash, vector);
+  }
+
+  /**
+   * The text a rule is embedded from
+   * @param {ComplianceRule} rule
+   * @returns {string}
+   */
+  ruleText(rule) {
+    const steps = (rule.compliance_steps || []).map(step => step.step_description).filter(Boolean);
+    return [rule.title, rule.description, ...steps].filter(Boolean).join('\n');
+  }
+
+  /**
+   * Weighted mean of the available similarities, clamped to 0-1
+   * @param {RankedRule['similarity']} similarity
+   * @returns {number}
+   */
+  combine(similarity) {
+    const parts = [
+      similarity.query === null ? null : { value: similarity.query, weight: this.queryWeight },
+      similarity.business === null ? null : { value: similarity.business, weight: 1 - this.queryWeight }
+    ].filter(part => part !== null && part.weight > 0);
+    if (parts.length === 0) return 0;
+
+    const totalWeight = parts.reduce((sum, part) => sum + /** @type {{ weight: number }} */ (part).weight, 0);
+    const score = parts.reduce((sum, part) => {
+      const { value, weight } = /** @type {{ value: number, weight: number }} */ (part);
+      return sum + value * weight;
+    }, 0) / totalWeight;
+    return this.round(Math.max(0, Math.min(1, score)));
+  }
+
+  /**
+   * @param {string} text
+   * @returns {string}
+   */
+  textHash(text) {
+    return crypto.createHash('sha256').update(text).digest('hex');
+  }
+
+  /**
+   * @param {number} value
+   * @returns {number}
+   */
+  round(value) {
+    return Math.round(value * 1000) / 1000;
+  }
+}
+
+/**
+ * Ranker configured from the environment: the EMBEDDING_* provider settings,
+ * SEARCH_PENALTY_RERANK=true to enable the keyword penalty stage,
+ * SEMANTIC_MIN_SCORE and SEMANTIC_QUERY_WEIGHT. Falls back to hashing
+ * embeddings when the configured provider can't run here.
+ * @param {RuleRepository | null} repository
+ * @param {EmbeddingProvider} [embedder]
+ * @returns {SemanticRuleRanker}
+ */
+function createSemanticRuleRanker(repository, embedder = createEmbeddingProvider()) {
+  let provider = embedder;
+  if (!provider.isAvailable()) {
+    console.warn(`⚠️ ${provider.provider} embeddings unavailable - ranking with hashing embeddings`);
+    provider = new HashingEmbeddingProvider();
+  }
+
+  const minScore = parseFloat(process.env.SEMANTIC_MIN_SCORE || '');
+  const queryWeight = parseFloat(process.env.SEMANTIC_QUERY_WEIGHT || '');
+  return new SemanticRuleRanker(repository, provider, {
+    reranker: process.env.SEARCH_PENALTY_RERANK === 'true' ? new KeywordPenaltyReranker() : null,
+    minScore: Number.isFinite(minScore) ? minScore : undefined,
+    queryWeight: Number.isFinite(queryWeight) ? queryWeight : undefined
+  });
+}
+
+module.exports = { SemanticRuleRanker, createSemanticRuleRanker };
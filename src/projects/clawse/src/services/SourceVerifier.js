@@ -0,0 +1,363 @@
+const cheerio = require('cheerio');
+const crypto = require('crypto');
+const { v4: uuidv4 } = require('uuid');
+const { getRateLimiter } = require('./RateLimiter');
+
+/**
+ * @typedef {import('../types/ComplianceRule').ComplianceRule} ComplianceRule
+ * @typedef {import('../types/ComplianceRule').ComplianceSource} ComplianceSource
+ * @typedef {import('../types/Repository').ComplianceRepository} ComplianceRepository
+ * @typedef {import('../types/SourceVerification').SourceCheckResult} SourceCheckResult
+ * @typedef {import('../types/SourceVerification').VerificationRun} VerificationRun
+ * @typedef {import('../types/SourceVerification').ReprocessResult} ReprocessResult
+ * @typedef {import('./RateLimiter').RateLimiter} RateLimiter
+ */
+
+/**
+ * Turns re-fetched source content into a fresh ComplianceRule
+ * (AIRuleGenerator.processScrapedRule or GovernmentScraper.processScrapedRuleWithAI)
+ * @typedef {(rawRule: import('./AIRuleGenerator').ScrapedRule) => Promise<ComplianceRule | null>} RuleReprocessor
+ */
+
+/**
+ * @typedef {Object} SourceVerifierOptions
+ * @property {string} [regulationsApiKey]
+ * @property {string} [regulationsBaseUrl] Defaults to the public Regulations.gov v4 API
+ * @property {RuleReprocessor} [reprocess] Without one, outdated rules stay queued as "pending"
+ * @property {number} [maxRules] Rules checked per run
+ * @property {number} [delayMs] Extra pause between fetches (requests are already paced per host by the rate limiter)
+ * @property {RateLimiter} [rateLimiter] Defaults to the shared limiter
+ * @property {number} [timeoutMs]
+ */
+
+// Same selectors GovernmentScraper uses when it first extracts page content,
+// so re-fetched hashes are comparable with the stored ones
+const CONTENT_SELECTOR = '.content, .main-content, article, .field-items';
+const MAX_CONTENT_LENGTH = 3000;
+
+// Source types whose content we can't re-fetch
+const UNVERIFIABLE_SOURCE_TYPES = ['manual', 'ai_generated'];
+
+/**
+ * Scheduled re-verification of rule sources.
+ * Re-fetches each source (Regulations.gov documents through the API, everything
+ * else over HTTP), compares the content hash with the stored one and marks
+ * changed sources as outdated. Rules with outdated sources are queued and
+ * re-processed into a new rule version.
+ */
+class SourceVerifier {
+  /**
+   * @param {ComplianceRepository} repository
+   * @param {SourceVerifierOptions} [options]
+   */
+  constructor(repository, options = {}) {
+    this.repository = repository;
+    this.regulationsApiKey = options.regulationsApiKey || '';
+    this.regulationsBaseUrl = options.regulationsBaseUrl || 'https://api.regulations.gov/v4';
+    this.reprocess = options.reprocess || null;
+    this.maxRules = options.maxRules || 100;
+    this.delayMs = options.delayMs ?? 0;
+    this.timeoutMs = options.timeoutMs || 15000;
+    this.http = options.rateLimiter || getRateLimiter();
+    this.running = false;
+  }
+
+  /**
+   * Run one verification pass over the stored rules and persist the run record
+   * @param {VerificationRun['trigger']} [trigger]
+   * @param {string} [runId] Pre-generated id (see createRunId) so callers can poll the run
+   * @returns {Promise<VerificationRun>}
+   */
+  async run(trigger = 'manual', runId = this.createRunId()) {
+    if (this.running) {
+      throw new Error('A source verification run is already in progress');
+    }
+    this.running = true;
+
+    /** @type {VerificationRun} */
+    const run = {
+      run_id: runId,
+      trigger,
+      status: 'running',
+      started_at: new Date().toISOString(),
+      rules_checked: 0,
+      sources_checked: 0,
+      unchanged: 0,
+      changed: 0,
+      errors: 0,
+      outdated_rule_ids: [],
+      reprocessing: [],
+      results: []
+    };
+
+    console.log(`🔁 Starting source verification run ${run.run_id}...`);
+
+    try {
+      await this.repository.storeVerificationRun(run);
+
+      // Least recently verified first, so successive runs work through the whole library
+      const rules = await this.repository.getRulesForVerification(this.maxRules);
+      /** @type {Array<{ rule: ComplianceRule, content: string }>} */
+      const reprocessQueue = [];
+      /** @type {ComplianceRule[]} */
+      const updatedRules = [];
+
+      for (const rule of rules) {
+        const { rule: checkedRule, results, changedContent } = await this.verifyRule(rule);
+        run.rules_checked++;
+        run.results.push(...results);
+        // Stamp last_verified even when every source was skipped, or the rule would head every run
+        updatedRules.push(checkedRule);
+        if (changedContent !== null) {
+          run.outdated_rule_ids.push(rule.id);
+          reprocessQueue.push({ rule: checkedRule, content: changedContent });
+        }
+      }
+
+      run.sources_checked = run.results.filter(result => result.status !== 'skipped').length;
+      run.unchanged = run.results.filter(result => result.status === 'unchanged').length;
+      run.changed = run.results.filter(result => result.status === 'changed').length;
+      run.errors = run.results.filter(result => result.status === 'error').length;
+
+      // Record verification status (and outdated flags) before re-processing
+      if (updatedRules.length > 0) {
+        await this.repository.storeRules(updatedRules);
+      }
+
+      for (const queued of reprocessQueue) {
+        run.reprocessing.push(await this.reprocessRule(queued.rule, queued.content));
+      }
+
+      run.status = 'completed';
+      console.log(`✅ Verification run ${run.run_id}: ${run.sources_checked} sources, ${run.changed} changed, ${run.errors} errors`);
+    } catch (error) {
+      run.status = 'failed';
+      run.error = error instanceof Error ? error.message : String(error);
+      console.error(`❌ Verification run ${run.run_id} failed:`, run.error);
+    } finally {
+      run.finished_at = new Date().toISOString();
+      this.running = false;
+    }
+
+    await this.repository.storeVerificationRun(run);
+    return run;
+  }
+
+  /**
+   * @returns {string}
+   */
+  createRunId() {
+    return `verify_${Date.now()}_${uuidv4().substring(0, 8)}`;
+  }
+
+  /**
+   * Check every source of a rule.
+   * Returns the rule with updated source statuses and, if any source changed,
+   * the new content to re-process.
+   * @param {ComplianceRule} rule
+   * @returns {Promise<{ rule: ComplianceRule, results: SourceCheckResult[], changedContent: string | null }>}
+   */
+  async verifyRule(rule) {
+    const now = new Date().toISOString();
+    /** @type {SourceCheckResult[]} */
+    const results = [];
+    /** @type {string | null} */
+    let changedContent = null;
+
+    /** @type {ComplianceSource[]} */
+    const sources = [];
+    for (const source of rule.sources || []) {
+      const { result, content } = await this.checkSource(rule.id, source);
+      results.push(result);
+
+      if (result.status === 'changed') {
+        changedContent = changedContent === null ? content : `${changedContent}\n\n${content}`;
+        sources.push({ ...source, verification_status: 'outdated' });
+      } else if (result.status === 'unchanged') {
+        // Leave last_updated alone so an unchanged source doesn't create a new revision
+        sources.push({ ...source, verification_status: 'verified' });
+      } else if (result.status === 'baseline') {
+        sources.push({ ...source, verification_status: 'verified', content_hash: result.current_hash || '', last_updated: now });
+      } else {
+        sources.push(source);
+      }
+
+      if (result.status !== 'skipped' && this.delayMs > 0) {
+        await this.sleep(this.delayMs);
+      }
+    }
+
+    return {
+      rule: { ...rule, sources, last_verified: now },
+      results,
+      changedContent
+    };
+  }
+
+  /**
+   * @param {string} ruleId
+   * @param {ComplianceSource} source
+   * @returns {Promise<{ result: SourceCheckResult, content: string }>}
+   */
+  async checkSource(ruleId, source) {
+    const documentId = this.getRegulationsDocumentId(source);
+
+    /** @type {SourceCheckResult} */
+    const result = {
+      rule_id: ruleId,
+      source_id: source.source_id,
+      source_url: source.source_url || '',
+      method: documentId ? 'regulations_api' : 'http',
+      status: 'skipped',
+      previous_hash: source.content_hash || undefined
+    };
+
+    if (UNVERIFIABLE_SOURCE_TYPES.includes(source.source_type) || (!documentId && !/^https?:\/\//.test(source.source_url || ''))) {
+      result.error = `Source type ${source.source_type} has no fetchable URL`;
+      return { result, content: '' };
+    }
+    if (documentId && !this.regulationsApiKey) {
+      result.error = 'REGULATIONS_API_KEY not configured';
+      return { result, content: '' };
+    }
+
+    try {
+      const content = documentId
+        ? await this.fetchRegulationsDocument(documentId)
+        : await this.fetchPage(source.source_url);
+
+      result.current_hash = this.hashContent(content);
+      if (!source.content_hash) {
+        result.status = 'baseline';
+      } else {
+        result.status = result.current_hash === source.content_hash ? 'unchanged' : 'changed';
+      }
+      return { result, content };
+    } catch (error) {
+      result.status = 'error';
+      result.error = error instanceof Error ? error.message : String(error);
+      console.log(`⚠️ Could not verify ${result.source_url}: ${result.error}`);
+      return { result, content: '' };
+    }
+  }
+
+  /**
+   * Re-process a rule whose source changed and store it as a new version
+   * @param {ComplianceRule} rule Rule with outdated source flags
+   * @param {string} content Re-fetched source content
+   * @returns {Promise<ReprocessResult>}
+   */
+  async reprocessRule(rule, content) {
+    if (!this.reprocess) {
+      return { rule_id: rule.id, status: 'pending' };
+    }
+
+    try {
+      const outdatedSource = rule.sources.find(source => source.verification_status === 'outdated');
+      const reprocessed = await this.reprocess({
+        title: rule.title,
+        content,
+        authority: rule.authority,
+        level: rule.level,
+        sourceUrl: outdatedSource?.source_url || '',
+        scrapedAt: new Date().toISOString()
+      });
+
+      if (!reprocessed) {
+        return { rule_id: rule.id, status: 'failed', error: 'Reprocessor returned no rule' };
+      }
+
+      const newHash = this.hashContent(content);
+      const updated = {
+        ...reprocessed,
+        id: rule.id,
+        canonical_id: rule.canonical_id,
+        status: rule.status,
+        sources: rule.sources.map(source => source.verification_status === 'outdated'
+          ? { ...source, verification_status: /** @type {const} */ ('verified'), content_hash: newHash, last_updated: new Date().toISOString() }
+          : source)
+      };
+
+      await this.repository.storeRules([updated]);
+      const stored = await this.repository.getRuleById(rule.id);
+      console.log(`🔄 Re-processed rule ${rule.id} after source change`);
+      return { rule_id: rule.id, status: 'reprocessed', new_version: stored?.version };
+    } catch (error) {
+      return { rule_id: rule.id, status: 'failed', error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Regulations.gov document id from external_id or a regulations.gov document URL
+   * @param {ComplianceSource} source
+   * @returns {string | null}
+   */
+  getRegulationsDocumentId(source) {
+    const isRegulationsGov = /regulations\.gov/i.test(source.source_name || '') ||
+      /regulations\.gov/i.test(source.source_url || '');
+    if (!isRegulationsGov) return null;
+
+    if (source.external_id) return source.external_id;
+    const match = (source.source_url || '').match(/\/document\/([^/?#]+)/);
+    return match?.[1] || null;
+  }
+
+  /**
+   * Fetch a Regulations.gov document; hashed the same way the collectors hash it
+   * @param {string} documentId
+   * @returns {Promise<string>}
+   */
+  async fetchRegulationsDocument(documentId) {
+    const response = await this.http.get(`${this.regulationsBaseUrl}/documents/${encodeURIComponent(documentId)}`, {
+      headers: { 'X-Api-Key': this.regulationsApiKey },
+      timeout: this.timeoutMs
+    });
+
+    const attributes = response.data?.data?.attributes || {};
+    return attributes.summary || attributes.title || '';
+  }
+
+  /**
+   * Fetch a page and extract its main content the way GovernmentScraper does
+   * @param {string} url
+   * @returns {Promise<string>}
+   */
+  async fetchPage(url) {
+    const response = await this.http.get(url, {
+      timeout: this.timeoutMs,
+      responseType: 'arraybuffer',
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; ComplianceBot/1.0; +https://complianceai.com/bot)'
+      }
+    });
+
+    const body = Buffer.from(response.data);
+    const contentType = String(response.headers['content-type'] || '');
+    if (!contentType.includes('html')) {
+      // PDFs and other documents: hash the raw bytes
+      return body.toString('base64');
+    }
+
+    const $ = cheerio.load(body.toString('utf8'));
+    const content = $(CONTENT_SELECTOR).first().text().trim() || $('main, body').first().text().trim();
+    return content.substring(0, MAX_CONTENT_LENGTH);
+  }
+
+  /**
+   * @param {string} content
+   * @returns {string}
+   */
+  hashContent(content) {
+    return crypto.createHash('md5').update(content).digest('hex');
+  }
+
+  /**
+   * @param {number} ms
+   * @returns {Promise<void>}
+   */
+  sleep(ms) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+module.exports = { SourceVerifier };
@@ -0,0 +1,448 @@
+const { v4: uuidv4 } = require('uuid');
+const { ComplianceCalendarService } = require('./ComplianceCalendarService');
+
+/**
+ * @typedef {import('../types/ComplianceRule').ComplianceRule} ComplianceRule
+ * @typedef {import('../types/ComplianceRule').BusinessProfile} BusinessProfile
+ * @typedef {import('../types/Repository').ComplianceRepository} ComplianceRepository
+ * @typedef {import('../types/ComplianceTask').ComplianceTask} ComplianceTask
+ * @typedef {import('../types/ComplianceTask').TrackedTask} TrackedTask
+ * @typedef {import('../types/ComplianceTask').TaskStatus} TaskStatus
+ * @typedef {import('../types/ComplianceTask').TaskUpdate} TaskUpdate
+ * @typedef {import('../types/ComplianceTask').TaskEvidence} TaskEvidence
+ * @typedef {import('../types/ComplianceTask').TaskEvent} TaskEvent
+ * @typedef {import('../types/ComplianceTask').TaskSummary} TaskSummary
+ * @typedef {import('./EvidenceStore').EvidenceStore} EvidenceStore
+ */
+
+/**
+ * Outcome of a task change; `reason` tells the caller how to report a failure
+ * @typedef {{ task: TrackedTask } | { error: string, reason: 'not_found' | 'invalid' | 'conflict' }} TaskResult
+ */
+
+/**
+ * @typedef {Object} EvidenceInput
+ * @property {'note' | 'link' | 'file'} kind
+ * @property {string} [note]
+ * @property {string} [url]
+ * @property {string} [actor]
+ * @property {string} [file_name]
+ * @property {string} [content_type]
+ * @property {Buffer} [content] File bytes for kind "file"
+ */
+
+const PRIORITY_ORDER = { critical: 0, high: 1, medium: 2, low: 3 };
+
+// Allowed status changes; completed tasks can be reopened
+/** @type {Record<TaskStatus, TaskStatus[]>} */
+const TRANSITIONS = {
+  pending: ['in_progress', 'completed', 'not_applicable'],
+  in_progress: ['pending', 'completed', 'not_applicable'],
+  completed: ['in_progress'],
+  not_applicable: ['pending']
+};
+
+// Statuses that satisfy a dependency
+const DONE_STATUSES = ['completed', 'not_applicable'];
+
+// Starting or finishing a task needs its dependencies done; skipping it doesn't
+const GATED_STATUSES = ['in_progress', 'completed'];
+
+/**
+ * Per-business task tracker. Turns the compliance_steps of the rules matched
+ * for a profile into tasks keyed by session, rule and step, so re-running an
+ * analysis refreshes step content without losing status, assignees or evidence.
+ * Steps follow depends_on_steps: a task can't be started or completed until
+ * the steps it depends on are completed or marked not applicable.
+ */
+class TaskTracker {
+  /**
+   * @param {ComplianceRepository} repository
+   * @param {{ calendarService?: ComplianceCalendarService, evidenceStore?: EvidenceStore }} [options]
+   */
+  constructor(repository, options = {}) {
+    this.repository = repository;
+    this.calendar = options.calendarService || new ComplianceCalendarService();
+    this.evidenceStore = options.evidenceStore || null;
+  }
+
+  /**
+   * Create or refresh the tasks of a profile from its matching rules. Tasks of
+   * rules that no longer match are archived, and restored if the rule matches again.
+   * @param {BusinessProfile} profile
+   * @param {ComplianceRule[]} rules
+   * @param {{ today?: string }} [options]
+   * @returns {Promise<TrackedTask[]>}
+   */
+  async syncTasks(profile, rules, options = {}) {
+    const now = new Date().toISOString();
+    const today = options.today || now.substring(0, 10);
+    const existing = new Map((await this.repository.getTasks(profile.session_id)).map(task => [task.task_id, task]));
+    const fresh = this.buildTasks(profile, rules, today, now);
+    const freshIds = new Set(fresh.map(task => task.task_id));
+
+    /** @type {ComplianceTask[]} */
+    const changed = [];
+    for (const task of fresh) {
+      const previous = existing.get(task.task_id);
+      const merged = previous ? this.mergeTask(previous, task, now) : task;
+      if (!previous || this.hasChanged(previous, merged)) changed.push(merged);
+    }
+
+    for (const task of existing.values()) {
+      if (freshIds.has(task.task_id) || task.archived) continue;
+      changed.push({
+        ...task,
+        archived: true,
+        updated_at: now,
+        history: [...task.history, { at: now, action: 'archived', note: 'Rule no longer matches the business profile' }]
+      });
+    }
+
+    if (changed.length > 0) {
+      await this.repository.storeTasks(changed);
+    }
+    console.log(`🗂️ Synced ${fresh.length} tasks for ${profile.session_id} (${changed.length} created or updated)`);
+    return this.listTasks(profile.session_id, { today });
+  }
+
+  /**
+   * @param {string} sessionId
+   * @param {{ includeArchived?: boolean, today?: string }} [options]
+   * @returns {Promise<TrackedTask[]>}
+   */
+  async listTasks(sessionId, options = {}) {
+    const today = options.today || new Date().toISOString().substring(0, 10);
+    const tasks = await this.repository.getTasks(sessionId);
+    const byId = new Map(tasks.map(task => [task.task_id, task]));
+
+    return this.orderTasks(tasks.filter(task => options.includeArchived || !task.archived))
+      .map(task => this.track(task, byId, today));
+  }
+
+  /**
+   * @param {string} taskId
+   * @returns {Promise<TrackedTask | null>}
+   */
+  async getTask(taskId) {
+    const task = await this.repository.getTask(taskId);
+    if (!task) return null;
+
+    const siblings = await this.repository.getTasks(task.session_id);
+    return this.track(task, new Map(siblings.map(sibling => [sibling.task_id, sibling])), new Date().toISOString().substring(0, 10));
+  }
+
+  /**
+   * Change status and/or assignee, recording each change in the task history
+   * @param {string} taskId
+   * @param {TaskUpdate} update
+   * @returns {Promise<TaskResult>}
+   */
+  async updateTask(taskId, update) {
+    const hasStatus = update.status !== undefined;
+    const hasAssignee = update.assignee !== undefined;
+    if (!hasStatus && !hasAssignee) {
+      return { error: 'Nothing to update: send status and/or assignee', reason: 'invalid' };
+    }
+
+    const current = await this.getTask(taskId);
+    if (!current) return { error: `Task not found: ${taskId}`, reason: 'not_found' };
+
+    const now = new Date().toISOString();
+    const { blocked_by, is_overdue, ...task } = current;
+    /** @type {TaskEvent[]} */
+    const events = [];
+
+    if (hasStatus && update.status !== task.status) {
+      const status = /** @type {TaskStatus} */ (update.status);
+      const allowed = TRANSITIONS[task.status] || [];
+      if (!Object.keys(TRANSITIONS).includes(status)) {
+        return { error: `Unknown status "${status}"`, reason: 'invalid' };
+      }
+      if (!allowed.includes(status)) {
+        return { error: `Cannot change status from ${task.status} to ${status} (allowed: ${allowed.join(', ')})`, reason: 'conflict' };
+      }
+      if (GATED_STATUSES.includes(status) && blocked_by.length > 0) {
+        return { error: `Task is blocked by unfinished steps: ${blocked_by.join(', ')}`, reason: 'conflict' };
+      }
+
+      events.push({ at: now, ...(update.actor && { actor: update.actor }), action: 'status_changed', from: task.status, to: status, ...(update.note && { note: update.note }) });
+      task.status = status;
+      if (status === 'completed') {
+        task.completed_at = now;
+      } else {
+        delete task.completed_at;
+      }
+    }
+
+    if (hasAssignee) {
+      const assignee = (update.assignee || '').trim();
+      if (assignee !== (task.assignee || '')) {
+        events.push({ at: now, ...(update.actor && { actor: update.actor }), action: 'assigned', ...(task.assignee && { from: task.assignee }), ...(assignee && { to: assignee }) });
+        if (assignee) {
+          task.assignee = assignee;
+        } else {
+          delete task.assignee;
+        }
+      }
+    }
+
+    if (events.length === 0) return { task: current };
+
+    /** @type {ComplianceTask} */
+    const updated = { ...task, history: [...task.history, ...events], updated_at: now };
+    await this.repository.storeTasks([updated]);
+    return { task: /** @type {TrackedTask} */ (await this.getTask(taskId)) };
+  }
+
+  /**
+   * Attach a note, a link or an uploaded file to a task
+   * @param {string} taskId
+   * @param {EvidenceInput} input
+   * @returns {Promise<TaskResult>}
+   */
+  async addEvidence(taskId, input) {
+    const current = await this.getTask(taskId);
+    if (!current) return { error: `Task not found: ${taskId}`, reason: 'not_found' };
+
+    const now = new Date().toISOString();
+    const evidenceId = uuidv4();
+    const note = (input.note || '').trim();
+    /** @type {TaskEvidence} */
+    let evidence;
+
+    if (input.kind === 'note') {
+      if (!note) return { error: 'A note is required', reason: 'invalid' };
+      evidence = { evidence_id: evidenceId, kind: 'note', note, added_at: now };
+    } else if (input.kind === 'link') {
+      if (!/^https?:\/\//.test(input.url || '')) return { error: 'A http(s) url is required', reason: 'invalid' };
+      evidence = { evidence_id: evidenceId, kind: 'link', url: /** @type {string} */ (input.url), ...(note && { note }), added_at: now };
+    } else if (input.kind === 'file') {
+      if (!this.evidenceStore) return { error: 'File evidence is not configured', reason: 'invalid' };
+      if (!input.content || input.content.length === 0) return { error: 'The uploaded file is empty', reason: 'invalid' };
+      if (input.content.length > this.evidenceStore.maxBytes) {
+        return { error: `Evidence files can be at most ${this.evidenceStore.maxBytes} bytes`, reason: 'invalid' };
+      }
+
+      const stored = this.evidenceStore.save(evidenceId, input.content);
+      evidence = {
+        evidence_id: evidenceId,
+        kind: 'file',
+        file_name: (input.file_name || 'evidence').replace(/[\\/]/g, '_'),
+        content_type: input.content_type || 'application/octet-stream',
+        ...stored,
+        ...(note && { note }),
+        added_at: now
+      };
+    } else {
+      return { error: `Unknown evidence kind "${input.kind}" (expected note, link or file)`, reason: 'invalid' };
+    }
+    if (input.actor) evidence.added_by = input.actor;
+
+    const { blocked_by, is_overdue, ...task } = current;
+    /** @type {ComplianceTask} */
+    const updated = {
+      ...task,
+      evidence: [...task.evidence, evidence],
+      history: [...task.history, { at: now, ...(input.actor && { actor: input.actor }), action: 'evidence_added', note: evidence.file_name || evidence.url || note }],
+      updated_at: now
+    };
+    await this.repository.storeTasks([updated]);
+    return { task: /** @type {TrackedTask} */ (await this.getTask(taskId)) };
+  }
+
+  /**
+   * @param {string} sessionId
+   * @param {TrackedTask[]} tasks Active (not archived) tasks
+   * @returns {TaskSummary}
+   */
+  summarize(sessionId, tasks) {
+    /** @type {Record<TaskStatus, number>} */
+    const byStatus = { pending: 0, in_progress: 0, completed: 0, not_applicable: 0 };
+    tasks.forEach(task => { byStatus[task.status]++; });
+    const done = byStatus.completed + byStatus.not_applicable;
+
+    return {
+      session_id: sessionId,
+      total: tasks.length,
+      by_status: byStatus,
+      blocked: tasks.filter(task => task.blocked_by.length > 0 && !DONE_STATUSES.includes(task.status)).length,
+      overdue: tasks.filter(task => task.is_overdue).length,
+      percent_complete: tasks.length > 0 ? Math.round((done / tasks.length) * 100) : 0
+    };
+  }
+
+  /**
+   * Tasks for every step of every rule, as if nothing had been tracked yet
+   * @param {BusinessProfile} profile
+   * @param {ComplianceRule[]} rules
+   * @param {string} today YYYY-MM-DD
+   * @param {string} now ISO timestamp
+   * @returns {ComplianceTask[]}
+   */
+  buildTasks(profile, rules, today, now) {
+    const { anchors } = this.calendar.getAnchors(profile);
+    const from = /** @type {Date} */ (this.calendar.parseDate(today));
+    /** @type {ComplianceTask[]} */
+    const tasks = [];
+
+    for (const rule of rules) {
+      if (!rule.id) continue;
+      const steps = rule.compliance_steps || [];
+      const stepNumbers = new Set(steps.map(step => step.step_number));
+      const seen = new Set();
+
+      for (const step of steps) {
+        if (seen.has(step.step_number)) continue; // Duplicate step numbers from generation
+        seen.add(step.step_number);
+
+        // Steps without their own deadline inherit the rule's first deadline
+        const deadlineText = step.deadline || rule.deadlines?.initial_deadline || '';
+        const dueDate = this.calendar.nextDueDate(this.calendar.parser.parse(deadlineText, step.deadline_type), anchors, from);
+
+        tasks.push({
+          task_id: this.taskId(profile.session_id, rule.id, step.step_number),
+          session_id: profile.session_id,
+          rule_id: rule.id,
+          rule_title: rule.title,
+          ...(rule.version !== undefined && { rule_version: rule.version }),
+          step_number: step.step_number,
+          title: step.step_description,
+          priority: step.priority || rule.priority || 'medium',
+          depends_on: (step.depends_on_steps || [])
+            .filter(stepNumber => stepNumber !== step.step_number && stepNumbers.has(stepNumber))
+            .map(stepNumber => this.taskId(profile.session_id, rule.id, stepNumber)),
+          status: 'pending',
+          ...(dueDate && { due_date: this.calendar.formatDate(dueDate) }),
+          deadline_text: deadlineText,
+          estimated_time: step.estimated_time || '',
+          estimated_cost: step.estimated_cost || 0,
+          required_forms: (step.required_forms || []).map(form => form.form_name).filter(Boolean),
+          verification_method: step.verification_method || '',
+          completion_proof: step.completion_proof || [],
+          evidence: [],
+          history: [{ at: now, action: 'created' }],
+          archived: false,
+          created_at: now,
+          updated_at: now
+        });
+      }
+    }
+    return tasks;
+  }
+
+  /**
+   * Refresh step content on a tracked task, keeping its progress
+   * @param {ComplianceTask} existing
+   * @param {ComplianceTask} fresh
+   * @param {string} now
+   * @returns {ComplianceTask}
+   */
+  mergeTask(existing, fresh, now) {
+    /** @type {ComplianceTask} */
+    const merged = {
+      ...fresh,
+      status: existing.status,
+      evidence: existing.evidence,
+      history: existing.archived
+        ? [...existing.history, { at: now, action: 'restored', note: 'Rule matches the business profile again' }]
+        : existing.history,
+      created_at: existing.created_at,
+      updated_at: now
+    };
+    if (existing.assignee) merged.assignee = existing.assignee;
+    if (existing.completed_at) merged.completed_at = existing.completed_at;
+
+    // Completed work keeps the due date it was done against
+    if (DONE_STATUSES.includes(existing.status)) {
+      if (existing.due_date) {
+        merged.due_date = existing.due_date;
+      } else {
+        delete merged.due_date;
+      }
+    }
+    return merged;
+  }
+
+  /**
+   * @param {ComplianceTask} before
+   * @param {ComplianceTask} after
+   * @returns {boolean}
+   */
+  hasChanged(before, after) {
+    // Key order differs between freshly built and stored documents
+    /** @type {(value: any) => any} */
+    const canonical = value => Array.isArray(value) ? value.map(canonical)
+      : value && typeof value === 'object'
+        ? Object.fromEntries(Object.keys(value).sort().map(key => [key, canonical(value[key])]))
+        : value;
+    const comparable = (/** @type {ComplianceTask} */ task) => JSON.stringify(canonical({ ...task, updated_at: null }));
+    return comparable(before) !== comparable(after);
+  }
+
+  /**
+   * @param {ComplianceTask} task
+   * @param {Map<string, ComplianceTask>} byId All tasks of the session
+   * @param {string} today YYYY-MM-DD
+   * @returns {TrackedTask}
+   */
+  track(task, byId, today) {
+    const blockedBy = task.depends_on.filter(taskId => {
+      const dependency = byId.get(taskId);
+      return dependency && !dependency.archived && !DONE_STATUSES.includes(dependency.status);
+    });
+    const open = !DONE_STATUSES.includes(task.status);
+
+    return {
+      ...task,
+      blocked_by: blockedBy,
+      is_overdue: open && !task.archived && !!task.due_date && task.due_date < today
+    };
+  }
+
+  /**
+   * Rules by priority, then each rule's steps in dependency order
+   * (step number breaks ties; steps caught in a dependency cycle go last)
+   * @param {ComplianceTask[]} tasks
+   * @returns {ComplianceTask[]}
+   */
+  orderTasks(tasks) {
+    /** @type {Map<string, ComplianceTask[]>} */
+    const byRule = new Map();
+    tasks.forEach(task => byRule.set(task.rule_id, [...(byRule.get(task.rule_id) || []), task]));
+
+    const rules = Array.from(byRule.values()).sort((a, b) => {
+      const first = /** @type {ComplianceTask} */ (a[0]);
+      const second = /** @type {ComplianceTask} */ (b[0]);
+      return PRIORITY_ORDER[first.priority] - PRIORITY_ORDER[second.priority] || first.rule_title.localeCompare(second.rule_title);
+    });
+
+    /** @type {ComplianceTask[]} */
+    const ordered = [];
+    for (const ruleTasks of rules) {
+      const remaining = [...ruleTasks].sort((a, b) => a.step_number - b.step_number);
+      const placed = new Set();
+      while (remaining.length > 0) {
+        const index = remaining.findIndex(task => task.depends_on.every(taskId => placed.has(taskId) || !remaining.some(other => other.task_id === taskId)));
+        const [next] = remaining.splice(index === -1 ? 0 : index, 1);
+        if (!next) break;
+        placed.add(next.task_id);
+        ordered.push(next);
+      }
+    }
+    return ordered;
+  }
+
+  /**
+   * @param {string} sessionId
+   * @param {string} ruleId
+   * @param {number} stepNumber
+   * @returns {string}
+   */
+  taskId(sessionId, ruleId, stepNumber) {
+    // Firestore document ids can't contain "/"
+    return `${sessionId}:${ruleId}:${stepNumber}`.replace(/\//g, '_');
+  }
+}
+
+module.exports = { TaskTracker };
@@ -19,10 +19,11 @@ async function testAIGeneration() {
     console.log('🏛️ Test 1: Generating 3 federal compliance rules...');
     const startTime = Date.now();
     
-    const federalRules = await generator.generateFederalRules(3);
+    const { rules: federalRules, report: federalReport } = await generator.generateFederalRules(3);
     const generationTime = Date.now() - startTime;
     
     console.log(`✅ Generated ${federalRules.length} federal rules in ${generationTime}ms`);
+    console.log(`🧪 Validation: ${federalReport.valid} valid, ${federalReport.repaired} repaired, ${federalReport.rejected} rejected`);
     
     // Display first rule details
     if (federalRules.length > 0) {
@@ -77,10 +78,11 @@ async function testAIGeneration() {
     console.log('\n🏛️ Test 2: Generating 2 California state rules...');
     const stateStartTime = Date.now();
     
-    const stateRules = await generator.generateStateRules('California', 2);
+    const { rules: stateRules, report: stateReport } = await generator.generateStateRules('California', 2);
     const stateGenerationTime = Date.now() - stateStartTime;
     
     console.log(`✅ Generated ${stateRules.length} California state rules in ${stateGenerationTime}ms`);
+    console.log(`🧪 Validation: ${stateReport.valid} valid, ${stateReport.repaired} repaired, ${stateReport.rejected} rejected`);
     
     console.log('\n📝 Generated California State Rules:');
     console.log('====================================');
@@ -92,10 +94,11 @@ async function testAIGeneration() {
     console.log('\n🏭 Test 3: Generating 2 restaurant industry rules...');
     const industryStartTime = Date.now();
     
-    const industryRules = await generator.generateIndustrySpecificRules('Restaurant', '722513', 2);
+    const { rules: industryRules, report: industryReport } = await generator.generateIndustrySpecificRules('Restaurant', '722513', 2);
     const industryGenerationTime = Date.now() - industryStartTime;
     
     console.log(`✅ Generated ${industryRules.length} restaurant industry rules in ${industryGenerationTime}ms`);
+    console.log(`🧪 Validation: ${industryReport.valid} valid, ${industryReport.repaired} repaired, ${industryReport.rejected} rejected`);
     
     console.log('\n📝 Generated Restaurant Industry Rules:');
     console.log('=======================================');
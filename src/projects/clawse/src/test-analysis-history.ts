@@ -0,0 +1,150 @@
+import { AnalysisHistory } from './services/AnalysisHistory';
+import { ComplianceScorer } from './services/ComplianceScorer';
+import { CostForecaster } from './services/CostForecaster';
+import { InMemoryRepository } from './services/InMemoryRepository';
+import { BusinessProfile, ComplianceRule, ComplianceStep } from './types/ComplianceRule';
+
+// Analysis runs: stored records, listing per profile and comparison between runs (offline)
+
+function makeRule(id: string, title: string, overrides: Partial<ComplianceRule> = {}): ComplianceRule {
+  return {
+    id,
+    canonical_id: id,
+    title,
+    description: 'Fixture rule',
+    authority: 'Test Authority',
+    level: 'state',
+    jurisdiction: 'CA',
+    priority: 'medium',
+    status: 'active',
+    applicability_criteria: {
+      business_types: [], employee_count: { min: 0, max: 999999 },
+      annual_revenue: { min: 0, max: 999999999, currency: 'USD' },
+      industries: [], industry_groups: [], states: ['ALL'], cities: [], counties: [],
+      special_conditions: [], exclusions: {}
+    },
+    compliance_steps: [],
+    estimated_cost: { filing_fees: 100, ongoing_costs: 0, penalty_range: { min: 0, max: 0 } },
+    deadlines: { initial_deadline: '' },
+    sources: [],
+    tags: [], related_rules: [], conflicts_with: [],
+    version: 1,
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+    last_verified: '2024-01-01T00:00:00.000Z',
+    search_keywords: [],
+    ...overrides
+  };
+}
+
+async function testAnalysisHistory() {
+  console.log('🗂️  Testing Analysis History');
+  console.log('===========================\n');
+
+  let failures = 0;
+  const check = (label: string, condition: boolean) => {
+    console.log(`${condition ? '✅' : '❌'} ${label}`);
+    if (!condition) failures++;
+  };
+
+  const history = new AnalysisHistory();
+  const scorer = new ComplianceScorer();
+  const forecaster = new CostForecaster();
+  const repository = new InMemoryRepository();
+  const today = '2025-06-01';
+
+  const record = (profile: BusinessProfile, rules: ComplianceRule[], now: string) => history.createRecord({
+    source: 'analyze',
+    profile,
+    rules,
+    aiReport: `# Report for ${profile.business_name}`,
+    priorityBreakdown: { medium: rules.length },
+    riskAssessment: scorer.score(profile, rules, { today }),
+    costForecast: forecaster.forecast(profile, rules, { today }),
+    searchEnhanced: false,
+    startedAt: Date.now()
+  }, now);
+
+  const profile = { session_id: 's1', business_name: 'History Co', state: 'CA', last_analysis: 'a' } as unknown as BusinessProfile;
+  const license = makeRule('license', 'Business License');
+  const permit = makeRule('permit', 'Sales Tax Permit', { priority: 'high' });
+  const first = record(profile, [license, permit], '2025-06-01T10:00:00.000Z');
+
+  // Stored record
+  check('record keeps the run', first.session_id === 's1' && first.rules.length === 2 && first.ai_report === '# Report for History Co');
+  check('summary from score and forecast', first.summary.total_rules === 2 && first.summary.estimated_total_cost === 200 &&
+    first.summary.compliance_score === first.risk_assessment.score && !('task_summary' in first.summary));
+  check('rule snapshot has a content hash', first.rules[0]?.canonical_id === 'license' && first.rules[0]?.content_hash.length === 16);
+  check('hash ignores bookkeeping fields', history.contentHash(license) ===
+    history.contentHash({ ...license, id: 'other', updated_at: '2025-01-01T00:00:00.000Z', version: 3 }));
+  check('hash ignores key order', history.contentHash(license) === history.contentHash(JSON.parse(JSON.stringify(
+    Object.fromEntries(Object.entries(license).reverse())))));
+
+  // A later run: the license fee went up, the permit dropped out, a new rule matched, the profile moved
+  const updatedLicense = makeRule('license_v2', 'Business License', {
+    canonical_id: 'license', version: 2,
+    estimated_cost: { filing_fees: 150, ongoing_costs: 0, penalty_range: { min: 0, max: 0 } }
+  });
+  const stepsOnly = makeRule('poster', 'Workplace Poster', {
+    compliance_steps: [{ step_number: 1, step_description: 'Post it' } as ComplianceStep]
+  });
+  const movedProfile = { ...profile, state: 'NV', last_analysis: 'b' } as BusinessProfile;
+  const second = record(movedProfile, [updatedLicense, makeRule('report', 'Statement of Information'), stepsOnly], '2025-06-02T10:00:00.000Z');
+  const third = record(movedProfile, [
+    updatedLicense, makeRule('report', 'Statement of Information'),
+    makeRule('poster', 'Workplace Poster', { compliance_steps: [{ step_number: 1, step_description: 'Post it in the break room' } as ComplianceStep] })
+  ], '2025-06-03T10:00:00.000Z');
+
+  await repository.storeAnalysis(second);
+  await repository.storeAnalysis(first);
+  await repository.storeAnalysis(third);
+  await repository.storeAnalysis(record({ ...profile, session_id: 's2' } as BusinessProfile, [license], '2025-06-04T10:00:00.000Z'));
+
+  const runs = await repository.getAnalyses('s1');
+  check('runs listed newest first per profile', runs.map(run => run.analysis_id).join() ===
+    [third, second, first].map(run => run.analysis_id).join());
+  check('listing limit', (await repository.getAnalyses('s1', 1))[0]?.analysis_id === third.analysis_id);
+  check('run by id', (await repository.getAnalysis(first.analysis_id))?.rules.length === 2 && await repository.getAnalysis('missing') === null);
+  check('list item leaves out the details', !('rules' in history.listItem(first)) && history.listItem(first).business_name === 'History Co');
+
+  // Comparison
+  const diff = history.compare(second, first);
+  check('older run is the base', diff.base.analysis_id === first.analysis_id && diff.target.analysis_id === second.analysis_id);
+  check('added and removed by canonical id', diff.rules.added.map(rule => rule.canonical_id).join() === 'report,poster' &&
+    diff.rules.removed.map(rule => rule.canonical_id).join() === 'permit' && diff.rules.unchanged === 0);
+  const changed = diff.rules.changed[0];
+  check('changed rule with field diff', diff.rules.changed.length === 1 && changed?.from_version === 1 && changed?.to_version === 2 &&
+    changed?.changes.some(change => change.path === 'estimated_cost.filing_fees' && change.before === 100 && change.after === 150) === true);
+  check('cost and rule count deltas', diff.first_year_cost.before === 200 && diff.first_year_cost.after === 350 &&
+    diff.first_year_cost.delta === 150 && diff.total_rules.delta === 1);
+  check('score delta', diff.score.delta === diff.score.after - diff.score.before && diff.score.before === first.summary.compliance_score);
+  check('categories cover both runs', diff.categories.some(category => category.category === 'tax' && category.after === 100));
+  check('profile changes skip per-run fields', diff.profile_changes.length === 1 && diff.profile_changes[0]?.path === 'state');
+
+  const stepDiff = history.compare(second, third);
+  check('step edit shows as changed steps', stepDiff.rules.changed.length === 1 &&
+    stepDiff.rules.changed[0]?.changes[0]?.path === 'steps' && stepDiff.rules.unchanged === 2);
+  check('snapshot keeps steps', third.rules[2]?.steps[0]?.description === 'Post it in the break room' &&
+    third.rules[2]?.steps[0]?.forms.length === 0);
+
+  // Fields outside the snapshot still count through the content hash
+  const narrowed = makeRule('report', 'Statement of Information', {
+    applicability_criteria: { ...license.applicability_criteria, states: ['NV'] }
+  });
+  const fourth = record(movedProfile, [updatedLicense, narrowed], '2025-06-04T10:00:00.000Z');
+  const hiddenDiff = history.compare(third, fourth);
+  check('change outside the snapshot shows as the rule', hiddenDiff.rules.changed[0]?.canonical_id === 'report' &&
+    hiddenDiff.rules.changed[0]?.changes[0]?.path === 'compliance_rule');
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\n🎉 Analysis history test passed!');
+}
+
+// Run the test
+testAnalysisHistory().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
@@ -1,16 +1,71 @@
 import dotenv from 'dotenv';
-import { FirestoreService } from './services/FirestoreService';
+import path from 'path';
+import { createRepository, getStorageBackend } from './config/storage';
+import { AIRuleGenerator } from './services/AIRuleGenerator';
+import { InMemoryRepository } from './services/InMemoryRepository';
+import { createLlmClient } from './services/LlmClient';
 import { BusinessProfile } from './types/ComplianceRule';
+import { ComplianceRepository } from './types/Repository';
 import { v4 as uuidv4 } from 'uuid';
 
 dotenv.config();
 
+// Default to the seeded in-memory backend rather than the app's Firestore default
+process.env.STORAGE_BACKEND = process.env.STORAGE_BACKEND || 'memory';
+
+// Offline by default: the in-memory backend is seeded with the rules replayed
+// from the end-to-end LLM fixtures, and the matches are checked against them.
+// STORAGE_BACKEND=firestore reports matches for the stored rules instead.
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures', 'end-to-end');
+const SEEDED_RULE_COUNT = 10;
+
+// Expected matches for the seeded rules, by business name
+const EXPECTED_MATCHES: {[businessName: string]: { count: number, includes: string[], excludes: string[] }} = {
+  'Tech Startup LLC': {
+    count: 9,
+    includes: ['Employer Identification Number (EIN)', 'FTC Online Privacy and Data Security'],
+    excludes: ['Annual Federal Income Tax Return for Corporations (Form 1120)']
+  },
+  'Local Restaurant Corp': {
+    count: 10,
+    includes: ['Annual Federal Income Tax Return for Corporations (Form 1120)', 'Form I-9 Employment Eligibility Verification'],
+    excludes: []
+  },
+  // No employees and no personal data: none of the employer or privacy rules apply
+  'Solo Consulting': { count: 0, includes: [], excludes: [] }
+};
+
+// Expected searchRules counts for the seeded rules, by "type in state"
+const EXPECTED_SEARCHES: {[search: string]: number} = {
+  'LLC in CA': 9,
+  'Sole Proprietorship in NY': 7
+};
+
+async function createSeededRepository(): Promise<{ repository: ComplianceRepository, seeded: boolean }> {
+  if (getStorageBackend() !== 'memory') {
+    return { repository: createRepository(), seeded: false };
+  }
+
+  const repository = new InMemoryRepository();
+  const generator = new AIRuleGenerator(createLlmClient({ provider: 'fixture', fixturesDir: FIXTURES_DIR }));
+  const { rules } = await generator.generateFederalRules(SEEDED_RULE_COUNT);
+  await repository.storeRules(rules);
+  return { repository, seeded: true };
+}
+
 async function testBusinessMatching() {
   console.log('🎯 Testing Business Profile Matching');
   console.log('====================================\n');
 
+  let failures = 0;
+  const check = (label: string, condition: boolean) => {
+    console.log(`${condition ? '✅' : '❌'} ${label}`);
+    if (!condition) failures++;
+  };
+
   try {
-    const firestoreService = new FirestoreService();
+    const { repository, seeded } = await createSeededRepository();
+    console.log(seeded ? '💾 Seeded in-memory storage from the LLM fixtures' : `💾 Using the stored rules (${getStorageBackend()})`);
 
     // Test different business profiles
     const testProfiles: BusinessProfile[] = [
@@ -101,8 +156,7 @@ async function testBusinessMatching() {
     ];
 
     // Test each business profile
-    for (let i = 0; i < testProfiles.length; i++) {
-      const profile = testProfiles[i];
+    for (const [i, profile] of testProfiles.entries()) {
       console.log(`\n🏢 Testing Profile ${i + 1}: ${profile.business_name}`);
       console.log('─'.repeat(50));
       console.log(`Type: ${profile.business_type}`);
@@ -114,13 +168,25 @@ async function testBusinessMatching() {
       const startTime = Date.now();
       
       // Find matching rules
-      const matchingRules = await firestoreService.getMatchingRules(profile);
+      const matchingRules = await repository.getMatchingRules(profile);
       
       const endTime = Date.now();
       const queryTime = endTime - startTime;
 
       console.log(`\n📋 Found ${matchingRules.length} matching rules (${queryTime}ms)`);
 
+      const expected = EXPECTED_MATCHES[profile.business_name];
+      if (seeded && expected) {
+        const titles = matchingRules.map(rule => rule.title);
+        check(`${profile.business_name} matches ${expected.count} rules`, matchingRules.length === expected.count);
+        if (expected.includes.length > 0) {
+          check(`${profile.business_name} gets the rules that apply to it`, expected.includes.every(title => titles.includes(title)));
+        }
+        if (expected.excludes.length > 0) {
+          check(`${profile.business_name} does not get rules for other business types`, expected.excludes.every(title => !titles.includes(title)));
+        }
+      }
+
       if (matchingRules.length > 0) {
         console.log('\n🎯 Top Matching Rules:');
         matchingRules.slice(0, 5).forEach((rule, index) => {
@@ -165,13 +231,25 @@ async function testBusinessMatching() {
       } else {
         console.log('⚠️  No matching rules found for this business profile');
       }
+
+      // Explain the closest misses so the criteria can be checked
+      const explanations = await repository.explainMatches(profile);
+      const misses = explanations.filter(result => !result.applies);
+      console.log(`\n🧾 Rules not applicable: ${misses.length}`);
+      if (seeded) {
+        check(`${profile.business_name} explanations cover every rule`, explanations.length === SEEDED_RULE_COUNT &&
+          misses.every(result => result.failed.length > 0));
+      }
+      misses.slice(0, 3).forEach(result => {
+        console.log(`   ✗ ${result.title}: ${result.explanation}`);
+      });
     }
 
     // Get overall statistics
     console.log('\n📈 OVERALL STATISTICS');
     console.log('=====================');
     
-    const stats = await firestoreService.getCollectionStats();
+    const stats = await repository.getCollectionStats();
     console.log('Database Collections:');
     Object.entries(stats).forEach(([collection, count]) => {
       console.log(`   ${collection}: ${count} documents`);
@@ -188,12 +266,20 @@ async function testBusinessMatching() {
     ];
 
     for (const search of searchTests) {
-      const searchResults = await firestoreService.searchRules(
+      const searchResults = await repository.searchRules(
         search.businessType, 
         search.state, 
         10
       );
       console.log(`${search.businessType} in ${search.state}: ${searchResults.length} rules`);
+      const label = `${search.businessType} in ${search.state}`;
+      if (seeded && EXPECTED_SEARCHES[label] !== undefined) {
+        check(`search for ${label} finds ${EXPECTED_SEARCHES[label]} rules`, searchResults.length === EXPECTED_SEARCHES[label]);
+      }
+    }
+
+    if (failures > 0) {
+      throw new Error(`${failures} check(s) failed`);
     }
 
     console.log('\n✅ Business matching test completed successfully!');
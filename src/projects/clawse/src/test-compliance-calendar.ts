@@ -0,0 +1,138 @@
+import { DeadlineParser } from './services/DeadlineParser';
+import { ComplianceCalendarService } from './services/ComplianceCalendarService';
+import { BusinessProfile, ComplianceRule, ComplianceStep } from './types/ComplianceRule';
+
+// Deadline parsing and calendar scheduling (offline, fixed dates)
+
+function makeStep(stepNumber: number, description: string, deadline: string, deadlineType: ComplianceStep['deadline_type'] = 'relative'): ComplianceStep {
+  return {
+    step_number: stepNumber,
+    step_description: description,
+    deadline,
+    deadline_type: deadlineType,
+    required_forms: [],
+    required_documents: [],
+    estimated_cost: 25,
+    estimated_time: '1 hour',
+    depends_on_steps: [],
+    can_be_done_parallel: true,
+    priority: 'medium',
+    verification_method: '',
+    completion_proof: []
+  };
+}
+
+function makeRule(id: string, deadlines: ComplianceRule['deadlines'], steps: ComplianceStep[] = []): ComplianceRule {
+  return {
+    id,
+    canonical_id: id,
+    title: `Rule ${id}`,
+    description: 'Fixture rule',
+    authority: 'Test Authority',
+    level: 'federal',
+    jurisdiction: 'US',
+    priority: 'high',
+    status: 'active',
+    applicability_criteria: {
+      business_types: [], employee_count: { min: 0, max: 999999 },
+      annual_revenue: { min: 0, max: 999999999, currency: 'USD' },
+      industries: [], industry_groups: [], states: ['ALL'], cities: [], counties: [],
+      special_conditions: [], exclusions: {}
+    },
+    compliance_steps: steps,
+    estimated_cost: { filing_fees: 50, ongoing_costs: 0, penalty_range: { min: 0, max: 0 } },
+    deadlines,
+    sources: [],
+    tags: [], related_rules: [], conflicts_with: [],
+    version: 1,
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+    last_verified: '2024-01-01T00:00:00.000Z',
+    search_keywords: []
+  };
+}
+
+async function testComplianceCalendar() {
+  console.log('📅 Testing Compliance Calendar');
+  console.log('==============================\n');
+
+  let failures = 0;
+  const check = (label: string, condition: boolean) => {
+    console.log(`${condition ? '✅' : '❌'} ${label}`);
+    if (!condition) failures++;
+  };
+
+  const parser = new DeadlineParser();
+  const annual = parser.parse('Annually by March 15');
+  check('annual calendar date parsed', annual.kind === 'recurring' && annual.frequency === 'annually' &&
+    annual.dates?.[0]?.month === 3 && annual.dates?.[0]?.day === 15 && annual.summary === 'Annually on March 15');
+  const relative = parser.parse('Within 30 days of formation');
+  check('relative offset parsed', relative.kind === 'relative' && relative.anchor === 'formation' && relative.offset?.amount === 30);
+  const fiscal = parser.parse('15th day of the 4th month after the end of the fiscal year');
+  check('fiscal year deadline parsed', fiscal.anchor === 'fiscal_year_end' && fiscal.offset?.amount === 4 && fiscal.day_of_month === 15);
+  check('hire anchor parsed', parser.parse('Within 20 days of hiring a new employee').anchor === 'hire');
+  check('before-event deadline parsed', parser.parse('Before hiring employees').before_anchor === true);
+  check('biennial interval parsed', parser.parse('Every two years').interval === 2);
+  check('monthly due day parsed', parser.parse('Monthly by the 20th').day_of_month === 20);
+  check('bare quarterly uses default dates with low confidence', parser.parse('Quarterly').dates?.length === 4 && parser.parse('Quarterly').confidence === 'low');
+  check('absolute date parsed', parser.parse('No later than January 1, 2026').date === '2026-01-01');
+  check('ongoing recognized', parser.parse('Ongoing').kind === 'ongoing');
+  check('unrecognized text kept', parser.parse('When the moon is full').kind === 'unknown');
+
+  const profile = {
+    session_id: 'session_calendar',
+    business_name: 'Calendar Co',
+    formation_date: '2025-02-10',
+    fiscal_year_end: '06-30',
+    hire_dates: ['2025-03-03', '2025-09-15'],
+    has_employees: true
+  } as BusinessProfile;
+
+  const rules = [
+    makeRule('annual-report', { initial_deadline: 'Within 30 days of formation', recurring_deadline: 'Annually by March 15', grace_period: 10 }),
+    makeRule('corporate-tax', { initial_deadline: '15th day of the 4th month after the end of the fiscal year' }),
+    makeRule('new-hire', { initial_deadline: 'Within 20 days of hire' }),
+    makeRule('payroll', { initial_deadline: 'Ongoing' }, [
+      makeStep(1, 'Deposit payroll taxes', 'Monthly by the 15th', 'recurring'),
+      makeStep(2, 'Keep records', 'Ongoing')
+    ])
+  ];
+
+  const calendar = new ComplianceCalendarService().buildCalendar(profile, rules, {
+    start: '2025-01-01', end: '2025-12-31', today: '2025-06-01'
+  });
+  const dueDates = (ruleId: string) => calendar.obligations.filter(o => o.rule_id === ruleId).map(o => o.due_date);
+
+  check('initial deadline offset from formation', dueDates('annual-report').includes('2025-03-12'));
+  check('annual recurrence on calendar date', dueDates('annual-report').includes('2025-03-15'));
+  check('grace period end computed', calendar.obligations.find(o => o.id === 'annual-report:recurring:2025-03-15')?.grace_end_date === '2025-03-25');
+  check('fiscal year deadline from profile fiscal year end', JSON.stringify(dueDates('corporate-tax')) === JSON.stringify(['2025-10-15']));
+  check('one obligation per hire date', JSON.stringify(dueDates('new-hire')) === JSON.stringify(['2025-03-23', '2025-10-05']));
+  check('monthly step deadlines start after formation', dueDates('payroll').length === 11 && dueDates('payroll')[0] === '2025-02-15');
+  check('step obligations carry the step number', calendar.obligations.some(o => o.rule_id === 'payroll' && o.step_number === 1));
+  check('ongoing deadlines listed once as unscheduled', calendar.unscheduled.filter(u => u.rule_id === 'payroll').length === 1);
+  check('status relative to today', calendar.obligations.find(o => o.due_date === '2025-03-15')?.status === 'overdue' &&
+    calendar.obligations.find(o => o.due_date === '2025-06-15')?.status === 'due_soon' &&
+    calendar.obligations.find(o => o.due_date === '2025-10-15')?.status === 'upcoming');
+  check('obligations sorted by due date', calendar.obligations.every((o, i, all) => i === 0 || (all[i - 1]?.due_date || '') <= o.due_date));
+
+  // Without profile anchors, relative deadlines are reported rather than guessed
+  const bare = new ComplianceCalendarService().buildCalendar(
+    { session_id: 'bare', has_employees: true } as BusinessProfile, rules, { start: '2025-01-01', end: '2025-12-31', today: '2025-06-01' });
+  check('missing formation date reported', bare.unscheduled.some(u => u.rule_id === 'annual-report' && u.reason.includes('formation_date')));
+  check('calendar fiscal year assumed', bare.assumptions.some(a => a.includes('calendar fiscal year')) &&
+    bare.obligations.some(o => o.rule_id === 'corporate-tax' && o.due_date === '2025-04-15'));
+  check('missing hire dates reported', bare.unscheduled.some(u => u.rule_id === 'new-hire'));
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log(`\n🎉 Compliance calendar test passed! (${calendar.obligations.length} obligations, ${calendar.unscheduled.length} unscheduled)`);
+}
+
+// Run the test
+testComplianceCalendar().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
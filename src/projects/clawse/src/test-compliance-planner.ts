@@ -0,0 +1,139 @@
+import { CompliancePlanner } from './services/CompliancePlanner';
+import { ComplianceRule, ComplianceStep } from './types/ComplianceRule';
+
+// Step dependency graph, cycle breaking and critical-path scheduling (offline)
+
+function makeStep(stepNumber: number, estimatedTime: string, dependsOn: number[] = [], parallel = true): ComplianceStep {
+  return {
+    step_number: stepNumber,
+    step_description: `Step ${stepNumber}`,
+    deadline: '',
+    deadline_type: 'relative',
+    required_forms: [],
+    required_documents: [],
+    estimated_cost: 25,
+    estimated_time: estimatedTime,
+    depends_on_steps: dependsOn,
+    can_be_done_parallel: parallel,
+    priority: 'high',
+    verification_method: '',
+    completion_proof: []
+  };
+}
+
+function makeRule(id: string, priority: ComplianceRule['priority'], steps: ComplianceStep[]): ComplianceRule {
+  return {
+    id,
+    canonical_id: id,
+    title: `Rule ${id}`,
+    description: 'Fixture rule',
+    authority: 'Test Authority',
+    level: 'state',
+    jurisdiction: 'CA',
+    priority,
+    status: 'active',
+    applicability_criteria: {
+      business_types: [], employee_count: { min: 0, max: 999999 },
+      annual_revenue: { min: 0, max: 999999999, currency: 'USD' },
+      industries: [], industry_groups: [], states: ['ALL'], cities: [], counties: [],
+      special_conditions: [], exclusions: {}
+    },
+    compliance_steps: steps,
+    estimated_cost: { filing_fees: 0, ongoing_costs: 0, penalty_range: { min: 0, max: 0 } },
+    deadlines: { initial_deadline: '' },
+    sources: [],
+    tags: [], related_rules: [], conflicts_with: [],
+    version: 1,
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+    last_verified: '2024-01-01T00:00:00.000Z',
+    search_keywords: []
+  };
+}
+
+async function testCompliancePlanner() {
+  console.log('🧭 Testing Compliance Planner');
+  console.log('=============================\n');
+
+  let failures = 0;
+  const check = (label: string, condition: boolean) => {
+    console.log(`${condition ? '✅' : '❌'} ${label}`);
+    if (!condition) failures++;
+  };
+
+  const planner = new CompliancePlanner();
+
+  // Duration parsing
+  const duration = (text: string) => {
+    const parsed = planner.parseDuration(text);
+    return `${parsed.min_days}-${parsed.max_days}${parsed.parsed ? '' : '?'}`;
+  };
+  check('"2-3 weeks"', duration('2-3 weeks') === '14-21');
+  check('"1 to 2 business days"', duration('1 to 2 business days') === '1.4-2.8');
+  check('"30 minutes" and "2 hours" as part of a working day', duration('30 minutes') === '0.06-0.06' && duration('2 hours') === '0.25-0.25');
+  check('word amounts', duration('a month') === '30-30' && duration('Two weeks') === '14-14');
+  check('several durations widen the range', duration('1 hour online, 4-6 weeks by mail') === '0.13-42');
+  check('immediate and same day', duration('Immediate') === '0-0' && duration('Same day') === '1-1');
+  check('unparseable text uses the default', duration('Varies') === '1-7?' && duration('') === '1-7?');
+
+  // Plan: formation chain (critical), a parallel license, and a payroll chain of sequential steps
+  const formation = makeRule('formation', 'critical', [
+    makeStep(1, '1 day'),
+    makeStep(2, '2-3 weeks', [1]),
+    makeStep(3, '1 week', [2])
+  ]);
+  const license = makeRule('license', 'high', [makeStep(1, '3-5 days')]);
+  const payroll = makeRule('payroll', 'medium', [
+    makeStep(1, '2 days'),
+    makeStep(2, '1 week', [], false), // Sequential: waits for step 1
+    makeStep(3, 'Varies', [9]) // Unknown dependency is dropped
+  ]);
+
+  const plan = planner.buildPlan([payroll, license, formation]);
+  const step = (id: string) => plan.steps.find(planned => planned.step_id === id);
+
+  check('one planned step per compliance step', plan.steps.length === 7);
+  check('dependencies scheduled in order', step('formation:2')?.start_day === 1 && step('formation:3')?.start_day === 22);
+  check('sequential step depends on the previous one', step('payroll:2')?.implicit_dependency === true &&
+    step('payroll:2')?.depends_on[0] === 'payroll:1' && step('payroll:2')?.start_day === 2);
+  check('unknown dependency dropped', step('payroll:3')?.depends_on.length === 0);
+  check('total elapsed time', plan.total_days.max === 29 && plan.total_days.min === 22);
+  check('critical path', plan.critical_path.join(',') === 'formation:1,formation:2,formation:3');
+  check('slack on other steps', step('license:1')?.slack_days === 24 && step('license:1')?.critical === false);
+  check('phases group steps that can start together', plan.phases[0]?.step_ids.length === 4 &&
+    plan.phases[0]?.step_ids[0] === 'formation:1' && plan.phases.length === 3);
+  check('critical path in the first lane', plan.lanes[0]?.join(',') === plan.critical_path.join(',') &&
+    plan.steps.filter(planned => planned.lane === 0).length === 3);
+  check('lanes never overlap', plan.lanes.every(lane => lane.every((id, index) => {
+    const previous = index > 0 ? step(lane[index - 1] || '') : undefined;
+    return !previous || (step(id)?.start_day ?? 0) >= previous.end_day;
+  })));
+  check('steps ordered by start day', plan.steps.every((planned, index) => index === 0 || (plan.steps[index - 1]?.start_day ?? 0) <= planned.start_day));
+  check('total cost', plan.total_cost === 175);
+  check('assumed durations reported', plan.assumptions.some(note => note.includes('1 step(s) without a usable estimated_time')));
+
+  // Cycles are reported and broken
+  const cyclic = makeRule('cyclic', 'high', [
+    makeStep(1, '1 day', [3]),
+    makeStep(2, '1 day', [1]),
+    makeStep(3, '1 day', [2])
+  ]);
+  const cyclicPlan = planner.buildPlan([cyclic]);
+  check('cycle detected', cyclicPlan.cycles.length === 1 && cyclicPlan.cycles[0]?.length === 4 &&
+    cyclicPlan.assumptions.some(note => note.startsWith('Dependency cycle')));
+  check('cyclic steps still scheduled', cyclicPlan.steps.length === 3 && cyclicPlan.total_days.max === 3);
+
+  check('empty plan', planner.buildPlan([]).steps.length === 0 && planner.buildPlan([]).total_days.max === 0);
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\n🎉 Compliance planner test passed!');
+}
+
+// Run the test
+testCompliancePlanner().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
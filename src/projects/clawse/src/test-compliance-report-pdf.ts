@@ -0,0 +1,157 @@
+import { ComplianceReportPdf, LEGAL_DISCLAIMER } from './services/ComplianceReportPdf';
+import { AnalysisHistory } from './services/AnalysisHistory';
+import { ComplianceScorer } from './services/ComplianceScorer';
+import { CostForecaster } from './services/CostForecaster';
+import { BusinessProfile, ComplianceRule, ComplianceStep } from './types/ComplianceRule';
+
+// PDF report: markdown reduction, source numbering and rendering with the bundled fonts (offline)
+
+function makeStep(stepNumber: number, description: string, forms: string[] = []): ComplianceStep {
+  return {
+    step_number: stepNumber,
+    step_description: description,
+    deadline: 'Within 30 days of formation',
+    deadline_type: 'relative',
+    required_forms: forms.map(name => ({ form_name: name, form_url: '', form_type: 'online', filing_method: 'online', processing_time: '' })),
+    required_documents: [],
+    estimated_cost: 25,
+    estimated_time: '1 hour',
+    depends_on_steps: [],
+    can_be_done_parallel: true,
+    priority: 'high',
+    verification_method: '',
+    completion_proof: []
+  };
+}
+
+function makeRule(id: string, title: string, sourceUrl: string): ComplianceRule {
+  return {
+    id,
+    canonical_id: id,
+    title,
+    description: `${title} requirement for businesses operating in California, including registration and renewal.`,
+    authority: 'California Secretary of State',
+    level: 'state',
+    jurisdiction: 'CA',
+    priority: 'high',
+    status: 'active',
+    applicability_criteria: {
+      business_types: [], employee_count: { min: 0, max: 999999 },
+      annual_revenue: { min: 0, max: 999999999, currency: 'USD' },
+      industries: [], industry_groups: [], states: ['CA'], cities: [], counties: [],
+      special_conditions: [], exclusions: {}
+    },
+    compliance_steps: [makeStep(1, 'Register online', ['Form LLC-12']), makeStep(2, 'Keep the certificate on file')],
+    estimated_cost: { filing_fees: 70, ongoing_costs: 20, penalty_range: { min: 50, max: 250 } },
+    deadlines: { initial_deadline: 'Within 90 days of formation', recurring_deadline: 'Every two years' },
+    sources: [{
+      source_id: sourceUrl, source_type: 'website', source_name: 'California SOS', source_url: sourceUrl,
+      reliability_score: 9, last_updated: '2025-01-15', verification_status: 'verified', content_hash: ''
+    }],
+    tags: [], related_rules: [], conflicts_with: [],
+    version: 2,
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+    last_verified: '2024-01-01T00:00:00.000Z',
+    search_keywords: []
+  };
+}
+
+const REPORT = `# 📋 Compliance Analysis Report
+
+## 🏢 Business Overview
+**Report Co** - LLC in CA
+with a second line.
+
+- **Authority:** California SOS
+  - Nested [detail](https://www.sos.ca.gov)
+1. Review each requirement
+---
+| Rule | Cost |
+|------|------|
+| Statement | $20 |
+`;
+
+async function testComplianceReportPdf() {
+  console.log('📄 Testing Compliance Report PDF');
+  console.log('================================\n');
+
+  let failures = 0;
+  const check = (label: string, condition: boolean) => {
+    console.log(`${condition ? '✅' : '❌'} ${label}`);
+    if (!condition) failures++;
+  };
+
+  const pdf = new ComplianceReportPdf();
+
+  // Markdown reduction
+  const blocks = pdf.parseMarkdown(REPORT);
+  check('headings without emoji', blocks[0]?.type === 'heading' && blocks[0].level === 1 &&
+    pdf.cleanText(blocks[0].runs[0]?.text || '') === 'Compliance Analysis Report');
+  const paragraph = blocks[2];
+  check('paragraph lines joined, bold runs split', paragraph?.type === 'paragraph' && paragraph.runs.length === 2 &&
+    paragraph.runs[0]?.bold === true && paragraph.runs[0].text === 'Report Co' && paragraph.runs[1]?.text === ' - LLC in CA with a second line.');
+  const nested = blocks[4];
+  check('nested bullet keeps its link', nested?.type === 'bullet' && nested.depth === 1 && nested.marker === '•' &&
+    nested.runs[0]?.text === 'Nested detail (https://www.sos.ca.gov)');
+  check('numbered item and rule', blocks[5]?.type === 'bullet' && blocks[5].marker === '1.' && blocks[6]?.type === 'rule');
+  check('table rows without the separator', blocks.length === 9 && blocks[8]?.type === 'paragraph' &&
+    blocks[8].runs[0]?.text === 'Statement  |  $20');
+  check('italic markers dropped', pdf.parseInline('an *important* note')[0]?.text === 'an important note');
+  check('emoji dropped, symbols kept', pdf.cleanText('⚠️ Due ✅ soon © 2025') === 'Due soon © 2025');
+
+  // Rendering a stored run
+  const profile = {
+    session_id: 'pdf', business_name: 'Report Co', business_type: 'LLC', headquarters_state: 'CA', headquarters_city: 'Oakland',
+    employee_count: 4, annual_revenue: 250000, primary_industry: '541511', industry_description: 'Software consulting',
+    operating_locations: [], business_activities: ['consulting'], has_employees: true
+  } as unknown as BusinessProfile;
+  const rules = [
+    makeRule('soi', 'Statement of Information', 'https://bizfileonline.sos.ca.gov'),
+    makeRule('dba', 'Fictitious Business Name', 'https://bizfileonline.sos.ca.gov'),
+    makeRule('seller', "Seller's Permit", 'https://www.cdtfa.ca.gov')
+  ];
+  const today = '2025-06-01';
+  const analysis = new AnalysisHistory().createRecord({
+    source: 'analyze',
+    profile,
+    rules,
+    aiReport: REPORT,
+    priorityBreakdown: { high: rules.length },
+    riskAssessment: new ComplianceScorer().score(profile, rules, { today }),
+    costForecast: new CostForecaster().forecast(profile, rules, { today }),
+    searchEnhanced: false,
+    startedAt: Date.now()
+  }, '2025-06-01T12:00:00.000Z');
+
+  const sources = pdf.collectSources(analysis.rules);
+  check('shared sources numbered once', sources.size === 2 &&
+    sources.get('https://www.cdtfa.ca.gov|California SOS')?.number === 2);
+
+  const buffer = await pdf.render(analysis, { generatedAt: '2025-06-02T00:00:00.000Z', compress: false });
+  const content = buffer.toString('latin1');
+  check('renders a PDF', content.startsWith('%PDF-') && content.trimEnd().endsWith('%%EOF'));
+  check('bundled fonts embedded', /\/FontName \/[A-Z]{6}\+DejaVuSans\b/.test(content) &&
+    /\/FontName \/[A-Z]{6}\+DejaVuSans-Bold\b/.test(content) && /\/FontFile2 /.test(content));
+  check('no standard fonts needed', !content.includes('/BaseFont /Helvetica'));
+  check('source links clickable', content.includes('/URI (https://www.cdtfa.ca.gov)'));
+
+  // Long runs spill onto more pages, each with a footer
+  const longAnalysis = { ...analysis, rules: Array.from({ length: 40 }, (_, index) => ({ ...analysis.rules[0]!, rule_id: `rule_${index}`, canonical_id: `rule_${index}` })) };
+  const longPdf = (await pdf.render(longAnalysis, { compress: false })).toString('latin1');
+  const pageCount = (text: string) => (text.match(/\/Type \/Page\b/g) || []).length;
+  check('long report paginates', pageCount(longPdf) > pageCount(content) && pageCount(longPdf) >= 8);
+  check('disclaimer shared with the fallback report', LEGAL_DISCLAIMER.startsWith('This analysis is for informational purposes only'));
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\n🎉 Compliance report PDF test passed!');
+}
+
+// Run the test
+testComplianceReportPdf().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,156 @@
+import { ComplianceScorer } from './services/ComplianceScorer';
+import { BusinessProfile, ComplianceRule, ComplianceSource } from './types/ComplianceRule';
+import { TrackedTask, TaskStatus } from './types/ComplianceTask';
+
+// Risk scoring: weights, completion, deadline proximity, reliability and categories (offline)
+
+function makeSource(reliability: number): ComplianceSource {
+  return {
+    source_id: `source_${reliability}`,
+    source_type: 'website',
+    source_name: 'Fixture',
+    source_url: 'https://example.gov',
+    reliability_score: reliability,
+    last_updated: '2025-01-01',
+    verification_status: 'verified',
+    content_hash: ''
+  };
+}
+
+function makeRule(id: string, title: string, overrides: Partial<ComplianceRule> = {}): ComplianceRule {
+  return {
+    id,
+    canonical_id: id,
+    title,
+    description: 'Fixture rule',
+    authority: 'Test Authority',
+    level: 'state',
+    jurisdiction: 'CA',
+    priority: 'medium',
+    status: 'active',
+    applicability_criteria: {
+      business_types: [], employee_count: { min: 0, max: 999999 },
+      annual_revenue: { min: 0, max: 999999999, currency: 'USD' },
+      industries: [], industry_groups: [], states: ['ALL'], cities: [], counties: [],
+      special_conditions: [], exclusions: {}
+    },
+    compliance_steps: [],
+    estimated_cost: { filing_fees: 0, ongoing_costs: 0, penalty_range: { min: 0, max: 0 } },
+    deadlines: { initial_deadline: '' },
+    sources: [makeSource(10)],
+    tags: [], related_rules: [], conflicts_with: [],
+    version: 1,
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+    last_verified: '2024-01-01T00:00:00.000Z',
+    search_keywords: [],
+    ...overrides
+  };
+}
+
+function makeTask(ruleId: string, step: number, status: TaskStatus, dueDate?: string, overdue = false): TrackedTask {
+  return {
+    task_id: `s:${ruleId}:${step}`, session_id: 's', rule_id: ruleId, rule_title: ruleId, step_number: step,
+    title: `Step ${step}`, priority: 'high', depends_on: [], status,
+    ...(dueDate && { due_date: dueDate }),
+    deadline_text: '', estimated_time: '', estimated_cost: 0, required_forms: [], verification_method: '',
+    completion_proof: [], evidence: [], history: [], archived: false,
+    created_at: '2025-01-01T00:00:00.000Z', updated_at: '2025-01-01T00:00:00.000Z',
+    blocked_by: [], is_overdue: overdue
+  };
+}
+
+async function testComplianceScore() {
+  console.log('📈 Testing Compliance Scorer');
+  console.log('============================\n');
+
+  let failures = 0;
+  const check = (label: string, condition: boolean) => {
+    console.log(`${condition ? '✅' : '❌'} ${label}`);
+    if (!condition) failures++;
+  };
+
+  const scorer = new ComplianceScorer();
+  const profile = { session_id: 's', business_name: 'Score Co', formation_date: '2025-01-10' } as BusinessProfile;
+  const today = '2025-06-01';
+
+  check('no rules scores 100', scorer.score(profile, [], { today }).score === 100);
+
+  // Priority and penalty drive the weight
+  const critical = makeRule('ein', 'Employer Identification Number', {
+    priority: 'critical', estimated_cost: { filing_fees: 0, ongoing_costs: 0, penalty_range: { min: 0, max: 10000 } }
+  });
+  const low = makeRule('dba', 'Fictitious Business Name', { priority: 'low' });
+  const weights = scorer.score(profile, [critical, low], { today });
+  const risk = (score: typeof weights, id: string) => score.rules.find(rule => rule.rule_id === id);
+  check('critical, high-penalty rule weighs more', (risk(weights, 'ein')?.weight ?? 0) > 7 * (risk(weights, 'dba')?.weight ?? 0));
+  check('untracked rules count as not started', weights.rules.every(rule => !rule.tracked && rule.completion === 0) &&
+    weights.score === 50 && weights.explanations.some(note => note.includes('2 of 2 rule(s) have no tracked progress')));
+  check('heaviest rule listed first', weights.rules[0]?.rule_id === 'ein');
+
+  // Deadline proximity from the calendar: the 30-day deadline passed, the annual one is ahead
+  const overdueRule = makeRule('license', 'Business License', { deadlines: { initial_deadline: 'Within 30 days of formation' } });
+  const annualRule = makeRule('report', 'Statement of Information', { deadlines: { initial_deadline: '', recurring_deadline: 'Annually by June 20' } });
+  const proximity = scorer.score(profile, [overdueRule, annualRule], { today });
+  check('passed one-off deadline is overdue', risk(proximity, 'license')?.proximity === 'overdue' && risk(proximity, 'license')?.urgency === 1);
+  check('next recurring deadline sets proximity', risk(proximity, 'report')?.proximity === 'due_soon' &&
+    risk(proximity, 'report')?.next_due_date === '2025-06-20');
+  check('overdue explained', proximity.explanations[0] === '1 requirement(s) overdue: Business License');
+
+  // Task completion, when tracked
+  const tasks = [
+    makeTask('license', 1, 'completed', '2025-02-09'),
+    makeTask('license', 2, 'not_applicable'),
+    makeTask('report', 1, 'completed', '2025-06-20'),
+    makeTask('report', 2, 'pending', '2025-08-15')
+  ];
+  const tracked = scorer.score(profile, [overdueRule, annualRule], { today, tasks });
+  check('completed rule loses no points', risk(tracked, 'license')?.completion === 1 && risk(tracked, 'license')?.points_lost === 0);
+  check('next due date from open tasks', risk(tracked, 'report')?.completion === 0.5 && risk(tracked, 'report')?.proximity === 'upcoming' &&
+    risk(tracked, 'report')?.next_due_date === '2025-08-15');
+  check('progress raises the score', tracked.score === 85 && tracked.score > proximity.score && tracked.risk_level === 'low');
+  const overdueTask = scorer.score(profile, [annualRule], { today, tasks: [makeTask('report', 1, 'in_progress', '2025-05-01', true)] });
+  check('overdue task is overdue', overdueTask.rules[0]?.proximity === 'overdue' && overdueTask.score === 0 && overdueTask.risk_level === 'high');
+
+  // Source reliability scales the weight and the confidence
+  const reliable = makeRule('a', 'Sales Tax Permit', { sources: [makeSource(10)] });
+  const unreliable = makeRule('b', 'Sales Tax Permit', { sources: [makeSource(2)] });
+  const sourceless = makeRule('c', 'Sales Tax Permit', { sources: [] });
+  const reliability = scorer.score(profile, [reliable, unreliable, sourceless], { today });
+  check('reliability from sources', risk(reliability, 'a')?.reliability === 1 && risk(reliability, 'b')?.reliability === 0.2 &&
+    risk(reliability, 'c')?.reliability === 0.5);
+  check('unreliable rule weighs less', (risk(reliability, 'b')?.weight ?? 0) < (risk(reliability, 'a')?.weight ?? 0) &&
+    reliability.explanations.some(note => note.startsWith('1 rule(s) rely on low-reliability sources')));
+  check('confidence is weighted reliability', reliability.confidence === 0.57);
+
+  // Categories
+  const categorized = scorer.score(profile, [
+    makeRule('t', 'Federal Income Tax Return', { priority: 'high' }),
+    makeRule('e', 'Workers Compensation Insurance'),
+    makeRule('p', 'CCPA Privacy Notice'),
+    makeRule('r', 'City Business License'),
+    makeRule('g', 'Something Else', { description: 'Post the required OSHA poster' }),
+    makeRule('x', 'Miscellaneous Filing')
+  ], { today, tasks: [makeTask('r', 1, 'completed')] });
+  const category = (name: string) => categorized.categories.find(entry => entry.category === name);
+  check('rules categorized', risk(categorized, 't')?.category === 'tax' && risk(categorized, 'e')?.category === 'employment' &&
+    risk(categorized, 'p')?.category === 'privacy' && risk(categorized, 'r')?.category === 'registration' &&
+    risk(categorized, 'g')?.category === 'health_safety' && risk(categorized, 'x')?.category === 'general');
+  check('category sub-scores', category('registration')?.score === 100 && category('tax')?.score === 50 &&
+    categorized.categories[categorized.categories.length - 1]?.category === 'registration');
+  check('category explanations', category('registration')?.explanations[0] === 'All 1 requirement(s) complete' &&
+    category('tax')?.explanations[0] === 'Federal Income Tax Return: high priority, no scheduled deadline, not started');
+  check('points lost add up', Math.abs(100 - categorized.score - categorized.rules.reduce((sum, rule) => sum + rule.points_lost, 0)) <= 1);
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\n🎉 Compliance scorer test passed!');
+}
+
+// Run the test
+testComplianceScore().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
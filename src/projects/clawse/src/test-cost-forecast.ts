@@ -0,0 +1,132 @@
+import { CostForecaster } from './services/CostForecaster';
+import { BusinessProfile, ComplianceRule } from './types/ComplianceRule';
+import { TrackedTask } from './types/ComplianceTask';
+
+// Cost normalization, projections, penalty exposure and breakdowns (offline)
+
+// estimated_cost is loose on purpose: stored rules don't always follow the type
+function makeRule(id: string, overrides: Omit<Partial<ComplianceRule>, 'estimated_cost'> & { estimated_cost?: unknown }): ComplianceRule {
+  return {
+    id,
+    canonical_id: id,
+    title: `Rule ${id}`,
+    description: 'Fixture rule',
+    authority: 'IRS',
+    level: 'federal',
+    jurisdiction: 'US',
+    priority: 'high',
+    status: 'active',
+    applicability_criteria: {
+      business_types: [], employee_count: { min: 0, max: 999999 },
+      annual_revenue: { min: 0, max: 999999999, currency: 'USD' },
+      industries: [], industry_groups: [], states: ['ALL'], cities: [], counties: [],
+      special_conditions: [], exclusions: {}
+    },
+    compliance_steps: [],
+    estimated_cost: { filing_fees: 0, ongoing_costs: 0, penalty_range: { min: 0, max: 0 } },
+    deadlines: { initial_deadline: '' },
+    sources: [],
+    tags: [], related_rules: [], conflicts_with: [],
+    version: 1,
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+    last_verified: '2024-01-01T00:00:00.000Z',
+    search_keywords: [],
+    ...overrides
+  } as ComplianceRule;
+}
+
+async function testCostForecast() {
+  console.log('💰 Testing Cost Forecaster');
+  console.log('==========================\n');
+
+  let failures = 0;
+  const check = (label: string, condition: boolean) => {
+    console.log(`${condition ? '✅' : '❌'} ${label}`);
+    if (!condition) failures++;
+  };
+
+  const forecaster = new CostForecaster();
+  const profile = { session_id: 'session_costs', business_name: 'Cost Co', formation_date: '2025-01-10' } as BusinessProfile;
+
+  const rules = [
+    // Documented shape with an annual ongoing cost; its 30-day deadline has passed
+    makeRule('license', {
+      level: 'state', authority: 'CA Secretary of State', priority: 'critical',
+      estimated_cost: { filing_fees: 70, ongoing_costs: 800, penalty_range: { min: 250, max: 5000 } },
+      deadlines: { initial_deadline: 'Within 30 days of formation' }
+    }),
+    // Bare number (real-time search and legacy rules): the filing fee
+    makeRule('permit', { level: 'local', authority: 'City of Oakland', priority: 'medium', estimated_cost: 150 }),
+    // Money strings, and a filing fee that repeats with an annual deadline
+    makeRule('report', {
+      level: 'state', authority: 'CA Secretary of State',
+      estimated_cost: { filing_fees: '$20', penalty_range: { min: '50', max: '$1,000' } },
+      deadlines: { initial_deadline: '', recurring_deadline: 'Annually by April 15' }
+    }),
+    // No rule-level fee: step costs are used instead
+    makeRule('steps', {
+      estimated_cost: { penalty_range: { min: 100, max: 100 } },
+      compliance_steps: [
+        { step_number: 1, step_description: 'File', deadline: '', deadline_type: 'relative', required_forms: [], required_documents: [],
+          estimated_cost: 35, estimated_time: '1 day', depends_on_steps: [], can_be_done_parallel: true, priority: 'high', verification_method: '', completion_proof: [] },
+        { step_number: 2, step_description: 'Pay', deadline: '', deadline_type: 'relative', required_forms: [], required_documents: [],
+          estimated_cost: 15, estimated_time: '1 day', depends_on_steps: [1], can_be_done_parallel: false, priority: 'high', verification_method: '', completion_proof: [] }
+      ]
+    }),
+    // Nothing usable at all
+    makeRule('unknown', { estimated_cost: undefined, level: 'federal' })
+  ];
+
+  const normalized = forecaster.normalizeCost(rules[2] as ComplianceRule);
+  check('money strings normalized', normalized.filing_fees === 20 && normalized.penalty_range.min === 50 && normalized.penalty_range.max === 1000);
+  check('bare number is the filing fee', forecaster.normalizeCost(rules[1] as ComplianceRule).filing_fees === 150);
+  check('missing cost flagged', forecaster.normalizeCost(rules[4] as ComplianceRule).has_cost_data === false);
+  check('reversed penalty range ordered', forecaster.normalizeCost(makeRule('x', { estimated_cost: { penalty_range: { min: 900, max: 100 } } })).penalty_range.min === 100);
+
+  const forecast = forecaster.forecast(profile, rules, { today: '2025-06-01' });
+  const rule = (id: string) => forecast.rules.find(cost => cost.rule_id === id);
+
+  check('one-time total', forecast.one_time === 70 + 150 + 20 + 50);
+  check('step costs used when there is no filing fee', rule('steps')?.one_time === 50);
+  check('ongoing costs recur annually', rule('license')?.annual_recurring === 800 && rule('license')?.recurring_basis === 'ongoing_costs');
+  check('recurring filing repeats its fee', rule('report')?.annual_recurring === 20 && rule('report')?.filings_per_year === 1);
+  check('annual recurring total', forecast.annual_recurring === 820);
+  check('1/3/5 year projections', forecast.projections.map(projection => projection.total).join(',') === '1110,2750,4390');
+  check('no NaN anywhere', !JSON.stringify(forecast).includes('null') && Number.isFinite(forecast.penalty_at_risk.max));
+
+  // Overdue from the calendar: the 30-day deadline passed, the annual one is recurring
+  check('penalty exposure from passed one-off deadlines', forecast.penalty_exposure.source === 'calendar' &&
+    forecast.penalty_exposure.overdue_rules.join(',') === 'license' &&
+    forecast.penalty_exposure.min === 250 && forecast.penalty_exposure.max === 5000);
+  check('penalties at risk across all rules', forecast.penalty_at_risk.min === 400 && forecast.penalty_at_risk.max === 6100);
+
+  // Breakdowns
+  const state = forecast.breakdown.level.find(bucket => bucket.key === 'state');
+  check('breakdown by level', state?.rule_count === 2 && state.one_time === 90 && state.annual_recurring === 820 && state.penalty_exposure.max === 5000);
+  check('breakdown by authority', forecast.breakdown.authority[0]?.key === 'CA Secretary of State');
+  check('breakdown by priority', forecast.breakdown.priority.some(bucket => bucket.key === 'critical' && bucket.rule_count === 1));
+  check('assumptions listed', forecast.assumptions.some(note => note.startsWith('1 rule(s) have no cost data')) &&
+    forecast.assumptions.some(note => note.includes('repeat their filing fee')));
+
+  // Tracked tasks take precedence: a completed step is no longer overdue
+  const task = (ruleId: string, overdue: boolean) => ({ rule_id: ruleId, is_overdue: overdue, archived: false } as TrackedTask);
+  const tracked = forecaster.forecast(profile, rules, { today: '2025-06-01', tasks: [task('license', false), task('permit', true), task('permit', true)] });
+  check('penalty exposure from tracked tasks', tracked.penalty_exposure.source === 'tasks' &&
+    tracked.penalty_exposure.overdue_rules.join(',') === 'permit' && tracked.penalty_exposure.max === 0 &&
+    tracked.rules.find(cost => cost.rule_id === 'permit')?.overdue_obligations === 2);
+
+  check('empty forecast', forecaster.forecast(profile, [], { today: '2025-06-01' }).projections[2]?.total === 0);
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\n🎉 Cost forecast test passed!');
+}
+
+// Run the test
+testCostForecast().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
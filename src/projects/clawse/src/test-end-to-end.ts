@@ -1,12 +1,18 @@
 import dotenv from 'dotenv';
-import { initializeFirebase } from './config/firebase';
+import path from 'path';
 import { AIRuleGenerator } from './services/AIRuleGenerator';
-import { FirestoreService } from './services/FirestoreService';
+import { InMemoryRepository } from './services/InMemoryRepository';
+import { createLlmClient } from './services/LlmClient';
 import { BusinessProfile } from './types/ComplianceRule';
 import { v4 as uuidv4 } from 'uuid';
 
 dotenv.config();
 
+// Generation, storage, matching and search (offline): model responses are
+// replayed from these fixtures and rules are kept in memory. After changing a
+// prompt, re-record with LLM_FIXTURE_MODE=record and an OPENAI_API_KEY.
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures', 'end-to-end');
+
 async function runEndToEndTest() {
   console.log('🚀 Starting End-to-End Test with 10 Rules\n');
   console.log('==========================================\n');
@@ -14,16 +20,14 @@ async function runEndToEndTest() {
   try {
     // Step 1: Initialize services
     console.log('🔧 Step 1: Initializing services...');
-    initializeFirebase();
-    
-    const aiGenerator = new AIRuleGenerator(process.env.OPENAI_API_KEY!);
-    const firestoreService = new FirestoreService();
+    const aiGenerator = new AIRuleGenerator(createLlmClient({ provider: 'fixture', fixturesDir: FIXTURES_DIR }));
+    const repository = new InMemoryRepository();
     
-    console.log('✅ Services initialized successfully\n');
+    console.log('✅ Services initialized successfully (storage: memory, LLM: fixtures)\n');
     
     // Step 2: Clear any existing test data
     console.log('🧹 Step 2: Clearing existing test data...');
-    await firestoreService.clearTestData();
+    await repository.clearTestData();
     console.log('✅ Test data cleared\n');
     
     // Step 3: Generate 10 rules with AI
@@ -31,7 +35,7 @@ async function runEndToEndTest() {
     const startTime = Date.now();
     
     // Generate federal rules (temporarily skipping state rules due to parsing issues)
-    const federalRules = await aiGenerator.generateFederalRules(10);
+    const { rules: federalRules, report: federalReport } = await aiGenerator.generateFederalRules(10);
     // const stateRules = await aiGenerator.generateStateRules('California', 2);
     // const industryRules = await aiGenerator.generateIndustrySpecificRules('Technology', '541511', 1);
 
@@ -40,21 +44,22 @@ async function runEndToEndTest() {
     
     console.log(`✅ Generated ${allGeneratedRules.length} rules in ${generationTime}ms`);
     console.log(`   - Federal rules: ${federalRules.length}`);
+    console.log(`   - Validation: ${federalReport.valid} valid, ${federalReport.repaired} repaired, ${federalReport.rejected} rejected`);
     // console.log(`   - State rules: ${stateRules.length}`);
     // console.log(`   - Industry rules: ${industryRules.length}\n`);
     
-    // Step 4: Store rules in Firestore
-    console.log('💾 Step 4: Storing rules in Firestore...');
+    // Step 4: Store rules in the configured repository
+    console.log('💾 Step 4: Storing rules...');
     const storeStartTime = Date.now();
-    await firestoreService.storeRules(allGeneratedRules);
+    await repository.storeRules(allGeneratedRules);
     const storeTime = Date.now() - storeStartTime;
     
     console.log(`✅ Stored rules in ${storeTime}ms\n`);
     
     // Step 5: Test retrieval
     console.log('🔍 Step 5: Testing rule retrieval...');
-    const retrievedRules = await firestoreService.getRules(10);
-    console.log(`✅ Retrieved ${retrievedRules.length} rules from Firestore\n`);
+    const retrievedRules = await repository.getRules(10);
+    console.log(`✅ Retrieved ${retrievedRules.length} rules from storage\n`);
     
     // Step 6: Create test business profile
     console.log('🏢 Step 6: Creating test business profile...');
@@ -96,25 +101,25 @@ async function runEndToEndTest() {
       last_analysis: new Date().toISOString()
     };
     
-    await firestoreService.storeBusinessProfile(testBusinessProfile);
+    await repository.storeBusinessProfile(testBusinessProfile);
     console.log(`✅ Created business profile: ${testBusinessProfile.business_name}\n`);
     
     // Step 7: Test business profile matching
     console.log('🎯 Step 7: Testing business profile matching...');
     const matchingStartTime = Date.now();
-    const matchingRules = await firestoreService.getMatchingRules(testBusinessProfile);
+    const matchingRules = await repository.getMatchingRules(testBusinessProfile);
     const matchingTime = Date.now() - matchingStartTime;
     
     console.log(`✅ Found ${matchingRules.length} matching rules in ${matchingTime}ms\n`);
     
     // Step 8: Test simple search
     console.log('🔍 Step 8: Testing simple search functionality...');
-    const searchRules = await firestoreService.searchRules('LLC', 'CA');
+    const searchRules = await repository.searchRules('LLC', 'CA');
     console.log(`✅ Search found ${searchRules.length} rules for LLC in CA\n`);
     
     // Step 9: Get collection statistics
     console.log('📊 Step 9: Getting collection statistics...');
-    const stats = await firestoreService.getCollectionStats();
+    const stats = await repository.getCollectionStats();
     console.log('✅ Collection statistics:');
     Object.entries(stats).forEach(([collection, count]) => {
       console.log(`   ${collection}: ${count} documents`);
@@ -160,14 +165,14 @@ async function runEndToEndTest() {
       console.log('No matching rules found - this might indicate:');
       console.log('- Search criteria need adjustment');
       console.log('- Generated rules don\'t match test business profile');
-      console.log('- Firestore indexes need time to build');
+      console.log('- The fixtures were recorded for a different prompt');
     }
     
     // Step 13: Performance analysis
     console.log('⚡ PERFORMANCE ANALYSIS:');
     console.log('========================');
     console.log(`AI Generation: ${generationTime}ms (${Math.round(generationTime/allGeneratedRules.length)}ms per rule)`);
-    console.log(`Firestore Storage: ${storeTime}ms`);
+    console.log(`Storage: ${storeTime}ms`);
     console.log(`Business Matching: ${matchingTime}ms`);
     console.log(`Total End-to-End: ${generationTime + storeTime + matchingTime}ms`);
     console.log('');
@@ -180,8 +185,8 @@ async function runEndToEndTest() {
       rulesGenerated: allGeneratedRules.length === 10,
       rulesStored: retrievedRules.length === allGeneratedRules.length,
       businessProfileStored: true,
-      matchingWorking: matchingRules.length >= 0,
-      searchWorking: searchRules.length >= 0,
+      matchingWorking: matchingRules.length > 0,
+      searchWorking: searchRules.length > 0,
       performanceGood: (generationTime + storeTime) < 60000 // Under 1 minute
     };
     
@@ -222,11 +227,9 @@ async function runEndToEndTest() {
     }
     
     console.log('\n🔧 TROUBLESHOOTING TIPS:');
-    console.log('1. Check Firebase credentials in .env file');
-    console.log('2. Verify OpenAI API key and credits');
-    console.log('3. Ensure Firestore is enabled in Firebase Console');
-    console.log('4. Check internet connection');
-    console.log('5. Verify all dependencies are installed');
+    console.log(`1. "No LLM fixture for prompt" means a prompt changed: re-record ${FIXTURES_DIR}`);
+    console.log('   with LLM_FIXTURE_MODE=record and an OPENAI_API_KEY');
+    console.log('2. Verify all dependencies are installed');
     
     return {
       success: false,
@@ -0,0 +1,168 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { EventStream } from './services/EventStream';
+import { MemoryCacheStore } from './services/CacheStore';
+import { ResultCache } from './services/ResultCache';
+import { RateLimiter } from './services/RateLimiter';
+import { RealTimeComplianceSearch } from './services/RealTimeComplianceSearch';
+import { SemanticRuleRanker } from './services/SemanticRuleRanker';
+import { HashingEmbeddingProvider } from './services/EmbeddingProvider';
+import { LlmClient, LlmCompletionOptions, LlmMessage } from './types/LlmClient';
+
+// Server-Sent Events framing, disconnects and the streamed search's event order (offline)
+
+// Event data fields the checks read
+type StreamedEvent = { event: string, data: { step?: string, text?: string, rules?: unknown[], results?: unknown[] } };
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Serve each request with the handler and return the server's URL
+async function serve(handler: (req: http.IncomingMessage, res: http.ServerResponse) => void): Promise<{ url: string, server: http.Server }> {
+  const server = http.createServer(handler);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, server };
+}
+
+// Collect the raw body until the server ends it, or until `stopWhen` says to disconnect
+function read(url: string, stopWhen: (body: string) => boolean = () => false): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const req = http.get(url, res => {
+      let body = '';
+      res.setEncoding('utf8');
+      res.on('data', chunk => {
+        body += chunk;
+        if (stopWhen(body)) {
+          req.destroy();
+          resolve(body);
+        }
+      });
+      res.on('end', () => resolve(body));
+    });
+    req.on('error', reject);
+  });
+}
+
+// Named events in the order they were framed; comment lines are skipped
+function parse(body: string): StreamedEvent[] {
+  return body.split('\n\n').filter(block => block.startsWith('event: ')).map(block => {
+    const [eventLine = '', dataLine = ''] = block.split('\n');
+    return { event: eventLine.slice('event: '.length), data: JSON.parse(dataLine.slice('data: '.length)) };
+  });
+}
+
+// Replies to every batch with an empty categorization, or waits for the request to be aborted
+function fakeLlm(hang = false): LlmClient & { aborted: boolean } {
+  const llm = {
+    provider: 'fixture' as const,
+    model: 'fake',
+    aborted: false,
+    isAvailable: () => true,
+    complete: (_messages: LlmMessage[], options: LlmCompletionOptions = {}) => hang
+      ? new Promise<never>((_, reject) => options.signal?.addEventListener('abort', () => {
+        llm.aborted = true;
+        reject(options.signal?.reason);
+      }))
+      : Promise.resolve({ content: '[]', model: 'fake', provider: 'fixture' as const, prompt_hash: 'fake' })
+  };
+  return llm;
+}
+
+// Real-time search with no network: no Regulations.gov key, SBA unreachable (so its fallback rules are used)
+function offlineSearch(llm: LlmClient): RealTimeComplianceSearch {
+  const search = new RealTimeComplianceSearch(undefined, null, undefined, llm,
+    new SemanticRuleRanker(null, new HashingEmbeddingProvider()),
+    new ResultCache(new MemoryCacheStore(), { search: 60000, regulations: 60000 }));
+  search.http = new RateLimiter({ filePath: '' }, { request: async () => { throw new Error('offline'); } });
+  return search;
+}
+
+async function testEventStream() {
+  console.log('📡 Testing Event Stream');
+  console.log('=======================\n');
+
+  let failures = 0;
+  const check = (label: string, condition: boolean) => {
+    console.log(`${condition ? '✅' : '❌'} ${label}`);
+    if (!condition) failures++;
+  };
+
+  // Framing
+  const framing = await serve(async (_req, res) => {
+    const stream = new EventStream(res, { heartbeatMs: 10 });
+    stream.send('progress', { step: 'starting', percentage: 5 });
+    await sleep(35);
+    stream.send('result', { ok: true, text: 'line one\nline two' });
+    stream.end();
+  });
+  const framed = await read(framing.url);
+  framing.server.close();
+  check('streams open with a comment', framed.startsWith(': connected\n\n'));
+  check('idle streams get heartbeat comments', framed.includes(': heartbeat\n\n'));
+  check('each event is framed as event and JSON data lines', framed.includes('event: progress\ndata: {"step":"starting","percentage":5}\n\n'));
+  const framedEvents = parse(framed);
+  check('newlines in payloads stay inside one data line', framedEvents.length === 2 && framedEvents[1]?.data.text === 'line one\nline two');
+
+  // Search progress, rules batches, then the result
+  const sequence = await serve(async (_req, res) => {
+    const stream = new EventStream(res);
+    const result = await offlineSearch(fakeLlm()).search('sales tax permit', 'retail', null,
+      progress => stream.sendSearchProgress(progress), stream.signal);
+    stream.send('result', { results: result.results });
+    stream.end();
+  });
+  const events = parse(await read(sequence.url));
+  sequence.server.close();
+  const order = events.map(event => event.event);
+  const firstRules = order.indexOf('rules');
+  check('search phases stream as progress events', order[0] === 'progress' && events[0]?.data.step === 'initializing' &&
+    events.some(event => event.event === 'progress' && event.data.step === 'source_complete'));
+  check('processed batches stream as rules events before the result', firstRules > 0 && order[firstRules - 1] === 'progress' &&
+    events[firstRules - 1]?.data.step === 'ai_batch_processing' && (events[firstRules]!.data.rules?.length ?? 0) > 0);
+  check('progress events carry no rules', events.filter(event => event.event === 'progress').every(event => event.data.rules === undefined));
+  check('the result comes last', order[order.length - 1] === 'result' && order.indexOf('result') === order.length - 1 &&
+    (events[order.length - 1]!.data.results?.length ?? 0) > 0);
+
+  // Disconnects
+  const llm = fakeLlm(true);
+  const outcome = { closed: false, aborted: false, sent: true, error: null as unknown };
+  let markSettled = () => {};
+  const settled = new Promise<void>(resolve => { markSettled = resolve; });
+  const disconnecting = await serve(async (_req, res) => {
+    const stream = new EventStream(res);
+    try {
+      await offlineSearch(llm).search('sales tax permit', 'retail', null, progress => stream.sendSearchProgress(progress), stream.signal);
+    } catch (error) {
+      outcome.error = error;
+    }
+    Object.assign(outcome, { closed: stream.closed, aborted: stream.signal.aborted, sent: stream.send('result', {}) });
+    stream.end();
+    markSettled();
+  });
+  await read(disconnecting.url, body => body.includes('"step":"ai_batch_processing"'));
+  await settled;
+  disconnecting.server.close();
+  check('a disconnect closes the stream and aborts its signal', outcome.closed && outcome.aborted);
+  check('the aborted signal cancels the search in flight', llm.aborted && outcome.error instanceof Error && outcome.error.message === 'Client disconnected');
+  check('sends after a disconnect are dropped', !outcome.sent);
+
+  const ended = await serve((_req, res) => {
+    const stream = new EventStream(res);
+    stream.end();
+    res.on('close', () => check('ending the stream does not abort its signal', !stream.signal.aborted));
+  });
+  await read(ended.url);
+  await sleep(10);
+  ended.server.close();
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\n🎉 Event stream test passed!');
+}
+
+// Run the test
+testEventStream().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,156 @@
+import { ICalendarExporter } from './services/ICalendarExporter';
+import { BusinessProfile, ComplianceRule, ComplianceStep } from './types/ComplianceRule';
+
+// iCalendar feed rendering (offline, fixed dates)
+
+function makeStep(stepNumber: number, description: string, deadline: string, deadlineType: ComplianceStep['deadline_type'] = 'relative'): ComplianceStep {
+  return {
+    step_number: stepNumber,
+    step_description: description,
+    deadline,
+    deadline_type: deadlineType,
+    required_forms: [],
+    required_documents: [],
+    estimated_cost: 0,
+    estimated_time: '1 hour',
+    depends_on_steps: [],
+    can_be_done_parallel: true,
+    priority: 'medium',
+    verification_method: '',
+    completion_proof: []
+  };
+}
+
+function makeRule(id: string, title: string, deadlines: ComplianceRule['deadlines'], steps: ComplianceStep[] = [], sourceUrl = ''): ComplianceRule {
+  return {
+    id,
+    canonical_id: id,
+    title,
+    description: 'Fixture rule',
+    authority: 'Test Authority',
+    level: 'state',
+    jurisdiction: 'CA',
+    priority: 'critical',
+    status: 'active',
+    applicability_criteria: {
+      business_types: [], employee_count: { min: 0, max: 999999 },
+      annual_revenue: { min: 0, max: 999999999, currency: 'USD' },
+      industries: [], industry_groups: [], states: ['CA'], cities: [], counties: [],
+      special_conditions: [], exclusions: {}
+    },
+    compliance_steps: steps,
+    estimated_cost: { filing_fees: 20, ongoing_costs: 0, penalty_range: { min: 0, max: 0 } },
+    deadlines,
+    sources: sourceUrl ? [{
+      source_id: `${id}-source`, source_type: 'website', source_name: 'Fixture', source_url: sourceUrl,
+      reliability_score: 10, last_updated: '2024-01-01T00:00:00.000Z', verification_status: 'verified', content_hash: ''
+    }] : [],
+    tags: [], related_rules: [], conflicts_with: [],
+    version: 1,
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-05-01T08:30:00.000Z',
+    last_verified: '2024-01-01T00:00:00.000Z',
+    search_keywords: []
+  };
+}
+
+// Unfolds continuation lines and splits the feed into VEVENT blocks
+function parseEvents(feed: string): string[][] {
+  const lines = feed.replace(/\r\n /g, '').split('\r\n');
+  const events: string[][] = [];
+  let current: string[] | null = null;
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') current = [];
+    else if (line === 'END:VEVENT' && current) { events.push(current); current = null; }
+    else if (current) current.push(line);
+  }
+  return events;
+}
+
+async function testICalendarExport() {
+  console.log('📆 Testing iCalendar Export');
+  console.log('===========================\n');
+
+  let failures = 0;
+  const check = (label: string, condition: boolean) => {
+    console.log(`${condition ? '✅' : '❌'} ${label}`);
+    if (!condition) failures++;
+  };
+
+  const profile = {
+    session_id: 'session_ics',
+    business_name: 'Bay Bakery, LLC',
+    formation_date: '2024-03-10',
+    hire_dates: ['2024-04-01'],
+    has_employees: true
+  } as BusinessProfile;
+
+  const rules = [
+    makeRule('statement-of-info', 'Statement of Information', {
+      initial_deadline: 'Within 90 days of formation', recurring_deadline: 'Every two years', grace_period: 15
+    }, [], 'https://bizfileonline.sos.ca.gov/'),
+    makeRule('payroll', 'Payroll Tax Deposits', { initial_deadline: 'Ongoing' }, [
+      makeStep(1, 'Deposit withholding', 'Monthly by the 15th', 'recurring'),
+      makeStep(2, 'File quarterly return', 'Quarterly', 'recurring'),
+      makeStep(3, 'Report new hire', 'Within 20 days of hire')
+    ]),
+    makeRule('year-end', 'Year-end; Filing, Report', { initial_deadline: '', recurring_deadline: 'Annually by December 31' })
+  ];
+
+  const exporter = new ICalendarExporter();
+  const now = new Date('2025-06-01T12:00:00.000Z');
+  const feed = exporter.buildFeed(profile, rules, { now, feedUrl: 'https://example.test/api/business-profiles/session_ics/calendar.ics' });
+  const events = parseEvents(feed);
+  const find = (uid: string) => events.find(event => event.includes(`UID:${uid}@compliance.clawse`)) || [];
+
+  check('calendar envelope', feed.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n') && feed.endsWith('END:VCALENDAR\r\n') &&
+    feed.includes('METHOD:PUBLISH') && feed.includes('X-WR-CALNAME:Bay Bakery\\, LLC compliance deadlines'));
+  check('CRLF line endings only', !/[^\r]\n/.test(feed));
+  check('lines folded at 75 octets', feed.split('\r\n').every(line => Buffer.byteLength(line) <= 75));
+
+  const initial = find('statement-of-info-initial-20240608');
+  check('one-off deadline is a single all-day event', initial.includes('DTSTART;VALUE=DATE:20240608') &&
+    initial.includes('DTEND;VALUE=DATE:20240609') && !initial.some(line => line.startsWith('RRULE')));
+  check('DTSTAMP from rule updated_at', initial.includes('DTSTAMP:20240501T083000Z'));
+  check('source link on event', initial.includes('URL:https://bizfileonline.sos.ca.gov/'));
+  check('critical rule has top priority', initial.includes('PRIORITY:1'));
+
+  const biennial = find('statement-of-info-recurring');
+  check('biennial recurrence on formation anniversary', biennial.includes('DTSTART;VALUE=DATE:20260310') &&
+    biennial.includes('RRULE:FREQ=YEARLY;INTERVAL=2;BYMONTH=3;BYMONTHDAY=10'));
+  check('advance reminder alarm', biennial.includes('TRIGGER:-P7D') && biennial.includes('ACTION:DISPLAY'));
+  check('grace period alarm', biennial.includes('TRIGGER:P15D'));
+
+  const monthly = find('payroll-step_1');
+  check('monthly step recurrence', monthly.includes('DTSTART;VALUE=DATE:20240315') && monthly.includes('RRULE:FREQ=MONTHLY;INTERVAL=1;BYMONTHDAY=15'));
+  check('no grace alarm without a grace period', !monthly.includes('TRIGGER:P15D') && monthly.filter(line => line === 'BEGIN:VALARM').length === 1);
+
+  const quarterly = events.filter(event => event.some(line => line.startsWith('UID:payroll-step_2-')));
+  check('quarterly dates split into yearly series', quarterly.length === 4 &&
+    find('payroll-step_2-0731').includes('RRULE:FREQ=YEARLY;INTERVAL=1;BYMONTH=7;BYMONTHDAY=-1'));
+  check('vague deadline flagged in description', find('payroll-step_2-0430').some(line => line.startsWith('DESCRIPTION:') && line.includes('estimated')));
+  check('per-hire deadline dated from hire', find('payroll-step_3-20240421').includes('DTSTART;VALUE=DATE:20240421'));
+  check('ongoing deadline left out', !events.some(event => event.some(line => line.startsWith('UID:payroll-initial'))));
+
+  const yearEnd = find('year-end-recurring-1231');
+  check('text escaped', yearEnd.includes('SUMMARY:Year-end\\; Filing\\, Report'));
+  check('month-end day uses BYMONTHDAY=-1', yearEnd.includes('RRULE:FREQ=YEARLY;INTERVAL=1;BYMONTH=12;BYMONTHDAY=-1'));
+
+  // The feed is stable between fetches so subscribed calendars don't churn
+  const later = exporter.buildFeed(profile, rules, { now: new Date('2025-09-01T00:00:00.000Z'), feedUrl: 'https://example.test/api/business-profiles/session_ics/calendar.ics' });
+  check('feed identical across fetches', later === feed);
+
+  check('day 30 clamps in short months', exporter.monthDayParts(30).join(';') === 'BYMONTHDAY=28,29,30;BYSETPOS=-1');
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log(`\n🎉 iCalendar export test passed! (${events.length} events)`);
+}
+
+// Run the test
+testICalendarExport().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,211 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileJobStore, SqliteJobStore, createJobStore } from './services/JobStore';
+import { JobQueue, createJobQueue, permanentError } from './services/JobQueue';
+import { Job, JobStore } from './types/Job';
+
+// Job persistence, retries with backoff, concurrency limits, cancellation, timeouts and restart recovery (offline)
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Poll until the job is finished (or the wait runs out)
+async function waitFor(queue: JobQueue, jobId: string, timeoutMs = 2000): Promise<Job | null> {
+  const deadline = Date.now() + timeoutMs;
+  let job = await queue.get(jobId);
+  while (job && !['succeeded', 'failed', 'cancelled'].includes(job.status) && Date.now() < deadline) {
+    await sleep(5);
+    job = await queue.get(jobId);
+  }
+  return job;
+}
+
+async function testJobQueue() {
+  console.log('🧵 Testing Job Queue');
+  console.log('====================\n');
+
+  let failures = 0;
+  const check = (label: string, condition: boolean) => {
+    console.log(`${condition ? '✅' : '❌'} ${label}`);
+    if (!condition) failures++;
+  };
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'clawse-jobs-'));
+
+  // Success, progress and results
+  const queue = new JobQueue(new FileJobStore(path.join(dir, 'jobs.json')), { concurrency: 2, retryBaseMs: 20 });
+  let seenProgress: string | undefined;
+  queue.register('analysis', async (payload, context) => {
+    context.progress({ step: 'searching', percentage: 50, message: 'Searching...' });
+    seenProgress = (await queue.get(context.job_id))?.progress?.step;
+    return { rules: payload.count };
+  });
+  await queue.start();
+
+  const analysis = await queue.enqueue('analysis', { count: 3 });
+  const analysisDone = await waitFor(queue, analysis.job_id);
+  check('jobs run and keep their result', analysisDone?.status === 'succeeded' && JSON.stringify(analysisDone.result) === '{"rules":3}' &&
+    analysisDone.attempts === 1 && !!analysisDone.finished_at);
+  check('running jobs report their progress', seenProgress === 'searching' && analysisDone?.progress?.percentage === 50);
+
+  let unknownRejected = false;
+  try { await queue.enqueue('scrape', {}); } catch { unknownRejected = true; }
+  check('unregistered job types are rejected', unknownRejected);
+
+  // Retries with exponential backoff
+  const attemptTimes: number[] = [];
+  queue.register('scrape', async () => {
+    attemptTimes.push(Date.now());
+    if (attemptTimes.length < 3) throw new Error(`Regulations.gov returned 503 (${attemptTimes.length})`);
+    return { totalStored: 5 };
+  }, { maxAttempts: 3 });
+  const scrape = await queue.enqueue('scrape', { targetRuleCount: 5 });
+  const scrapeDone = await waitFor(queue, scrape.job_id);
+  const [first = 0, second = 0, third = 0] = attemptTimes;
+  check('failed attempts are retried until one succeeds', scrapeDone?.status === 'succeeded' && scrapeDone.attempts === 3 &&
+    scrapeDone.errors.length === 2 && scrapeDone.errors[1]!.error.includes('(2)'));
+  check('retry delays double', second - first >= 15 && third - second >= 35);
+  check('backoff is capped', new JobQueue(new FileJobStore(path.join(dir, 'cap.json')), { retryBaseMs: 1000, retryMaxMs: 3000 }).backoff(5) === 3000);
+
+  queue.register('generate', async () => { throw new Error('model unavailable'); }, { maxAttempts: 2 });
+  const generate = await queue.enqueue('generate', {});
+  const generateDone = await waitFor(queue, generate.job_id);
+  check('jobs fail once out of attempts', generateDone?.status === 'failed' && generateDone.attempts === 2 &&
+    generateDone.error === 'model unavailable');
+
+  queue.register('reverify', async () => { throw permanentError('No rules to verify'); });
+  const permanent = await queue.enqueue('reverify', {});
+  const permanentDone = await waitFor(queue, permanent.job_id);
+  check('permanent errors are not retried', permanentDone?.status === 'failed' && permanentDone.attempts === 1);
+  await queue.close();
+
+  // Concurrency limits, overall and per type
+  const limited = new JobQueue(new FileJobStore(path.join(dir, 'limited.json')), { concurrency: 3 });
+  let active = 0;
+  let peak = 0;
+  let peakScrapes = 0;
+  let activeScrapes = 0;
+  const track = (isScrape: boolean) => async () => {
+    active++;
+    if (isScrape) activeScrapes++;
+    peak = Math.max(peak, active);
+    peakScrapes = Math.max(peakScrapes, activeScrapes);
+    await sleep(20);
+    active--;
+    if (isScrape) activeScrapes--;
+    return null;
+  };
+  limited.register('analysis', track(false));
+  limited.register('scrape', track(true), { concurrency: 1 });
+  await limited.start();
+  const limitedJobs = await Promise.all([
+    ...Array.from({ length: 4 }, () => limited.enqueue('analysis')),
+    ...Array.from({ length: 3 }, () => limited.enqueue('scrape'))
+  ]);
+  await Promise.all(limitedJobs.map(job => waitFor(limited, job.job_id)));
+  check('no more than the queue concurrency run at once', peak === 3);
+  check('per-type concurrency is respected', peakScrapes === 1);
+  const stats = await limited.getStats();
+  check('stats report limits per type', stats.backend === 'file' && stats.queued === 0 && stats.running === 0 &&
+    stats.by_type.scrape?.concurrency === 1 && stats.by_type.analysis?.concurrency === 3);
+  await limited.close();
+
+  // Cancellation and timeouts
+  const cancellable = new JobQueue(new FileJobStore(path.join(dir, 'cancel.json')), { concurrency: 1 });
+  let abortSeen = false;
+  cancellable.register('scrape', (_payload, context) => new Promise(resolve => {
+    context.signal.addEventListener('abort', () => { abortSeen = true; });
+    setTimeout(resolve, 1000);
+  }));
+  cancellable.register('analysis', () => sleep(1000), { timeoutMs: 30, maxAttempts: 1 });
+  await cancellable.start();
+  const long = await cancellable.enqueue('scrape');
+  const waiting = await cancellable.enqueue('scrape');
+  await sleep(20);
+  const cancelledQueued = await cancellable.cancel(waiting.job_id);
+  check('queued jobs can be cancelled', 'job' in cancelledQueued && cancelledQueued.job.status === 'cancelled');
+  const cancelledRunning = await cancellable.cancel(long.job_id);
+  check('running jobs are aborted when cancelled', 'job' in cancelledRunning && cancelledRunning.job.status === 'cancelled' && abortSeen);
+  check('cancelled jobs keep their slot until the handler returns', (await cancellable.getStats()).running === 1);
+  const again = await cancellable.cancel(long.job_id);
+  const missing = await cancellable.cancel('job_missing');
+  check('finished and unknown jobs cannot be cancelled', 'reason' in again && again.reason === 'conflict' &&
+    'reason' in missing && missing.reason === 'not_found');
+
+  const slow = await cancellable.enqueue('analysis');
+  const slowDone = await waitFor(cancellable, slow.job_id);
+  check('attempts that run past timeoutMs fail', slowDone?.status === 'failed' && slowDone.error === 'Timed out after 30ms');
+  await cancellable.close();
+
+  // A cancel that lands after the scheduler read the job still wins
+  const racing = new JobQueue(new FileJobStore(path.join(dir, 'race.json')));
+  let raced = false;
+  racing.register('scrape', async () => { raced = true; });
+  const stale = await racing.enqueue('scrape');
+  await racing.cancel(stale.job_id);
+  racing.execute(stale, racing.handlers.get('scrape')!);
+  await racing.running.get(stale.job_id)?.done;
+  check('jobs cancelled before they start never run', !raced && (await racing.get(stale.job_id))?.status === 'cancelled');
+  await racing.close();
+
+  // Durability: queued jobs survive a restart, interrupted jobs run again
+  const stores: Array<[string, () => JobStore]> = [['file', () => new FileJobStore(path.join(dir, 'durable.json'))]];
+  if (SqliteJobStore.isAvailable()) {
+    stores.push(['sqlite', () => new SqliteJobStore(path.join(dir, 'durable.sqlite'))]);
+  } else {
+    console.log('⏭️ better-sqlite3 not installed - skipping the sqlite store');
+  }
+
+  for (const [backend, open] of stores) {
+    const before = new JobQueue(open());
+    before.register('analysis', async () => 'done');
+    const queued = await before.enqueue('analysis', { n: 1 });
+    const store = open();
+    await store.save({ ...queued, job_id: 'job_interrupted', status: 'running', attempts: 1, started_at: queued.created_at });
+    await store.save({ ...queued, job_id: 'job_old', status: 'succeeded', finished_at: '2020-01-01T00:00:00.000Z' });
+    const skipped = await store.transition({ ...queued, status: 'cancelled' }, ['running']);
+    check(`${backend}: transitions from another status are skipped`, !skipped && (await store.get(queued.job_id))?.status === 'queued');
+    await store.close();
+    await before.close();
+
+    const after = new JobQueue(open(), { retryBaseMs: 1, retentionMs: 24 * 60 * 60 * 1000 });
+    after.register('analysis', async payload => `done ${payload.n}`);
+    await after.start();
+    const recovered = await waitFor(after, 'job_interrupted');
+    const resumed = await waitFor(after, queued.job_id);
+    check(`${backend}: queued jobs run after a restart`, resumed?.status === 'succeeded' && resumed.result === 'done 1');
+    check(`${backend}: interrupted jobs are retried`, recovered?.status === 'succeeded' && recovered.attempts === 2 &&
+      recovered.errors[0]?.error === 'Interrupted by a server restart');
+    check(`${backend}: expired finished jobs are removed`, await after.get('job_old') === null);
+    const listed = await after.list({ type: 'analysis', status: ['succeeded'], limit: 1 });
+    check(`${backend}: jobs are listed newest first`, listed.length === 1 && listed[0]!.job_id === 'job_interrupted');
+    await after.close();
+  }
+  check('file: saves replace jobs.json through a temp file', fs.readdirSync(dir).every(name => !name.endsWith('.tmp')) &&
+    Array.isArray(JSON.parse(fs.readFileSync(path.join(dir, 'durable.json'), 'utf8'))));
+
+  process.env.JOB_STORE = 'postgres';
+  let unknownStoreRejected = false;
+  try { createJobQueue(); } catch { unknownStoreRejected = true; }
+  check('unknown job stores are rejected', unknownStoreRejected);
+  delete process.env.JOB_STORE;
+  process.env.JOB_CONCURRENCY = '5';
+  const configured = createJobQueue({ filePath: path.join(dir, 'env.json') });
+  check('JOB_* settings configure the queue', configured.concurrency === 5 && configured.store.backend === 'file');
+  delete process.env.JOB_CONCURRENCY;
+  check('the file store is the default', createJobStore({ backend: 'file', filePath: path.join(dir, 'default.json') }).backend === 'file');
+
+  fs.rmSync(dir, { recursive: true, force: true });
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\n🎉 Job queue test passed!');
+}
+
+// Run the test
+testJobQueue().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,144 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { RateLimiter, getRateLimiterConfig, parseRetryAfter } from './services/RateLimiter';
+
+// Token buckets, hourly quotas, Retry-After handling and persisted usage (offline)
+
+type FakeResponse = { status: number, headers?: Record<string, string>, data?: unknown };
+
+// Fields the checks read from refused or failed requests
+type RequestError = Error & { code?: string, retryAfterMs?: number, response?: { status: number } };
+
+// Answers each request with the next scripted response (200 once the script runs out)
+class FakeHttpClient {
+  requests: Array<{ url: string, at: number }> = [];
+  constructor(private script: FakeResponse[] = []) {}
+
+  async request(config: AxiosRequestConfig): Promise<AxiosResponse> {
+    this.requests.push({ url: config.url || '', at: Date.now() });
+    const response = this.script.shift() || { status: 200 };
+    if (response.status >= 400) {
+      throw Object.assign(new Error(`Request failed with status code ${response.status}`), {
+        response: { status: response.status, headers: response.headers || {} }
+      });
+    }
+    return { status: response.status, headers: response.headers || {}, data: response.data ?? { ok: true } } as AxiosResponse;
+  }
+}
+
+async function testRateLimiter() {
+  console.log('🚦 Testing Rate Limiter');
+  console.log('=======================\n');
+
+  let failures = 0;
+  const check = (label: string, condition: boolean) => {
+    console.log(`${condition ? '✅' : '❌'} ${label}`);
+    if (!condition) failures++;
+  };
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'clawse-rate-'));
+  const filePath = path.join(dir, 'rate-limits.json');
+  const policies = { 'api.example.gov': { requestsPerSecond: 20, burst: 2, hourlyQuota: 5 } };
+
+  // Token bucket: the burst goes out at once, then one request per interval
+  const http = new FakeHttpClient();
+  const limiter = new RateLimiter({ filePath, policies }, http);
+  await Promise.all([1, 2, 3, 4].map(n => limiter.get(`https://api.example.gov/items/${n}`)));
+  const times = http.requests.map(request => request.at);
+  const [first = 0, second = 0, , fourth = 0] = times;
+  check('burst requests are sent at once', second - first < 20);
+  check('later requests wait for a token', fourth - first >= 90);
+
+  // Hourly quota
+  await limiter.get('https://api.example.gov/items/5');
+  let quotaError: RequestError | null = null;
+  try { await limiter.get('https://api.example.gov/items/6'); } catch (error) { quotaError = error as RequestError; }
+  check('requests past the hourly quota are refused', quotaError?.code === 'RATE_LIMITED' &&
+    (quotaError.retryAfterMs ?? 0) > 59 * 60 * 1000 && http.requests.length === 5);
+
+  const keyed = await limiter.get('https://api.example.gov/items/7', { headers: { 'X-Api-Key': 'second-key' } });
+  check('each API key has its own quota', keyed.status === 200);
+
+  const quotas = limiter.getQuotas();
+  const hostQuota = quotas.find(quota => quota.key === 'api.example.gov');
+  const keyQuota = quotas.find(quota => quota.key.startsWith('api.example.gov#'));
+  check('quotas report used and remaining requests', hostQuota?.used === 5 && hostQuota.remaining === 0 && hostQuota.limit === 5 &&
+    keyQuota?.used === 1 && keyQuota.remaining === 4 && !!hostQuota.resets_at);
+  check('usage writes are batched', !fs.existsSync(filePath));
+  limiter.flush();
+  check('API keys are never stored', !fs.readFileSync(filePath, 'utf8').includes('second-key'));
+  check('usage is saved through a temp file', fs.readdirSync(dir).every(name => !name.endsWith('.tmp')));
+
+  // Usage survives a restart
+  const restarted = new RateLimiter({ filePath, policies }, new FakeHttpClient());
+  let restartedError: RequestError | null = null;
+  try { await restarted.get('https://api.example.gov/items/8'); } catch (error) { restartedError = error as RequestError; }
+  check('hourly usage is kept across restarts', restartedError?.code === 'RATE_LIMITED' &&
+    restarted.getQuotas().find(quota => quota.key === 'api.example.gov')?.used === 5);
+
+  // Retry-After
+  check('Retry-After is read as seconds or an HTTP date', parseRetryAfter('2') === 2000 &&
+    Math.abs((parseRetryAfter(new Date(Date.now() + 3000).toUTCString()) || 0) - 3000) < 1100 && parseRetryAfter(undefined) === null);
+
+  const throttledHttp = new FakeHttpClient([{ status: 429, headers: { 'retry-after': '0.1' } }, { status: 200 }]);
+  const throttled = new RateLimiter({ filePath: path.join(dir, 'throttled.json') }, throttledHttp);
+  const startedAt = Date.now();
+  const retried = await throttled.get('https://www.sba.gov/business-guide');
+  const [, retryRequest] = throttledHttp.requests;
+  check('429 responses are retried after Retry-After', retried.status === 200 && throttledHttp.requests.length === 2 &&
+    (retryRequest?.at || 0) - startedAt >= 100);
+  check('throttled responses are counted', throttled.getQuotas()[0]?.throttled === 1);
+
+  const blockedHttp = new FakeHttpClient([{ status: 429, headers: { 'retry-after': '120' } }]);
+  const blocked = new RateLimiter({ filePath: path.join(dir, 'blocked.json'), maxWaitMs: 1000 }, blockedHttp);
+  let blockedError: RequestError | null = null;
+  try { await blocked.get('https://api.sba.gov/v1/content/search'); } catch (error) { blockedError = error as RequestError; }
+  let heldError: RequestError | null = null;
+  try { await blocked.get('https://api.sba.gov/v1/content/search'); } catch (error) { heldError = error as RequestError; }
+  check('a Retry-After longer than maxWaitMs fails the request', blockedError?.response?.status === 429 && blockedHttp.requests.length === 1);
+  check('the host stays blocked until Retry-After', heldError?.code === 'RATE_LIMITED' && blockedHttp.requests.length === 1);
+
+  const reloaded = new RateLimiter({ filePath: path.join(dir, 'blocked.json'), maxWaitMs: 1000 }, new FakeHttpClient());
+  check('blocks are kept across restarts', !!reloaded.getQuotas()[0]?.blocked_until);
+
+  const errorHttp = new FakeHttpClient([{ status: 500 }]);
+  let serverError: RequestError | null = null;
+  try { await new RateLimiter({}, errorHttp).get('https://api.sba.gov/v1/x'); } catch (error) { serverError = error as RequestError; }
+  check('other errors are not retried', serverError?.response?.status === 500 && errorHttp.requests.length === 1);
+
+  // Upstream counts
+  const syncHttp = new FakeHttpClient([{ status: 200, headers: { 'x-ratelimit-remaining': '990' } }]);
+  const synced = new RateLimiter({}, syncHttp);
+  await synced.get('https://api.regulations.gov/v4/documents', { headers: { 'X-Api-Key': 'key' } });
+  check('X-RateLimit-Remaining updates the usage', synced.getQuotas()[0]?.used === 10 && synced.getQuotas()[0]?.remaining === 990);
+
+  const localHttp = new FakeHttpClient();
+  const local = new RateLimiter({ defaultPolicy: { requestsPerSecond: 0.1, burst: 1 } }, localHttp);
+  await Promise.all([1, 2, 3].map(() => local.get('http://localhost:9/page')));
+  check('loopback hosts are not limited', localHttp.requests.length === 3 && local.getQuotas().length === 0);
+
+  process.env.RATE_LIMIT_REGULATIONS_PER_HOUR = '500';
+  process.env.RATE_LIMIT_FILE = '';
+  const config = getRateLimiterConfig();
+  check('RATE_LIMIT_* settings configure the limiter', config.policies['api.regulations.gov']?.hourlyQuota === 500 && config.filePath === '');
+  delete process.env.RATE_LIMIT_REGULATIONS_PER_HOUR;
+  delete process.env.RATE_LIMIT_FILE;
+
+  // Write pending usage before the directory goes
+  [limiter, throttled, blocked].forEach(pending => pending.flush());
+  fs.rmSync(dir, { recursive: true, force: true });
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\n🎉 Rate limiter test passed!');
+}
+
+// Run the test
+testRateLimiter().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
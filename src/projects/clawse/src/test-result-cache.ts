@@ -0,0 +1,178 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MemoryCacheStore, FileCacheStore, SqliteCacheStore, RedisCacheStore, createCacheStore } from './services/CacheStore';
+import { ResultCache, createResultCache } from './services/ResultCache';
+import { RealTimeComplianceSearch } from './services/RealTimeComplianceSearch';
+import { SemanticRuleRanker } from './services/SemanticRuleRanker';
+import { HashingEmbeddingProvider } from './services/EmbeddingProvider';
+import { CacheStore } from './types/Cache';
+
+// Cache backends, per-type TTLs, rule invalidation and hit/miss counters (offline)
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Just enough of the Redis command set for RedisCacheStore, kept in a Map
+class FakeRedisClient {
+  data = new Map<string, { value: string, expiresAt: number }>();
+
+  async get(key: string) {
+    const entry = this.data.get(key);
+    return entry && entry.expiresAt > Date.now() ? entry.value : null;
+  }
+
+  async set(key: string, value: string, _px: string, ttlMs: number) {
+    this.data.set(key, { value, expiresAt: Date.now() + ttlMs });
+    return 'OK';
+  }
+
+  async del(...keys: string[]) {
+    return keys.filter(key => this.data.delete(key)).length;
+  }
+
+  async scan(_cursor: string, _match: string, pattern: string) {
+    const prefix = pattern.slice(0, -1).replace(/\\(.)/g, '$1');
+    return ['0', Array.from(this.data.keys()).filter(key => key.startsWith(prefix) && this.data.get(key)!.expiresAt > Date.now())];
+  }
+
+  async quit() {
+    return 'OK';
+  }
+}
+
+async function testResultCache() {
+  console.log('🗄️ Testing Result Cache');
+  console.log('=======================\n');
+
+  let failures = 0;
+  const check = (label: string, condition: boolean) => {
+    console.log(`${condition ? '✅' : '❌'} ${label}`);
+    if (!condition) failures++;
+  };
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'clawse-cache-'));
+
+  // Memory LRU
+  const memory = new MemoryCacheStore({ maxEntries: 2 });
+  await memory.set('a', { n: 1 }, 60000);
+  await memory.set('b', { n: 2 }, 60000);
+  await memory.get('a');
+  await memory.set('c', { n: 3 }, 60000);
+  check('least recently used entry is evicted', await memory.get('b') === undefined && JSON.stringify(await memory.get('a')) === '{"n":1}' && await memory.size() === 2);
+  await memory.set('short', 'x', 20);
+  await sleep(40);
+  check('expired entries are misses', await memory.get('short') === undefined);
+
+  // Every backend behaves the same
+  const fileStore = new FileCacheStore({ filePath: path.join(dir, 'cache.json') });
+  const backends: CacheStore[] = [
+    fileStore,
+    new RedisCacheStore({ namespace: 'test' }, new FakeRedisClient())
+  ];
+  if (SqliteCacheStore.isAvailable()) {
+    backends.push(new SqliteCacheStore({ filePath: path.join(dir, 'cache.sqlite') }));
+  } else {
+    console.log('⏭️ better-sqlite3 not installed - skipping the sqlite backend');
+  }
+
+  for (const store of backends) {
+    await store.set('search:1', { results: [{ id: 'r1' }] }, 60000);
+    await store.set('search:2', { results: [] }, 60000);
+    await store.set('regulations:1', [{ id: 'doc' }], 60000);
+    await store.set('search:old', 'stale', 1);
+    await sleep(10);
+    const stored = await store.get('search:1');
+    const removed = await store.deleteByPrefix('search:');
+    check(`${store.backend}: round-trips JSON, deletes by prefix, skips expired entries`,
+      JSON.stringify(stored) === '{"results":[{"id":"r1"}]}' && removed >= 2 && await store.get('search:2') === undefined &&
+      JSON.stringify(await store.get('regulations:1')) === '[{"id":"doc"}]' && await store.size() === 1);
+  }
+
+  check('file writes are batched', !fs.existsSync(path.join(dir, 'cache.json')));
+  await fileStore.flush();
+  check('file writes leave no temporary files', fs.readdirSync(dir).filter(name => name.startsWith('cache.json')).join() === 'cache.json');
+  const reopened = new FileCacheStore({ filePath: path.join(dir, 'cache.json') });
+  check('file entries survive a restart', JSON.stringify(await reopened.get('regulations:1')) === '[{"id":"doc"}]');
+  if (SqliteCacheStore.isAvailable()) {
+    const shared = new SqliteCacheStore({ filePath: path.join(dir, 'cache.sqlite') });
+    check('sqlite entries are shared between instances', JSON.stringify(await shared.get('regulations:1')) === '[{"id":"doc"}]');
+    await shared.close();
+  }
+  await Promise.all(backends.map(store => store.close()));
+
+  process.env.CACHE_BACKEND = 'memcached';
+  let unknownRejected = false;
+  try { createCacheStore(); } catch { unknownRejected = true; }
+  check('unknown backends are rejected', unknownRejected);
+  delete process.env.CACHE_BACKEND;
+  check('memory is the default backend', createCacheStore().backend === 'memory');
+
+  // Typed entries
+  const cache = new ResultCache(new MemoryCacheStore(), { search: 60000, regulations: 20 });
+  await cache.set('search', 'q1', { results: ['a'] });
+  await cache.set('regulations', 'q1', ['doc']);
+  await sleep(40);
+  check('entry types have their own TTL', JSON.stringify(await cache.get('search', 'q1')) === '{"results":["a"]}' && await cache.get('regulations', 'q1') === undefined);
+
+  await cache.set('regulations', 'q2', ['doc']);
+  await cache.invalidateRules();
+  check('rule changes drop search results only', await cache.get('search', 'q1') === undefined && JSON.stringify(await cache.get('regulations', 'q2')) === '["doc"]');
+
+  const stats = await cache.getStats();
+  check('hits and misses are counted per type', stats.hits === 2 && stats.misses === 2 && stats.hit_rate === 50 &&
+    stats.by_type.search.hits === 1 && stats.by_type.search.misses === 1 && stats.by_type.search.invalidations === 1 &&
+    stats.by_type.regulations.ttl_ms === 20);
+  check('entries are counted in the backend', stats.entries === 1 && stats.backend === 'memory');
+
+  const broken = new ResultCache({
+    backend: 'redis',
+    get: async () => { throw new Error('ECONNREFUSED'); },
+    set: async () => { throw new Error('ECONNREFUSED'); },
+    delete: async () => {},
+    deleteByPrefix: async () => { throw new Error('ECONNREFUSED'); },
+    size: async () => { throw new Error('ECONNREFUSED'); },
+    close: async () => {}
+  }, { search: 1000, regulations: 1000 });
+  await broken.set('search', 'q', {});
+  const brokenStats = { value: await broken.get('search', 'q'), stats: await broken.getStats() };
+  check('backend failures are misses, not errors', brokenStats.value === undefined && brokenStats.stats.misses === 1 && brokenStats.stats.errors === 3);
+
+  process.env.CACHE_SEARCH_TTL_MS = '1234';
+  check('CACHE_*_TTL_MS sets the entry lifetime', (await createResultCache().getStats()).by_type.search.ttl_ms === 1234);
+  delete process.env.CACHE_SEARCH_TTL_MS;
+
+  // Real-time search
+  const searchCache = new ResultCache(new MemoryCacheStore(), { search: 60000, regulations: 60000 });
+  const search = new RealTimeComplianceSearch(undefined, null, undefined, undefined,
+    new SemanticRuleRanker(null, new HashingEmbeddingProvider()), searchCache);
+  const web = { industry_description: 'We build websites' };
+  const bakery = { industry_description: 'We bake bread' };
+  check('cache keys include the business description',
+    search.generateCacheKey('sales tax', 'retail', web) !== search.generateCacheKey('sales tax', 'retail', bakery) &&
+    search.generateCacheKey('Sales Tax ', 'retail', web) === search.generateCacheKey('sales tax', 'retail', web));
+
+  const key = search.generateCacheKey('sales tax', 'retail', web);
+  await search.setCachedResult(key, { results: [{ id: 'permit' }], source: 'hybrid' });
+  const cached = await search.search('sales tax', 'retail', web);
+  check('repeat searches are served from the cache', cached.cached === true && cached.results[0].id === 'permit');
+  await searchCache.invalidateRules();
+  check('rule changes clear cached searches', await search.getCachedResult(key) === null);
+
+  const searchStats = await search.getCacheStats();
+  check('getCacheStats reports real counters', searchStats.hits === 1 && searchStats.misses === 1 && searchStats.cacheHitRate === 50 &&
+    searchStats.totalCached === 0);
+
+  fs.rmSync(dir, { recursive: true, force: true });
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\n🎉 Result cache test passed!');
+}
+
+// Run the test
+testResultCache().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,135 @@
+import { RuleDeduplicator } from './services/RuleDeduplicator';
+import { InMemoryRepository } from './services/InMemoryRepository';
+import { ComplianceRule, ComplianceSource } from './types/ComplianceRule';
+
+// Near-duplicate clustering, master choice, source merging and the deduplication index (offline)
+
+function makeSource(id: string, type: ComplianceSource['source_type'], url: string, reliability: number): ComplianceSource {
+  return {
+    source_id: id, source_type: type, source_name: id, source_url: url,
+    reliability_score: reliability, last_updated: '2025-01-15', verification_status: 'pending', content_hash: ''
+  };
+}
+
+function makeRule(id: string, title: string, description: string, overrides: Partial<ComplianceRule> = {}): ComplianceRule {
+  return {
+    id,
+    canonical_id: `hash_${id}`,
+    title,
+    description,
+    authority: 'IRS',
+    level: 'federal',
+    jurisdiction: 'US',
+    priority: 'high',
+    status: 'active',
+    applicability_criteria: {
+      business_types: [], employee_count: { min: 1, max: 999999 },
+      annual_revenue: { min: 0, max: 999999999, currency: 'USD' },
+      industries: [], industry_groups: [], states: ['ALL'], cities: [], counties: [],
+      special_conditions: [], exclusions: {}
+    },
+    compliance_steps: [],
+    estimated_cost: { filing_fees: 0, ongoing_costs: 0, penalty_range: { min: 0, max: 0 } },
+    deadlines: { initial_deadline: 'Before hiring' },
+    sources: [makeSource('ai_generated', 'ai_generated', '', 5)],
+    tags: [], related_rules: [], conflicts_with: [],
+    version: 1,
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+    last_verified: '2024-01-01T00:00:00.000Z',
+    search_keywords: [],
+    ...overrides
+  };
+}
+
+async function testRuleDeduplication() {
+  console.log('🧬 Testing Rule Deduplication');
+  console.log('=============================\n');
+
+  let failures = 0;
+  const check = (label: string, condition: boolean) => {
+    console.log(`${condition ? '✅' : '❌'} ${label}`);
+    if (!condition) failures++;
+  };
+
+  const rules = [
+    makeRule('ein_ai', 'Obtain an Employer Identification Number (EIN)',
+      'Businesses with employees must obtain an Employer Identification Number from the IRS before hiring.',
+      { tags: ['tax'] }),
+    makeRule('ein_regs', 'Employer Identification Number (EIN) Registration',
+      'All businesses that have employees are required to obtain an EIN from the IRS prior to hiring employees.',
+      { sources: [makeSource('regulations_gov', 'api', 'https://www.regulations.gov/ein', 9)], tags: ['registration'], search_keywords: ['ss-4'] }),
+    makeRule('ein_sba', 'Get an Employer Identification Number',
+      'Businesses that hire employees need an Employer Identification Number (EIN) from the IRS.',
+      { sources: [makeSource('sba', 'website', 'https://www.sba.gov/ein', 7)], related_rules: ['ein_ai', 'form_941'] }),
+    makeRule('form_941', 'Form 941 Quarterly Payroll Tax Return',
+      'Employers must file Form 941 each quarter to report federal income tax withheld and payroll taxes.'),
+    makeRule('soi_ca', 'Statement of Information', 'File a Statement of Information with the Secretary of State every two years.',
+      { level: 'state', jurisdiction: 'CA', applicability_criteria: { ...makeRule('x', '', '').applicability_criteria, states: ['CA'] } }),
+    makeRule('soi_nv', 'Statement of Information', 'File a Statement of Information with the Secretary of State every two years.',
+      { level: 'state', jurisdiction: 'NV', applicability_criteria: { ...makeRule('x', '', '').applicability_criteria, states: ['NV'] } })
+  ];
+
+  // Similarity and clustering
+  const deduplicator = new RuleDeduplicator(null);
+  const [einAi, einRegs, , form941] = rules as [ComplianceRule, ComplianceRule, ComplianceRule, ComplianceRule];
+  check('rewordings of one obligation score high', deduplicator.similarity(einAi, einRegs) >= 0.45);
+  check('different obligations score low', deduplicator.similarity(einAi, form941) < 0.2);
+
+  const clusters = deduplicator.cluster(rules);
+  check('one cluster of the three EIN rules', clusters.length === 1 &&
+    clusters[0]?.duplicates.map(duplicate => duplicate.rule.id).sort().join() === 'ein_ai,ein_sba');
+  check('official, most reliable source is the master', clusters[0]?.master.id === 'ein_regs');
+  check('same text in different states is not a duplicate', !clusters.some(cluster => cluster.master.id.startsWith('soi')));
+  check('collapse keeps one rule per obligation', deduplicator.collapse(rules).map(rule => rule.id).join() === 'ein_regs,form_941,soi_ca,soi_nv');
+
+  // Stored rules
+  const repository = new InMemoryRepository();
+  await repository.storeRules(rules);
+  const storedDeduplicator = new RuleDeduplicator(repository);
+
+  const dryRun = await storedDeduplicator.deduplicate({ dryRun: true });
+  check('dry run reports without storing', dryRun.duplicates === 2 && (await repository.getRuleById('ein_ai'))?.status === 'active');
+
+  const report = await storedDeduplicator.deduplicate();
+  const master = await repository.getRuleById('ein_regs');
+  const duplicate = await repository.getRuleById('ein_ai');
+  check('report lists the cluster with similarities', report.clusters.length === 1 && report.clusters[0]?.sources_added === 2 &&
+    report.clusters[0].duplicates.every(member => member.similarity >= 0.45 && member.similarity < 1));
+  check('master gains sources, tags and keywords', master?.sources.map(source => source.source_id).join() === 'regulations_gov,sba,ai_generated' &&
+    master?.tags.join() === 'registration,tax' && master?.search_keywords.join() === 'ss-4' && master?.version === 2);
+  check('related rules drop cluster members', master?.related_rules.join() === 'form_941');
+  check('duplicates superseded by the master', duplicate?.status === 'superseded' && duplicate?.superseded_by === 'ein_regs' &&
+    (await repository.getRuleById('ein_sba'))?.superseded_by === 'ein_regs');
+
+  const entry = await repository.getDeduplication('hash_ein_ai');
+  const scores = new Map(entry?.source_rules.map(source => [source.rule_id, source.confidence_score]));
+  check('index entry points at the master', entry?.master_rule_id === 'ein_regs' && entry?.method === 'similarity');
+  check('index holds real confidence scores', scores.get('ein_regs') === 1 &&
+    scores.get('ein_ai') === report.clusters[0]?.duplicates.find(member => member.rule_id === 'ein_ai')?.similarity &&
+    (scores.get('ein_ai') ?? 1) < 1);
+  check('every canonical id in the cluster is indexed', (await repository.getDeduplication('hash_ein_sba'))?.master_rule_id === 'ein_regs');
+
+  // Storing again keeps the master and the scores
+  await repository.storeRules([{ ...duplicate!, description: `${duplicate!.description} Apply online.` }]);
+  const afterStore = await repository.getDeduplication('hash_ein_ai');
+  check('later stores keep master and scores', afterStore?.master_rule_id === 'ein_regs' &&
+    afterStore?.source_rules.filter(source => source.rule_id === 'ein_ai').length === 1 &&
+    afterStore?.source_rules.find(source => source.rule_id === 'ein_ai')?.confidence_score === scores.get('ein_ai'));
+  check('new rules index at confidence 1.0', (await repository.getDeduplication('hash_form_941'))?.source_rules[0]?.confidence_score === 1);
+
+  const rerun = await storedDeduplicator.deduplicate();
+  check('re-running finds nothing new', rerun.duplicates === 0 && rerun.rules_scanned === 4);
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\n🎉 Rule deduplication test passed!');
+}
+
+// Run the test
+testRuleDeduplication().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
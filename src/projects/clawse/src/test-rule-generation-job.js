@@ -0,0 +1,105 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { JobQueue } = require('./services/JobQueue');
+const { FileJobStore } = require('./services/JobStore');
+const { InMemoryRepository } = require('./services/InMemoryRepository');
+const { createLlmClient } = require('./services/LlmClient');
+const { createRuleGenerationHandler } = require('./services/RuleGenerationJob');
+
+// The `generate` job end to end against recorded LLM fixtures (offline).
+// Plain JS run with `node`, like server.js in production, so it fails if the
+// job depends on anything that needs a TypeScript build or ts-node.
+
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures', 'end-to-end');
+
+/** @param {number} ms */
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Poll until the job is finished (or the wait runs out)
+ * @param {JobQueue} queue
+ * @param {string} jobId
+ */
+async function waitFor(queue, jobId, timeoutMs = 5000) {
+  const deadline = Date.now() + timeoutMs;
+  let job = await queue.get(jobId);
+  while (job && !['succeeded', 'failed', 'cancelled'].includes(job.status) && Date.now() < deadline) {
+    await sleep(5);
+    job = await queue.get(jobId);
+  }
+  return job;
+}
+
+async function testRuleGenerationJob() {
+  console.log('🏭 Testing Rule Generation Job');
+  console.log('==============================\n');
+
+  let failures = 0;
+  /**
+   * @param {string} label
+   * @param {boolean} condition
+   */
+  const check = (label, condition) => {
+    console.log(`${condition ? '✅' : '❌'} ${label}`);
+    if (!condition) failures++;
+  };
+
+  check('runs without a TypeScript loader', !('.ts' in require.extensions));
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'clawse-generate-'));
+  const repository = new InMemoryRepository();
+  let rulesChanged = 0;
+  const queue = new JobQueue(new FileJobStore(path.join(dir, 'jobs.json')), { retryBaseMs: 10 });
+  queue.register('generate', createRuleGenerationHandler({
+    llm: createLlmClient({ provider: 'fixture', fixturesDir: FIXTURES_DIR }),
+    repository,
+    onRulesChanged: async () => { rulesChanged++; }
+  }), { concurrency: 1, maxAttempts: 1 });
+  await queue.start();
+
+  // Federal rules from the recorded response
+  const federal = await waitFor(queue, (await queue.enqueue('generate', { count: 10 })).job_id);
+  const ruleIds = federal?.result?.rule_ids || [];
+  const stored = await Promise.all(ruleIds.map(ruleId => repository.getRuleById(ruleId)));
+  check('federal generation succeeds', federal?.status === 'succeeded' && federal.result.generated > 0 &&
+    federal.result.generated === ruleIds.length);
+  check('generated rules are stored as pending review', stored.length > 0 &&
+    stored.every(rule => rule?.level === 'federal' && rule.review?.status === 'pending'));
+  check('the search index is refreshed once', rulesChanged === 1);
+  check('the result carries the validation report and telemetry', federal?.result?.report?.total === 10 &&
+    federal.result.telemetry?.status === 'ok' && federal.result.telemetry.provider === 'fixture');
+  check('progress ends at storing', federal?.progress?.step === 'storing_rules');
+
+  // A prompt with no recorded response
+  const missing = await waitFor(queue, (await queue.enqueue('generate', { count: 5, state: 'WY' })).job_id);
+  check('model errors fail the job', missing?.status === 'failed' && !!missing.error?.includes('No LLM fixture'));
+  check('failed jobs store nothing', rulesChanged === 1 && (await repository.getRecentRules(50)).length === ruleIds.length);
+  await queue.close();
+
+  // No configured model
+  const offline = new JobQueue(new FileJobStore(path.join(dir, 'offline.json')), { retryBaseMs: 10 });
+  offline.register('generate', createRuleGenerationHandler({
+    llm: createLlmClient({ provider: 'openai', apiKey: '' }),
+    repository
+  }), { maxAttempts: 3 });
+  await offline.start();
+  const unconfigured = await waitFor(offline, (await offline.enqueue('generate', {})).job_id);
+  check('an unconfigured model fails without retries', unconfigured?.status === 'failed' && unconfigured.attempts === 1 &&
+    !!unconfigured.error?.includes('not configured'));
+  await offline.close();
+
+  fs.rmSync(dir, { recursive: true, force: true });
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\n🎉 Rule generation job test passed!');
+}
+
+// Run the test
+testRuleGenerationJob().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
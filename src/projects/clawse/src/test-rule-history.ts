@@ -0,0 +1,141 @@
+import { RuleHistory } from './services/RuleHistory';
+import { InMemoryRepository } from './services/InMemoryRepository';
+import { ComplianceRule } from './types/ComplianceRule';
+import { RuleRevision } from './types/RuleRevision';
+
+// Rule versioning: field diffs, revisions, timelines and point-in-time lookups (offline)
+
+function makeRule(overrides: Partial<ComplianceRule> = {}): ComplianceRule {
+  return {
+    id: 'ca_sellers_permit',
+    canonical_id: 'ca_sellers_permit',
+    title: "Seller's Permit",
+    description: 'Retailers selling taxable goods in California need a seller\'s permit.',
+    authority: 'California Department of Tax and Fee Administration',
+    level: 'state',
+    jurisdiction: 'CA',
+    priority: 'high',
+    status: 'active',
+    applicability_criteria: {
+      business_types: [], employee_count: { min: 0, max: 999999 },
+      annual_revenue: { min: 0, max: 999999999, currency: 'USD' },
+      industries: ['Retail'], industry_groups: ['retail'], states: ['CA'], cities: [], counties: [],
+      special_conditions: [], exclusions: {}
+    },
+    compliance_steps: [],
+    estimated_cost: { filing_fees: 0, ongoing_costs: 0, penalty_range: { min: 0, max: 500 } },
+    deadlines: { initial_deadline: 'Before the first sale' },
+    sources: [],
+    tags: [], related_rules: [], conflicts_with: [],
+    version: 1,
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+    last_verified: '2024-01-01T00:00:00.000Z',
+    search_keywords: [],
+    ...overrides
+  };
+}
+
+async function testRuleHistory() {
+  console.log('📜 Testing Rule History');
+  console.log('=======================\n');
+
+  let failures = 0;
+  const check = (label: string, condition: boolean) => {
+    console.log(`${condition ? '✅' : '❌'} ${label}`);
+    if (!condition) failures++;
+  };
+
+  const history = new RuleHistory();
+  const original = makeRule();
+
+  // diff
+  check('identical rules have no changes', history.diff(original, makeRule()).length === 0);
+  const bookkeeping = history.diff(original, makeRule({
+    id: 'other', version: 7, created_at: '2025-01-01T00:00:00.000Z', updated_at: '2025-01-01T00:00:00.000Z',
+    last_verified: '2025-06-01T00:00:00.000Z', search_vector: 'sellers permit sales tax'
+  }));
+  check('bookkeeping fields are ignored', bookkeeping.length === 0);
+
+  const nested = history.diff(original, makeRule({
+    applicability_criteria: { ...original.applicability_criteria, employee_count: { min: 1, max: 999999 }, cities: ['Oakland'] }
+  }));
+  check('nested objects are diffed by dotted path', nested.length === 2 &&
+    nested[0]?.path === 'applicability_criteria.cities' && nested[0].change === 'modified' &&
+    nested[1]?.path === 'applicability_criteria.employee_count.min' && nested[1].before === 0 && nested[1].after === 1);
+  check('arrays are compared as whole values', JSON.stringify(nested[0]?.before) === '[]' && JSON.stringify(nested[0]?.after) === '["Oakland"]');
+
+  const { superseded_by: _unused, ...withoutOptional } = makeRule({ superseded_by: 'ca_sellers_permit_2025' });
+  const added = history.diff(original, makeRule({ superseded_by: 'ca_sellers_permit_2025' }));
+  const removed = history.diff(makeRule({ superseded_by: 'ca_sellers_permit_2025' }), withoutOptional);
+  check('added and removed fields are reported', added.length === 1 && added[0]?.change === 'added' && added[0].after === 'ca_sellers_permit_2025' &&
+    removed.length === 1 && removed[0]?.change === 'removed' && removed[0].before === 'ca_sellers_permit_2025');
+
+  const ignoredOnlyAtTop = history.diff({ meta: { id: 'a' } }, { meta: { id: 'b' } });
+  check('ignored names only apply to top-level fields', ignoredOnlyAtTop.length === 1 && ignoredOnlyAtTop[0]?.path === 'meta.id');
+
+  // prepare
+  const created = history.prepare(null, { ...original, version: 0 }, '2024-01-01T00:00:00.000Z');
+  check('new rules start at version 1 with a created revision', created.rule.version === 1 && created.revision?.change_type === 'created' &&
+    created.revision.previous_version === null && created.revision.changes.length === 0);
+
+  const touched = history.prepare(created.rule, { ...original, last_verified: '2024-02-01T00:00:00.000Z' }, '2024-02-01T00:00:00.000Z');
+  check('bookkeeping-only writes add no revision', touched.revision === null && touched.rule.version === 1 &&
+    touched.rule.updated_at === '2024-01-01T00:00:00.000Z');
+
+  const updated = history.prepare(created.rule, { ...original, priority: 'critical' }, '2024-03-01T00:00:00.000Z');
+  check('content changes bump the version', updated.rule.version === 2 && updated.revision?.previous_version === 1 &&
+    updated.revision.change_type === 'updated' && updated.revision.changes[0]?.path === 'priority' &&
+    updated.rule.created_at === '2024-01-01T00:00:00.000Z' && updated.rule.updated_at === '2024-03-01T00:00:00.000Z');
+
+  const deprecated = history.prepare(updated.rule, { ...updated.rule, status: 'deprecated' }, '2024-06-01T00:00:00.000Z');
+  check('status changes are typed', deprecated.revision?.change_type === 'deprecated' && deprecated.rule.version === 3);
+  check('revisions snapshot the stored rule', deprecated.revision?.snapshot.status === 'deprecated' && deprecated.revision.snapshot.version === 3);
+  check('revision ids sort by version', history.revisionId(3) === 'v000003' && history.revisionId(12) > history.revisionId(3));
+
+  check('recorded rules get no baseline', updated.baseline === null && created.baseline === null);
+
+  // Rules stored before revisions were recorded
+  const legacy = makeRule({ updated_at: '2023-06-01T00:00:00.000Z', created_at: '2023-01-01T00:00:00.000Z' });
+  const firstEdit = history.prepare(legacy, { ...legacy, priority: 'critical' }, '2024-03-01T00:00:00.000Z', false);
+  check('unrecorded rules get a baseline of the stored version', firstEdit.baseline?.version === 1 && firstEdit.baseline.previous_version === null &&
+    firstEdit.baseline.snapshot.priority === 'high' && firstEdit.baseline.recorded_at === '2023-06-01T00:00:00.000Z');
+  check('the edit follows the baseline', firstEdit.revision?.version === 2 && firstEdit.revision.previous_version === 1);
+  const legacyTouch = history.prepare(legacy, { ...legacy, last_verified: '2024-02-01T00:00:00.000Z' }, '2024-02-01T00:00:00.000Z', false);
+  check('bookkeeping writes still record the baseline', legacyTouch.revision === null && legacyTouch.baseline?.version === 1);
+
+  const repository = new InMemoryRepository();
+  repository.collections['compliance_rules']!.set(legacy.id, legacy);
+  await repository.storeRules([{ ...legacy, priority: 'critical' }]);
+  await repository.storeRules([{ ...legacy, priority: 'low' }]);
+  const legacyHistory = await repository.getRuleHistory(legacy.id);
+  check('repositories write the baseline once', legacyHistory.map(revision => revision.version).join() === '1,2,3');
+  check('as_of before the first edit finds the baseline', history.revisionAt(legacyHistory, '2024-01-01')?.snapshot.priority === 'high');
+
+  // timeline and revisionAt
+  const revisions = [deprecated.revision, created.revision, updated.revision].filter((revision): revision is RuleRevision => revision !== null);
+  const timeline = history.timeline(original.id, revisions);
+  check('timelines list revisions oldest first', timeline.current_version === 3 && timeline.revisions.map(revision => revision.version).join() === '1,2,3' &&
+    timeline.as_of === undefined);
+  check('empty histories have version 0', history.timeline('missing', []).current_version === 0);
+
+  const asOf = history.timeline(original.id, revisions, '2024-04-15T00:00:00.000Z');
+  check('as_of gives the revision in effect on the date', asOf.as_of?.date === '2024-04-15T00:00:00.000Z' && asOf.as_of.revision?.version === 2);
+  check('revisionAt includes revisions recorded on the date', history.revisionAt(revisions, '2024-03-01T00:00:00.000Z')?.version === 2);
+  check('revisionAt is null before the first revision', history.revisionAt(revisions, '2023-12-31') === null);
+  let invalidRejected = false;
+  try { history.revisionAt(revisions, 'not a date'); } catch { invalidRejected = true; }
+  check('invalid dates are rejected', invalidRejected);
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\n🎉 Rule history test passed!');
+}
+
+// Run the test
+testRuleHistory().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,248 @@
+import { RuleMatcher } from './services/RuleMatcher';
+import { BusinessProfile, ComplianceRule } from './types/ComplianceRule';
+import { RuleMatchResult } from './types/RuleMatch';
+
+// Deterministic rule matching: verdicts and per-criterion explanations (offline)
+
+type Criteria = ComplianceRule['applicability_criteria'];
+
+function makeRule(id: string, level: ComplianceRule['level'], criteria: Partial<Criteria> = {}, overrides: Partial<ComplianceRule> = {}): ComplianceRule {
+  return {
+    id,
+    canonical_id: id,
+    title: id,
+    description: `${id} rule.`,
+    authority: 'Test Authority',
+    level,
+    jurisdiction: 'US',
+    priority: 'medium',
+    status: 'active',
+    applicability_criteria: {
+      business_types: [], employee_count: { min: 0, max: 999999 },
+      annual_revenue: { min: 0, max: 999999999, currency: 'USD' },
+      industries: [], industry_groups: [], states: ['ALL'], cities: [], counties: [],
+      special_conditions: [], exclusions: {},
+      ...criteria
+    },
+    compliance_steps: [],
+    estimated_cost: { filing_fees: 0, ongoing_costs: 0, penalty_range: { min: 0, max: 0 } },
+    deadlines: { initial_deadline: 'Before opening' },
+    sources: [],
+    tags: [], related_rules: [], conflicts_with: [],
+    version: 1,
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+    last_verified: '2024-01-01T00:00:00.000Z',
+    search_keywords: [],
+    ...overrides
+  };
+}
+
+function makeProfile(overrides: Partial<BusinessProfile> = {}): BusinessProfile {
+  return {
+    session_id: 'matcher-test',
+    business_name: 'Sunset Tacos',
+    business_type: 'LLC',
+    employee_count: 12,
+    annual_revenue: 800000,
+    revenue_currency: 'USD',
+    primary_industry: '722513',
+    secondary_industries: [],
+    industry_description: 'Limited-service restaurant',
+    headquarters_state: 'CA',
+    headquarters_city: 'Los Angeles',
+    headquarters_county: 'Los Angeles County',
+    operating_locations: [],
+    business_activities: [],
+    has_physical_location: true,
+    has_employees: true,
+    handles_personal_data: false,
+    processes_payments: true,
+    sells_online: false,
+    interstate_commerce: false,
+    international_operations: false,
+    existing_registrations: [],
+    known_compliance_issues: [],
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+    last_analysis: '2024-01-01T00:00:00.000Z',
+    ...overrides
+  };
+}
+
+const failedDetail = (result: RuleMatchResult | undefined, criterion: string) =>
+  result?.failed.find(entry => entry.criterion === criterion)?.detail || '';
+const matchedDetail = (result: RuleMatchResult | undefined, criterion: string) =>
+  result?.matched.find(entry => entry.criterion === criterion)?.detail || '';
+
+async function testRuleMatcher() {
+  console.log('🧮 Testing Rule Matcher');
+  console.log('=======================\n');
+
+  let failures = 0;
+  const check = (label: string, condition: boolean) => {
+    console.log(`${condition ? '✅' : '❌'} ${label}`);
+    if (!condition) failures++;
+  };
+
+  const matcher = new RuleMatcher({ requireReview: false });
+  const profile = makeProfile();
+
+  // Unrestricted rules
+  const open = matcher.evaluate(makeRule('open', 'federal'), profile);
+  check('rules without restrictions apply', open.applies && open.failed.length === 0 &&
+    matchedDetail(open, 'state') === 'state=CA via ALL');
+
+  // Exclusions
+  const excludedByType = matcher.evaluate(makeRule('no-llc', 'federal', { exclusions: { business_types: ['llc'] } }), profile);
+  check('excluded business types fail the rule', !excludedByType.applies &&
+    failedDetail(excludedByType, 'exclusions') === 'excluded by business_type=LLC');
+  const excludedByCondition = matcher.evaluate(makeRule('no-payments', 'federal', {
+    exclusions: { industries: ['7225'], conditions: ['processes_payments'] }
+  }), profile);
+  check('every exclusion hit is explained', failedDetail(excludedByCondition, 'exclusions') ===
+    'excluded by industry=7225, condition=processes_payments');
+  const otherState = matcher.evaluate(makeRule('not-tx', 'state', { exclusions: { states: ['Texas'] } }), profile);
+  check('exclusions for other states pass', otherState.applies && matchedDetail(otherState, 'exclusions') === 'exclusions (none apply)');
+
+  // City and county scoping
+  const cityRule = makeRule('la-permit', 'local', { states: ['CA'], cities: ['City of Los Angeles'] });
+  const inCity = matcher.evaluate(cityRule, profile);
+  check('city rules apply inside the city', inCity.applies &&
+    matchedDetail(inCity, 'city') === 'city=Los Angeles via City of Los Angeles');
+  const outsideCity = matcher.evaluate(cityRule, makeProfile({ headquarters_city: 'Pasadena' }));
+  check('city rules fail outside the city', !outsideCity.applies &&
+    failedDetail(outsideCity, 'city') === 'city=Pasadena not in [City of Los Angeles]');
+  const countyRule = makeRule('la-county', 'local', { counties: ['Los Angeles County'] });
+  check('county rules match the county name', matcher.evaluate(countyRule, profile).applies);
+  const noCounty = matcher.evaluate(countyRule, makeProfile({ headquarters_county: undefined }));
+  check('an unknown county fails county rules', !noCounty.applies &&
+    failedDetail(noCounty, 'county') === 'county=unknown not in [Los Angeles County]');
+
+  // Industry groups
+  const restaurants = matcher.evaluate(makeRule('food', 'state', { industry_groups: ['food_service'] }), profile);
+  check('industry groups are derived from NAICS codes', restaurants.applies &&
+    matchedDetail(restaurants, 'industry_group') === 'industry_group=food_service');
+  const techOnly = matcher.evaluate(makeRule('tech', 'state', { industry_groups: ['tech'] }), profile);
+  check('other industry groups fail', !techOnly.applies &&
+    failedDetail(techOnly, 'industry_group') === 'industry_group [food_service, restaurant] not in [tech]');
+  const catering = matcher.evaluate(makeRule('catering', 'state', { industry_groups: ['Event Catering'] }),
+    makeProfile({ primary_industry: '541511', business_activities: ['event catering'] }));
+  check('business activities count as industry groups', catering.applies);
+  const industryAndGroup = matcher.evaluate(makeRule('both', 'state', { industries: ['5415'], industry_groups: ['food_service'] }), profile);
+  check('industries and industry groups must both pass', !industryAndGroup.applies &&
+    industryAndGroup.failed.map(result => result.criterion).join() === 'industry');
+
+  // Employee thresholds
+  const threshold = makeRule('fifty', 'federal', { employee_count: { min: 50, max: 999999 } });
+  const small = matcher.evaluate(threshold, profile);
+  check('employee minimums are enforced', !small.applies && failedDetail(small, 'employee_count') === 'employee_count 12 < min 50');
+  check('employee ranges report the bounds', matcher.evaluate(threshold, makeProfile({ employee_count: 50 })).applies &&
+    matchedDetail(matcher.evaluate(threshold, makeProfile({ employee_count: 50 })), 'employee_count') === 'employee_count=50 within 50-999999');
+  const exact = matcher.evaluate(makeRule('exact', 'federal', { employee_count: { min: 0, max: 999999, exact: 1 } }), profile);
+  check('exact employee counts are enforced', failedDetail(exact, 'employee_count') === 'employee_count 12 != exact 1');
+
+  // Review gating
+  const pendingRule = makeRule('pending', 'federal', {}, { review: { status: 'pending', history: [] } });
+  const approvedRule = makeRule('approved', 'federal', {}, { review: { status: 'approved', history: [] } });
+  check('review is ignored unless required', matcher.evaluate(pendingRule, profile).applies &&
+    !matcher.evaluate(pendingRule, profile).matched.some(result => result.criterion === 'review'));
+  const reviewed = new RuleMatcher({ requireReview: true });
+  const pending = reviewed.evaluate(pendingRule, profile);
+  check('requireReview excludes unapproved rules', !pending.applies && failedDetail(pending, 'review') === 'review=pending is not approved');
+  check('requireReview keeps approved rules', reviewed.evaluate(approvedRule, profile).applies &&
+    reviewed.match([pendingRule, approvedRule], profile).map(rule => rule.id).join() === 'approved');
+
+  // Inactive rules and explanations
+  const deprecated = matcher.evaluate(makeRule('old', 'federal', {}, { status: 'deprecated' }), profile);
+  check('inactive rules are excluded', !deprecated.applies && failedDetail(deprecated, 'status') === 'status=deprecated is not active');
+  const explained = matcher.evaluate(makeRule('explained', 'state', { states: ['CA'], employee_count: { min: 20, max: 999999 } }), profile);
+  check('explanations leave out unrestricted criteria', explained.explanation ===
+    'matched: status=active, annual_revenue=800000 within 0-999999999, state=CA via CA; failed: employee_count 12 < min 20');
+
+  // Per-location headcounts: the HQ isn't listed, so it gets the 47 employees not counted in TX
+  const multiSite = makeProfile({
+    employee_count: 50,
+    operating_locations: [
+      { address: '', city: 'Austin', state: 'TX', zip_code: '', location_type: 'warehouse', employee_count: 3 }
+    ]
+  });
+  const sites = matcher.getSites(multiSite);
+  check('uncounted sites get only the remainder', sites.map(site => `${site.label}:${site.employee_count}:${site.employee_count_estimated}`).join() ===
+    'Los Angeles, CA (headquarters):47:true,Austin, TX (warehouse):3:false');
+  const caThreshold = makeRule('ca-48', 'state', { states: ['CA'], employee_count: { min: 48, max: 999999 } });
+  const caResult = matcher.evaluateAll([caThreshold], multiSite)[0];
+  check('state thresholds use the in-state headcount, marked as estimated', !caResult?.applies &&
+    failedDetail(caResult, 'employee_count') === 'employee_count 47 < min 48 (estimated, no headcount given for this location)');
+  const txResult = matcher.evaluate(makeRule('tx-5', 'state', { states: ['TX'], employee_count: { min: 5, max: 999999 } }), multiSite, sites[1]);
+  check('counted sites are not estimates', failedDetail(txResult, 'employee_count') === 'employee_count 3 < min 5');
+  check('federal thresholds use the company headcount', matcher.match([makeRule('fed-50', 'federal', { employee_count: { min: 50, max: 50 } })], multiSite).length === 1);
+
+  const sharedState = makeProfile({
+    employee_count: 30,
+    operating_locations: [
+      { address: '', city: 'Los Angeles', state: 'CA', zip_code: '', location_type: 'headquarters' },
+      { address: '', city: 'Fresno', state: 'CA', zip_code: '', location_type: 'retail' },
+      { address: '', city: 'San Diego', state: 'CA', zip_code: '', location_type: 'branch', employee_count: 10 }
+    ]
+  });
+  const sharedResult = matcher.evaluate(makeRule('ca-30', 'state', { states: ['CA'], employee_count: { min: 30, max: 30 } }),
+    sharedState, matcher.getSites(sharedState)[1]);
+  check('uncounted employees are counted once per state', sharedResult.applies &&
+    matchedDetail(sharedResult, 'employee_count') === 'employee_count=30 within 30-30 (estimated, no headcount given for this location)');
+  // A second site in the HQ state is not the HQ: Los Angeles keeps the 30 employees not counted in San Francisco
+  const sameStateWarehouse = makeProfile({
+    employee_count: 40,
+    operating_locations: [
+      { address: '', city: 'San Francisco', state: 'CA', county: 'San Francisco County', zip_code: '', location_type: 'warehouse', employee_count: 10 }
+    ]
+  });
+  check('other sites in the HQ state keep the HQ', matcher.getSites(sameStateWarehouse).map(site => `${site.label}:${site.employee_count}`).join() ===
+    'Los Angeles, CA (headquarters):30,San Francisco, CA (warehouse):10');
+  check('HQ city rules still match', matcher.match([makeRule('la-permit', 'local', { states: ['CA'], cities: ['Los Angeles'] })], sameStateWarehouse).length === 1);
+  const caForty = matcher.evaluateAll([makeRule('ca-40', 'state', { states: ['CA'], employee_count: { min: 40, max: 999999 } })], sameStateWarehouse)[0];
+  check('state thresholds include the HQ headcount', caForty?.applies === true);
+  const listedHq = makeProfile({
+    employee_count: 40,
+    operating_locations: [
+      { address: '', city: 'los angeles', state: 'CA', zip_code: '', location_type: 'branch', employee_count: 30 },
+      { address: '', city: 'San Francisco', state: 'CA', zip_code: '', location_type: 'warehouse', employee_count: 10 }
+    ]
+  });
+  check('a listed location at the HQ city is the HQ', matcher.getSites(listedHq).map(site => site.city).join() === 'los angeles,San Francisco');
+  check('a single location is the whole company',matcher.getSites(profile)[0]?.employee_count === 12 &&
+    matcher.getSites(profile)[0]?.employee_count_estimated === false);
+
+  const report = matcher.matchByLocation([
+    makeRule('ein', 'federal'),
+    makeRule('ca-registration', 'state', { states: ['CA'] }),
+    makeRule('austin-permit', 'local', { states: ['TX'], cities: ['Austin'] }),
+    makeRule('ny-registration', 'state', { states: ['NY'] })
+  ], multiSite);
+  check('federal rules are company-wide', report.company_wide.map(result => result.rule_id).join() === 'ein');
+  check('state and local rules are grouped by location', report.locations.map(group =>
+    `${group.label}:${group.employee_count}:${group.results.map(result => result.rule_id).join('+')}`).join() ===
+    'Los Angeles, CA (headquarters):47:ca-registration,Austin, TX (warehouse):3:austin-permit');
+  check('rules that apply nowhere are unmatched', report.unmatched.map(result => result.rule_id).join() === 'ny-registration' &&
+    report.unmatched[0]?.failed.some(result => result.criterion === 'state') === true);
+
+  // Sorting
+  const sorted = matcher.match([
+    makeRule('low-state', 'state', {}, { priority: 'low' }),
+    makeRule('high-state', 'state', {}, { priority: 'high' }),
+    makeRule('high-federal', 'federal', {}, { priority: 'high' })
+  ], profile);
+  check('matches are sorted by priority, then level', sorted.map(rule => rule.id).join() === 'high-federal,high-state,low-state');
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\n🎉 Rule matcher test passed!');
+}
+
+// Run the test
+testRuleMatcher().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
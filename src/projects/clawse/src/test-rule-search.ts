@@ -0,0 +1,140 @@
+import { RuleSearchIndex } from './services/RuleSearchIndex';
+import { InMemoryRepository } from './services/InMemoryRepository';
+import { ComplianceRule, ComplianceStep, FormReference } from './types/ComplianceRule';
+
+// BM25 ranking, facet filters and counts, pagination and index refresh (offline)
+
+function makeRule(id: string, title: string, description: string, overrides: Partial<ComplianceRule> = {}): ComplianceRule {
+  return {
+    id,
+    canonical_id: `hash_${id}`,
+    title,
+    description,
+    authority: 'IRS',
+    level: 'federal',
+    jurisdiction: 'US',
+    priority: 'high',
+    status: 'active',
+    applicability_criteria: {
+      business_types: [], employee_count: { min: 1, max: 999999 },
+      annual_revenue: { min: 0, max: 999999999, currency: 'USD' },
+      industries: [], industry_groups: [], states: ['ALL'], cities: [], counties: [],
+      special_conditions: [], exclusions: {}
+    },
+    compliance_steps: [],
+    estimated_cost: { filing_fees: 0, ongoing_costs: 0, penalty_range: { min: 0, max: 0 } },
+    deadlines: { initial_deadline: 'Before hiring' },
+    sources: [],
+    tags: [], related_rules: [], conflicts_with: [],
+    version: 1,
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+    last_verified: '2024-01-01T00:00:00.000Z',
+    search_keywords: [],
+    ...overrides
+  };
+}
+
+function stateCriteria(states: string[], industries: string[] = []): ComplianceRule['applicability_criteria'] {
+  return { ...makeRule('x', '', '').applicability_criteria, states, industries };
+}
+
+async function testRuleSearch() {
+  console.log('🔎 Testing Rule Search');
+  console.log('======================\n');
+
+  let failures = 0;
+  const check = (label: string, condition: boolean) => {
+    console.log(`${condition ? '✅' : '❌'} ${label}`);
+    if (!condition) failures++;
+  };
+
+  const rules = [
+    makeRule('ein', 'Employer Identification Number', 'Obtain an EIN from the IRS before hiring employees.',
+      { tags: ['tax', 'registration'], search_keywords: ['ss-4'] }),
+    makeRule('form_941', 'Quarterly Payroll Tax Return', 'File Form 941 each quarter to report withheld income tax.',
+      { tags: ['tax', 'payroll'], priority: 'critical' }),
+    makeRule('ca_sellers_permit', "California Seller's Permit", 'Retailers selling tangible goods must hold a permit from CDTFA.',
+      { authority: 'CDTFA', level: 'state', jurisdiction: 'CA', priority: 'medium', tags: ['sales tax'],
+        applicability_criteria: stateCriteria(['CA'], ['retail']) }),
+    makeRule('tx_franchise', 'Texas Franchise Tax Report', 'Entities doing business in Texas file an annual franchise tax report.',
+      { authority: 'Texas Comptroller', level: 'state', jurisdiction: 'TX', tags: ['tax'],
+        applicability_criteria: stateCriteria(['TX']) }),
+    makeRule('sf_health_permit', 'Food Service Health Permit', 'Restaurants must hold a health permit before serving food.',
+      { authority: 'SF Department of Public Health', level: 'local', jurisdiction: 'San Francisco', priority: 'critical',
+        applicability_criteria: stateCriteria(['CA'], ['restaurant']),
+        compliance_steps: [{ step_number: 1, step_description: 'Pass the kitchen inspection',
+          required_forms: [{ form_name: 'Plan Check Application' } as FormReference] } as ComplianceStep] }),
+    makeRule('old_rule', 'Retired Payroll Notice', 'Payroll notice that no longer applies.', { status: 'superseded' })
+  ];
+
+  const index = new RuleSearchIndex(null);
+  index.build(rules);
+
+  // Ranking
+  const payroll = await index.search({ q: 'payroll tax' });
+  check('matches every query term', payroll.hits.map(hit => hit.rule.id).join() === 'form_941');
+  check('hits carry BM25 scores and matched terms', (payroll.hits[0]?.score ?? 0) > 0 && (payroll.hits[0]?.terms.length ?? 0) > 0);
+
+  const tax = await index.search({ q: 'tax' });
+  check('title matches rank above description matches',
+    tax.hits.findIndex(hit => hit.rule.id === 'tx_franchise') < tax.hits.findIndex(hit => hit.rule.id === 'ein'));
+  check('last term matches as a prefix', (await index.search({ q: 'franch' })).hits[0]?.rule.id === 'tx_franchise');
+  check('longer terms tolerate a typo', (await index.search({ q: 'identificaton' })).hits[0]?.rule.id === 'ein');
+  check('step and form text is searchable', (await index.search({ q: 'plan check' })).hits[0]?.rule.id === 'sf_health_permit');
+  check('keywords are searchable', (await index.search({ q: 'ss-4' })).hits[0]?.rule.id === 'ein');
+  check('inactive rules excluded by default', !(await index.search({ q: 'payroll' })).hits.some(hit => hit.rule.id === 'old_rule'));
+  check('status=any includes them', (await index.search({ q: 'payroll', status: 'any' })).total === 2);
+
+  // Without a query
+  const all = await index.search();
+  check('empty query lists active rules by priority', all.total === 5 && all.hits[0]?.score === null &&
+    all.hits.slice(0, 2).map(hit => hit.rule.id).join() === 'sf_health_permit,form_941');
+
+  // Filters
+  const federalOrLocal = await index.search({ filters: { level: ['federal', 'LOCAL'] } });
+  check('values within a facet are ORed, case-insensitively', federalOrLocal.total === 3);
+  const california = await index.search({ filters: { state: ['ca'] } });
+  check('state filter includes nationwide rules', california.hits.map(hit => hit.rule.id).sort().join() ===
+    'ca_sellers_permit,ein,form_941,sf_health_permit');
+  const caTax = await index.search({ q: 'permit', filters: { state: ['CA'], level: ['state'] } });
+  check('facets are ANDed with each other and the query', caTax.hits.map(hit => hit.rule.id).join() === 'ca_sellers_permit');
+  check('industry facet filters on industries', (await index.search({ filters: { industry: ['restaurant'] } })).total === 1);
+
+  // Facet counts
+  const levels = new Map(california.facets.level.map(count => [count.value, count.count]));
+  check('counts reflect the other filters', levels.get('federal') === 2 && levels.get('state') === 1 && !levels.has('other'));
+  const states = new Map(california.facets.state.map(count => [count.value, count]));
+  check('own facet ignores its filter and marks selections', states.get('TX')?.count === 3 && states.get('CA')?.selected === true &&
+    states.get('TX')?.selected === false);
+  check('tag counts are per rule', all.facets.tags.find(count => count.value === 'tax')?.count === 3);
+
+  // Pagination
+  const first = await index.search({ page_size: 2 });
+  const last = await index.search({ page_size: 2, page: 3 });
+  check('pages slice the ranked hits', first.pages === 3 && first.hits.length === 2 && last.hits.length === 1 &&
+    last.hits[0]?.rule.id === all.hits[4]?.rule.id);
+  check('page size is capped', (await index.search({ page_size: 500 })).page_size === 100);
+
+  // Refresh from the repository
+  const repository = new InMemoryRepository();
+  await repository.storeRules(rules);
+  const stored = new RuleSearchIndex(repository);
+  check('builds from the repository', (await stored.search({ q: 'franchise' })).total === 1);
+  await repository.storeRules([makeRule('boi', 'Beneficial Ownership Report', 'File a beneficial ownership report with FinCEN.')]);
+  check('serves the built index until invalidated', (await stored.search({ q: 'beneficial' })).total === 0);
+  stored.invalidate();
+  check('rebuilds after invalidate()', (await stored.search({ q: 'beneficial' })).total === 1);
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\n🎉 Rule search test passed!');
+}
+
+// Run the test
+testRuleSearch().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
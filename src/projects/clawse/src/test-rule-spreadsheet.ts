@@ -0,0 +1,157 @@
+import { RuleSpreadsheet } from './services/RuleSpreadsheet';
+import { InMemoryRepository } from './services/InMemoryRepository';
+import { ComplianceRule, ComplianceStep } from './types/ComplianceRule';
+
+// Spreadsheet export/import: flattening, CSV/XLSX round trips, row-level errors and versioned upserts (offline)
+
+function makeStep(stepNumber: number, description: string, forms: string[] = []): ComplianceStep {
+  return {
+    step_number: stepNumber,
+    step_description: description,
+    deadline: 'Within 30 days of formation',
+    deadline_type: 'relative',
+    required_forms: forms.map(name => ({ form_name: name, form_url: 'https://example.gov/form', form_type: 'online', filing_method: 'online', processing_time: '1 week' })),
+    required_documents: ['Articles of organization'],
+    estimated_cost: 25,
+    estimated_time: '1 hour',
+    depends_on_steps: stepNumber > 1 ? [1] : [],
+    can_be_done_parallel: false,
+    priority: 'high',
+    verification_method: 'Receipt',
+    completion_proof: []
+  };
+}
+
+function makeRule(id: string, title: string): ComplianceRule {
+  return {
+    id,
+    canonical_id: id,
+    title,
+    description: `${title}, with "quotes", commas\nand a second line.`,
+    authority: 'California Secretary of State',
+    level: 'state',
+    jurisdiction: 'CA',
+    priority: 'high',
+    status: 'active',
+    applicability_criteria: {
+      business_types: ['LLC', 'Corp'], employee_count: { min: 0, max: 999999 },
+      annual_revenue: { min: 0, max: 999999999, currency: 'USD' },
+      industries: [], industry_groups: [], states: ['CA'], cities: [], counties: [],
+      special_conditions: [], exclusions: { states: ['NV'] }
+    },
+    compliance_steps: [makeStep(1, 'File online', ['Form LLC-12']), makeStep(2, 'Keep the certificate')],
+    estimated_cost: { filing_fees: 20, ongoing_costs: 20, penalty_range: { min: 50, max: 250 } },
+    deadlines: { initial_deadline: 'Within 90 days of formation', recurring_deadline: 'Every two years' },
+    sources: [{
+      source_id: 'sos', source_type: 'website', source_name: 'California SOS', source_url: 'https://bizfileonline.sos.ca.gov',
+      reliability_score: 9, last_updated: '2025-01-15', verification_status: 'verified', content_hash: 'abc'
+    }],
+    tags: ['registration'], related_rules: [], conflicts_with: [],
+    version: 1,
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+    last_verified: '2024-01-01T00:00:00.000Z',
+    search_keywords: []
+  };
+}
+
+async function testRuleSpreadsheet() {
+  console.log('📑 Testing Rule Spreadsheet Export/Import');
+  console.log('=========================================\n');
+
+  let failures = 0;
+  const check = (label: string, condition: boolean) => {
+    console.log(`${condition ? '✅' : '❌'} ${label}`);
+    if (!condition) failures++;
+  };
+
+  const repository = new InMemoryRepository();
+  const spreadsheet = new RuleSpreadsheet(repository);
+  await repository.storeRules([makeRule('soi', 'Statement of Information'), makeRule('dba', 'Fictitious Business Name')]);
+  const stored = await repository.getRecentRules(10);
+
+  // Flattening
+  const sheets = spreadsheet.flatten(stored);
+  const soiRow = sheets.rules.find(row => row.id === 'soi');
+  check('one row per rule, step, form and source', sheets.rules.length === 2 && sheets.steps.length === 4 &&
+    sheets.forms.length === 2 && sheets.sources.length === 2);
+  check('nested criteria as dotted columns', soiRow?.['applicability_criteria.business_types'] === 'LLC; Corp' &&
+    soiRow?.['applicability_criteria.exclusions.states'] === 'NV' && soiRow?.['estimated_cost.penalty_range.max'] === 250);
+  check('forms keyed by rule and step', sheets.forms[0]?.rule_id === sheets.steps[0]?.rule_id && sheets.forms[0]?.step_number === 1);
+
+  // CSV round trip
+  const csv = spreadsheet.toCsv(stored);
+  const parsedCsv = spreadsheet.readCsv(csv);
+  check('CSV quotes commas, quotes and line breaks', parsedCsv.rules?.find(row => row.values.id === 'soi')?.values.description ===
+    'Statement of Information, with "quotes", commas\nand a second line.');
+  check('CSV sheet detected from the header', Object.keys(spreadsheet.readCsv(spreadsheet.toCsv(stored, 'steps'))).join() === 'steps');
+  const unchanged = await spreadsheet.importSheets(parsedCsv, { format: 'csv' });
+  check('re-importing an export changes nothing', unchanged.unchanged === 2 && unchanged.updated === 0 && unchanged.errors.length === 0);
+
+  // XLSX round trip with edits
+  const workbook = await spreadsheet.readXlsx(await spreadsheet.toXlsx(stored));
+  check('XLSX has all four sheets', Object.keys(workbook).join() === 'rules,steps,forms,sources' && workbook.steps?.length === 4);
+  const soi = workbook.rules!.find(row => row.values.id === 'soi')!;
+  soi.values['estimated_cost.filing_fees'] = '$25';
+  soi.values['applicability_criteria.states'] = 'CA; NV';
+  workbook.steps = workbook.steps!.filter(row => !(row.values.rule_id === 'soi' && row.values.step_number === '2'));
+
+  const updated = await spreadsheet.importSheets(workbook, { format: 'xlsx' });
+  const soiAfter = await repository.getRuleById('soi');
+  check('edited rule updated with a version bump', updated.updated === 1 && updated.unchanged === 1 &&
+    soiAfter?.version === 2 && updated.results.find(result => result.rule_id === 'soi')?.version === 2);
+  check('cells parsed into the rule', soiAfter?.estimated_cost.filing_fees === 25 &&
+    soiAfter?.applicability_criteria.states.join() === 'CA,NV');
+  check('steps sheet replaces the steps, forms kept', soiAfter?.compliance_steps.length === 1 &&
+    soiAfter?.compliance_steps[0]?.required_forms[0]?.form_name === 'Form LLC-12');
+  check('revision recorded', (await repository.getRuleHistory('soi')).length === 2);
+
+  // New manually authored rule, plus rows with errors
+  const csvImport = spreadsheet.readCsv([
+    'id,title,description,level,jurisdiction,estimated_cost.filing_fees',
+    'poster,Workplace Poster,Display the required notices.,state,CA,0',
+    'bad_fee,Bad Fee,Fee is not a number.,state,CA,twenty',
+    'bad_level,Bad Level,Level is unknown.,galactic,CA,0'
+  ].join('\n'));
+  const created = await spreadsheet.importSheets(csvImport, { format: 'csv' });
+  const poster = await repository.getRuleById('poster');
+  check('new rule created', created.created === 1 && poster?.version === 1 && poster?.applicability_criteria.states.join() === 'CA');
+  check('manual rules carry a manual source', poster?.sources.length === 1 && poster?.sources[0]?.source_type === 'manual');
+  check('invalid cell reported on its row', created.errors.some(error => error.sheet === 'rules' && error.row === 3 &&
+    error.column === 'estimated_cost.filing_fees' && error.code === 'invalid_cell'));
+  check('schema error reported on its row', created.errors.some(error => error.row === 4 && error.column === 'level'));
+  check('rejected rules not stored', created.rejected === 2 && await repository.getRuleById('bad_fee') === null);
+
+  // Child sheet errors point at their own rows
+  const stepErrors = await spreadsheet.importSheets(spreadsheet.readCsv([
+    'rule_id,step_number,step_description,deadline_type,can_be_done_parallel',
+    'poster,1,Print the posters,someday,maybe',
+    'poster,2,,relative,no',
+    'missing,1,Orphan step,relative,no'
+  ].join('\r\n')), { format: 'csv' });
+  check('invalid step cell on the steps row', stepErrors.errors.some(error => error.sheet === 'steps' && error.row === 2 && error.column === 'can_be_done_parallel'));
+  check('repairs listed per rule', stepErrors.results.find(result => result.rule_id === 'poster')?.repairs
+    .some(repair => repair.path === 'compliance_steps.0.deadline_type') === true);
+  check('blank step description and unknown rule reported', stepErrors.errors.some(error => error.row === 3 && error.column === 'step_description') &&
+    stepErrors.errors.some(error => error.row === 4 && error.code === 'unknown_rule'));
+
+  const sources = spreadsheet.readCsv('rule_id,source_id,source_name,source_url\r\nposter,dol,DOL,https://www.dol.gov\r\n');
+  const dryRun = await spreadsheet.importSheets(sources, { format: 'csv', dryRun: true });
+  check('dry run reports without storing', dryRun.dry_run && dryRun.updated === 1 &&
+    (await repository.getRuleById('poster'))?.sources[0]?.source_id === 'manual_poster');
+  await spreadsheet.importSheets(sources, { format: 'csv' });
+  const posterSource = (await repository.getRuleById('poster'))?.sources[0];
+  check('untyped sources default to manual', posterSource?.source_id === 'dol' && posterSource?.source_type === 'manual');
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\n🎉 Rule spreadsheet test passed!');
+}
+
+// Run the test
+testRuleSpreadsheet().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,98 @@
+import { RuleValidator } from './services/RuleValidator';
+
+// Offline check of the runtime rule schema: repairs with defaults, rejects the rest
+
+async function testRuleValidation() {
+  console.log('🧪 Testing Rule Validation');
+  console.log('==========================\n');
+
+  const validator = new RuleValidator();
+  let failures = 0;
+
+  const check = (label: string, condition: boolean) => {
+    console.log(`${condition ? '✅' : '❌'} ${label}`);
+    if (!condition) failures++;
+  };
+
+  // Typical model output: wrong priority casing, missing deadline_type, cost strings, no deadlines
+  const sloppyRule = {
+    name: 'Obtain an Employer Identification Number',
+    description: 'Businesses with employees must obtain an EIN from the IRS.',
+    authority: 'IRS',
+    level: 'Federal',
+    priority: 'Urgent',
+    applicability_criteria: {
+      business_types: 'LLC, Corporation',
+      employee_count: { min: '1' }
+    },
+    compliance_steps: [
+      { step_number: 1, description: 'Apply online for an EIN', deadline: 'Before hiring employees', estimated_cost: '$0', depends_on_steps: [1, 7], required_forms: ['Form SS-4'] },
+      { step_number: 2, step_description: 'File Form 941', deadline: 'Quarterly', priority: 'HIGH', required_forms: [{ form_name: 'Form 941', form_url: 'https://www.irs.gov/pub/irs-pdf/f941.pdf', filing_method: 'e-file' }] },
+      { deadline: 'No description, dropped' }
+    ],
+    estimated_cost: 150,
+    sources: [{ source_type: 'government_website', source_url: 'https://www.irs.gov', reliability_score: 12 }],
+    extra_model_field: true
+  };
+
+  const stateRuleWithoutStates = {
+    title: 'State Sales Tax Permit',
+    description: 'Register for a sales tax permit.',
+    authority: 'Department of Revenue',
+    level: 'state',
+    jurisdiction: 'Somewhere'
+  };
+
+  const { rules, report } = validator.validateBatch([
+    sloppyRule,
+    stateRuleWithoutStates,
+    { description: 'No title' },
+    'not an object'
+  ], 'test');
+
+  check('report counts the batch', report.total === 4 && report.repaired === 1 && report.rejected === 3);
+  check('only repaired rules are returned', rules.length === 1);
+
+  const rule = rules[0];
+  const repairedPaths = report.results[0]?.repairs.map(repair => repair.path) || [];
+  check('name aliased to title', rule?.title === 'Obtain an Employer Identification Number');
+  check('priority normalized', rule?.priority === 'critical' && repairedPaths.includes('priority'));
+  check('level normalized', rule?.level === 'federal');
+  check('federal states defaulted to ALL', rule?.applicability_criteria.states[0] === 'ALL');
+  check('string lists coerced', rule?.applicability_criteria.business_types.length === 2);
+  check('employee range coerced and defaulted', rule?.applicability_criteria.employee_count.min === 1 &&
+    rule?.applicability_criteria.employee_count.max === 999999);
+  check('empty step dropped', rule?.compliance_steps.length === 2);
+  check('deadline_type inferred', rule?.compliance_steps[0]?.deadline_type === 'relative' &&
+    rule?.compliance_steps[1]?.deadline_type === 'recurring');
+  check('invalid step dependencies removed', rule?.compliance_steps[0]?.depends_on_steps.length === 0);
+  check('string form coerced', rule?.compliance_steps[0]?.required_forms[0]?.form_name === 'Form SS-4');
+  check('form type and filing method repaired', rule?.compliance_steps[1]?.required_forms[0]?.form_type === 'pdf' &&
+    rule?.compliance_steps[1]?.required_forms[0]?.filing_method === 'online');
+  check('numeric cost coerced to cost object', rule?.estimated_cost.filing_fees === 150);
+  check('deadlines defaulted from first step', rule?.deadlines.initial_deadline === 'Before hiring employees');
+  check('source type and reliability repaired', rule?.sources[0]?.source_type === 'website' && rule?.sources[0]?.reliability_score === 10);
+  check('unknown fields stripped', !('extra_model_field' in (rule || {})) && repairedPaths.includes('extra_model_field'));
+
+  const stateErrors = report.results[1]?.errors || [];
+  check('state rule without states rejected', stateErrors.some(error =>
+    error.path === 'applicability_criteria.states' && error.code === 'missing_required'));
+  check('missing title rejected', report.results[2]?.errors.some(error => error.path === 'title') === true);
+  check('non-object rejected', report.results[3]?.errors[0]?.code === 'invalid_type');
+
+  // A rule that already matches the schema passes untouched
+  const { report: cleanReport } = validator.validateBatch(rules, 'test');
+  check('repaired rule validates cleanly', cleanReport.valid === 1);
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\n🎉 Rule validation test passed!');
+}
+
+// Run the test
+testRuleValidation().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
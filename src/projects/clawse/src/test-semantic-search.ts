@@ -0,0 +1,154 @@
+import { HashingEmbeddingProvider, OpenAIEmbeddingProvider, createEmbeddingProvider, cosineSimilarity } from './services/EmbeddingProvider';
+import { SemanticRuleRanker, createSemanticRuleRanker } from './services/SemanticRuleRanker';
+import { KeywordPenaltyReranker } from './services/KeywordPenaltyReranker';
+import { RealTimeComplianceSearch } from './services/RealTimeComplianceSearch';
+import { InMemoryRepository } from './services/InMemoryRepository';
+import { ComplianceRule, ComplianceStep } from './types/ComplianceRule';
+
+// Hashing embeddings, cosine ranking, stored vectors and the keyword penalty re-ranker (offline)
+
+function makeRule(id: string, title: string, description: string, overrides: Partial<ComplianceRule> = {}): ComplianceRule {
+  return {
+    id,
+    canonical_id: `hash_${id}`,
+    title,
+    description,
+    authority: 'FTC',
+    level: 'federal',
+    jurisdiction: 'US',
+    priority: 'high',
+    status: 'active',
+    applicability_criteria: {
+      business_types: [], employee_count: { min: 0, max: 999999 },
+      annual_revenue: { min: 0, max: 999999999, currency: 'USD' },
+      industries: [], industry_groups: [], states: ['ALL'], cities: [], counties: [],
+      special_conditions: [], exclusions: {}
+    },
+    compliance_steps: [],
+    estimated_cost: { filing_fees: 0, ongoing_costs: 0, penalty_range: { min: 0, max: 0 } },
+    deadlines: { initial_deadline: 'Before launch' },
+    sources: [],
+    tags: [], related_rules: [], conflicts_with: [],
+    version: 1,
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+    last_verified: '2024-01-01T00:00:00.000Z',
+    search_keywords: [],
+    ...overrides
+  };
+}
+
+async function testSemanticSearch() {
+  console.log('🧭 Testing Semantic Rule Search');
+  console.log('===============================\n');
+
+  let failures = 0;
+  const check = (label: string, condition: boolean) => {
+    console.log(`${condition ? '✅' : '❌'} ${label}`);
+    if (!condition) failures++;
+  };
+
+  // Embeddings
+  const hashing = new HashingEmbeddingProvider();
+  const [privacy, privacyAgain, payroll] = await hashing.embed([
+    'Online privacy policy for websites that collect personal data',
+    'Websites collecting personal data online need a privacy policy',
+    'Quarterly federal payroll tax deposits for employers'
+  ]) as [number[], number[], number[]];
+  check('vectors are unit length', Math.abs(Math.sqrt(privacy.reduce((sum, value) => sum + value * value, 0)) - 1) < 1e-9);
+  check('hashing embeddings are deterministic', cosineSimilarity(privacy, (await hashing.embed(['Online privacy policy for websites that collect personal data']))[0]!) > 0.999);
+  check('rewordings are closer than unrelated text', cosineSimilarity(privacy, privacyAgain) > 0.5 && cosineSimilarity(privacy, payroll) < 0.2);
+  check('model name records the dimensions', new HashingEmbeddingProvider({ dimensions: 128 }).model === 'hashing-128');
+
+  process.env.EMBEDDING_PROVIDER = 'hashing';
+  check('EMBEDDING_PROVIDER selects the provider', createEmbeddingProvider().provider === 'hashing');
+  process.env.EMBEDDING_PROVIDER = 'word2vec';
+  let unknownRejected = false;
+  try { createEmbeddingProvider(); } catch { unknownRejected = true; }
+  check('unknown providers are rejected', unknownRejected);
+  delete process.env.EMBEDDING_PROVIDER;
+  check('unconfigured providers fall back to hashing', createSemanticRuleRanker(null, new OpenAIEmbeddingProvider()).embedder.provider === 'hashing');
+
+  // Ranking
+  const rules = [
+    makeRule('ein', 'Employer Identification Number', 'Businesses with employees obtain an EIN from the IRS before hiring.', { authority: 'IRS' }),
+    makeRule('privacy', 'Online Privacy Policy', 'Websites and mobile apps that collect personal data from customers must publish a privacy policy.',
+      { compliance_steps: [{ step_number: 1, step_description: 'Post the privacy policy on the website' } as ComplianceStep] }),
+    makeRule('hospital', 'Hospital Price Transparency', 'Hospitals publish machine-readable files of standard charges for patient services online.', { authority: 'CMS' }),
+    makeRule('burma', 'Burma Sanctions Regulations', 'Online platforms and software providers must screen users against Burma sanctions lists.', { authority: 'Treasury' })
+  ];
+  const context = {
+    query: 'website data privacy compliance',
+    business_description: 'We build websites and mobile apps for small businesses and store customer data online.'
+  };
+
+  const embedCalls: number[] = [];
+  const countingEmbedder = {
+    provider: hashing.provider,
+    model: hashing.model,
+    isAvailable: () => true,
+    embed: async (texts: string[]) => { embedCalls.push(texts.length); return hashing.embed(texts); }
+  };
+
+  const repository = new InMemoryRepository();
+  const ranker = new SemanticRuleRanker(repository, countingEmbedder);
+  const ranked = await ranker.rank(rules, context);
+  check('closest rule ranks first', ranked[0]?.rule.id === 'privacy');
+  check('every rule is kept, sorted, with scores within 0-1', ranked.length === rules.length && ranked.every((entry, index) => entry.score >= 0 && entry.score <= 1 &&
+    (index === 0 || entry.score <= ranked[index - 1]!.score)));
+  check('similarity to query and description reported', ranked[0]?.similarity.query !== null && ranked[0]?.similarity.business !== null);
+  check('without a re-ranker, keyword penalties are not applied', ranked.some(entry => entry.rule.id === 'hospital') && ranked.every(entry => entry.penalties.length === 0));
+
+  const stored = await repository.getRuleEmbeddings(rules.map(rule => rule.id), hashing.model);
+  check('vectors stored per rule and model', stored.length === 4 && stored.every(embedding =>
+    embedding.dimensions === 512 && embedding.text_hash.length === 64 && embedding.provider === 'hashing'));
+  check('other models have no vectors yet', (await repository.getRuleEmbeddings(['privacy'], 'Xenova/all-MiniLM-L6-v2')).length === 0);
+
+  // A fresh ranker reads stored vectors instead of embedding again
+  embedCalls.length = 0;
+  await new SemanticRuleRanker(repository, countingEmbedder).embedRules(rules);
+  check('stored vectors are reused', embedCalls.length === 0);
+  const edited = rules.map(rule => rule.id === 'ein' ? { ...rule, description: `${rule.description} Apply online with Form SS-4.` } : rule);
+  await new SemanticRuleRanker(repository, countingEmbedder).embedRules(edited);
+  check('changed rule text is embedded again', embedCalls.join() === '1');
+
+  const transient = new SemanticRuleRanker(repository, hashing);
+  await transient.rank([makeRule('live_1', 'Sales Tax Permit', 'Retailers collect sales tax.')], context, { persist: false });
+  check('persist=false keeps live results out of the store', (await repository.getRuleEmbeddings(['live_1'], hashing.model)).length === 0);
+
+  // Re-ranking
+  const reranked = await new SemanticRuleRanker(null, hashing, { reranker: new KeywordPenaltyReranker() }).rank(rules, context);
+  check('penalized rules drop out', !reranked.some(entry => entry.rule.id === 'hospital' || entry.rule.id === 'burma'));
+  const penalties = new KeywordPenaltyReranker().rerank(ranked, context);
+  check('penalties are listed per rule', penalties.find(entry => entry.rule.id === 'burma')?.penalties.includes('burma sanctions') === true &&
+    penalties.find(entry => entry.rule.id === 'hospital')?.penalties.some(penalty => penalty.startsWith('healthcare:')) === true);
+  const clinic = new KeywordPenaltyReranker().rerank(ranked, { business_description: 'Our medical clinic sees patients daily.' });
+  check('rules in the business\'s own industry keep their score', clinic.find(entry => entry.rule.id === 'hospital')?.penalties.length === 0);
+
+  const strict = await new SemanticRuleRanker(null, hashing, { minScore: 0.3 }).rank(rules, context);
+  check('minScore drops weak matches', strict.length < ranked.length && strict.every(entry => entry.score >= 0.3));
+
+  // Real-time search
+  const search = new RealTimeComplianceSearch(undefined, repository, undefined, undefined, new SemanticRuleRanker(repository, hashing));
+  const profile = { industry_description: context.business_description };
+  const results = await search.rankRules(rules, context.query, profile);
+  check('search results carry relevanceScore in ranked order', results[0]?.id === 'privacy' &&
+    results.every((rule, index) => rule.relevanceScore !== undefined &&
+      (index === 0 || rule.relevanceScore <= (results[index - 1]?.relevanceScore ?? Infinity))));
+  const failing = new RealTimeComplianceSearch(undefined, repository, undefined, undefined,
+    new SemanticRuleRanker(null, { ...countingEmbedder, embed: async () => { throw new Error('model offline'); } }));
+  check('embedding failures keep the search order', (await failing.rankRules(rules, context.query, profile)).map(rule => rule.id).join() ===
+    'ein,privacy,hospital,burma');
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\n🎉 Semantic search test passed!');
+}
+
+// Run the test
+testSemanticSearch().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,203 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import crypto from 'crypto';
+import { InMemoryRepository } from './services/InMemoryRepository';
+import { ScrapedRule } from './services/AIRuleGenerator';
+import { SourceVerifier } from './services/SourceVerifier';
+import { ComplianceRule, ComplianceSource } from './types/ComplianceRule';
+
+// Source re-verification against a local HTTP fixture server (no network, no Firebase)
+
+const pages: {[path: string]: string} = {
+  '/stable': '<html><body><article>Employers must display the federal minimum wage poster in a visible location.</article></body></html>',
+  '/changing': '<html><body><div class="content">Annual report is due by March 15 and costs $50 to file.</div></body></html>'
+};
+const regulationsDocuments: {[id: string]: { attributes: { title: string, summary: string } }} = {
+  'OSHA-2024-0001-0001': { attributes: { title: 'Heat Injury Prevention', summary: 'Employers must implement a heat illness plan.' } }
+};
+
+function md5(content: string): string {
+  return crypto.createHash('md5').update(content).digest('hex');
+}
+
+function startFixtureServer(): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    const url = req.url || '';
+    const documentMatch = url.match(/^\/v4\/documents\/([^/?]+)/);
+
+    if (documentMatch) {
+      const document = regulationsDocuments[decodeURIComponent(documentMatch[1] || '')];
+      if (!document || req.headers['x-api-key'] !== 'test-key') {
+        res.writeHead(document ? 403 : 404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ errors: [{ status: document ? 403 : 404 }] }));
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ data: document }));
+      return;
+    }
+
+    const page = pages[url];
+    if (!page) {
+      res.writeHead(404, { 'Content-Type': 'text/html' });
+      res.end('<html><body>Not found</body></html>');
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(page);
+  });
+
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+function makeRule(id: string, source: Partial<ComplianceSource>): ComplianceRule {
+  return {
+    id,
+    canonical_id: `canonical_${id}`,
+    title: `Rule ${id}`,
+    description: 'Fixture rule',
+    authority: 'Test Authority',
+    level: 'federal',
+    jurisdiction: 'US',
+    priority: 'medium',
+    status: 'active',
+    applicability_criteria: {
+      business_types: [], employee_count: { min: 0, max: 999999 },
+      annual_revenue: { min: 0, max: 999999999, currency: 'USD' },
+      industries: [], industry_groups: [], states: ['ALL'], cities: [], counties: [],
+      special_conditions: [], exclusions: {}
+    },
+    compliance_steps: [],
+    estimated_cost: { filing_fees: 0, ongoing_costs: 0, penalty_range: { min: 0, max: 0 } },
+    deadlines: { initial_deadline: 'Ongoing' },
+    sources: [{
+      source_id: `source_${id}`,
+      source_type: 'website',
+      source_name: 'Fixture',
+      source_url: '',
+      reliability_score: 9,
+      last_updated: new Date().toISOString(),
+      verification_status: 'verified',
+      content_hash: '',
+      ...source
+    }],
+    tags: [], related_rules: [], conflicts_with: [],
+    version: 1,
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+    last_verified: new Date().toISOString(),
+    search_keywords: []
+  };
+}
+
+async function testSourceVerification() {
+  console.log('🔁 Testing Source Re-Verification');
+  console.log('==================================\n');
+
+  const server = await startFixtureServer();
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  let failures = 0;
+
+  const check = (label: string, condition: boolean) => {
+    console.log(`${condition ? '✅' : '❌'} ${label}`);
+    if (!condition) failures++;
+  };
+
+  try {
+    const repository = new InMemoryRepository();
+    await repository.storeRules([
+      makeRule('stable', {
+        source_url: `${baseUrl}/stable`,
+        content_hash: md5('Employers must display the federal minimum wage poster in a visible location.')
+      }),
+      makeRule('changing', {
+        source_url: `${baseUrl}/changing`,
+        content_hash: md5('Annual report is due by March 15 and costs $50 to file.')
+      }),
+      makeRule('regulation', {
+        source_type: 'api',
+        source_name: 'Regulations.gov',
+        source_url: 'https://www.regulations.gov/document/OSHA-2024-0001-0001',
+        content_hash: md5('Employers must implement a heat illness plan.')
+      }),
+      makeRule('new-source', { source_url: `${baseUrl}/stable` }),
+      makeRule('missing', { source_url: `${baseUrl}/gone`, content_hash: 'abc' }),
+      makeRule('generated', { source_type: 'ai_generated', source_url: '' })
+    ]);
+
+    // The annual report page changes after ingestion
+    pages['/changing'] = '<html><body><div class="content">Annual report is due by April 1 and costs $75 to file.</div></body></html>';
+
+    const reprocessed: ScrapedRule[] = [];
+    const verifier = new SourceVerifier(repository, {
+      regulationsApiKey: 'test-key',
+      regulationsBaseUrl: `${baseUrl}/v4`,
+      delayMs: 0,
+      timeoutMs: 2000,
+      reprocess: async rawRule => {
+        reprocessed.push(rawRule);
+        return { ...makeRule('ai', {}), title: 'Annual Report (updated)', description: rawRule.content };
+      }
+    });
+
+    const run = await verifier.run();
+    const statusOf = (ruleId: string) => run.results.find(result => result.rule_id === ruleId)?.status;
+
+    check('run completed', run.status === 'completed');
+    check('unchanged page detected', statusOf('stable') === 'unchanged');
+    check('changed page detected', statusOf('changing') === 'changed');
+    check('Regulations.gov document re-queried via API', statusOf('regulation') === 'unchanged' &&
+      run.results.find(result => result.rule_id === 'regulation')?.method === 'regulations_api');
+    check('missing content hash recorded as baseline', statusOf('new-source') === 'baseline');
+    check('fetch failure recorded as error', statusOf('missing') === 'error');
+    check('AI-generated source skipped', statusOf('generated') === 'skipped');
+    check('changed rule queued for re-processing', run.outdated_rule_ids.length === 1 && run.outdated_rule_ids[0] === 'changing');
+    check('re-processor received the new content', reprocessed[0]?.content.includes('April 1') === true);
+
+    const changingRule = await repository.getRuleById('changing');
+    check('re-processed rule stored as a new version', changingRule?.title === 'Annual Report (updated)' && (changingRule?.version || 0) >= 2);
+    check('re-processed source verified with new hash', changingRule?.sources[0]?.verification_status === 'verified' &&
+      changingRule?.sources[0]?.content_hash === md5('Annual report is due by April 1 and costs $75 to file.'));
+
+    const history = await repository.getRuleHistory('changing');
+    check('history shows outdated flag and re-processing', history.some(revision =>
+      revision.changes.some(change => change.path === 'sources' && JSON.stringify(change.after).includes('outdated'))));
+
+    const baselineRule = await repository.getRuleById('new-source');
+    check('baseline hash stored', !!baselineRule?.sources[0]?.content_hash);
+
+    // Without a re-processor the rule stays outdated and the run records it as pending
+    pages['/stable'] = '<html><body><article>Poster requirements were withdrawn.</article></body></html>';
+    const flagOnly = new SourceVerifier(repository, { delayMs: 0, timeoutMs: 2000 });
+    const secondRun = await flagOnly.run('scheduled');
+    const stableRule = await repository.getRuleById('stable');
+    check('outdated rule left pending without re-processor', stableRule?.sources[0]?.verification_status === 'outdated' &&
+      secondRun.reprocessing.some(result => result.rule_id === 'stable' && result.status === 'pending'));
+
+    const runs = await repository.getVerificationRuns();
+    check('run history persisted (newest first)', runs.length === 2 && runs[0]?.run_id === secondRun.run_id);
+
+    // Capped runs move on to the rules verified longest ago
+    const rotating = new SourceVerifier(repository, { delayMs: 0, timeoutMs: 2000, maxRules: 3 });
+    const firstBatch = (await rotating.run()).results.map(result => result.rule_id);
+    const secondBatch = (await rotating.run()).results.map(result => result.rule_id);
+    check('successive capped runs cover the whole library', firstBatch.length === 3 && secondBatch.length === 3 &&
+      new Set([...firstBatch, ...secondBatch]).size === 6);
+
+    console.log(`\n📊 Run summary: ${run.sources_checked} sources checked, ${run.changed} changed, ${run.errors} errors`);
+  } finally {
+    server.close();
+  }
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\n🎉 Source verification test passed!');
+}
+
+// Run the test
+testSourceVerification().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,126 @@
+import { AIRuleGenerator } from './services/AIRuleGenerator';
+import { hashPrompt } from './services/LlmClient';
+import { LlmClient, LlmCompletion, LlmCompletionOptions, LlmMessage } from './types/LlmClient';
+
+// Structured-output generation: retry/repair loop and per-call telemetry (offline, scripted model)
+
+type ScriptedResponse = { content: string; finish_reason?: string };
+
+// Returns queued responses in order and remembers what it was asked
+class QueuedLlmClient implements LlmClient {
+  readonly provider = 'fixture' as const;
+  readonly model = 'queued-model';
+  calls: { messages: LlmMessage[]; options: LlmCompletionOptions }[] = [];
+
+  constructor(private responses: ScriptedResponse[]) {}
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async complete(messages: LlmMessage[], options: LlmCompletionOptions = {}): Promise<LlmCompletion> {
+    this.calls.push({ messages, options });
+    const next = this.responses.shift() || { content: '' };
+    return {
+      content: next.content,
+      model: this.model,
+      provider: this.provider,
+      finish_reason: next.finish_reason || 'stop',
+      usage: { prompt_tokens: 100, completion_tokens: 50 },
+      prompt_hash: hashPrompt(messages)
+    };
+  }
+}
+
+const validRule = {
+  title: 'Form 941 Quarterly Payroll Return',
+  description: 'Employers must file Form 941 every quarter.',
+  authority: 'IRS',
+  level: 'federal',
+  priority: 'high',
+  applicability_criteria: {
+    business_types: ['LLC'], employee_count: { min: 1, max: 999999 }, annual_revenue: { min: 0, max: 999999999 },
+    industries: ['ALL'], states: ['ALL'], special_conditions: ['has_employees']
+  },
+  compliance_steps: [{ step_number: 1, step_description: 'File Form 941', deadline: 'Quarterly', required_forms: [], estimated_cost: 0, estimated_time: '1 hour' }],
+  estimated_cost: { filing_fees: 0, penalty_range: { min: 50, max: 5000 } },
+  tags: ['payroll']
+};
+
+async function testStructuredGeneration() {
+  console.log('🧪 Testing Structured Rule Generation');
+  console.log('=====================================\n');
+
+  let failures = 0;
+  const check = (label: string, condition: boolean) => {
+    console.log(`${condition ? '✅' : '❌'} ${label}`);
+    if (!condition) failures++;
+  };
+
+  // Truncated first answer, complete second answer (one rule lacks a description)
+  const truncated = new QueuedLlmClient([
+    { content: '{"rules": [{"title": "Form 941', finish_reason: 'length' },
+    { content: JSON.stringify({ rules: [validRule, { ...validRule, title: 'No description', description: '' }] }) }
+  ]);
+  const generator = new AIRuleGenerator(truncated);
+  const batch = await generator.generateFederalRules(2);
+  const telemetry = batch.telemetry;
+
+  check('JSON schema sent with the request', truncated.calls[0]?.options.jsonSchema?.name === 'compliance_rule_batch');
+  check('truncated response retried', truncated.calls.length === 2 && telemetry?.retries === 1);
+  check('truncation recorded as a parse failure', telemetry?.parse_failures[0]?.reason === 'truncated' &&
+    telemetry?.parse_failures[0]?.finish_reason === 'length');
+  check('retry asks for a shorter answer without echoing the cut-off JSON', truncated.calls[1]?.messages.length === 2 &&
+    truncated.calls[1]?.messages[1]?.content.includes('cut off') === true);
+  check('repaired call status and counts', telemetry?.status === 'repaired' && telemetry?.requested === 2 &&
+    telemetry?.received === 2 && telemetry?.accepted === 1 && telemetry?.dropped === 1);
+  check('token usage summed across attempts', telemetry?.usage.prompt_tokens === 200);
+
+  // Invalid JSON is echoed back with the parse error; a wrong shape is retried too
+  const invalid = new QueuedLlmClient([
+    { content: '{"rules": [{"title": "A",}]}' },
+    { content: '{"items": []}' },
+    { content: JSON.stringify([validRule]) }
+  ]);
+  const repaired = await new AIRuleGenerator(invalid).generateStateRules('Texas', 1);
+  check('invalid JSON and wrong shape both retried', repaired.telemetry?.parse_failures.map(failure => failure.reason).join(',') === 'invalid_json,invalid_shape');
+  check('repair prompt includes the previous answer', invalid.calls[1]?.messages[1]?.role === 'assistant' &&
+    invalid.calls[1]?.messages[2]?.content.includes('not valid JSON') === true);
+  check('bare array accepted from servers without schema support', repaired.rules.length === 1);
+
+  // Retries are bounded; the empty fallback is visible in telemetry
+  const hopeless = new QueuedLlmClient([{ content: 'not json' }, { content: '' }, { content: 'still not json' }, { content: 'unused' }]);
+  const boundedGenerator = new AIRuleGenerator(hopeless, { maxAttempts: 3 });
+  const failed = await boundedGenerator.generateIndustrySpecificRules('Restaurants', '722511', 3);
+  check('retries stop at maxAttempts', hopeless.calls.length === 3 && failed.telemetry?.attempts === 3);
+  check('failed call returns an empty batch marked failed', failed.rules.length === 0 && failed.telemetry?.status === 'failed' &&
+    failed.telemetry?.parse_failures.length === 3);
+
+  // Scraped rules use the single-rule schema and share the telemetry log
+  const scraped = new QueuedLlmClient([{ content: '```json\n' + JSON.stringify(validRule) + '\n```' }]);
+  const scrapedGenerator = new AIRuleGenerator(scraped);
+  const rule = await scrapedGenerator.processScrapedRule({
+    title: 'Employer quarterly return', authority: 'IRS', level: 'federal',
+    sourceUrl: 'https://www.irs.gov/forms-pubs/about-form-941', content: 'File Form 941 quarterly.', scrapedAt: new Date().toISOString()
+  });
+  check('scraped rule requests the single-rule schema', scraped.calls[0]?.options.jsonSchema?.name === 'compliance_rule');
+  check('scraped rule parsed and validated', rule?.title === validRule.title && rule?.sources[0]?.source_url.includes('irs.gov') === true);
+  check('scraped call recorded in telemetry', scrapedGenerator.getTelemetry()[0]?.operation === 'processScrapedRule' &&
+    scrapedGenerator.getTelemetry()[0]?.accepted === 1);
+
+  const rejected = await new AIRuleGenerator(new QueuedLlmClient([{ content: '[1, 2]' }, { content: '' }, { content: '' }]))
+    .processScrapedRule({ title: 'x', authority: 'x', level: 'federal', sourceUrl: '', content: 'x', scrapedAt: '' });
+  check('unparseable scraped rule returns null', rejected === null);
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\n🎉 Structured generation test passed!');
+}
+
+// Run the test
+testStructuredGeneration().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
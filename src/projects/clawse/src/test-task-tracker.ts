@@ -0,0 +1,156 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { TaskTracker } from './services/TaskTracker';
+import { EvidenceStore } from './services/EvidenceStore';
+import { InMemoryRepository } from './services/InMemoryRepository';
+import { BusinessProfile, ComplianceRule, ComplianceStep } from './types/ComplianceRule';
+import { TaskUpdate } from './types/ComplianceTask';
+
+// Task tracker: sync from rules, dependency gating, transitions and evidence (offline)
+
+function makeStep(stepNumber: number, description: string, dependsOn: number[] = [], deadline = ''): ComplianceStep {
+  return {
+    step_number: stepNumber,
+    step_description: description,
+    deadline,
+    deadline_type: 'relative',
+    required_forms: [{ form_name: `Form ${stepNumber}`, form_url: '', form_type: 'online', filing_method: 'online', processing_time: '' }],
+    required_documents: [],
+    estimated_cost: 10 * stepNumber,
+    estimated_time: '1 hour',
+    depends_on_steps: dependsOn,
+    can_be_done_parallel: dependsOn.length === 0,
+    priority: 'high',
+    verification_method: 'Confirmation email',
+    completion_proof: ['Filing receipt']
+  };
+}
+
+function makeRule(id: string, title: string, steps: ComplianceStep[], initialDeadline = ''): ComplianceRule {
+  return {
+    id,
+    canonical_id: id,
+    title,
+    description: 'Fixture rule',
+    authority: 'Test Authority',
+    level: 'federal',
+    jurisdiction: 'US',
+    priority: 'high',
+    status: 'active',
+    applicability_criteria: {
+      business_types: [], employee_count: { min: 0, max: 999999 },
+      annual_revenue: { min: 0, max: 999999999, currency: 'USD' },
+      industries: [], industry_groups: [], states: ['ALL'], cities: [], counties: [],
+      special_conditions: [], exclusions: {}
+    },
+    compliance_steps: steps,
+    estimated_cost: { filing_fees: 0, ongoing_costs: 0, penalty_range: { min: 0, max: 0 } },
+    deadlines: { initial_deadline: initialDeadline },
+    sources: [],
+    tags: [], related_rules: [], conflicts_with: [],
+    version: 1,
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+    last_verified: '2024-01-01T00:00:00.000Z',
+    search_keywords: []
+  };
+}
+
+async function testTaskTracker() {
+  console.log('🗂️ Testing Compliance Task Tracker');
+  console.log('==================================\n');
+
+  let failures = 0;
+  const check = (label: string, condition: boolean) => {
+    console.log(`${condition ? '✅' : '❌'} ${label}`);
+    if (!condition) failures++;
+  };
+
+  const evidenceDir = fs.mkdtempSync(path.join(os.tmpdir(), 'clawse-evidence-'));
+  const repository = new InMemoryRepository();
+  const tracker = new TaskTracker(repository, { evidenceStore: new EvidenceStore(evidenceDir, 1024) });
+
+  const profile = { session_id: 'session_tasks', business_name: 'Task Co', formation_date: '2025-01-10' } as BusinessProfile;
+  const ein = makeRule('ein', 'Employer Identification Number', [
+    makeStep(2, 'Submit SS-4', [1], 'Within 30 days of formation'),
+    makeStep(1, 'Gather owner details'),
+    makeStep(3, 'Record EIN', [2])
+  ], 'Within 60 days of formation');
+  const license = makeRule('license', 'Business License', [makeStep(1, 'Apply for license', [], 'Before opening')]);
+
+  const tasks = await tracker.syncTasks(profile, [ein, license], { today: '2025-03-01' });
+  const taskId = (ruleId: string, step: number) => `session_tasks:${ruleId}:${step}`;
+  const find = (id: string) => tasks.find(task => task.task_id === id);
+
+  check('one task per step', tasks.length === 4);
+  check('steps ordered by dependencies', tasks.filter(task => task.rule_id === 'ein').map(task => task.step_number).join(',') === '1,2,3');
+  check('dependencies mapped to task ids', JSON.stringify(find(taskId('ein', 3))?.depends_on) === JSON.stringify([taskId('ein', 2)]));
+  check('blocked tasks reported', find(taskId('ein', 2))?.blocked_by[0] === taskId('ein', 1) && find(taskId('ein', 1))?.blocked_by.length === 0);
+  check('due date from step deadline', find(taskId('ein', 2))?.due_date === '2025-02-09' && find(taskId('ein', 2))?.is_overdue === true);
+  check('step without deadline inherits rule deadline', find(taskId('ein', 1))?.due_date === '2025-03-11');
+  check('step content copied', find(taskId('ein', 1))?.required_forms[0] === 'Form 1' && find(taskId('ein', 1))?.completion_proof[0] === 'Filing receipt');
+
+  // Dependencies gate starting and completing, not skipping
+  const blocked = await tracker.updateTask(taskId('ein', 2), { status: 'in_progress' });
+  check('blocked task cannot start', 'error' in blocked && blocked.reason === 'conflict');
+  const started = await tracker.updateTask(taskId('ein', 1), { status: 'in_progress', assignee: 'dana', actor: 'owner' });
+  check('start and assign', 'task' in started && started.task.status === 'in_progress' && started.task.assignee === 'dana' &&
+    started.task.history.filter(event => event.action !== 'created').length === 2);
+  const completed = await tracker.updateTask(taskId('ein', 1), { status: 'completed', actor: 'dana' });
+  check('completion timestamped', 'task' in completed && !!completed.task.completed_at);
+  const unblocked = await tracker.getTask(taskId('ein', 2));
+  check('dependent unblocked once done', unblocked?.blocked_by.length === 0);
+  const skipped = await tracker.updateTask(taskId('ein', 3), { status: 'not_applicable' });
+  check('blocked task can be marked not applicable', 'task' in skipped && skipped.task.status === 'not_applicable');
+  const invalid = await tracker.updateTask(taskId('ein', 3), { status: 'completed' });
+  check('transition rules enforced', 'error' in invalid && invalid.reason === 'conflict');
+  // An unchecked request body, as the API receives it
+  const unknown = await tracker.updateTask(taskId('ein', 3), { status: 'done' } as unknown as TaskUpdate);
+  check('unknown status rejected', 'error' in unknown && unknown.reason === 'invalid');
+  const missing = await tracker.updateTask('nope', { status: 'completed' });
+  check('missing task reported', 'error' in missing && missing.reason === 'not_found');
+  const unassigned = await tracker.updateTask(taskId('ein', 1), { assignee: null });
+  check('null unassigns', 'task' in unassigned && unassigned.task.assignee === undefined);
+
+  // Evidence
+  const note = await tracker.addEvidence(taskId('ein', 1), { kind: 'note', note: 'EIN letter received', actor: 'dana' });
+  check('note evidence attached', 'task' in note && note.task.evidence[0]?.kind === 'note' && note.task.evidence[0]?.added_by === 'dana');
+  const badLink = await tracker.addEvidence(taskId('ein', 1), { kind: 'link', url: 'ftp://example' });
+  check('links must be http(s)', 'error' in badLink && badLink.reason === 'invalid');
+  const file = await tracker.addEvidence(taskId('ein', 1), { kind: 'file', file_name: 'cp575.pdf', content_type: 'application/pdf', content: Buffer.from('%PDF-1.4 fixture') });
+  const fileEvidence = 'task' in file ? file.task.evidence.find(item => item.kind === 'file') : undefined;
+  check('file evidence stored with hash', !!fileEvidence && fileEvidence.size_bytes === 16 && fileEvidence.sha256?.length === 64 &&
+    fs.readFileSync(path.join(evidenceDir, fileEvidence.evidence_id), 'utf8') === '%PDF-1.4 fixture');
+  const tooLarge = await tracker.addEvidence(taskId('ein', 1), { kind: 'file', file_name: 'big.bin', content: Buffer.alloc(2048) });
+  check('oversized upload rejected', 'error' in tooLarge && tooLarge.reason === 'invalid');
+
+  // Re-analysis keeps progress, archives tasks of rules that no longer match
+  const updatedEin = { ...ein, compliance_steps: ein.compliance_steps.map(step => step.step_number === 1 ? { ...step, step_description: 'Gather owner and address details' } : step) };
+  const resynced = await tracker.syncTasks(profile, [updatedEin], { today: '2025-03-01' });
+  const kept = resynced.find(task => task.task_id === taskId('ein', 1));
+  check('progress and evidence survive re-analysis', kept?.status === 'completed' && kept?.evidence.length === 2 && kept?.title === 'Gather owner and address details');
+  check('tasks of unmatched rules archived', resynced.length === 3 &&
+    (await tracker.listTasks('session_tasks', { includeArchived: true })).some(task => task.rule_id === 'license' && task.archived));
+  const restored = await tracker.syncTasks(profile, [updatedEin, license], { today: '2025-03-01' });
+  check('archived tasks restored when the rule matches again', restored.some(task => task.rule_id === 'license' &&
+    task.history.some(event => event.action === 'restored')));
+
+  const summary = tracker.summarize('session_tasks', restored);
+  check('summary counts', summary.total === 4 && summary.by_status.completed === 1 && summary.by_status.not_applicable === 1 &&
+    summary.percent_complete === 50);
+
+  fs.rmSync(evidenceDir, { recursive: true, force: true });
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\n🎉 Task tracker test passed!');
+}
+
+// Run the test
+testTaskTracker().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,47 @@
+// Shared result cache for real-time search (implementations in src/services/CacheStore.js,
+// typed entries, TTLs and counters in src/services/ResultCache.js).
+
+export type CacheBackend = 'memory' | 'file' | 'sqlite' | 'redis';
+
+// search: ranked real-time search results (depend on the rule library)
+// regulations: raw Regulations.gov documents for a query
+export type CacheEntryType = 'search' | 'regulations';
+
+// Key/value storage with per-entry expiry; values are JSON-serializable
+export interface CacheStore {
+  readonly backend: CacheBackend;
+  get(key: string): Promise<unknown>;
+  set(key: string, value: unknown, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  deleteByPrefix(prefix: string): Promise<number>; // Returns the number of entries removed
+  size(): Promise<number>;
+  close(): Promise<void>;
+}
+
+export interface CacheConfig {
+  backend: CacheBackend;
+  maxEntries: number; // memory, file and sqlite; Redis relies on its own maxmemory policy
+  filePath?: string; // file and sqlite
+  redisUrl?: string;
+  namespace: string; // Key prefix, so one Redis can serve several deployments
+  ttlMs: Record<CacheEntryType, number>;
+}
+
+export interface CacheTypeStats {
+  hits: number;
+  misses: number;
+  sets: number;
+  invalidations: number;
+  ttl_ms: number;
+}
+
+// Counters are per process, since the last restart
+export interface CacheStats {
+  backend: CacheBackend;
+  entries: number;
+  hits: number;
+  misses: number;
+  errors: number; // Backend failures, served as misses
+  hit_rate: number; // Percentage of lookups served from the cache
+  by_type: Record<CacheEntryType, CacheTypeStats>;
+}
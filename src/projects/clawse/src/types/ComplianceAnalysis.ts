@@ -0,0 +1,113 @@
+import { BusinessProfile, ComplianceRule, ComplianceSource } from './ComplianceRule';
+import { RuleFieldChange } from './RuleRevision';
+import { ComplianceScore } from './ComplianceScore';
+import { CostForecast } from './CostForecast';
+import { TaskSummary } from './ComplianceTask';
+
+// Persisted analysis runs (analyses collection), one per call to the analyze
+// endpoints, and the comparison between two runs of the same profile.
+
+export interface AnalysisStep {
+  step_number: number;
+  description: string;
+  deadline: string;
+  estimated_cost: number;
+  estimated_time: string;
+  forms: string[]; // Form names
+}
+
+export interface AnalysisSource {
+  source_name: string;
+  source_url: string;
+  document_title?: string;
+  reliability_score: number; // 1-10
+  verification_status: ComplianceSource['verification_status'];
+  last_updated: string;
+}
+
+// Matched rule as it was at analysis time. Real-time search rules are not
+// stored in compliance_rules, so the run keeps what the report was based on.
+export interface AnalysisRule {
+  rule_id: string;
+  canonical_id: string; // Key for comparing runs: real-time rules get new ids on every search
+  version: number;
+  content_hash: string; // Rule content without bookkeeping fields, steps included
+  title: string;
+  description: string;
+  authority: string;
+  level: ComplianceRule['level'];
+  jurisdiction: string;
+  priority: ComplianceRule['priority'];
+  status: ComplianceRule['status'];
+  deadlines: ComplianceRule['deadlines'];
+  estimated_cost: ComplianceRule['estimated_cost'];
+  steps: AnalysisStep[];
+  sources: AnalysisSource[];
+}
+
+export interface AnalysisSummary {
+  total_rules: number;
+  estimated_total_cost: number; // First year
+  priority_breakdown: Record<string, number>;
+  compliance_score: number;
+  risk_level: ComplianceScore['risk_level'];
+  task_summary?: TaskSummary;
+}
+
+export interface ComplianceAnalysis {
+  analysis_id: string;
+  session_id: string;
+  created_at: string; // ISO timestamp
+  source: 'analyze' | 'analyze-enhanced';
+  profile: BusinessProfile; // Input as analyzed
+  rules: AnalysisRule[];
+  ai_report: string;
+  summary: AnalysisSummary;
+  risk_assessment: ComplianceScore;
+  cost_forecast: CostForecast;
+  metadata: {
+    search_enhanced: boolean;
+    processing_time_ms: number;
+  };
+}
+
+// Listing entry: the run without its profile, rules, report and details
+export interface AnalysisListItem {
+  analysis_id: string;
+  session_id: string;
+  created_at: string;
+  source: ComplianceAnalysis['source'];
+  business_name: string;
+  summary: AnalysisSummary;
+}
+
+export interface ChangedAnalysisRule {
+  canonical_id: string;
+  title: string;
+  from_version: number;
+  to_version: number;
+  changes: RuleFieldChange[]; // Snapshot fields; other edits show as compliance_rule
+}
+
+export interface NumberDelta {
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export interface AnalysisComparison {
+  session_id: string;
+  base: AnalysisListItem; // Older run
+  target: AnalysisListItem; // Newer run
+  rules: {
+    added: AnalysisRule[];
+    removed: AnalysisRule[];
+    changed: ChangedAnalysisRule[];
+    unchanged: number;
+  };
+  score: NumberDelta;
+  categories: Array<NumberDelta & { category: string; label: string }>;
+  first_year_cost: NumberDelta;
+  total_rules: NumberDelta;
+  profile_changes: RuleFieldChange[]; // Input fields that differ between the runs
+}
@@ -0,0 +1,72 @@
+// Structured deadlines parsed from the free-text deadline strings on rules and
+// steps (src/services/DeadlineParser.js), and the dated obligations the
+// calendar service computes from them for a business profile.
+
+export type DeadlineKind = 'absolute' | 'relative' | 'recurring' | 'ongoing' | 'unknown';
+
+export type DeadlineAnchor =
+  | 'calendar' // Fixed calendar dates ("Annually by March 15")
+  | 'formation' // Business formation date (or its anniversary)
+  | 'fiscal_year_end'
+  | 'hire'; // Each employee hire date
+
+export type RecurrenceFrequency = 'monthly' | 'quarterly' | 'semiannually' | 'annually';
+
+export interface DeadlineOffset {
+  amount: number;
+  unit: 'days' | 'weeks' | 'months' | 'years';
+}
+
+export interface DeadlineRecurrence {
+  text: string; // Original deadline text
+  kind: DeadlineKind;
+  summary: string; // Normalized description, e.g. "Annually on March 15"
+  anchor?: DeadlineAnchor;
+  frequency?: RecurrenceFrequency;
+  interval: number; // Every N periods (2 for biennial)
+  dates?: { month: number; day: number }[]; // Calendar dates per year (month 1-12)
+  day_of_month?: number; // Monthly due day, or the day in the month reached by the offset (31 = last day)
+  offset?: DeadlineOffset; // Relative to the anchor
+  before_anchor?: boolean; // "Before hiring employees": due by the anchor date
+  date?: string; // Absolute deadlines (YYYY-MM-DD)
+  confidence: 'high' | 'low'; // Low when a default was assumed (e.g. quarterly due dates)
+}
+
+export type ObligationStatus = 'overdue' | 'due_soon' | 'upcoming';
+
+export interface CalendarObligation {
+  id: string; // `${rule_id}:${origin}:${due_date}`
+  rule_id: string;
+  rule_title: string;
+  title: string;
+  origin: string; // "initial", "recurring" or "step_<n>"
+  step_number?: number;
+  due_date: string; // YYYY-MM-DD
+  grace_period_days?: number;
+  grace_end_date?: string;
+  status: ObligationStatus;
+  priority: 'critical' | 'high' | 'medium' | 'low';
+  level: 'federal' | 'state' | 'local';
+  authority: string;
+  deadline_text: string;
+  recurrence: DeadlineRecurrence;
+  estimated_cost: number;
+  source_url?: string;
+}
+
+export interface UnscheduledDeadline {
+  rule_id: string;
+  title: string;
+  origin: string;
+  deadline_text: string;
+  reason: string;
+}
+
+export interface ComplianceCalendar {
+  profile_id: string;
+  range: { start: string; end: string };
+  generated_at: string;
+  assumptions: string[]; // Profile defaults used, e.g. a calendar fiscal year
+  obligations: CalendarObligation[];
+  unscheduled: UnscheduledDeadline[];
+}
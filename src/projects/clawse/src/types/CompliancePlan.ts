@@ -0,0 +1,46 @@
+// Execution plan for the compliance steps of a profile's matched rules
+// (src/services/CompliancePlanner.js): a dependency graph over every step,
+// scheduled in elapsed days from the day the owner starts.
+
+export interface StepDuration {
+  text: string; // Original estimated_time
+  min_days: number;
+  max_days: number;
+  parsed: boolean; // False when a default was assumed ("Varies", empty)
+}
+
+export interface PlannedStep {
+  step_id: string; // `${rule_id}:${step_number}`
+  rule_id: string;
+  rule_title: string;
+  step_number: number;
+  title: string;
+  priority: 'critical' | 'high' | 'medium' | 'low';
+  depends_on: string[]; // step_ids, after dropping edges that close a cycle
+  implicit_dependency: boolean; // Sequential step (can_be_done_parallel false) ordered after the previous one
+  duration: StepDuration;
+  estimated_cost: number;
+  // Schedule on the conservative (max_days) estimates, in days from the start
+  start_day: number;
+  end_day: number;
+  slack_days: number; // How long the step can slip without delaying the plan
+  critical: boolean;
+  phase: number; // 1 = nothing to wait for
+  lane: number; // Gantt row; steps in one lane never overlap
+}
+
+export interface PlanPhase {
+  phase: number;
+  step_ids: string[];
+}
+
+export interface CompliancePlan {
+  steps: PlannedStep[]; // Ordered by start day, then priority
+  phases: PlanPhase[];
+  lanes: string[][]; // step_ids per lane, in start order
+  critical_path: string[];
+  total_days: { min: number; max: number };
+  total_cost: number;
+  cycles: string[][]; // Dependency cycles found (and broken) in the rules' steps
+  assumptions: string[];
+}
@@ -1,3 +1,5 @@
+import { RuleReview } from './RuleReview';
+
 export interface ComplianceRule {
   id: string;
   canonical_id: string;
@@ -78,6 +80,9 @@ export interface ComplianceRule {
   // Search Optimization
   search_keywords: string[]; // For full-text search
   search_vector?: string; // Generated search vector
+  
+  // Review (missing on rules stored before the review workflow)
+  review?: RuleReview;
 }
 
 export interface ComplianceStep {
@@ -147,6 +152,9 @@ export interface BusinessProfile {
   business_name: string;
   business_type: 'LLC' | 'Corp' | 'S-Corp' | 'Partnership' | 'Sole Proprietorship' | 'Non-Profit';
   formation_state?: string;
+  formation_date?: string; // YYYY-MM-DD, anchors "within 30 days of formation" deadlines
+  fiscal_year_end?: string; // MM-DD, defaults to a calendar year (12-31)
+  hire_dates?: string[]; // YYYY-MM-DD per hire, anchors new-hire deadlines
   
   // Size & Scale
   employee_count: number;
@@ -0,0 +1,50 @@
+// Compliance risk score for the rules matched to a business profile
+// (src/services/ComplianceScorer.js). 100 means nothing outstanding; each
+// rule takes away points for the part of it that is not done, weighted by
+// how much is at stake and how soon it is due.
+
+export type ScoreCategory =
+  | 'tax'
+  | 'registration'
+  | 'employment'
+  | 'privacy'
+  | 'health_safety'
+  | 'environmental'
+  | 'general';
+
+export type DeadlineProximity = 'overdue' | 'due_soon' | 'upcoming' | 'later' | 'unscheduled';
+
+export type RiskLevel = 'low' | 'moderate' | 'elevated' | 'high';
+
+export interface RuleRisk {
+  rule_id: string;
+  title: string;
+  category: ScoreCategory;
+  priority: string;
+  penalty_max: number;
+  reliability: number; // 0-1, from the sources' reliability_score (0.5 without sources)
+  weight: number; // Priority x penalty, scaled by reliability
+  completion: number; // 0-1 share of tracked steps completed or not applicable
+  tracked: boolean; // False when there are no tasks for the rule: counted as not started
+  proximity: DeadlineProximity;
+  next_due_date?: string; // YYYY-MM-DD
+  urgency: number; // 0-1
+  points_lost: number; // Against the overall score
+}
+
+export interface CategoryScore {
+  category: ScoreCategory;
+  label: string;
+  score: number; // 0-100
+  rule_count: number;
+  explanations: string[];
+}
+
+export interface ComplianceScore {
+  score: number; // 0-100
+  risk_level: RiskLevel;
+  confidence: number; // 0-1, weighted source reliability
+  categories: CategoryScore[]; // Lowest score first
+  explanations: string[];
+  rules: RuleRisk[]; // Most points lost first
+}
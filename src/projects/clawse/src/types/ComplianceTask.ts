@@ -0,0 +1,76 @@
+// Per-business task tracker (src/services/TaskTracker.js).
+// Each compliance step of a matched rule becomes a task for the profile's
+// session_id; progress, assignees and evidence survive re-analysis.
+
+export type TaskStatus = 'pending' | 'in_progress' | 'completed' | 'not_applicable';
+
+export interface TaskEvidence {
+  evidence_id: string;
+  kind: 'note' | 'link' | 'file';
+  note?: string;
+  url?: string; // kind "link"
+  file_name?: string; // kind "file": stored by EvidenceStore, served from /api/tasks/:taskId/evidence/:evidenceId
+  content_type?: string;
+  size_bytes?: number;
+  sha256?: string;
+  added_by?: string;
+  added_at: string;
+}
+
+export interface TaskEvent {
+  at: string;
+  actor?: string;
+  action: 'created' | 'status_changed' | 'assigned' | 'evidence_added' | 'archived' | 'restored';
+  from?: string;
+  to?: string;
+  note?: string;
+}
+
+export interface ComplianceTask {
+  task_id: string; // `${session_id}:${rule_id}:${step_number}`, stable across re-analysis
+  session_id: string;
+  rule_id: string;
+  rule_title: string;
+  rule_version?: number;
+  step_number: number;
+  title: string; // Step description
+  priority: 'critical' | 'high' | 'medium' | 'low';
+  depends_on: string[]; // task_ids from the step's depends_on_steps
+  status: TaskStatus;
+  assignee?: string;
+  due_date?: string; // YYYY-MM-DD, next due date of the step deadline when one can be scheduled
+  deadline_text: string;
+  estimated_time: string;
+  estimated_cost: number;
+  required_forms: string[];
+  verification_method: string;
+  completion_proof: string[]; // What counts as proof of completion
+  evidence: TaskEvidence[];
+  history: TaskEvent[];
+  archived: boolean; // The rule no longer matches the profile
+  created_at: string;
+  updated_at: string;
+  completed_at?: string;
+}
+
+// Returned by the API: stored task plus state derived when it is read
+export interface TrackedTask extends ComplianceTask {
+  blocked_by: string[]; // Dependencies that are not completed or not applicable
+  is_overdue: boolean;
+}
+
+export interface TaskUpdate {
+  status?: TaskStatus;
+  assignee?: string | null; // null unassigns
+  actor?: string;
+  note?: string;
+}
+
+export interface TaskSummary {
+  session_id: string;
+  total: number;
+  by_status: Record<TaskStatus, number>;
+  blocked: number;
+  overdue: number;
+  percent_complete: number; // Completed or not applicable
+}
@@ -0,0 +1,70 @@
+// Cost forecast for the rules matched to a business profile
+// (src/services/CostForecaster.js). Amounts are USD.
+
+export interface AmountRange {
+  min: number;
+  max: number;
+}
+
+// Rule estimated_cost in one shape, whether it was stored as the documented
+// object or as a bare number (legacy and real-time search rules)
+export interface NormalizedCost {
+  filing_fees: number;
+  ongoing_costs: number; // Annual
+  penalty_range: AmountRange;
+  step_costs: number; // Sum of compliance_steps[].estimated_cost
+  has_cost_data: boolean;
+}
+
+export type RecurringBasis =
+  | 'ongoing_costs' // Rule states an annual ongoing cost
+  | 'recurring_filing' // Filing fee repeats with the rule's recurring deadline
+  | 'none';
+
+export interface RuleCost {
+  rule_id: string;
+  title: string;
+  level: string;
+  authority: string;
+  priority: string;
+  one_time: number;
+  annual_recurring: number;
+  recurring_basis: RecurringBasis;
+  filings_per_year?: number;
+  penalty_range: AmountRange;
+  overdue_obligations: number;
+}
+
+export interface CostProjection {
+  years: number;
+  one_time: number;
+  recurring: number;
+  total: number;
+}
+
+export interface CostBucket {
+  key: string;
+  rule_count: number;
+  one_time: number;
+  annual_recurring: number;
+  penalty_exposure: AmountRange; // Overdue obligations only
+}
+
+export interface CostForecast {
+  currency: 'USD';
+  one_time: number;
+  annual_recurring: number;
+  projections: CostProjection[]; // 1, 3 and 5 years
+  penalty_exposure: AmountRange & {
+    overdue_rules: string[];
+    source: 'tasks' | 'calendar'; // Tracked task status, or past one-off deadlines
+  };
+  penalty_at_risk: AmountRange; // Every matched rule's penalty range
+  breakdown: {
+    level: CostBucket[];
+    authority: CostBucket[];
+    priority: CostBucket[];
+  };
+  rules: RuleCost[];
+  assumptions: string[];
+}
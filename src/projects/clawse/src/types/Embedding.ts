@@ -0,0 +1,56 @@
+import { ComplianceRule } from './ComplianceRule';
+
+// Text embeddings for semantic rule retrieval (providers in src/services/EmbeddingProvider.js,
+// ranking in src/services/SemanticRuleRanker.js).
+
+export type EmbeddingProviderName = 'openai' | 'local' | 'transformers' | 'hashing';
+
+export interface EmbeddingProvider {
+  readonly provider: EmbeddingProviderName;
+  readonly model: string;
+  isAvailable(): boolean; // False when e.g. the OpenAI key or the transformers package is missing
+  embed(texts: string[]): Promise<number[][]>; // One unit-length vector per text, in order
+}
+
+export interface EmbeddingConfig {
+  provider: EmbeddingProviderName;
+  model: string;
+  dimensions?: number; // Hashing vector size; OpenAI text-embedding-3 models can shorten vectors too
+  batchSize: number;
+  timeoutMs: number;
+  apiKey?: string;
+  baseUrl?: string; // OpenAI-compatible /embeddings endpoint for the local provider
+  cacheDir?: string; // Where the transformers provider keeps downloaded model weights
+}
+
+// Stored in `rule_embeddings`, one document per rule and model
+export interface RuleEmbedding {
+  rule_id: string;
+  provider: EmbeddingProviderName;
+  model: string;
+  dimensions: number;
+  text_hash: string; // sha256 of the embedded text; a changed rule is embedded again
+  vector: number[];
+  created_at: string;
+}
+
+// What a rule is ranked against; either side may be missing
+export interface RankingContext {
+  query?: string;
+  business_description?: string;
+}
+
+export interface RankedRule {
+  rule: ComplianceRule;
+  score: number; // 0-1 after re-ranking
+  similarity: {
+    query: number | null; // Cosine similarity to the query
+    business: number | null; // Cosine similarity to the business description
+  };
+  penalties: string[]; // Re-ranker matches that lowered the score, e.g. "healthcare: hospital"
+}
+
+// Optional second stage that adjusts semantic scores
+export interface RuleReranker {
+  rerank(ranked: RankedRule[], context: RankingContext): RankedRule[];
+}
@@ -0,0 +1,34 @@
+import { LlmProvider } from './LlmClient';
+
+// Per-call record of a structured rule-generation request (AIRuleGenerator),
+// so parse failures and empty fallbacks show up instead of silently returning [].
+
+export type ParseFailureReason = 'empty' | 'truncated' | 'invalid_json' | 'invalid_shape';
+
+export interface ParseFailure {
+  attempt: number;
+  reason: ParseFailureReason;
+  message: string;
+  finish_reason?: string;
+}
+
+export interface GenerationTelemetry {
+  call_id: string;
+  operation: string; // "generateFederalRules", "processScrapedRule", ...
+  provider: LlmProvider;
+  model: string;
+  started_at: string;
+  duration_ms: number;
+  attempts: number;
+  retries: number;
+  parse_failures: ParseFailure[];
+  status: 'ok' | 'repaired' | 'failed'; // repaired = parsed after at least one retry
+  requested?: number; // Rules asked for (batch generation only)
+  received: number; // Rules in the parsed response
+  accepted: number; // Rules that passed validation
+  dropped: number; // Rules rejected by validation
+  usage: {
+    prompt_tokens: number;
+    completion_tokens: number;
+  };
+}
@@ -0,0 +1,105 @@
+// Background jobs (scheduling, retries and cancellation in src/services/JobQueue.js,
+// persistence in src/services/JobStore.js).
+
+// analysis: enhanced compliance analysis of a business profile
+// scrape: government API data collection
+// generate: bulk AI rule generation (stored rules go to the review queue)
+// reverify: source re-verification run
+export type JobType = 'analysis' | 'scrape' | 'generate' | 'reverify';
+
+// queued also covers a failed attempt waiting out its retry backoff
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export type JobStoreBackend = 'file' | 'sqlite';
+
+export interface JobProgress {
+  step: string;
+  percentage: number;
+  message: string;
+}
+
+// JSON object given to the handler; its fields depend on the job type
+export type JobPayload = Record<string, unknown>;
+
+export interface JobAttemptError {
+  attempt: number;
+  error: string;
+  failed_at: string;
+}
+
+export interface Job {
+  job_id: string;
+  type: JobType;
+  status: JobStatus;
+  payload: JobPayload;
+  result?: unknown; // Set once succeeded
+  error?: string; // Latest failure
+  errors: JobAttemptError[]; // Every failed attempt, oldest first
+  progress?: JobProgress; // Latest progress of the running attempt
+  attempts: number; // Attempts started so far
+  max_attempts: number;
+  created_at: string;
+  updated_at: string;
+  run_at: string; // Earliest start of the next attempt
+  started_at?: string; // Latest attempt
+  finished_at?: string; // succeeded, failed or cancelled
+}
+
+export interface JobFilter {
+  type?: JobType;
+  status?: JobStatus[];
+  limit?: number;
+}
+
+// Job records; one queue process per store
+export interface JobStore {
+  readonly backend: JobStoreBackend;
+  get(jobId: string): Promise<Job | null>;
+  save(job: Job): Promise<void>;
+  transition(job: Job, from: JobStatus[]): Promise<boolean>; // Saves only if the stored status is in `from`
+  list(filter?: JobFilter): Promise<Job[]>; // Newest first
+  due(now: string): Promise<Job[]>; // Queued jobs with run_at <= now, earliest first
+  nextRunAt(): Promise<string | null>; // Earliest run_at of any queued job
+  prune(finishedBefore: string): Promise<number>; // Returns the number of jobs removed
+  close(): Promise<void>;
+}
+
+export interface JobContext {
+  job_id: string;
+  attempt: number;
+  signal: AbortSignal; // Aborted on cancellation or timeout
+  progress(update: JobProgress): void;
+}
+
+// Throw to fail the attempt; errors with `retryable: false` fail the job straight away
+export type JobHandler = (payload: JobPayload, context: JobContext) => Promise<unknown>;
+
+export interface JobTypeOptions {
+  concurrency?: number; // Running jobs of this type (default: the queue concurrency)
+  maxAttempts?: number;
+  timeoutMs?: number; // Per attempt; no limit by default
+}
+
+export interface JobQueueConfig {
+  backend: JobStoreBackend;
+  filePath?: string;
+  concurrency: number; // Running jobs across all types
+  maxAttempts: number;
+  retryBaseMs: number; // Backoff before the second attempt, doubled for each further one
+  retryMaxMs: number;
+  retentionMs: number; // Finished jobs older than this are removed on start
+}
+
+export interface JobTypeStats {
+  queued: number;
+  running: number;
+  concurrency: number;
+}
+
+export interface JobQueueStats {
+  backend: JobStoreBackend;
+  concurrency: number;
+  queued: number;
+  running: number;
+  by_type: Partial<Record<JobType, JobTypeStats>>;
+}
@@ -0,0 +1,66 @@
+// Provider-neutral chat completion interface used by rule generation,
+// real-time search and report generation (implementations in src/services/LlmClient.js).
+
+export type LlmProvider = 'openai' | 'local' | 'fixture';
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// JSON Schema for schema-constrained output (response_format: json_schema)
+export interface LlmJsonSchema {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+// Per-call overrides; anything omitted falls back to the client's LlmConfig
+export interface LlmCompletionOptions {
+  model?: string;
+  maxTokens?: number;
+  timeoutMs?: number;
+  temperature?: number;
+  jsonSchema?: LlmJsonSchema;
+  signal?: AbortSignal; // Cancels the request, e.g. when the job or stream it serves is aborted
+}
+
+export interface LlmCompletion {
+  content: string;
+  model: string;
+  provider: LlmProvider;
+  finish_reason?: string; // "stop", "length" (truncated), ...
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+  };
+  prompt_hash: string; // sha256 of the messages, also the fixture key
+}
+
+export interface LlmClient {
+  readonly provider: LlmProvider;
+  readonly model: string;
+  isAvailable(): boolean; // False when e.g. the OpenAI key is missing
+  complete(messages: LlmMessage[], options?: LlmCompletionOptions): Promise<LlmCompletion>;
+}
+
+export interface LlmConfig {
+  provider: LlmProvider;
+  model: string;
+  maxTokens: number;
+  timeoutMs: number;
+  maxRetries: number;
+  apiKey?: string;
+  baseUrl?: string; // OpenAI-compatible endpoint for the local provider
+  fixturesDir?: string;
+  fixtureMode?: 'replay' | 'record';
+}
+
+// What the fixture client writes to <fixturesDir>/<prompt_hash>.json
+export interface LlmFixture {
+  prompt_hash: string;
+  model: string;
+  messages: LlmMessage[];
+  content: string;
+  finish_reason?: string;
+  recorded_at: string;
+}
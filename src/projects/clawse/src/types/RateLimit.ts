@@ -0,0 +1,42 @@
+// Rate limiting of outbound HTTP to government APIs and sites (src/services/RateLimiter.js).
+
+// Token bucket for one upstream host: `burst` requests at once, refilled at
+// requestsPerSecond, plus an optional hourly quota per key
+export interface RateLimitPolicy {
+  requestsPerSecond: number;
+  burst: number;
+  hourlyQuota?: number;
+}
+
+export interface RateLimiterConfig {
+  filePath: string; // Hourly usage and Retry-After blocks, kept across restarts ('' keeps them in memory)
+  saveDelayMs?: number; // Usage changes are batched into one write per interval (default 1000)
+  policies: Record<string, RateLimitPolicy>; // By host
+  defaultPolicy: RateLimitPolicy;
+  maxRetries: number; // Retries after a 429 (or 503 with Retry-After)
+  maxWaitMs: number; // Longest a request waits for a token or a Retry-After before failing
+}
+
+export interface RateLimitRequestOptions {
+  maxWaitMs?: number;
+  maxRetries?: number;
+}
+
+// Persisted per key
+export interface RateLimitUsage {
+  window_start: number; // Start of the current hour window (epoch ms)
+  used: number; // Requests sent in the window
+  throttled: number; // 429 responses in the window
+  blocked_until: number; // Epoch ms; 0 when not blocked
+}
+
+export interface RateLimitQuota {
+  key: string; // Host, plus #<hash of the API key> for keyed requests
+  host: string;
+  used: number;
+  limit: number | null; // null when the host has no hourly quota
+  remaining: number | null;
+  throttled: number;
+  resets_at: string;
+  blocked_until: string | null;
+}
@@ -0,0 +1,56 @@
+import { ComplianceRule, BusinessProfile } from './ComplianceRule';
+import { RuleMatchResult } from './RuleMatch';
+import { RuleRevision } from './RuleRevision';
+import { VerificationRun } from './SourceVerification';
+import { ComplianceTask } from './ComplianceTask';
+import { ComplianceAnalysis } from './ComplianceAnalysis';
+import { RuleDeduplicationEntry } from './RuleDeduplication';
+import { RuleEmbedding } from './Embedding';
+
+// Storage contracts shared by the Firestore and local (in-memory) backends.
+// Select the backend with STORAGE_BACKEND=firestore|memory (see src/config/storage.ts).
+
+export interface RuleRepository {
+  storeRules(rules: ComplianceRule[]): Promise<void>;
+  getRules(limit?: number): Promise<ComplianceRule[]>;
+  getRecentRules(limit?: number): Promise<ComplianceRule[]>;
+  getRulesForVerification(limit?: number): Promise<ComplianceRule[]>; // Active rules, least recently verified first
+  getRuleById(ruleId: string): Promise<ComplianceRule | null>;
+  searchRules(businessType: string, state: string, limit?: number): Promise<ComplianceRule[]>;
+  getMatchingRules(businessProfile: BusinessProfile): Promise<ComplianceRule[]>;
+  explainMatches(businessProfile: BusinessProfile): Promise<RuleMatchResult[]>;
+  hasCanonicalId(canonicalId: string): Promise<boolean>;
+  getDeduplication(canonicalId: string): Promise<RuleDeduplicationEntry | null>;
+  storeDeduplication(entries: RuleDeduplicationEntry[]): Promise<void>; // Replaces entries by canonical_id
+  getRuleEmbeddings(ruleIds: string[], model: string): Promise<RuleEmbedding[]>; // Rules without a vector are left out
+  storeRuleEmbeddings(embeddings: RuleEmbedding[]): Promise<void>; // Replaces by rule_id and model
+  getRuleHistory(ruleId: string): Promise<RuleRevision[]>; // Oldest revision first
+}
+
+export interface ProfileRepository {
+  storeBusinessProfile(profile: BusinessProfile): Promise<void>;
+  getBusinessProfile(sessionId: string): Promise<BusinessProfile | null>;
+}
+
+export interface VerificationRunRepository {
+  storeVerificationRun(run: VerificationRun): Promise<void>; // Upsert by run_id
+  getVerificationRuns(limit?: number): Promise<VerificationRun[]>; // Newest first
+  getVerificationRun(runId: string): Promise<VerificationRun | null>;
+}
+
+export interface TaskRepository {
+  storeTasks(tasks: ComplianceTask[]): Promise<void>; // Upsert by task_id
+  getTasks(sessionId: string): Promise<ComplianceTask[]>; // Archived tasks included
+  getTask(taskId: string): Promise<ComplianceTask | null>;
+}
+
+export interface AnalysisRepository {
+  storeAnalysis(analysis: ComplianceAnalysis): Promise<void>;
+  getAnalyses(sessionId: string, limit?: number): Promise<ComplianceAnalysis[]>; // Newest first
+  getAnalysis(analysisId: string): Promise<ComplianceAnalysis | null>;
+}
+
+export interface ComplianceRepository extends RuleRepository, ProfileRepository, VerificationRunRepository, TaskRepository, AnalysisRepository {
+  clearTestData(): Promise<void>;
+  getCollectionStats(): Promise<{[key: string]: number}>;
+}
@@ -0,0 +1,41 @@
+// Near-duplicate detection across sources (src/services/RuleDeduplicator.js) and
+// the `rule_deduplication` index it maintains, one entry per canonical_id.
+
+export interface DedupSourceRule {
+  rule_id: string;
+  canonical_id?: string; // Set when the rule joined the entry through similarity
+  source_id: string;
+  source_url: string;
+  confidence_score: number; // 1.0 for an exact canonical_id match, otherwise similarity to the master (0-1)
+  last_seen: string;
+}
+
+export interface RuleDeduplicationEntry {
+  canonical_id: string;
+  master_rule_id: string;
+  source_rules: DedupSourceRule[];
+  method?: 'canonical_id' | 'similarity';
+  updated_at: string;
+}
+
+export interface DedupClusterMember {
+  rule_id: string;
+  title: string;
+  similarity: number; // Word similarity to the master (Jaccard, 0-1)
+}
+
+export interface DedupCluster {
+  master_rule_id: string;
+  master_title: string;
+  duplicates: DedupClusterMember[];
+  sources_added: number; // Sources the master gained from its duplicates
+}
+
+export interface DedupReport {
+  run_at: string;
+  dry_run: boolean;
+  threshold: number;
+  rules_scanned: number;
+  clusters: DedupCluster[];
+  duplicates: number; // Rules superseded by a master
+}
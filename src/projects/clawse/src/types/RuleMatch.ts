@@ -0,0 +1,47 @@
+import { BusinessLocation } from './ComplianceRule';
+
+// Result types produced by the RuleMatcher (src/services/RuleMatcher.js)
+
+export type MatchCriterion =
+  | 'status'
+  | 'review'
+  | 'business_type'
+  | 'employee_count'
+  | 'annual_revenue'
+  | 'industry'
+  | 'industry_group'
+  | 'state'
+  | 'city'
+  | 'county'
+  | 'special_conditions'
+  | 'exclusions';
+
+export interface CriterionResult {
+  criterion: MatchCriterion;
+  passed: boolean;
+  detail: string; // "state=CA via ALL", "employee_count 3 < min 5"
+}
+
+export interface RuleMatchResult {
+  rule_id: string;
+  title: string;
+  location: string; // Site the verdict was evaluated at, "Austin, TX (warehouse)"
+  applies: boolean;
+  matched: CriterionResult[];
+  failed: CriterionResult[];
+  explanation: string; // "matched: state=CA via ALL; failed: employee_count 3 < min 5"
+}
+
+export interface LocationMatchGroup {
+  location: BusinessLocation;
+  label: string;
+  employee_count: number; // Headcount at this location
+  employee_count_estimated: boolean; // No headcount given: the employees not counted at other locations
+  results: RuleMatchResult[]; // State and local rules that apply at this location
+}
+
+export interface LocationMatchReport {
+  company_wide: RuleMatchResult[]; // Federal rules, evaluated against company-wide headcount
+  locations: LocationMatchGroup[];
+  unmatched: RuleMatchResult[];
+}
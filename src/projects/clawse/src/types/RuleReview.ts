@@ -0,0 +1,42 @@
+import { ComplianceRule } from './ComplianceRule';
+import { RuleValidationError } from './RuleValidation';
+
+// Review workflow for generated rules (src/services/RuleReviewQueue.js).
+// The review state is stored on the rule, so every decision is also a rule revision.
+
+export type RuleReviewStatus = 'pending' | 'approved' | 'rejected' | 'merged';
+
+export interface RuleReviewEvent {
+  at: string;
+  reviewer: string;
+  action: 'edited' | 'approved' | 'rejected' | 'merged';
+  version: number; // Rule version the action produced
+  note?: string;
+  merged_into?: string; // Action "merged": id of the rule that absorbed this one
+}
+
+export interface RuleReview {
+  status: RuleReviewStatus;
+  reviewer?: string; // Who made the latest decision
+  reviewed_at?: string;
+  notes?: string;
+  merged_into?: string;
+  history: RuleReviewEvent[]; // Oldest first
+}
+
+export interface RuleReviewDecision {
+  reviewer: string;
+  notes?: string;
+  rule?: Partial<ComplianceRule>; // Edits saved together with the decision
+}
+
+export interface RuleReviewQueuePage {
+  status: RuleReviewStatus;
+  total: number;
+  counts: Record<RuleReviewStatus, number>;
+  rules: ComplianceRule[]; // `review` always set, pending when the rule predates the workflow
+}
+
+export type RuleReviewResult =
+  | { rule: ComplianceRule }
+  | { error: string; reason: 'not_found' | 'invalid' | 'conflict'; errors?: RuleValidationError[] };
@@ -0,0 +1,32 @@
+import { ComplianceRule } from './ComplianceRule';
+
+// Append-only revision history for compliance rules.
+// Firestore stores revisions in compliance_rules/{id}/revisions/{version};
+// the local backend keeps them in a rule_revisions collection.
+
+export interface RuleFieldChange {
+  path: string; // Dotted field path, "applicability_criteria.employee_count.min"
+  change: 'added' | 'removed' | 'modified';
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface RuleRevision {
+  rule_id: string;
+  version: number;
+  previous_version: number | null;
+  change_type: 'created' | 'updated' | 'superseded' | 'deprecated';
+  changes: RuleFieldChange[]; // Empty for the first revision
+  snapshot: ComplianceRule; // Full rule content as of this version
+  recorded_at: string; // ISO timestamp
+}
+
+export interface RuleHistoryTimeline {
+  rule_id: string;
+  current_version: number;
+  revisions: RuleRevision[]; // Oldest first
+  as_of?: {
+    date: string;
+    revision: RuleRevision | null; // Version in effect on that date
+  };
+}
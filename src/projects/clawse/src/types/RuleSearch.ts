@@ -0,0 +1,40 @@
+import { ComplianceRule } from './ComplianceRule';
+
+// Full-text, faceted search over the stored rule library
+// (src/services/RuleSearchIndex.js, GET /api/compliance-rules/query).
+
+export type RuleSearchFacet = 'level' | 'authority' | 'priority' | 'tags' | 'state' | 'industry';
+
+export interface RuleSearchQuery {
+  q?: string; // Free text; empty lists every rule that passes the filters
+  filters?: Partial<Record<RuleSearchFacet, string[]>>; // OR within a facet, AND across facets
+  status?: ComplianceRule['status'] | 'any'; // Default "active"
+  page?: number; // 1-based
+  page_size?: number;
+}
+
+export interface RuleSearchHit {
+  rule: ComplianceRule;
+  score: number | null; // BM25 score, null without a text query
+  terms: string[]; // Indexed terms the query matched
+}
+
+export interface RuleFacetCount {
+  value: string;
+  count: number;
+  selected: boolean;
+}
+
+export interface RuleSearchPage {
+  q: string;
+  filters: Partial<Record<RuleSearchFacet, string[]>>;
+  status: RuleSearchQuery['status'];
+  total: number;
+  page: number;
+  page_size: number;
+  pages: number;
+  hits: RuleSearchHit[];
+  // Counts ignore the facet's own filter, so other values stay selectable
+  facets: Record<RuleSearchFacet, RuleFacetCount[]>;
+  indexed_at: string;
+}
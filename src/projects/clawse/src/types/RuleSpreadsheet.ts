@@ -0,0 +1,49 @@
+import { RuleRepair } from './RuleValidation';
+
+// Spreadsheet (CSV/XLSX) export and import of compliance rules
+// (column layout lives in src/services/RuleSpreadsheet.js).
+
+export type RuleSheetName = 'rules' | 'steps' | 'forms' | 'sources';
+
+export type RuleSpreadsheetFormat = 'csv' | 'xlsx';
+
+export type RuleSheetCell = string | number | boolean | null;
+
+export interface RuleSheetRow {
+  row: number; // 1-based row number in the sheet, header is row 1
+  values: { [column: string]: string };
+}
+
+export type RuleSheets = Partial<Record<RuleSheetName, RuleSheetRow[]>>;
+
+export interface RuleImportError {
+  sheet: RuleSheetName;
+  row: number;
+  column?: string;
+  rule_id?: string;
+  code: string; // Validator error code, "invalid_cell", "unknown_rule", ...
+  message: string;
+}
+
+export interface RuleImportResult {
+  rule_id: string;
+  title: string;
+  row: number; // Rules sheet row, or the first row that referenced the rule
+  status: 'created' | 'updated' | 'unchanged' | 'rejected';
+  version?: number; // Version after the import
+  repairs: RuleRepair[];
+}
+
+export interface RuleImportReport {
+  imported_at: string;
+  format: RuleSpreadsheetFormat;
+  sheets: RuleSheetName[]; // Sheets found in the upload
+  dry_run: boolean;
+  total: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  rejected: number;
+  results: RuleImportResult[];
+  errors: RuleImportError[];
+}
@@ -0,0 +1,44 @@
+import { ComplianceRule } from './ComplianceRule';
+import { GenerationTelemetry } from './GenerationTelemetry';
+
+// Runtime validation of AI/scraper output before it is stored
+// (schemas and repair defaults live in src/services/RuleValidator.js).
+
+export interface RuleRepair {
+  path: string; // "compliance_steps.0.deadline_type"
+  action: 'defaulted' | 'normalized' | 'coerced' | 'removed';
+  from?: unknown;
+  to?: unknown;
+}
+
+export interface RuleValidationError {
+  path: string;
+  code: string; // zod issue code ("invalid_type", "invalid_enum_value") or "missing_required"
+  message: string;
+}
+
+export interface RuleValidationResult {
+  index: number; // Position in the batch
+  rule_id?: string;
+  title?: string;
+  status: 'valid' | 'repaired' | 'rejected';
+  repairs: RuleRepair[];
+  errors: RuleValidationError[];
+}
+
+export interface ValidationReport {
+  batch_id: string;
+  source: string; // "generateFederalRules", "processScrapedRule", ...
+  validated_at: string;
+  total: number;
+  valid: number;
+  repaired: number;
+  rejected: number;
+  results: RuleValidationResult[];
+}
+
+export interface ValidatedRuleBatch {
+  rules: ComplianceRule[]; // Valid and repaired rules only
+  report: ValidationReport;
+  telemetry?: GenerationTelemetry; // Set when the batch came from a model call
+}
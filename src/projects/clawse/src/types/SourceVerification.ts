@@ -0,0 +1,39 @@
+// Source re-verification job (src/services/SourceVerifier.js).
+// Each run re-fetches rule sources, compares content hashes and records the outcome.
+
+export type SourceCheckStatus = 'unchanged' | 'changed' | 'baseline' | 'skipped' | 'error';
+
+export interface SourceCheckResult {
+  rule_id: string;
+  source_id: string;
+  source_url: string;
+  method: 'regulations_api' | 'http';
+  status: SourceCheckStatus;
+  previous_hash?: string;
+  current_hash?: string;
+  error?: string;
+}
+
+export interface ReprocessResult {
+  rule_id: string;
+  status: 'reprocessed' | 'failed' | 'pending'; // pending = no reprocessor configured
+  new_version?: number;
+  error?: string;
+}
+
+export interface VerificationRun {
+  run_id: string;
+  trigger: 'manual' | 'scheduled';
+  status: 'running' | 'completed' | 'failed';
+  started_at: string;
+  finished_at?: string;
+  rules_checked: number;
+  sources_checked: number;
+  unchanged: number;
+  changed: number;
+  errors: number;
+  outdated_rule_ids: string[];
+  reprocessing: ReprocessResult[];
+  results: SourceCheckResult[];
+  error?: string;
+}